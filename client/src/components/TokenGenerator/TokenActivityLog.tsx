@@ -0,0 +1,95 @@
+/**
+ * Token Activity Log Component
+ *
+ * Recent calls made with one API token: endpoint, status, latency and client IP
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Loader2 } from 'lucide-react';
+import { tokenApi } from '../../lib/tokenApi';
+import type { TokenActivityEntry } from '../../../../shared/schema';
+
+interface TokenActivityLogProps {
+  tokenId: string;
+}
+
+const statusVariant = (statusCode: number | null): 'default' | 'secondary' | 'destructive' => {
+  if (statusCode === null) return 'secondary';
+  return statusCode >= 400 ? 'destructive' : 'default';
+};
+
+export function TokenActivityLog({ tokenId }: TokenActivityLogProps) {
+  const [activity, setActivity] = useState<TokenActivityEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadActivity = async () => {
+    setError(null);
+    try {
+      setActivity(await tokenApi.getTokenActivity(tokenId));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load token activity');
+    }
+  };
+
+  useEffect(() => {
+    loadActivity();
+  }, [tokenId]);
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-between text-sm py-2">
+        <span className="text-destructive">{error}</span>
+        <Button variant="outline" size="sm" onClick={loadActivity}>
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  if (!activity) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground py-2">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading activity...
+      </div>
+    );
+  }
+
+  if (activity.length === 0) {
+    return <p className="text-sm text-muted-foreground py-2">This token has not been used yet.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Time</TableHead>
+          <TableHead>Endpoint</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="text-right">Latency</TableHead>
+          <TableHead>IP Address</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {activity.map((call) => (
+          <TableRow key={call.id}>
+            <TableCell className="whitespace-nowrap">{new Date(call.createdAt).toLocaleString()}</TableCell>
+            <TableCell className="font-mono text-xs">
+              {call.method} {call.endpoint}
+            </TableCell>
+            <TableCell>
+              <Badge variant={statusVariant(call.statusCode)}>{call.statusCode ?? '—'}</Badge>
+            </TableCell>
+            <TableCell className="text-right">
+              {call.processingTime !== null ? `${call.processingTime} ms` : '—'}
+            </TableCell>
+            <TableCell className="font-mono text-xs">{call.ipAddress ?? '—'}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -35,6 +35,9 @@ export function TokenDisplay({ token, onClear }: TokenDisplayProps) {
 Generated: ${new Date().toISOString()}
 Token ID: ${token.tokenId}
 Expires: ${token.expiresAt ? new Date(token.expiresAt).toISOString() : 'Never'}
+Scopes: ${token.scopes.join(', ')}
+Allowed IPs: ${token.allowedCidrs ? token.allowedCidrs.join(', ') : 'Any'}
+Rate Limit: ${token.rateLimitPerMinute ? `${token.rateLimitPerMinute} requests/minute` : 'None'}
 Remaining Calls: ${token.usage.remaining}
 
 API Token:
@@ -122,6 +125,22 @@ https://docs.evalmatch.com/api/authentication
               }
             </p>
           </div>
+          <div className="col-span-2">
+            <p className="text-muted-foreground">Scopes</p>
+            <p className="font-mono font-medium">{token.scopes.join(', ')}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Allowed IPs</p>
+            <p className="font-mono font-medium break-all">
+              {token.allowedCidrs ? token.allowedCidrs.join(', ') : 'Any'}
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Rate Limit</p>
+            <p className="font-medium">
+              {token.rateLimitPerMinute ? `${token.rateLimitPerMinute} requests/minute` : 'None'}
+            </p>
+          </div>
         </div>
 
         {/* Token Display */}
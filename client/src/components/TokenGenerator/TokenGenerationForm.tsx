@@ -9,16 +9,41 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Label } from '../ui/label';
+import { Checkbox } from '../ui/checkbox';
+import { Textarea } from '../ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { Alert, AlertDescription } from '../ui/alert';
-import { Loader2, Key, Clock, AlertTriangle } from 'lucide-react';
+import { Loader2, Key, Clock, AlertTriangle, ShieldCheck, Globe, Gauge } from 'lucide-react';
 import { tokenApi } from '../../lib/tokenApi';
 import type { 
+  ApiTokenScope,
   TokenGenerationRequest, 
   TokenGenerationResponse,
   UsageOverview 
 } from '../../../../shared/schema';
 
+const SCOPE_OPTIONS: Record<ApiTokenScope, { label: string; description: string }> = {
+  'resumes:read': { label: 'Read resumes', description: 'List and fetch uploaded resumes' },
+  'resumes:write': { label: 'Write resumes', description: 'Upload, update and delete resumes' },
+  'jobs:read': { label: 'Read jobs', description: 'List and fetch job descriptions' },
+  'jobs:write': { label: 'Write jobs', description: 'Create, edit and delete job descriptions' },
+  'analysis:read': { label: 'Read analyses', description: 'Fetch analysis results and exports' },
+  'analysis:run': { label: 'Run analyses', description: 'Score resumes against jobs' },
+  'bias:run': { label: 'Run bias checks', description: 'Analyze job descriptions for bias' },
+};
+
+// Matches the scopes the server grants when none are chosen
+const DEFAULT_SCOPES: ApiTokenScope[] = ['resumes:read', 'jobs:read', 'analysis:read'];
+
+const createInitialFormData = (): TokenGenerationRequest => ({
+  tokenName: '',
+  expiresIn: '30d',
+  scopes: DEFAULT_SCOPES,
+});
+
+const parseCidrList = (text: string): string[] =>
+  text.split(/[\s,]+/).filter(Boolean);
+
 interface TokenGenerationFormProps {
   onTokenGenerated: (token: TokenGenerationResponse) => void;
   disabled?: boolean;
@@ -32,10 +57,21 @@ export function TokenGenerationForm({
 }: TokenGenerationFormProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [formData, setFormData] = useState<TokenGenerationRequest>({
-    tokenName: '',
-    expiresIn: '30d',
-  });
+  const [formData, setFormData] = useState<TokenGenerationRequest>(createInitialFormData);
+  const [allowedCidrsText, setAllowedCidrsText] = useState('');
+  const [rateLimitText, setRateLimitText] = useState('');
+
+  const selectedScopes = formData.scopes ?? [];
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setFormData(prev => {
+      const scopes = prev.scopes ?? [];
+      return {
+        ...prev,
+        scopes: checked ? [...scopes, scope] : scopes.filter(s => s !== scope),
+      };
+    });
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -43,14 +79,18 @@ export function TokenGenerationForm({
     setError(null);
 
     try {
-      const token = await tokenApi.generateToken(formData);
+      const allowedCidrs = parseCidrList(allowedCidrsText);
+      const token = await tokenApi.generateToken({
+        ...formData,
+        allowedCidrs: allowedCidrs.length > 0 ? allowedCidrs : undefined,
+        rateLimitPerMinute: rateLimitText ? Number(rateLimitText) : null,
+      });
       onTokenGenerated(token);
       
       // Reset form
-      setFormData({
-        tokenName: '',
-        expiresIn: '30d',
-      });
+      setFormData(createInitialFormData());
+      setAllowedCidrsText('');
+      setRateLimitText('');
     } catch (error: any) {
       console.error('Token generation failed:', error);
       setError(
@@ -159,6 +199,77 @@ export function TokenGenerationForm({
             </p>
           </div>
 
+          {/* Scopes */}
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <ShieldCheck className="h-4 w-4" />
+              Permissions
+            </Label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 p-3 border rounded-lg">
+              {(Object.keys(SCOPE_OPTIONS) as ApiTokenScope[]).map((scope) => (
+                <div key={scope} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`scope-${scope}`}
+                    checked={selectedScopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    disabled={loading || disabled}
+                  />
+                  <div className="grid gap-0.5 leading-none">
+                    <Label htmlFor={`scope-${scope}`} className="text-sm font-normal">
+                      {SCOPE_OPTIONS[scope].label}
+                    </Label>
+                    <p className="text-xs text-muted-foreground">{SCOPE_OPTIONS[scope].description}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Grant only what the integration needs. Requests outside these permissions are rejected.
+            </p>
+          </div>
+
+          {/* IP Allowlist */}
+          <div className="space-y-2">
+            <Label htmlFor="allowedCidrs" className="flex items-center gap-2">
+              <Globe className="h-4 w-4" />
+              Allowed IP Addresses
+              <span className="text-muted-foreground text-sm">(optional)</span>
+            </Label>
+            <Textarea
+              id="allowedCidrs"
+              placeholder="e.g., 203.0.113.0/24, 2001:db8::/32"
+              value={allowedCidrsText}
+              onChange={(e) => setAllowedCidrsText(e.target.value)}
+              disabled={loading || disabled}
+              rows={2}
+            />
+            <p className="text-xs text-muted-foreground">
+              IP addresses or CIDR blocks, separated by commas or new lines. Leave empty to allow any address.
+            </p>
+          </div>
+
+          {/* Rate Limit */}
+          <div className="space-y-2">
+            <Label htmlFor="rateLimitPerMinute" className="flex items-center gap-2">
+              <Gauge className="h-4 w-4" />
+              Requests per Minute
+              <span className="text-muted-foreground text-sm">(optional)</span>
+            </Label>
+            <Input
+              id="rateLimitPerMinute"
+              type="number"
+              min={1}
+              max={10000}
+              placeholder="No per-token limit"
+              value={rateLimitText}
+              onChange={(e) => setRateLimitText(e.target.value)}
+              disabled={loading || disabled}
+            />
+            <p className="text-xs text-muted-foreground">
+              Caps how fast this token can call the API, on top of your plan's call limit
+            </p>
+          </div>
+
           {/* Usage Information */}
           {usageOverview && (
             <div className="p-4 bg-muted/50 rounded-lg space-y-2">
@@ -193,7 +304,7 @@ export function TokenGenerationForm({
           <Button
             type="submit"
             className="w-full"
-            disabled={loading || disabled || !canGenerateToken}
+            disabled={loading || disabled || !canGenerateToken || selectedScopes.length === 0}
           >
             {loading ? (
               <>
@@ -16,7 +16,8 @@ import {
   AlertCircle,
   Activity,
   Globe,
-  Zap
+  Zap,
+  DollarSign
 } from 'lucide-react';
 import type { ApiUsageMetrics } from '../../../../shared/schema';
 
@@ -46,6 +47,20 @@ export function UsageMetrics({ usageMetrics }: UsageMetricsProps) {
     return 'text-red-600';
   };
 
+  const formatCost = (usd: number) => {
+    return new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+      maximumFractionDigits: usd < 1 ? 4 : 2,
+    }).format(usd);
+  };
+
+  const llmCost = usageMetrics.llmCost;
+  const budgetUsed = llmCost?.budgetUsd
+    ? Math.min((llmCost.costUsd / llmCost.budgetUsd) * 100, 100)
+    : 0;
+
   return (
     <div className="space-y-6">
       {/* Overview Cards */}
@@ -170,6 +185,99 @@ export function UsageMetrics({ usageMetrics }: UsageMetricsProps) {
         </CardContent>
       </Card>
 
+      {/* LLM Cost */}
+      {llmCost && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <DollarSign className="h-5 w-5" />
+              AI Analysis Cost
+            </CardTitle>
+            <CardDescription>
+              LLM tokens and estimated cost since {new Date(llmCost.periodStart).toLocaleDateString()}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4 text-center text-sm">
+                <div>
+                  <p className="text-muted-foreground">Cost</p>
+                  <p className="text-2xl font-bold">{formatCost(llmCost.costUsd)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Tokens</p>
+                  <p className="text-2xl font-bold">
+                    {formatNumber(llmCost.promptTokens + llmCost.completionTokens)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Completions</p>
+                  <p className="text-2xl font-bold">{formatNumber(llmCost.calls)}</p>
+                </div>
+              </div>
+
+              {llmCost.budgetUsd !== null && (
+                <div className="p-4 border rounded-lg">
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="font-medium">Monthly Budget</h4>
+                    <Badge variant={llmCost.budgetExceeded ? 'destructive' : 'default'}>
+                      {formatCost(llmCost.costUsd)} / {formatCost(llmCost.budgetUsd)}
+                    </Badge>
+                  </div>
+                  <Progress value={budgetUsed} className="mb-2" />
+                  <p className="text-sm text-muted-foreground">
+                    {llmCost.budgetExceeded
+                      ? 'Budget reached. Analyses use the most cost-effective provider until next month.'
+                      : `${formatCost(llmCost.budgetUsd - llmCost.costUsd)} remaining this month.`
+                    }
+                  </p>
+                </div>
+              )}
+
+              {llmCost.byProvider.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-medium">By Provider</h4>
+                  {llmCost.byProvider.map((provider) => (
+                    <div key={provider.provider} className="flex items-center justify-between text-sm">
+                      <span className="capitalize">{provider.provider}</span>
+                      <span className="text-muted-foreground">
+                        {formatNumber(provider.promptTokens + provider.completionTokens)} tokens · {formatCost(provider.costUsd)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {llmCost.byJob.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-medium">Most Expensive Jobs</h4>
+                  {llmCost.byJob.slice(0, 5).map((job) => (
+                    <div key={job.jobId} className="flex items-center justify-between text-sm">
+                      <span>Job #{job.jobId}</span>
+                      <span className="text-muted-foreground">
+                        {formatNumber(job.calls)} completions · {formatCost(job.costUsd)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {llmCost.byDay.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-medium">Daily Cost</h4>
+                  {llmCost.byDay.slice(-7).map((day) => (
+                    <div key={day.date} className="flex items-center justify-between text-sm">
+                      <span>{new Date(day.date).toLocaleDateString()}</span>
+                      <span className="text-muted-foreground">{formatCost(day.costUsd)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Top Endpoints */}
       <Card>
         <CardHeader>
@@ -228,6 +228,23 @@ export function UsageOverview({
                           <span>Last used: {formatDate(token.lastUsedAt)}</span>
                         )}
                       </div>
+                      <div className="flex flex-wrap items-center gap-1">
+                        {token.scopes.map((scope) => (
+                          <Badge key={scope} variant="outline" className="font-mono text-xs">
+                            {scope}
+                          </Badge>
+                        ))}
+                      </div>
+                      {(token.allowedCidrs || token.rateLimitPerMinute) && (
+                        <div className="flex items-center gap-4">
+                          {token.allowedCidrs && (
+                            <span>Allowed IPs: {token.allowedCidrs.join(', ')}</span>
+                          )}
+                          {token.rateLimitPerMinute && (
+                            <span>Limit: {token.rateLimitPerMinute}/min</span>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                   {token.isActive && (
@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { Loader, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAnalysisRating, useRateAnalysis } from "@/hooks/use-analysis-rating";
+import type { AnalysisId, AnalysisRatingVerdictName } from "@shared/api-contracts";
+
+interface AnalysisRatingControlProps {
+  analysisId: AnalysisId;
+}
+
+const VERDICT_OPTIONS: Array<{ value: AnalysisRatingVerdictName; label: string }> = [
+  { value: "score_too_low", label: "Score too low" },
+  { value: "accurate", label: "About right" },
+  { value: "score_too_high", label: "Score too high" },
+];
+
+export default function AnalysisRatingControl({ analysisId }: AnalysisRatingControlProps) {
+  const { data: rating, isLoading } = useAnalysisRating(analysisId);
+  const rateAnalysis = useRateAnalysis(analysisId);
+  const [verdict, setVerdict] = useState<AnalysisRatingVerdictName | null>(null);
+  const [missedSkills, setMissedSkills] = useState<string[]>([]);
+  const [skillInput, setSkillInput] = useState("");
+
+  // Start from the user's saved rating once it loads
+  useEffect(() => {
+    if (rating) {
+      setVerdict(rating.verdict);
+      setMissedSkills(rating.missedSkills);
+    }
+  }, [rating]);
+
+  const addSkill = () => {
+    const skill = skillInput.trim();
+    if (skill && !missedSkills.some(existing => existing.toLowerCase() === skill.toLowerCase())) {
+      setMissedSkills([...missedSkills, skill]);
+    }
+    setSkillInput("");
+  };
+
+  const canSave = (verdict !== null || missedSkills.length > 0) && !rateAnalysis.isPending;
+
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <div className="mt-6 border-t pt-4">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <span className="text-sm font-medium text-gray-700 mr-2">How accurate is this match?</span>
+        {VERDICT_OPTIONS.map(option => (
+          <Button
+            key={option.value}
+            type="button"
+            size="sm"
+            variant={verdict === option.value ? "default" : "outline"}
+            aria-pressed={verdict === option.value}
+            onClick={() => setVerdict(verdict === option.value ? null : option.value)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          className="max-w-xs h-9"
+          placeholder="Missed a skill? e.g. Kubernetes"
+          value={skillInput}
+          maxLength={100}
+          onChange={(e) => setSkillInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addSkill();
+            }
+          }}
+          aria-label="Skill the analysis missed"
+        />
+        <Button type="button" size="sm" variant="outline" onClick={addSkill} disabled={!skillInput.trim()}>
+          Add
+        </Button>
+        {missedSkills.map(skill => (
+          <span
+            key={skill}
+            className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-amber-100 text-amber-800 text-xs"
+          >
+            {skill}
+            <button
+              type="button"
+              onClick={() => setMissedSkills(missedSkills.filter(existing => existing !== skill))}
+              aria-label={`Remove ${skill}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <Button
+          type="button"
+          size="sm"
+          className="ml-auto"
+          disabled={!canSave}
+          onClick={() => rateAnalysis.mutate({ verdict, missedSkills })}
+        >
+          {rateAnalysis.isPending && <Loader className="h-4 w-4 mr-2 animate-spin" />}
+          {rating ? "Update Rating" : "Submit Rating"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Button } from "@/components/ui/button";
 import CandidateAvatar from "./CandidateAvatar";
 import CandidateMatchSummary from "./CandidateMatchSummary";
 import SkillMatchDetails from "./SkillMatchDetails";
+import AnalysisRatingControl from "./AnalysisRatingControl";
 import type { ResumeId, AnalysisId, MatchedSkill, MatchInsights, JobId } from "@shared/api-contracts";
 
 interface AnalysisResult {
@@ -122,8 +123,13 @@ export default function CandidateResultCard({
               candidateStrengths={result.candidateStrengths}
               matchPercentage={result.matchPercentage}
               onGenerateInterviewQuestions={() => onGenerateQuestions(result.resumeId, jobId)}
+              resumeId={result.resumeId}
+              jobId={jobId}
             />
           )}
+
+          {/* Results without a stored analysis (e.g. failed ones) can't be rated */}
+          {result.analysisId && <AnalysisRatingControl analysisId={result.analysisId} />}
         </CardContent>
       )}
     </Card>
@@ -0,0 +1,50 @@
+import { Download, FileSpreadsheet, FileText, Loader } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useExportAnalysis } from "@/hooks/use-analysis-api";
+import type { AnalysisExportFormat, JobId, SessionId } from "@shared/api-contracts";
+
+interface ExportMenuProps {
+  jobId: JobId;
+  sessionId?: SessionId | null;
+  batchId?: string | null;
+  disabled?: boolean;
+}
+
+const EXPORT_OPTIONS: Array<{ format: AnalysisExportFormat; label: string; icon: typeof FileText }> = [
+  { format: "pdf", label: "PDF shortlist report", icon: FileText },
+  { format: "xlsx", label: "Excel workbook (.xlsx)", icon: FileSpreadsheet },
+  { format: "csv", label: "CSV", icon: FileSpreadsheet },
+];
+
+export default function ExportMenu({ jobId, sessionId, batchId, disabled }: ExportMenuProps) {
+  const exportAnalysis = useExportAnalysis(jobId, { sessionId, batchId });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={disabled || exportAnalysis.isPending}>
+          {exportAnalysis.isPending ? (
+            <Loader className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" aria-hidden="true" />
+          )}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {EXPORT_OPTIONS.map(({ format, label, icon: Icon }) => (
+          <DropdownMenuItem key={format} onClick={() => exportAnalysis.mutate(format)}>
+            <Icon className="mr-2 h-4 w-4" />
+            <span>{label}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
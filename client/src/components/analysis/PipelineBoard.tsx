@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { Loader, Users } from "lucide-react";
+import { usePipelineBoard, useMoveCandidate } from "@/hooks/use-pipeline";
+import type { JobId, ResumeId, PipelineCandidateItem } from "@shared/api-contracts";
+
+interface PipelineBoardProps {
+  jobId: JobId | null;
+}
+
+const getScoreColor = (score: number | null) => {
+  if (score === null) return "text-gray-400";
+  if (score >= 80) return "text-green-600";
+  if (score >= 70) return "text-yellow-600";
+  return "text-red-600";
+};
+
+export default function PipelineBoard({ jobId }: PipelineBoardProps) {
+  const { data: board, isLoading } = usePipelineBoard(jobId);
+  const moveCandidate = useMoveCandidate(jobId);
+  const [draggedResumeId, setDraggedResumeId] = useState<ResumeId | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  if (!jobId) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm p-12 text-center text-gray-500">
+        Select a job description to see its hiring pipeline.
+      </div>
+    );
+  }
+
+  if (isLoading || !board) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm p-12 flex justify-center">
+        <Loader className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  const handleMove = (candidate: PipelineCandidateItem, stage: string) => {
+    if (candidate.stage === stage) return;
+    moveCandidate.mutate({ resumeId: candidate.resumeId, stage });
+  };
+
+  const handleDrop = (stage: string) => {
+    const candidate = board.stages
+      .flatMap(column => column.candidates)
+      .find(item => item.resumeId === draggedResumeId);
+    if (candidate) {
+      handleMove(candidate, stage);
+    }
+    setDraggedResumeId(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <div className="overflow-x-auto pb-2">
+      <div className="flex gap-4 min-w-max">
+        {board.stages.map(column => (
+          <div
+            key={column.key}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropTarget(column.key);
+            }}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={() => handleDrop(column.key)}
+            className={`w-64 flex-shrink-0 rounded-lg p-3 ${
+              dropTarget === column.key ? "bg-blue-50 ring-2 ring-blue-300" : "bg-gray-100"
+            }`}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <h3 className={`text-sm font-semibold ${column.isTerminal ? "text-gray-500" : "text-gray-900"}`}>
+                {column.name}
+              </h3>
+              <span className="text-xs text-gray-500 bg-white rounded-full px-2 py-0.5">
+                {column.candidates.length}
+              </span>
+            </div>
+
+            <div className="space-y-2 min-h-[4rem]">
+              {column.candidates.length === 0 && (
+                <div className="flex items-center justify-center text-xs text-gray-400 h-16">
+                  <Users className="h-4 w-4 mr-1" />
+                  No candidates
+                </div>
+              )}
+              {column.candidates.map(candidate => (
+                <div
+                  key={candidate.resumeId}
+                  draggable
+                  onDragStart={() => setDraggedResumeId(candidate.resumeId)}
+                  className="bg-white rounded-md shadow-sm border border-gray-200 p-3 cursor-grab"
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <span className="text-sm font-medium text-gray-900 truncate" title={candidate.filename}>
+                      {candidate.candidateName}
+                    </span>
+                    <span className={`text-sm font-bold ${getScoreColor(candidate.matchPercentage)}`}>
+                      {candidate.matchPercentage !== null ? `${Math.round(candidate.matchPercentage)}%` : "—"}
+                    </span>
+                  </div>
+                  <select
+                    value={candidate.stage}
+                    onChange={(e) => handleMove(candidate, e.target.value)}
+                    disabled={moveCandidate.isPending}
+                    aria-label={`Stage for ${candidate.candidateName}`}
+                    className="mt-2 w-full text-xs border border-gray-300 rounded px-2 py-1 bg-white"
+                  >
+                    {board.stages.map(stage => (
+                      <option key={stage.key} value={stage.key}>{stage.name}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
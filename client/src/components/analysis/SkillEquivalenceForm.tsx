@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { Loader } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useSubmitSkillCorrection } from "@/hooks/use-skill-corrections";
+import type { JobId, ResumeId } from "@shared/api-contracts";
+
+interface SkillEquivalenceFormProps {
+  resumeId: ResumeId;
+  jobId?: JobId;
+}
+
+// Tells extraction that two names mean the same skill, e.g. "ReactJS" and "React"
+export default function SkillEquivalenceForm({ resumeId, jobId }: SkillEquivalenceFormProps) {
+  const submitCorrection = useSubmitSkillCorrection();
+  const [skill, setSkill] = useState("");
+  const [equivalentTo, setEquivalentTo] = useState("");
+
+  const canSave = skill.trim() !== "" &&
+    equivalentTo.trim() !== "" &&
+    skill.trim().toLowerCase() !== equivalentTo.trim().toLowerCase() &&
+    !submitCorrection.isPending;
+
+  const save = () => {
+    submitCorrection.mutate(
+      { type: "equivalent", skill, equivalentTo, resumeId, jobId },
+      {
+        onSuccess: () => {
+          setSkill("");
+          setEquivalentTo("");
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="mb-6">
+      <h5 className="text-sm font-medium text-gray-700 mb-3">Same skill, different name?</h5>
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          className="max-w-[10rem] h-9"
+          placeholder="e.g. ReactJS"
+          value={skill}
+          maxLength={100}
+          onChange={(e) => setSkill(e.target.value)}
+          aria-label="Skill name as extracted"
+        />
+        <span className="text-sm text-gray-500">is</span>
+        <Input
+          className="max-w-[10rem] h-9"
+          placeholder="e.g. React"
+          value={equivalentTo}
+          maxLength={100}
+          onChange={(e) => setEquivalentTo(e.target.value)}
+          aria-label="Skill name to use instead"
+        />
+        <Button type="button" size="sm" variant="outline" disabled={!canSave} onClick={save}>
+          {submitCorrection.isPending && <Loader className="h-4 w-4 mr-2 animate-spin" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,13 @@
+import { Check, Plus, Undo2, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import SkillRadarChart from "@/components/skill-radar-chart";
-import type { MatchedSkill, MatchInsights } from "@shared/api-contracts";
+import SkillEquivalenceForm from "./SkillEquivalenceForm";
+import {
+  useSkillCorrections,
+  useSubmitSkillCorrection,
+  useDeleteSkillCorrection
+} from "@/hooks/use-skill-corrections";
+import type { JobId, MatchedSkill, MatchInsights, ResumeId } from "@shared/api-contracts";
 
 interface SkillMatchDetailsProps {
   matchedSkills: MatchedSkill[];
@@ -9,6 +16,9 @@ interface SkillMatchDetailsProps {
   candidateStrengths: string[];
   matchPercentage: number | null;
   onGenerateInterviewQuestions: () => void;
+  /** Enables skill corrections for this candidate */
+  resumeId?: ResumeId;
+  jobId?: JobId;
 }
 
 export default function SkillMatchDetails({
@@ -17,8 +27,23 @@ export default function SkillMatchDetails({
   matchInsights,
   candidateStrengths,
   matchPercentage,
-  onGenerateInterviewQuestions
+  onGenerateInterviewQuestions,
+  resumeId,
+  jobId
 }: SkillMatchDetailsProps) {
+  const { data: corrections } = useSkillCorrections(!!resumeId);
+  const submitCorrection = useSubmitSkillCorrection();
+  const deleteCorrection = useDeleteSkillCorrection();
+
+  const correctionFor = (skill: string) => {
+    const key = skill.trim().toLowerCase();
+    return corrections?.find(correction => correction.skill.toLowerCase() === key);
+  };
+
+  const correctSkill = (type: "wrong" | "missed", skill: string) => {
+    submitCorrection.mutate({ type, skill, resumeId, jobId });
+  };
+
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
       <div>
@@ -36,13 +61,42 @@ export default function SkillMatchDetails({
               ? skill.matchPercentage 
               : 85;
             
+            const markedWrong = correctionFor(skillName)?.type === 'wrong';
+
             return (
               <div key={index} className="space-y-2">
                 <div className="flex justify-between items-center">
-                  <span className="font-medium text-gray-900">{skillName}</span>
-                  <span className="text-sm font-semibold text-green-600">
-                    {matchPercentageValue}% match
+                  <span className={`font-medium ${markedWrong ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                    {skillName}
                   </span>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-semibold text-green-600">
+                      {matchPercentageValue}% match
+                    </span>
+                    {resumeId && (markedWrong ? (
+                      <button
+                        type="button"
+                        className="text-gray-400 hover:text-gray-700"
+                        onClick={() => deleteCorrection.mutate(correctionFor(skillName)!.id)}
+                        disabled={deleteCorrection.isPending}
+                        aria-label={`Undo marking ${skillName} as wrong`}
+                        title="Undo"
+                      >
+                        <Undo2 className="h-4 w-4" />
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        className="text-gray-400 hover:text-red-600"
+                        onClick={() => correctSkill('wrong', skillName)}
+                        disabled={submitCorrection.isPending}
+                        aria-label={`Mark ${skillName} as wrongly extracted`}
+                        title="Wrongly extracted"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    ))}
+                  </div>
                 </div>
                 <div className="w-full bg-gray-200 rounded-full h-2" role="progressbar" aria-valuenow={matchPercentageValue} aria-valuemin={0} aria-valuemax={100} aria-label={`${skillName} match percentage`}>
                   <div 
@@ -125,18 +179,40 @@ export default function SkillMatchDetails({
           <div className="mb-6">
             <h5 className="text-sm font-medium text-gray-700 mb-3">Missing Skills</h5>
             <div className="flex flex-wrap gap-2" role="list" aria-label="Missing skills">
-              {missingSkills.map((skill, index) => (
-                <span 
-                  key={index} 
-                  className="px-3 py-1 bg-gray-200 text-gray-700 rounded-full text-sm font-medium"
-                  role="listitem"
-                >
-                  {skill}
-                </span>
-              ))}
+              {missingSkills.map((skill, index) => {
+                const markedMissed = correctionFor(skill)?.type === 'missed';
+
+                return (
+                  <span
+                    key={index}
+                    className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm font-medium ${
+                      markedMissed ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-700'
+                    }`}
+                    role="listitem"
+                  >
+                    {skill}
+                    {resumeId && (markedMissed ? (
+                      <Check className="h-3 w-3" aria-label="Marked as missed by extraction" />
+                    ) : (
+                      <button
+                        type="button"
+                        className="text-gray-500 hover:text-green-700"
+                        onClick={() => correctSkill('missed', skill)}
+                        disabled={submitCorrection.isPending}
+                        aria-label={`Candidate has ${skill}`}
+                        title="Candidate has this skill"
+                      >
+                        <Plus className="h-3 w-3" />
+                      </button>
+                    ))}
+                  </span>
+                );
+              })}
             </div>
           </div>
         )}
+
+        {resumeId && <SkillEquivalenceForm resumeId={resumeId} jobId={jobId} />}
           
         {/* AI Generated Content Section */}
         <div className="mt-8 pt-6 border-t border-gray-200 space-y-4">
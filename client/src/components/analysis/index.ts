@@ -5,4 +5,8 @@ export { default as CandidateResultCard } from './CandidateResultCard';
 export { default as CandidateAvatar } from './CandidateAvatar';
 export { default as CandidateMatchSummary } from './CandidateMatchSummary';
 export { default as SkillMatchDetails } from './SkillMatchDetails';
-export { default as NoResultsState } from './NoResultsState';
\ No newline at end of file
+export { default as AnalysisRatingControl } from './AnalysisRatingControl';
+export { default as SkillEquivalenceForm } from './SkillEquivalenceForm';
+export { default as NoResultsState } from './NoResultsState';
+export { default as PipelineBoard } from './PipelineBoard';
+export { default as ExportMenu } from './ExportMenu';
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { Loader, Users } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useCandidateGroup, useKeepDuplicate, useMergeDuplicates } from "@/hooks/use-resumes";
+import type { CandidateGroupMember, DuplicateSignalName } from "@shared/api-contracts";
+
+interface CandidateGroupPanelProps {
+  resumeId: number;
+}
+
+const SIGNAL_LABELS: Record<DuplicateSignalName, string> = {
+  content_hash: "Identical text",
+  email: "Same email",
+  phone: "Same phone",
+  embedding: "Near-identical content",
+};
+
+function MemberStatus({ member }: { member: CandidateGroupMember }) {
+  if (member.isPrimary) {
+    return <Badge>Primary</Badge>;
+  }
+  return member.duplicateStatus === "merged"
+    ? <Badge variant="secondary">Merged</Badge>
+    : <Badge variant="outline" className="text-amber-700 border-amber-300">Possible duplicate</Badge>;
+}
+
+export default function CandidateGroupPanel({ resumeId }: CandidateGroupPanelProps) {
+  const { data, isLoading, error, refetch } = useCandidateGroup(resumeId);
+  const mergeDuplicates = useMergeDuplicates(resumeId);
+  const keepDuplicate = useKeepDuplicate();
+  const isUpdating = mergeDuplicates.isPending || keepDuplicate.isPending;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500 py-4">
+        <Loader className="h-4 w-4 animate-spin" aria-hidden="true" />
+        Loading linked resumes...
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="flex items-center justify-between text-sm py-4">
+        <span className="text-red-600">
+          {error instanceof Error ? error.message : "Failed to load linked resumes"}
+        </span>
+        <Button variant="outline" size="sm" onClick={() => refetch()}>
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  const hasSuspected = data.members.some((member) => member.duplicateStatus === "suspected");
+
+  return (
+    <div className="pt-2">
+      <div className="flex items-center justify-between gap-4">
+        <p className="flex items-center gap-2 text-sm text-gray-600">
+          <Users className="h-4 w-4" aria-hidden="true" />
+          {data.members.length} resumes look like the same candidate. Analyses that skip duplicates only use the primary.
+        </p>
+        {hasSuspected && (
+          <Button size="sm" onClick={() => mergeDuplicates.mutate({})} disabled={isUpdating}>
+            Merge
+          </Button>
+        )}
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {data.members.map((member) => (
+          <li key={member.id} className="flex items-start justify-between gap-4 py-3">
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <p className="font-medium text-gray-900 truncate">{member.filename}</p>
+                <MemberStatus member={member} />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Uploaded {new Date(member.uploadedAt).toLocaleDateString()}
+                {member.hasAnalysis && " · analyzed"}
+              </p>
+              {member.duplicateSignals.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {member.duplicateSignals.map((signal) => (
+                    <Badge key={signal} variant="secondary">{SIGNAL_LABELS[signal]}</Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {!member.isPrimary && (
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => mergeDuplicates.mutate({ primaryResumeId: member.id })}
+                  disabled={isUpdating}
+                >
+                  Make Primary
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => keepDuplicate.mutate(member.id)}
+                  disabled={isUpdating}
+                >
+                  Keep Separate
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
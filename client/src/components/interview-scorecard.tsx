@@ -0,0 +1,322 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useInterviewScorecards, useSubmitScorecard } from "@/hooks/use-interview-scorecards";
+import type {
+  InterviewRecommendationName,
+  InterviewScorecardSummary,
+  JobId,
+  ResumeId,
+} from "@shared/api-contracts";
+
+interface QuestionDraft {
+  rating?: number;
+  notes: string;
+  criteriaMet: string[];
+}
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+const RATING_LABELS: Record<number, string> = {
+  1: "Poor",
+  2: "Weak",
+  3: "Adequate",
+  4: "Strong",
+  5: "Excellent",
+};
+
+const RECOMMENDATION_LABELS: Record<InterviewRecommendationName, string> = {
+  strong_no: "Strong no hire",
+  no: "No hire",
+  yes: "Hire",
+  strong_yes: "Strong hire",
+};
+
+const scoreColor = (score: number | null) =>
+  score === null ? "text-gray-400" : score >= 75 ? "text-green-600" : score >= 50 ? "text-amber-600" : "text-red-600";
+
+function AssessmentSummary({ summary }: { summary: InterviewScorecardSummary }) {
+  const recommendations = (Object.keys(RECOMMENDATION_LABELS) as InterviewRecommendationName[])
+    .filter((key) => summary.recommendations[key] > 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4 text-center">
+        <div className="bg-white p-4 rounded-lg shadow-sm">
+          <p className="text-sm text-gray-500">Resume match</p>
+          <p className={`text-2xl font-bold ${scoreColor(summary.matchPercentage)}`}>
+            {summary.matchPercentage !== null ? `${Math.round(summary.matchPercentage)}%` : "N/A"}
+          </p>
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow-sm">
+          <p className="text-sm text-gray-500">Interview</p>
+          <p className={`text-2xl font-bold ${scoreColor(summary.interviewScore)}`}>
+            {summary.interviewScore !== null ? `${summary.interviewScore}%` : "Not scored"}
+          </p>
+          {summary.averageRating !== null && (
+            <p className="text-xs text-gray-500">
+              {summary.averageRating}/5 from {summary.interviewerCount} interviewer{summary.interviewerCount === 1 ? "" : "s"}
+            </p>
+          )}
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow-sm border-2 border-primary/20">
+          <p className="text-sm text-gray-500">Overall assessment</p>
+          <p className={`text-2xl font-bold ${scoreColor(summary.overallScore)}`}>
+            {summary.overallScore !== null ? `${summary.overallScore}%` : "N/A"}
+          </p>
+        </div>
+      </div>
+
+      {recommendations.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {recommendations.map((key) => (
+            <Badge key={key} variant="outline">
+              {RECOMMENDATION_LABELS[key]}: {summary.recommendations[key]}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {(summary.recommendationSplit || summary.disagreements.length > 0) && (
+        <Alert className="bg-amber-50 text-amber-900 border-amber-200">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {summary.recommendationSplit && (
+              <p className="font-medium">Interviewers are split on whether to hire.</p>
+            )}
+            {summary.disagreements.length > 0 && (
+              <>
+                <p className="font-medium">Ratings differ by 2+ points on:</p>
+                <ul className="list-disc pl-5">
+                  {summary.disagreements.map((disagreement) => (
+                    <li key={disagreement.questionIndex}>
+                      {disagreement.question} ({disagreement.lowestRating}-{disagreement.highestRating})
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {summary.skills.length > 0 && (
+        <div className="bg-white p-4 rounded-lg shadow-sm">
+          <h4 className="text-md font-semibold text-gray-800 mb-3">Skills assessed in interview</h4>
+          <div className="flex flex-wrap gap-2">
+            {summary.skills.map((skill) => (
+              <Badge
+                key={skill.skill}
+                variant="outline"
+                className={skill.disagreement ? "border-amber-400 bg-amber-50" : undefined}
+                title={skill.disagreement ? "Interviewers disagree on this skill" : undefined}
+              >
+                {skill.skill}: {skill.averageRating}/5
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface InterviewScorecardProps {
+  resumeId: ResumeId;
+  jobId: JobId;
+}
+
+// Render once the candidate's interview questions have been generated
+export default function InterviewScorecard({ resumeId, jobId }: InterviewScorecardProps) {
+  const { user } = useAuth();
+  const { data, isLoading } = useInterviewScorecards(resumeId, jobId);
+  const submitScorecard = useSubmitScorecard(resumeId, jobId);
+
+  const [drafts, setDrafts] = useState<Record<number, QuestionDraft>>({});
+  const [recommendation, setRecommendation] = useState<InterviewRecommendationName | undefined>();
+  const [notes, setNotes] = useState("");
+  const [loadedScorecardId, setLoadedScorecardId] = useState<number | null>(null);
+
+  // Start from the interviewer's earlier scorecard so resubmitting edits it
+  const ownScorecard = data?.scorecards.find((scorecard) => scorecard.interviewerId === user?.uid);
+  useEffect(() => {
+    if (!ownScorecard || ownScorecard.id === loadedScorecardId) return;
+    setDrafts(Object.fromEntries(ownScorecard.ratings.map((rating) => [
+      rating.questionIndex,
+      { rating: rating.rating, notes: rating.notes ?? "", criteriaMet: rating.criteriaMet ?? [] },
+    ])));
+    setRecommendation(ownScorecard.recommendation ?? undefined);
+    setNotes(ownScorecard.notes ?? "");
+    setLoadedScorecardId(ownScorecard.id);
+  }, [ownScorecard, loadedScorecardId]);
+
+  if (!data) {
+    return isLoading ? (
+      <p className="text-sm text-gray-500">Loading scorecards...</p>
+    ) : null;
+  }
+
+  const updateDraft = (questionIndex: number, change: Partial<QuestionDraft>) => {
+    setDrafts((current) => ({
+      ...current,
+      [questionIndex]: { ...(current[questionIndex] ?? { notes: "", criteriaMet: [] }), ...change },
+    }));
+  };
+
+  const toggleCriterion = (questionIndex: number, criterion: string, met: boolean) => {
+    const criteriaMet = drafts[questionIndex]?.criteriaMet ?? [];
+    updateDraft(questionIndex, {
+      criteriaMet: met ? [...criteriaMet, criterion] : criteriaMet.filter((c) => c !== criterion),
+    });
+  };
+
+  const ratings = Object.entries(drafts)
+    .filter(([, draft]) => draft.rating !== undefined)
+    .map(([questionIndex, draft]) => ({
+      questionIndex: Number(questionIndex),
+      rating: draft.rating as number,
+      ...(draft.notes.trim() ? { notes: draft.notes.trim() } : {}),
+      ...(draft.criteriaMet.length > 0 ? { criteriaMet: draft.criteriaMet } : {}),
+    }));
+
+  const handleSubmit = () => {
+    submitScorecard.mutate({
+      interviewQuestionsId: data.interviewQuestionsId,
+      ratings,
+      recommendation,
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <AssessmentSummary summary={data.summary} />
+
+      <Card>
+        <CardContent className="p-6 space-y-6">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Your scorecard</h3>
+            <p className="text-sm text-gray-600">
+              Rate the answers to the questions you asked. Unrated questions are left out.
+            </p>
+          </div>
+
+          {data.questions.map((question, questionIndex) => {
+            const draft = drafts[questionIndex];
+            const peerScore = data.summary.questions[questionIndex];
+            return (
+              <div key={questionIndex} className="border-b pb-6 last:border-b-0">
+                <p className="font-medium text-gray-800">{questionIndex + 1}. {question.question}</p>
+                {question.skillsAssessed && question.skillsAssessed.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {question.skillsAssessed.map((skill) => (
+                      <Badge key={skill} variant="secondary">{skill}</Badge>
+                    ))}
+                  </div>
+                )}
+
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  {RATINGS.map((rating) => (
+                    <Button
+                      key={rating}
+                      type="button"
+                      size="sm"
+                      variant={draft?.rating === rating ? "default" : "outline"}
+                      onClick={() => updateDraft(questionIndex, { rating })}
+                      title={RATING_LABELS[rating]}
+                    >
+                      {rating}
+                    </Button>
+                  ))}
+                  {draft?.rating !== undefined && (
+                    <span className="text-sm text-gray-600">{RATING_LABELS[draft.rating]}</span>
+                  )}
+                  {peerScore && peerScore.ratingCount > 0 && (
+                    <span className={`ml-auto text-sm ${peerScore.disagreement ? "text-amber-700" : "text-gray-500"}`}>
+                      Panel average {peerScore.averageRating}/5
+                      {peerScore.disagreement && " - interviewers disagree"}
+                    </span>
+                  )}
+                </div>
+
+                {question.evaluationCriteria && question.evaluationCriteria.length > 0 && (
+                  <div className="mt-3 space-y-2">
+                    {question.evaluationCriteria.map((criterion, criterionIndex) => {
+                      const id = `criterion-${questionIndex}-${criterionIndex}`;
+                      return (
+                        <div key={criterion} className="flex items-center gap-2">
+                          <Checkbox
+                            id={id}
+                            checked={draft?.criteriaMet.includes(criterion) ?? false}
+                            onCheckedChange={(checked) => toggleCriterion(questionIndex, criterion, checked === true)}
+                          />
+                          <Label htmlFor={id} className="text-sm font-normal">{criterion}</Label>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
+                <Textarea
+                  className="mt-3"
+                  placeholder="Notes on the answer"
+                  value={draft?.notes ?? ""}
+                  maxLength={2000}
+                  onChange={(event) => updateDraft(questionIndex, { notes: event.target.value })}
+                />
+              </div>
+            );
+          })}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Recommendation</Label>
+              <Select
+                value={recommendation}
+                onValueChange={(value) => setRecommendation(value as InterviewRecommendationName)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(RECOMMENDATION_LABELS) as InterviewRecommendationName[]).map((key) => (
+                    <SelectItem key={key} value={key}>{RECOMMENDATION_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="scorecard-notes">Overall notes</Label>
+              <Textarea
+                id="scorecard-notes"
+                value={notes}
+                maxLength={5000}
+                onChange={(event) => setNotes(event.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleSubmit} disabled={ratings.length === 0 || submitScorecard.isPending}>
+              {ownScorecard ? "Update scorecard" : "Submit scorecard"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
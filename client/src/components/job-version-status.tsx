@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { AlertTriangle, History, Loader, RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useJobVersionHistory, useReanalyzeStaleCandidates } from "@/hooks/use-job-descriptions";
+import type { JobDescriptionVersionItem } from "@shared/api-contracts";
+
+interface JobVersionStatusProps {
+  jobId: number;
+}
+
+function VersionChanges({ diff }: { diff: NonNullable<JobDescriptionVersionItem["diff"]> }) {
+  return (
+    <div className="mt-2 space-y-2 text-sm">
+      {diff.title && (
+        <p className="text-gray-700">
+          Title: <span className="line-through text-red-700">{diff.title.from}</span>{" "}
+          <span className="text-green-700">{diff.title.to}</span>
+        </p>
+      )}
+      {(diff.requirements.added.length > 0 || diff.requirements.removed.length > 0) && (
+        <div className="flex flex-wrap gap-1">
+          {diff.requirements.removed.map((requirement) => (
+            <Badge key={`-${requirement}`} variant="outline" className="border-red-300 text-red-700 line-through">
+              {requirement}
+            </Badge>
+          ))}
+          {diff.requirements.added.map((requirement) => (
+            <Badge key={`+${requirement}`} variant="outline" className="border-green-300 text-green-700">
+              {requirement}
+            </Badge>
+          ))}
+        </div>
+      )}
+      {diff.description.length > 0 && (
+        <pre className="bg-gray-50 rounded p-2 text-xs whitespace-pre-wrap font-mono">
+          {diff.description.map((change, index) => (
+            <div key={index} className={change.op === "add" ? "text-green-700" : "text-red-700"}>
+              {change.op === "add" ? "+ " : "- "}{change.text}
+            </div>
+          ))}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+export default function JobVersionStatus({ jobId }: JobVersionStatusProps) {
+  const { data } = useJobVersionHistory(jobId);
+  const { reanalyze, isRunning, progress } = useReanalyzeStaleCandidates(jobId);
+  const [showHistory, setShowHistory] = useState(false);
+
+  if (!data) {
+    return null;
+  }
+
+  const staleCount = data.staleResumeIds.length;
+
+  return (
+    <div className="mt-4 border-t border-gray-100 pt-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <Badge variant="secondary">Version {data.currentVersion}</Badge>
+        {staleCount > 0 && (
+          <span className="flex items-center gap-1 text-amber-700">
+            <AlertTriangle className="h-4 w-4" aria-hidden="true" />
+            {staleCount} candidate{staleCount === 1 ? " was" : "s were"} analyzed against an earlier version
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          {data.versions.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => setShowHistory(!showHistory)}>
+              <History className="h-4 w-4 mr-1" />
+              {showHistory ? "Hide History" : "History"}
+            </Button>
+          )}
+          {(staleCount > 0 || isRunning) && (
+            <Button size="sm" onClick={reanalyze} disabled={isRunning}>
+              {isRunning ? (
+                <Loader className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4 mr-1" />
+              )}
+              {isRunning && progress
+                ? `Re-analyzing ${progress.completed + progress.failed}/${progress.total}`
+                : "Re-analyze Stale Candidates"}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {showHistory && (
+        <ol className="mt-3 divide-y divide-gray-100">
+          {data.versions.map((version) => (
+            <li key={version.id} className="py-3">
+              <p className="text-sm font-medium text-gray-900">
+                Version {version.version}
+                <span className="ml-2 font-normal text-gray-500">
+                  {new Date(version.createdAt).toLocaleString()}
+                </span>
+              </p>
+              {version.diff ? (
+                <VersionChanges diff={version.diff} />
+              ) : (
+                <p className="text-sm text-gray-500 mt-1">Original version</p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { UserMenu } from "@/components/auth";
 import { useAuth } from "@/hooks/use-auth";
 import { useState } from "react";
 import { AuthModal } from "@/components/auth/AuthModal";
+import OrganizationSwitcher from "./organization-switcher";
 
 export default function Header() {
   const { user, isAuthenticated } = useAuth();
@@ -30,7 +31,10 @@ export default function Header() {
               />
               
               {isAuthenticated ? (
-                <UserMenu />
+                <>
+                  <OrganizationSwitcher />
+                  <UserMenu />
+                </>
               ) : (
                 <div className="flex items-center space-x-2">
                   <Button 
@@ -0,0 +1,196 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Building2, Check, ChevronDown, Plus, Ticket, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  useAcceptInvitation,
+  useActiveOrganization,
+  useCreateOrganization,
+  useOrganizations,
+} from "@/hooks/use-organizations";
+import { ORGANIZATION_ROLE_LABELS } from "@shared/organization-roles";
+
+type OpenDialog = "create" | "join" | null;
+
+// Invitation links look like https://app/?invitation=inv_...
+function takeInvitationFromUrl(): string | null {
+  const url = new URL(window.location.href);
+  const token = url.searchParams.get("invitation");
+  if (token) {
+    url.searchParams.delete("invitation");
+    window.history.replaceState(null, "", url.toString());
+  }
+  return token;
+}
+
+export default function OrganizationSwitcher() {
+  const { data: organizations } = useOrganizations();
+  const { activeOrganization, switchOrganization } = useActiveOrganization(organizations);
+  const createOrganization = useCreateOrganization();
+  const acceptInvitation = useAcceptInvitation();
+
+  const [openDialog, setOpenDialog] = useState<OpenDialog>(null);
+  const [name, setName] = useState("");
+  const [token, setToken] = useState("");
+
+  useEffect(() => {
+    const invitation = takeInvitationFromUrl();
+    if (invitation) {
+      setToken(invitation);
+      setOpenDialog("join");
+    }
+  }, []);
+
+  const closeDialog = () => {
+    setOpenDialog(null);
+    setName("");
+    setToken("");
+  };
+
+  const handleCreate = (event: FormEvent) => {
+    event.preventDefault();
+    createOrganization.mutate({ name: name.trim() }, {
+      onSuccess: (organization) => {
+        closeDialog();
+        switchOrganization(organization.id);
+      },
+    });
+  };
+
+  const handleJoin = (event: FormEvent) => {
+    event.preventDefault();
+    acceptInvitation.mutate({ token: token.trim() }, {
+      onSuccess: (organization) => {
+        closeDialog();
+        switchOrganization(organization.id);
+      },
+    });
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="max-w-[220px] text-gray-700">
+            {activeOrganization ? (
+              <Building2 className="mr-2 h-4 w-4 shrink-0" />
+            ) : (
+              <User className="mr-2 h-4 w-4 shrink-0" />
+            )}
+            <span className="truncate">{activeOrganization?.name ?? "Personal"}</span>
+            <ChevronDown className="ml-2 h-4 w-4 shrink-0 opacity-60" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="w-64" align="end">
+          <DropdownMenuLabel>Workspace</DropdownMenuLabel>
+          <DropdownMenuItem onSelect={() => switchOrganization(null)}>
+            <User className="mr-2 h-4 w-4" />
+            <span className="flex-1">Personal</span>
+            {!activeOrganization && <Check className="h-4 w-4" />}
+          </DropdownMenuItem>
+          {organizations?.map((organization) => (
+            <DropdownMenuItem key={organization.id} onSelect={() => switchOrganization(organization.id)}>
+              <Building2 className="mr-2 h-4 w-4" />
+              <div className="flex flex-1 flex-col overflow-hidden">
+                <span className="truncate">{organization.name}</span>
+                <span className="text-xs text-muted-foreground">
+                  {ORGANIZATION_ROLE_LABELS[organization.role]}
+                </span>
+              </div>
+              {activeOrganization?.id === organization.id && <Check className="h-4 w-4" />}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setOpenDialog("create")}>
+            <Plus className="mr-2 h-4 w-4" />
+            Create organization
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setOpenDialog("join")}>
+            <Ticket className="mr-2 h-4 w-4" />
+            Join with invitation
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={openDialog === "create"} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <form onSubmit={handleCreate}>
+            <DialogHeader>
+              <DialogTitle>Create organization</DialogTitle>
+              <DialogDescription>
+                Share job descriptions and resumes with your hiring team. You'll be its owner.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="organization-name">Name</Label>
+              <Input
+                id="organization-name"
+                value={name}
+                maxLength={100}
+                onChange={(event) => setName(event.target.value)}
+                placeholder="Acme Recruiting"
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={closeDialog}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim() || createOrganization.isPending}>
+                Create
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={openDialog === "join"} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <form onSubmit={handleJoin}>
+            <DialogHeader>
+              <DialogTitle>Join an organization</DialogTitle>
+              <DialogDescription>
+                Paste the invitation token an owner sent you. It only works for the email it was sent to.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="invitation-token">Invitation token</Label>
+              <Input
+                id="invitation-token"
+                value={token}
+                onChange={(event) => setToken(event.target.value)}
+                placeholder="inv_..."
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={closeDialog}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!token.trim() || acceptInvitation.isPending}>
+                Join
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,104 @@
+import { Briefcase, Loader } from "lucide-react";
+import { useLocation } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useResumeMatchingJobs } from "@/hooks/use-resumes";
+import type { ResumeMatchingJob } from "@shared/api-contracts";
+
+interface MatchingJobsPanelProps {
+  resumeId: number;
+}
+
+const getMatchColor = (matchPercentage: number) => {
+  if (matchPercentage >= 80) return "text-green-600";
+  if (matchPercentage >= 60) return "text-yellow-600";
+  return "text-red-600";
+};
+
+function MatchingJobRow({ match }: { match: ResumeMatchingJob }) {
+  const [, setLocation] = useLocation();
+
+  return (
+    <li className="flex items-start justify-between gap-4 py-3">
+      <div className="min-w-0 flex-1">
+        <p className="font-medium text-gray-900 truncate">{match.title}</p>
+        {match.error ? (
+          <p className="text-sm text-red-600 mt-1">{match.error}</p>
+        ) : (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {match.matchedSkills.slice(0, 5).map((skill) => (
+              <Badge key={skill.skill} variant="secondary">{skill.skill}</Badge>
+            ))}
+            {match.missingSkills.slice(0, 3).map((skill) => (
+              <Badge key={skill} variant="outline" className="text-red-600 border-red-200">
+                {skill}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3 flex-shrink-0">
+        {match.matchPercentage !== null && (
+          <div className="text-right">
+            <p className={`text-xl font-bold ${getMatchColor(match.matchPercentage)}`}>
+              {Math.round(match.matchPercentage)}%
+            </p>
+            <p className="text-xs text-gray-500 capitalize">{match.confidenceLevel} confidence</p>
+          </div>
+        )}
+        <Button variant="outline" size="sm" onClick={() => setLocation(`/analysis/${match.jobId}`)}>
+          View Job
+        </Button>
+      </div>
+    </li>
+  );
+}
+
+export default function MatchingJobsPanel({ resumeId }: MatchingJobsPanelProps) {
+  const { data, isLoading, error, refetch } = useResumeMatchingJobs(resumeId);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500 py-4">
+        <Loader className="h-4 w-4 animate-spin" aria-hidden="true" />
+        Analyzing this resume against your jobs...
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="flex items-center justify-between text-sm py-4">
+        <span className="text-red-600">
+          {error instanceof Error ? error.message : "Failed to load matching jobs"}
+        </span>
+        <Button variant="outline" size="sm" onClick={() => refetch()}>
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  if (data.matches.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 py-4">
+        You have no job descriptions yet. Add one to see how this resume matches.
+      </p>
+    );
+  }
+
+  return (
+    <div className="pt-2">
+      <p className="flex items-center gap-2 text-sm text-gray-600">
+        <Briefcase className="h-4 w-4" aria-hidden="true" />
+        Best {data.matches.length} of {data.totalJobs} job{data.totalJobs !== 1 ? "s" : ""}
+      </p>
+      <ul className="divide-y divide-gray-100">
+        {data.matches.map((match) => (
+          <MatchingJobRow key={match.jobId} match={match} />
+        ))}
+      </ul>
+    </div>
+  );
+}
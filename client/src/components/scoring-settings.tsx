@@ -0,0 +1,159 @@
+import { ChevronDown } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import type { JobScoringConfig } from "@shared/api-contracts";
+
+type WeightKey = "skills" | "experience" | "education" | "semantic";
+
+export interface ScoringSettingsValue {
+  // Percentages as entered; the server normalizes them to sum to 1
+  weights: Record<WeightKey, number>;
+  mustHave: string;
+  niceToHave: string;
+  minimumYears: string;
+}
+
+// Mirrors the server's default dimension weights
+export const DEFAULT_SCORING_SETTINGS: ScoringSettingsValue = {
+  weights: { skills: 47, experience: 28, education: 15, semantic: 10 },
+  mustHave: "",
+  niceToHave: "",
+  minimumYears: "",
+};
+
+const WEIGHT_FIELDS: Array<{ key: WeightKey; label: string }> = [
+  { key: "skills", label: "Skills" },
+  { key: "experience", label: "Experience" },
+  { key: "education", label: "Education" },
+  { key: "semantic", label: "Overall fit" },
+];
+
+const splitSkills = (value: string) =>
+  Array.from(new Set(value.split(",").map((skill) => skill.trim()).filter(Boolean)));
+
+/**
+ * Build the job's scoring config from the form, or null when the defaults
+ * were left untouched so the job keeps the standard scoring.
+ */
+export function toScoringConfig(value: ScoringSettingsValue): JobScoringConfig | null {
+  const config: JobScoringConfig = {};
+
+  const weightsChanged = WEIGHT_FIELDS.some(
+    ({ key }) => value.weights[key] !== DEFAULT_SCORING_SETTINGS.weights[key]
+  );
+  if (weightsChanged) {
+    config.weights = { ...value.weights };
+  }
+
+  const skillRequirements = [
+    ...splitSkills(value.mustHave).map((skill) => ({ skill, importance: "must-have" as const })),
+    ...splitSkills(value.niceToHave).map((skill) => ({ skill, importance: "nice-to-have" as const })),
+  ];
+  if (skillRequirements.length > 0) {
+    config.skillRequirements = skillRequirements;
+  }
+
+  const minimumYears = parseInt(value.minimumYears, 10);
+  if (!isNaN(minimumYears) && minimumYears >= 0) {
+    config.minimumYearsExperience = minimumYears;
+  }
+
+  return Object.keys(config).length > 0 ? config : null;
+}
+
+interface ScoringSettingsProps {
+  value: ScoringSettingsValue;
+  onChange: (value: ScoringSettingsValue) => void;
+}
+
+export default function ScoringSettings({ value, onChange }: ScoringSettingsProps) {
+  const totalWeight = WEIGHT_FIELDS.reduce((sum, { key }) => sum + value.weights[key], 0);
+
+  const setWeight = (key: WeightKey, raw: string) => {
+    const weight = Math.min(100, Math.max(0, Number(raw) || 0));
+    onChange({ ...value, weights: { ...value.weights, [key]: weight } });
+  };
+
+  return (
+    <Collapsible className="mt-6 border-t pt-4">
+      <CollapsibleTrigger className="flex w-full items-center justify-between text-sm font-medium text-gray-700 group">
+        <span>Scoring settings (optional)</span>
+        <ChevronDown className="h-4 w-4 transition-transform group-data-[state=open]:rotate-180" />
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="mt-4 space-y-4">
+        <div>
+          <p className="text-sm text-gray-500 mb-2">
+            How much each dimension counts toward the match score. Weights are relative and scaled to 100%.
+          </p>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {WEIGHT_FIELDS.map(({ key, label }) => (
+              <label key={key} className="text-sm text-gray-700">
+                {label}
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={value.weights[key]}
+                  onChange={(e) => setWeight(key, e.target.value)}
+                  className="mt-1"
+                />
+              </label>
+            ))}
+          </div>
+          {totalWeight === 0 && (
+            <p className="text-sm text-red-600 mt-2">At least one weight must be above zero.</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="mustHaveSkills" className="block text-sm font-medium text-gray-700 mb-1">
+            Must-have skills or certifications
+          </label>
+          <Input
+            id="mustHaveSkills"
+            placeholder="e.g. PMP, Security Clearance"
+            value={value.mustHave}
+            onChange={(e) => onChange({ ...value, mustHave: e.target.value })}
+          />
+          <p className="text-sm text-gray-500 mt-1">
+            Comma-separated. Candidates missing any of these score no higher than a poor match.
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="niceToHaveSkills" className="block text-sm font-medium text-gray-700 mb-1">
+            Nice-to-have skills
+          </label>
+          <Input
+            id="niceToHaveSkills"
+            placeholder="e.g. Jira, Agile"
+            value={value.niceToHave}
+            onChange={(e) => onChange({ ...value, niceToHave: e.target.value })}
+          />
+          <p className="text-sm text-gray-500 mt-1">
+            Count toward the skills score but are never held against a candidate.
+          </p>
+        </div>
+
+        <div className="max-w-xs">
+          <label htmlFor="minimumYears" className="block text-sm font-medium text-gray-700 mb-1">
+            Minimum years of experience
+          </label>
+          <Input
+            id="minimumYears"
+            type="number"
+            min={0}
+            max={50}
+            value={value.minimumYears}
+            onChange={(e) => onChange({ ...value, minimumYears: e.target.value })}
+          />
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -6,7 +6,11 @@ import {
   AnalysisRequest,
   AnalysisResponse,
   AnalysisResult,
+  AnalysisExportFormat,
   ApiResponse,
+  JobId,
+  SessionId,
+  buildAnalysisExportRoute,
   isApiSuccess
 } from "@shared/api-contracts";
 
@@ -117,6 +121,38 @@ export function useAnalysisResultByResume(jobId: number, resumeId: number) {
   });
 }
 
+// Custom hook for downloading a job's ranked results as CSV, XLSX or PDF
+export function useExportAnalysis(jobId: JobId, filters: { sessionId?: SessionId | null; batchId?: string | null } = {}) {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (format: AnalysisExportFormat): Promise<void> => {
+      const response = await apiRequest("GET", buildAnalysisExportRoute(jobId, format, filters));
+      const blob = await response.blob();
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `analysis-${jobId}.${format}`;
+
+      // Save through a temporary link; the endpoint needs the auth header, so
+      // it cannot be opened directly
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    },
+    onError: (error) => {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Failed to export analysis results",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
 // Utility functions for analysis results
 export const getMatchScoreColor = (score: number): string => {
   if (score >= 90) return "text-green-600 bg-green-50 border-green-200";
@@ -0,0 +1,60 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  buildAnalysisRatingRoute,
+  ApiResponse,
+  isApiSuccess,
+  AnalysisId,
+  AnalysisRatingItem,
+  AnalysisRatingRequest
+} from "@shared/api-contracts";
+
+async function readRating<T extends AnalysisRatingItem | null>(response: Response): Promise<T> {
+  const data = await response.json() as ApiResponse<T>;
+  if (isApiSuccess(data)) {
+    return data.data;
+  }
+  throw new Error("Invalid response format");
+}
+
+// Custom hook for the current user's rating of an analysis result (null until they rate it)
+export function useAnalysisRating(analysisId: AnalysisId | null | undefined) {
+  return useQuery({
+    queryKey: ["analysis-rating", analysisId],
+    queryFn: async (): Promise<AnalysisRatingItem | null> => {
+      const response = await apiRequest("GET", buildAnalysisRatingRoute(analysisId as AnalysisId));
+      return readRating<AnalysisRatingItem | null>(response);
+    },
+    enabled: !!analysisId,
+    staleTime: 5 * 60 * 1000, // 5 minutes - only this user changes it
+    retry: false,
+  });
+}
+
+// Custom hook for rating an analysis result; rating again replaces the earlier rating
+export function useRateAnalysis(analysisId: AnalysisId | null | undefined) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (request: AnalysisRatingRequest) => {
+      const response = await apiRequest("PUT", buildAnalysisRatingRoute(analysisId as AnalysisId), request);
+      return readRating<AnalysisRatingItem>(response);
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["analysis-rating", analysisId], data);
+      toast({
+        title: "Thanks for the Rating",
+        description: "Your rating helps us calibrate match scores.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Rating Failed",
+        description: error instanceof Error ? error.message : "Failed to save rating",
+        variant: "destructive",
+      });
+    },
+  });
+}
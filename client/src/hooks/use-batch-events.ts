@@ -0,0 +1,128 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { SessionId } from "@shared/api-contracts";
+
+// Event names sent by GET /api/batches/:batchId/events
+const BATCH_EVENT_NAMES = [
+  "resume-parsed",
+  "analysis-started",
+  "analysis-completed",
+  "processing-error",
+] as const;
+
+export type BatchEventName = typeof BATCH_EVENT_NAMES[number];
+
+export interface BatchEventMessage {
+  type: BatchEventName;
+  id: string;
+  data: {
+    batchId: string;
+    createdAt: string;
+    resumeId?: number;
+    jobId?: number;
+    filename?: string;
+    stage?: "upload" | "parsing" | "analysis";
+    error?: string;
+    total?: number;
+    progress?: { total: number; completed?: number; failed?: number; finished?: number; done?: boolean };
+    [key: string]: unknown;
+  };
+}
+
+export interface BatchAnalysisProgress {
+  total: number;
+  completed: number;
+  failed: number;
+}
+
+interface UseBatchEventsOptions {
+  sessionId: SessionId | null;
+  batchId: string | null;
+  enabled?: boolean;
+  onEvent?: (event: BatchEventMessage) => void;
+}
+
+const lastEventIdKey = (batchId: string) => `batchEvents:lastEventId:${batchId}`;
+
+// Subscribes to live progress of an upload batch. Queries keyed by the batch
+// are invalidated as resumes finish, replacing polling; the last seen event ID
+// survives reloads so a reconnect only replays what was missed.
+export function useBatchEvents({ sessionId, batchId, enabled = true, onEvent }: UseBatchEventsOptions) {
+  const queryClient = useQueryClient();
+  const [connected, setConnected] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState<BatchAnalysisProgress | null>(null);
+  const [lastEvent, setLastEvent] = useState<BatchEventMessage | null>(null);
+  // Latest callback without reconnecting when an inline handler changes
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    if (!enabled || !sessionId || !batchId || typeof EventSource === "undefined") {
+      return;
+    }
+
+    const params = new URLSearchParams({ sessionId });
+    const storedEventId = sessionStorage.getItem(lastEventIdKey(batchId));
+    if (storedEventId) {
+      // EventSource only sends Last-Event-ID on its own reconnects
+      params.append("lastEventId", storedEventId);
+    }
+
+    const source = new EventSource(`/api/batches/${batchId}/events?${params.toString()}`);
+
+    const invalidateBatchQueries = () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => query.queryKey.includes(batchId),
+      });
+    };
+
+    const handleMessage = (type: BatchEventName) => (message: MessageEvent<string>) => {
+      let data: BatchEventMessage["data"];
+      try {
+        data = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+
+      const event: BatchEventMessage = { type, id: message.lastEventId, data };
+      if (event.id) {
+        sessionStorage.setItem(lastEventIdKey(batchId), event.id);
+      }
+      setLastEvent(event);
+      onEventRef.current?.(event);
+
+      if (type === "analysis-started" && data.total !== undefined) {
+        setAnalysisProgress({ total: data.total, completed: 0, failed: 0 });
+      }
+      if (data.progress && data.progress.completed !== undefined) {
+        setAnalysisProgress({
+          total: data.progress.total,
+          completed: data.progress.completed,
+          failed: data.progress.failed ?? 0,
+        });
+      }
+
+      if (type === "resume-parsed" || data.progress?.done) {
+        invalidateBatchQueries();
+      }
+    };
+
+    const listeners = BATCH_EVENT_NAMES.map((type) => {
+      const listener = handleMessage(type) as EventListener;
+      source.addEventListener(type, listener);
+      return [type, listener] as const;
+    });
+
+    source.onopen = () => setConnected(true);
+    // The browser retries on its own; a closed source means access was denied
+    source.onerror = () => setConnected(false);
+
+    return () => {
+      listeners.forEach(([type, listener]) => source.removeEventListener(type, listener));
+      source.close();
+      setConnected(false);
+    };
+  }, [enabled, sessionId, batchId, queryClient]);
+
+  return { connected, analysisProgress, lastEvent };
+}
@@ -0,0 +1,64 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  buildInterviewScorecardsRoute,
+  ApiResponse,
+  isApiSuccess,
+  InterviewScorecardsResponse,
+  InterviewScorecardSubmitRequest,
+  JobId,
+  ResumeId
+} from "@shared/api-contracts";
+
+async function readScorecards(response: Response): Promise<InterviewScorecardsResponse> {
+  const data = await response.json() as ApiResponse<InterviewScorecardsResponse>;
+  if (isApiSuccess(data)) {
+    return data.data;
+  }
+  throw new Error("Invalid response format");
+}
+
+// Custom hook for a candidate's interview scorecards and their summary.
+// Enable it once the question set exists; before that the server responds 404.
+export function useInterviewScorecards(resumeId: ResumeId | null, jobId: JobId | null, enabled = true) {
+  return useQuery({
+    queryKey: ["interview-scorecards", resumeId, jobId],
+    queryFn: async (): Promise<InterviewScorecardsResponse> => {
+      const response = await apiRequest("GET", buildInterviewScorecardsRoute(resumeId as ResumeId, jobId as JobId));
+      return readScorecards(response);
+    },
+    enabled: enabled && !!resumeId && !!jobId,
+    staleTime: 30 * 1000, // 30 seconds - other interviewers may be submitting
+    retry: false,
+  });
+}
+
+// Custom hook for submitting the current interviewer's scorecard
+export function useSubmitScorecard(resumeId: ResumeId | null, jobId: JobId | null) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (request: InterviewScorecardSubmitRequest) => {
+      const response = await apiRequest("PUT", buildInterviewScorecardsRoute(resumeId as ResumeId, jobId as JobId), request);
+      return readScorecards(response);
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["interview-scorecards", resumeId, jobId], data);
+      toast({
+        title: "Scorecard Saved",
+        description: data.summary.interviewerCount === 1
+          ? "1 interviewer has submitted feedback."
+          : `${data.summary.interviewerCount} interviewers have submitted feedback.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save scorecard",
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -1,18 +1,26 @@
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { 
   API_ROUTES, 
+  buildRoute,
   buildJobRoute,
+  buildJobVersionsRoute,
   JobListResponse, 
   JobDetailsResponse,
   JobCreateResponse,
   JobCreateRequest,
   JobItem,
+  JobId,
+  JobVersionHistoryResponse,
+  AnalysisRunStatus,
   ApiResponse,
   isApiSuccess
 } from "@shared/api-contracts";
 
+const RUN_POLL_INTERVAL_MS = 2000;
+
 // Custom hook for fetching job descriptions list
 export function useJobDescriptions() {
   const { toast } = useToast();
@@ -182,6 +190,96 @@ export function useDeleteJobDescription() {
   });
 }
 
+// Custom hook for a job's version history and the candidates analyzed against older versions
+export function useJobVersionHistory(jobId: number) {
+  return useQuery({
+    queryKey: ["job-description-versions", jobId],
+    queryFn: async (): Promise<JobVersionHistoryResponse> => {
+      const response = await apiRequest("GET", buildJobVersionsRoute(jobId as JobId));
+      const data = await response.json() as ApiResponse<JobVersionHistoryResponse>;
+
+      if (isApiSuccess(data)) {
+        return data.data;
+      }
+      throw new Error("Invalid response format");
+    },
+    enabled: !!jobId,
+  });
+}
+
+// Custom hook for re-analyzing stale candidates. The server queues an analysis
+// run; it is polled here and the version history refreshed once it finishes.
+export function useReanalyzeStaleCandidates(jobId: number) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [runId, setRunId] = useState<number | null>(null);
+
+  const run = useQuery({
+    queryKey: ["analysis-run", runId],
+    queryFn: async (): Promise<AnalysisRunStatus> => {
+      const response = await apiRequest("GET", buildRoute(API_ROUTES.ANALYSIS.GET_RUN, { runId: runId as number }));
+      const data = await response.json() as ApiResponse<AnalysisRunStatus>;
+
+      if (isApiSuccess(data)) {
+        return data.data;
+      }
+      throw new Error("Invalid response format");
+    },
+    enabled: runId !== null,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "completed" || status === "failed" ? false : RUN_POLL_INTERVAL_MS;
+    },
+  });
+
+  const runStatus = run.data?.status;
+  useEffect(() => {
+    if (!run.data || (runStatus !== "completed" && runStatus !== "failed")) return;
+    const { progress, error } = run.data;
+
+    setRunId(null);
+    queryClient.invalidateQueries({ queryKey: ["job-description-versions", jobId] });
+    toast(runStatus === "completed"
+      ? {
+          title: "Re-analysis Complete",
+          description: `${progress.completed} candidate${progress.completed === 1 ? "" : "s"} re-analyzed against the current version.`,
+        }
+      : {
+          title: "Re-analysis Failed",
+          description: error || "The analysis run failed",
+          variant: "destructive",
+        });
+  }, [run.data, runStatus, jobId, queryClient, toast]);
+
+  const mutation = useMutation({
+    mutationFn: async (): Promise<AnalysisRunStatus> => {
+      const response = await apiRequest("POST", buildJobVersionsRoute(jobId as JobId, "reanalyze-stale"));
+      const data = await response.json() as ApiResponse<AnalysisRunStatus>;
+
+      if (isApiSuccess(data)) {
+        return data.data;
+      }
+      throw new Error("Invalid response format");
+    },
+    onSuccess: (data) => {
+      setRunId(data.runId);
+    },
+    onError: (error) => {
+      toast({
+        title: "Re-analysis Failed",
+        description: error instanceof Error ? error.message : "Failed to re-analyze stale candidates",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    reanalyze: () => mutation.mutate(),
+    isRunning: mutation.isPending || runId !== null,
+    progress: run.data?.progress,
+  };
+}
+
 // Utility functions for job descriptions
 export const getJobStatusColor = (status: string) => {
   switch (status.toLowerCase()) {
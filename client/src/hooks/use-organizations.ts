@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getActiveOrganizationId,
+  onActiveOrganizationChange,
+  setActiveOrganizationId,
+  ORGANIZATION_HEADER,
+} from "@/lib/active-organization";
+import {
+  API_ROUTES,
+  ApiResponse,
+  isApiSuccess,
+  InvitationAcceptRequest,
+  OrganizationCreateRequest,
+  OrganizationItem
+} from "@shared/api-contracts";
+
+// Organization routes don't depend on the active workspace, and listing must
+// still work when the remembered organization is one the user has left
+const WITHOUT_ACTIVE_ORGANIZATION = { headers: { [ORGANIZATION_HEADER]: "" } };
+
+async function readOrganization(response: Response): Promise<OrganizationItem> {
+  const data = await response.json() as ApiResponse<{ organization: OrganizationItem }>;
+  if (isApiSuccess(data)) {
+    return data.data.organization;
+  }
+  throw new Error("Invalid response format");
+}
+
+// Custom hook for the organizations the user belongs to
+export function useOrganizations(enabled = true) {
+  return useQuery({
+    queryKey: ["organizations"],
+    queryFn: async (): Promise<OrganizationItem[]> => {
+      const response = await apiRequest("GET", API_ROUTES.ORGANIZATIONS.LIST, undefined, WITHOUT_ACTIVE_ORGANIZATION);
+      const data = await response.json() as ApiResponse<{ organizations: OrganizationItem[] }>;
+
+      if (isApiSuccess(data)) {
+        return data.data.organizations;
+      }
+      throw new Error("Invalid response format");
+    },
+    enabled,
+    staleTime: 60 * 1000,
+    retry: 1,
+  });
+}
+
+// Custom hook for the active workspace; switching refetches everything so
+// lists show the selected organization's shared jobs and resumes
+export function useActiveOrganization(organizations: OrganizationItem[] | undefined) {
+  const queryClient = useQueryClient();
+  const [activeId, setActiveId] = useState(getActiveOrganizationId);
+
+  useEffect(() => onActiveOrganizationChange(setActiveId), []);
+
+  const active = organizations?.find(org => org.id === activeId) ?? null;
+
+  useEffect(() => {
+    if (organizations && activeId !== null && !active) {
+      setActiveOrganizationId(null);
+      queryClient.invalidateQueries();
+    }
+  }, [organizations, activeId, active, queryClient]);
+
+  const switchOrganization = (organizationId: number | null) => {
+    if (organizationId === activeId) return;
+    setActiveOrganizationId(organizationId);
+    queryClient.invalidateQueries();
+  };
+
+  return { activeOrganization: active, switchOrganization };
+}
+
+// Custom hook for creating an organization
+export function useCreateOrganization() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (request: OrganizationCreateRequest) => {
+      const response = await apiRequest("POST", API_ROUTES.ORGANIZATIONS.CREATE, request, WITHOUT_ACTIVE_ORGANIZATION);
+      return readOrganization(response);
+    },
+    onSuccess: (organization) => {
+      queryClient.invalidateQueries({ queryKey: ["organizations"] });
+      toast({
+        title: "Organization Created",
+        description: `${organization.name} is ready. Invite your team from its settings.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Create Failed",
+        description: error instanceof Error ? error.message : "Failed to create organization",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// Custom hook for accepting an invitation token
+export function useAcceptInvitation() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (request: InvitationAcceptRequest) => {
+      const response = await apiRequest("POST", API_ROUTES.ORGANIZATIONS.ACCEPT_INVITATION, request, WITHOUT_ACTIVE_ORGANIZATION);
+      return readOrganization(response);
+    },
+    onSuccess: (organization) => {
+      queryClient.invalidateQueries({ queryKey: ["organizations"] });
+      toast({
+        title: "Invitation Accepted",
+        description: `You joined ${organization.name}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Invitation Failed",
+        description: error instanceof Error ? error.message : "Failed to accept invitation",
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,66 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  buildPipelineRoute,
+  PipelineBoardResponse,
+  PipelineMoveRequest,
+  ApiResponse,
+  isApiSuccess,
+  JobId,
+  ResumeId
+} from "@shared/api-contracts";
+
+// Custom hook for fetching the pipeline board of a job
+export function usePipelineBoard(jobId: JobId | null) {
+  const { toast } = useToast();
+
+  return useQuery({
+    queryKey: ["pipeline", jobId],
+    queryFn: async (): Promise<PipelineBoardResponse> => {
+      try {
+        const response = await apiRequest("GET", buildPipelineRoute(jobId as JobId));
+        const data = await response.json() as ApiResponse<PipelineBoardResponse>;
+
+        if (isApiSuccess(data)) {
+          return data.data;
+        }
+        throw new Error("Invalid response format");
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Failed to load hiring pipeline";
+        toast({
+          title: "Error Loading Pipeline",
+          description: message,
+          variant: "destructive",
+        });
+        throw new Error(message);
+      }
+    },
+    enabled: !!jobId,
+    staleTime: 30 * 1000, // 30 seconds - stages change while the team works
+    retry: 1,
+  });
+}
+
+// Custom hook for moving a candidate between pipeline stages
+export function useMoveCandidate(jobId: JobId | null) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ resumeId, stage, note }: PipelineMoveRequest & { resumeId: ResumeId }) => {
+      const response = await apiRequest("PUT", buildPipelineRoute(jobId as JobId, resumeId), { stage, note });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["pipeline", jobId] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Move Failed",
+        description: error instanceof Error ? error.message : "Failed to move candidate",
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -4,8 +4,13 @@ import { useToast } from "@/hooks/use-toast";
 import { 
   API_ROUTES, 
   buildResumeRoute,
+  buildResumeMatchingJobsRoute,
+  buildResumeDuplicatesRoute,
+  CandidateGroupResponse,
+  DuplicateMergeRequest,
   ResumeListResponse, 
   ResumeDetailsResponse,
+  ResumeMatchingJobsResponse,
   ResumeUploadResponse,
   ResumeListQuery,
   ResumeUploadRequest,
@@ -86,6 +91,110 @@ export function useResumeDetails(resumeId: number) {
   });
 }
 
+// Custom hook for ranking the user's jobs against one resume. Analyzing the
+// shortlisted jobs can take a while, so it only runs once a resume is picked.
+export function useResumeMatchingJobs(resumeId: number | null, limit?: number) {
+  return useQuery({
+    queryKey: ["resume-matching-jobs", resumeId, limit],
+    queryFn: async (): Promise<ResumeMatchingJobsResponse> => {
+      const url = buildResumeMatchingJobsRoute(resumeId as any, limit);
+      const response = await apiRequest("GET", url);
+      const data = await response.json() as ApiResponse<ResumeMatchingJobsResponse>;
+
+      if (isApiSuccess(data)) {
+        return data.data;
+      }
+      throw new Error("Invalid response format");
+    },
+    enabled: resumeId !== null,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: false,
+  });
+}
+
+// Custom hook for the candidate group of a resume flagged as a duplicate
+export function useCandidateGroup(resumeId: number | null) {
+  return useQuery({
+    queryKey: ["candidate-group", resumeId],
+    queryFn: async (): Promise<CandidateGroupResponse> => {
+      const response = await apiRequest("GET", buildResumeDuplicatesRoute(resumeId as any));
+      const data = await response.json() as ApiResponse<CandidateGroupResponse>;
+
+      if (isApiSuccess(data)) {
+        return data.data;
+      }
+      throw new Error("Invalid response format");
+    },
+    enabled: resumeId !== null,
+    retry: false,
+  });
+}
+
+// Custom hooks for resolving a duplicate: merge the group, or keep one resume separate
+export function useMergeDuplicates(resumeId: number) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (request: DuplicateMergeRequest): Promise<CandidateGroupResponse> => {
+      const response = await apiRequest("POST", buildResumeDuplicatesRoute(resumeId as any, "merge"), request);
+      const data = await response.json() as ApiResponse<CandidateGroupResponse>;
+
+      if (isApiSuccess(data)) {
+        return data.data;
+      }
+      throw new Error("Invalid response format");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["resumes"] });
+      queryClient.invalidateQueries({ queryKey: ["candidate-group"] });
+      toast({
+        title: "Duplicates Merged",
+        description: "Only the primary resume will be analyzed when duplicates are skipped.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Merge Failed",
+        description: error instanceof Error ? error.message : "Failed to merge duplicates",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useKeepDuplicate() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (resumeId: number): Promise<CandidateGroupResponse | null> => {
+      const response = await apiRequest("POST", buildResumeDuplicatesRoute(resumeId as any, "keep"));
+      const data = await response.json() as ApiResponse<CandidateGroupResponse | null>;
+
+      if (isApiSuccess(data)) {
+        return data.data;
+      }
+      throw new Error("Invalid response format");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["resumes"] });
+      queryClient.invalidateQueries({ queryKey: ["candidate-group"] });
+      toast({
+        title: "Kept as Separate Candidate",
+        description: "The resume is no longer linked to the group.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Failed to keep resume separate",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
 // Custom hook for uploading resumes
 export function useResumeUpload() {
   const queryClient = useQueryClient();
@@ -0,0 +1,83 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  API_ROUTES,
+  buildSkillCorrectionRoute,
+  ApiResponse,
+  isApiSuccess,
+  SkillCorrectionItem,
+  SkillCorrectionRequest
+} from "@shared/api-contracts";
+
+const SKILL_CORRECTIONS_KEY = ["skill-corrections"];
+
+// Custom hook for the current user's skill corrections, newest first
+export function useSkillCorrections(enabled = true) {
+  return useQuery({
+    queryKey: SKILL_CORRECTIONS_KEY,
+    queryFn: async (): Promise<SkillCorrectionItem[]> => {
+      const response = await apiRequest("GET", API_ROUTES.SKILL_CORRECTIONS.LIST);
+      const data = await response.json() as ApiResponse<SkillCorrectionItem[]>;
+      if (isApiSuccess(data)) {
+        return data.data;
+      }
+      throw new Error("Invalid response format");
+    },
+    enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes - only this user changes them
+  });
+}
+
+// Custom hook for correcting an extracted skill; correcting a skill again replaces the earlier correction
+export function useSubmitSkillCorrection() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (request: SkillCorrectionRequest) => {
+      const response = await apiRequest("POST", API_ROUTES.SKILL_CORRECTIONS.LIST, request);
+      const data = await response.json() as ApiResponse<SkillCorrectionItem>;
+      if (isApiSuccess(data)) {
+        return data.data;
+      }
+      throw new Error("Invalid response format");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SKILL_CORRECTIONS_KEY });
+      toast({
+        title: "Correction Saved",
+        description: "Your next resume and job analyses will use it.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Correction Failed",
+        description: error instanceof Error ? error.message : "Failed to save correction",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// Custom hook for undoing a skill correction
+export function useDeleteSkillCorrection() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (correctionId: number) => {
+      await apiRequest("DELETE", buildSkillCorrectionRoute(correctionId));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SKILL_CORRECTIONS_KEY });
+    },
+    onError: (error) => {
+      toast({
+        title: "Undo Failed",
+        description: error instanceof Error ? error.message : "Failed to remove correction",
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,51 @@
+/**
+ * Active Organization
+ *
+ * Remembers which workspace the user is working in. Requests carry it in the
+ * X-Organization-Id header; without one the server lists only the user's
+ * personal jobs and resumes.
+ */
+
+const STORAGE_KEY = 'evalmatch_active_organization';
+const CHANGE_EVENT = 'evalmatch:organization-changed';
+
+export const ORGANIZATION_HEADER = 'X-Organization-Id';
+
+function readStoredOrganizationId(): number | null {
+  try {
+    const stored = Number(localStorage.getItem(STORAGE_KEY));
+    return Number.isInteger(stored) && stored > 0 ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+let activeOrganizationId = readStoredOrganizationId();
+
+export function getActiveOrganizationId(): number | null {
+  return activeOrganizationId;
+}
+
+export function setActiveOrganizationId(organizationId: number | null): void {
+  activeOrganizationId = organizationId;
+  try {
+    if (organizationId === null) {
+      localStorage.removeItem(STORAGE_KEY);
+    } else {
+      localStorage.setItem(STORAGE_KEY, String(organizationId));
+    }
+  } catch {
+    // Storage can be unavailable (private mode); the switch still applies to this tab
+  }
+  window.dispatchEvent(new CustomEvent(CHANGE_EVENT, { detail: organizationId }));
+}
+
+export function onActiveOrganizationChange(listener: (organizationId: number | null) => void): () => void {
+  const handler = () => listener(activeOrganizationId);
+  window.addEventListener(CHANGE_EVENT, handler);
+  return () => window.removeEventListener(CHANGE_EVENT, handler);
+}
+
+export function getOrganizationHeaders(): Record<string, string> {
+  return activeOrganizationId ? { [ORGANIZATION_HEADER]: String(activeOrganizationId) } : {};
+}
@@ -1,5 +1,6 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 import { authManager } from './auth-manager';
+import { getOrganizationHeaders } from './active-organization';
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -21,6 +22,7 @@ export async function apiRequest(
   const headers: Record<string, string> = {
     ...(data ? { "Content-Type": "application/json" } : {}),
     ...(token ? { "Authorization": `Bearer ${token}` } : {}),
+    ...getOrganizationHeaders(),
     ...(options?.headers || {}),
   };
 
@@ -53,6 +55,7 @@ export const getQueryFn: <T>(options: {
     // Prepare headers
     const headers: Record<string, string> = {
       ...(token ? { "Authorization": `Bearer ${token}` } : {}),
+      ...getOrganizationHeaders(),
     };
 
     const res = await fetch(queryKey[0] as string, {
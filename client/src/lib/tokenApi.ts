@@ -10,6 +10,9 @@ import type {
   TokenGenerationResponse,
   UsageOverview,
   ApiUsageMetrics,
+  TokenActivityEntry,
+  TokenAnomalyAlert,
+  TokenRotationGracePeriod,
 } from '../../../shared/schema';
 
 const API_BASE_URL = '';
@@ -129,6 +132,39 @@ class TokenApiClient {
     });
   }
 
+  /**
+   * Issue a new secret for a token; the old one keeps working for the grace period
+   */
+  async rotateToken(tokenId: string, gracePeriod: TokenRotationGracePeriod): Promise<TokenGenerationResponse> {
+    return this.makeRequest<TokenGenerationResponse>(`/api/tokens/${tokenId}/rotate`, {
+      method: 'POST',
+      body: JSON.stringify({ gracePeriod }),
+    });
+  }
+
+  /**
+   * Get recent calls made with a token
+   */
+  async getTokenActivity(tokenId: string, limit: number = 50): Promise<TokenActivityEntry[]> {
+    return this.makeRequest<TokenActivityEntry[]>(`/api/tokens/${tokenId}/activity?limit=${limit}`);
+  }
+
+  /**
+   * Get unacknowledged anomaly alerts for the user's tokens
+   */
+  async getAnomalyAlerts(): Promise<TokenAnomalyAlert[]> {
+    return this.makeRequest<TokenAnomalyAlert[]>('/api/tokens/alerts');
+  }
+
+  /**
+   * Mark an anomaly alert as reviewed
+   */
+  async acknowledgeAnomalyAlert(alertId: number): Promise<{ message: string; alertId: number }> {
+    return this.makeRequest(`/api/tokens/alerts/${alertId}/acknowledge`, {
+      method: 'POST',
+    });
+  }
+
   /**
    * Get token status and user info
    */
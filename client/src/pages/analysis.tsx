@@ -3,6 +3,7 @@ import { useRoute, useLocation } from "wouter";
 import { useSteps } from "@/hooks/use-steps";
 import { useAnalysis } from "@/hooks/use-analysis";
 import { useJobData } from "@/hooks/use-job-data";
+import { useBatchEvents } from "@/hooks/use-batch-events";
 
 import Header from "@/components/layout/header";
 import Footer from "@/components/layout/footer";
@@ -13,7 +14,8 @@ import {
   AnalysisControls,
   JobDescriptionCard,
   CandidateResultCard,
-  NoResultsState
+  NoResultsState,
+  ExportMenu
 } from "@/components/analysis";
 
 import type { JobId, SessionId } from "@shared/api-contracts";
@@ -130,6 +132,15 @@ export default function AnalysisPage() {
     isInitialized
   });
   
+  // Live per-resume progress while the batch is being analyzed
+  const { analysisProgress } = useBatchEvents({
+    sessionId,
+    batchId: currentBatchId,
+    enabled: isInitialized,
+  });
+  const analysisInProgress = !!analysisProgress &&
+    analysisProgress.completed + analysisProgress.failed < analysisProgress.total;
+  
   const handleViewDetails = (resumeId: number) => {
     if (expanded === resumeId) {
       setExpanded(null);
@@ -194,6 +205,13 @@ export default function AnalysisPage() {
           />
         )}
         
+        {analysisInProgress && analysisProgress && (
+          <div className="mb-6 p-3 border border-blue-200 bg-blue-50 rounded-md text-sm text-blue-800" aria-live="polite">
+            Analyzed {analysisProgress.completed + analysisProgress.failed} of {analysisProgress.total} resumes
+            {analysisProgress.failed > 0 && ` (${analysisProgress.failed} failed)`}
+          </div>
+        )}
+        
         {noResults ? (
           <NoResultsState
             isAnalyzing={isAnalyzing}
@@ -204,6 +222,14 @@ export default function AnalysisPage() {
           />
         ) : (
           <div className="space-y-6 mb-8" aria-live="polite" aria-label="Analysis results">
+            <div className="flex justify-end">
+              <ExportMenu
+                jobId={jobId}
+                sessionId={sessionId}
+                batchId={currentBatchId}
+                disabled={isAnalyzing || analysisInProgress}
+              />
+            </div>
             <div className="sr-only">
               {analysisData?.results?.length ? 
                 `Found ${analysisData.results.length} candidate${analysisData.results.length === 1 ? '' : 's'}` : 
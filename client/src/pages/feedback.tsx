@@ -8,12 +8,14 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { API_ROUTES, FeedbackTypeName, ProductFeedbackRequest } from "@shared/api-contracts";
 
 export default function Feedback() {
   const { toast } = useToast();
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
-  const [feedbackType, setFeedbackType] = useState("general");
+  const [feedbackType, setFeedbackType] = useState<FeedbackTypeName>("general");
   const [rating, setRating] = useState<number>(0);
   const [comment, setComment] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -23,22 +25,20 @@ export default function Feedback() {
     setRating(value);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
-    
-    // In a real application, you would send this data to a server
-    // For now, we'll just simulate a submission
-    setTimeout(() => {
-      console.log({
-        name,
-        email,
-        feedbackType,
-        rating,
-        comment
-      });
-      
-      setIsSubmitting(false);
+
+    const request: ProductFeedbackRequest = {
+      name,
+      email,
+      type: feedbackType,
+      rating: rating > 0 ? rating : null,
+      comment
+    };
+
+    try {
+      await apiRequest("POST", API_ROUTES.FEEDBACK.SUBMIT, request);
       setIsSubmitted(true);
       
       toast({
@@ -52,7 +52,15 @@ export default function Feedback() {
       setFeedbackType("general");
       setRating(0);
       setComment("");
-    }, 1000);
+    } catch (error) {
+      toast({
+        title: "Feedback not sent",
+        description: error instanceof Error ? error.message : "Please try again in a moment.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   return (
@@ -99,7 +107,7 @@ export default function Feedback() {
                   <Label>Feedback Type</Label>
                   <RadioGroup 
                     value={feedbackType} 
-                    onValueChange={setFeedbackType}
+                    onValueChange={(value) => setFeedbackType(value as FeedbackTypeName)}
                     className="flex flex-col space-y-1"
                   >
                     <div className="flex items-center space-x-2">
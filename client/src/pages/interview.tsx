@@ -13,6 +13,9 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
 import { getInitials, stringToColor } from "@/lib/file-utils";
+import InterviewScorecard from "@/components/interview-scorecard";
+import { useInterviewScorecards } from "@/hooks/use-interview-scorecards";
+import type { JobId, ResumeId } from "@shared/api-contracts";
 
 // Question can be either a string or an object with question and difficulty properties
 type Question = string | {
@@ -128,6 +131,14 @@ export default function InterviewPage() {
     retry: 1,
   });
   
+  // Interviewer scorecards; the summary feeds the overall assessment shown in the header
+  const { data: scorecardsData } = useInterviewScorecards(
+    resumeId as ResumeId,
+    jobId as JobId,
+    !!questionsData && !isLoading
+  );
+  const assessment = scorecardsData?.summary;
+
   // Handle print button click
   const handlePrint = () => {
     window.print();
@@ -210,6 +221,11 @@ export default function InterviewPage() {
                   </div>
                   <h3 className="ml-3 text-lg font-semibold text-gray-900">
                     {questionsData.resumeName} <span className="text-primary">({questionsData.matchPercentage !== null ? `${questionsData.matchPercentage}%` : 'N/A'} match)</span>
+                    {assessment && assessment.interviewerCount > 0 && assessment.overallScore !== null && (
+                      <span className="ml-2 text-gray-600">
+                        {assessment.overallScore}% overall after {assessment.interviewerCount} interview{assessment.interviewerCount === 1 ? '' : 's'}
+                      </span>
+                    )}
                   </h3>
                 </div>
                 <div>
@@ -457,6 +473,16 @@ export default function InterviewPage() {
               </CardContent>
             </Card>
           )}
+
+          {questionsData && !isLoading && !error && (
+            <div className="mb-8">
+              <h2 className="text-2xl font-bold text-gray-900 mb-2">Interview Feedback</h2>
+              <p className="text-gray-600 mb-6">
+                After the interview, score the candidate's answers. Every interviewer's scorecard is combined with the resume match into the overall assessment.
+              </p>
+              <InterviewScorecard resumeId={resumeId as ResumeId} jobId={jobId as JobId} />
+            </div>
+          )}
           
           <div className="flex justify-between">
             <Button
@@ -10,6 +10,13 @@ import { useSteps } from "@/hooks/use-steps";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import ScoringSettings, {
+  DEFAULT_SCORING_SETTINGS,
+  toScoringConfig,
+  type ScoringSettingsValue,
+} from "@/components/scoring-settings";
+import type { JobScoringConfig } from "@shared/api-contracts";
 
 export default function JobDescriptionPage() {
   const { toast } = useToast();
@@ -20,10 +27,12 @@ export default function JobDescriptionPage() {
   // State for form fields
   const [jobTitle, setJobTitle] = useState("");
   const [jobDescription, setJobDescription] = useState("");
+  const [blindReview, setBlindReview] = useState(false);
+  const [scoringSettings, setScoringSettings] = useState<ScoringSettingsValue>(DEFAULT_SCORING_SETTINGS);
   
   // Submit job description mutation
   const submitMutation = useMutation({
-    mutationFn: async (data: { title: string; description: string }) => {
+    mutationFn: async (data: { title: string; description: string; blindReview: boolean; scoringConfig: JobScoringConfig | null }) => {
       return apiRequest("POST", "/api/job-descriptions", data);
     },
     onSuccess: async (response) => {
@@ -80,11 +89,23 @@ export default function JobDescriptionPage() {
       });
       return;
     }
+
+    const scoringConfig = toScoringConfig(scoringSettings);
+    if (scoringConfig?.weights && Object.values(scoringConfig.weights).every((weight) => weight === 0)) {
+      toast({
+        title: "Invalid scoring weights",
+        description: "At least one scoring weight must be above zero.",
+        variant: "destructive",
+      });
+      return;
+    }
     
     // Submit form
     submitMutation.mutate({
       title: jobTitle,
       description: jobDescription,
+      blindReview,
+      scoringConfig,
     });
   };
   
@@ -134,6 +155,22 @@ export default function JobDescriptionPage() {
                 <i className="fas fa-info-circle mr-2"></i>
                 <span>Our AI will extract key skills and requirements automatically</span>
               </div>
+
+              <div className="flex items-start gap-2 mt-4">
+                <Checkbox
+                  id="blindReview"
+                  checked={blindReview}
+                  onCheckedChange={(checked) => setBlindReview(checked as boolean)}
+                />
+                <label htmlFor="blindReview" className="text-sm text-gray-700">
+                  <span className="font-medium">Blind review</span>
+                  <span className="block text-gray-500">
+                    Hide candidate names, contact details, graduation years and schools from reviewers and the AI analysis.
+                  </span>
+                </label>
+              </div>
+
+              <ScoringSettings value={scoringSettings} onChange={setScoringSettings} />
             </div>
             
             <div className="flex justify-between">
@@ -2,6 +2,9 @@ import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useJobDescriptions } from "@/hooks/use-job-descriptions";
+import PipelineBoard from "@/components/analysis/PipelineBoard";
+import type { JobId } from "@shared/api-contracts";
 import Header from "@/components/layout/header";
 import Footer from "@/components/layout/footer";
 import { Button } from "@/components/ui/button";
@@ -18,7 +21,9 @@ import {
   CheckCircle,
   Clock,
   Loader,
-  ArrowUpDown
+  ArrowUpDown,
+  LayoutGrid,
+  Columns
 } from "lucide-react";
 
 interface AnalysisItem {
@@ -74,6 +79,16 @@ export default function MyAnalysesPage() {
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("All Status");
   const [sortBy, setSortBy] = useState("Sort by Newest");
+  const [viewMode, setViewMode] = useState<"analyses" | "pipeline">("analyses");
+  const [pipelineJobId, setPipelineJobId] = useState<JobId | null>(null);
+  const { data: jobList } = useJobDescriptions();
+
+  // Default the pipeline view to the most recent job once jobs are loaded
+  useEffect(() => {
+    if (!pipelineJobId && jobList?.jobs.length) {
+      setPipelineJobId(jobList.jobs[0].id);
+    }
+  }, [jobList, pipelineJobId]);
 
   // Filter analyses based on search and filters
   const filteredAnalyses = mockAnalyses.filter(analysis => {
@@ -178,13 +193,60 @@ export default function MyAnalysesPage() {
                 Track and manage your resume analysis results across different job descriptions.
               </p>
             </div>
-            <Button onClick={handleNewAnalysis} className="mt-4 sm:mt-0">
-              <Plus className="h-4 w-4 mr-2" />
-              New Analysis
-            </Button>
+            <div className="flex gap-2 mt-4 sm:mt-0">
+              <div className="inline-flex rounded-md border border-gray-300 bg-white">
+                <button
+                  onClick={() => setViewMode("analyses")}
+                  className={`flex items-center px-3 py-2 text-sm rounded-l-md ${
+                    viewMode === "analyses" ? "bg-blue-50 text-blue-700" : "text-gray-600"
+                  }`}
+                >
+                  <LayoutGrid className="h-4 w-4 mr-1" />
+                  Analyses
+                </button>
+                <button
+                  onClick={() => setViewMode("pipeline")}
+                  className={`flex items-center px-3 py-2 text-sm rounded-r-md border-l border-gray-300 ${
+                    viewMode === "pipeline" ? "bg-blue-50 text-blue-700" : "text-gray-600"
+                  }`}
+                >
+                  <Columns className="h-4 w-4 mr-1" />
+                  Pipeline
+                </button>
+              </div>
+              <Button onClick={handleNewAnalysis}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Analysis
+              </Button>
+            </div>
           </div>
         </div>
 
+        {viewMode === "pipeline" ? (
+          <>
+            {/* Job Selector */}
+            <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+              <label htmlFor="pipeline-job" className="block text-sm font-medium text-gray-700 mb-2">
+                Job Description
+              </label>
+              <select
+                id="pipeline-job"
+                value={pipelineJobId ?? ""}
+                onChange={(e) => setPipelineJobId(e.target.value ? Number(e.target.value) as JobId : null)}
+                className="w-full sm:w-96 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+              >
+                {!jobList?.jobs.length && <option value="">No job descriptions yet</option>}
+                {jobList?.jobs.map(job => (
+                  <option key={job.id} value={job.id}>{job.title}</option>
+                ))}
+              </select>
+            </div>
+
+            <PipelineBoard jobId={pipelineJobId} />
+          </>
+        ) : (
+        <>
+
         {/* Search and Filter Section */}
         <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
           <div className="flex flex-col sm:flex-row gap-4">
@@ -368,6 +430,8 @@ export default function MyAnalysesPage() {
             </div>
           </>
         )}
+        </>
+        )}
       </main>
       
       <Footer />
@@ -4,6 +4,7 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import Header from "@/components/layout/header";
 import Footer from "@/components/layout/footer";
+import JobVersionStatus from "@/components/job-version-status";
 import { Button } from "@/components/ui/button";
 import { useLocation } from "wouter";
 import { 
@@ -324,6 +325,8 @@ export default function MyJobDescriptionsPage() {
                           </div>
                         )}
                       </div>
+
+                      <JobVersionStatus jobId={Number(job.id)} />
                     </div>
                     
                     {/* Actions */}
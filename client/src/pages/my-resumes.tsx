@@ -3,11 +3,13 @@ import { useToast } from "@/hooks/use-toast";
 import Header from "@/components/layout/header";
 import Footer from "@/components/layout/footer";
 import { Button } from "@/components/ui/button";
+import MatchingJobsPanel from "@/components/matching-jobs-panel";
+import CandidateGroupPanel from "@/components/candidate-group-panel";
 import { formatFileSize, getFileIcon } from "@/lib/file-utils";
 import { useResumes, getResumeStatusColor, getResumeStatusIcon } from "@/hooks/use-resumes";
 import type { ResumeItem } from "@shared/api-contracts";
 import { useLocation } from "wouter";
-import { Upload, Search, Filter, FileText, Calendar, User } from "lucide-react";
+import { Upload, Search, Filter, FileText, Calendar, User, Briefcase, Users } from "lucide-react";
 
 // ResumeItem interface now imported from shared/api-contracts
 
@@ -16,6 +18,8 @@ export default function MyResumesPage() {
   const [_, setLocation] = useLocation();
   const [searchTerm, setSearchTerm] = useState("");
   const [filterType, setFilterType] = useState("All Types");
+  const [matchingResumeId, setMatchingResumeId] = useState<number | null>(null);
+  const [groupResumeId, setGroupResumeId] = useState<number | null>(null);
 
   // Fetch all user resumes using the new hook
   const { 
@@ -188,6 +192,12 @@ export default function MyResumesPage() {
                         </div>
                         
                         <div className="flex items-center space-x-3 flex-shrink-0">
+                          {resume.duplicateStatus === "suspected" && (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium text-amber-700 bg-amber-50">
+                              Possible duplicate
+                            </span>
+                          )}
+
                           {/* Status Badge */}
                           <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getResumeStatusColor(resume.status)}`}>
                             <i className={`fas fa-${getResumeStatusIcon(resume.status)} mr-1`} aria-hidden="true"></i>
@@ -195,6 +205,25 @@ export default function MyResumesPage() {
                           </span>
                           
                           {/* Actions */}
+                          {resume.candidateGroupId && (
+                            <Button
+                              variant={groupResumeId === resume.id ? "secondary" : "outline"}
+                              size="sm"
+                              onClick={() => setGroupResumeId(groupResumeId === resume.id ? null : resume.id)}
+                            >
+                              <Users className="h-4 w-4 mr-1" />
+                              Duplicates
+                            </Button>
+                          )}
+                          <Button
+                            variant={matchingResumeId === resume.id ? "secondary" : "outline"}
+                            size="sm"
+                            onClick={() => setMatchingResumeId(matchingResumeId === resume.id ? null : resume.id)}
+                            disabled={resume.status !== "analyzed"}
+                          >
+                            <Briefcase className="h-4 w-4 mr-1" />
+                            Matching Jobs
+                          </Button>
                           <Button
                             variant="outline"
                             size="sm"
@@ -205,6 +234,18 @@ export default function MyResumesPage() {
                           </Button>
                         </div>
                       </div>
+
+                      {matchingResumeId === resume.id && (
+                        <div className="mt-4 border-t border-gray-100 pt-2">
+                          <MatchingJobsPanel resumeId={resume.id} />
+                        </div>
+                      )}
+
+                      {groupResumeId === resume.id && resume.candidateGroupId && (
+                        <div className="mt-4 border-t border-gray-100 pt-2">
+                          <CandidateGroupPanel resumeId={resume.id} />
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
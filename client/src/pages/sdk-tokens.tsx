@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useAuth } from '../hooks/useAuth';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
@@ -6,9 +6,16 @@ import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import { Alert, AlertDescription } from '../components/ui/alert';
-import { Copy, Eye, EyeOff, Key, Loader2 } from 'lucide-react';
+import { Badge } from '../components/ui/badge';
+import { Activity, AlertTriangle, Copy, Eye, EyeOff, Key, Loader2, RotateCw } from 'lucide-react';
+import { TokenActivityLog } from '../components/TokenGenerator/TokenActivityLog';
 import { tokenApi } from '../lib/tokenApi';
-import type { TokenGenerationResponse } from '../../../shared/schema';
+import type {
+  TokenAnomalyAlert,
+  TokenGenerationResponse,
+  TokenRotationGracePeriod,
+  UsageOverview,
+} from '../../../shared/schema';
 
 // Helper function to safely parse dates
 const parseDate = (dateValue: string | Date | undefined): string => {
@@ -21,6 +28,13 @@ const parseDate = (dateValue: string | Date | undefined): string => {
   }
 };
 
+const describeAlert = (alert: TokenAnomalyAlert): string => {
+  if (alert.type === 'new_ip_range') {
+    return `Used from a new network ${alert.details.ipRange ?? ''} (${alert.details.ipAddress ?? 'unknown IP'})`;
+  }
+  return `${alert.details.requestsLastHour ?? 0} requests in an hour, against a usual ${alert.details.baselinePerHour ?? 0} per hour`;
+};
+
 export default function SdkTokensPage() {
   const { user, loading: authLoading, signInWithGoogle } = useAuth();
   const [tokenName, setTokenName] = useState('');
@@ -30,6 +44,55 @@ export default function SdkTokensPage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
+  const [tokens, setTokens] = useState<UsageOverview['tokens']>([]);
+  const [alerts, setAlerts] = useState<TokenAnomalyAlert[]>([]);
+  const [gracePeriod, setGracePeriod] = useState<TokenRotationGracePeriod>('24h');
+  const [rotatingTokenId, setRotatingTokenId] = useState<string | null>(null);
+  const [expandedTokenId, setExpandedTokenId] = useState<string | null>(null);
+
+  const loadTokens = async () => {
+    try {
+      const [overview, anomalyAlerts] = await Promise.all([
+        tokenApi.getUsageOverview(),
+        tokenApi.getAnomalyAlerts(),
+      ]);
+      setTokens(overview.tokens.filter(token => token.isActive));
+      setAlerts(anomalyAlerts);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load tokens');
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      loadTokens();
+    }
+  }, [user]);
+
+  const handleRotateToken = async (tokenId: string) => {
+    setRotatingTokenId(tokenId);
+    setError(null);
+
+    try {
+      const response = await tokenApi.rotateToken(tokenId, gracePeriod);
+      setGeneratedToken(response);
+      setShowToken(false);
+      await loadTokens();
+    } catch (err: any) {
+      setError(err.message || 'Failed to rotate token');
+    } finally {
+      setRotatingTokenId(null);
+    }
+  };
+
+  const handleAcknowledgeAlert = async (alertId: number) => {
+    try {
+      await tokenApi.acknowledgeAnomalyAlert(alertId);
+      setAlerts(prev => prev.filter(alert => alert.id !== alertId));
+    } catch (err: any) {
+      setError(err.message || 'Failed to acknowledge alert');
+    }
+  };
 
   const handleGenerateToken = async () => {
     if (!tokenName.trim()) {
@@ -49,6 +112,7 @@ export default function SdkTokensPage() {
       
       setGeneratedToken(response);
       setTokenName('');
+      await loadTokens();
     } catch (err: any) {
       setError(err.message || 'Failed to generate token');
     } finally {
@@ -120,6 +184,37 @@ export default function SdkTokensPage() {
           </Alert>
         )}
 
+        {alerts.length > 0 && (
+          <Card className="border-amber-300">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5 text-amber-600" />
+                Unusual Token Activity
+              </CardTitle>
+              <CardDescription>
+                Review these and rotate or deactivate the token if you don't recognize the activity
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {alerts.map((alert) => {
+                const token = tokens.find(t => t.id === alert.tokenId);
+                return (
+                  <div key={alert.id} className="flex items-start justify-between gap-4 text-sm">
+                    <div>
+                      <p className="font-medium">{token?.name || alert.tokenId}</p>
+                      <p className="text-muted-foreground">{describeAlert(alert)}</p>
+                      <p className="text-xs text-muted-foreground">{parseDate(alert.createdAt ?? undefined)}</p>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => handleAcknowledgeAlert(alert.id)}>
+                      Dismiss
+                    </Button>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader>
             <CardTitle>Generate New Token</CardTitle>
@@ -224,6 +319,9 @@ export default function SdkTokensPage() {
                 <p><strong>Token Name:</strong> {generatedToken.name}</p>
                 <p><strong>Created:</strong> {parseDate(generatedToken.createdAt)}</p>
                 <p><strong>Expires:</strong> {generatedToken.expiresAt ? parseDate(generatedToken.expiresAt) : 'Never'}</p>
+                {generatedToken.previousSecretExpiresAt && (
+                  <p><strong>Previous secret works until:</strong> {parseDate(generatedToken.previousSecretExpiresAt)}</p>
+                )}
               </div>
 
               <Alert>
@@ -235,6 +333,90 @@ export default function SdkTokensPage() {
           </Card>
         )}
 
+        {tokens.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Your Tokens</CardTitle>
+              <CardDescription>
+                Rotating issues a new secret for the same token. The old secret keeps working during the grace period.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center gap-3">
+                <Label htmlFor="gracePeriod" className="whitespace-nowrap">Rotation grace period</Label>
+                <Select value={gracePeriod} onValueChange={(value: TokenRotationGracePeriod) => setGracePeriod(value)}>
+                  <SelectTrigger id="gracePeriod" className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    <SelectItem value="1h">1 hour</SelectItem>
+                    <SelectItem value="24h">24 hours</SelectItem>
+                    <SelectItem value="7d">7 days</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="divide-y">
+                {tokens.map((token) => (
+                  <div key={token.id} className="py-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <p className="font-medium">{token.name || 'Unnamed Token'}</p>
+                          {!token.secretHashed && (
+                            <Badge variant="outline" className="border-amber-300 text-amber-700">
+                              Rotate to use
+                            </Badge>
+                          )}
+                          {token.previousSecretExpiresAt && (
+                            <Badge variant="secondary">
+                              Old secret valid until {parseDate(token.previousSecretExpiresAt)}
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {token.totalRequests} requests
+                          {token.lastUsedAt && ` · last used ${parseDate(token.lastUsedAt)}`}
+                          {token.rotatedAt && ` · rotated ${parseDate(token.rotatedAt)}`}
+                        </p>
+                      </div>
+                      <div className="flex gap-2 flex-shrink-0">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setExpandedTokenId(expandedTokenId === token.id ? null : token.id)}
+                        >
+                          <Activity className="h-4 w-4 mr-1" />
+                          Activity
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRotateToken(token.id)}
+                          disabled={rotatingTokenId !== null}
+                        >
+                          {rotatingTokenId === token.id ? (
+                            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                          ) : (
+                            <RotateCw className="h-4 w-4 mr-1" />
+                          )}
+                          Rotate
+                        </Button>
+                      </div>
+                    </div>
+                    {expandedTokenId === token.id && (
+                      <div className="mt-3">
+                        <TokenActivityLog tokenId={token.id} />
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader>
             <CardTitle>Quick Start</CardTitle>
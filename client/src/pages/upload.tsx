@@ -8,6 +8,7 @@ import Header from "@/components/layout/header";
 import Footer from "@/components/layout/footer";
 import StepProgress from "@/components/step-progress";
 import { useSteps } from "@/hooks/use-steps";
+import { useBatchEvents } from "@/hooks/use-batch-events";
 import { Button } from "@/components/ui/button";
 import { formatFileSize, getFileIcon, isFileAllowed, isFileSizeValid } from "@/lib/file-utils";
 import type { 
@@ -225,6 +226,13 @@ export default function UploadPage() {
     gcTime: 10 * 60 * 1000, // 10 minutes (formerly cacheTime)
   });
 
+  // Live parsing updates; the batch only exists server-side after the first upload
+  const { connected: liveUpdatesConnected } = useBatchEvents({
+    sessionId,
+    batchId: currentBatchId,
+    enabled: isMounted && files.some(f => f.status === "success"),
+  });
+
   useEffect(() => {
     if (existingResumes?.resumes && currentBatchId) {
       const existingFiles: UploadedFile[] = existingResumes.resumes.map(resume => ({
@@ -503,7 +511,7 @@ export default function UploadPage() {
                 <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
                   <polyline points="20,6 9,17 4,12"></polyline>
                 </svg>
-                <span><strong>Upload Session Active</strong> - {files.filter(f => f.status === "success").length} files ready for analysis. All uploads will be processed together.</span>
+                <span><strong>Upload Session Active</strong> - {files.filter(f => f.status === "success").length} files ready for analysis. All uploads will be processed together.{liveUpdatesConnected && " Updating live."}</span>
               </p>
             </div>
           )}
@@ -106,6 +106,31 @@ describe('EvalMatchClient', () => {
       })
     }, 15000)
 
+    it('should rank matching jobs for a resume', async () => {
+      let limit: string | null = null
+      server.use(
+        http.get('https://api.test.evalmatch.com/resumes/:id/matching-jobs', ({ request, params }) => {
+          limit = new URL(request.url).searchParams.get('limit')
+          return HttpResponse.json({
+            success: true,
+            data: {
+              resumeId: Number(params.id),
+              totalJobs: 4,
+              matches: [{ jobId: 7, title: 'Frontend Engineer', prefilterScore: 82, prefilterMethod: 'embedding', matchPercentage: 88, cached: true }],
+              processingTime: 120
+            },
+            timestamp: new Date().toISOString()
+          })
+        })
+      )
+
+      const result = await client.resumes.matchingJobs(123, { limit: 3 })
+
+      expect(limit).toBe('3')
+      expect(result.data.resumeId).toBe(123)
+      expect(result.data.matches[0]).toMatchObject({ jobId: 7, matchPercentage: 88 })
+    })
+
     it('should handle resume not found error', async () => {
       // This test will use the error endpoint defined in handlers
       await expect(client.resumes.get(999)).rejects.toThrow()
@@ -150,6 +175,30 @@ describe('EvalMatchClient', () => {
         expect(error.isRetryable).toBe(false)
       }
     })
+
+    it('should update job scoring settings', async () => {
+      let requestBody: unknown
+      server.use(
+        http.patch('https://api.test.evalmatch.com/job-descriptions/:jobId', async ({ request, params }) => {
+          requestBody = await request.json()
+          return HttpResponse.json({
+            success: true,
+            data: { id: Number(params.jobId), title: 'Project Manager', description: '', requirements: [], ...(requestBody as object) },
+            timestamp: new Date().toISOString()
+          })
+        })
+      )
+
+      const scoringConfig = {
+        weights: { skills: 60, experience: 25, education: 10, semantic: 5 },
+        skillRequirements: [{ skill: 'PMP', importance: 'must-have' as const }],
+        minimumYearsExperience: 5
+      }
+      const result = await client.jobs.updateScoring(456, scoringConfig)
+
+      expect(requestBody).toEqual({ scoringConfig })
+      expect(result.data.scoringConfig).toEqual(scoringConfig)
+    })
   })
 
   describe('AI Analysis', () => {
@@ -177,6 +226,134 @@ describe('EvalMatchClient', () => {
       })
     })
 
+    it('should start an async analysis run', async () => {
+      let body: any
+      server.use(
+        http.post('https://api.test.evalmatch.com/analysis/analyze/:jobId', async ({ request }) => {
+          body = await request.json()
+          return HttpResponse.json({
+            success: true,
+            status: 'accepted',
+            data: { runId: 7, jobId: 123, status: 'queued', items: [] },
+            timestamp: new Date().toISOString()
+          }, { status: 202 })
+        })
+      )
+
+      const result = await client.analysis.start(123, [1, 2])
+
+      expect(body).toEqual({ resumeIds: [1, 2], async: true })
+      expect(result.data).toMatchObject({ runId: 7, status: 'queued' })
+    })
+
+    it('should poll a run until it completes and return its results', async () => {
+      const statuses = ['queued', 'running', 'completed']
+      let polls = 0
+      server.use(
+        http.get('https://api.test.evalmatch.com/analysis/runs/7', () => {
+          const status = statuses[Math.min(polls++, statuses.length - 1)]
+          return HttpResponse.json({
+            success: true,
+            data: { runId: 7, jobId: 123, status, items: [] },
+            timestamp: new Date().toISOString()
+          })
+        }),
+        http.get('https://api.test.evalmatch.com/analysis/runs/7/results', () => {
+          return HttpResponse.json({
+            success: true,
+            data: { runId: 7, jobId: 123, status: 'completed', results: [{ resumeId: 1, matchPercentage: 80 }], failures: [] },
+            timestamp: new Date().toISOString()
+          })
+        })
+      )
+
+      const seen: string[] = []
+      const results = await client.analysis.waitFor(7, {
+        intervalMs: 5,
+        onProgress: run => seen.push(run.status)
+      })
+
+      expect(seen).toEqual(['queued', 'running', 'completed'])
+      expect(results.results[0]).toMatchObject({ resumeId: 1, matchPercentage: 80 })
+    })
+
+    it('should time out waiting for a run that never finishes', async () => {
+      server.use(
+        http.get('https://api.test.evalmatch.com/analysis/runs/8', () => {
+          return HttpResponse.json({
+            success: true,
+            data: { runId: 8, jobId: 123, status: 'running', items: [] },
+            timestamp: new Date().toISOString()
+          })
+        })
+      )
+
+      await expect(
+        client.analysis.waitFor(8, { intervalMs: 5, timeoutMs: 20 })
+      ).rejects.toMatchObject({ code: ErrorCode.TIMEOUT_ERROR })
+    })
+
+    it('should stop waiting as soon as the signal aborts', async () => {
+      let polls = 0
+      server.use(
+        http.get('https://api.test.evalmatch.com/analysis/runs/9', () => {
+          polls++
+          return HttpResponse.json({
+            success: true,
+            data: { runId: 9, jobId: 123, status: 'running', items: [] },
+            timestamp: new Date().toISOString()
+          })
+        })
+      )
+
+      const controller = new AbortController()
+      const startedAt = Date.now()
+      await expect(
+        client.analysis.waitFor(9, { intervalMs: 60_000, signal: controller.signal, onProgress: () => controller.abort() })
+      ).rejects.toMatchObject({ code: ErrorCode.TIMEOUT_ERROR })
+
+      expect(polls).toBe(1)
+      expect(Date.now() - startedAt).toBeLessThan(5_000)
+    })
+
+    it('should not send or retry a status check whose signal has aborted', async () => {
+      let polls = 0
+      server.use(
+        http.get('https://api.test.evalmatch.com/analysis/runs/10', () => {
+          polls++
+          return HttpResponse.json({ success: true, data: { runId: 10, status: 'running', items: [] } })
+        })
+      )
+
+      const controller = new AbortController()
+      controller.abort()
+
+      await expect(client.analysis.getRun(10, { signal: controller.signal })).rejects.toBeDefined()
+      expect(polls).toBe(0)
+    })
+
+    it('should download an analysis export as bytes', async () => {
+      let requestUrl: URL | undefined
+      server.use(
+        http.get('https://api.test.evalmatch.com/analysis/export/:jobId', ({ request }) => {
+          requestUrl = new URL(request.url)
+          return new HttpResponse('Rank,Candidate\r\n1,Candidate #4\r\n', {
+            headers: {
+              'Content-Type': 'text/csv; charset=utf-8',
+              'Content-Disposition': 'attachment; filename="engineer-ranking-2025-01-01.csv"'
+            }
+          })
+        })
+      )
+
+      const content = await client.analysis.export(123, 'csv', { batchId: 'batch_1_abc' })
+
+      expect(requestUrl?.pathname).toBe('/analysis/export/123')
+      expect(requestUrl?.searchParams.get('format')).toBe('csv')
+      expect(requestUrl?.searchParams.get('batchId')).toBe('batch_1_abc')
+      expect(new TextDecoder().decode(content)).toContain('1,Candidate #4')
+    })
+
     it('should handle analysis timeout', async () => {
       // Create a client with shorter timeout for this test
       const shortTimeoutClient = new EvalMatchClient({
@@ -0,0 +1,73 @@
+/**
+ * Tests for Webhook Signature Verification
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createHmac, webcrypto } from 'node:crypto'
+import { verifyWebhookSignature, constructWebhookEvent } from '../webhooks'
+import { EvalMatchError } from '../errors'
+
+const secret = 'whsec_test_secret'
+const now = 1760799600
+const payload = JSON.stringify({
+  id: 'evt_1',
+  event: 'analysis.completed',
+  createdAt: '2025-10-18T15:00:00.000Z',
+  data: { jobId: 42 }
+})
+
+const sign = (body: string, timestamp = now, key = secret) =>
+  `t=${timestamp},v1=${createHmac('sha256', key).update(`${timestamp}.${body}`).digest('hex')}`
+
+describe('verifyWebhookSignature', () => {
+  const crypto = webcrypto as unknown as Crypto
+
+  it('should accept a valid signature', async () => {
+    await expect(
+      verifyWebhookSignature({ payload, signature: sign(payload), secret, now, crypto })
+    ).resolves.toBe(true)
+  })
+
+  it('should reject a tampered body', async () => {
+    await expect(
+      verifyWebhookSignature({ payload: payload.replace('42', '43'), signature: sign(payload), secret, now, crypto })
+    ).resolves.toBe(false)
+  })
+
+  it('should reject a signature made with another secret', async () => {
+    await expect(
+      verifyWebhookSignature({ payload, signature: sign(payload, now, 'whsec_other'), secret, now, crypto })
+    ).resolves.toBe(false)
+  })
+
+  it('should reject timestamps outside the tolerance window', async () => {
+    await expect(
+      verifyWebhookSignature({ payload, signature: sign(payload, now - 301), secret, now, crypto })
+    ).resolves.toBe(false)
+    await expect(
+      verifyWebhookSignature({ payload, signature: sign(payload, now - 301), secret, now, crypto, toleranceSeconds: 600 })
+    ).resolves.toBe(true)
+  })
+
+  it('should reject malformed headers', async () => {
+    await expect(verifyWebhookSignature({ payload, signature: 'garbage', secret, now, crypto })).resolves.toBe(false)
+    await expect(verifyWebhookSignature({ payload, signature: `t=${now}`, secret, now, crypto })).resolves.toBe(false)
+  })
+})
+
+describe('constructWebhookEvent', () => {
+  const crypto = webcrypto as unknown as Crypto
+
+  it('should return the parsed event for a valid signature', async () => {
+    const event = await constructWebhookEvent<{ jobId: number }>({ payload, signature: sign(payload), secret, now, crypto })
+    expect(event.event).toBe('analysis.completed')
+    expect(event.data.jobId).toBe(42)
+  })
+
+  it('should throw for an invalid signature', async () => {
+    await expect(
+      constructWebhookEvent({ payload, signature: sign('{}'), secret, now, crypto })
+    ).rejects.toBeInstanceOf(EvalMatchError)
+  })
+})
@@ -21,6 +21,7 @@ interface JobDescription {
   title: string;
   description: string;
   requirements: string[];
+  scoringConfig?: JobScoringConfig | null;
   createdAt: string;
 }
 
@@ -49,9 +50,22 @@ import {
   getResumesById
 } from './generated/sdk.gen';
 
-import type { AuthProvider, EvalMatchConfig, ClientOptions } from './types';
+import type {
+  AuthProvider,
+  EvalMatchConfig,
+  ClientOptions,
+  AnalysisRun,
+  AnalysisRunResults,
+  AnalysisExportFormat,
+  ExportAnalysisOptions,
+  CreateJobInput,
+  JobScoringConfig,
+  MatchingJobsOptions,
+  ResumeMatchingJobs,
+  WaitForAnalysisOptions
+} from './types';
 import { RetryableHTTPClient, RetryConfig, CircuitBreakerConfig } from './core/retry-client';
-import { ErrorFactory, EvalMatchError, CircuitBreakerError } from './core/errors';
+import { ErrorFactory, EvalMatchError, CircuitBreakerError, ErrorCode } from './core/errors';
 import { createDefaultInterceptors } from './core/interceptors';
 import { CacheInterceptor, CacheInterceptorConfig } from './core/cache-interceptor';
 
@@ -205,6 +219,16 @@ export class EvalMatchClient {
     }
   }
 
+  /**
+   * Per-call request settings taken from ClientOptions
+   */
+  private requestOptions(options: ClientOptions): { signal?: AbortSignal; timeout?: number } {
+    return {
+      ...(options.signal && { signal: options.signal }),
+      ...(options.timeout !== undefined && { timeout: options.timeout })
+    };
+  }
+
   /**
    * Expose internal request method for testing
    */
@@ -222,6 +246,7 @@ export class EvalMatchClient {
     list: async (options: ClientOptions = {}): Promise<ApiResponse<Resume[]>> => {
       const headers = await this.getAuthHeaders();
       return this.request({
+        ...this.requestOptions(options),
         method: 'GET',
         url: '/resumes',
         headers
@@ -237,6 +262,7 @@ export class EvalMatchClient {
       formData.append('file', file);
       
       return this.request({
+        ...this.requestOptions(options),
         method: 'POST',
         url: '/resumes',
         data: formData,
@@ -253,10 +279,27 @@ export class EvalMatchClient {
     get: async (id: number, options: ClientOptions = {}): Promise<ApiResponse<Resume>> => {
       const headers = await this.getAuthHeaders();
       return this.request({
+        ...this.requestOptions(options),
         method: 'GET',
         url: `/resumes/${id}`,
         headers
       });
+    },
+
+    /**
+     * Rank the user's job descriptions by fit for this resume. Only the top
+     * `limit` jobs are fully analyzed, so this can take a few seconds.
+     */
+    matchingJobs: async (id: number, options: MatchingJobsOptions = {}): Promise<ApiResponse<ResumeMatchingJobs>> => {
+      const { limit } = options;
+      const headers = await this.getAuthHeaders();
+      return this.request({
+        ...this.requestOptions(options),
+        method: 'GET',
+        url: `/resumes/${id}/matching-jobs`,
+        params: { limit },
+        headers
+      });
     }
   };
 
@@ -267,14 +310,30 @@ export class EvalMatchClient {
     /**
      * Create a new job description
      */
-    create: async (data: { title: string; description: string; requirements?: string[] }, options: ClientOptions = {}): Promise<ApiResponse<JobDescription>> => {
+    create: async (data: CreateJobInput, options: ClientOptions = {}): Promise<ApiResponse<JobDescription>> => {
       const headers = await this.getAuthHeaders();
       return this.request({
+        ...this.requestOptions(options),
         method: 'POST',
         url: '/job-descriptions',
         data,
         headers
       });
+    },
+
+    /**
+     * Set the job's scoring weights and must-have requirements, or pass null
+     * to return to the default scoring. Applies to analyses run afterwards.
+     */
+    updateScoring: async (jobId: number, scoringConfig: JobScoringConfig | null, options: ClientOptions = {}): Promise<ApiResponse<JobDescription>> => {
+      const headers = await this.getAuthHeaders();
+      return this.request({
+        ...this.requestOptions(options),
+        method: 'PATCH',
+        url: `/job-descriptions/${jobId}`,
+        data: { scoringConfig },
+        headers
+      });
     }
   };
 
@@ -288,6 +347,7 @@ export class EvalMatchClient {
     analyze: async (jobId: number, resumeIds?: number[], options: ClientOptions = {}): Promise<ApiResponse<AnalysisResult>> => {
       const headers = await this.getAuthHeaders();
       return this.request({
+        ...this.requestOptions(options),
         method: 'POST',
         url: `/analysis/analyze/${jobId}`,
         data: resumeIds ? { resumeIds } : {},
@@ -295,12 +355,125 @@ export class EvalMatchClient {
       });
     },
 
+    /**
+     * Queue an analysis and return immediately with a run ID. Use this instead
+     * of analyze() for large batches that would exceed the request timeout.
+     */
+    start: async (jobId: number, resumeIds?: number[], options: ClientOptions = {}): Promise<ApiResponse<AnalysisRun>> => {
+      const headers = await this.getAuthHeaders();
+      return this.request({
+        ...this.requestOptions(options),
+        method: 'POST',
+        url: `/analysis/analyze/${jobId}`,
+        data: resumeIds ? { resumeIds, async: true } : { async: true },
+        headers
+      });
+    },
+
+    /**
+     * Get the status and per-resume progress of an analysis run
+     */
+    getRun: async (runId: number, options: ClientOptions = {}): Promise<ApiResponse<AnalysisRun>> => {
+      const headers = await this.getAuthHeaders();
+      return this.request({
+        ...this.requestOptions(options),
+        method: 'GET',
+        url: `/analysis/runs/${runId}`,
+        // Progress changes between polls, never serve it from cache
+        headers: { ...headers, 'Cache-Control': 'no-cache' }
+      });
+    },
+
+    /**
+     * Get the results of an analysis run (partial while it is still running)
+     */
+    getResults: async (runId: number, options: ClientOptions = {}): Promise<ApiResponse<AnalysisRunResults>> => {
+      const headers = await this.getAuthHeaders();
+      return this.request({
+        ...this.requestOptions(options),
+        method: 'GET',
+        url: `/analysis/runs/${runId}/results`,
+        headers: { ...headers, 'Cache-Control': 'no-cache' }
+      });
+    },
+
+    /**
+     * Poll an analysis run until it completes or fails, then return its
+     * results. Inspect `status` and `failures` on the result: a run whose
+     * resumes all failed resolves with status 'failed' rather than throwing.
+     */
+    waitFor: async (runId: number, options: WaitForAnalysisOptions = {}): Promise<AnalysisRunResults> => {
+      const { intervalMs = 2000, timeoutMs = 10 * 60 * 1000, onProgress, signal } = options;
+      const deadline = Date.now() + timeoutMs;
+      const stopped = () => new EvalMatchError('Stopped waiting for analysis run', ErrorCode.TIMEOUT_ERROR, {
+        endpoint: `/analysis/runs/${runId}`
+      });
+
+      for (;;) {
+        if (signal?.aborted) {
+          throw stopped();
+        }
+
+        const { data: run } = await this.analysis.getRun(runId, { signal });
+        onProgress?.(run);
+
+        if (run.status === 'completed' || run.status === 'failed') {
+          const { data: results } = await this.analysis.getResults(runId, { signal });
+          return results;
+        }
+
+        if (Date.now() + intervalMs > deadline) {
+          throw new EvalMatchError(
+            `Analysis run ${runId} did not finish within ${timeoutMs}ms`,
+            ErrorCode.TIMEOUT_ERROR,
+            { endpoint: `/analysis/runs/${runId}` },
+            [],
+            true
+          );
+        }
+        // onProgress may have aborted already, and an aborted signal never fires again
+        if (signal?.aborted) {
+          throw stopped();
+        }
+
+        // Wake early on abort so the check above throws without waiting out the interval
+        await new Promise<void>(resolve => {
+          const wake = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', wake);
+            resolve();
+          };
+          const timer = setTimeout(wake, intervalMs);
+          signal?.addEventListener('abort', wake, { once: true });
+        });
+      }
+    },
+
+    /**
+     * Download a job's ranked analysis results as CSV, an XLSX workbook or a
+     * PDF shortlist report. Resolves with the raw file bytes.
+     */
+    export: async (jobId: number, format: AnalysisExportFormat, options: ExportAnalysisOptions = {}): Promise<ArrayBuffer> => {
+      const { sessionId, batchId } = options;
+      const headers = await this.getAuthHeaders();
+      return this.request({
+        ...this.requestOptions(options),
+        method: 'GET',
+        url: `/analysis/export/${jobId}`,
+        params: { format, sessionId, batchId },
+        responseType: 'arraybuffer',
+        // Reports are large binaries and reflect the latest results
+        headers: { ...headers, 'Cache-Control': 'no-cache' }
+      });
+    },
+
     /**
      * Analyze job description for bias
      */
     analyzeBias: async (jobId: number, options: ClientOptions = {}): Promise<ApiResponse<BiasAnalysisResult>> => {
       const headers = await this.getAuthHeaders();
       return this.request({
+        ...this.requestOptions(options),
         method: 'POST',
         url: `/analysis/analyze-bias/${jobId}`,
         data: {},
@@ -225,6 +225,11 @@ export class RetryableHTTPClient {
   }
 
   private isRetryableError(error: any): boolean {
+    // The caller cancelled the request; retrying would only be cancelled again
+    if (axios.isCancel(error)) {
+      return false
+    }
+
     if (this.retryConfig.retryCondition) {
       return this.retryConfig.retryCondition(error)
     }
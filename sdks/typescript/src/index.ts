@@ -9,11 +9,35 @@ export * from './generated';
 // Export custom auth and client classes
 export { EvalMatchClient } from './client';
 export { FirebaseAuthProvider } from './auth/firebase-auth-provider';
-export type { AuthProvider, EvalMatchConfig } from './types';
+export type {
+  AuthProvider,
+  EvalMatchConfig,
+  AnalysisRun,
+  AnalysisRunState,
+  AnalysisRunResults,
+  AnalysisExportFormat,
+  ExportAnalysisOptions,
+  CreateJobInput,
+  JobScoringConfig,
+  MatchingJobsOptions,
+  ResumeJobMatch,
+  ResumeMatchingJobs,
+  WaitForAnalysisOptions
+} from './types';
 
 // Export error classes
 export { EvalMatchError, ValidationError, RateLimitError, AuthenticationError } from './errors';
 
+// Export webhook signature helpers
+export {
+  verifyWebhookSignature,
+  constructWebhookEvent,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_DELIVERY_HEADER
+} from './webhooks';
+export type { WebhookEvent, WebhookEventType, VerifyWebhookOptions } from './webhooks';
+
 // Re-export commonly used types for convenience
 export type {
   ApiResponse,
@@ -142,4 +142,175 @@ export interface ClientOptions {
    * Custom request metadata
    */
   meta?: Record<string, unknown>;
-}
\ No newline at end of file
+
+  /**
+   * Cancel the request when this signal aborts
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Request timeout in milliseconds, overriding the client's `timeout`
+   */
+  timeout?: number;
+}
+export type AnalysisRunState = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * Progress of an asynchronous analysis run
+ */
+export interface AnalysisRun {
+  runId: number;
+  jobId: number;
+  status: AnalysisRunState;
+  progress: {
+    total: number;
+    pending: number;
+    running: number;
+    completed: number;
+    failed: number;
+    percentComplete: number;
+  };
+  /** Run-level failure, e.g. the job description could not be analyzed */
+  error: string | null;
+  createdAt: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  items: Array<{
+    resumeId: number;
+    status: 'pending' | 'running' | 'completed' | 'failed';
+    analysisId: number | null;
+    matchPercentage: number | null;
+    error: string | null;
+  }>;
+  statusUrl?: string;
+  resultsUrl?: string;
+}
+
+/**
+ * Results of an analysis run; partial while the run is in progress
+ */
+export interface AnalysisRunResults extends AnalysisRun {
+  results: Array<{
+    resumeId: number;
+    filename: string;
+    candidateName: string;
+    matchPercentage: number | null;
+    matchedSkills: Array<{ skill: string; matchPercentage: number }>;
+    missingSkills: string[];
+    candidateStrengths: string[];
+    candidateWeaknesses: string[];
+    recommendations: string[];
+    confidenceLevel: 'low' | 'medium' | 'high';
+    analysisId: number | null;
+  }>;
+  failures: Array<{ resumeId: number; error: string }>;
+  statistics: {
+    totalResumes: number;
+    successful: number;
+    failed: number;
+    averageMatch: number;
+  };
+}
+
+export type AnalysisExportFormat = 'csv' | 'xlsx' | 'pdf'
+
+export interface JobScoringConfig {
+  /**
+   * Relative weights of the scoring dimensions (0-100 each); they are
+   * normalized to sum to 1 before scoring
+   */
+  weights?: {
+    skills: number
+    experience: number
+    education: number
+    semantic: number
+  }
+
+  /** Candidates missing a must-have skill are capped below a weak match */
+  skillRequirements?: Array<{
+    skill: string
+    importance: 'must-have' | 'nice-to-have'
+  }>
+
+  /** Whole years of experience the role requires */
+  minimumYearsExperience?: number
+}
+
+export interface CreateJobInput {
+  title: string
+  description: string
+  requirements?: string[]
+  blindReview?: boolean
+  scoringConfig?: JobScoringConfig
+}
+
+export interface ResumeJobMatch {
+  jobId: number
+  title: string
+
+  /** First-pass score (0-100) from stored embeddings or skill overlap */
+  prefilterScore: number
+  prefilterMethod: 'embedding' | 'skills' | 'none'
+
+  /** Null when the analysis of this job failed; see `error` */
+  matchPercentage: number | null
+  confidenceLevel: 'low' | 'medium' | 'high'
+  matchedSkills: Array<{ skill: string; matchPercentage: number }>
+  missingSkills: string[]
+  candidateStrengths: string[]
+  candidateWeaknesses: string[]
+  analysisId: number | null
+
+  /** True when a stored analysis newer than the job was reused */
+  cached: boolean
+  error?: string
+}
+
+export interface ResumeMatchingJobs {
+  resumeId: number
+  totalJobs: number
+
+  /** Best-fitting jobs, highest match first */
+  matches: ResumeJobMatch[]
+  processingTime: number
+}
+
+export interface MatchingJobsOptions extends ClientOptions {
+  /**
+   * How many of the best prefiltered jobs get a full analysis
+   * @default 5 (max 10)
+   */
+  limit?: number
+}
+
+export interface ExportAnalysisOptions extends ClientOptions {
+  /** Only export results of resumes uploaded in this session */
+  sessionId?: string
+
+  /** Only export results of resumes uploaded in this batch */
+  batchId?: string
+}
+
+export interface WaitForAnalysisOptions {
+  /**
+   * Delay between status checks in milliseconds
+   * @default 2000
+   */
+  intervalMs?: number;
+
+  /**
+   * Give up after this many milliseconds
+   * @default 600000 (10 minutes)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Called after every status check
+   */
+  onProgress?: (run: AnalysisRun) => void;
+
+  /**
+   * Abort waiting early, including a status check in flight
+   */
+  signal?: AbortSignal;
+}
@@ -0,0 +1,119 @@
+/**
+ * Webhook signature verification
+ *
+ * EvalMatch signs every webhook delivery with the subscription secret. The
+ * `X-EvalMatch-Signature` header looks like `t=1760799600,v1=5257a869...`,
+ * where v1 is the hex HMAC-SHA256 of `${t}.${rawBody}`. Always verify against
+ * the raw request body, before any JSON parsing.
+ *
+ * Uses the Web Crypto API, so it runs in Node.js 19+, browsers and edge
+ * runtimes. On Node.js 18 pass `crypto: require('node:crypto').webcrypto`.
+ */
+
+import { EvalMatchError } from './errors';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-evalmatch-signature';
+export const WEBHOOK_EVENT_HEADER = 'x-evalmatch-event';
+export const WEBHOOK_DELIVERY_HEADER = 'x-evalmatch-delivery';
+
+export type WebhookEventType =
+  | 'analysis.completed'
+  | 'batch.completed'
+  | 'bias.analysis.completed'
+  | 'resume.parsed';
+
+export interface WebhookEvent<T = Record<string, unknown>> {
+  id: string;
+  event: WebhookEventType;
+  createdAt: string;
+  data: T;
+}
+
+export interface VerifyWebhookOptions {
+  /** Raw request body exactly as received */
+  payload: string;
+  /** Value of the X-EvalMatch-Signature header */
+  signature: string;
+  /** Subscription secret returned when the webhook was created */
+  secret: string;
+  /** Maximum age of the signature timestamp, in seconds (default 300) */
+  toleranceSeconds?: number;
+  /** Current unix time in seconds, for testing */
+  now?: number;
+  /** Web Crypto implementation, defaults to globalThis.crypto */
+  crypto?: Pick<Crypto, 'subtle'>;
+}
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * Check a webhook signature. Resolves to false for a malformed header, a
+ * stale timestamp or a signature mismatch.
+ */
+export async function verifyWebhookSignature(options: VerifyWebhookOptions): Promise<boolean> {
+  const { payload, signature, secret } = options;
+  const toleranceSeconds = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+
+  const parts = new Map<string, string>();
+  for (const part of signature.split(',')) {
+    const [key, ...rest] = part.trim().split('=');
+    parts.set(key, rest.join('='));
+  }
+
+  const timestamp = Number(parts.get('t'));
+  const received = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !received) return false;
+  if (Math.abs(now - timestamp) > toleranceSeconds) return false;
+
+  const expected = await hmacSha256Hex(secret, `${timestamp}.${payload}`, options.crypto);
+  return constantTimeEqual(expected, received.toLowerCase());
+}
+
+/**
+ * Verify a delivery and parse its body, throwing when the signature is invalid
+ */
+export async function constructWebhookEvent<T = Record<string, unknown>>(
+  options: VerifyWebhookOptions
+): Promise<WebhookEvent<T>> {
+  if (!(await verifyWebhookSignature(options))) {
+    throw new EvalMatchError('Invalid webhook signature', 'WEBHOOK_SIGNATURE_INVALID', 400);
+  }
+  return JSON.parse(options.payload) as WebhookEvent<T>;
+}
+
+async function hmacSha256Hex(
+  secret: string,
+  message: string,
+  cryptoImpl: Pick<Crypto, 'subtle'> | undefined = globalThis.crypto
+): Promise<string> {
+  if (!cryptoImpl?.subtle) {
+    throw new EvalMatchError(
+      'Web Crypto API is not available; pass the crypto option (e.g. node:crypto webcrypto)',
+      'WEBCRYPTO_UNAVAILABLE'
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const key = await cryptoImpl.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const digest = await cryptoImpl.subtle.sign('HMAC', key, encoder.encode(message));
+
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
@@ -591,6 +591,14 @@ export const swaggerOptions: swaggerJsdoc.Options = {
       {
         name: 'Interview Questions',
         description: 'AI-generated interview questions'
+      },
+      {
+        name: 'Pipeline',
+        description: 'Hiring pipeline stages and candidate status tracking'
+      },
+      {
+        name: 'Webhooks',
+        description: 'Signed event notifications for analysis, batch, bias and parsing events'
       }
     ]
   },
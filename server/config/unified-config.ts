@@ -83,11 +83,12 @@ export interface AppConfig {
 
   // AI Providers
   ai: {
-    primary: "groq" | "openai" | "anthropic" | null;
+    primary: "local" | "groq" | "openai" | "anthropic" | null;
     providers: {
       groq: { apiKey: string | null; enabled: boolean };
       openai: { apiKey: string | null; enabled: boolean };
       anthropic: { apiKey: string | null; enabled: boolean };
+      local: { apiKey: string | null; baseUrl: string | null; enabled: boolean };
     };
     hasAnyProvider: boolean;
   };
@@ -217,18 +218,21 @@ export function loadUnifiedConfig(): AppConfig {
   const groqApiKey = process.env.GROQ_API_KEY || null;
   const openaiApiKey = process.env.OPENAI_API_KEY || null;
   const anthropicApiKey = process.env.ANTHROPIC_API_KEY || null;
+  const localBaseUrl = process.env.LOCAL_LLM_BASE_URL || null;
 
   const aiProviders = {
     groq: { apiKey: groqApiKey, enabled: !!groqApiKey },
     openai: { apiKey: openaiApiKey, enabled: !!openaiApiKey },
     anthropic: { apiKey: anthropicApiKey, enabled: !!anthropicApiKey },
+    local: { apiKey: process.env.LOCAL_LLM_API_KEY || null, baseUrl: localBaseUrl, enabled: !!localBaseUrl },
   };
 
-  const hasAnyProvider = !!(groqApiKey || openaiApiKey || anthropicApiKey);
+  const hasAnyProvider = !!(groqApiKey || openaiApiKey || anthropicApiKey || localBaseUrl);
 
-  // Determine primary AI provider (preference order: Groq -> OpenAI -> Anthropic)
-  let primaryProvider: "groq" | "openai" | "anthropic" | null = null;
-  if (groqApiKey) primaryProvider = "groq";
+  // Determine primary AI provider (preference order: self-hosted -> Groq -> OpenAI -> Anthropic)
+  let primaryProvider: "local" | "groq" | "openai" | "anthropic" | null = null;
+  if (localBaseUrl) primaryProvider = "local";
+  else if (groqApiKey) primaryProvider = "groq";
   else if (openaiApiKey) primaryProvider = "openai";
   else if (anthropicApiKey) primaryProvider = "anthropic";
 
@@ -1,26 +1,68 @@
 import { 
-  users, resumes, jobDescriptions, analysisResults, interviewQuestions,
+  users, resumes, jobDescriptions, jobDescriptionVersions, analysisResults, interviewQuestions, interviewScorecards,
+  productFeedback, analysisRatings, skillCorrections, skillTaxonomyEntries,
+  pipelineStages, candidatePipeline, pipelineTransitions,
+  webhookSubscriptions, webhookDeliveries,
+  analysisRuns, analysisRunItems, auditRecords, rescoreRuns, rescoredAnalysisResults,
+  llmUsageRecords, llmBudgets, llmOrganizationBudgets,
+  organizations, organizationMembers, organizationInvitations, candidateGroups,
   type User, type InsertUser, 
   type Resume, type InsertResume,
   type JobDescription, type InsertJobDescription,
+  type JobDescriptionVersion, type InsertJobDescriptionVersion,
   type AnalysisResult, type InsertAnalysisResult,
   type InterviewQuestions, type InsertInterviewQuestions,
+  type InterviewScorecard, type InsertInterviewScorecard,
+  type ProductFeedback, type InsertProductFeedback, type ProductFeedbackFilters, type ProductFeedbackPage,
+  type AnalysisRating, type InsertAnalysisRating, type AnalysisRatingFilters,
+  type SkillCorrection, type InsertSkillCorrection,
+  type SkillTaxonomyEntry, type InsertSkillTaxonomyEntry,
+  type CandidateGroup, type InsertCandidateGroup, type ResumeDuplicateState,
   type AnalyzeResumeResponse, type AnalyzeJobDescriptionResponse,
-  type SimpleBiasAnalysis
+  type SimpleBiasAnalysis,
+  type PipelineStage, type InsertPipelineStage,
+  type CandidatePipelineEntry, type InsertCandidatePipelineEntry,
+  type PipelineTransition, type InsertPipelineTransition,
+  type WebhookSubscription, type InsertWebhookSubscription,
+  type WebhookDelivery, type InsertWebhookDelivery,
+  type AnalysisRun, type InsertAnalysisRun,
+  type AnalysisRunItem, type InsertAnalysisRunItem,
+  type ResumeSimilarityMatch,
+  type AuditRecord, type AuditRecordContent, type AuditRecordFilters, type AuditRecordPage,
+  type RescoreRun, type InsertRescoreRun,
+  type RescoredAnalysisResult, type InsertRescoredAnalysisResult,
+  type LlmUsageRecord, type InsertLlmUsageRecord, type LlmBudget, type LlmOrganizationBudget,
+  type Organization, type InsertOrganization, type OrganizationWithRole, type OrganizationRole,
+  type OrganizationMember, type InsertOrganizationMember,
+  type OrganizationInvitation, type InsertOrganizationInvitation
 } from "@shared/schema";
 import { getDatabase } from "./database";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, or, desc, asc, gt, gte, lt, lte, count, sql, inArray, isNull, isNotNull, type SQL } from "drizzle-orm";
 import { IStorage } from "./storage";
 import { withRetry } from "./lib/db-retry";
+import { rankResumesBySimilarity, toEmbeddingVector } from "./lib/vector-search";
+import { AUDIT_GENESIS_HASH, sealAuditRecord } from "./lib/audit-chain";
 import { logger } from "./lib/logger";
 
+// Transaction-scoped advisory lock that serializes audit chain appends
+const AUDIT_CHAIN_LOCK_KEY = 7310201;
+
 /**
  * PostgreSQL implementation of the storage interface
  */
 export class DatabaseStorage implements IStorage {
+  private vectorColumnsCheck: Promise<boolean> | null = null;
+
   private get db() {
     return getDatabase();
   }
+
+  // Organizations the user belongs to, for org-shared access checks
+  private membershipOrganizationIds(userId: string) {
+    return this.db.select({ organizationId: organizationMembers.organizationId })
+      .from(organizationMembers)
+      .where(eq(organizationMembers.userId, userId));
+  }
   // User methods
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await this.db.select().from(users).where(eq(users.id, id));
@@ -49,7 +91,10 @@ export class DatabaseStorage implements IStorage {
     return withRetry(async () => {
       const [resume] = await this.db.select()
         .from(resumes)
-        .where(and(eq(resumes.id, id), eq(resumes.userId, userId)));
+        .where(and(
+          eq(resumes.id, id),
+          or(eq(resumes.userId, userId), inArray(resumes.organizationId, this.membershipOrganizationIds(userId))),
+        ));
       return resume;
     }, `getResumeById(${id}, ${userId})`);
   }
@@ -70,9 +115,11 @@ export class DatabaseStorage implements IStorage {
     }, `getResumes(${sessionId || 'all'})`);
   }
   
-  async getResumesByUserId(userId: string, sessionId?: string, batchId?: string): Promise<Resume[]> {
+  async getResumesByUserId(userId: string, sessionId?: string, batchId?: string, organizationId?: number): Promise<Resume[]> {
     return withRetry(async () => {
-      const conditions = [eq(resumes.userId, userId)];
+      const conditions = organizationId === undefined
+        ? [eq(resumes.userId, userId)]
+        : [eq(resumes.organizationId, organizationId), inArray(resumes.organizationId, this.membershipOrganizationIds(userId))];
       
       if (batchId) {
         conditions.push(eq(resumes.batchId, batchId));
@@ -86,7 +133,7 @@ export class DatabaseStorage implements IStorage {
         .from(resumes)
         .where(and(...conditions))
         .orderBy(desc(resumes.createdAt));
-    }, `getResumesByUserId(${userId}, ${sessionId || 'all'}, ${batchId || 'none'})`);
+    }, `getResumesByUserId(${userId}, ${sessionId || 'all'}, ${batchId || 'none'}, ${organizationId ?? 'personal'})`);
   }
   
   async createResume(insertResume: InsertResume): Promise<Resume> {
@@ -105,6 +152,7 @@ export class DatabaseStorage implements IStorage {
           ...insertResume,
         })
         .returning();
+      await this.syncEmbeddingVector('resumes', resume.id, resume.embedding);
         
       logger.info('Resume created successfully in database', {
         id: resume.id,
@@ -158,7 +206,13 @@ export class DatabaseStorage implements IStorage {
       try {
         const [jobDescription] = await this.db.select()
           .from(jobDescriptions)
-          .where(and(eq(jobDescriptions.id, id), eq(jobDescriptions.userId, userId)));
+          .where(and(
+            eq(jobDescriptions.id, id),
+            or(
+              eq(jobDescriptions.userId, userId),
+              inArray(jobDescriptions.organizationId, this.membershipOrganizationIds(userId)),
+            ),
+          ));
         
         logger.debug('User-scoped job lookup result', {
           found: !!jobDescription,
@@ -182,13 +236,20 @@ export class DatabaseStorage implements IStorage {
     }, 'getJobDescriptions()');
   }
   
-  async getJobDescriptionsByUserId(userId: string): Promise<JobDescription[]> {
+  async getJobDescriptionsByUserId(userId: string, organizationId?: number): Promise<JobDescription[]> {
     return withRetry(async () => {
+      const condition = organizationId === undefined
+        ? eq(jobDescriptions.userId, userId)
+        : and(
+            eq(jobDescriptions.organizationId, organizationId),
+            inArray(jobDescriptions.organizationId, this.membershipOrganizationIds(userId)),
+          );
+
       return this.db.select()
         .from(jobDescriptions)
-        .where(eq(jobDescriptions.userId, userId))
+        .where(condition)
         .orderBy(desc(jobDescriptions.createdAt));
-    }, `getJobDescriptionsByUserId(${userId})`);
+    }, `getJobDescriptionsByUserId(${userId}, ${organizationId ?? 'personal'})`);
   }
   
   async createJobDescription(insertJobDescription: InsertJobDescription): Promise<JobDescription> {
@@ -204,6 +265,7 @@ export class DatabaseStorage implements IStorage {
           ...insertJobDescription,
         })
         .returning();
+      await this.syncEmbeddingVector('job_descriptions', jobDescription.id, jobDescription.embedding);
         
       logger.info('Job description created successfully', {
         id: jobDescription.id,
@@ -231,6 +293,25 @@ export class DatabaseStorage implements IStorage {
       await this.db.delete(jobDescriptions).where(eq(jobDescriptions.id, id));
     }, `deleteJobDescription(${id})`);
   }
+
+  // Job description version methods
+  async createJobDescriptionVersion(version: InsertJobDescriptionVersion): Promise<JobDescriptionVersion> {
+    return withRetry(async () => {
+      const [created] = await this.db.insert(jobDescriptionVersions)
+        .values(version)
+        .returning();
+      return created;
+    }, `createJobDescriptionVersion(${version.jobDescriptionId}, ${version.version})`);
+  }
+
+  async getJobDescriptionVersions(jobDescriptionId: number): Promise<JobDescriptionVersion[]> {
+    return withRetry(async () => {
+      return this.db.select()
+        .from(jobDescriptionVersions)
+        .where(eq(jobDescriptionVersions.jobDescriptionId, jobDescriptionId))
+        .orderBy(desc(jobDescriptionVersions.version));
+    }, `getJobDescriptionVersions(${jobDescriptionId})`);
+  }
   
   async updateJobDescriptionAnalysis(id: number, analysis: AnalyzeJobDescriptionResponse): Promise<JobDescription> {
     return withRetry(async () => {
@@ -356,6 +437,8 @@ export class DatabaseStorage implements IStorage {
         aiProvider: analysisResults.aiProvider,
         modelVersion: analysisResults.modelVersion,
         processingFlags: analysisResults.processingFlags,
+        jobVersion: analysisResults.jobVersion,
+        staleAt: analysisResults.staleAt,
         createdAt: analysisResults.createdAt,
         updatedAt: analysisResults.updatedAt,
         resume: resumes
@@ -411,14 +494,32 @@ export class DatabaseStorage implements IStorage {
   
   async createAnalysisResult(insertAnalysisResult: InsertAnalysisResult): Promise<AnalysisResult> {
     return withRetry(async () => {
+      const { jobDescriptionId } = insertAnalysisResult;
       const [analysisResult] = await this.db.insert(analysisResults)
         .values({
           ...insertAnalysisResult,
+          jobVersion: insertAnalysisResult.jobVersion ?? (jobDescriptionId
+            ? sql`(SELECT ${jobDescriptions.version} FROM ${jobDescriptions} WHERE ${jobDescriptions.id} = ${jobDescriptionId})`
+            : null),
         })
         .returning();
       return analysisResult;
     }, 'createAnalysisResult()');
   }
+
+  async markAnalysisResultsStale(jobDescriptionId: number, currentVersion: number): Promise<number> {
+    return withRetry(async () => {
+      const marked = await this.db.update(analysisResults)
+        .set({ staleAt: new Date(), updatedAt: new Date() })
+        .where(and(
+          eq(analysisResults.jobDescriptionId, jobDescriptionId),
+          isNull(analysisResults.staleAt),
+          or(isNull(analysisResults.jobVersion), lt(analysisResults.jobVersion, currentVersion))
+        ))
+        .returning({ id: analysisResults.id });
+      return marked.length;
+    }, `markAnalysisResultsStale(${jobDescriptionId}, ${currentVersion})`);
+  }
   
   // Interview questions methods
   async getInterviewQuestions(id: number): Promise<InterviewQuestions | undefined> {
@@ -473,6 +574,256 @@ export class DatabaseStorage implements IStorage {
       return interviewQuestion;
     }, 'createInterviewQuestions()');
   }
+
+  // Interview scorecard methods
+  async getInterviewScorecards(interviewQuestionsId: number): Promise<InterviewScorecard[]> {
+    return withRetry(async () => {
+      return this.db.select()
+        .from(interviewScorecards)
+        .where(eq(interviewScorecards.interviewQuestionsId, interviewQuestionsId))
+        .orderBy(interviewScorecards.id);
+    }, `getInterviewScorecards(${interviewQuestionsId})`);
+  }
+
+  async upsertInterviewScorecard(scorecard: InsertInterviewScorecard): Promise<InterviewScorecard> {
+    return withRetry(async () => {
+      const [storedScorecard] = await this.db.insert(interviewScorecards)
+        .values(scorecard)
+        .onConflictDoUpdate({
+          target: [interviewScorecards.interviewQuestionsId, interviewScorecards.interviewerId],
+          set: {
+            interviewerName: scorecard.interviewerName ?? null,
+            ratings: scorecard.ratings,
+            recommendation: scorecard.recommendation ?? null,
+            notes: scorecard.notes ?? null,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+      return storedScorecard;
+    }, `upsertInterviewScorecard(${scorecard.interviewQuestionsId}, ${scorecard.interviewerId})`);
+  }
+
+  // Feedback methods
+  async createProductFeedback(feedback: InsertProductFeedback): Promise<ProductFeedback> {
+    return withRetry(async () => {
+      const [createdFeedback] = await this.db.insert(productFeedback)
+        .values(feedback)
+        .returning();
+      return createdFeedback;
+    }, 'createProductFeedback()');
+  }
+
+  async searchProductFeedback(filters: ProductFeedbackFilters): Promise<ProductFeedbackPage> {
+    return withRetry(async () => {
+      const conditions: SQL[] = [];
+      if (filters.type !== undefined) conditions.push(eq(productFeedback.type, filters.type));
+      if (filters.rating !== undefined) conditions.push(eq(productFeedback.rating, filters.rating));
+      if (filters.userId !== undefined) conditions.push(eq(productFeedback.userId, filters.userId));
+      if (filters.from !== undefined) conditions.push(gte(productFeedback.createdAt, filters.from));
+      if (filters.to !== undefined) conditions.push(lte(productFeedback.createdAt, filters.to));
+      const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+      const feedback = await this.db.select()
+        .from(productFeedback)
+        .where(where)
+        .orderBy(desc(productFeedback.id))
+        .limit(filters.limit ?? 50)
+        .offset(filters.offset ?? 0);
+      const [{ total }] = await this.db.select({ total: count() })
+        .from(productFeedback)
+        .where(where);
+
+      return { feedback, total };
+    }, 'searchProductFeedback()');
+  }
+
+  async upsertAnalysisRating(rating: InsertAnalysisRating): Promise<AnalysisRating> {
+    return withRetry(async () => {
+      const [storedRating] = await this.db.insert(analysisRatings)
+        .values(rating)
+        .onConflictDoUpdate({
+          target: [analysisRatings.analysisResultId, analysisRatings.userId],
+          set: {
+            verdict: rating.verdict ?? null,
+            missedSkills: rating.missedSkills ?? [],
+            comment: rating.comment ?? null,
+            matchPercentage: rating.matchPercentage ?? null,
+            aiProvider: rating.aiProvider ?? null,
+            modelVersion: rating.modelVersion ?? null,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+      return storedRating;
+    }, `upsertAnalysisRating(${rating.analysisResultId}, ${rating.userId})`);
+  }
+
+  async getAnalysisRating(analysisResultId: number, userId: string): Promise<AnalysisRating | undefined> {
+    return withRetry(async () => {
+      const [rating] = await this.db.select()
+        .from(analysisRatings)
+        .where(and(
+          eq(analysisRatings.analysisResultId, analysisResultId),
+          eq(analysisRatings.userId, userId)
+        ));
+      return rating;
+    }, `getAnalysisRating(${analysisResultId}, ${userId})`);
+  }
+
+  async listAnalysisRatings(filters: AnalysisRatingFilters): Promise<AnalysisRating[]> {
+    return withRetry(async () => {
+      const conditions: SQL[] = [];
+      if (filters.aiProvider !== undefined) conditions.push(eq(analysisRatings.aiProvider, filters.aiProvider));
+      if (filters.modelVersion !== undefined) conditions.push(eq(analysisRatings.modelVersion, filters.modelVersion));
+      if (filters.verdict !== undefined) conditions.push(eq(analysisRatings.verdict, filters.verdict));
+      if (filters.from !== undefined) conditions.push(gte(analysisRatings.updatedAt, filters.from));
+      if (filters.to !== undefined) conditions.push(lte(analysisRatings.updatedAt, filters.to));
+
+      const query = this.db.select()
+        .from(analysisRatings)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(desc(analysisRatings.id));
+      return filters.limit === undefined ? query : query.limit(filters.limit);
+    }, 'listAnalysisRatings()');
+  }
+
+  // Skill correction methods
+  async upsertSkillCorrection(correction: InsertSkillCorrection): Promise<SkillCorrection> {
+    return withRetry(async () => {
+      const [storedCorrection] = await this.db.insert(skillCorrections)
+        .values(correction)
+        .onConflictDoUpdate({
+          target: [skillCorrections.userId, skillCorrections.normalizedSkill],
+          set: {
+            type: correction.type,
+            skill: correction.skill,
+            equivalentTo: correction.equivalentTo ?? null,
+            resumeId: correction.resumeId ?? null,
+            jobDescriptionId: correction.jobDescriptionId ?? null,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+      return storedCorrection;
+    }, `upsertSkillCorrection(${correction.userId}, ${correction.normalizedSkill})`);
+  }
+
+  async getSkillCorrections(userId: string): Promise<SkillCorrection[]> {
+    return withRetry(async () => {
+      return this.db.select()
+        .from(skillCorrections)
+        .where(eq(skillCorrections.userId, userId))
+        .orderBy(desc(skillCorrections.id));
+    }, `getSkillCorrections(${userId})`);
+  }
+
+  async deleteSkillCorrection(id: number, userId: string): Promise<boolean> {
+    return withRetry(async () => {
+      const removed = await this.db.delete(skillCorrections)
+        .where(and(eq(skillCorrections.id, id), eq(skillCorrections.userId, userId)))
+        .returning({ id: skillCorrections.id });
+      return removed.length > 0;
+    }, `deleteSkillCorrection(${id})`);
+  }
+
+  // Skill taxonomy methods
+  async createSkillTaxonomyEntry(entry: InsertSkillTaxonomyEntry): Promise<SkillTaxonomyEntry> {
+    return withRetry(async () => {
+      const [createdEntry] = await this.db.insert(skillTaxonomyEntries)
+        .values(entry)
+        .returning();
+      return createdEntry;
+    }, `createSkillTaxonomyEntry(${entry.organizationId}, ${entry.normalizedName})`);
+  }
+
+  async updateSkillTaxonomyEntry(id: number, updates: Partial<InsertSkillTaxonomyEntry>): Promise<SkillTaxonomyEntry | undefined> {
+    return withRetry(async () => {
+      const [updatedEntry] = await this.db.update(skillTaxonomyEntries)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(skillTaxonomyEntries.id, id))
+        .returning();
+      return updatedEntry;
+    }, `updateSkillTaxonomyEntry(${id})`);
+  }
+
+  async getSkillTaxonomyEntries(organizationId: number): Promise<SkillTaxonomyEntry[]> {
+    return withRetry(async () => {
+      return this.db.select()
+        .from(skillTaxonomyEntries)
+        .where(eq(skillTaxonomyEntries.organizationId, organizationId))
+        .orderBy(asc(skillTaxonomyEntries.name));
+    }, `getSkillTaxonomyEntries(${organizationId})`);
+  }
+
+  async deleteSkillTaxonomyEntry(id: number, organizationId: number): Promise<boolean> {
+    return withRetry(async () => {
+      // parent_id is ON DELETE SET NULL, so narrower skills move to the top level
+      const removed = await this.db.delete(skillTaxonomyEntries)
+        .where(and(eq(skillTaxonomyEntries.id, id), eq(skillTaxonomyEntries.organizationId, organizationId)))
+        .returning({ id: skillTaxonomyEntries.id });
+      return removed.length > 0;
+    }, `deleteSkillTaxonomyEntry(${id})`);
+  }
+
+  // Candidate group methods
+  async createCandidateGroup(group: InsertCandidateGroup): Promise<CandidateGroup> {
+    return withRetry(async () => {
+      const [createdGroup] = await this.db.insert(candidateGroups)
+        .values(group)
+        .returning();
+      return createdGroup;
+    }, `createCandidateGroup(${group.primaryResumeId})`);
+  }
+
+  async getCandidateGroup(id: number): Promise<CandidateGroup | undefined> {
+    return withRetry(async () => {
+      const [group] = await this.db.select()
+        .from(candidateGroups)
+        .where(eq(candidateGroups.id, id));
+      return group;
+    }, `getCandidateGroup(${id})`);
+  }
+
+  async setCandidateGroupPrimary(id: number, primaryResumeId: number): Promise<CandidateGroup | undefined> {
+    return withRetry(async () => {
+      const [updatedGroup] = await this.db.update(candidateGroups)
+        .set({ primaryResumeId, updatedAt: new Date() })
+        .where(eq(candidateGroups.id, id))
+        .returning();
+      return updatedGroup;
+    }, `setCandidateGroupPrimary(${id}, ${primaryResumeId})`);
+  }
+
+  async deleteCandidateGroup(id: number): Promise<void> {
+    return withRetry(async () => {
+      // The foreign key only nulls the group; clear the duplicate state with it
+      await this.db.update(resumes)
+        .set({ candidateGroupId: null, duplicateStatus: null, duplicateSignals: null, updatedAt: new Date() })
+        .where(eq(resumes.candidateGroupId, id));
+      await this.db.delete(candidateGroups)
+        .where(eq(candidateGroups.id, id));
+    }, `deleteCandidateGroup(${id})`);
+  }
+
+  async getResumesByCandidateGroup(groupId: number): Promise<Resume[]> {
+    return withRetry(async () => {
+      return this.db.select()
+        .from(resumes)
+        .where(eq(resumes.candidateGroupId, groupId))
+        .orderBy(resumes.id);
+    }, `getResumesByCandidateGroup(${groupId})`);
+  }
+
+  async updateResumeDuplicateState(resumeId: number, state: ResumeDuplicateState): Promise<Resume | undefined> {
+    return withRetry(async () => {
+      const [updatedResume] = await this.db.update(resumes)
+        .set({ ...state, updatedAt: new Date() })
+        .where(eq(resumes.id, resumeId))
+        .returning();
+      return updatedResume;
+    }, `updateResumeDuplicateState(${resumeId})`);
+  }
   
   // Combination methods
   async getResumeWithLatestAnalysisAndQuestions(resumeId: number, jobDescriptionId: number): Promise<{
@@ -514,6 +865,557 @@ export class DatabaseStorage implements IStorage {
     };
   }
   
+  // Hiring pipeline methods
+  async getPipelineStages(jobDescriptionId: number): Promise<PipelineStage[]> {
+    return withRetry(async () => {
+      return this.db.select()
+        .from(pipelineStages)
+        .where(eq(pipelineStages.jobDescriptionId, jobDescriptionId))
+        .orderBy(asc(pipelineStages.position));
+    }, `getPipelineStages(${jobDescriptionId})`);
+  }
+
+  async replacePipelineStages(jobDescriptionId: number, stages: InsertPipelineStage[]): Promise<PipelineStage[]> {
+    return withRetry(async () => {
+      return this.db.transaction(async (tx) => {
+        await tx.delete(pipelineStages).where(eq(pipelineStages.jobDescriptionId, jobDescriptionId));
+
+        if (stages.length === 0) {
+          return [];
+        }
+
+        return tx.insert(pipelineStages)
+          .values(stages.map((stage, index) => ({
+            ...stage,
+            jobDescriptionId,
+            position: stage.position ?? index,
+          })))
+          .returning();
+      });
+    }, `replacePipelineStages(${jobDescriptionId})`);
+  }
+
+  async getCandidatePipelineEntries(jobDescriptionId: number): Promise<CandidatePipelineEntry[]> {
+    return withRetry(async () => {
+      return this.db.select()
+        .from(candidatePipeline)
+        .where(eq(candidatePipeline.jobDescriptionId, jobDescriptionId));
+    }, `getCandidatePipelineEntries(${jobDescriptionId})`);
+  }
+
+  async getCandidatePipelineEntry(jobDescriptionId: number, resumeId: number): Promise<CandidatePipelineEntry | undefined> {
+    return withRetry(async () => {
+      const [entry] = await this.db.select()
+        .from(candidatePipeline)
+        .where(and(
+          eq(candidatePipeline.jobDescriptionId, jobDescriptionId),
+          eq(candidatePipeline.resumeId, resumeId)
+        ));
+      return entry;
+    }, `getCandidatePipelineEntry(${jobDescriptionId}, ${resumeId})`);
+  }
+
+  async upsertCandidatePipelineEntry(entry: InsertCandidatePipelineEntry): Promise<CandidatePipelineEntry> {
+    return withRetry(async () => {
+      const [storedEntry] = await this.db.insert(candidatePipeline)
+        .values(entry)
+        .onConflictDoUpdate({
+          target: [candidatePipeline.jobDescriptionId, candidatePipeline.resumeId],
+          set: {
+            stage: entry.stage,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+      return storedEntry;
+    }, `upsertCandidatePipelineEntry(${entry.jobDescriptionId}, ${entry.resumeId})`);
+  }
+
+  async createPipelineTransition(transition: InsertPipelineTransition): Promise<PipelineTransition> {
+    return withRetry(async () => {
+      const [storedTransition] = await this.db.insert(pipelineTransitions)
+        .values(transition)
+        .returning();
+      return storedTransition;
+    }, 'createPipelineTransition()');
+  }
+
+  async getPipelineTransitions(jobDescriptionId: number, resumeId?: number): Promise<PipelineTransition[]> {
+    return withRetry(async () => {
+      const conditions = [eq(pipelineTransitions.jobDescriptionId, jobDescriptionId)];
+
+      if (resumeId !== undefined) {
+        conditions.push(eq(pipelineTransitions.resumeId, resumeId));
+      }
+
+      return this.db.select()
+        .from(pipelineTransitions)
+        .where(and(...conditions))
+        .orderBy(desc(pipelineTransitions.createdAt), desc(pipelineTransitions.id));
+    }, `getPipelineTransitions(${jobDescriptionId}, ${resumeId ?? 'all'})`);
+  }
+
+  // Webhook methods
+  async createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription> {
+    return withRetry(async () => {
+      const [storedSubscription] = await this.db.insert(webhookSubscriptions)
+        .values(subscription)
+        .returning();
+      return storedSubscription;
+    }, 'createWebhookSubscription()');
+  }
+
+  async getWebhookSubscriptions(userId: string): Promise<WebhookSubscription[]> {
+    return withRetry(async () => {
+      return this.db.select()
+        .from(webhookSubscriptions)
+        .where(eq(webhookSubscriptions.userId, userId))
+        .orderBy(desc(webhookSubscriptions.id));
+    }, `getWebhookSubscriptions(${userId})`);
+  }
+
+  async getWebhookSubscription(id: number): Promise<WebhookSubscription | undefined> {
+    return withRetry(async () => {
+      const [subscription] = await this.db.select()
+        .from(webhookSubscriptions)
+        .where(eq(webhookSubscriptions.id, id));
+      return subscription;
+    }, `getWebhookSubscription(${id})`);
+  }
+
+  async updateWebhookSubscription(id: number, updates: Partial<InsertWebhookSubscription>): Promise<WebhookSubscription | undefined> {
+    return withRetry(async () => {
+      const [updatedSubscription] = await this.db.update(webhookSubscriptions)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(webhookSubscriptions.id, id))
+        .returning();
+      return updatedSubscription;
+    }, `updateWebhookSubscription(${id})`);
+  }
+
+  async deleteWebhookSubscription(id: number): Promise<void> {
+    return withRetry(async () => {
+      await this.db.transaction(async (tx) => {
+        await tx.delete(webhookDeliveries).where(eq(webhookDeliveries.subscriptionId, id));
+        await tx.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+      });
+    }, `deleteWebhookSubscription(${id})`);
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    return withRetry(async () => {
+      const [storedDelivery] = await this.db.insert(webhookDeliveries)
+        .values(delivery)
+        .returning();
+      return storedDelivery;
+    }, 'createWebhookDelivery()');
+  }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    return withRetry(async () => {
+      const [delivery] = await this.db.select()
+        .from(webhookDeliveries)
+        .where(eq(webhookDeliveries.id, id));
+      return delivery;
+    }, `getWebhookDelivery(${id})`);
+  }
+
+  async updateWebhookDelivery(id: number, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    return withRetry(async () => {
+      const [updatedDelivery] = await this.db.update(webhookDeliveries)
+        .set(updates)
+        .where(eq(webhookDeliveries.id, id))
+        .returning();
+      return updatedDelivery;
+    }, `updateWebhookDelivery(${id})`);
+  }
+
+  async getWebhookDeliveries(subscriptionId: number, limit = 50): Promise<WebhookDelivery[]> {
+    return withRetry(async () => {
+      return this.db.select()
+        .from(webhookDeliveries)
+        .where(eq(webhookDeliveries.subscriptionId, subscriptionId))
+        .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+        .limit(limit);
+    }, `getWebhookDeliveries(${subscriptionId})`);
+  }
+
+  // Analysis run methods
+  async createAnalysisRun(run: InsertAnalysisRun): Promise<AnalysisRun> {
+    return withRetry(async () => {
+      const [storedRun] = await this.db.insert(analysisRuns)
+        .values(run)
+        .returning();
+      return storedRun;
+    }, 'createAnalysisRun()');
+  }
+
+  async getAnalysisRun(id: number): Promise<AnalysisRun | undefined> {
+    return withRetry(async () => {
+      const [run] = await this.db.select()
+        .from(analysisRuns)
+        .where(eq(analysisRuns.id, id));
+      return run;
+    }, `getAnalysisRun(${id})`);
+  }
+
+  async updateAnalysisRun(id: number, updates: Partial<InsertAnalysisRun>): Promise<AnalysisRun | undefined> {
+    return withRetry(async () => {
+      const [updatedRun] = await this.db.update(analysisRuns)
+        .set(updates)
+        .where(eq(analysisRuns.id, id))
+        .returning();
+      return updatedRun;
+    }, `updateAnalysisRun(${id})`);
+  }
+
+  async createAnalysisRunItem(item: InsertAnalysisRunItem): Promise<AnalysisRunItem> {
+    return withRetry(async () => {
+      const [storedItem] = await this.db.insert(analysisRunItems)
+        .values(item)
+        .returning();
+      return storedItem;
+    }, 'createAnalysisRunItem()');
+  }
+
+  async getAnalysisRunItems(runId: number): Promise<AnalysisRunItem[]> {
+    return withRetry(async () => {
+      return this.db.select()
+        .from(analysisRunItems)
+        .where(eq(analysisRunItems.runId, runId))
+        .orderBy(asc(analysisRunItems.id));
+    }, `getAnalysisRunItems(${runId})`);
+  }
+
+  async updateAnalysisRunItem(id: number, updates: Partial<InsertAnalysisRunItem>): Promise<AnalysisRunItem | undefined> {
+    return withRetry(async () => {
+      const [updatedItem] = await this.db.update(analysisRunItems)
+        .set(updates)
+        .where(eq(analysisRunItems.id, id))
+        .returning();
+      return updatedItem;
+    }, `updateAnalysisRunItem(${id})`);
+  }
+
+  // Audit record methods
+  async appendAuditRecord(content: AuditRecordContent): Promise<AuditRecord> {
+    return withRetry(async () => {
+      return this.db.transaction(async (tx) => {
+        await tx.execute(sql`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_KEY})`);
+
+        const [previous] = await tx.select({ recordHash: auditRecords.recordHash })
+          .from(auditRecords)
+          .orderBy(desc(auditRecords.id))
+          .limit(1);
+
+        const [record] = await tx.insert(auditRecords)
+          .values(sealAuditRecord(content, previous?.recordHash ?? AUDIT_GENESIS_HASH))
+          .returning();
+        return record;
+      });
+    }, `appendAuditRecord(${content.recordId})`);
+  }
+
+  async searchAuditRecords(filters: AuditRecordFilters): Promise<AuditRecordPage> {
+    return withRetry(async () => {
+      const conditions: SQL[] = [];
+      if (filters.userId !== undefined) conditions.push(eq(auditRecords.userId, filters.userId));
+      if (filters.jobId !== undefined) conditions.push(eq(auditRecords.jobId, filters.jobId));
+      if (filters.resumeId !== undefined) conditions.push(eq(auditRecords.resumeId, filters.resumeId));
+      if (filters.resumeHash !== undefined) conditions.push(eq(auditRecords.resumeHash, filters.resumeHash));
+      if (filters.eventType !== undefined) conditions.push(eq(auditRecords.eventType, filters.eventType));
+      if (filters.provider !== undefined) conditions.push(eq(auditRecords.provider, filters.provider));
+      if (filters.model !== undefined) conditions.push(eq(auditRecords.model, filters.model));
+      if (filters.from !== undefined) conditions.push(gte(auditRecords.createdAt, filters.from));
+      if (filters.to !== undefined) conditions.push(lte(auditRecords.createdAt, filters.to));
+      const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+      const records = await this.db.select()
+        .from(auditRecords)
+        .where(where)
+        .orderBy(desc(auditRecords.id))
+        .limit(filters.limit ?? 50)
+        .offset(filters.offset ?? 0);
+      const [{ total }] = await this.db.select({ total: count() })
+        .from(auditRecords)
+        .where(where);
+
+      return { records, total };
+    }, 'searchAuditRecords()');
+  }
+
+  async getAuditRecordsAfter(afterId: number, limit: number): Promise<AuditRecord[]> {
+    return withRetry(async () => {
+      return this.db.select()
+        .from(auditRecords)
+        .where(gt(auditRecords.id, afterId))
+        .orderBy(asc(auditRecords.id))
+        .limit(limit);
+    }, `getAuditRecordsAfter(${afterId})`);
+  }
+
+  // Re-scoring methods
+  async createRescoreRun(run: InsertRescoreRun): Promise<RescoreRun> {
+    return withRetry(async () => {
+      const [storedRun] = await this.db.insert(rescoreRuns)
+        .values(run)
+        .returning();
+      return storedRun;
+    }, 'createRescoreRun()');
+  }
+
+  async getRescoreRun(id: number): Promise<RescoreRun | undefined> {
+    return withRetry(async () => {
+      const [run] = await this.db.select()
+        .from(rescoreRuns)
+        .where(eq(rescoreRuns.id, id));
+      return run;
+    }, `getRescoreRun(${id})`);
+  }
+
+  async updateRescoreRun(id: number, updates: Partial<InsertRescoreRun>): Promise<RescoreRun | undefined> {
+    return withRetry(async () => {
+      const [updatedRun] = await this.db.update(rescoreRuns)
+        .set(updates)
+        .where(eq(rescoreRuns.id, id))
+        .returning();
+      return updatedRun;
+    }, `updateRescoreRun(${id})`);
+  }
+
+  async createRescoredAnalysisResults(results: InsertRescoredAnalysisResult[]): Promise<RescoredAnalysisResult[]> {
+    if (results.length === 0) {
+      return [];
+    }
+
+    return withRetry(async () => {
+      return this.db.insert(rescoredAnalysisResults)
+        .values(results)
+        .returning();
+    }, `createRescoredAnalysisResults(${results.length})`);
+  }
+
+  async getRescoredAnalysisResults(runId: number): Promise<RescoredAnalysisResult[]> {
+    return withRetry(async () => {
+      return this.db.select()
+        .from(rescoredAnalysisResults)
+        .where(eq(rescoredAnalysisResults.runId, runId))
+        .orderBy(asc(rescoredAnalysisResults.id));
+    }, `getRescoredAnalysisResults(${runId})`);
+  }
+
+  // LLM usage methods
+  async recordLlmUsage(record: InsertLlmUsageRecord): Promise<LlmUsageRecord> {
+    return withRetry(async () => {
+      const [storedRecord] = await this.db.insert(llmUsageRecords)
+        .values(record)
+        .returning();
+      return storedRecord;
+    }, 'recordLlmUsage()');
+  }
+
+  async getLlmUsageRecords(userId: string, since: Date): Promise<LlmUsageRecord[]> {
+    return withRetry(async () => {
+      return this.db.select()
+        .from(llmUsageRecords)
+        .where(and(eq(llmUsageRecords.userId, userId), gte(llmUsageRecords.createdAt, since)))
+        .orderBy(asc(llmUsageRecords.id));
+    }, `getLlmUsageRecords(${userId})`);
+  }
+
+  async getLlmBudget(userId: string): Promise<LlmBudget | undefined> {
+    return withRetry(async () => {
+      const [budget] = await this.db.select()
+        .from(llmBudgets)
+        .where(eq(llmBudgets.userId, userId));
+      return budget;
+    }, `getLlmBudget(${userId})`);
+  }
+
+  async setLlmBudget(userId: string, monthlyLimitUsd: number): Promise<LlmBudget> {
+    return withRetry(async () => {
+      const [budget] = await this.db.insert(llmBudgets)
+        .values({ userId, monthlyLimitUsd })
+        .onConflictDoUpdate({
+          target: llmBudgets.userId,
+          set: { monthlyLimitUsd, updatedAt: new Date() },
+        })
+        .returning();
+      return budget;
+    }, `setLlmBudget(${userId})`);
+  }
+
+  async getOrganizationLlmUsageRecords(organizationId: number, since: Date): Promise<LlmUsageRecord[]> {
+    return withRetry(async () => {
+      return this.db.select()
+        .from(llmUsageRecords)
+        .where(and(eq(llmUsageRecords.organizationId, organizationId), gte(llmUsageRecords.createdAt, since)))
+        .orderBy(asc(llmUsageRecords.id));
+    }, `getOrganizationLlmUsageRecords(${organizationId})`);
+  }
+
+  async getOrganizationLlmBudget(organizationId: number): Promise<LlmOrganizationBudget | undefined> {
+    return withRetry(async () => {
+      const [budget] = await this.db.select()
+        .from(llmOrganizationBudgets)
+        .where(eq(llmOrganizationBudgets.organizationId, organizationId));
+      return budget;
+    }, `getOrganizationLlmBudget(${organizationId})`);
+  }
+
+  async setOrganizationLlmBudget(organizationId: number, monthlyLimitUsd: number): Promise<LlmOrganizationBudget> {
+    return withRetry(async () => {
+      const [budget] = await this.db.insert(llmOrganizationBudgets)
+        .values({ organizationId, monthlyLimitUsd })
+        .onConflictDoUpdate({
+          target: llmOrganizationBudgets.organizationId,
+          set: { monthlyLimitUsd, updatedAt: new Date() },
+        })
+        .returning();
+      return budget;
+    }, `setOrganizationLlmBudget(${organizationId})`);
+  }
+
+  // Organization methods
+  async createOrganization(organization: InsertOrganization): Promise<Organization> {
+    return withRetry(async () => {
+      return this.db.transaction(async (tx) => {
+        const [storedOrganization] = await tx.insert(organizations)
+          .values(organization)
+          .returning();
+        await tx.insert(organizationMembers).values({
+          organizationId: storedOrganization.id,
+          userId: storedOrganization.createdBy,
+          role: 'owner',
+        });
+        return storedOrganization;
+      });
+    }, `createOrganization(${organization.name})`);
+  }
+
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    return withRetry(async () => {
+      const [organization] = await this.db.select()
+        .from(organizations)
+        .where(eq(organizations.id, id));
+      return organization;
+    }, `getOrganization(${id})`);
+  }
+
+  async getOrganizationsForUser(userId: string): Promise<OrganizationWithRole[]> {
+    return withRetry(async () => {
+      const rows = await this.db.select({ organization: organizations, role: organizationMembers.role })
+        .from(organizationMembers)
+        .innerJoin(organizations, eq(organizations.id, organizationMembers.organizationId))
+        .where(eq(organizationMembers.userId, userId))
+        .orderBy(asc(organizations.id));
+      return rows.map(({ organization, role }) => ({ ...organization, role }));
+    }, `getOrganizationsForUser(${userId})`);
+  }
+
+  async getOrganizationMembership(organizationId: number, userId: string): Promise<OrganizationMember | undefined> {
+    return withRetry(async () => {
+      const [member] = await this.db.select()
+        .from(organizationMembers)
+        .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)));
+      return member;
+    }, `getOrganizationMembership(${organizationId}, ${userId})`);
+  }
+
+  async getOrganizationMembers(organizationId: number): Promise<OrganizationMember[]> {
+    return withRetry(async () => {
+      return this.db.select()
+        .from(organizationMembers)
+        .where(eq(organizationMembers.organizationId, organizationId))
+        .orderBy(asc(organizationMembers.id));
+    }, `getOrganizationMembers(${organizationId})`);
+  }
+
+  async addOrganizationMember(member: InsertOrganizationMember): Promise<OrganizationMember> {
+    return withRetry(async () => {
+      const [storedMember] = await this.db.insert(organizationMembers)
+        .values(member)
+        .returning();
+      return storedMember;
+    }, `addOrganizationMember(${member.organizationId}, ${member.userId})`);
+  }
+
+  async updateOrganizationMemberRole(organizationId: number, userId: string, role: OrganizationRole): Promise<OrganizationMember | undefined> {
+    return withRetry(async () => {
+      const [updatedMember] = await this.db.update(organizationMembers)
+        .set({ role, updatedAt: new Date() })
+        .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)))
+        .returning();
+      return updatedMember;
+    }, `updateOrganizationMemberRole(${organizationId}, ${userId})`);
+  }
+
+  async removeOrganizationMember(organizationId: number, userId: string): Promise<boolean> {
+    return withRetry(async () => {
+      const removed = await this.db.delete(organizationMembers)
+        .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)))
+        .returning({ id: organizationMembers.id });
+      return removed.length > 0;
+    }, `removeOrganizationMember(${organizationId}, ${userId})`);
+  }
+
+  async createOrganizationInvitation(invitation: InsertOrganizationInvitation): Promise<OrganizationInvitation> {
+    return withRetry(async () => {
+      const [storedInvitation] = await this.db.insert(organizationInvitations)
+        .values(invitation)
+        .returning();
+      return storedInvitation;
+    }, `createOrganizationInvitation(${invitation.organizationId})`);
+  }
+
+  async getOrganizationInvitationByTokenHash(tokenHash: string): Promise<OrganizationInvitation | undefined> {
+    return withRetry(async () => {
+      const [invitation] = await this.db.select()
+        .from(organizationInvitations)
+        .where(eq(organizationInvitations.tokenHash, tokenHash));
+      return invitation;
+    }, 'getOrganizationInvitationByTokenHash()');
+  }
+
+  async getOrganizationInvitations(organizationId: number): Promise<OrganizationInvitation[]> {
+    return withRetry(async () => {
+      return this.db.select()
+        .from(organizationInvitations)
+        .where(eq(organizationInvitations.organizationId, organizationId))
+        .orderBy(desc(organizationInvitations.id));
+    }, `getOrganizationInvitations(${organizationId})`);
+  }
+
+  async updateOrganizationInvitation(id: number, updates: Partial<InsertOrganizationInvitation>): Promise<OrganizationInvitation | undefined> {
+    return withRetry(async () => {
+      const [updatedInvitation] = await this.db.update(organizationInvitations)
+        .set(updates)
+        .where(eq(organizationInvitations.id, id))
+        .returning();
+      return updatedInvitation;
+    }, `updateOrganizationInvitation(${id})`);
+  }
+
+  async setResumeOrganization(resumeId: number, organizationId: number | null): Promise<Resume | undefined> {
+    return withRetry(async () => {
+      const [updatedResume] = await this.db.update(resumes)
+        .set({ organizationId, updatedAt: new Date() })
+        .where(eq(resumes.id, resumeId))
+        .returning();
+      return updatedResume;
+    }, `setResumeOrganization(${resumeId}, ${organizationId})`);
+  }
+
+  async setJobDescriptionOrganization(jobId: number, organizationId: number | null): Promise<JobDescription | undefined> {
+    return withRetry(async () => {
+      const [updatedJobDescription] = await this.db.update(jobDescriptions)
+        .set({ organizationId, updatedAt: new Date() })
+        .where(eq(jobDescriptions.id, jobId))
+        .returning();
+      return updatedJobDescription;
+    }, `setJobDescriptionOrganization(${jobId}, ${organizationId})`);
+  }
+
   // Missing embedding methods required by IStorage interface
   async updateResumeEmbeddings(id: number, embedding: number[] | null, skillsEmbedding: number[] | null): Promise<Resume> {
     return withRetry(async () => {
@@ -528,11 +1430,108 @@ export class DatabaseStorage implements IStorage {
       if (!updatedResume) {
         throw new Error(`Resume with ID ${id} not found`);
       }
+      await this.syncEmbeddingVector('resumes', id, embedding);
       
       return updatedResume;
     }, `updateResumeEmbeddings(${id})`);
   }
-  
+
+  async searchSimilarResumes(jobId: number, k: number): Promise<ResumeSimilarityMatch[]> {
+    return withRetry(async () => {
+      const [job] = await this.db.select({
+        userId: jobDescriptions.userId,
+        embedding: jobDescriptions.embedding
+      })
+        .from(jobDescriptions)
+        .where(eq(jobDescriptions.id, jobId));
+
+      if (!job?.userId || k <= 0) {
+        return [];
+      }
+
+      if (!(await this.hasVectorColumns())) {
+        const ownerResumes = await this.db.select()
+          .from(resumes)
+          .where(and(eq(resumes.userId, job.userId), isNotNull(resumes.embedding)));
+        return rankResumesBySimilarity(job.embedding, ownerResumes, k);
+      }
+
+      const query = toEmbeddingVector(job.embedding);
+      if (!query) {
+        return [];
+      }
+
+      // Ordering by the <=> distance to a constant lets Postgres walk the HNSW index
+      const result = await this.db.execute(sql`
+        SELECT id, embedding_vector <=> ${JSON.stringify(query)}::vector AS distance
+        FROM resumes
+        WHERE user_id = ${job.userId} AND embedding_vector IS NOT NULL
+        ORDER BY distance
+        LIMIT ${k}
+      `);
+      const nearest = (result as unknown as { rows: Array<{ id: number; distance: string | number }> }).rows;
+      if (nearest.length === 0) {
+        return [];
+      }
+
+      const byId = new Map(
+        (await this.db.select().from(resumes).where(inArray(resumes.id, nearest.map(row => row.id))))
+          .map(resume => [resume.id, resume])
+      );
+      return nearest.flatMap(row => {
+        const resume = byId.get(row.id);
+        return resume ? [{ resume, similarity: 1 - Number(row.distance) }] : [];
+      });
+    }, `searchSimilarResumes(${jobId}, ${k})`);
+  }
+
+  /**
+   * Whether migration 019 could create the pgvector columns. They are kept
+   * out of the Drizzle schema so hosts without the extension still work;
+   * checked once per process.
+   */
+  private hasVectorColumns(): Promise<boolean> {
+    if (!this.vectorColumnsCheck) {
+      this.vectorColumnsCheck = this.db.execute(sql`
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'resumes' AND column_name = 'embedding_vector'
+      `)
+        .then(result => ((result as unknown as { rows?: unknown[] }).rows?.length ?? 0) > 0)
+        .catch(error => {
+          this.vectorColumnsCheck = null;
+          throw error;
+        });
+    }
+    return this.vectorColumnsCheck;
+  }
+
+  // Keeps the indexed pgvector copy in step with the JSON embedding. Runs
+  // after the row is written, so a failure is logged rather than rethrown
+  // (a retry would insert the row twice).
+  private async syncEmbeddingVector(
+    table: 'resumes' | 'job_descriptions',
+    id: number,
+    embedding: number[] | null | undefined
+  ): Promise<void> {
+    try {
+      if (!(await this.hasVectorColumns())) {
+        return;
+      }
+      const vector = toEmbeddingVector(embedding);
+      await this.db.execute(sql`
+        UPDATE ${sql.identifier(table)}
+        SET embedding_vector = ${vector ? JSON.stringify(vector) : null}::vector
+        WHERE id = ${id}
+      `);
+    } catch (error) {
+      logger.warn('Failed to update embedding vector', {
+        table,
+        id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   async updateJobDescriptionEmbeddings(id: number, embedding: number[] | null, requirementsEmbedding: number[] | null): Promise<JobDescription> {
     return withRetry(async () => {
       const [updatedJobDescription] = await this.db.update(jobDescriptions)
@@ -546,8 +1545,9 @@ export class DatabaseStorage implements IStorage {
       if (!updatedJobDescription) {
         throw new Error(`Job description with ID ${id} not found`);
       }
+      await this.syncEmbeddingVector('job_descriptions', id, embedding);
       
       return updatedJobDescription;
     }, `updateJobDescriptionEmbeddings(${id})`);
   }
-}
\ No newline at end of file
+}
\ No newline at end of file
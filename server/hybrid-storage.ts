@@ -18,10 +18,32 @@ import { logger } from './config/logger';
 import {
   type Resume, type InsertResume,
   type JobDescription, type InsertJobDescription,
+  type JobDescriptionVersion, type InsertJobDescriptionVersion,
   type AnalysisResult, type InsertAnalysisResult,
   type InterviewQuestions, type InsertInterviewQuestions,
+  type InterviewScorecard, type InsertInterviewScorecard,
+  type ProductFeedback, type InsertProductFeedback, type ProductFeedbackFilters, type ProductFeedbackPage,
+  type AnalysisRating, type InsertAnalysisRating, type AnalysisRatingFilters,
+  type SkillCorrection, type InsertSkillCorrection,
+  type SkillTaxonomyEntry, type InsertSkillTaxonomyEntry,
+  type CandidateGroup, type InsertCandidateGroup, type ResumeDuplicateState,
   type AnalyzeResumeResponse, type AnalyzeJobDescriptionResponse,
-  type User, type InsertUser, type SimpleBiasAnalysis
+  type User, type InsertUser, type SimpleBiasAnalysis,
+  type PipelineStage, type InsertPipelineStage,
+  type CandidatePipelineEntry, type InsertCandidatePipelineEntry,
+  type PipelineTransition, type InsertPipelineTransition,
+  type WebhookSubscription, type InsertWebhookSubscription,
+  type WebhookDelivery, type InsertWebhookDelivery,
+  type AnalysisRun, type InsertAnalysisRun,
+  type AnalysisRunItem, type InsertAnalysisRunItem,
+  type ResumeSimilarityMatch,
+  type AuditRecord, type AuditRecordContent, type AuditRecordFilters, type AuditRecordPage,
+  type RescoreRun, type InsertRescoreRun,
+  type RescoredAnalysisResult, type InsertRescoredAnalysisResult,
+  type LlmUsageRecord, type InsertLlmUsageRecord, type LlmBudget, type LlmOrganizationBudget,
+  type Organization, type InsertOrganization, type OrganizationWithRole, type OrganizationRole,
+  type OrganizationMember, type InsertOrganizationMember,
+  type OrganizationInvitation, type InsertOrganizationInvitation
 } from "@shared/schema";
 
 // Enhanced database health tracking with recovery mechanisms
@@ -503,11 +525,11 @@ export class HybridStorage implements IStorage {
     );
   }
   
-  async getResumesByUserId(userId: string, sessionId?: string, batchId?: string): Promise<Resume[]> {
+  async getResumesByUserId(userId: string, sessionId?: string, batchId?: string, organizationId?: number): Promise<Resume[]> {
     return this.executeWithFallback(
-      `getResumesByUserId(${userId}, ${sessionId}, ${batchId})`,
-      () => this.dbStorage.getResumesByUserId(userId, sessionId, batchId),
-      () => this.memStorage.getResumesByUserId(userId, sessionId, batchId)
+      `getResumesByUserId(${userId}, ${sessionId}, ${batchId}, ${organizationId})`,
+      () => this.dbStorage.getResumesByUserId(userId, sessionId, batchId, organizationId),
+      () => this.memStorage.getResumesByUserId(userId, sessionId, batchId, organizationId)
     );
   }
   
@@ -554,11 +576,11 @@ export class HybridStorage implements IStorage {
     );
   }
   
-  async getJobDescriptionsByUserId(userId: string): Promise<JobDescription[]> {
+  async getJobDescriptionsByUserId(userId: string, organizationId?: number): Promise<JobDescription[]> {
     return this.executeWithFallback(
-      `getJobDescriptionsByUserId(${userId})`,
-      () => this.dbStorage.getJobDescriptionsByUserId(userId),
-      () => this.memStorage.getJobDescriptionsByUserId(userId)
+      `getJobDescriptionsByUserId(${userId}, ${organizationId})`,
+      () => this.dbStorage.getJobDescriptionsByUserId(userId, organizationId),
+      () => this.memStorage.getJobDescriptionsByUserId(userId, organizationId)
     );
   }
   
@@ -588,6 +610,24 @@ export class HybridStorage implements IStorage {
       true
     );
   }
+
+  // Job description version methods
+  async createJobDescriptionVersion(version: InsertJobDescriptionVersion): Promise<JobDescriptionVersion> {
+    return this.executeWithFallback(
+      `createJobDescriptionVersion(${version.jobDescriptionId}, ${version.version})`,
+      () => this.dbStorage.createJobDescriptionVersion(version),
+      () => this.memStorage.createJobDescriptionVersion(version),
+      true
+    );
+  }
+
+  async getJobDescriptionVersions(jobDescriptionId: number): Promise<JobDescriptionVersion[]> {
+    return this.executeWithFallback(
+      `getJobDescriptionVersions(${jobDescriptionId})`,
+      () => this.dbStorage.getJobDescriptionVersions(jobDescriptionId),
+      () => this.memStorage.getJobDescriptionVersions(jobDescriptionId)
+    );
+  }
   
   async updateJobDescriptionAnalysis(id: number, analysis: AnalyzeJobDescriptionResponse): Promise<JobDescription> {
     return this.executeWithFallback(
@@ -661,6 +701,15 @@ export class HybridStorage implements IStorage {
       true
     );
   }
+
+  async markAnalysisResultsStale(jobDescriptionId: number, currentVersion: number): Promise<number> {
+    return this.executeWithFallback(
+      `markAnalysisResultsStale(${jobDescriptionId}, ${currentVersion})`,
+      () => this.dbStorage.markAnalysisResultsStale(jobDescriptionId, currentVersion),
+      () => this.memStorage.markAnalysisResultsStale(jobDescriptionId, currentVersion),
+      true
+    );
+  }
   
   // Interview questions methods
   async getInterviewQuestions(id: number): Promise<InterviewQuestions | undefined> {
@@ -703,6 +752,183 @@ export class HybridStorage implements IStorage {
       true
     );
   }
+
+  // Interview scorecard methods
+  async getInterviewScorecards(interviewQuestionsId: number): Promise<InterviewScorecard[]> {
+    return this.executeWithFallback(
+      `getInterviewScorecards(${interviewQuestionsId})`,
+      () => this.dbStorage.getInterviewScorecards(interviewQuestionsId),
+      () => this.memStorage.getInterviewScorecards(interviewQuestionsId)
+    );
+  }
+
+  async upsertInterviewScorecard(scorecard: InsertInterviewScorecard): Promise<InterviewScorecard> {
+    return this.executeWithFallback(
+      'upsertInterviewScorecard',
+      () => this.dbStorage.upsertInterviewScorecard(scorecard),
+      () => this.memStorage.upsertInterviewScorecard(scorecard),
+      true
+    );
+  }
+
+  // Feedback methods
+  async createProductFeedback(feedback: InsertProductFeedback): Promise<ProductFeedback> {
+    return this.executeWithFallback(
+      'createProductFeedback',
+      () => this.dbStorage.createProductFeedback(feedback),
+      () => this.memStorage.createProductFeedback(feedback),
+      true
+    );
+  }
+
+  async searchProductFeedback(filters: ProductFeedbackFilters): Promise<ProductFeedbackPage> {
+    return this.executeWithFallback(
+      'searchProductFeedback',
+      () => this.dbStorage.searchProductFeedback(filters),
+      () => this.memStorage.searchProductFeedback(filters)
+    );
+  }
+
+  async upsertAnalysisRating(rating: InsertAnalysisRating): Promise<AnalysisRating> {
+    return this.executeWithFallback(
+      'upsertAnalysisRating',
+      () => this.dbStorage.upsertAnalysisRating(rating),
+      () => this.memStorage.upsertAnalysisRating(rating),
+      true
+    );
+  }
+
+  async getAnalysisRating(analysisResultId: number, userId: string): Promise<AnalysisRating | undefined> {
+    return this.executeWithFallback(
+      `getAnalysisRating(${analysisResultId})`,
+      () => this.dbStorage.getAnalysisRating(analysisResultId, userId),
+      () => this.memStorage.getAnalysisRating(analysisResultId, userId)
+    );
+  }
+
+  async listAnalysisRatings(filters: AnalysisRatingFilters): Promise<AnalysisRating[]> {
+    return this.executeWithFallback(
+      'listAnalysisRatings',
+      () => this.dbStorage.listAnalysisRatings(filters),
+      () => this.memStorage.listAnalysisRatings(filters)
+    );
+  }
+
+  // Skill correction methods
+  async upsertSkillCorrection(correction: InsertSkillCorrection): Promise<SkillCorrection> {
+    return this.executeWithFallback(
+      'upsertSkillCorrection',
+      () => this.dbStorage.upsertSkillCorrection(correction),
+      () => this.memStorage.upsertSkillCorrection(correction),
+      true
+    );
+  }
+
+  async getSkillCorrections(userId: string): Promise<SkillCorrection[]> {
+    return this.executeWithFallback(
+      `getSkillCorrections(${userId})`,
+      () => this.dbStorage.getSkillCorrections(userId),
+      () => this.memStorage.getSkillCorrections(userId)
+    );
+  }
+
+  async deleteSkillCorrection(id: number, userId: string): Promise<boolean> {
+    return this.executeWithFallback(
+      `deleteSkillCorrection(${id})`,
+      () => this.dbStorage.deleteSkillCorrection(id, userId),
+      () => this.memStorage.deleteSkillCorrection(id, userId),
+      true
+    );
+  }
+
+  // Skill taxonomy methods
+  async createSkillTaxonomyEntry(entry: InsertSkillTaxonomyEntry): Promise<SkillTaxonomyEntry> {
+    return this.executeWithFallback(
+      'createSkillTaxonomyEntry',
+      () => this.dbStorage.createSkillTaxonomyEntry(entry),
+      () => this.memStorage.createSkillTaxonomyEntry(entry),
+      true
+    );
+  }
+
+  async updateSkillTaxonomyEntry(id: number, updates: Partial<InsertSkillTaxonomyEntry>): Promise<SkillTaxonomyEntry | undefined> {
+    return this.executeWithFallback(
+      `updateSkillTaxonomyEntry(${id})`,
+      () => this.dbStorage.updateSkillTaxonomyEntry(id, updates),
+      () => this.memStorage.updateSkillTaxonomyEntry(id, updates),
+      true
+    );
+  }
+
+  async getSkillTaxonomyEntries(organizationId: number): Promise<SkillTaxonomyEntry[]> {
+    return this.executeWithFallback(
+      `getSkillTaxonomyEntries(${organizationId})`,
+      () => this.dbStorage.getSkillTaxonomyEntries(organizationId),
+      () => this.memStorage.getSkillTaxonomyEntries(organizationId)
+    );
+  }
+
+  async deleteSkillTaxonomyEntry(id: number, organizationId: number): Promise<boolean> {
+    return this.executeWithFallback(
+      `deleteSkillTaxonomyEntry(${id})`,
+      () => this.dbStorage.deleteSkillTaxonomyEntry(id, organizationId),
+      () => this.memStorage.deleteSkillTaxonomyEntry(id, organizationId),
+      true
+    );
+  }
+
+  // Candidate group methods
+  async createCandidateGroup(group: InsertCandidateGroup): Promise<CandidateGroup> {
+    return this.executeWithFallback(
+      'createCandidateGroup',
+      () => this.dbStorage.createCandidateGroup(group),
+      () => this.memStorage.createCandidateGroup(group),
+      true
+    );
+  }
+
+  async getCandidateGroup(id: number): Promise<CandidateGroup | undefined> {
+    return this.executeWithFallback(
+      `getCandidateGroup(${id})`,
+      () => this.dbStorage.getCandidateGroup(id),
+      () => this.memStorage.getCandidateGroup(id)
+    );
+  }
+
+  async setCandidateGroupPrimary(id: number, primaryResumeId: number): Promise<CandidateGroup | undefined> {
+    return this.executeWithFallback(
+      `setCandidateGroupPrimary(${id})`,
+      () => this.dbStorage.setCandidateGroupPrimary(id, primaryResumeId),
+      () => this.memStorage.setCandidateGroupPrimary(id, primaryResumeId),
+      true
+    );
+  }
+
+  async deleteCandidateGroup(id: number): Promise<void> {
+    return this.executeWithFallback(
+      `deleteCandidateGroup(${id})`,
+      () => this.dbStorage.deleteCandidateGroup(id),
+      () => this.memStorage.deleteCandidateGroup(id),
+      true
+    );
+  }
+
+  async getResumesByCandidateGroup(groupId: number): Promise<Resume[]> {
+    return this.executeWithFallback(
+      `getResumesByCandidateGroup(${groupId})`,
+      () => this.dbStorage.getResumesByCandidateGroup(groupId),
+      () => this.memStorage.getResumesByCandidateGroup(groupId)
+    );
+  }
+
+  async updateResumeDuplicateState(resumeId: number, state: ResumeDuplicateState): Promise<Resume | undefined> {
+    return this.executeWithFallback(
+      `updateResumeDuplicateState(${resumeId})`,
+      () => this.dbStorage.updateResumeDuplicateState(resumeId, state),
+      () => this.memStorage.updateResumeDuplicateState(resumeId, state),
+      true
+    );
+  }
   
   // Combination methods
   async getResumeWithLatestAnalysisAndQuestions(resumeId: number, jobDescriptionId: number): Promise<{ resume: Resume; analysis: AnalysisResult | undefined; questions: InterviewQuestions | undefined; }> {
@@ -834,6 +1060,197 @@ export class HybridStorage implements IStorage {
     return recommendations;
   }
   
+  // Hiring pipeline methods
+  async getPipelineStages(jobDescriptionId: number): Promise<PipelineStage[]> {
+    return this.executeWithFallback(
+      `getPipelineStages(${jobDescriptionId})`,
+      () => this.dbStorage.getPipelineStages(jobDescriptionId),
+      () => this.memStorage.getPipelineStages(jobDescriptionId)
+    );
+  }
+
+  async replacePipelineStages(jobDescriptionId: number, stages: InsertPipelineStage[]): Promise<PipelineStage[]> {
+    return this.executeWithFallback(
+      `replacePipelineStages(${jobDescriptionId})`,
+      () => this.dbStorage.replacePipelineStages(jobDescriptionId, stages),
+      () => this.memStorage.replacePipelineStages(jobDescriptionId, stages),
+      true
+    );
+  }
+
+  async getCandidatePipelineEntries(jobDescriptionId: number): Promise<CandidatePipelineEntry[]> {
+    return this.executeWithFallback(
+      `getCandidatePipelineEntries(${jobDescriptionId})`,
+      () => this.dbStorage.getCandidatePipelineEntries(jobDescriptionId),
+      () => this.memStorage.getCandidatePipelineEntries(jobDescriptionId)
+    );
+  }
+
+  async getCandidatePipelineEntry(jobDescriptionId: number, resumeId: number): Promise<CandidatePipelineEntry | undefined> {
+    return this.executeWithFallback(
+      `getCandidatePipelineEntry(${jobDescriptionId}, ${resumeId})`,
+      () => this.dbStorage.getCandidatePipelineEntry(jobDescriptionId, resumeId),
+      () => this.memStorage.getCandidatePipelineEntry(jobDescriptionId, resumeId)
+    );
+  }
+
+  async upsertCandidatePipelineEntry(entry: InsertCandidatePipelineEntry): Promise<CandidatePipelineEntry> {
+    return this.executeWithFallback(
+      `upsertCandidatePipelineEntry(${entry.jobDescriptionId}, ${entry.resumeId})`,
+      () => this.dbStorage.upsertCandidatePipelineEntry(entry),
+      () => this.memStorage.upsertCandidatePipelineEntry(entry),
+      true
+    );
+  }
+
+  async createPipelineTransition(transition: InsertPipelineTransition): Promise<PipelineTransition> {
+    return this.executeWithFallback(
+      'createPipelineTransition',
+      () => this.dbStorage.createPipelineTransition(transition),
+      () => this.memStorage.createPipelineTransition(transition),
+      true
+    );
+  }
+
+  async getPipelineTransitions(jobDescriptionId: number, resumeId?: number): Promise<PipelineTransition[]> {
+    return this.executeWithFallback(
+      `getPipelineTransitions(${jobDescriptionId}, ${resumeId ?? 'all'})`,
+      () => this.dbStorage.getPipelineTransitions(jobDescriptionId, resumeId),
+      () => this.memStorage.getPipelineTransitions(jobDescriptionId, resumeId)
+    );
+  }
+
+  // Webhook methods
+  async createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription> {
+    return this.executeWithFallback(
+      'createWebhookSubscription',
+      () => this.dbStorage.createWebhookSubscription(subscription),
+      () => this.memStorage.createWebhookSubscription(subscription),
+      true
+    );
+  }
+
+  async getWebhookSubscriptions(userId: string): Promise<WebhookSubscription[]> {
+    return this.executeWithFallback(
+      `getWebhookSubscriptions(${userId})`,
+      () => this.dbStorage.getWebhookSubscriptions(userId),
+      () => this.memStorage.getWebhookSubscriptions(userId)
+    );
+  }
+
+  async getWebhookSubscription(id: number): Promise<WebhookSubscription | undefined> {
+    return this.executeWithFallback(
+      `getWebhookSubscription(${id})`,
+      () => this.dbStorage.getWebhookSubscription(id),
+      () => this.memStorage.getWebhookSubscription(id)
+    );
+  }
+
+  async updateWebhookSubscription(id: number, updates: Partial<InsertWebhookSubscription>): Promise<WebhookSubscription | undefined> {
+    return this.executeWithFallback(
+      `updateWebhookSubscription(${id})`,
+      () => this.dbStorage.updateWebhookSubscription(id, updates),
+      () => this.memStorage.updateWebhookSubscription(id, updates),
+      true
+    );
+  }
+
+  async deleteWebhookSubscription(id: number): Promise<void> {
+    return this.executeWithFallback(
+      `deleteWebhookSubscription(${id})`,
+      () => this.dbStorage.deleteWebhookSubscription(id),
+      () => this.memStorage.deleteWebhookSubscription(id),
+      true
+    );
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    return this.executeWithFallback(
+      'createWebhookDelivery',
+      () => this.dbStorage.createWebhookDelivery(delivery),
+      () => this.memStorage.createWebhookDelivery(delivery),
+      true
+    );
+  }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    return this.executeWithFallback(
+      `getWebhookDelivery(${id})`,
+      () => this.dbStorage.getWebhookDelivery(id),
+      () => this.memStorage.getWebhookDelivery(id)
+    );
+  }
+
+  async updateWebhookDelivery(id: number, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    return this.executeWithFallback(
+      `updateWebhookDelivery(${id})`,
+      () => this.dbStorage.updateWebhookDelivery(id, updates),
+      () => this.memStorage.updateWebhookDelivery(id, updates),
+      true
+    );
+  }
+
+  async getWebhookDeliveries(subscriptionId: number, limit?: number): Promise<WebhookDelivery[]> {
+    return this.executeWithFallback(
+      `getWebhookDeliveries(${subscriptionId})`,
+      () => this.dbStorage.getWebhookDeliveries(subscriptionId, limit),
+      () => this.memStorage.getWebhookDeliveries(subscriptionId, limit)
+    );
+  }
+
+  // Analysis run methods
+  async createAnalysisRun(run: InsertAnalysisRun): Promise<AnalysisRun> {
+    return this.executeWithFallback(
+      'createAnalysisRun',
+      () => this.dbStorage.createAnalysisRun(run),
+      () => this.memStorage.createAnalysisRun(run),
+      true
+    );
+  }
+
+  async getAnalysisRun(id: number): Promise<AnalysisRun | undefined> {
+    return this.executeWithFallback(
+      `getAnalysisRun(${id})`,
+      () => this.dbStorage.getAnalysisRun(id),
+      () => this.memStorage.getAnalysisRun(id)
+    );
+  }
+
+  async updateAnalysisRun(id: number, updates: Partial<InsertAnalysisRun>): Promise<AnalysisRun | undefined> {
+    return this.executeWithFallback(
+      `updateAnalysisRun(${id})`,
+      () => this.dbStorage.updateAnalysisRun(id, updates),
+      () => this.memStorage.updateAnalysisRun(id, updates),
+      true
+    );
+  }
+
+  async createAnalysisRunItem(item: InsertAnalysisRunItem): Promise<AnalysisRunItem> {
+    return this.executeWithFallback(
+      'createAnalysisRunItem',
+      () => this.dbStorage.createAnalysisRunItem(item),
+      () => this.memStorage.createAnalysisRunItem(item),
+      true
+    );
+  }
+
+  async getAnalysisRunItems(runId: number): Promise<AnalysisRunItem[]> {
+    return this.executeWithFallback(
+      `getAnalysisRunItems(${runId})`,
+      () => this.dbStorage.getAnalysisRunItems(runId),
+      () => this.memStorage.getAnalysisRunItems(runId)
+    );
+  }
+
+  async updateAnalysisRunItem(id: number, updates: Partial<InsertAnalysisRunItem>): Promise<AnalysisRunItem | undefined> {
+    return this.executeWithFallback(
+      `updateAnalysisRunItem(${id})`,
+      () => this.dbStorage.updateAnalysisRunItem(id, updates),
+      () => this.memStorage.updateAnalysisRunItem(id, updates),
+      true
+    );
+  }
+
   // Missing embedding methods required by IStorage interface
   async updateResumeEmbeddings(id: number, embedding: number[] | null, skillsEmbedding: number[] | null): Promise<Resume> {
     if (dbHealth.isAvailable) {
@@ -851,6 +1268,266 @@ export class HybridStorage implements IStorage {
     // Fallback to memory storage
     return await this.memStorage.updateResumeEmbeddings(id, embedding, skillsEmbedding);
   }
+
+  async searchSimilarResumes(jobId: number, k: number): Promise<ResumeSimilarityMatch[]> {
+    return this.executeWithFallback(
+      `searchSimilarResumes(${jobId}, ${k})`,
+      () => this.dbStorage.searchSimilarResumes(jobId, k),
+      () => this.memStorage.searchSimilarResumes(jobId, k)
+    );
+  }
+
+  // Audit record methods - a queued append is sealed against the database
+  // chain when it is replayed, not against the in-memory one
+  async appendAuditRecord(content: AuditRecordContent): Promise<AuditRecord> {
+    return this.executeWithFallback(
+      `appendAuditRecord(${content.recordId})`,
+      () => this.dbStorage.appendAuditRecord(content),
+      () => this.memStorage.appendAuditRecord(content),
+      true
+    );
+  }
+
+  async searchAuditRecords(filters: AuditRecordFilters): Promise<AuditRecordPage> {
+    return this.executeWithFallback(
+      'searchAuditRecords',
+      () => this.dbStorage.searchAuditRecords(filters),
+      () => this.memStorage.searchAuditRecords(filters)
+    );
+  }
+
+  async getAuditRecordsAfter(afterId: number, limit: number): Promise<AuditRecord[]> {
+    return this.executeWithFallback(
+      `getAuditRecordsAfter(${afterId})`,
+      () => this.dbStorage.getAuditRecordsAfter(afterId, limit),
+      () => this.memStorage.getAuditRecordsAfter(afterId, limit)
+    );
+  }
+
+  // Re-scoring methods
+  async createRescoreRun(run: InsertRescoreRun): Promise<RescoreRun> {
+    return this.executeWithFallback(
+      'createRescoreRun',
+      () => this.dbStorage.createRescoreRun(run),
+      () => this.memStorage.createRescoreRun(run),
+      true
+    );
+  }
+
+  async getRescoreRun(id: number): Promise<RescoreRun | undefined> {
+    return this.executeWithFallback(
+      `getRescoreRun(${id})`,
+      () => this.dbStorage.getRescoreRun(id),
+      () => this.memStorage.getRescoreRun(id)
+    );
+  }
+
+  async updateRescoreRun(id: number, updates: Partial<InsertRescoreRun>): Promise<RescoreRun | undefined> {
+    return this.executeWithFallback(
+      `updateRescoreRun(${id})`,
+      () => this.dbStorage.updateRescoreRun(id, updates),
+      () => this.memStorage.updateRescoreRun(id, updates),
+      true
+    );
+  }
+
+  async createRescoredAnalysisResults(results: InsertRescoredAnalysisResult[]): Promise<RescoredAnalysisResult[]> {
+    return this.executeWithFallback(
+      `createRescoredAnalysisResults(${results.length})`,
+      () => this.dbStorage.createRescoredAnalysisResults(results),
+      () => this.memStorage.createRescoredAnalysisResults(results),
+      true
+    );
+  }
+
+  async getRescoredAnalysisResults(runId: number): Promise<RescoredAnalysisResult[]> {
+    return this.executeWithFallback(
+      `getRescoredAnalysisResults(${runId})`,
+      () => this.dbStorage.getRescoredAnalysisResults(runId),
+      () => this.memStorage.getRescoredAnalysisResults(runId)
+    );
+  }
+
+  // LLM usage methods
+  async recordLlmUsage(record: InsertLlmUsageRecord): Promise<LlmUsageRecord> {
+    return this.executeWithFallback(
+      'recordLlmUsage',
+      () => this.dbStorage.recordLlmUsage(record),
+      () => this.memStorage.recordLlmUsage(record),
+      true
+    );
+  }
+
+  async getLlmUsageRecords(userId: string, since: Date): Promise<LlmUsageRecord[]> {
+    return this.executeWithFallback(
+      `getLlmUsageRecords(${userId})`,
+      () => this.dbStorage.getLlmUsageRecords(userId, since),
+      () => this.memStorage.getLlmUsageRecords(userId, since)
+    );
+  }
+
+  async getLlmBudget(userId: string): Promise<LlmBudget | undefined> {
+    return this.executeWithFallback(
+      `getLlmBudget(${userId})`,
+      () => this.dbStorage.getLlmBudget(userId),
+      () => this.memStorage.getLlmBudget(userId)
+    );
+  }
+
+  async setLlmBudget(userId: string, monthlyLimitUsd: number): Promise<LlmBudget> {
+    return this.executeWithFallback(
+      `setLlmBudget(${userId})`,
+      () => this.dbStorage.setLlmBudget(userId, monthlyLimitUsd),
+      () => this.memStorage.setLlmBudget(userId, monthlyLimitUsd),
+      true
+    );
+  }
+
+  async getOrganizationLlmUsageRecords(organizationId: number, since: Date): Promise<LlmUsageRecord[]> {
+    return this.executeWithFallback(
+      `getOrganizationLlmUsageRecords(${organizationId})`,
+      () => this.dbStorage.getOrganizationLlmUsageRecords(organizationId, since),
+      () => this.memStorage.getOrganizationLlmUsageRecords(organizationId, since)
+    );
+  }
+
+  async getOrganizationLlmBudget(organizationId: number): Promise<LlmOrganizationBudget | undefined> {
+    return this.executeWithFallback(
+      `getOrganizationLlmBudget(${organizationId})`,
+      () => this.dbStorage.getOrganizationLlmBudget(organizationId),
+      () => this.memStorage.getOrganizationLlmBudget(organizationId)
+    );
+  }
+
+  async setOrganizationLlmBudget(organizationId: number, monthlyLimitUsd: number): Promise<LlmOrganizationBudget> {
+    return this.executeWithFallback(
+      `setOrganizationLlmBudget(${organizationId})`,
+      () => this.dbStorage.setOrganizationLlmBudget(organizationId, monthlyLimitUsd),
+      () => this.memStorage.setOrganizationLlmBudget(organizationId, monthlyLimitUsd),
+      true
+    );
+  }
+
+  // Organization methods
+  async createOrganization(organization: InsertOrganization): Promise<Organization> {
+    return this.executeWithFallback(
+      `createOrganization(${organization.name})`,
+      () => this.dbStorage.createOrganization(organization),
+      () => this.memStorage.createOrganization(organization),
+      true
+    );
+  }
+
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    return this.executeWithFallback(
+      `getOrganization(${id})`,
+      () => this.dbStorage.getOrganization(id),
+      () => this.memStorage.getOrganization(id)
+    );
+  }
+
+  async getOrganizationsForUser(userId: string): Promise<OrganizationWithRole[]> {
+    return this.executeWithFallback(
+      `getOrganizationsForUser(${userId})`,
+      () => this.dbStorage.getOrganizationsForUser(userId),
+      () => this.memStorage.getOrganizationsForUser(userId)
+    );
+  }
+
+  async getOrganizationMembership(organizationId: number, userId: string): Promise<OrganizationMember | undefined> {
+    return this.executeWithFallback(
+      `getOrganizationMembership(${organizationId}, ${userId})`,
+      () => this.dbStorage.getOrganizationMembership(organizationId, userId),
+      () => this.memStorage.getOrganizationMembership(organizationId, userId)
+    );
+  }
+
+  async getOrganizationMembers(organizationId: number): Promise<OrganizationMember[]> {
+    return this.executeWithFallback(
+      `getOrganizationMembers(${organizationId})`,
+      () => this.dbStorage.getOrganizationMembers(organizationId),
+      () => this.memStorage.getOrganizationMembers(organizationId)
+    );
+  }
+
+  async addOrganizationMember(member: InsertOrganizationMember): Promise<OrganizationMember> {
+    return this.executeWithFallback(
+      `addOrganizationMember(${member.organizationId}, ${member.userId})`,
+      () => this.dbStorage.addOrganizationMember(member),
+      () => this.memStorage.addOrganizationMember(member),
+      true
+    );
+  }
+
+  async updateOrganizationMemberRole(organizationId: number, userId: string, role: OrganizationRole): Promise<OrganizationMember | undefined> {
+    return this.executeWithFallback(
+      `updateOrganizationMemberRole(${organizationId}, ${userId})`,
+      () => this.dbStorage.updateOrganizationMemberRole(organizationId, userId, role),
+      () => this.memStorage.updateOrganizationMemberRole(organizationId, userId, role),
+      true
+    );
+  }
+
+  async removeOrganizationMember(organizationId: number, userId: string): Promise<boolean> {
+    return this.executeWithFallback(
+      `removeOrganizationMember(${organizationId}, ${userId})`,
+      () => this.dbStorage.removeOrganizationMember(organizationId, userId),
+      () => this.memStorage.removeOrganizationMember(organizationId, userId),
+      true
+    );
+  }
+
+  async createOrganizationInvitation(invitation: InsertOrganizationInvitation): Promise<OrganizationInvitation> {
+    return this.executeWithFallback(
+      `createOrganizationInvitation(${invitation.organizationId})`,
+      () => this.dbStorage.createOrganizationInvitation(invitation),
+      () => this.memStorage.createOrganizationInvitation(invitation),
+      true
+    );
+  }
+
+  async getOrganizationInvitationByTokenHash(tokenHash: string): Promise<OrganizationInvitation | undefined> {
+    return this.executeWithFallback(
+      'getOrganizationInvitationByTokenHash',
+      () => this.dbStorage.getOrganizationInvitationByTokenHash(tokenHash),
+      () => this.memStorage.getOrganizationInvitationByTokenHash(tokenHash)
+    );
+  }
+
+  async getOrganizationInvitations(organizationId: number): Promise<OrganizationInvitation[]> {
+    return this.executeWithFallback(
+      `getOrganizationInvitations(${organizationId})`,
+      () => this.dbStorage.getOrganizationInvitations(organizationId),
+      () => this.memStorage.getOrganizationInvitations(organizationId)
+    );
+  }
+
+  async updateOrganizationInvitation(id: number, updates: Partial<InsertOrganizationInvitation>): Promise<OrganizationInvitation | undefined> {
+    return this.executeWithFallback(
+      `updateOrganizationInvitation(${id})`,
+      () => this.dbStorage.updateOrganizationInvitation(id, updates),
+      () => this.memStorage.updateOrganizationInvitation(id, updates),
+      true
+    );
+  }
+
+  async setResumeOrganization(resumeId: number, organizationId: number | null): Promise<Resume | undefined> {
+    return this.executeWithFallback(
+      `setResumeOrganization(${resumeId}, ${organizationId})`,
+      () => this.dbStorage.setResumeOrganization(resumeId, organizationId),
+      () => this.memStorage.setResumeOrganization(resumeId, organizationId),
+      true
+    );
+  }
+
+  async setJobDescriptionOrganization(jobId: number, organizationId: number | null): Promise<JobDescription | undefined> {
+    return this.executeWithFallback(
+      `setJobDescriptionOrganization(${jobId}, ${organizationId})`,
+      () => this.dbStorage.setJobDescriptionOrganization(jobId, organizationId),
+      () => this.memStorage.setJobDescriptionOrganization(jobId, organizationId),
+      true
+    );
+  }
   
   async updateJobDescriptionEmbeddings(id: number, embedding: number[] | null, requirementsEmbedding: number[] | null): Promise<JobDescription> {
     if (dbHealth.isAvailable) {
@@ -868,4 +1545,4 @@ export class HybridStorage implements IStorage {
     // Fallback to memory storage  
     return await this.memStorage.updateJobDescriptionEmbeddings(id, embedding, requirementsEmbedding);
   }
-}
\ No newline at end of file
+}
\ No newline at end of file
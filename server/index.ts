@@ -195,6 +195,12 @@ if (process.env.NODE_ENV === "development") {
           const { queueManager } = await import('./lib/queue-manager');
           await queueManager.initialize();
           logger.info('✅ Queue Manager initialization completed successfully');
+
+          const { registerWebhookWorker } = await import('./services/webhook-service');
+          await registerWebhookWorker();
+
+          const { registerAnalysisRunWorker } = await import('./services/analysis-service');
+          await registerAnalysisRunWorker();
         } catch (error) {
           logger.error('Queue Manager initialization failed:', error);
           logger.warn('Application will continue without queue functionality');
@@ -285,6 +285,7 @@ export async function analyzeMatch(
               resumeAnalysis.analyzedData?.education?.join(", ") ||
               "",
           content: resumeText,
+          structured: resumeAnalysis.analyzedData?.structured,
         },
         {
           skills: jobAnalysis.skills || [],
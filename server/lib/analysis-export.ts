@@ -0,0 +1,339 @@
+/**
+ * Analysis Export Rendering
+ *
+ * Turns a job's ranked analysis results into files hiring managers can open
+ * without an account: CSV, an XLSX workbook and a printable PDF shortlist.
+ * Rendering is pure; loading results and applying blind review redaction is
+ * the analysis service's job.
+ */
+
+import ExcelJS from 'exceljs';
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import type { FairnessMetrics, ScoringDimensions } from '@shared/schema';
+
+export const ANALYSIS_EXPORT_FORMATS = ['csv', 'xlsx', 'pdf'] as const;
+
+export type AnalysisExportFormat = typeof ANALYSIS_EXPORT_FORMATS[number];
+
+export interface AnalysisExportRow {
+  rank: number;
+  resumeId: number;
+  candidateName: string;
+  filename: string;
+  matchPercentage: number;
+  confidenceLevel: 'low' | 'medium' | 'high';
+  scoringDimensions: ScoringDimensions | null;
+  matchedSkills: string[];
+  missingSkills: string[];
+  strengths: string[];
+  weaknesses: string[];
+  fairnessMetrics: FairnessMetrics | null;
+  analyzedAt: string | null;
+}
+
+export interface AnalysisExportReport {
+  jobId: number;
+  jobTitle: string;
+  blindReview: boolean;
+  generatedAt: Date;
+  /** Ranked, highest match first */
+  rows: AnalysisExportRow[];
+}
+
+export interface RenderedAnalysisExport {
+  content: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+const CONTENT_TYPES: Record<AnalysisExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+export function isAnalysisExportFormat(value: unknown): value is AnalysisExportFormat {
+  return typeof value === 'string' && (ANALYSIS_EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+// ===== TABULAR COLUMNS (CSV and XLSX) =====
+
+type CellValue = string | number | null;
+
+const LIST_SEPARATOR = '; ';
+
+const score = (dimensions: ScoringDimensions | null, key: keyof ScoringDimensions): CellValue =>
+  dimensions && typeof dimensions[key] === 'number' ? Math.round(dimensions[key]) : null;
+
+const EXPORT_COLUMNS: Array<{ header: string; width: number; value: (_row: AnalysisExportRow) => CellValue }> = [
+  { header: 'Rank', width: 6, value: row => row.rank },
+  { header: 'Resume ID', width: 10, value: row => row.resumeId },
+  { header: 'Candidate', width: 24, value: row => row.candidateName },
+  { header: 'File', width: 24, value: row => row.filename },
+  { header: 'Match %', width: 9, value: row => Math.round(row.matchPercentage) },
+  { header: 'Confidence', width: 11, value: row => row.confidenceLevel },
+  { header: 'Skills Score', width: 11, value: row => score(row.scoringDimensions, 'skills') },
+  { header: 'Experience Score', width: 11, value: row => score(row.scoringDimensions, 'experience') },
+  { header: 'Education Score', width: 11, value: row => score(row.scoringDimensions, 'education') },
+  { header: 'Semantic Score', width: 11, value: row => score(row.scoringDimensions, 'semantic') },
+  { header: 'Overall Score', width: 11, value: row => score(row.scoringDimensions, 'overall') },
+  { header: 'Matched Skills', width: 40, value: row => row.matchedSkills.join(LIST_SEPARATOR) },
+  { header: 'Missing Skills', width: 40, value: row => row.missingSkills.join(LIST_SEPARATOR) },
+  { header: 'Strengths', width: 50, value: row => row.strengths.join(LIST_SEPARATOR) },
+  { header: 'Weaknesses', width: 50, value: row => row.weaknesses.join(LIST_SEPARATOR) },
+  { header: 'Bias Confidence', width: 11, value: row => row.fairnessMetrics?.biasConfidenceScore ?? null },
+  { header: 'Potential Bias Areas', width: 30, value: row => row.fairnessMetrics?.potentialBiasAreas?.join(LIST_SEPARATOR) ?? null },
+  { header: 'Fairness Assessment', width: 50, value: row => row.fairnessMetrics?.fairnessAssessment ?? null },
+  { header: 'Analyzed At', width: 22, value: row => row.analyzedAt },
+];
+
+/**
+ * Spreadsheet apps execute cells starting with these characters as formulas,
+ * so AI-generated or uploaded text is prefixed with a quote
+ */
+function neutralizeFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function escapeCsvValue(value: CellValue): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+
+  const safe = neutralizeFormula(value);
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function renderAnalysisCsv(report: AnalysisExportReport): string {
+  const lines = [
+    EXPORT_COLUMNS.map(column => escapeCsvValue(column.header)).join(','),
+    ...report.rows.map(row => EXPORT_COLUMNS.map(column => escapeCsvValue(column.value(row))).join(',')),
+  ];
+  // Byte order mark so Excel detects UTF-8
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+export async function renderAnalysisXlsx(report: AnalysisExportReport): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = report.generatedAt;
+
+  const sheet = workbook.addWorksheet('Ranking', { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = EXPORT_COLUMNS.map(column => ({ header: column.header, width: column.width }));
+  sheet.getRow(1).font = { bold: true };
+
+  for (const row of report.rows) {
+    sheet.addRow(EXPORT_COLUMNS.map(column => {
+      const value = column.value(row);
+      return typeof value === 'string' ? neutralizeFormula(value) : value;
+    }));
+  }
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: EXPORT_COLUMNS.length } };
+
+  const info = workbook.addWorksheet('Report');
+  info.addRows([
+    ['Job', report.jobTitle],
+    ['Job ID', report.jobId],
+    ['Candidates', report.rows.length],
+    ['Blind review', report.blindReview ? 'Yes' : 'No'],
+    ['Generated at', report.generatedAt.toISOString()],
+  ]);
+  info.getColumn(1).font = { bold: true };
+  info.getColumn(1).width = 16;
+  info.getColumn(2).width = 40;
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+// ===== PDF SHORTLIST =====
+
+const PAGE_WIDTH = 595.28; // A4 in points
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+/**
+ * The standard PDF fonts only cover WinAnsi; transliterate what we can and
+ * replace the rest so one unusual character cannot fail the whole report
+ */
+function toPdfText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/\u2022/g, '*')
+    .replace(/\s+/g, ' ')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of toPdfText(text).split(' ')) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+class PdfWriter {
+  private readonly doc: PDFDocument;
+  private readonly font: PDFFont;
+  private readonly bold: PDFFont;
+  private page: PDFPage;
+  private y = PAGE_HEIGHT - MARGIN;
+
+  constructor(doc: PDFDocument, font: PDFFont, bold: PDFFont) {
+    this.doc = doc;
+    this.font = font;
+    this.bold = bold;
+    this.page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  }
+
+  ensureSpace(height: number): void {
+    if (this.y - height < MARGIN) {
+      this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  text(text: string, options: { size?: number; bold?: boolean; indent?: number; color?: number } = {}): void {
+    const { size = 10, indent = 0, color = 0 } = options;
+    const font = options.bold ? this.bold : this.font;
+
+    for (const line of wrapText(text, font, size, CONTENT_WIDTH - indent)) {
+      this.ensureSpace(size + 4);
+      this.page.drawText(line, { x: MARGIN + indent, y: this.y - size, size, font, color: rgb(color, color, color) });
+      this.y -= size + 4;
+    }
+  }
+
+  list(label: string, items: string[], indent = 12): void {
+    if (items.length === 0) return;
+    this.text(label, { bold: true, indent });
+    for (const item of items) {
+      this.text(`- ${item}`, { indent: indent + 10 });
+    }
+  }
+
+  rule(): void {
+    this.ensureSpace(12);
+    this.y -= 6;
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.5,
+      color: rgb(0.75, 0.75, 0.75),
+    });
+    this.y -= 8;
+  }
+}
+
+export async function renderAnalysisPdf(report: AnalysisExportReport): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(toPdfText(`Candidate shortlist - ${report.jobTitle}`));
+  doc.setCreationDate(report.generatedAt);
+
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const writer = new PdfWriter(doc, font, bold);
+
+  writer.text('Candidate Shortlist', { size: 18, bold: true });
+  writer.text(report.jobTitle, { size: 13 });
+  writer.text(
+    `${report.rows.length} candidate${report.rows.length === 1 ? '' : 's'} ranked by match - generated ${report.generatedAt.toISOString().slice(0, 16).replace('T', ' ')} UTC`,
+    { size: 9, color: 0.4 }
+  );
+  if (report.blindReview) {
+    writer.text('Blind review is enabled for this job: candidate names and identifying details are hidden.', { size: 9, color: 0.4 });
+  }
+  writer.rule();
+
+  for (const row of report.rows) {
+    writer.ensureSpace(60);
+    writer.text(`${row.rank}. ${row.candidateName} - ${Math.round(row.matchPercentage)}% match`, { size: 12, bold: true });
+    writer.text(`Confidence: ${row.confidenceLevel} | File: ${row.filename}`, { size: 9, color: 0.4 });
+
+    const dimensions = row.scoringDimensions;
+    if (dimensions) {
+      writer.text(
+        `Scores - skills ${score(dimensions, 'skills') ?? '-'}, experience ${score(dimensions, 'experience') ?? '-'}, ` +
+        `education ${score(dimensions, 'education') ?? '-'}, semantic ${score(dimensions, 'semantic') ?? '-'}, ` +
+        `overall ${score(dimensions, 'overall') ?? '-'}`,
+        { indent: 12 }
+      );
+    }
+
+    if (row.matchedSkills.length > 0) {
+      writer.text(`Matched skills: ${row.matchedSkills.join(', ')}`, { indent: 12 });
+    }
+    if (row.missingSkills.length > 0) {
+      writer.text(`Missing skills: ${row.missingSkills.join(', ')}`, { indent: 12 });
+    }
+    writer.list('Strengths', row.strengths);
+    writer.list('Weaknesses', row.weaknesses);
+
+    const fairness = row.fairnessMetrics;
+    if (fairness) {
+      const areas = fairness.potentialBiasAreas?.length ? ` Potential bias areas: ${fairness.potentialBiasAreas.join(', ')}.` : '';
+      writer.text(
+        `Fairness: bias confidence ${fairness.biasConfidenceScore}.${areas} ${fairness.fairnessAssessment ?? ''}`.trim(),
+        { size: 9, indent: 12, color: 0.3 }
+      );
+    }
+    writer.rule();
+  }
+
+  const pages = doc.getPages();
+  pages.forEach((page, index) => {
+    page.drawText(`Page ${index + 1} of ${pages.length}`, {
+      x: PAGE_WIDTH - MARGIN - 60,
+      y: MARGIN / 2,
+      size: 8,
+      font,
+      color: rgb(0.5, 0.5, 0.5),
+    });
+  });
+
+  return Buffer.from(await doc.save());
+}
+
+/**
+ * Download file name, e.g. "senior-engineer-ranking-2025-01-31.csv"
+ */
+export function buildExportFilename(report: AnalysisExportReport, format: AnalysisExportFormat): string {
+  const slug = report.jobTitle
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50) || `job-${report.jobId}`;
+  return `${slug}-ranking-${report.generatedAt.toISOString().slice(0, 10)}.${format}`;
+}
+
+export async function renderAnalysisExport(
+  report: AnalysisExportReport,
+  format: AnalysisExportFormat
+): Promise<RenderedAnalysisExport> {
+  let content: Buffer;
+  switch (format) {
+    case 'csv':
+      content = Buffer.from(renderAnalysisCsv(report), 'utf8');
+      break;
+    case 'xlsx':
+      content = await renderAnalysisXlsx(report);
+      break;
+    case 'pdf':
+      content = await renderAnalysisPdf(report);
+      break;
+  }
+
+  return { content, contentType: CONTENT_TYPES[format], filename: buildExportFilename(report, format) };
+}
@@ -0,0 +1,80 @@
+/**
+ * Analysis Run Progress Helpers
+ *
+ * An asynchronous analysis run has one item per resume. The run status and
+ * counters are always derived from the items, so a worker that is retried
+ * after a crash only has to pick up the items that never finished.
+ */
+
+import type { AnalysisRunItem, AnalysisRunItemStatus, AnalysisRunStatus } from '@shared/schema';
+
+// Resumes analyzed at the same time within one run; keeps a large run from
+// monopolizing the AI provider rate limits
+export const ANALYSIS_RUN_CONCURRENCY = 3;
+
+// Upper bound on resumes per run (synchronous requests are capped at 10)
+export const ANALYSIS_RUN_MAX_RESUMES = 200;
+
+export interface AnalysisRunProgress {
+  total: number;
+  pending: number;
+  running: number;
+  completed: number;
+  failed: number;
+  /** Finished items (completed or failed) as a whole percentage */
+  percentComplete: number;
+}
+
+type ItemLike = Pick<AnalysisRunItem, 'status'>;
+
+export function isAnalysisRunItemFinished(status: AnalysisRunItemStatus): boolean {
+  return status === 'completed' || status === 'failed';
+}
+
+export function summarizeAnalysisRun(items: ItemLike[]): AnalysisRunProgress {
+  const counts: Record<AnalysisRunItemStatus, number> = { pending: 0, running: 0, completed: 0, failed: 0 };
+  for (const item of items) {
+    counts[item.status]++;
+  }
+
+  const finished = counts.completed + counts.failed;
+  return {
+    total: items.length,
+    ...counts,
+    percentComplete: items.length > 0 ? Math.floor((finished / items.length) * 100) : 100,
+  };
+}
+
+/**
+ * Run status implied by its items: failed only when every resume failed
+ */
+export function resolveAnalysisRunStatus(items: ItemLike[]): AnalysisRunStatus {
+  const progress = summarizeAnalysisRun(items);
+  if (progress.pending + progress.running > 0) {
+    return progress.pending === progress.total ? 'queued' : 'running';
+  }
+  return progress.total > 0 && progress.completed === 0 ? 'failed' : 'completed';
+}
+
+/**
+ * Run an async function over items with at most `limit` calls in flight.
+ * Results keep the input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (_item: T, _index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,170 @@
+/**
+ * API Token Restrictions
+ *
+ * API tokens are handed to ATS integrations and contractors, so each one
+ * carries only the scopes it was issued with, optionally an allowlist of
+ * client networks and its own per-minute rate limit. This module resolves
+ * which scope a request needs, matches client addresses against CIDR
+ * blocks and keeps the per-token request windows.
+ */
+
+import { isIPv4, isIPv6 } from 'net';
+import type { ApiTokenScope } from '@shared/schema';
+
+interface ScopeRule {
+  pattern: RegExp;
+  read: ApiTokenScope;
+  write: ApiTokenScope;
+}
+
+// First match wins, so endpoints that trigger analyses from other resources
+// come before the resource rules
+const SCOPE_RULES: ScopeRule[] = [
+  { pattern: /^\/analysis\/analyze-bias(\/|$)/, read: 'bias:run', write: 'bias:run' },
+  { pattern: /^\/job-descriptions\/[^/]+\/reanalyze-stale$/, read: 'analysis:run', write: 'analysis:run' },
+  { pattern: /^\/resumes\/[^/]+\/matching-jobs$/, read: 'analysis:run', write: 'analysis:run' },
+  { pattern: /^\/job-descriptions\/[^/]+\/similar-resumes$/, read: 'resumes:read', write: 'resumes:read' },
+  { pattern: /^\/analysis(\/|$)/, read: 'analysis:read', write: 'analysis:run' },
+  { pattern: /^\/(resumes|batches)(\/|$)/, read: 'resumes:read', write: 'resumes:write' },
+  { pattern: /^\/(job-descriptions|jobs)(\/|$)/, read: 'jobs:read', write: 'jobs:write' }
+];
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * The scope a request needs, from its method and URL. Null for endpoints no
+ * scope grants, such as token and organization management.
+ */
+export function resolveRequiredScope(method: string, url: string): ApiTokenScope | null {
+  const path = url.split('?')[0].replace(/^\/api(\/v\d+)?/, '').replace(/\/+$/, '');
+  const rule = SCOPE_RULES.find(candidate => candidate.pattern.test(path));
+  if (!rule) return null;
+  return READ_METHODS.includes(method.toUpperCase()) ? rule.read : rule.write;
+}
+
+interface ParsedCidr {
+  bytes: number[];
+  prefix: number;
+}
+
+function parseIPv6Bytes(address: string): number[] {
+  const toGroups = (part: string): number[] =>
+    part === ''
+      ? []
+      : part.split(':').flatMap(piece => {
+        if (!piece.includes('.')) return [parseInt(piece, 16)];
+        const [a, b, c, d] = piece.split('.').map(Number);
+        return [(a << 8) | b, (c << 8) | d];
+      });
+
+  // Without "::" the head already holds all eight groups
+  const [head, tail] = address.split('::');
+  const headGroups = toGroups(head);
+  const tailGroups = tail === undefined ? [] : toGroups(tail);
+  const zeros = new Array<number>(8 - headGroups.length - tailGroups.length).fill(0);
+
+  return [...headGroups, ...zeros, ...tailGroups].flatMap(group => [group >> 8, group & 0xff]);
+}
+
+const isIPv4Mapped = (bytes: number[]): boolean =>
+  bytes.length === 16 && bytes.slice(0, 10).every(byte => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+
+/**
+ * Address bytes, with IPv4-mapped IPv6 addresses (how dual-stack servers
+ * report IPv4 clients) reduced to their IPv4 form
+ */
+export function parseIpAddress(address: string): number[] | null {
+  const ip = address.trim().split('%')[0];
+  if (isIPv4(ip)) return ip.split('.').map(Number);
+  if (!isIPv6(ip)) return null;
+  const bytes = parseIPv6Bytes(ip);
+  return isIPv4Mapped(bytes) ? bytes.slice(12) : bytes;
+}
+
+/**
+ * A CIDR block, or a bare address as a single-host block. Null when either
+ * part is malformed.
+ */
+export function parseCidr(cidr: string): ParsedCidr | null {
+  const [address, prefixText, ...rest] = cidr.trim().split('/');
+  if (rest.length > 0) return null;
+
+  const ip = address.split('%')[0];
+  const bits = isIPv4(ip) ? 32 : isIPv6(ip) ? 128 : 0;
+  if (bits === 0) return null;
+
+  const prefix = prefixText === undefined ? bits : /^\d{1,3}$/.test(prefixText) ? Number(prefixText) : NaN;
+  if (!(prefix >= 0 && prefix <= bits)) return null;
+
+  const bytes = bits === 32 ? ip.split('.').map(Number) : parseIPv6Bytes(ip);
+  if (isIPv4Mapped(bytes) && prefix >= 96) {
+    return { bytes: bytes.slice(12), prefix: prefix - 96 };
+  }
+  return { bytes, prefix };
+}
+
+export const isValidCidr = (cidr: string): boolean => parseCidr(cidr) !== null;
+
+function matchesPrefix(address: number[], block: ParsedCidr): boolean {
+  if (address.length !== block.bytes.length) return false;
+  const fullBytes = Math.floor(block.prefix / 8);
+  for (let i = 0; i < fullBytes; i++) {
+    if (address[i] !== block.bytes[i]) return false;
+  }
+  const remainingBits = block.prefix % 8;
+  if (remainingBits === 0) return true;
+  const mask = (0xff << (8 - remainingBits)) & 0xff;
+  return (address[fullBytes] & mask) === (block.bytes[fullBytes] & mask);
+}
+
+/**
+ * Whether a client address falls inside the token's allowlist. A token
+ * without an allowlist accepts any address; an address that cannot be
+ * parsed never matches one.
+ */
+export function isIpAllowed(address: string | undefined, allowedCidrs: string[] | null): boolean {
+  if (!allowedCidrs || allowedCidrs.length === 0) return true;
+  const bytes = address ? parseIpAddress(address) : null;
+  if (!bytes) return false;
+
+  return allowedCidrs.some(cidr => {
+    const block = parseCidr(cidr);
+    return block !== null && matchesPrefix(bytes, block);
+  });
+}
+
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
+export interface TokenRateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Sliding one-minute window of request times per token. Windows live in
+ * process memory, so each server instance enforces the limit on its own.
+ */
+export class TokenRateLimiter {
+  private windows = new Map<string, number[]>();
+
+  consume(tokenId: string, limitPerMinute: number, now: number = Date.now()): TokenRateLimitResult {
+    const windowStart = now - RATE_LIMIT_WINDOW_MS;
+    const recent = (this.windows.get(tokenId) ?? []).filter(time => time > windowStart);
+
+    if (recent.length >= limitPerMinute) {
+      this.windows.set(tokenId, recent);
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: Math.max(1, Math.ceil((recent[0] + RATE_LIMIT_WINDOW_MS - now) / 1000))
+      };
+    }
+
+    recent.push(now);
+    this.windows.set(tokenId, recent);
+    return { allowed: true, remaining: limitPerMinute - recent.length, retryAfterSeconds: 0 };
+  }
+}
+
+export const tokenRateLimiter = new TokenRateLimiter();
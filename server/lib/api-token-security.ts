@@ -0,0 +1,105 @@
+/**
+ * API Token Secrets and Anomaly Detection
+ *
+ * Tokens have the form `em_<tokenId>_<secret>`. Only a SHA-256 hash of the
+ * secret is stored, and rotating a token keeps the replaced secret valid
+ * for a grace period so integrations can switch over without downtime.
+ * Tokens issued before hashing have no stored hash and stop working until
+ * they are rotated.
+ * Calls made with a token are checked for the two patterns that usually
+ * mean it leaked: use from an unfamiliar network and a sudden jump in
+ * volume.
+ */
+
+import crypto from 'crypto';
+import type { TokenRotationGracePeriod, UserToken } from '@shared/schema';
+import { parseIpAddress } from './api-token-scopes';
+
+const TOKEN_PREFIX = 'em';
+
+export function hashTokenSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+export function formatApiToken(tokenId: string, secret: string): string {
+  return `${TOKEN_PREFIX}_${tokenId}_${secret}`;
+}
+
+export function parseApiToken(token: string): { tokenId: string; secret: string } | null {
+  const parts = token.split('_');
+  if (parts.length !== 3 || parts[0] !== TOKEN_PREFIX || !parts[1] || !parts[2]) {
+    return null;
+  }
+  return { tokenId: parts[1], secret: parts[2] };
+}
+
+function hashesEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a, 'hex');
+  const right = Buffer.from(b, 'hex');
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+export type TokenSecretMatch = 'current' | 'previous';
+
+/**
+ * Which of the token's secrets the presented one is, or null when it is
+ * none of them. Only stored hashes are matched: tokens issued before
+ * secrets were hashed match nothing until their owner rotates them, and the
+ * old secret of such a token is not honoured during the grace period.
+ */
+export function matchTokenSecret(
+  secret: string,
+  token: Pick<UserToken, 'secretHash' | 'previousSecretHash' | 'previousSecretExpiresAt'>,
+  now: Date = new Date()
+): TokenSecretMatch | null {
+  if (!token.secretHash) return null;
+
+  const presentedHash = hashTokenSecret(secret);
+  if (hashesEqual(presentedHash, token.secretHash)) return 'current';
+
+  const inGracePeriod = token.previousSecretExpiresAt !== null && token.previousSecretExpiresAt > now;
+  if (inGracePeriod && token.previousSecretHash && hashesEqual(presentedHash, token.previousSecretHash)) {
+    return 'previous';
+  }
+  return null;
+}
+
+const GRACE_PERIOD_MS: Record<TokenRotationGracePeriod, number> = {
+  none: 0,
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * When the replaced secret stops working, or null when it stops immediately
+ */
+export function rotationGraceEnd(gracePeriod: TokenRotationGracePeriod, now: Date = new Date()): Date | null {
+  const duration = GRACE_PERIOD_MS[gracePeriod];
+  return duration > 0 ? new Date(now.getTime() + duration) : null;
+}
+
+/**
+ * The network an address belongs to for anomaly detection: its /24 for
+ * IPv4 and its /48 for IPv6, the usual size of one customer's allocation
+ */
+export function ipRangeOf(address: string): string | null {
+  const bytes = parseIpAddress(address);
+  if (!bytes) return null;
+
+  if (bytes.length === 4) {
+    return `${bytes[0]}.${bytes[1]}.${bytes[2]}.0/24`;
+  }
+  const groups = [0, 2, 4].map(i => ((bytes[i] << 8) | bytes[i + 1]).toString(16));
+  return `${groups.join(':')}::/48`;
+}
+
+// A spike needs at least this many calls in the hour, so a quiet token
+// going from 2 calls to 10 does not raise an alert
+export const VOLUME_SPIKE_MIN_REQUESTS = 100;
+export const VOLUME_SPIKE_FACTOR = 5;
+
+export function isVolumeSpike(requestsLastHour: number, baselinePerHour: number): boolean {
+  return requestsLastHour >= VOLUME_SPIKE_MIN_REQUESTS &&
+    requestsLastHour >= VOLUME_SPIKE_FACTOR * Math.max(baselinePerHour, 1);
+}
@@ -0,0 +1,125 @@
+/**
+ * Audit Record Hash Chain
+ *
+ * Every stored audit record carries the hash of the record before it, and its
+ * own hash covers its content plus that previous hash. Editing, reordering or
+ * removing a record therefore breaks every link after it, which
+ * `verifyAuditChain` reports.
+ */
+
+import crypto from 'crypto';
+import type { AuditRecord, AuditRecordContent } from '@shared/schema';
+
+/** previousHash of the first record in the chain */
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+export type AuditChainBreakReason = 'previous_hash_mismatch' | 'record_hash_mismatch';
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  /** Hash to continue verification from with the next page of records */
+  lastHash: string;
+  brokenAt?: {
+    id: number;
+    recordId: string;
+    reason: AuditChainBreakReason;
+  };
+}
+
+/**
+ * JSON with object keys sorted at every level, so the hash does not depend on
+ * key order (which a JSONB column or a driver is free to change)
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+type HashedFields = Omit<AuditRecord, 'id' | 'recordHash'>;
+
+export function computeAuditRecordHash(record: HashedFields): string {
+  const content = canonicalJson({
+    recordId: record.recordId,
+    eventType: record.eventType,
+    userId: record.userId ?? null,
+    jobId: record.jobId ?? null,
+    resumeId: record.resumeId ?? null,
+    resumeHash: record.resumeHash ?? null,
+    jobHash: record.jobHash ?? null,
+    provider: record.provider ?? null,
+    model: record.model ?? null,
+    payload: record.payload,
+    previousHash: record.previousHash,
+    createdAt: record.createdAt.toISOString(),
+  });
+
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Link new audit content onto the chain. The payload is normalized through
+ * JSON first so what gets stored is exactly what was hashed.
+ */
+export function sealAuditRecord(
+  content: AuditRecordContent,
+  previousHash: string,
+  createdAt: Date = new Date()
+): Omit<AuditRecord, 'id'> {
+  const fields: HashedFields = {
+    recordId: content.recordId,
+    eventType: content.eventType,
+    userId: content.userId ?? null,
+    jobId: content.jobId ?? null,
+    resumeId: content.resumeId ?? null,
+    resumeHash: content.resumeHash ?? null,
+    jobHash: content.jobHash ?? null,
+    provider: content.provider ?? null,
+    model: content.model ?? null,
+    payload: JSON.parse(JSON.stringify(content.payload)),
+    previousHash,
+    createdAt,
+  };
+
+  return { ...fields, recordHash: computeAuditRecordHash(fields) };
+}
+
+/**
+ * Check a run of records in chain order. Pass the previous page's `lastHash`
+ * to verify a long chain page by page.
+ */
+export function verifyAuditChain(
+  records: AuditRecord[],
+  previousHash: string = AUDIT_GENESIS_HASH
+): AuditChainVerification {
+  let lastHash = previousHash;
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    const reason: AuditChainBreakReason | null =
+      record.previousHash !== lastHash ? 'previous_hash_mismatch'
+        : computeAuditRecordHash(record) !== record.recordHash ? 'record_hash_mismatch'
+          : null;
+
+    if (reason) {
+      return {
+        valid: false,
+        checked: i,
+        lastHash,
+        brokenAt: { id: record.id, recordId: record.recordId, reason },
+      };
+    }
+    lastHash = record.recordHash;
+  }
+
+  return { valid: true, checked: records.length, lastHash };
+}
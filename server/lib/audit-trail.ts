@@ -3,11 +3,17 @@
  * 
  * Provides immutable audit logging for compliance and debugging.
  * Stores version info, weights, scores, and quality gates.
+ *
+ * Entries are appended to the hash-chained audit_records store (see
+ * ./audit-chain). The JSONL files remain as a fallback for when storage is
+ * not initialized or the write fails.
  */
 
 import fs from 'fs/promises';
 import crypto from 'crypto';
 import path from 'path';
+import type { AuditRecordContent } from '@shared/schema';
+import { storage } from '../storage';
 import { logger } from './logger';
 
 type Weights = {
@@ -46,7 +52,15 @@ type Quality = {
   failureReasons?: string[];
 };
 
+/** Who and what an audit entry is about, for searching the audit store */
+export interface AuditSubject {
+  userId?: string;
+  jobId?: number;
+  resumeId?: number;
+}
+
 interface AuditTrailInput {
+  subject?: AuditSubject;
   versions: Versions;
   weights: Weights;
   scores: Scores;
@@ -74,6 +88,7 @@ export function generateAuditTrail(input: AuditTrailInput): AuditTrail {
   return {
     analysisId: crypto.randomUUID(),
     ts: new Date().toISOString(),
+    subject: input.subject,
     versions: input.versions,
     weights: input.weights,
     scores: input.scores,
@@ -85,11 +100,56 @@ export function generateAuditTrail(input: AuditTrailInput): AuditTrail {
 }
 
 /**
- * Persist audit trail to JSONL file (append-only for immutability)
+ * Persist audit trail to the audit store (append-only for immutability)
  */
 export async function persistAuditTrail(
   audit: AuditTrail,
   file?: string
+): Promise<void> {
+  await appendAuditRecord({
+    recordId: audit.analysisId,
+    eventType: 'analysis',
+    userId: audit.subject?.userId,
+    jobId: audit.subject?.jobId,
+    resumeId: audit.subject?.resumeId,
+    resumeHash: audit.hashes.resume,
+    jobHash: audit.hashes.jd,
+    provider: audit.versions.provider,
+    model: audit.versions.model,
+    payload: { ...audit },
+  }, file);
+}
+
+/**
+ * Append one record to the hash-chained store. An explicit file, missing
+ * storage or a failed write sends the record to the JSONL log instead.
+ */
+async function appendAuditRecord(
+  content: AuditRecordContent,
+  file?: string
+): Promise<void> {
+  if (!file && storage) {
+    try {
+      await storage.appendAuditRecord(content);
+      return;
+    } catch (error) {
+      logger.error('Failed to append audit record, falling back to JSONL log', {
+        recordId: content.recordId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  await appendAuditLogLine(content.payload, content.recordId, file);
+}
+
+/**
+ * Append one record to the JSONL audit log
+ */
+async function appendAuditLogLine(
+  record: object,
+  recordId: string,
+  file?: string
 ): Promise<void> {
   const auditPath = file || process.env.AUDIT_LOG_PATH || '/var/log/evalmatch_audit.jsonl';
   
@@ -99,12 +159,12 @@ export async function persistAuditTrail(
     await fs.mkdir(dir, { recursive: true });
     
     // Append as JSONL (one JSON object per line)
-    const line = JSON.stringify(audit) + '\n';
+    const line = JSON.stringify(record) + '\n';
     await fs.appendFile(auditPath, line, 'utf8');
   } catch (error) {
     // Log error but don't throw - audit failures shouldn't break the analysis
     console.error('Failed to persist audit trail:', {
-      analysisId: audit.analysisId,
+      analysisId: recordId,
       error: error instanceof Error ? error.message : 'Unknown error',
       path: auditPath,
     });
@@ -149,8 +209,10 @@ export function createAnalysisAudit(params: {
   failureReasons?: string[];
   timingMs?: number;
   timingBreakdown?: Record<string, number>;
+  subject?: AuditSubject;
 }): AuditTrail {
   const audit = generateAuditTrail({
+    subject: params.subject,
     versions: {
       esco: params.escoVersion || 'mock-v1',
       embeddings: params.embeddingsVersion || 'xenova-minilm-l12-v2',
@@ -192,7 +254,8 @@ export function createAnalysisAudit(params: {
 }
 
 /**
- * Read audit trails for analysis (testing/debugging)
+ * Read audit trails from the JSONL fallback log (testing/debugging). Use
+ * storage.searchAuditRecords for the audit store.
  */
 export async function readAuditTrails(
   file?: string,
@@ -207,9 +270,11 @@ export async function readAuditTrails(
     // Get last N entries
     const relevantLines = lines.slice(-limit);
     
+    // Event records (e.g. blind review redactions) share the log but are not analyses
     return relevantLines
       .filter(line => line.trim())
-      .map(line => JSON.parse(line) as AuditTrail);
+      .map(line => JSON.parse(line) as AuditTrail & { event?: string })
+      .filter(entry => !entry.event);
   } catch (error) {
     // File might not exist yet
     return [];
@@ -252,6 +317,73 @@ export async function getAuditStats(file?: string): Promise<{
   };
 }
 
+// ===== BLIND REVIEW REDACTION AUDIT =====
+
+interface RedactionAuditEntry {
+  event: 'blind_review_redaction';
+  auditId: string;
+  ts: string;
+  jobId: number;
+  resumeId: number;
+  actorId: string;
+  target: 'llm_prompt' | 'review';
+  redactions: {
+    categories: string[];
+    counts: Record<string, number>;
+    total: number;
+  };
+  hashes: {
+    original: string;
+    redacted: string;
+  };
+}
+
+/**
+ * Create an audit entry recording which redactions blind review applied
+ */
+export function createRedactionAudit(params: {
+  jobId: number;
+  resumeId: number;
+  actorId: string;
+  target: RedactionAuditEntry['target'];
+  redactions: RedactionAuditEntry['redactions'];
+  originalText: string;
+  redactedText: string;
+}): RedactionAuditEntry {
+  return {
+    event: 'blind_review_redaction',
+    auditId: crypto.randomUUID(),
+    ts: new Date().toISOString(),
+    jobId: params.jobId,
+    resumeId: params.resumeId,
+    actorId: params.actorId,
+    target: params.target,
+    redactions: params.redactions,
+    hashes: {
+      original: hashSensitiveData(params.originalText),
+      redacted: hashSensitiveData(params.redactedText),
+    },
+  };
+}
+
+/**
+ * Persist a redaction audit entry to the same append-only store as analyses
+ */
+export async function persistRedactionAudit(
+  entry: RedactionAuditEntry,
+  file?: string
+): Promise<void> {
+  await appendAuditRecord({
+    recordId: entry.auditId,
+    eventType: entry.event,
+    userId: entry.actorId,
+    jobId: entry.jobId,
+    resumeId: entry.resumeId,
+    resumeHash: entry.hashes.original,
+    payload: { ...entry },
+  }, file);
+}
+
 // ✅ PHASE 4.3: Enhanced Complete Audit Trail System
 
 interface CompleteAuditTrail {
@@ -438,7 +570,31 @@ export function generateCompleteAuditTrail(context: {
 }
 
 // ✅ Store complete audit trail for compliance
-export async function storeCompleteAuditTrail(auditTrail: CompleteAuditTrail): Promise<void> {
+export async function storeCompleteAuditTrail(
+  auditTrail: CompleteAuditTrail,
+  subject: AuditSubject = {}
+): Promise<void> {
+  if (storage) {
+    try {
+      await storage.appendAuditRecord({
+        recordId: auditTrail.analysisId,
+        eventType: 'complete_analysis',
+        ...subject,
+        resumeHash: auditTrail.dataHashes.resumeHash,
+        jobHash: auditTrail.dataHashes.jobDescriptionHash,
+        provider: auditTrail.versions.provider,
+        model: auditTrail.versions.providerModel,
+        payload: { ...auditTrail },
+      });
+      return;
+    } catch (error) {
+      logger.error('Failed to append complete audit trail, falling back to daily file', {
+        analysisId: auditTrail.analysisId,
+        error
+      });
+    }
+  }
+
   try {
     // Store as JSONL for immutable audit logging
     const auditDir = process.env.AUDIT_DIR || './audit_trails';
@@ -467,4 +623,4 @@ export async function storeCompleteAuditTrail(auditTrail: CompleteAuditTrail): P
   }
 }
 
-export type { CompleteAuditTrail };
\ No newline at end of file
+export type { CompleteAuditTrail, RedactionAuditEntry };
\ No newline at end of file
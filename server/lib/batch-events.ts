@@ -0,0 +1,239 @@
+/**
+ * Batch Event Stream
+ *
+ * In-process publish/subscribe hub behind the batch Server-Sent Events
+ * endpoint. Resume parsing and analysis publish events for their batch; each
+ * batch keeps a short replay buffer so a client reconnecting with
+ * `Last-Event-ID` receives whatever it missed.
+ *
+ * Event IDs are `<bootId>-<sequence>`. A client holding an ID from before a
+ * server restart (different bootId) gets the whole buffer replayed.
+ */
+
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import { logger } from './logger';
+
+export const BATCH_EVENT_TYPES = [
+  'resume-parsed',
+  'analysis-started',
+  'analysis-completed',
+  // Not "error": EventSource reserves that name for connection failures
+  'processing-error',
+] as const;
+
+export type BatchEventType = typeof BATCH_EVENT_TYPES[number];
+
+export interface BatchEvent {
+  id: string;
+  batchId: string;
+  type: BatchEventType;
+  data: Record<string, unknown>;
+  createdAt: string;
+}
+
+export type BatchEventListener = (_event: BatchEvent) => void;
+
+// Replay buffer limits per batch
+export const BATCH_EVENT_BUFFER_SIZE = 500;
+export const BATCH_EVENT_BUFFER_TTL_MS = 60 * 60 * 1000;
+
+// Comment line sent periodically so proxies keep idle streams open
+export const BATCH_EVENT_HEARTBEAT_MS = 25_000;
+
+// Reconnect delay suggested to EventSource clients
+export const BATCH_EVENT_RETRY_MS = 3_000;
+
+interface BatchBuffer {
+  events: BatchEvent[];
+  sequence: number;
+  lastActivity: number;
+}
+
+export class BatchEventHub {
+  private readonly emitter = new EventEmitter();
+  private readonly buffers = new Map<string, BatchBuffer>();
+  private readonly bufferSize: number;
+  private readonly bufferTtlMs: number;
+  readonly bootId: string;
+
+  constructor(
+    bufferSize = BATCH_EVENT_BUFFER_SIZE,
+    bufferTtlMs = BATCH_EVENT_BUFFER_TTL_MS,
+    bootId: string = crypto.randomBytes(4).toString('hex')
+  ) {
+    this.bufferSize = bufferSize;
+    this.bufferTtlMs = bufferTtlMs;
+    this.bootId = bootId;
+    // One listener per open stream; many browsers may watch the same batch
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(batchId: string, type: BatchEventType, data: Record<string, unknown>): BatchEvent {
+    this.prune();
+
+    let buffer = this.buffers.get(batchId);
+    if (!buffer) {
+      buffer = { events: [], sequence: 0, lastActivity: Date.now() };
+      this.buffers.set(batchId, buffer);
+    }
+
+    buffer.sequence += 1;
+    buffer.lastActivity = Date.now();
+
+    const event: BatchEvent = {
+      id: `${this.bootId}-${buffer.sequence}`,
+      batchId,
+      type,
+      data,
+      createdAt: new Date().toISOString(),
+    };
+
+    buffer.events.push(event);
+    if (buffer.events.length > this.bufferSize) {
+      buffer.events.splice(0, buffer.events.length - this.bufferSize);
+    }
+
+    this.emitter.emit(batchId, event);
+    return event;
+  }
+
+  /**
+   * Listen for new events of a batch. Returns the unsubscribe function.
+   */
+  subscribe(batchId: string, listener: BatchEventListener): () => void {
+    this.emitter.on(batchId, listener);
+    return () => {
+      this.emitter.off(batchId, listener);
+    };
+  }
+
+  /**
+   * Buffered events published after `lastEventId`; all buffered events when
+   * the ID is missing, malformed or from another server instance
+   */
+  getEventsSince(batchId: string, lastEventId?: string | null): BatchEvent[] {
+    const buffer = this.buffers.get(batchId);
+    if (!buffer) {
+      return [];
+    }
+
+    const sequence = this.parseEventId(lastEventId);
+    if (sequence === null) {
+      return [...buffer.events];
+    }
+    return buffer.events.filter(event => this.parseEventId(event.id)! > sequence);
+  }
+
+  listenerCount(batchId: string): number {
+    return this.emitter.listenerCount(batchId);
+  }
+
+  /**
+   * Sequence number of an ID issued by this instance, otherwise null
+   */
+  private parseEventId(eventId?: string | null): number | null {
+    if (!eventId) return null;
+    const [bootId, sequence] = eventId.split('-');
+    const parsed = Number(sequence);
+    if (bootId !== this.bootId || !Number.isInteger(parsed) || parsed < 0) {
+      return null;
+    }
+    return parsed;
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.bufferTtlMs;
+    for (const [batchId, buffer] of this.buffers) {
+      if (buffer.lastActivity < cutoff && this.emitter.listenerCount(batchId) === 0) {
+        this.buffers.delete(batchId);
+      }
+    }
+  }
+}
+
+export const batchEvents = new BatchEventHub();
+
+/**
+ * Fire-and-forget publishing for services; no-op without a batch ID
+ */
+export function publishBatchEvent(
+  batchId: string | null | undefined,
+  type: BatchEventType,
+  data: Record<string, unknown>
+): void {
+  if (!batchId) return;
+
+  try {
+    batchEvents.publish(batchId, type, data);
+  } catch (error) {
+    logger.warn('Failed to publish batch event', { batchId, type, error });
+  }
+}
+
+/**
+ * Serialize an event in the text/event-stream wire format
+ */
+export function formatSseEvent(event: BatchEvent): string {
+  const payload = JSON.stringify({ ...event.data, batchId: event.batchId, createdAt: event.createdAt });
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${payload}\n\n`;
+}
+
+/**
+ * Tracks per-resume analysis progress for a batch and publishes
+ * analysis-started, analysis-completed and processing-error events
+ */
+export function createBatchAnalysisReporter(options: {
+  batchId?: string | null;
+  jobId: number;
+  total: number;
+  runId?: number;
+  /** Resumes already finished, when a retried run resumes part-way */
+  completed?: number;
+  failed?: number;
+}) {
+  const { batchId, jobId, total, runId } = options;
+  let completed = options.completed ?? 0;
+  let failed = options.failed ?? 0;
+
+  const progress = () => ({ total, completed, failed, done: completed + failed >= total });
+  const base = () => ({ jobId, ...(runId !== undefined && { runId }) });
+
+  return {
+    started(): void {
+      publishBatchEvent(batchId, 'analysis-started', { ...base(), total, progress: progress() });
+    },
+
+    resumeFinished(result: {
+      resumeId: number;
+      analysisId: number | null;
+      matchPercentage: number | null;
+      error?: string | null;
+    }): void {
+      if (result.error) {
+        failed += 1;
+        publishBatchEvent(batchId, 'processing-error', {
+          ...base(),
+          stage: 'analysis',
+          resumeId: result.resumeId,
+          error: result.error,
+          progress: progress(),
+        });
+        return;
+      }
+
+      completed += 1;
+      publishBatchEvent(batchId, 'analysis-completed', {
+        ...base(),
+        resumeId: result.resumeId,
+        analysisId: result.analysisId,
+        matchPercentage: result.matchPercentage,
+        progress: progress(),
+      });
+    },
+
+    failed(error: string): void {
+      publishBatchEvent(batchId, 'processing-error', { ...base(), stage: 'analysis', error });
+    },
+  };
+}
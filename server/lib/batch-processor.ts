@@ -6,6 +6,7 @@ import {
 } from "./tiered-ai-provider";
 import { storage } from "../storage";
 import { UserTierInfo } from "@shared/user-tiers";
+import { publishBatchEvent } from "./batch-events";
 
 export interface BatchResumeInput {
   id: number;
@@ -29,6 +30,11 @@ export interface BatchProcessResult {
   timeTaken: number;
 }
 
+export interface BatchProcessOptions {
+  /** Upload batch to publish progress events for */
+  batchId?: string;
+}
+
 interface MatchProcessResult {
   resumeId: number;
   jobId: number;
@@ -45,6 +51,7 @@ interface MatchProcessResult {
 export async function processBatchResumes(
   resumes: BatchResumeInput[],
   userTier: UserTierInfo,
+  options: BatchProcessOptions = {},
 ): Promise<BatchProcessResult> {
   const startTime = Date.now();
   const errors: Array<{ id: number; error: string }> = [];
@@ -178,6 +185,12 @@ export async function processBatchResumes(
           }
         })();
 
+        publishBatchEvent(options.batchId, "resume-parsed", {
+          resumeId: resume.id,
+          filename: resume.filename,
+          analyzed: true,
+        });
+
         // Return immediately with analysis, database update happens in background
         // We store the promise to await all database operations later if needed
         return {
@@ -196,6 +209,12 @@ export async function processBatchResumes(
           errorStack: error instanceof Error ? error.stack : undefined,
         });
         errors.push({ id: resume.id, error: errorMessage });
+        publishBatchEvent(options.batchId, "processing-error", {
+          stage: "parsing",
+          resumeId: resume.id,
+          filename: resume.filename,
+          error: errorMessage,
+        });
         return { id: resume.id, success: false, error: errorMessage };
       }
     });
@@ -313,6 +332,7 @@ export async function processBatchMatches(
   resumes: BatchResumeInput[],
   jobs: BatchJobInput[],
   userTier: UserTierInfo,
+  options: BatchProcessOptions = {},
 ): Promise<BatchProcessResult> {
   const startTime = Date.now();
   const errors: Array<{ id: number; error: string }> = [];
@@ -451,6 +471,13 @@ export async function processBatchMatches(
 
     const matchStartTime = Date.now();
     const matchPromises: Promise<MatchProcessResult>[] = [];
+    let matchesFinished = 0;
+    const matchProgress = () => ({ total: totalMatches, finished: ++matchesFinished });
+
+    publishBatchEvent(options.batchId, "analysis-started", {
+      jobIds,
+      total: totalMatches,
+    });
 
     for (let i = 0; i < resumes.length; i++) {
       for (let j = 0; j < jobs.length; j++) {
@@ -503,6 +530,13 @@ export async function processBatchMatches(
               fairnessMetrics: matchAnalysis.fairnessMetrics,
             }).then(() => undefined);
 
+            publishBatchEvent(options.batchId, "analysis-completed", {
+              resumeId: resumes[i].id,
+              jobId: jobs[j].id,
+              matchPercentage: matchAnalysis.matchPercentage,
+              progress: matchProgress(),
+            });
+
             return {
               resumeId: resumes[i].id,
               jobId: jobs[j].id,
@@ -526,6 +560,13 @@ export async function processBatchMatches(
               id: resumes[i].id * 1000 + jobs[j].id, // Unique ID for match
               error: errorMessage,
             });
+            publishBatchEvent(options.batchId, "processing-error", {
+              stage: "analysis",
+              resumeId: resumes[i].id,
+              jobId: jobs[j].id,
+              error: errorMessage,
+              progress: matchProgress(),
+            });
             return {
               resumeId: resumes[i].id,
               jobId: jobs[j].id,
@@ -0,0 +1,246 @@
+/**
+ * Blind Review Redaction
+ *
+ * Anonymizes resumes for jobs with blind review enabled. Bias detection
+ * flags name, age, location and elite-education signals after the fact;
+ * blind review removes them before a reviewer or an LLM prompt sees them.
+ *
+ * Redacted: candidate name, email, phone, profile URLs, street addresses
+ * and locations, photo metadata, graduation years and institution names.
+ * Employers, titles, skills and durations are kept since they are the
+ * job-relevant signal.
+ */
+
+import type { AnalyzedResumeData } from '@shared/schema';
+
+export type RedactionCategory =
+  | 'name'
+  | 'email'
+  | 'phone'
+  | 'url'
+  | 'address'
+  | 'photo_metadata'
+  | 'graduation_year'
+  | 'institution';
+
+export type RedactionCounts = Partial<Record<RedactionCategory, number>>;
+
+export interface RedactionSummary {
+  categories: RedactionCategory[];
+  counts: RedactionCounts;
+  total: number;
+}
+
+export interface BlindResume {
+  candidateLabel: string;
+  content: string;
+  analyzedData: AnalyzedResumeData | null;
+  redactions: RedactionSummary;
+}
+
+const PLACEHOLDERS: Record<RedactionCategory, string> = {
+  name: '[CANDIDATE]',
+  email: '[EMAIL]',
+  phone: '[PHONE]',
+  url: '[URL]',
+  address: '[ADDRESS]',
+  photo_metadata: '[PHOTO]',
+  graduation_year: '[YEAR]',
+  institution: '[INSTITUTION]',
+};
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const PHONE_PATTERN = /(?<!\w)(?:\+?\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]?\d{3,4}[\s.-]?\d{3,4}(?!\w)/g;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\b(?:linkedin\.com|github\.com|gitlab\.com|behance\.net|dribbble\.com)\/\S+/gi;
+const STREET_ADDRESS_PATTERN =
+  /\b\d{1,5}\s+(?:[A-Z][A-Za-z]*\.?\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy)\b\.?(?:,?\s*(?:Apt|Suite|Unit|#)\s*[\w-]+)?/g;
+const CITY_STATE_ZIP_PATTERN = /\b[A-Z][A-Za-z]+(?:\s[A-Z][A-Za-z]+)*,\s*[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/g;
+const ADDRESS_LINE_PATTERN = /^(?:address|location|residence|based in)\s*:.*$/gim;
+const PHOTO_LINE_PATTERN =
+  /^.*(?:\b(?:photo|photograph|headshot|profile picture|image)\b.*\.(?:jpe?g|png|gif|heic|webp)\b|\b(?:exif|camera model|gps (?:latitude|longitude)|date taken)\b|\[(?:image|photo)[^\]]*\]).*$/gim;
+const INSTITUTION_PATTERN =
+  /\b(?:(?:University|College|Institute|School|Academy|Polytechnic)\s+of\s+(?:[A-Z][A-Za-z&.'-]*\s?){1,5}|(?:[A-Z][A-Za-z&.'-]*\s){1,5}(?:University|College|Institute of Technology|Institute|School of [A-Z][a-z]+|Academy|Polytechnic))/g;
+const EDUCATION_LINE_PATTERN =
+  /\b(?:bachelor|master|mba|ph\.?d|doctorate|degree|diploma|graduat\w*|class of|b\.?s\.?c?|m\.?s\.?c?|b\.a\.|m\.a\.|university|college|institute)\b/i;
+const YEAR_PATTERN = /\b(?:19[5-9]\d|20\d{2})\b/g;
+
+/**
+ * Anonymized label shown in place of a candidate's name and filename
+ */
+export function blindCandidateLabel(resumeId: number): string {
+  return `Candidate #${resumeId}`;
+}
+
+/**
+ * Redact identifying details from free resume text
+ * @param text Resume content
+ * @param candidateName Known candidate name to scrub; when omitted the name is
+ *   guessed from the first line of the text, pass null to skip name redaction
+ */
+export function redactResumeText(
+  text: string,
+  candidateName?: string | null
+): { text: string; counts: RedactionCounts } {
+  const counts: RedactionCounts = {};
+  let redacted = text;
+
+  const replace = (pattern: RegExp, category: RedactionCategory) => {
+    redacted = redacted.replace(pattern, () => {
+      counts[category] = (counts[category] ?? 0) + 1;
+      return PLACEHOLDERS[category];
+    });
+  };
+
+  // Photo lines first so file names inside them are not half-redacted as URLs
+  replace(PHOTO_LINE_PATTERN, 'photo_metadata');
+  replace(EMAIL_PATTERN, 'email');
+  replace(URL_PATTERN, 'url');
+  replace(ADDRESS_LINE_PATTERN, 'address');
+  replace(STREET_ADDRESS_PATTERN, 'address');
+  replace(CITY_STATE_ZIP_PATTERN, 'address');
+
+  // Graduation years only on education lines; employment dates stay intact
+  // so experience can still be scored. Runs before phone matching so that
+  // year ranges are not mistaken for phone numbers.
+  redacted = redacted
+    .split('\n')
+    .map(line => {
+      if (!EDUCATION_LINE_PATTERN.test(line)) return line;
+      return line.replace(YEAR_PATTERN, () => {
+        counts.graduation_year = (counts.graduation_year ?? 0) + 1;
+        return PLACEHOLDERS.graduation_year;
+      });
+    })
+    .join('\n');
+
+  replace(INSTITUTION_PATTERN, 'institution');
+  replace(PHONE_PATTERN, 'phone');
+
+  const name = candidateName === undefined ? guessNameFromHeader(text) : candidateName;
+  for (const namePattern of buildNamePatterns(name)) {
+    replace(namePattern, 'name');
+  }
+
+  return { text: redacted, counts };
+}
+
+/**
+ * Redact identifying details from analyzed resume data
+ */
+export function redactAnalyzedResumeData(
+  data: AnalyzedResumeData
+): { data: AnalyzedResumeData; counts: RedactionCounts } {
+  const counts: RedactionCounts = {};
+  const merge = (more: RedactionCounts) => {
+    for (const [category, count] of Object.entries(more) as Array<[RedactionCategory, number]>) {
+      counts[category] = (counts[category] ?? 0) + count;
+    }
+  };
+  const scrub = (value: string) => {
+    const result = redactResumeText(value, data.name || null);
+    merge(result.counts);
+    return result.text;
+  };
+
+  const redacted: AnalyzedResumeData = {
+    ...data,
+    name: PLACEHOLDERS.name,
+    experience: scrub(data.experience),
+    summary: scrub(data.summary),
+    education: data.education.map(scrub),
+    keyStrengths: data.keyStrengths.map(scrub),
+    contactInfo: undefined,
+    workExperience: data.workExperience?.map(entry => ({ ...entry, description: scrub(entry.description) })),
+  };
+  if (data.name) counts.name = (counts.name ?? 0) + 1;
+
+  if (data.contactInfo) {
+    const { email, phone, location, linkedin } = data.contactInfo;
+    if (email) counts.email = (counts.email ?? 0) + 1;
+    if (phone) counts.phone = (counts.phone ?? 0) + 1;
+    if (location) counts.address = (counts.address ?? 0) + 1;
+    if (linkedin) counts.url = (counts.url ?? 0) + 1;
+  }
+
+  if (data.structured) {
+    redacted.structured = {
+      ...data.structured,
+      degrees: data.structured.degrees.map(({ institution, graduationYear, ...degree }) => {
+        if (institution) counts.institution = (counts.institution ?? 0) + 1;
+        if (graduationYear) counts.graduation_year = (counts.graduation_year ?? 0) + 1;
+        return degree;
+      }),
+    };
+  }
+
+  return { data: redacted, counts };
+}
+
+/**
+ * Produce the anonymized view of a resume for a blind-review job
+ */
+export function redactResumeForBlindReview(resume: {
+  id: number;
+  content: string | null;
+  analyzedData: AnalyzedResumeData | null;
+}): BlindResume {
+  const textResult = redactResumeText(resume.content ?? '', resume.analyzedData?.name || undefined);
+  const dataResult = resume.analyzedData ? redactAnalyzedResumeData(resume.analyzedData) : null;
+
+  return {
+    candidateLabel: blindCandidateLabel(resume.id),
+    content: textResult.text,
+    analyzedData: dataResult?.data ?? null,
+    redactions: summarizeRedactions(textResult.counts, dataResult?.counts ?? {}),
+  };
+}
+
+/**
+ * Scrub a candidate's name from generated text (strengths, weaknesses, ...)
+ */
+export function redactCandidateName(text: string, candidateName?: string | null): string {
+  return buildNamePatterns(candidateName).reduce(
+    (result, pattern) => result.replace(pattern, PLACEHOLDERS.name),
+    text
+  );
+}
+
+function summarizeRedactions(...countSets: RedactionCounts[]): RedactionSummary {
+  const counts: RedactionCounts = {};
+  for (const set of countSets) {
+    for (const [category, count] of Object.entries(set) as Array<[RedactionCategory, number]>) {
+      counts[category] = (counts[category] ?? 0) + count;
+    }
+  }
+
+  const categories = (Object.keys(counts) as RedactionCategory[]).sort();
+  return {
+    categories,
+    counts,
+    total: categories.reduce((sum, category) => sum + (counts[category] ?? 0), 0),
+  };
+}
+
+// A resume usually opens with the candidate's name on its own line
+function guessNameFromHeader(text: string): string | null {
+  const firstLine = text.split('\n').map(line => line.trim()).find(Boolean);
+  if (!firstLine) return null;
+  return /^[A-Z][a-zA-Z'-]+(?:\s+[A-Z][a-zA-Z.'-]*){1,3}$/.test(firstLine) ? firstLine : null;
+}
+
+function buildNamePatterns(name?: string | null): RegExp[] {
+  if (!name || name === PLACEHOLDERS.name) return [];
+
+  const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const parts = name
+    .split(/\s+/)
+    .map(part => part.replace(/[^A-Za-z'-]/g, ''))
+    .filter(part => part.length > 2);
+
+  // Full name in any case, then capitalized name parts (e.g. "Ms. Smith")
+  // case-sensitively so that names like "Will" don't eat ordinary words
+  return [
+    new RegExp(`\\b${escape(name.trim())}(?!\\w)`, 'gi'),
+    ...parts.map(part => new RegExp(`\\b${escape(part.charAt(0).toUpperCase() + part.slice(1))}\\b`, 'g')),
+  ];
+}
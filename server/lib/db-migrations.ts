@@ -69,6 +69,101 @@ const MIGRATIONS: Migration[] = [
     description: "Railway-safe covering indexes for 100-user performance optimization",
     filename: "013_add_covering_indexes_performance_safe.sql",
   },
+  {
+    version: "014_hiring_pipeline",
+    description: "Add hiring pipeline stages, candidate status and transition history",
+    filename: "014_hiring_pipeline.sql",
+  },
+  {
+    version: "015_blind_review_mode",
+    description: "Add per-job blind review flag to job descriptions",
+    filename: "015_blind_review_mode.sql",
+  },
+  {
+    version: "016_webhooks",
+    description: "Add webhook subscriptions and delivery log",
+    filename: "016_webhooks.sql",
+  },
+  {
+    version: "017_analysis_runs",
+    description: "Add asynchronous analysis runs and run items",
+    filename: "017_analysis_runs.sql",
+  },
+  {
+    version: "018_job_scoring_config",
+    description: "Add per-job scoring weights and requirement gates",
+    filename: "018_job_scoring_config.sql",
+  },
+  {
+    version: "019_pgvector_embeddings",
+    description: "Add pgvector embedding columns and similarity index",
+    filename: "019_pgvector_embeddings.sql",
+  },
+  {
+    version: "020_audit_records",
+    description: "Add hash-chained audit records table",
+    filename: "020_audit_records.sql",
+  },
+  {
+    version: "021_rescore_runs",
+    description: "Add re-scoring runs and versioned rescored results",
+    filename: "021_rescore_runs.sql",
+  },
+  {
+    version: "022_llm_usage",
+    description: "Add LLM usage records and monthly budgets",
+    filename: "022_llm_usage.sql",
+  },
+  {
+    version: "023_organizations",
+    description: "Add organizations, memberships, invitations and org-scoped sharing",
+    filename: "023_organizations.sql",
+  },
+  {
+    version: "024_interview_scorecards",
+    description: "Add interview scorecards for structured interviewer feedback",
+    filename: "024_interview_scorecards.sql",
+  },
+  {
+    version: "025_candidate_groups",
+    description: "Add resume fingerprints and candidate groups for duplicate detection",
+    filename: "025_candidate_groups.sql",
+  },
+  {
+    version: "026_job_description_versions",
+    description: "Add job description version history and stale analysis tracking",
+    filename: "026_job_description_versions.sql",
+  },
+  {
+    version: "027_api_token_scopes",
+    description: "Add scopes, CIDR allowlists and rate limits to API tokens",
+    filename: "027_api_token_scopes.sql",
+  },
+  {
+    version: "028_token_rotation_and_activity",
+    description: "Add hashed token secrets, rotation, per-token call logs and anomaly alerts",
+    filename: "028_token_rotation_and_activity.sql",
+  },
+  {
+    version: "029_feedback_and_analysis_ratings",
+    description: "Add product feedback and analysis quality ratings",
+    filename: "029_feedback_and_analysis_ratings.sql",
+  },
+  {
+    version: "030_skill_corrections",
+    description: "Add recruiter corrections to extracted skills",
+    filename: "030_skill_corrections.sql",
+  },
+  {
+    version: "031_skill_taxonomy",
+    description: "Add organization skill taxonomies",
+    filename: "031_skill_taxonomy.sql",
+  },
+  {
+    version: "032_llm_organization_budgets",
+    description: "Add organization LLM usage attribution and budgets",
+    filename: "032_llm_organization_budgets.sql",
+  },
 ];
 
 /**
@@ -17,7 +17,7 @@ const execAsync = promisify(exec);
 /**
  * Interface for sections identified in a resume
  */
-interface ResumeSection {
+export interface ResumeSection {
   type:
     | "skills"
     | "experience"
@@ -36,7 +36,7 @@ interface ResumeSection {
 /**
  * Interface for parsed resume data
  */
-interface ParsedResume {
+export interface ParsedResume {
   text: string;
   sections: ResumeSection[];
 }
@@ -12,6 +12,11 @@ import {
   processSkills,
   getSkillHierarchy,
 } from "./skill-processor";
+import {
+  getActiveSkillTaxonomy,
+  lookupTaxonomySkill,
+  findTaxonomyRelatedSkills,
+} from "./skill-taxonomy";
 import { SkillLearningSystem as _SkillLearningSystem, learnSkill as _learnSkill } from "./skill-learning";
 import { scoreExperienceEnhanced } from "./enhanced-experience-matching";
 import {
@@ -21,6 +26,7 @@ import {
   type UnifiedScoringWeights,
 } from "./unified-scoring-config";
 import stringSimilarity from "string-similarity";
+import type { StructuredResumeData } from "@shared/schema";
 
 // Type definitions for scoring system
 interface SkillBreakdown {
@@ -99,6 +105,11 @@ export async function matchSkillsEnhanced(
   let totalScore = 0;
   let maxPossibleScore = 0;
 
+  // The user's organization taxonomies supply names, categories, relations and embeddings first
+  const taxonomy = await getActiveSkillTaxonomy();
+  const taxonomyCategory = (skill: string) =>
+    (taxonomy && lookupTaxonomySkill(taxonomy, skill)?.category) || 'general';
+
   // Normalize all skills
   const normalizedResumeSkills = await Promise.all(
     resumeSkills.map(async (skill) => {
@@ -106,7 +117,7 @@ export async function matchSkillsEnhanced(
       return {
         original: skill,
         normalized: typeof normalized === 'string' ? normalized : normalized,
-        category: 'general',
+        category: taxonomyCategory(normalized),
       };
     }),
   );
@@ -117,7 +128,7 @@ export async function matchSkillsEnhanced(
       return {
         original: skill,
         normalized: typeof normalized === 'string' ? normalized : normalized,
-        category: 'general',
+        category: taxonomyCategory(normalized),
       };
     }),
   );
@@ -153,6 +164,21 @@ export async function matchSkillsEnhanced(
       resumeSkillEmbeddings.set(skill.normalized, allEmbeddings[embeddingIndex]);
     });
   }
+
+  // Prefer the embeddings stored with taxonomy skills
+  if (taxonomy) {
+    for (const [skills, embeddings] of [
+      [normalizedJobSkills, jobSkillEmbeddings],
+      [normalizedResumeSkills, resumeSkillEmbeddings],
+    ] as const) {
+      for (const skill of skills) {
+        const stored = lookupTaxonomySkill(taxonomy, skill.normalized)?.embedding;
+        if (stored && stored.length > 0) {
+          embeddings.set(skill.normalized, stored);
+        }
+      }
+    }
+  }
   
   // Process all job skills in parallel
   const skillMatchPromises = normalizedJobSkills.map(async (jobSkill) => {
@@ -184,9 +210,12 @@ export async function matchSkillsEnhanced(
       };
     } else {
       // 2. Related skills match
-      // Get related skills from skill hierarchy
+      // Get related skills from the organization taxonomies, then the skill hierarchy
       const skillHierarchy = getSkillHierarchy();
-      const relatedSkills = findRelatedSkillsFromHierarchy(jobSkill.normalized, skillHierarchy, 10);
+      const relatedSkills = [
+        ...(taxonomy ? findTaxonomyRelatedSkills(taxonomy, jobSkill.normalized) : []),
+        ...findRelatedSkillsFromHierarchy(jobSkill.normalized, skillHierarchy, 10),
+      ];
       const relatedMatch = normalizedResumeSkills.find((resumeSkill) =>
         relatedSkills.some(
           (related: { skill: string; similarity: number }) =>
@@ -344,16 +373,20 @@ export async function matchSkillsEnhanced(
 export function scoreExperience(
   resumeExperience: string,
   jobExperience: string,
+  structured?: StructuredResumeData | null,
 ): { score: number; explanation: string } {
-  if (!resumeExperience || !jobExperience) {
+  const timelineMonths = structured?.totalExperienceMonths ?? 0;
+  if ((!resumeExperience && timelineMonths === 0) || !jobExperience) {
     return { score: 50, explanation: "Experience information incomplete" };
   }
 
-  const resumeText = resumeExperience.toLowerCase();
+  const resumeText = (resumeExperience || "").toLowerCase();
   const jobText = jobExperience.toLowerCase();
 
-  // Extract years from experience descriptions
-  const resumeYears = extractYearsFromText(resumeText);
+  // Prefer months from the extracted work history timeline over free-text guesses
+  const resumeYears = timelineMonths > 0
+    ? Math.round((timelineMonths / 12) * 10) / 10
+    : extractYearsFromText(resumeText);
   const requiredYears = extractYearsFromText(jobText);
 
   if (resumeYears >= 0 && requiredYears >= 0) {
@@ -455,6 +488,8 @@ export async function calculateEnhancedMatchWithESCO(
     experience: string;
     education: string;
     content: string;
+    // Work history timeline extracted from resume sections
+    structured?: StructuredResumeData | null;
     // Optional stored embeddings for performance optimization
     embedding?: number[] | null;
     skillsEmbedding?: number[] | null;
@@ -536,14 +571,19 @@ export async function calculateEnhancedMatchWithESCO(
     });
 
     // 3. Enhanced experience scoring
-    logger.info('Starting enhanced experience scoring...');
-    const experienceMatch = await scoreExperienceEnhanced(
-      resumeData.experience,
-      jobData.experience,
-    ).catch(error => {
-      logger.error('Enhanced experience scoring failed:', error);
-      return { score: 50, explanation: 'Experience scoring failed' };
-    });
+    // With a work history timeline and a stated requirement, compare real months
+    const hasTimeline = (resumeData.structured?.totalExperienceMonths ?? 0) > 0;
+    const hasRequiredYears = extractYearsFromText((jobData.experience || '').toLowerCase()) >= 0;
+    logger.info('Starting enhanced experience scoring...', { hasTimeline, hasRequiredYears });
+    const experienceMatch = hasTimeline && hasRequiredYears
+      ? scoreExperience(resumeData.experience, jobData.experience, resumeData.structured)
+      : await scoreExperienceEnhanced(
+        resumeData.experience,
+        jobData.experience,
+      ).catch(error => {
+        logger.error('Enhanced experience scoring failed:', error);
+        return { score: 50, explanation: 'Experience scoring failed' };
+      });
 
     // 4. Education scoring
     logger.info('Starting education scoring...');
@@ -665,6 +705,7 @@ export async function calculateEnhancedMatch(
     experience: string;
     education: string;
     content: string;
+    structured?: StructuredResumeData | null;
   },
   jobData: {
     skills: string[];
@@ -0,0 +1,159 @@
+/**
+ * Ranking and Calibration Metrics
+ *
+ * Pure metric functions for the offline scoring evaluation (see
+ * lib/scoring-evaluation). Predictions are match scores on 0-100; targets are
+ * human judgements normalized to 0-1, where 1 is the best possible candidate.
+ * Every function returns null when the input cannot support the metric, e.g.
+ * fewer than two points or no variance, instead of a misleading 0.
+ */
+
+export interface ScoredPoint {
+  /** Match score, 0-100 */
+  predicted: number;
+  /** Human judgement, 0-1 */
+  target: number;
+}
+
+export interface RankedGroup {
+  points: ScoredPoint[];
+}
+
+const DEFAULT_CALIBRATION_BINS = 10;
+
+// 1-based ranks, ties share the average of the ranks they span
+function averageRanks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) {
+      end++;
+    }
+    const rank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) {
+      ranks[order[i].index] = rank;
+    }
+    start = end + 1;
+  }
+
+  return ranks;
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < 2) {
+    return null;
+  }
+
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+
+  return varianceX === 0 || varianceY === 0 ? null : covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/**
+ * Spearman rank correlation between predicted scores and targets
+ */
+export function spearmanCorrelation(points: ScoredPoint[]): number | null {
+  return pearson(
+    averageRanks(points.map(point => point.predicted)),
+    averageRanks(points.map(point => point.target))
+  );
+}
+
+/**
+ * Kendall's tau-b, which corrects for the ties that binary hire labels produce
+ */
+export function kendallTau(points: ScoredPoint[]): number | null {
+  let concordant = 0;
+  let discordant = 0;
+  let tiedPredicted = 0;
+  let tiedTarget = 0;
+
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      const predicted = Math.sign(points[i].predicted - points[j].predicted);
+      const target = Math.sign(points[i].target - points[j].target);
+      if (predicted === 0 && target === 0) {
+        continue;
+      }
+      if (predicted === 0) {
+        tiedPredicted++;
+      } else if (target === 0) {
+        tiedTarget++;
+      } else if (predicted === target) {
+        concordant++;
+      } else {
+        discordant++;
+      }
+    }
+  }
+
+  const denominator = Math.sqrt(
+    (concordant + discordant + tiedPredicted) * (concordant + discordant + tiedTarget)
+  );
+  return denominator === 0 ? null : (concordant - discordant) / denominator;
+}
+
+function discountedGain(targets: number[], k: number): number {
+  return targets
+    .slice(0, k)
+    .reduce((sum, target, index) => sum + target / Math.log2(index + 2), 0);
+}
+
+/**
+ * NDCG of the top k, averaged over groups (one group per job). The target is
+ * used as a graded gain. Groups without any relevant candidate are skipped.
+ */
+export function ndcgAtK(groups: RankedGroup[], k: number): number | null {
+  const scores: number[] = [];
+
+  for (const { points } of groups) {
+    const ideal = discountedGain(points.map(point => point.target).sort((a, b) => b - a), k);
+    if (ideal === 0) {
+      continue;
+    }
+    // Ties in the prediction take the pessimistic order, so a constant scorer earns nothing
+    const ranked = [...points].sort((a, b) => b.predicted - a.predicted || a.target - b.target);
+    scores.push(discountedGain(ranked.map(point => point.target), k) / ideal);
+  }
+
+  return scores.length === 0 ? null : scores.reduce((sum, score) => sum + score, 0) / scores.length;
+}
+
+/**
+ * Expected calibration error: the score read as a probability of a good match,
+ * compared with the mean target in equal-width score bins
+ */
+export function expectedCalibrationError(
+  points: ScoredPoint[],
+  bins: number = DEFAULT_CALIBRATION_BINS
+): number | null {
+  if (points.length === 0) {
+    return null;
+  }
+
+  const totals = Array.from({ length: bins }, () => ({ count: 0, predicted: 0, target: 0 }));
+  for (const point of points) {
+    const probability = Math.min(1, Math.max(0, point.predicted / 100));
+    const bin = totals[Math.min(bins - 1, Math.floor(probability * bins))];
+    bin.count++;
+    bin.predicted += probability;
+    bin.target += point.target;
+  }
+
+  return totals.reduce((error, bin) => bin.count === 0
+    ? error
+    : error + (bin.count / points.length) * Math.abs(bin.predicted / bin.count - bin.target / bin.count), 0);
+}
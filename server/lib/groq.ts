@@ -1,30 +1,13 @@
 import Groq from "groq-sdk";
 import crypto from "crypto";
 import { logger } from "./logger";
-import {
-  generateConsistentScoringPrompt,
-  deterministicCache,
-  calculateConfidenceLevel,
-  validateScoreConsistency,
-} from "./consistent-scoring";
-
-// Prefix unused imports to silence warnings
-const _validateScoreConsistency = validateScoreConsistency;
-// MatchAnalysisResponse is a type import, cannot assign to variable
 // Consolidated skill system import
 import { normalizeSkillWithHierarchy } from "./skill-processor";
-import {
-  type AnalyzeResumeResponse,
-  type AnalyzeJobDescriptionResponse,
-  type MatchAnalysisResponse,
-  type InterviewQuestionsResponse,
-  type InterviewScriptResponse,
-  type BiasAnalysisResponse,
-} from "@shared/schema";
-import type { ResumeId, JobId } from "@shared/api-contracts";
-import { GroqErrorHandler as _GroqErrorHandler, logApiServiceStatus as _logApiServiceStatus } from "./shared/error-handler";
-import { GroqResponseParser as _GroqResponseParser } from "./shared/response-parser";
-import { PromptTemplateEngine as _PromptTemplateEngine, type ResumeAnalysisContext as _ResumeAnalysisContext, type JobAnalysisContext as _JobAnalysisContext, type MatchAnalysisContext as _MatchAnalysisContext } from "./shared/prompt-templates";
+import { type AnalyzeResumeResponse } from "@shared/schema";
+import type { ResumeId } from "@shared/api-contracts";
+import { createChatCompletionsAdapter } from "./providers/chat-completions-adapter";
+import { createProviderOperations, type AIOperation } from "./providers/provider-adapter";
+import { recordLlmUsage } from "./llm-usage";
 
 // Initialize Groq client only if API key is available
 const groq = process.env.GROQ_API_KEY
@@ -74,6 +57,7 @@ const CACHE_TTL = 60 * 60 * 1000; // 1 hour
 // Clear cache function for debugging
 export function clearResponseCache(): void {
   Object.keys(responseCache).forEach((key) => delete responseCache[key]);
+  operations.clearCache();
   logger.info("Response cache cleared - forcing fresh analysis");
 }
 
@@ -346,6 +330,15 @@ async function callGroqAPI(
         response.usage.prompt_tokens || 0,
         response.usage.completion_tokens || 0,
       );
+      recordLlmUsage({
+        provider: "groq",
+        model,
+        operation: "extraction",
+        usage: {
+          promptTokens: response.usage.prompt_tokens || 0,
+          completionTokens: response.usage.completion_tokens || 0,
+        },
+      });
     }
 
     return content;
@@ -421,6 +414,15 @@ async function _callGroqAPIWithResult(
           response.usage.prompt_tokens || 0,
           response.usage.completion_tokens || 0,
         );
+        recordLlmUsage({
+          provider: "groq",
+          model,
+          operation: "extraction",
+          usage: {
+            promptTokens: response.usage.prompt_tokens || 0,
+            completionTokens: response.usage.completion_tokens || 0,
+          },
+        });
       }
 
       return content;
@@ -635,517 +637,39 @@ export async function analyzeResumeParallelResult(
   return analyzeResumeParallelInternal(resumeText);
 }
 
-// Legacy single-call method (fallback)
-export async function analyzeResume(
-  resumeText: string,
-): Promise<AnalyzeResumeResponse> {
-  const cacheKey = calculateHash(`groq_resume_${resumeText}`);
-  const cached = getCachedResponse<AnalyzeResumeResponse>(cacheKey);
-  if (cached) return cached;
-
-  const prompt = `Analyze this resume and extract structured information. Return a JSON object with the following structure:
-
-{
-  "skills": ["skill1", "skill2", "skill3"],
-  "experience": "X years",
-  "education": ["degree1", "degree2"],
-  "summary": "brief professional summary",
-  "strengths": ["strength1", "strength2"],
-  "jobTitles": ["title1", "title2"]
-}
-
-Resume text:
-${resumeText}
-
-Respond with only the JSON object, no additional text.`;
-
-  try {
-    const response = await callGroqAPI(prompt, MODELS.ANALYSIS);
-    const cleanedResponse = stripMarkdownFromJSON(response);
-    const rawResponse = JSON.parse(cleanedResponse);
-
-    // Convert raw response to proper AnalyzeResumeResponse format
-    const parsedResponse: AnalyzeResumeResponse = {
-      id: 0 as ResumeId, // Will be set by caller
-      filename: "resume.txt", // Will be set by caller
-      analyzedData: {
-        name: rawResponse.name || "Name not found",
-        skills: rawResponse.skills || [],
-        experience: rawResponse.experience || "Experience not specified",
-        education: rawResponse.education || [],
-        summary: rawResponse.summary || "Professional with diverse background",
-        keyStrengths: rawResponse.strengths || [],
-      },
-      processingTime: 0,
-      confidence: 0.8,
-      // Convenience properties for backward compatibility
-      name: rawResponse.name || "Name not found",
-      skills: rawResponse.skills || [],
-      experience: [rawResponse.experience || "Experience not specified"],
-      experienceYears: rawResponse.experienceYears || 0,
-    };
-
-    // Only cache if we have meaningful results (at least some skills)
-    if (parsedResponse.skills && parsedResponse.skills.length > 0) {
-      setCachedResponse(cacheKey, parsedResponse);
-      logger.info("Resume analyzed successfully with Groq");
-    } else {
-      logger.warn(
-        "Not caching resume analysis - no skills extracted in sequential analysis",
-      );
-    }
-
-    return parsedResponse;
-  } catch (error) {
-    logger.error("Error analyzing resume with Groq", error);
-
-    // Re-throw the error instead of returning fallback response
-    // The tiered provider will handle appropriate error messaging
-    throw error;
-  }
-}
-
-// Analyze job description using Groq
-export async function analyzeJobDescription(
-  title: string,
-  description: string,
-): Promise<AnalyzeJobDescriptionResponse> {
-  const cacheKey = calculateHash(`groq_job_${title}_${description}`);
-  const cached = getCachedResponse<AnalyzeJobDescriptionResponse>(cacheKey);
-  if (cached) return cached;
-
-  const prompt = `Analyze this job description and extract structured information. Return a JSON object with the following structure:
-
-{
-  "requiredSkills": ["skill1", "skill2", "skill3"],
-  "preferredSkills": ["skill1", "skill2"],
-  "experienceLevel": "entry/mid/senior/executive",
-  "responsibilities": ["responsibility1", "responsibility2"],
-  "qualifications": ["qualification1", "qualification2"],
-  "summary": "brief job summary"
-}
-
-Job Title: ${title}
-Job Description:
-${description}
-
-Respond with only the JSON object, no additional text.`;
-
-  try {
-    const response = await callGroqAPI(prompt, MODELS.ANALYSIS);
-    const cleanedResponse = stripMarkdownFromJSON(response);
-    const rawResponse = JSON.parse(cleanedResponse);
-
-    // Convert raw response to proper AnalyzeJobDescriptionResponse format
-    const parsedResponse: AnalyzeJobDescriptionResponse = {
-      id: 0 as JobId, // Will be set by caller
-      title: title,
-      analyzedData: {
-        requiredSkills: rawResponse.requiredSkills || [],
-        preferredSkills: rawResponse.preferredSkills || [],
-        experienceLevel: rawResponse.experienceLevel || "mid",
-        responsibilities: rawResponse.responsibilities || [],
-        summary: rawResponse.summary || "Job opportunity",
-      },
-      processingTime: 0,
-      confidence: 0.8,
-      // Convenience properties for backward compatibility
-      requiredSkills: rawResponse.requiredSkills || [],
-      preferredSkills: rawResponse.preferredSkills || [],
-      experienceLevel: rawResponse.experienceLevel || "mid",
-    };
-
-    setCachedResponse(cacheKey, parsedResponse);
-    logger.info("Job description analyzed successfully with Groq");
-    return parsedResponse;
-  } catch (error) {
-    logger.error("Error analyzing job description with Groq", error);
-
-    // Re-throw the error instead of returning fallback response
-    // The tiered provider will handle appropriate error messaging
-    throw error;
-  }
-}
-
-// Analyze match between resume and job using Groq with consistent scoring
-export async function analyzeMatch(
-  resumeAnalysis: AnalyzeResumeResponse,
-  jobAnalysis: AnalyzeJobDescriptionResponse,
-  resumeText?: string,
-  jobText?: string,
-): Promise<MatchAnalysisResponse> {
-  // Use deterministic caching if we have the original texts
-  let cacheKey: string;
-  let cached: MatchAnalysisResponse | null = null;
-
-  if (resumeText && jobText) {
-    cacheKey = deterministicCache.generateKey(resumeText, jobText, "match");
-    cached = deterministicCache.get(cacheKey) as MatchAnalysisResponse | null;
-    if (cached) {
-      logger.debug("Using cached consistent match analysis");
-      return cached;
-    }
-  } else {
-    // Fallback to old caching method
-    cacheKey = calculateHash(
-      `groq_match_${JSON.stringify(resumeAnalysis)}_${JSON.stringify(jobAnalysis)}`,
-    );
-    cached = getCachedResponse<MatchAnalysisResponse>(cacheKey);
-    if (cached) return cached;
+// Matching, bias and interview generation get the premium model; plain
+// extraction is fine on the analysis model
+function modelForOperation(operation: AIOperation): string {
+  switch (operation) {
+    case "match":
+    case "bias":
+    case "interview-script":
+      return MODELS.PREMIUM;
+    default:
+      return MODELS.ANALYSIS;
   }
-
-  // Generate consistent scoring prompt
-  const prompt =
-    resumeText && jobText
-      ? generateConsistentScoringPrompt(resumeText, jobText, "match")
-      : `Analyze the match between this resume and job description with CONSISTENT scoring. Use temperature=0 for deterministic results.
-
-Return a JSON object with the following structure:
-{
-  "matchPercentage": 85,
-  "matchedSkills": [
-    {"skill": "JavaScript", "matchPercentage": 95},
-    {"skill": "React", "matchPercentage": 88}
-  ],
-  "missingSkills": ["Python", "Docker"],
-  "candidateStrengths": ["Strong in frontend", "Good communication"],
-  "candidateWeaknesses": ["Limited backend experience"],
-  "recommendations": ["Learn Python", "Gain Docker experience"],
-  "confidenceLevel": "high"
 }
 
-Resume Analysis:
-${JSON.stringify(resumeAnalysis, null, 2)}
-
-Job Analysis:
-${JSON.stringify(jobAnalysis, null, 2)}
-
-Respond with only the JSON object, no additional text.`;
-
-  try {
-    // Generate deterministic seed from resume and job text
-    const seed =
-      resumeText && jobText
-        ? parseInt(
-            crypto
-              .createHash("sha256")
-              .update(`${resumeText}${jobText}`)
-              .digest("hex")
-              .substring(0, 8),
-            16,
-          ) % 1000000
-        : undefined;
-
-    const response = await callGroqAPI(prompt, MODELS.PREMIUM, 0.0, seed);
-    const cleanedResponse = stripMarkdownFromJSON(response);
-    const parsedResponse = JSON.parse(cleanedResponse) as MatchAnalysisResponse;
-
-    // ✅ CRITICAL FIX: Preserve precision, only clamp to valid range
-    if (parsedResponse.matchPercentage) {
-      parsedResponse.matchPercentage = Math.max(0, Math.min(100, parsedResponse.matchPercentage));
-    }
-
-    // ✅ CRITICAL FIX: Preserve skill score precision
-    if (parsedResponse.matchedSkills) {
-      parsedResponse.matchedSkills = parsedResponse.matchedSkills.map(
-        (skill) => ({
-          ...skill,
-          matchPercentage: Math.max(0, Math.min(100, skill.matchPercentage || 0)),
-        }),
-      );
-    }
-
-    // Add confidence level if not present
-    if (!parsedResponse.confidenceLevel && resumeText && jobText) {
-      const confidence = calculateConfidenceLevel(
-        resumeText.length,
-        jobText.length,
-        parsedResponse.matchedSkills?.length || 0,
-      );
-      parsedResponse.confidenceLevel = confidence;
-    }
-
-    // Cache the result
-    if (resumeText && jobText) {
-      const seed = crypto
-        .createHash("sha256")
-        .update(`${resumeText}${jobText}`)
-        .digest("hex")
-        .substring(0, 16);
-      deterministicCache.set(cacheKey, parsedResponse, seed);
-    } else {
-      setCachedResponse(cacheKey, parsedResponse);
-    }
-
-    logger.info(
-      "Match analysis completed successfully with Groq (consistent scoring)",
-      {
-        matchPercentage: parsedResponse.matchPercentage,
-        confidenceLevel: parsedResponse.confidenceLevel,
-        matchedSkillsCount: parsedResponse.matchedSkills?.length || 0,
-      },
-    );
-    return parsedResponse;
-  } catch (error) {
-    logger.error("Error analyzing match with Groq", error);
-
-    // Re-throw the error instead of returning fallback response
-    // The tiered provider will handle appropriate error messaging
-    throw error;
-  }
-}
-
-// Generate comprehensive interview script using Groq
-export async function generateInterviewScript(
-  resumeAnalysis: AnalyzeResumeResponse,
-  jobAnalysis: AnalyzeJobDescriptionResponse,
-  matchAnalysis: MatchAnalysisResponse,
-  jobTitle: string,
-  candidateName?: string,
-): Promise<InterviewScriptResponse> {
-  const cacheKey = calculateHash(
-    `groq_script_${JSON.stringify({ resumeAnalysis, jobAnalysis, matchAnalysis, jobTitle, candidateName })}`,
-  );
-  const cached = getCachedResponse<InterviewScriptResponse>(cacheKey);
-  if (cached) return cached;
-
-  const prompt = `Generate a comprehensive interview script for a ${jobTitle} position. Create a structured conversation flow from opening to closing. Return a JSON object with the following structure:
-
-{
-  "jobTitle": "${jobTitle}",
-  "candidateName": "${candidateName || "the candidate"}",
-  "interviewDuration": "45-60 minutes",
-  
-  "opening": {
-    "salutation": "Good morning/afternoon [candidate name]. Thank you for taking the time to speak with us today.",
-    "iceBreaker": "How has your day been going so far?",
-    "interviewOverview": "Today we'll discuss your background, explore how your skills align with our needs, and share more about this exciting opportunity."
-  },
-  
-  "currentRoleDiscussion": {
-    "roleAcknowledgment": "I see you're currently working as [current role] at [company]. That sounds like interesting work.",
-    "currentWorkQuestions": [
-      {
-        "question": "Can you tell me about your current responsibilities?",
-        "purpose": "Understand current role scope",
-        "expectedAnswer": "Should cover key daily tasks and achievements"
-      }
-    ]
-  },
-  
-  "skillMatchDiscussion": {
-    "introduction": "Looking at your background, I can see some great alignment with what we're looking for.",
-    "matchedSkillsQuestions": [
-      {
-        "skill": "JavaScript",
-        "question": "I noticed you have JavaScript experience. Can you walk me through a recent project?",
-        "expectedAnswer": "Specific project details with technical depth"
-      }
-    ]
-  },
-  
-  "skillGapAssessment": {
-    "introduction": "Now I'd like to explore some areas where there might be learning opportunities.",
-    "gapQuestions": [
-      {
-        "missingSkill": "React",
-        "question": "How comfortable would you be learning React on the job?",
-        "expectedAnswer": "Shows learning attitude and adaptability",
-        "assessmentCriteria": "Look for growth mindset and examples of learning new technologies"
-      }
-    ]
-  },
-  
-  "roleSell": {
-    "transitionStatement": "Now let me tell you why this role is exciting.",
-    "roleHighlights": ["Growth opportunities", "Cutting-edge technology"],
-    "opportunityDescription": "You'd be joining a dynamic team working on innovative projects.",
-    "closingQuestions": [
-      {
-        "question": "What aspects of this role excite you most?",
-        "purpose": "Gauge genuine interest"
-      }
-    ]
-  },
-  
-  "closing": {
-    "nextSteps": "We'll review your background with the team and get back to you within 2-3 business days.",
-    "candidateQuestions": "Do you have any questions about the role or our company?",
-    "finalStatement": "Thank you for your time today. We'll be in touch soon."
-  }
-}
-
-Based on the following analysis data:
-
-Resume Analysis:
-${JSON.stringify(resumeAnalysis, null, 2)}
-
-Job Analysis:
-${JSON.stringify(jobAnalysis, null, 2)}
-
-Match Analysis:
-${JSON.stringify(matchAnalysis, null, 2)}
-
-Create a personalized script that:
-1. Acknowledges the candidate's current role and experience
-2. Focuses on matched skills with specific examples
-3. Addresses skill gaps constructively
-4. Sells the role based on job highlights
-5. Maintains a professional, conversational tone throughout
-
-Generate 2-3 questions per section. Respond with only the JSON object, no additional text.`;
-
-  try {
-    const response = await callGroqAPI(prompt, MODELS.PREMIUM, 0.1); // Slightly higher temperature for more natural conversation
-    const cleanedResponse = stripMarkdownFromJSON(response);
-    const parsedResponse = JSON.parse(
-      cleanedResponse,
-    ) as InterviewScriptResponse;
-
-    setCachedResponse(cacheKey, parsedResponse);
-    logger.info("Interview script generated successfully with Groq");
-    return parsedResponse;
-  } catch (error) {
-    logger.error("Error generating interview script with Groq", error);
-
-    // Re-throw the error instead of returning fallback response
-    // The tiered provider will handle appropriate error messaging
-    throw error;
-  }
-}
-
-// Generate interview questions using Groq
-export async function generateInterviewQuestions(
-  resumeAnalysis: AnalyzeResumeResponse,
-  jobAnalysis: AnalyzeJobDescriptionResponse,
-  matchAnalysis: MatchAnalysisResponse,
-): Promise<InterviewQuestionsResponse> {
-  const cacheKey = calculateHash(
-    `groq_interview_${JSON.stringify({ resumeAnalysis, jobAnalysis, matchAnalysis })}`,
-  );
-  const cached = getCachedResponse<InterviewQuestionsResponse>(cacheKey);
-  if (cached) return cached;
-
-  const prompt = `Generate interview questions based on this candidate profile and job requirements. Return a JSON object with the following structure:
-
-{
-  "questions": [
-    {
-      "question": "Tell me about your experience with JavaScript",
-      "category": "technical",
-      "difficulty": "medium",
-      "purpose": "Assess JavaScript proficiency"
-    }
-  ],
-  "focusAreas": ["technical skills", "experience gaps"],
-  "recommendations": ["Focus on backend experience"]
-}
-
-Resume Analysis:
-${JSON.stringify(resumeAnalysis, null, 2)}
-
-Job Analysis:
-${JSON.stringify(jobAnalysis, null, 2)}
-
-Match Analysis:
-${JSON.stringify(matchAnalysis, null, 2)}
-
-Generate 8-12 relevant questions. Respond with only the JSON object, no additional text.`;
-
-  try {
-    const response = await callGroqAPI(prompt, MODELS.ANALYSIS);
-    const cleanedResponse = stripMarkdownFromJSON(response);
-    const parsedResponse = JSON.parse(
-      cleanedResponse,
-    ) as InterviewQuestionsResponse;
-
-    setCachedResponse(cacheKey, parsedResponse);
-    logger.info("Interview questions generated successfully with Groq");
-    return parsedResponse;
-  } catch (error) {
-    logger.error("Error generating interview questions with Groq", error);
-
-    // Re-throw the error instead of returning fallback response
-    // The tiered provider will handle appropriate error messaging
-    throw error;
-  }
-}
-
-// Analyze bias in job description using Groq
-export async function analyzeBias(
-  title: string,
-  description: string,
-): Promise<BiasAnalysisResponse> {
-  const cacheKey = calculateHash(`groq_bias_${title}_${description}`);
-  const cached = getCachedResponse<BiasAnalysisResponse>(cacheKey);
-  if (cached) return cached;
-
-  const prompt = `Analyze this job description for potential bias and discriminatory language. Return a JSON object with the following structure:
-
-{
-  "overallScore": 85,
-  "biasIndicators": [
-    {
-      "type": "age",
-      "severity": "low",
-      "text": "young and energetic",
-      "suggestion": "Use 'enthusiastic and motivated' instead"
-    }
-  ],
-  "recommendations": ["Remove age references", "Use neutral language"],
-  "summary": "Brief summary of bias analysis",
-  "improvedDescription": "Rewritten job description with all bias removed and inclusive language"
-}
-
-Job Title: ${title}
-Job Description:
-${description}
-
-Look for bias related to: age, gender, race, religion, disability, nationality, sexual orientation, and other protected characteristics.
-
-IMPORTANT: If you find any bias, provide an "improvedDescription" field with a rewritten version of the job description that removes all biased language and uses inclusive, neutral terms. If no bias is found, set "improvedDescription" to the original description.
-
-Respond with only the JSON object, no additional text.`;
-
-  try {
-    const response = await callGroqAPI(prompt, MODELS.PREMIUM);
-    const cleanedResponse = stripMarkdownFromJSON(response);
-    const groqResponse = JSON.parse(cleanedResponse);
-
-    // Transform Groq response format to BiasAnalysisResponse format
-    const transformedResponse: BiasAnalysisResponse = {
-      hasBias:
-        groqResponse.biasIndicators && groqResponse.biasIndicators.length > 0,
-      biasTypes: groqResponse.biasIndicators
-        ? groqResponse.biasIndicators.map((indicator: { type: string }) => indicator.type)
-        : [],
-      biasedPhrases: groqResponse.biasIndicators
-        ? groqResponse.biasIndicators.map((indicator: { type: string; text: string; suggestion?: string }) => ({
-            phrase: indicator.text,
-            reason: indicator.suggestion || `${indicator.type} bias detected`,
-          }))
-        : [],
-      suggestions: groqResponse.recommendations || [],
-      improvedDescription: groqResponse.improvedDescription || description,
-      overallScore: groqResponse.overallScore,
-      summary: groqResponse.summary,
-    };
+const operations = createProviderOperations(
+  createChatCompletionsAdapter({
+    name: "groq",
+    format: "groq",
+    client: groq,
+    model: modelForOperation,
+    notConfiguredMessage: "Groq API key is not configured",
+    onSuccess: (model, usage) => {
+      if (usage) updateUsage(model, usage.promptTokens, usage.completionTokens);
+    },
+  }),
+);
 
-    setCachedResponse(cacheKey, transformedResponse);
-    logger.info("Bias analysis completed successfully with Groq", {
-      hasBias: transformedResponse.hasBias,
-      biasTypes: transformedResponse.biasTypes.length,
-      overallScore: transformedResponse.overallScore,
-    });
-    return transformedResponse;
-  } catch (error) {
-    logger.error("Error analyzing bias with Groq", error);
-
-    // Re-throw the error instead of returning fallback response
-    // The tiered provider will handle appropriate error messaging
-    throw error;
-  }
-}
+// Single-call analysis (analyzeResumeParallel is the token-optimized path)
+export const analyzeResume = operations.analyzeResume;
+export const analyzeJobDescription = operations.analyzeJobDescription;
+export const analyzeMatch = operations.analyzeMatch;
+export const analyzeBias = operations.analyzeBias;
+export const generateInterviewQuestions = operations.generateInterviewQuestions;
+export const generateInterviewScript = operations.generateInterviewScript;
 
 // Extract skills using Groq
 // Extract experience information from resume text with fallback parsing
@@ -2115,6 +1639,15 @@ async function analyzeGeneric(prompt: string): Promise<string> {
           ((completion.usage.prompt_tokens || 0) / 1000000) * pricing.input +
           ((completion.usage.completion_tokens || 0) / 1000000) * pricing.output;
       }
+      recordLlmUsage({
+        provider: "groq",
+        model: MODELS.FAST,
+        operation: "generic",
+        usage: {
+          promptTokens: completion.usage.prompt_tokens || 0,
+          completionTokens: completion.usage.completion_tokens || 0,
+        },
+      });
     }
 
     // Cache the response
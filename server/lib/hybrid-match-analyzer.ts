@@ -1,6 +1,6 @@
 import { logger } from "./logger";
 import { emitAnalysisMetrics } from "./metrics";
-import { createAnalysisAudit, persistAuditTrail } from "./audit-trail";
+import { createAnalysisAudit, persistAuditTrail, type AuditSubject } from "./audit-trail";
 import { getProviderVersion } from "./provider-calibration";
 import {
   AnalyzeResumeResponse,
@@ -8,6 +8,7 @@ import {
   MatchAnalysisResponse as _MatchAnalysisResponse,
   SkillMatch,
   FairnessMetrics,
+  JobScoringConfig,
 } from "@shared/schema";
 
 import {
@@ -23,11 +24,21 @@ import {
   applyBiasAdjustment,
   getMatchQualityLevel,
   getConfidenceLevel,
+  resolveScoringWeights,
+  type UnifiedScoringWeights,
 } from "./unified-scoring-config";
+import {
+  applyMonotonicityGates,
+  extractRequirementGates,
+  MUST_HAVE_SCORE_CAP,
+  type GateCandidateProfile,
+  type RequirementGates,
+} from "./monotonicity-gates";
 import { UserTierInfo } from "@shared/user-tiers";
 import * as groq from "./groq";
 import * as openai from "./openai";
 import * as anthropic from "./anthropic";
+import * as localLLM from "./local-llm";
 import { config } from "../config/unified-config";
 import { 
   detectMatchingBias, 
@@ -103,6 +114,21 @@ import {
 // Use unified scoring weights for consistency (Task 1 & 2: Re-enable semantic scoring)
 export const HYBRID_SCORING_WEIGHTS: ScoringWeights = UNIFIED_SCORING_WEIGHTS;
 
+// Per-job scoring resolved once per analysis from the job owner's config
+interface JobScoringContext {
+  weights: UnifiedScoringWeights;
+  minimumYearsExperience?: number;
+  // Null when the job has no owner-configured requirements to enforce
+  requirements: RequirementGates | null;
+  candidate: GateCandidateProfile;
+}
+
+interface RequirementGateOutcome {
+  violations: string[];
+  missingMustHaves: string[];
+  scoreCap?: number;
+}
+
 interface HybridMatchResult {
   matchPercentage: number | null; // ✅ CRITICAL: Allow null for abstain state
   matchedSkills: SkillMatch[];
@@ -133,6 +159,14 @@ interface HybridMatchResult {
   status?: 'SUCCESS' | 'LOW_CONFIDENCE' | 'INSUFFICIENT_EVIDENCE';
   abstainReason?: string;
   providerMetadata?: Record<string, any>;
+  // Owner-configured requirement gates that lowered or capped the score
+  requirementGates?: RequirementGateOutcome;
+  // Component scores before gates and blending, so stored analyses can be
+  // replayed under a different scoring config (see lib/rescoring)
+  scoreInputs?: {
+    ml: number | null;
+    llm: number | null;
+  };
   // Task 8: Add match quality level based on unified thresholds
   matchQuality?: 'excellent' | 'strong' | 'moderate' | 'weak' | 'poor';
   // Task 6: Add validation metadata for comprehensive error handling
@@ -145,7 +179,7 @@ interface HybridMatchResult {
   };
 }
 
-interface LLMAnalysisResult {
+export interface LLMAnalysisResult {
   matchPercentage: number;
   matchedSkills: string[];
   missingSkills: string[];
@@ -153,6 +187,25 @@ interface LLMAnalysisResult {
   candidateWeaknesses: string[];
   recommendations: string[];
   reasoning: string;
+  /** Calibration key of the provider that produced the score (default groq) */
+  provider?: string;
+}
+
+/**
+ * Replacement for the local/Groq/OpenAI/Anthropic chain, e.g. a deterministic
+ * scorer for offline evaluation
+ */
+export type LLMMatchProvider = (
+  _resumeAnalysis: AnalyzeResumeResponse,
+  _jobAnalysis: AnalyzeJobDescriptionResponse,
+  _resumeText?: string,
+  _jobText?: string,
+) => Promise<LLMAnalysisResult>;
+
+export interface HybridMatchAnalyzerOptions {
+  llmProvider?: LLMMatchProvider;
+  /** Record the analysis in the audit store (default true) */
+  persistAudit?: boolean;
 }
 
 /**
@@ -163,14 +216,20 @@ interface LLMAnalysisResult {
 export class HybridMatchAnalyzer {
   private isGroqConfigured: boolean;
   private isAnthropicConfigured: boolean;
+  private options: HybridMatchAnalyzerOptions;
 
-  constructor() {
+  constructor(options: HybridMatchAnalyzerOptions = {}) {
+    this.options = options;
     this.isGroqConfigured = !!process.env.GROQ_API_KEY;
     this.isAnthropicConfigured = !!config.ai.providers.anthropic.apiKey;
   }
 
   /**
    * Main hybrid analysis method
+   *
+   * @param scoringConfig - Job owner's dimension weights and must-have
+   *   requirements; defaults apply when omitted
+   * @param auditSubject - User, job and resume the audit record is filed under
    */
   async analyzeMatch(
     resumeAnalysis: AnalyzeResumeResponse,
@@ -178,8 +237,11 @@ export class HybridMatchAnalyzer {
     userTier: UserTierInfo,
     resumeText?: string,
     jobText?: string,
+    scoringConfig?: JobScoringConfig | null,
+    auditSubject?: AuditSubject,
   ): Promise<HybridMatchResult> {
     const startTime = Date.now();
+    const scoring = this.createScoringContext(resumeAnalysis, jobAnalysis, resumeText, scoringConfig);
     
     try {
       // Determine analysis strategy based on available data
@@ -194,7 +256,9 @@ export class HybridMatchAnalyzer {
         jobSkills: jobAnalysis.requiredSkills?.length || jobAnalysis.analyzedData?.requiredSkills?.length || jobAnalysis.skills?.length || 0,
         resumeTextLength: resumeText?.length || 0,
         jobTextLength: jobText?.length || 0,
+        customScoring: !!scoringConfig,
         aiProvidersAvailable: {
+          local: localLLM.isLocalLLMConfigured,
           groq: this.isGroqConfigured,
           anthropic: this.isAnthropicConfigured,
           anyAvailable: this.isAIProviderAvailable()
@@ -212,6 +276,7 @@ export class HybridMatchAnalyzer {
             userTier,
             resumeText!,
             jobText!,
+            scoring,
           );
           break;
         case "ml_only":
@@ -219,6 +284,7 @@ export class HybridMatchAnalyzer {
           result = await this.performMLOnlyAnalysis(
             resumeAnalysis,
             jobAnalysis,
+            scoring,
             resumeText,
             jobText,
           );
@@ -229,6 +295,7 @@ export class HybridMatchAnalyzer {
             resumeAnalysis,
             jobAnalysis,
             userTier,
+            scoring,
             resumeText,
             jobText,
           );
@@ -238,6 +305,8 @@ export class HybridMatchAnalyzer {
           throw new Error(`Unknown analysis strategy: ${strategy}`);
       }
 
+      this.explainRequirementGates(result, scoring);
+
       // Task 3: Implement confidence-based quality gates and validation
       result = await this.validateAndEnhanceResult(result, resumeAnalysis, jobAnalysis, resumeText, jobText);
 
@@ -451,7 +520,7 @@ export class HybridMatchAnalyzer {
       });
 
       // Generate and persist audit trail
-      if (resumeText && jobText) {
+      if (resumeText && jobText && this.options.persistAudit !== false) {
         // ✅ CRITICAL: Get locked provider versions for audit trail
         const primaryProvider = result.analysisMethod === 'hybrid' ? 'groq' : result.analysisMethod.replace('_only', '');
         const providerVersion = getProviderVersion(primaryProvider);
@@ -467,12 +536,7 @@ export class HybridMatchAnalyzer {
           confidence: result.confidence,
           mlWeight: result.actualWeights?.ml || 0.3, // Use actual normalized weights
           llmWeight: result.actualWeights?.llm || 0.7,
-          dimensionWeights: {
-            skills: 0.55,
-            experience: 0.30,
-            education: 0.10,
-            semantic: 0.05,
-          },
+          dimensionWeights: scoring.weights,
           // ✅ CRITICAL: Use locked provider/prompt versions
           provider: providerVersion?.provider || result.analysisMethod,
           model: providerVersion?.model || 'hybrid-ensemble',
@@ -481,6 +545,7 @@ export class HybridMatchAnalyzer {
           isAbstain: result.matchPercentage === null,
           contaminatedSkills: [], // TODO: Extract from contamination detection
           timingMs: processingTime,
+          subject: auditSubject,
         });
         
         // Persist audit trail asynchronously (don't block return)
@@ -545,10 +610,11 @@ export class HybridMatchAnalyzer {
     userTier: UserTierInfo,
     resumeText: string,
     jobText: string,
+    scoring: JobScoringContext,
   ): Promise<HybridMatchResult> {
     // Run ML and LLM analysis in parallel for efficiency
     const [mlResult, llmResult] = await Promise.all([
-      this.runMLAnalysis(resumeAnalysis, jobAnalysis, resumeText, jobText),
+      this.runMLAnalysis(resumeAnalysis, jobAnalysis, resumeText, jobText, scoring),
       this.runLLMAnalysis(resumeAnalysis, jobAnalysis, userTier, resumeText, jobText),
     ]);
 
@@ -593,7 +659,7 @@ export class HybridMatchAnalyzer {
     );
 
     // ✅ CRITICAL: Blend results with bias adjustment applied to LLM score before blending
-    const blendedResult = this.blendResults(mlResult, llmResult, biasResult);
+    const blendedResult = this.blendResults(mlResult, llmResult, scoring, biasResult);
 
     return {
       ...blendedResult,
@@ -620,6 +686,7 @@ export class HybridMatchAnalyzer {
   private async performMLOnlyAnalysis(
     resumeAnalysis: AnalyzeResumeResponse,
     jobAnalysis: AnalyzeJobDescriptionResponse,
+    scoring: JobScoringContext,
     resumeText?: string,
     jobText?: string,
   ): Promise<HybridMatchResult> {
@@ -635,6 +702,7 @@ export class HybridMatchAnalyzer {
       jobAnalysis,
       resumeText || "",
       jobText || "",
+      scoring,
     );
 
     logger.info("✅ ML-only analysis completed", {
@@ -644,8 +712,10 @@ export class HybridMatchAnalyzer {
       skillsTotal: mlResult.skillBreakdown?.length || 0
     });
 
+    const gated = this.applyRequirementGates(mlResult.totalScore, mlResult.totalScore, scoring);
+
     return {
-      matchPercentage: mlResult.totalScore,
+      matchPercentage: gated.mlScore,
       matchedSkills: mlResult.skillBreakdown
         .filter((s) => s.matched)
         .map((s) => ({
@@ -667,10 +737,12 @@ export class HybridMatchAnalyzer {
         experience: mlResult.dimensionScores.experience,
         education: mlResult.dimensionScores.education,
         semantic: mlResult.dimensionScores.semantic,
-        overall: mlResult.totalScore,
+        overall: gated.mlScore,
       },
       analysisMethod: "ml_only",
       confidence: mlResult.confidence,
+      requirementGates: gated.outcome,
+      scoreInputs: { ml: mlResult.totalScore, llm: null },
     };
   }
 
@@ -681,6 +753,7 @@ export class HybridMatchAnalyzer {
     resumeAnalysis: AnalyzeResumeResponse,
     jobAnalysis: AnalyzeJobDescriptionResponse,
     userTier: UserTierInfo,
+    scoring: JobScoringContext,
     resumeText?: string,
     jobText?: string,
   ): Promise<HybridMatchResult> {
@@ -691,9 +764,10 @@ export class HybridMatchAnalyzer {
       resumeText,
       jobText,
     );
+    const gated = this.applyRequirementGates(llmResult.matchPercentage, llmResult.matchPercentage, scoring);
 
     return {
-      matchPercentage: llmResult.matchPercentage,
+      matchPercentage: gated.llmScore,
       matchedSkills: llmResult.matchedSkills.map((skill) => ({
         skill,
         matchPercentage: 85, // Default confidence for LLM matches
@@ -712,10 +786,12 @@ export class HybridMatchAnalyzer {
         experience: Math.round(llmResult.matchPercentage * 0.30), // Experience contribution  
         education: Math.round(llmResult.matchPercentage * 0.10), // Education contribution
         semantic: Math.round(llmResult.matchPercentage * 0.05), // Semantic contribution
-        overall: llmResult.matchPercentage,
+        overall: gated.llmScore,
       },
       analysisMethod: "llm_only",
       confidence: llmResult.matchPercentage / 100,
+      requirementGates: gated.outcome,
+      scoreInputs: { ml: null, llm: llmResult.matchPercentage },
     };
   }
 
@@ -727,9 +803,18 @@ export class HybridMatchAnalyzer {
     jobAnalysis: AnalyzeJobDescriptionResponse,
     resumeText: string,
     jobText: string,
+    scoring: JobScoringContext,
   ) {
     // Access skills from the proper schema structure
     const jobSkills = jobAnalysis.analyzedData?.requiredSkills || jobAnalysis.requiredSkills || jobAnalysis.skills || [];
+    const configuredSkills = [
+      ...(scoring.requirements?.mustHaveSkills || []),
+      ...(scoring.requirements?.niceToHaveSkills || []),
+    ];
+    // A stated minimum is phrased so experience scoring compares real tenure
+    const experienceRequirement = scoring.minimumYearsExperience !== undefined
+      ? `${scoring.minimumYearsExperience}+ years of experience`
+      : jobAnalysis.experience || jobAnalysis.analyzedData?.experienceLevel || "";
 
     return await calculateEnhancedMatch(
       {
@@ -741,13 +826,14 @@ export class HybridMatchAnalyzer {
           ? resumeAnalysis.education.join(", ")
           : resumeAnalysis.education || resumeAnalysis.analyzedData?.education?.join(", ") || "",
         content: resumeText,
+        structured: resumeAnalysis.analyzedData?.structured,
       },
       {
-        skills: jobSkills,
-        experience: jobAnalysis.experience || jobAnalysis.analyzedData?.experienceLevel || "",
+        skills: Array.from(new Set([...jobSkills, ...configuredSkills])),
+        experience: experienceRequirement,
         description: jobText,
       },
-      HYBRID_SCORING_WEIGHTS,
+      scoring.weights,
     );
   }
 
@@ -761,7 +847,19 @@ export class HybridMatchAnalyzer {
     resumeText?: string,
     jobText?: string,
   ): Promise<LLMAnalysisResult> {
-    // Try providers in order of preference
+    if (this.options.llmProvider) {
+      return await this.options.llmProvider(resumeAnalysis, jobAnalysis, resumeText, jobText);
+    }
+
+    // Try providers in order of preference; a self-hosted model keeps resumes in-house
+    if (localLLM.getLocalServiceStatus().isAvailable) {
+      return await this.callLocalAnalysis(resumeAnalysis, jobAnalysis, resumeText, jobText);
+    }
+
+    if (localLLM.isLocalOnly()) {
+      throw new Error("Local LLM unavailable and third-party providers are disabled (LOCAL_LLM_ONLY)");
+    }
+
     if (this.isGroqConfigured && groq.getGroqServiceStatus().isAvailable) {
       return await this.callGroqAnalysis(resumeAnalysis, jobAnalysis, resumeText, jobText);
     }
@@ -779,6 +877,29 @@ export class HybridMatchAnalyzer {
     throw new Error("No AI providers available for LLM analysis");
   }
 
+  /**
+   * Call the self-hosted OpenAI-compatible model for analysis
+   */
+  private async callLocalAnalysis(
+    resumeAnalysis: AnalyzeResumeResponse,
+    jobAnalysis: AnalyzeJobDescriptionResponse,
+    resumeText?: string,
+    jobText?: string,
+  ): Promise<LLMAnalysisResult> {
+    const response = await localLLM.analyzeMatch(resumeAnalysis, jobAnalysis, resumeText, jobText);
+
+    return {
+      matchPercentage: response.matchPercentage || 0,
+      matchedSkills: (response.matchedSkills || []).map((s) => typeof s === 'string' ? s : s.skill),
+      missingSkills: response.missingSkills || [],
+      candidateStrengths: response.candidateStrengths || [],
+      candidateWeaknesses: response.candidateWeaknesses || [],
+      recommendations: response.recommendations || [],
+      reasoning: "Self-hosted LLM analysis",
+      provider: "local",
+    };
+  }
+
   /**
    * Call Groq for analysis
    */
@@ -993,9 +1114,10 @@ export class HybridMatchAnalyzer {
   private blendResults(
     mlResult: EnhancedMatchResult, 
     llmResult: LLMAnalysisResult, 
+    scoring: JobScoringContext,
     biasResult?: BiasDetectionResult
   ): HybridMatchResult {
-    const mlScore = mlResult.totalScore;
+    let mlScore = mlResult.totalScore;
     const llmScore = llmResult.matchPercentage;
     const mlConfidence = mlResult.confidence;
     const llmConfidence = llmResult.matchPercentage / 100; // Convert to 0-1 range
@@ -1019,7 +1141,8 @@ export class HybridMatchAnalyzer {
 
     // ✅ CRITICAL: Check for provider failures before blending
     const mlFailureResult = isProviderResultFailed('ml', mlScore, mlConfidence);
-    const llmFailureResult = isProviderResultFailed('groq', biasAdjustedLLMScore, llmConfidence);
+    const llmProvider = llmResult.provider ?? 'groq';
+    const llmFailureResult = isProviderResultFailed(llmProvider, biasAdjustedLLMScore, llmConfidence);
     
     // ✅ CRITICAL: Handle both-provider failure with abstain state
     if (mlFailureResult.failed && llmFailureResult.failed) {
@@ -1054,11 +1177,19 @@ export class HybridMatchAnalyzer {
         },
         providerMetadata: {
           ml: generateProviderMetadata('ml', mlScore, mlConfidence),
-          llm: generateProviderMetadata('groq', biasAdjustedLLMScore, llmConfidence)
+          llm: generateProviderMetadata(llmProvider, biasAdjustedLLMScore, llmConfidence)
         }
       };
     }
 
+    const scoreInputs = { ml: mlScore, llm: biasAdjustedLLMScore };
+
+    // ✅ CRITICAL: Requirement gates apply to both scores BEFORE blending so the
+    // ensemble cannot average a capped score back above the cap
+    const gated = this.applyRequirementGates(mlScore, biasAdjustedLLMScore, scoring);
+    mlScore = gated.mlScore;
+    biasAdjustedLLMScore = gated.llmScore;
+
     // Research-backed weighting strategy (Spotify 2024)
     const rawWeights = this.calculateEnsembleWeights(mlScore, biasAdjustedLLMScore, mlConfidence, llmConfidence);
     
@@ -1146,13 +1277,120 @@ export class HybridMatchAnalyzer {
         llm: normalizedWeights.llm,
         wasNormalized: normalizedWeights.wasNormalized,
       },
+      requirementGates: gated.outcome,
+      scoreInputs,
     };
   }
 
+  /**
+   * Resolve the job's weights and owner-configured requirement gates along
+   * with the candidate facts the gates are checked against
+   */
+  private createScoringContext(
+    resumeAnalysis: AnalyzeResumeResponse,
+    jobAnalysis: AnalyzeJobDescriptionResponse,
+    resumeText?: string,
+    scoringConfig?: JobScoringConfig | null,
+  ): JobScoringContext {
+    const hasConfiguredGates = !!scoringConfig && (
+      (scoringConfig.skillRequirements?.length ?? 0) > 0 ||
+      scoringConfig.minimumYearsExperience !== undefined
+    );
+    const structured = resumeAnalysis.analyzedData?.structured;
+
+    return {
+      weights: resolveScoringWeights(scoringConfig?.weights),
+      minimumYearsExperience: scoringConfig?.minimumYearsExperience,
+      // Inferred required skills already count against the ML skill score,
+      // so only the owner's explicit requirements are enforced as gates
+      requirements: hasConfiguredGates
+        ? { ...extractRequirementGates(jobAnalysis, scoringConfig), requiredSkills: [] }
+        : null,
+      candidate: {
+        skills: resumeAnalysis.analyzedData?.skills || resumeAnalysis.skills || [],
+        education: resumeAnalysis.analyzedData?.education || resumeAnalysis.education || [],
+        certifications: [
+          ...(structured?.certifications || []),
+          ...(resumeAnalysis.analyzedData?.certifications || []),
+        ],
+        totalExperience: structured && structured.totalExperienceMonths > 0
+          ? structured.totalExperienceMonths / 12
+          : undefined,
+        resumeText,
+      },
+    };
+  }
+
+  /**
+   * Apply owner-configured requirement gates to the ML and LLM scores
+   */
+  private applyRequirementGates(
+    mlScore: number,
+    llmScore: number,
+    scoring: JobScoringContext,
+  ): { mlScore: number; llmScore: number; outcome?: RequirementGateOutcome } {
+    if (!scoring.requirements) {
+      return { mlScore, llmScore };
+    }
+
+    const gates = applyMonotonicityGates(mlScore, llmScore, scoring.candidate, scoring.requirements);
+    return {
+      mlScore: gates.adjustedMLScore,
+      llmScore: gates.adjustedLLMScore,
+      outcome: {
+        violations: gates.violations,
+        missingMustHaves: gates.missingMustHaves,
+        scoreCap: gates.missingMustHaves.length > 0 ? MUST_HAVE_SCORE_CAP : undefined,
+      },
+    };
+  }
+
+  /**
+   * Surface gate violations so reviewers can see why a score was held down,
+   * and stop listing the owner's nice-to-have skills as gaps
+   */
+  private explainRequirementGates(result: HybridMatchResult, scoring: JobScoringContext): void {
+    const niceToHave = new Set(
+      (scoring.requirements?.niceToHaveSkills || []).map(skill => skill.toLowerCase())
+    );
+    if (niceToHave.size > 0) {
+      result.missingSkills = result.missingSkills.filter(skill => !niceToHave.has(String(skill).toLowerCase()));
+    }
+
+    const outcome = result.requirementGates;
+    if (!outcome || outcome.violations.length === 0) {
+      return;
+    }
+
+    const missing = new Set(result.missingSkills.map(skill => String(skill).toLowerCase()));
+    result.missingSkills = [
+      ...outcome.missingMustHaves.filter(skill => !missing.has(skill.toLowerCase())),
+      ...result.missingSkills,
+    ];
+    result.candidateWeaknesses = [...outcome.violations, ...result.candidateWeaknesses];
+    if (outcome.scoreCap !== undefined) {
+      result.recommendations = [
+        `Score capped at ${outcome.scoreCap}% because must-have requirements are missing: ${outcome.missingMustHaves.join(', ')}`,
+        ...result.recommendations,
+      ];
+    }
+  }
+
   /**
    * Check if any AI provider is available
    */
   private isAIProviderAvailable(): boolean {
+    return (
+      !!this.options.llmProvider ||
+      localLLM.getLocalServiceStatus().isAvailable ||
+      (!localLLM.isLocalOnly() && this.isThirdPartyProviderAvailable())
+    );
+  }
+
+  /**
+   * Check if any third-party AI provider is available
+   */
+  private isThirdPartyProviderAvailable(): boolean {
     return (
       (this.isGroqConfigured && groq.getGroqServiceStatus().isAvailable) ||
       openai.getOpenAIServiceStatus().isAvailable ||
@@ -1464,10 +1702,14 @@ export async function analyzeMatchHybrid(
   userTier: UserTierInfo,
   resumeText?: string,
   jobText?: string,
+  scoringConfig?: JobScoringConfig | null,
+  auditSubject?: AuditSubject,
 ): Promise<MatchAnalysisResult<HybridMatchResult>> {
   try {
     const analyzer = new HybridMatchAnalyzer();
-    const result = await analyzer.analyzeMatch(resumeAnalysis, jobAnalysis, userTier, resumeText, jobText);
+    const result = await analyzer.analyzeMatch(
+      resumeAnalysis, jobAnalysis, userTier, resumeText, jobText, scoringConfig, auditSubject
+    );
     return success(result);
   } catch (error) {
     logger.error("Hybrid match analysis failed", { error });
@@ -1483,4 +1725,4 @@ export async function analyzeMatchHybrid(
     
     return failure(AppExternalServiceError.aiProviderFailure('Hybrid', 'match_analysis', error instanceof Error ? error.message : String(error)));
   }
-}
\ No newline at end of file
+}
\ No newline at end of file
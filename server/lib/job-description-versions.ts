@@ -0,0 +1,150 @@
+/**
+ * Job Description Versioning
+ *
+ * Analyses score a resume against the text of a job description, so editing
+ * the job leaves them describing a posting that no longer exists. Every edit
+ * to the title, description or requirements becomes a new version with a
+ * diff from the previous one, and analyses carry the version they ran
+ * against so outdated ones can be flagged and re-run.
+ */
+
+import type {
+  AnalysisResult,
+  JobDescription,
+  JobDescriptionDiff,
+  JobDescriptionTextChange
+} from '@shared/schema';
+
+export type JobDescriptionContent = Pick<JobDescription, 'title' | 'description' | 'requirements'>;
+
+// Past this size the line diff falls back to replacing the changed region
+// wholesale rather than allocating the LCS table
+const MAX_LCS_CELLS = 4_000_000;
+
+const splitLines = (text: string): string[] => text.split(/\r?\n/);
+
+/**
+ * Lines removed from and added to the text, in document order. Uses a
+ * longest-common-subsequence table over the region between the unchanged
+ * first and last lines.
+ */
+export function diffLines(before: string, after: string): JobDescriptionTextChange[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const oldLines = a.slice(start, endA);
+  const newLines = b.slice(start, endB);
+  const changes: JobDescriptionTextChange[] = [];
+  const remove = (i: number) => changes.push({ op: 'remove', line: start + i + 1, text: oldLines[i] });
+  const add = (j: number) => changes.push({ op: 'add', line: start + j + 1, text: newLines[j] });
+
+  const n = oldLines.length;
+  const m = newLines.length;
+  if (n * m > MAX_LCS_CELLS) {
+    oldLines.forEach((_, i) => remove(i));
+    newLines.forEach((_, j) => add(j));
+    return changes;
+  }
+
+  // lcs[i][j] is the common subsequence length of oldLines[i..] and newLines[j..]
+  const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      remove(i++);
+    } else {
+      add(j++);
+    }
+  }
+  while (i < n) remove(i++);
+  while (j < m) add(j++);
+
+  return changes;
+}
+
+export function diffJobDescriptions(before: JobDescriptionContent, after: JobDescriptionContent): JobDescriptionDiff {
+  const beforeRequirements = before.requirements ?? [];
+  const afterRequirements = after.requirements ?? [];
+
+  return {
+    title: before.title !== after.title ? { from: before.title, to: after.title } : null,
+    description: diffLines(before.description, after.description),
+    requirements: {
+      added: afterRequirements.filter(requirement => !beforeRequirements.includes(requirement)),
+      removed: beforeRequirements.filter(requirement => !afterRequirements.includes(requirement))
+    }
+  };
+}
+
+/**
+ * Whether an update changes what candidates are scored against. Reordering
+ * requirements does not.
+ */
+export function hasJobContentChanged(before: JobDescriptionContent, after: JobDescriptionContent): boolean {
+  const diff = diffJobDescriptions(before, after);
+  return diff.title !== null ||
+    diff.description.length > 0 ||
+    diff.requirements.added.length > 0 ||
+    diff.requirements.removed.length > 0;
+}
+
+/**
+ * An analysis is stale once it has been marked so, or when it ran against an
+ * older version than the job is at now (it finished after the job was edited)
+ */
+export function isAnalysisStale(
+  result: Pick<AnalysisResult, 'jobVersion' | 'staleAt'>,
+  job: Pick<JobDescription, 'version'>
+): boolean {
+  return result.staleAt !== null || (result.jobVersion ?? 1) < job.version;
+}
+
+/**
+ * The newest analysis of each resume. Storage may return every analysis of a
+ * job, including the ones a re-analysis replaced.
+ */
+export function latestAnalysisPerResume<T extends Pick<AnalysisResult, 'id' | 'resumeId' | 'createdAt'>>(
+  results: T[]
+): T[] {
+  const latest = new Map<number, T>();
+  for (const result of results) {
+    if (result.resumeId === null) continue;
+    const current = latest.get(result.resumeId);
+    const newer = !current ||
+      (result.createdAt?.getTime() ?? 0) > (current.createdAt?.getTime() ?? 0) ||
+      (result.createdAt?.getTime() === current.createdAt?.getTime() && result.id > current.id);
+    if (newer) latest.set(result.resumeId, result);
+  }
+  return Array.from(latest.values());
+}
+
+/**
+ * Resumes whose newest analysis of the job is stale, so re-running them
+ * brings every candidate up to the current version
+ */
+export function findStaleResumeIds(results: AnalysisResult[], job: Pick<JobDescription, 'version'>): number[] {
+  return latestAnalysisPerResume(results)
+    .filter(result => isAnalysisStale(result, job))
+    .map(result => result.resumeId as number);
+}
@@ -0,0 +1,453 @@
+/**
+ * LLM Cost Accounting and Budgets
+ *
+ * Every provider completion is priced from its token counts and recorded
+ * against the user and job it ran for, and against the organization the job is
+ * shared with. Services enter a usage context around their AI calls
+ * (withLlmUsageContext), so provider modules don't need user or job parameters
+ * threaded through every analysis signature.
+ *
+ * Configuration:
+ *   LLM_PRICE_TABLE          JSON overrides, USD per 1M tokens, keyed by model
+ *                            or provider name: {"gpt-4o":{"input":2.5,"output":10}}
+ *   LLM_MONTHLY_BUDGET_USD   default monthly limit for users without their own
+ *
+ * Organizations have no budget until one is set; it caps the combined spend of
+ * all members' work on the organization's jobs.
+ *
+ * Monthly spend is cached per user and organization in-process so provider
+ * selection can check the budgets synchronously. The cache is loaded when a
+ * context is entered and bumped on each recorded completion; work over either
+ * budget is routed to the cheapest available provider (see provider-chooser.ts).
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { logger } from "./logger";
+import type { AIProviderName, CompletionUsage } from "./providers/provider-adapter";
+import type { LlmCostSummary, LlmCostTotals, LlmUsageRecord } from "@shared/schema";
+
+export interface TokenPrice {
+  /** USD per 1M prompt tokens */
+  input: number;
+  /** USD per 1M completion tokens */
+  output: number;
+}
+
+// Model entries win over the provider entry, which prices unknown models
+const DEFAULT_PRICE_TABLE: Record<string, TokenPrice> = {
+  "llama-3.3-70b-versatile": { input: 0.59, output: 0.79 },
+  "llama-3.1-8b-instant": { input: 0.05, output: 0.08 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "claude-3-7-sonnet-20250219": { input: 3, output: 15 },
+  groq: { input: 0.59, output: 0.79 },
+  openai: { input: 2.5, output: 10 },
+  anthropic: { input: 3, output: 15 },
+  local: { input: 0, output: 0 },
+};
+
+function loadPriceTable(): Record<string, TokenPrice> {
+  const overrides = process.env.LLM_PRICE_TABLE;
+  if (!overrides) return DEFAULT_PRICE_TABLE;
+
+  try {
+    const parsed = JSON.parse(overrides) as Record<string, Partial<TokenPrice>>;
+    const table = { ...DEFAULT_PRICE_TABLE };
+    for (const [key, price] of Object.entries(parsed)) {
+      if (typeof price?.input === "number" && typeof price?.output === "number") {
+        table[key] = { input: price.input, output: price.output };
+      } else {
+        logger.warn("Ignoring malformed LLM_PRICE_TABLE entry", { key });
+      }
+    }
+    return table;
+  } catch (error) {
+    logger.warn("LLM_PRICE_TABLE is not valid JSON, using default prices", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return DEFAULT_PRICE_TABLE;
+  }
+}
+
+const PRICE_TABLE = loadPriceTable();
+
+const configuredBudget = Number(process.env.LLM_MONTHLY_BUDGET_USD);
+const DEFAULT_MONTHLY_BUDGET_USD =
+  Number.isFinite(configuredBudget) && configuredBudget > 0 ? configuredBudget : null;
+
+const PROVIDERS: AIProviderName[] = ["local", "groq", "openai", "anthropic"];
+
+export function getTokenPrice(provider: AIProviderName, model: string): TokenPrice {
+  return PRICE_TABLE[model] ?? PRICE_TABLE[provider] ?? { input: 0, output: 0 };
+}
+
+export function priceCompletion(provider: AIProviderName, model: string, usage: CompletionUsage): number {
+  const price = getTokenPrice(provider, model);
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Providers from cheapest to most expensive, by their default-model price
+ */
+export function providersByCost(): AIProviderName[] {
+  const blended = (provider: AIProviderName) => {
+    const price = PRICE_TABLE[provider] ?? { input: 0, output: 0 };
+    return price.input + price.output;
+  };
+  return [...PROVIDERS].sort((a, b) => blended(a) - blended(b));
+}
+
+// ==================== USAGE CONTEXT ====================
+
+export interface LlmUsageContext {
+  userId?: string;
+  /** Resolved from the job when a context sets one without an organization */
+  organizationId?: number;
+  jobId?: number;
+}
+
+const usageContext = new AsyncLocalStorage<LlmUsageContext>();
+
+export function getLlmUsageContext(): LlmUsageContext | undefined {
+  return usageContext.getStore();
+}
+
+/**
+ * Runs `fn` with completions attributed to the given user and job, and to the
+ * organization the job is shared with. Nested contexts inherit fields they
+ * don't set, so a service can add the job to a context that already carries
+ * the user.
+ */
+export async function withLlmUsageContext<T>(context: LlmUsageContext, fn: () => Promise<T>): Promise<T> {
+  const merged = { ...getLlmUsageContext(), ...context };
+  if (context.jobId !== undefined && context.organizationId === undefined) {
+    merged.organizationId = await resolveJobOrganization(context.jobId);
+  }
+  await Promise.all([
+    merged.userId ? refreshUserBudgetState(merged.userId) : undefined,
+    merged.organizationId !== undefined ? refreshOrganizationBudgetState(merged.organizationId) : undefined,
+  ]);
+  return usageContext.run(merged, fn);
+}
+
+// ==================== BUDGETS ====================
+
+interface BudgetState {
+  periodStart: number;
+  spentUsd: number;
+  limitUsd: number | null;
+  loadedAt: number;
+}
+
+const BUDGET_STATE_TTL_MS = 5 * 60 * 1000;
+// Keyed by userBudgetKey / organizationBudgetKey
+const budgetStates = new Map<string, BudgetState>();
+const jobOrganizations = new Map<number, { organizationId: number | undefined; loadedAt: number }>();
+
+const userBudgetKey = (userId: string) => `user:${userId}`;
+const organizationBudgetKey = (organizationId: number) => `organization:${organizationId}`;
+
+export function startOfMonth(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+async function loadStorage() {
+  const { getStorage } = await import("../storage");
+  return getStorage();
+}
+
+type LlmUsageStorage = Awaited<ReturnType<typeof loadStorage>>;
+
+async function resolveJobOrganization(jobId: number): Promise<number | undefined> {
+  const cached = jobOrganizations.get(jobId);
+  if (cached && Date.now() - cached.loadedAt < BUDGET_STATE_TTL_MS) {
+    return cached.organizationId;
+  }
+
+  try {
+    const job = await (await loadStorage()).getJobDescription(jobId);
+    const organizationId = job?.organizationId ?? undefined;
+    jobOrganizations.set(jobId, { organizationId, loadedAt: Date.now() });
+    return organizationId;
+  } catch (error) {
+    // Without the job the usage is still recorded against the user
+    logger.warn("Failed to resolve the organization of a job for LLM usage", {
+      jobId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return cached?.organizationId;
+  }
+}
+
+async function refreshBudgetState(
+  key: string,
+  load: (_storage: LlmUsageStorage, _periodStart: Date) => Promise<{ records: LlmUsageRecord[]; limitUsd: number | null }>,
+): Promise<void> {
+  const periodStart = startOfMonth().getTime();
+  const state = budgetStates.get(key);
+  if (state && state.periodStart === periodStart && Date.now() - state.loadedAt < BUDGET_STATE_TTL_MS) {
+    return;
+  }
+
+  try {
+    const { records, limitUsd } = await load(await loadStorage(), new Date(periodStart));
+    budgetStates.set(key, {
+      periodStart,
+      spentUsd: records.reduce((sum, record) => sum + record.costUsd, 0),
+      limitUsd,
+      loadedAt: Date.now(),
+    });
+  } catch (error) {
+    // Keep whatever state we had; accounting must never block an analysis
+    logger.warn("Failed to load LLM budget state", {
+      budget: key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+const refreshUserBudgetState = (userId: string) =>
+  refreshBudgetState(userBudgetKey(userId), async (storage, periodStart) => {
+    const [records, budget] = await Promise.all([
+      storage.getLlmUsageRecords(userId, periodStart),
+      storage.getLlmBudget(userId),
+    ]);
+    return { records, limitUsd: budget?.monthlyLimitUsd ?? DEFAULT_MONTHLY_BUDGET_USD };
+  });
+
+const refreshOrganizationBudgetState = (organizationId: number) =>
+  refreshBudgetState(organizationBudgetKey(organizationId), async (storage, periodStart) => {
+    const [records, budget] = await Promise.all([
+      storage.getOrganizationLlmUsageRecords(organizationId, periodStart),
+      storage.getOrganizationLlmBudget(organizationId),
+    ]);
+    return { records, limitUsd: budget?.monthlyLimitUsd ?? null };
+  });
+
+function isBudgetSpent(state: BudgetState | undefined): boolean {
+  if (!state || state.limitUsd === null || state.periodStart !== startOfMonth().getTime()) {
+    return false;
+  }
+  return state.spentUsd >= state.limitUsd;
+}
+
+/**
+ * Whether the user, or the organization the work is attributed to, has spent
+ * its monthly LLM budget. Reads the in-process state loaded by
+ * withLlmUsageContext, so it is cheap enough for every provider selection.
+ */
+export function isOverLlmBudget(userId: string | undefined, organizationId?: number): boolean {
+  return (
+    (userId !== undefined && isBudgetSpent(budgetStates.get(userBudgetKey(userId)))) ||
+    (organizationId !== undefined && isBudgetSpent(budgetStates.get(organizationBudgetKey(organizationId))))
+  );
+}
+
+/**
+ * Sets a user's monthly budget and applies it to the cached state immediately
+ */
+export async function setLlmBudget(userId: string, monthlyLimitUsd: number) {
+  const budget = await (await loadStorage()).setLlmBudget(userId, monthlyLimitUsd);
+  const state = budgetStates.get(userBudgetKey(userId));
+  if (state) {
+    state.limitUsd = budget.monthlyLimitUsd;
+  }
+  logger.info("LLM budget updated", { userId, monthlyLimitUsd });
+  return budget;
+}
+
+/**
+ * Sets an organization's monthly budget and applies it to the cached state
+ * immediately
+ */
+export async function setOrganizationLlmBudget(organizationId: number, monthlyLimitUsd: number) {
+  const budget = await (await loadStorage()).setOrganizationLlmBudget(organizationId, monthlyLimitUsd);
+  const state = budgetStates.get(organizationBudgetKey(organizationId));
+  if (state) {
+    state.limitUsd = budget.monthlyLimitUsd;
+  }
+  logger.info("Organization LLM budget updated", { organizationId, monthlyLimitUsd });
+  return budget;
+}
+
+// ==================== RECORDING ====================
+
+function addSpend(key: string, costUsd: number, exceededMessage: string, owner: Record<string, unknown>): void {
+  const state = budgetStates.get(key);
+  if (!state || state.periodStart !== startOfMonth().getTime()) return;
+
+  const wasOver = isBudgetSpent(state);
+  state.spentUsd += costUsd;
+  if (!wasOver && isBudgetSpent(state)) {
+    logger.warn(exceededMessage, {
+      ...owner,
+      spentUsd: Number(state.spentUsd.toFixed(4)),
+      limitUsd: state.limitUsd,
+    });
+  }
+}
+
+export interface LlmCompletionUsage {
+  provider: AIProviderName;
+  model: string;
+  operation: string;
+  usage?: CompletionUsage;
+}
+
+/**
+ * Prices a completion and records it against the current usage context.
+ * Completions outside a context (startup checks, scripts) are not recorded.
+ * The write is fire-and-forget: a failure is logged, never thrown.
+ */
+export function recordLlmUsage({ provider, model, operation, usage }: LlmCompletionUsage): void {
+  const context = getLlmUsageContext();
+  if (!context?.userId || !usage) return;
+
+  const { userId, organizationId, jobId } = context;
+  const costUsd = priceCompletion(provider, model, usage);
+
+  addSpend(userBudgetKey(userId), costUsd, "User exceeded monthly LLM budget; routing to cheaper providers", { userId });
+  if (organizationId !== undefined) {
+    addSpend(
+      organizationBudgetKey(organizationId),
+      costUsd,
+      "Organization exceeded monthly LLM budget; routing to cheaper providers",
+      { organizationId },
+    );
+  }
+
+  loadStorage()
+    .then((storage) =>
+      storage.recordLlmUsage({
+        userId,
+        organizationId: organizationId ?? null,
+        jobId: jobId ?? null,
+        provider,
+        model,
+        operation,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        costUsd,
+      }),
+    )
+    .catch((error) => {
+      logger.warn("Failed to record LLM usage", {
+        userId,
+        provider,
+        operation,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+}
+
+// ==================== REPORTING ====================
+
+function emptyTotals(): LlmCostTotals {
+  return { costUsd: 0, promptTokens: 0, completionTokens: 0, calls: 0 };
+}
+
+function addRecord(totals: LlmCostTotals, record: LlmUsageRecord): void {
+  totals.costUsd += record.costUsd;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.calls += 1;
+}
+
+function roundCost<T extends LlmCostTotals>(totals: T): T {
+  return { ...totals, costUsd: Number(totals.costUsd.toFixed(6)) };
+}
+
+function bucket<K>(map: Map<K, LlmCostTotals>, key: K): LlmCostTotals {
+  let totals = map.get(key);
+  if (!totals) {
+    totals = emptyTotals();
+    map.set(key, totals);
+  }
+  return totals;
+}
+
+/**
+ * Aggregates usage records into totals per provider, job and day
+ */
+export function summarizeLlmUsage(
+  records: LlmUsageRecord[],
+  periodStart: Date,
+  budgetUsd: number | null,
+): LlmCostSummary {
+  const total = emptyTotals();
+  const byProvider = new Map<string, LlmCostTotals>();
+  const byJob = new Map<number, LlmCostTotals>();
+  const byDay = new Map<string, LlmCostTotals>();
+
+  for (const record of records) {
+    addRecord(total, record);
+    addRecord(bucket(byProvider, record.provider), record);
+    if (record.jobId !== null) {
+      addRecord(bucket(byJob, record.jobId), record);
+    }
+    const day = (record.createdAt ?? periodStart).toISOString().split("T")[0];
+    addRecord(bucket(byDay, day), record);
+  }
+
+  return {
+    ...roundCost(total),
+    periodStart,
+    budgetUsd,
+    budgetExceeded: budgetUsd !== null && total.costUsd >= budgetUsd,
+    byProvider: Array.from(byProvider, ([provider, totals]) => roundCost({ provider, ...totals }))
+      .sort((a, b) => b.costUsd - a.costUsd),
+    byJob: Array.from(byJob, ([jobId, totals]) => roundCost({ jobId, ...totals }))
+      .sort((a, b) => b.costUsd - a.costUsd),
+    byDay: Array.from(byDay, ([date, totals]) => roundCost({ date, ...totals }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+/**
+ * Month-to-date LLM spend for a user, with their budget
+ */
+export async function getLlmCostSummary(userId: string): Promise<LlmCostSummary> {
+  const periodStart = startOfMonth();
+  const storage = await loadStorage();
+  const [records, budget] = await Promise.all([
+    storage.getLlmUsageRecords(userId, periodStart),
+    storage.getLlmBudget(userId),
+  ]);
+  return summarizeLlmUsage(records, periodStart, budget?.monthlyLimitUsd ?? DEFAULT_MONTHLY_BUDGET_USD);
+}
+
+/**
+ * Aggregates an organization's usage records like summarizeLlmUsage, adding
+ * totals per member
+ */
+export function summarizeOrganizationLlmUsage(
+  records: LlmUsageRecord[],
+  periodStart: Date,
+  budgetUsd: number | null,
+): LlmCostSummary {
+  const byUser = new Map<string, LlmCostTotals>();
+  for (const record of records) {
+    if (record.userId !== null) {
+      addRecord(bucket(byUser, record.userId), record);
+    }
+  }
+
+  return {
+    ...summarizeLlmUsage(records, periodStart, budgetUsd),
+    byUser: Array.from(byUser, ([userId, totals]) => roundCost({ userId, ...totals }))
+      .sort((a, b) => b.costUsd - a.costUsd),
+  };
+}
+
+/**
+ * Month-to-date LLM spend on an organization's jobs across its members, with
+ * its budget
+ */
+export async function getOrganizationLlmCostSummary(organizationId: number): Promise<LlmCostSummary> {
+  const periodStart = startOfMonth();
+  const storage = await loadStorage();
+  const [records, budget] = await Promise.all([
+    storage.getOrganizationLlmUsageRecords(organizationId, periodStart),
+    storage.getOrganizationLlmBudget(organizationId),
+  ]);
+  return summarizeOrganizationLlmUsage(records, periodStart, budget?.monthlyLimitUsd ?? null);
+}
@@ -0,0 +1,126 @@
+/**
+ * Local / Self-Hosted LLM Provider
+ *
+ * Talks to any server exposing the OpenAI chat completions API (vLLM, Ollama,
+ * llama.cpp, LM Studio, TGI, ...) at LOCAL_LLM_BASE_URL, so resumes and job
+ * descriptions never leave infrastructure the customer controls.
+ *
+ * Configuration:
+ *   LOCAL_LLM_BASE_URL   e.g. http://llm.internal:8000/v1 (enables the provider)
+ *   LOCAL_LLM_MODEL      model name as the server knows it
+ *   LOCAL_LLM_API_KEY    only if the server checks one
+ *   LOCAL_LLM_TIMEOUT_MS request timeout (local models are slower)
+ *   LOCAL_LLM_JSON_MODE  set to "false" if the server rejects response_format
+ *   LOCAL_LLM_ONLY       set to "true" to never route to a third-party API
+ *
+ * Analysis comes from the shared provider operations (providers/
+ * provider-adapter.ts); this module only configures the chat completions
+ * adapter. Every call goes through the provider's own circuit breaker
+ * (breakers.local).
+ */
+
+import OpenAI from "openai";
+import { logger } from "./logger";
+import { breakers, callLocal } from "./providers/tieredAI";
+import { createChatCompletionsAdapter } from "./providers/chat-completions-adapter";
+import { createProviderOperations } from "./providers/provider-adapter";
+
+const BASE_URL = process.env.LOCAL_LLM_BASE_URL || null;
+const MODEL = process.env.LOCAL_LLM_MODEL || "llama3.1:8b";
+const TIMEOUT_MS = Number(process.env.LOCAL_LLM_TIMEOUT_MS ?? 120_000);
+const JSON_MODE = process.env.LOCAL_LLM_JSON_MODE !== "false";
+const LOCAL_ONLY = process.env.LOCAL_LLM_ONLY === "true";
+
+export const isLocalLLMConfigured = !!BASE_URL;
+
+if (LOCAL_ONLY && !BASE_URL) {
+  logger.warn("LOCAL_LLM_ONLY is set but LOCAL_LLM_BASE_URL is not; AI analysis will be unavailable");
+}
+
+interface LocalUsage {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+const apiUsage: LocalUsage = {
+  requests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+};
+
+/**
+ * Whether third-party AI providers are disabled for data-residency reasons
+ */
+export function isLocalOnly(): boolean {
+  return LOCAL_ONLY;
+}
+
+// Host only, so credentials embedded in the URL are never logged or exposed
+function describeEndpoint(): string | null {
+  if (!BASE_URL) return null;
+  try {
+    return new URL(BASE_URL).host;
+  } catch {
+    return "invalid-url";
+  }
+}
+
+const adapter = createChatCompletionsAdapter({
+  name: "local",
+  format: "local",
+  // Self-hosted servers usually ignore the key, but the SDK requires one
+  client: BASE_URL ? new OpenAI({
+    baseURL: BASE_URL,
+    apiKey: process.env.LOCAL_LLM_API_KEY || "not-required",
+    timeout: TIMEOUT_MS,
+    maxRetries: 0, // Retries are handled by the tiered provider
+  }) : null,
+  model: MODEL,
+  jsonMode: JSON_MODE,
+  notConfiguredMessage: "Local LLM is not configured - LOCAL_LLM_BASE_URL is required",
+  execute: callLocal,
+  onSuccess: (_model, usage) => {
+    apiUsage.requests++;
+    if (usage) {
+      apiUsage.promptTokens += usage.promptTokens;
+      apiUsage.completionTokens += usage.completionTokens;
+      apiUsage.totalTokens += usage.promptTokens + usage.completionTokens;
+    }
+  },
+});
+
+const operations = createProviderOperations(adapter);
+
+export const analyzeResume = operations.analyzeResume;
+export const analyzeJobDescription = operations.analyzeJobDescription;
+export const analyzeMatch = operations.analyzeMatch;
+export const analyzeBias = operations.analyzeBias;
+export const generateInterviewQuestions = operations.generateInterviewQuestions;
+export const generateInterviewScript = operations.generateInterviewScript;
+
+/**
+ * Current local provider status; unavailable while its breaker is open
+ */
+export function getLocalServiceStatus() {
+  const breaker = breakers.local.status();
+
+  return {
+    isAvailable: adapter.isConfigured() && breaker.state !== "open",
+    isConfigured: isLocalLLMConfigured,
+    localOnly: LOCAL_ONLY,
+    statusMessage: !adapter.isConfigured()
+      ? "Local LLM not configured"
+      : breaker.state === "open"
+        ? "Local LLM circuit breaker open"
+        : "Local LLM is ready",
+    provider: "Local",
+    endpoint: describeEndpoint(),
+    models: [MODEL],
+    breaker,
+    usage: apiUsage,
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -6,12 +6,70 @@
  */
 
 import { logger } from './logger';
+import { MATCH_QUALITY_THRESHOLDS } from './unified-scoring-config';
+import type { JobScoringConfig } from '@shared/schema';
 
 interface RequirementGates {
   requiredSkills: string[];
   minimumYearsExperience?: number;
   mustHaveEducation?: string[];
   preferredQualifications?: string[];
+  /** Owner-marked hard requirements; missing any caps the score */
+  mustHaveSkills?: string[];
+  /** Owner-marked optional skills; never penalized when missing */
+  niceToHaveSkills?: string[];
+}
+
+/** What a job's scoring context knows about the candidate */
+interface GateCandidateProfile {
+  skills: string[];
+  education: string[] | string;
+  certifications: Array<{ name: string }>;
+  totalExperience?: number;
+  resumeText?: string;
+}
+
+// A candidate missing a must-have can rank no higher than a poor match
+export const MUST_HAVE_SCORE_CAP = MATCH_QUALITY_THRESHOLDS.WEAK - 1;
+
+// Parsed profiles mix plain strings with { name } / { skill } / { degree } records
+function normalizeTerm(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.trim().toLowerCase();
+  }
+  if (typeof value !== 'object' || value === null) {
+    return '';
+  }
+  const { name, skill, degree } = value as Record<string, unknown>;
+  const label = [name, skill, degree].find((part): part is string => typeof part === 'string' && part.length > 0);
+  return label ? label.trim().toLowerCase() : '';
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Must-haves are often certifications or licenses that parsing files under
+// education or leaves only in the raw text, so look beyond the skills list.
+// Terms must match whole: "Go" is not met by "MongoDB" nor "React Native" by "React"
+function candidateMeetsRequirement(candidateProfile: GateCandidateProfile, requirement: string): boolean {
+  const requirementLower = requirement.trim().toLowerCase();
+  const candidateTerms = [
+    ...(candidateProfile.skills || []),
+    ...(candidateProfile.certifications || []),
+    ...(Array.isArray(candidateProfile.education) ? candidateProfile.education : []),
+  ]
+    .map(normalizeTerm)
+    .filter(term => term.length > 1);
+
+  if (candidateTerms.some(term => term === requirementLower)) {
+    return true;
+  }
+
+  if (typeof candidateProfile.resumeText === 'string' && candidateProfile.resumeText) {
+    return new RegExp(`(^|[^a-z0-9])${escapeRegExp(requirementLower)}($|[^a-z0-9])`, 'i')
+      .test(candidateProfile.resumeText);
+  }
+
+  return false;
 }
 
 interface MonotonicityResult {
@@ -27,7 +85,7 @@ export function applyMonotonicityGates(
   llmScore: number,
   candidateProfile: any,
   requirements: RequirementGates
-): { adjustedMLScore: number; adjustedLLMScore: number; violations: string[] } {
+): { adjustedMLScore: number; adjustedLLMScore: number; violations: string[]; missingMustHaves: string[] } {
   const violations: string[] = [];
   let mlAdjustment = 1.0;
   let llmAdjustment = 1.0;
@@ -103,9 +161,27 @@ export function applyMonotonicityGates(
     }
   }
 
+  // ✅ CRITICAL: Must-have gate - a hard ceiling, not a proportional penalty
+  const missingMustHaves = (requirements.mustHaveSkills || []).filter(
+    requirement => !candidateMeetsRequirement(candidateProfile, requirement)
+  );
+  if (missingMustHaves.length > 0) {
+    violations.push(`Missing must-have requirements: ${missingMustHaves.join(', ')}`);
+
+    logger.info('Must-have requirement gate violation', {
+      missingMustHaves,
+      scoreCap: MUST_HAVE_SCORE_CAP
+    });
+  }
+
   // Apply adjustments with floor values
-  const adjustedMLScore = Math.max(10, mlScore * mlAdjustment); // Never go below 10
-  const adjustedLLMScore = Math.max(10, llmScore * llmAdjustment);
+  let adjustedMLScore = Math.max(10, mlScore * mlAdjustment); // Never go below 10
+  let adjustedLLMScore = Math.max(10, llmScore * llmAdjustment);
+
+  if (missingMustHaves.length > 0) {
+    adjustedMLScore = Math.min(adjustedMLScore, MUST_HAVE_SCORE_CAP);
+    adjustedLLMScore = Math.min(adjustedLLMScore, MUST_HAVE_SCORE_CAP);
+  }
 
   logger.debug('Monotonicity gates applied', {
     originalScores: { ml: mlScore, llm: llmScore },
@@ -117,7 +193,8 @@ export function applyMonotonicityGates(
   return {
     adjustedMLScore: Math.round(adjustedMLScore),
     adjustedLLMScore: Math.round(adjustedLLMScore),
-    violations
+    violations,
+    missingMustHaves
   };
 }
 
@@ -147,8 +224,13 @@ export function validateMonotonicity(
   return { isMonotonic: true };
 }
 
-// ✅ Helper function to extract requirements from job description
-export function extractRequirementGates(jobDescription: any): RequirementGates {
+// ✅ Helper function to extract requirements from job description.
+// Requirements the job owner configured explicitly take precedence over
+// the ones inferred from the description.
+export function extractRequirementGates(
+  jobDescription: any,
+  scoringConfig?: JobScoringConfig | null
+): RequirementGates {
   const requirements: RequirementGates = {
     requiredSkills: []
   };
@@ -180,6 +262,24 @@ export function extractRequirementGates(jobDescription: any): RequirementGates {
       : jobDescription.preferredQualifications.split(',').map((s: string) => s.trim());
   }
 
+  if (scoringConfig?.skillRequirements && scoringConfig.skillRequirements.length > 0) {
+    const skillsFor = (importance: 'must-have' | 'nice-to-have') => scoringConfig.skillRequirements!
+      .filter(requirement => requirement.importance === importance)
+      .map(requirement => requirement.skill.trim())
+      .filter(Boolean);
+
+    requirements.mustHaveSkills = skillsFor('must-have');
+    requirements.niceToHaveSkills = skillsFor('nice-to-have');
+
+    // Skills the owner classified are no longer subject to the inferred penalty
+    const configured = new Set(scoringConfig.skillRequirements.map(requirement => requirement.skill.trim().toLowerCase()));
+    requirements.requiredSkills = requirements.requiredSkills.filter(skill => !configured.has(skill.trim().toLowerCase()));
+  }
+
+  if (scoringConfig?.minimumYearsExperience !== undefined) {
+    requirements.minimumYearsExperience = scoringConfig.minimumYearsExperience;
+  }
+
   return requirements;
 }
 
@@ -223,4 +323,4 @@ export function validateGateConsistency(
 }
 
 // Export types for use in other modules
-export type { RequirementGates, MonotonicityResult };
\ No newline at end of file
+export type { RequirementGates, MonotonicityResult, GateCandidateProfile };
\ No newline at end of file
@@ -42,6 +42,17 @@ const PROVIDER_CALIBRATION_CONFIGS: Record<string, ProviderVersionConfig> = {
     failureThreshold: parseInt(process.env.ANTHROPIC_FAILURE_THRESHOLD || '48'),
     confidenceThreshold: parseFloat(process.env.ANTHROPIC_CONFIDENCE_THRESHOLD || '0.72'),
     lastUpdated: '2025-08-27'
+  },
+  // Self-hosted models vary by deployment; recalibrate with npm run eval:scoring
+  local: {
+    provider: 'local',
+    model: process.env.LOCAL_LLM_MODEL || 'llama3.1:8b',
+    promptVersion: process.env.LOCAL_LLM_PROMPT_VERSION || 'v1',
+    promptHash: process.env.LOCAL_LLM_PROMPT_HASH || 'auto-generated',
+    calibrationVersion: process.env.LOCAL_LLM_CALIBRATION_VERSION || 'temp-cutoffs-2026-10-18',
+    failureThreshold: parseInt(process.env.LOCAL_LLM_FAILURE_THRESHOLD || '45'),
+    confidenceThreshold: parseFloat(process.env.LOCAL_LLM_CONFIDENCE_THRESHOLD || '0.65'),
+    lastUpdated: '2026-10-18'
   }
 };
 
@@ -6,14 +6,20 @@
  * - Queue backpressure (cached queue depths) 
  * - Request preference (fast/accurate/fallback)
  * - Memory pressure awareness
+ * - Data residency (a configured self-hosted model is always tried first;
+ *   LOCAL_LLM_ONLY removes the third-party providers entirely)
+ * - Monthly LLM budget (the 'budget' preference orders providers by price;
+ *   tiered-ai-provider applies it to users over budget)
  */
 
 import { breakers } from './providers/tieredAI';
 import { getCounts } from './queue-depth-cache';
 import { getMemoryPressure } from '../observability/health-snapshot';
 import { logger } from './logger';
+import { isLocalLLMConfigured, isLocalOnly } from './local-llm';
+import { providersByCost } from './llm-usage';
 
-export type ProviderPreference = 'fast' | 'accurate' | 'fallback';
+export type ProviderPreference = 'fast' | 'accurate' | 'fallback' | 'budget';
 
 interface ProviderSelectionResult {
   provider: string | null;
@@ -24,6 +30,20 @@ interface ProviderSelectionResult {
   memoryPressure?: string;
 }
 
+/**
+ * Third-party providers in ascending price order, for users over budget
+ */
+export function budgetProviderOrder(): string[] {
+  return providersByCost().filter(provider => provider !== 'local');
+}
+
+/**
+ * Cheapest provider that passes the caller's availability check
+ */
+export function pickBudgetProvider(isAvailable: (_provider: string) => boolean): string | null {
+  return budgetProviderOrder().find(isAvailable) ?? null;
+}
+
 /**
  * Select optimal provider based on health, queues, and preference
  */
@@ -34,10 +54,11 @@ export async function pickProvider(preference: ProviderPreference): Promise<Prov
   const providerOrders = {
     accurate: ['anthropic', 'openai', 'groq'],    // Quality first
     fast: ['openai', 'anthropic', 'groq'],       // Balanced speed/quality
-    fallback: ['groq', 'openai', 'anthropic']    // Speed first
+    fallback: ['groq', 'openai', 'anthropic'],   // Speed first
+    budget: budgetProviderOrder()                // Cheapest first
   };
   
-  const order = providerOrders[preference];
+  const order = isLocalOnly() ? ['local'] : ['local', ...providerOrders[preference]];
   const candidates: string[] = [];
   const rejectedReasons: Record<string, string> = {};
   const breakerStates: Record<string, string> = {};
@@ -48,12 +69,18 @@ export async function pickProvider(preference: ProviderPreference): Promise<Prov
   const queueCaps = {
     groq: Number(process.env.GROQ_QUEUE_CAP ?? 300),      // Fast, can handle more
     openai: Number(process.env.OPENAI_QUEUE_CAP ?? DEFAULT_QUEUE_CAP),
-    anthropic: Number(process.env.ANTHROPIC_QUEUE_CAP ?? 150) // Slower, more careful
+    anthropic: Number(process.env.ANTHROPIC_QUEUE_CAP ?? 150), // Slower, more careful
+    local: Number(process.env.LOCAL_LLM_QUEUE_CAP ?? 50)       // Usually a single self-hosted server
   };
   
   // Evaluate each provider in preference order
   for (const provider of order) {
     try {
+      if (provider === 'local' && !isLocalLLMConfigured) {
+        rejectedReasons[provider] = 'not_configured';
+        continue;
+      }
+
       // Check circuit breaker status
       const breakerStatus = breakers[provider as keyof typeof breakers]?.status();
       if (!breakerStatus) {
@@ -0,0 +1,91 @@
+/**
+ * Adapter for the Anthropic messages API
+ *
+ * The messages API has no JSON mode or sampling seed; the shared prompts ask
+ * for bare JSON and AnalysisResponseParser copes with any surrounding prose.
+ */
+
+import type {
+  AIProviderAdapter,
+  CompletionRequest,
+  CompletionResult,
+  CompletionUsage,
+} from "./provider-adapter";
+
+export interface MessagesCreateParams {
+  model: string;
+  system: string;
+  messages: Array<{ role: "user"; content: string }>;
+  temperature: number;
+  max_tokens: number;
+}
+
+export interface MessagesResponse {
+  model?: string;
+  content: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens?: number; output_tokens?: number } | null;
+}
+
+// Structural subset of the @anthropic-ai/sdk client
+export interface MessagesClient {
+  messages: {
+    create(_params: MessagesCreateParams): Promise<MessagesResponse>;
+  };
+}
+
+export interface AnthropicAdapterOptions {
+  client: MessagesClient | null;
+  model: string;
+  onSuccess?: (_model: string, _usage?: CompletionUsage) => void;
+  onFailure?: (_error: Error) => void;
+}
+
+export function createAnthropicAdapter(options: AnthropicAdapterOptions): AIProviderAdapter {
+  const { client, model } = options;
+
+  return {
+    name: "anthropic",
+    format: "anthropic",
+
+    isConfigured() {
+      return client !== null;
+    },
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      if (!client) {
+        throw new Error("Anthropic API key is not configured");
+      }
+
+      try {
+        const response = await client.messages.create({
+          model,
+          system: request.system,
+          messages: [{ role: "user", content: request.prompt }],
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+        });
+
+        const content = response.content
+          .filter((block) => block.type === "text" && typeof block.text === "string")
+          .map((block) => block.text)
+          .join("");
+        if (!content) {
+          throw new Error("No text content in Anthropic response");
+        }
+
+        const usage = response.usage
+          ? {
+              promptTokens: response.usage.input_tokens || 0,
+              completionTokens: response.usage.output_tokens || 0,
+            }
+          : undefined;
+        options.onSuccess?.(model, usage);
+
+        return { content, model: response.model || model, usage };
+      } catch (error) {
+        options.onFailure?.(error instanceof Error ? error : new Error(String(error)));
+        throw error;
+      }
+    },
+  };
+}
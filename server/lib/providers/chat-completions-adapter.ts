@@ -0,0 +1,110 @@
+/**
+ * Adapter for OpenAI-style chat completions APIs
+ *
+ * Groq, OpenAI and self-hosted servers (vLLM, Ollama, ...) all speak the same
+ * chat.completions.create() wire format, so one adapter covers the three; the
+ * provider modules only supply the client, model choice and bookkeeping hooks.
+ */
+
+import type { ProviderFormat } from "../shared/prompt-templates";
+import type {
+  AIOperation,
+  AIProviderAdapter,
+  AIProviderName,
+  CompletionRequest,
+  CompletionResult,
+  CompletionUsage,
+} from "./provider-adapter";
+
+export interface ChatCompletionParams {
+  model: string;
+  messages: Array<{ role: "system" | "user"; content: string }>;
+  temperature: number;
+  max_tokens: number;
+  response_format?: { type: "json_object" };
+  seed?: number;
+}
+
+export interface ChatCompletionResponse {
+  model?: string;
+  choices: Array<{ message?: { content?: string | null } | null }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+}
+
+// Structural subset of the groq-sdk and openai clients
+export interface ChatCompletionsClient {
+  chat: {
+    completions: {
+      create(_params: ChatCompletionParams): Promise<ChatCompletionResponse>;
+    };
+  };
+}
+
+export interface ChatCompletionsAdapterOptions {
+  name: AIProviderName;
+  format: ProviderFormat;
+  client: ChatCompletionsClient | null;
+  model: string | ((_operation: AIOperation) => string);
+  // Set false for servers that reject response_format
+  jsonMode?: boolean;
+  notConfiguredMessage?: string;
+  // Wraps the API call, e.g. in a circuit breaker
+  execute?: <T>(_call: () => Promise<T>) => Promise<T>;
+  onSuccess?: (_model: string, _usage?: CompletionUsage) => void;
+  onFailure?: (_error: Error) => void;
+}
+
+export function createChatCompletionsAdapter(options: ChatCompletionsAdapterOptions): AIProviderAdapter {
+  const { name, format, client, jsonMode = true } = options;
+  const execute = options.execute ?? (<T>(call: () => Promise<T>) => call());
+
+  return {
+    name,
+    format,
+
+    isConfigured() {
+      return client !== null;
+    },
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      if (!client) {
+        throw new Error(options.notConfiguredMessage ?? `${name} is not configured`);
+      }
+      const model = typeof options.model === "function" ? options.model(request.operation) : options.model;
+
+      try {
+        const response = await execute(() =>
+          client.chat.completions.create({
+            model,
+            messages: [
+              { role: "system", content: request.system },
+              { role: "user", content: request.prompt },
+            ],
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            ...(jsonMode ? { response_format: { type: "json_object" as const } } : {}),
+            ...(request.seed !== undefined ? { seed: request.seed } : {}),
+          }),
+        );
+
+        const content = response.choices[0]?.message?.content;
+        if (!content) {
+          throw new Error(`No response content from ${name}`);
+        }
+
+        const usage = response.usage
+          ? {
+              promptTokens: response.usage.prompt_tokens || 0,
+              completionTokens: response.usage.completion_tokens || 0,
+            }
+          : undefined;
+        options.onSuccess?.(model, usage);
+
+        return { content, model: response.model || model, usage };
+      } catch (error) {
+        options.onFailure?.(error instanceof Error ? error : new Error(String(error)));
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,347 @@
+/**
+ * AI Provider Adapter Contract
+ *
+ * Each provider module (groq, openai, anthropic, local) used to carry its own
+ * copy of every analysis function - prompt text, JSON cleanup, response
+ * mapping and caching. An adapter now only knows how to send one completion
+ * to its API; createProviderOperations() supplies everything else once:
+ *
+ *   prompts    -> PromptTemplateEngine (shared/prompt-templates.ts)
+ *   parsing    -> AnalysisResponseParser (shared/response-parser.ts)
+ *   caching    -> per-provider TTL cache, deterministicCache for text matches
+ *   accounting -> recordLlmUsage (llm-usage.ts) prices every completion
+ *
+ * Operations throw on failure. Retries, fallbacks and user-facing messaging
+ * stay with the tiered provider.
+ */
+
+import crypto from "crypto";
+import { logger } from "../logger";
+import { PromptTemplateEngine, type ProviderFormat } from "../shared/prompt-templates";
+import { AnalysisResponseParser } from "../shared/response-parser";
+import { deterministicCache, calculateConfidenceLevel } from "../consistent-scoring";
+import { recordLlmUsage } from "../llm-usage";
+import type {
+  AnalyzeResumeResponse,
+  AnalyzeJobDescriptionResponse,
+  MatchAnalysisResponse,
+  BiasAnalysisResponse,
+  InterviewQuestionsResponse,
+  InterviewScriptResponse,
+} from "@shared/schema";
+
+export type AIProviderName = "groq" | "openai" | "anthropic" | "local";
+
+export type AIOperation =
+  | "resume"
+  | "job"
+  | "match"
+  | "bias"
+  | "interview-questions"
+  | "interview-script";
+
+export interface CompletionRequest {
+  operation: AIOperation;
+  system: string;
+  prompt: string;
+  temperature: number;
+  maxTokens: number;
+  // Only honoured by APIs that support seeded sampling
+  seed?: number;
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  usage?: CompletionUsage;
+}
+
+/**
+ * The only thing a provider has to implement
+ */
+export interface AIProviderAdapter {
+  readonly name: AIProviderName;
+  readonly format: ProviderFormat;
+  isConfigured(): boolean;
+  complete(_request: CompletionRequest): Promise<CompletionResult>;
+}
+
+export interface ProviderOperations {
+  analyzeResume(_resumeText: string): Promise<AnalyzeResumeResponse>;
+  analyzeJobDescription(_title: string, _description: string): Promise<AnalyzeJobDescriptionResponse>;
+  analyzeMatch(
+    _resumeAnalysis: AnalyzeResumeResponse,
+    _jobAnalysis: AnalyzeJobDescriptionResponse,
+    _resumeText?: string,
+    _jobText?: string,
+  ): Promise<MatchAnalysisResponse>;
+  analyzeBias(_title: string, _description: string): Promise<BiasAnalysisResponse>;
+  generateInterviewQuestions(
+    _resumeAnalysis: AnalyzeResumeResponse,
+    _jobAnalysis: AnalyzeJobDescriptionResponse,
+    _matchAnalysis: MatchAnalysisResponse,
+  ): Promise<InterviewQuestionsResponse>;
+  generateInterviewScript(
+    _resumeAnalysis: AnalyzeResumeResponse,
+    _jobAnalysis: AnalyzeJobDescriptionResponse,
+    _matchAnalysis: MatchAnalysisResponse,
+    _jobTitle: string,
+    _candidateName?: string,
+  ): Promise<InterviewScriptResponse>;
+  clearCache(): void;
+  readonly cacheSize: number;
+}
+
+interface OperationSettings {
+  system: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+// Zero temperature everywhere scores or extracted facts are involved; the
+// interview generators get a little room so questions don't read canned.
+export const OPERATION_SETTINGS: Record<AIOperation, OperationSettings> = {
+  resume: {
+    system: "You are a professional resume analyzer. Extract structured information from the resume provided.",
+    temperature: 0,
+    maxTokens: 4000,
+  },
+  job: {
+    system: "You are a professional job description analyzer. Extract the requirements of the role.",
+    temperature: 0,
+    maxTokens: 4000,
+  },
+  match: {
+    system: "You are a professional job match analyzer. Compare the candidate with the job requirements, focusing on skills, experience and education.",
+    temperature: 0,
+    maxTokens: 4000,
+  },
+  bias: {
+    system: "You are an expert in inclusive hiring language.",
+    temperature: 0,
+    maxTokens: 4000,
+  },
+  "interview-questions": {
+    system: "You are an experienced technical interviewer.",
+    temperature: 0.3,
+    maxTokens: 4000,
+  },
+  "interview-script": {
+    system: "You are an expert HR interviewer creating structured interview scripts.",
+    temperature: 0.1,
+    maxTokens: 4000,
+  },
+};
+
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 500;
+
+function hash(text: string): string {
+  return crypto.createHash("sha256").update(text).digest("hex");
+}
+
+// Stable per input pair so seeded APIs return the same completion on reruns
+function matchSeed(resumeText: string, jobText: string): number {
+  return parseInt(hash(`${resumeText}${jobText}`).substring(0, 8), 16) % 1000000;
+}
+
+/**
+ * Build the six analysis operations for a provider on top of its adapter
+ */
+export function createProviderOperations(adapter: AIProviderAdapter): ProviderOperations {
+  const cache = new Map<string, { timestamp: number; data: unknown }>();
+  const { format } = adapter;
+
+  function cached<T>(key: string): T | null {
+    const entry = cache.get(key);
+    if (!entry) return null;
+    if (Date.now() - entry.timestamp > CACHE_TTL_MS) {
+      cache.delete(key);
+      return null;
+    }
+    return entry.data as T;
+  }
+
+  function remember<T>(key: string, data: T): T {
+    if (cache.size >= CACHE_MAX_ENTRIES) {
+      // Map preserves insertion order, so the first key is the oldest
+      const oldest = cache.keys().next().value;
+      if (oldest !== undefined) cache.delete(oldest);
+    }
+    cache.set(key, { timestamp: Date.now(), data });
+    return data;
+  }
+
+  async function run<T>(
+    operation: AIOperation,
+    prompt: string,
+    normalize: (_raw: Record<string, unknown>, _model: string) => T,
+    seed?: number,
+  ): Promise<T> {
+    const settings = OPERATION_SETTINGS[operation];
+    const startTime = Date.now();
+
+    try {
+      const completion = await adapter.complete({
+        operation,
+        system: settings.system,
+        prompt,
+        temperature: settings.temperature,
+        maxTokens: settings.maxTokens,
+        ...(seed !== undefined ? { seed } : {}),
+      });
+      recordLlmUsage({ provider: adapter.name, model: completion.model, operation, usage: completion.usage });
+      const raw = AnalysisResponseParser.parseObject<Record<string, unknown>>(
+        completion.content,
+        `${adapter.name} ${operation}`,
+      );
+      const result = normalize(raw, completion.model);
+
+      logger.info(`${adapter.name} ${operation} completed`, {
+        model: completion.model,
+        durationMs: Date.now() - startTime,
+        promptTokens: completion.usage?.promptTokens,
+        completionTokens: completion.usage?.completionTokens,
+      });
+      return result;
+    } catch (error) {
+      logger.error(`${adapter.name} ${operation} failed`, error);
+      throw error;
+    }
+  }
+
+  return {
+    async analyzeResume(resumeText) {
+      const key = hash(`resume_${resumeText}`);
+      const hit = cached<AnalyzeResumeResponse>(key);
+      if (hit) return hit;
+
+      const result = await run(
+        "resume",
+        PromptTemplateEngine.generateResumeAnalysisPrompt({ text: resumeText }, { format }),
+        (raw) => AnalysisResponseParser.toResumeAnalysis(raw),
+      );
+
+      // An empty skills list usually means a truncated or refused completion
+      if (result.skills && result.skills.length > 0) {
+        remember(key, result);
+      } else {
+        logger.warn(`Not caching ${adapter.name} resume analysis - no skills extracted`);
+      }
+      return result;
+    },
+
+    async analyzeJobDescription(title, description) {
+      const key = hash(`job_${title}_${description}`);
+      const hit = cached<AnalyzeJobDescriptionResponse>(key);
+      if (hit) return hit;
+
+      return remember(key, await run(
+        "job",
+        PromptTemplateEngine.generateJobAnalysisPrompt({ title, description }, { format }),
+        (raw) => AnalysisResponseParser.toJobAnalysis(raw, title),
+      ));
+    },
+
+    async analyzeMatch(resumeAnalysis, jobAnalysis, resumeText, jobText) {
+      const texts = resumeText && jobText ? { resume: resumeText, job: jobText } : null;
+      const key = texts
+        ? deterministicCache.generateKey(texts.resume, texts.job, "match", adapter.name)
+        : hash(`match_${JSON.stringify(resumeAnalysis)}_${JSON.stringify(jobAnalysis)}`);
+      const hit = texts
+        ? (deterministicCache.get(key) as MatchAnalysisResponse | null)
+        : cached<MatchAnalysisResponse>(key);
+      if (hit) {
+        logger.debug(`Using cached ${adapter.name} match analysis`);
+        return hit;
+      }
+
+      const result = await run(
+        "match",
+        PromptTemplateEngine.generateMatchAnalysisPrompt(
+          { resumeAnalysis, jobAnalysis, resumeText, jobText },
+          { format },
+        ),
+        (raw, model) => {
+          const normalized = AnalysisResponseParser.toMatchAnalysis(raw, adapter.name, model);
+          if (!raw.confidenceLevel && texts) {
+            normalized.confidenceLevel = calculateConfidenceLevel(
+              texts.resume.length,
+              texts.job.length,
+              normalized.matchedSkills?.length ?? 0,
+            );
+            normalized.results[0].confidenceLevel = normalized.confidenceLevel;
+          }
+          return normalized;
+        },
+        texts ? matchSeed(texts.resume, texts.job) : undefined,
+      );
+
+      if (texts) {
+        deterministicCache.set(key, result, hash(`${texts.resume}${texts.job}`).substring(0, 16));
+      } else {
+        remember(key, result);
+      }
+      return result;
+    },
+
+    async analyzeBias(title, description) {
+      const key = hash(`bias_${title}_${description}`);
+      const hit = cached<BiasAnalysisResponse>(key);
+      if (hit) return hit;
+
+      return remember(key, await run(
+        "bias",
+        PromptTemplateEngine.generateBiasAnalysisPrompt({ title, description }, { format }),
+        (raw) => AnalysisResponseParser.toBiasAnalysis(raw, description),
+      ));
+    },
+
+    async generateInterviewQuestions(resumeAnalysis, jobAnalysis, matchAnalysis) {
+      const key = hash(`interview_${JSON.stringify({ resumeAnalysis, jobAnalysis, matchAnalysis })}`);
+      const hit = cached<InterviewQuestionsResponse>(key);
+      if (hit) return hit;
+
+      return remember(key, await run(
+        "interview-questions",
+        PromptTemplateEngine.generateInterviewQuestionsPrompt(
+          { resumeAnalysis, jobAnalysis, matchAnalysis },
+          { format },
+        ),
+        (raw) => AnalysisResponseParser.toInterviewQuestions(raw, {
+          jobTitle: jobAnalysis.title,
+          candidateName: resumeAnalysis.name,
+          missingSkills: matchAnalysis.missingSkills,
+        }),
+      ));
+    },
+
+    async generateInterviewScript(resumeAnalysis, jobAnalysis, matchAnalysis, jobTitle, candidateName) {
+      const key = hash(`script_${JSON.stringify({ resumeAnalysis, jobAnalysis, matchAnalysis, jobTitle, candidateName })}`);
+      const hit = cached<InterviewScriptResponse>(key);
+      if (hit) return hit;
+
+      return remember(key, await run(
+        "interview-script",
+        PromptTemplateEngine.generateInterviewScriptPrompt(
+          { resumeAnalysis, jobAnalysis, matchAnalysis, jobTitle, candidateName },
+          { format },
+        ),
+        (raw) => AnalysisResponseParser.toInterviewScript(raw, jobTitle, candidateName),
+      ));
+    },
+
+    clearCache() {
+      cache.clear();
+    },
+
+    get cacheSize() {
+      return cache.size;
+    },
+  };
+}
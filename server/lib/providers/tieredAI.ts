@@ -37,6 +37,14 @@ export const breakers = {
     halfOpenAfterMs: 60_000,
     succToClose: 2
   }),
+  local: new CircuitBreaker('local', { 
+    shouldForceOpen: forceOpen,
+    failureThreshold: 5,
+    windowSize: 50,
+    rtP95Ms: Number(process.env.LOCAL_LLM_RT_P95_MS ?? 30000), // Self-hosted models on modest hardware
+    halfOpenAfterMs: 30_000,
+    succToClose: 2
+  }),
 };
 
 import { logger } from "../logger";
@@ -62,6 +70,13 @@ export async function callAnthropic<T>(fn: () => Promise<T>): Promise<T> {
   return breakers.anthropic.exec(fn);
 }
 
+/**
+ * Circuit breaker wrapper for self-hosted (OpenAI-compatible) model calls
+ */
+export async function callLocal<T>(fn: () => Promise<T>): Promise<T> {
+  return breakers.local.exec(fn);
+}
+
 /**
  * Get all circuit breaker statuses for monitoring
  */
@@ -1,5 +1,5 @@
 import { Queue, Worker } from 'bullmq';
-import type { ConnectionOptions } from 'bullmq';
+import type { ConnectionOptions, Job } from 'bullmq';
 import { logger } from './logger';
 import { cacheManager } from './redis-cache';
 
@@ -19,6 +19,7 @@ export class QueueManager {
     BATCH_PROCESSING: 'batch-processing',
     HIGH_PRIORITY: 'high-priority',
     LOW_PRIORITY: 'low-priority',
+    WEBHOOK_DELIVERY: 'webhook-delivery',
   } as const;
   
   // Memory pressure thresholds (MB)
@@ -140,10 +141,25 @@ export class QueueManager {
         },
       });
 
+      // Webhook deliveries retry with backoff until the endpoint accepts them
+      const webhookQueue = new Queue(QueueManager.QUEUE_NAMES.WEBHOOK_DELIVERY, {
+        connection: this.redisConnection,
+        defaultJobOptions: {
+          removeOnComplete: 100,
+          removeOnFail: 100,
+          attempts: 6,
+          backoff: {
+            type: 'exponential',
+            delay: 10000,
+          },
+        },
+      });
+
       this.queues.set(QueueManager.QUEUE_NAMES.AI_ANALYSIS, aiQueue);
       this.queues.set(QueueManager.QUEUE_NAMES.BATCH_PROCESSING, batchQueue);
       this.queues.set(QueueManager.QUEUE_NAMES.HIGH_PRIORITY, highPriorityQueue);
       this.queues.set(QueueManager.QUEUE_NAMES.LOW_PRIORITY, lowPriorityQueue);
+      this.queues.set(QueueManager.QUEUE_NAMES.WEBHOOK_DELIVERY, webhookQueue);
 
       // Setup queue event handlers
       this.setupQueueEventHandlers();
@@ -221,6 +237,48 @@ export class QueueManager {
     }
   }
 
+  /**
+   * Whether queues are backed by Redis and accepting jobs
+   */
+  isReady(): boolean {
+    return this.isInitialized;
+  }
+
+  /**
+   * Start a worker that processes jobs of the given queue.
+   * Returns false when queues are not initialized (no Redis).
+   */
+  registerWorker(
+    queueName: keyof typeof QueueManager.QUEUE_NAMES,
+    processor: (_job: Job) => Promise<unknown>,
+    concurrency = 5
+  ): boolean {
+    const name = QueueManager.QUEUE_NAMES[queueName];
+    if (!this.isInitialized || !this.redisConnection) {
+      return false;
+    }
+    if (this.workers.has(name)) {
+      return true;
+    }
+
+    const worker = new Worker(name, processor, {
+      connection: this.redisConnection,
+      concurrency,
+    });
+
+    (worker as any).on('failed', (job: any, err: Error) => {
+      logger.debug(`Worker job failed in ${name}:`, {
+        jobId: job?.id,
+        error: err?.message || 'Unknown error',
+        attempts: job?.attemptsMade
+      });
+    });
+
+    this.workers.set(name, worker);
+    logger.info(`Registered worker for queue: ${name}`, { concurrency });
+    return true;
+  }
+
   async getQueueStats(): Promise<Record<string, any>> {
     const stats: Record<string, any> = {};
     
@@ -0,0 +1,338 @@
+/**
+ * Analysis Re-scoring
+ *
+ * Replays stored analyses under a candidate scoring config without calling
+ * any AI provider. The stored dimension scores are re-weighted into a new ML
+ * score, blended with the stored LLM score, and run back through the
+ * calibration thresholds and the job owner's requirement gates, so a change
+ * to unified-scoring-config or provider-calibration can be judged by how it
+ * would move existing rankings.
+ *
+ * Analyses stored before the analyzer recorded `scoreInputs` have no LLM
+ * score of their own. It is recovered from the stored blend and the weights
+ * in the analysis audit record (or the defaults), and flagged as estimated.
+ */
+
+import crypto from 'crypto';
+import type {
+  AnalysisResult,
+  JobDescription,
+  RescoreCandidateDiff,
+  RescoreConfig,
+  RescoreJobReport,
+  RescoreReport,
+  Resume,
+  ScoringDimensions
+} from '@shared/schema';
+import {
+  AI_PROVIDER_CONFIG,
+  resolveScoringWeights,
+  type UnifiedScoringWeights
+} from './unified-scoring-config';
+import { getAllProviderVersions } from './provider-calibration';
+import { applyMonotonicityGates, extractRequirementGates } from './monotonicity-gates';
+import { canonicalJson } from './audit-chain';
+
+// The ML scorer is not a calibrated provider; the analyzer treats <= 50 as failed
+const DEFAULT_ML_FAILURE_THRESHOLD = 50;
+// Provider whose calibration the analyzer applies to the LLM score
+const LLM_CALIBRATION_PROVIDER = 'groq';
+
+export interface EnsembleWeights {
+  ml: number;
+  llm: number;
+}
+
+/** Weights an analysis originally ran with, as recorded in its audit entry */
+export interface AnalysisWeights extends EnsembleWeights {
+  dimensions: UnifiedScoringWeights;
+}
+
+export interface ResolvedRescoreConfig {
+  defaultWeights: UnifiedScoringWeights;
+  ensembleWeights: EnsembleWeights;
+  failureThresholds: EnsembleWeights;
+}
+
+export interface RescoreInput {
+  result: AnalysisResult;
+  job: JobDescription;
+  resume?: Resume;
+  originalWeights?: AnalysisWeights;
+}
+
+export interface RescoredScore {
+  /** null when both components fall below their failure thresholds */
+  matchPercentage: number | null;
+  mlScore: number | null;
+  llmScore: number | null;
+  llmScoreEstimated: boolean;
+  scoringWeights: UnifiedScoringWeights;
+  ensembleWeights: EnsembleWeights;
+  gateViolations: string[];
+}
+
+export interface RescoredEntry {
+  result: AnalysisResult;
+  rescored: RescoredScore;
+}
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+function normalizeEnsemble(weights: EnsembleWeights | undefined): EnsembleWeights {
+  const sum = (weights?.ml ?? 0) + (weights?.llm ?? 0);
+  if (!weights || !(sum > 0) || weights.ml < 0 || weights.llm < 0) {
+    return { ml: AI_PROVIDER_CONFIG.ML_WEIGHT, llm: AI_PROVIDER_CONFIG.LLM_WEIGHT };
+  }
+  return { ml: weights.ml / sum, llm: weights.llm / sum };
+}
+
+function weightedScore(dimensions: ScoringDimensions, weights: UnifiedScoringWeights): number {
+  return (
+    dimensions.skills * weights.skills +
+    dimensions.experience * weights.experience +
+    dimensions.education * weights.education +
+    dimensions.semantic * weights.semantic
+  );
+}
+
+/**
+ * Fill in everything a run config leaves out with the values currently in code
+ */
+export function resolveRescoreConfig(config: RescoreConfig = {}): ResolvedRescoreConfig {
+  const llmCalibration = getAllProviderVersions()[LLM_CALIBRATION_PROVIDER];
+
+  return {
+    defaultWeights: resolveScoringWeights(config.defaultWeights),
+    ensembleWeights: normalizeEnsemble(config.ensembleWeights),
+    failureThresholds: {
+      ml: config.failureThresholds?.ml ?? DEFAULT_ML_FAILURE_THRESHOLD,
+      llm: config.failureThresholds?.llm ?? llmCalibration?.failureThreshold ?? DEFAULT_ML_FAILURE_THRESHOLD,
+    },
+  };
+}
+
+/**
+ * Short stable identifier of an effective scoring config. Provider models and
+ * calibration versions are included, so changing either yields a new version.
+ */
+export function computeScoringVersion(config: ResolvedRescoreConfig): string {
+  const calibration = Object.values(getAllProviderVersions())
+    .map(version => `${version.provider}:${version.model}:${version.calibrationVersion}`)
+    .sort();
+  const digest = crypto.createHash('sha256')
+    .update(canonicalJson({ ...config, calibration }))
+    .digest('hex');
+  return `scoring-${digest.slice(0, 12)}`;
+}
+
+/**
+ * Read the weights block an analysis audit entry was written with
+ */
+export function analysisWeightsFromAudit(payload: Record<string, unknown>): AnalysisWeights | undefined {
+  const weights = payload.weights as { ml?: unknown; llm?: unknown; dims?: Partial<UnifiedScoringWeights> } | undefined;
+  if (!weights || typeof weights.ml !== 'number' || typeof weights.llm !== 'number' || !weights.dims) {
+    return undefined;
+  }
+  return { ml: weights.ml, llm: weights.llm, dimensions: resolveScoringWeights(weights.dims) };
+}
+
+/**
+ * Keep only the most recent analysis of each resume
+ */
+export function latestAnalysisPerResume(results: AnalysisResult[]): AnalysisResult[] {
+  const latest = new Map<number, AnalysisResult>();
+  for (const result of results) {
+    if (result.resumeId === null) {
+      continue;
+    }
+    const current = latest.get(result.resumeId);
+    if (!current || result.id > current.id) {
+      latest.set(result.resumeId, result);
+    }
+  }
+  return Array.from(latest.values());
+}
+
+function storedLLMScore(input: RescoreInput): { llm: number | null; estimated: boolean } {
+  const { result, job, originalWeights } = input;
+  const analysis = result.analysis ?? {};
+
+  if (analysis.scoreInputs) {
+    return { llm: analysis.scoreInputs.llm ?? null, estimated: false };
+  }
+  if (result.matchPercentage === null || analysis.analysisMethod === 'ml_only' || analysis.analysisMethod === 'abstain') {
+    return { llm: null, estimated: false };
+  }
+  if (analysis.analysisMethod === 'llm_only') {
+    return { llm: result.matchPercentage, estimated: true };
+  }
+
+  // Hybrid: final = ml * w.ml + llm * w.llm, solved for llm
+  const weights: AnalysisWeights = originalWeights ?? {
+    dimensions: resolveScoringWeights(job.scoringConfig?.weights),
+    ml: analysis.actualWeights?.ml ?? AI_PROVIDER_CONFIG.ML_WEIGHT,
+    llm: analysis.actualWeights?.llm ?? AI_PROVIDER_CONFIG.LLM_WEIGHT,
+  };
+  if (!result.scoringDimensions || weights.llm <= 0) {
+    return { llm: null, estimated: false };
+  }
+  const originalML = weightedScore(result.scoringDimensions, weights.dimensions);
+  const llm = (result.matchPercentage - originalML * weights.ml) / weights.llm;
+  return { llm: Math.round(Math.min(100, Math.max(0, llm))), estimated: true };
+}
+
+// Same candidate facts and owner-configured gates the analyzer checks
+function requirementGatesFor(job: JobDescription, resume?: Resume) {
+  const config = job.scoringConfig;
+  const hasConfiguredGates = !!config && (
+    (config.skillRequirements?.length ?? 0) > 0 || config.minimumYearsExperience !== undefined
+  );
+  if (!hasConfiguredGates) {
+    return null;
+  }
+
+  const data = resume?.analyzedData;
+  const structured = data?.structured;
+  return {
+    requirements: { ...extractRequirementGates(job.analyzedData ?? {}, config), requiredSkills: [] },
+    candidate: {
+      skills: data?.skills || resume?.skills || [],
+      education: data?.education || [],
+      certifications: [...(structured?.certifications || []), ...(data?.certifications || [])],
+      totalExperience: structured && structured.totalExperienceMonths > 0
+        ? structured.totalExperienceMonths / 12
+        : undefined,
+      resumeText: resume?.content ?? undefined,
+    },
+  };
+}
+
+/**
+ * Replay one stored analysis under the config
+ */
+export function rescoreAnalysis(input: RescoreInput, config: ResolvedRescoreConfig): RescoredScore {
+  const { result, job } = input;
+  const scoringWeights = job.scoringConfig?.weights
+    ? resolveScoringWeights(job.scoringConfig.weights)
+    : config.defaultWeights;
+
+  // LLM-only dimensions are fixed fractions of the LLM score, not measurements
+  const mlScore = result.analysis?.analysisMethod === 'llm_only' || !result.scoringDimensions
+    ? null
+    : Math.round(weightedScore(result.scoringDimensions, scoringWeights));
+  const { llm: llmScore, estimated } = storedLLMScore(input);
+
+  const base = { mlScore, llmScore, llmScoreEstimated: estimated, scoringWeights };
+  const mlFailed = mlScore === null || mlScore <= config.failureThresholds.ml;
+  const llmFailed = llmScore === null || llmScore <= config.failureThresholds.llm;
+
+  if ((mlScore === null && llmScore === null) || (mlScore !== null && llmScore !== null && mlFailed && llmFailed)) {
+    return { ...base, matchPercentage: null, ensembleWeights: { ml: 0, llm: 0 }, gateViolations: [] };
+  }
+
+  let gatedML = mlScore ?? llmScore!;
+  let gatedLLM = llmScore ?? mlScore!;
+  let gateViolations: string[] = [];
+  const gates = requirementGatesFor(job, input.resume);
+  if (gates) {
+    const gated = applyMonotonicityGates(gatedML, gatedLLM, gates.candidate, gates.requirements);
+    gatedML = gated.adjustedMLScore;
+    gatedLLM = gated.adjustedLLMScore;
+    gateViolations = gated.violations;
+  }
+
+  const ensembleWeights: EnsembleWeights =
+    mlScore === null || (mlFailed && !llmFailed) ? { ml: 0, llm: 1 }
+      : llmScore === null || (llmFailed && !mlFailed) ? { ml: 1, llm: 0 }
+        : config.ensembleWeights;
+
+  return {
+    ...base,
+    matchPercentage: Math.round(gatedML * ensembleWeights.ml + gatedLLM * ensembleWeights.llm),
+    ensembleWeights,
+    gateViolations,
+  };
+}
+
+// Best first; abstained analyses rank last
+function rankOf(entries: Array<{ resumeId: number; score: number | null }>): Map<number, number> {
+  const sorted = [...entries].sort((a, b) =>
+    (b.score ?? -1) - (a.score ?? -1) || a.resumeId - b.resumeId
+  );
+  return new Map(sorted.map((entry, index) => [entry.resumeId, index + 1]));
+}
+
+/**
+ * Compare a job's stored ranking with its replayed ranking
+ */
+export function buildJobRescoreReport(
+  job: Pick<JobDescription, 'id' | 'title'>,
+  entries: RescoredEntry[]
+): RescoreJobReport {
+  const previousRanks = rankOf(entries.map(({ result }) => ({
+    resumeId: result.resumeId!,
+    score: result.matchPercentage,
+  })));
+  const newRanks = rankOf(entries.map(({ result, rescored }) => ({
+    resumeId: result.resumeId!,
+    score: rescored.matchPercentage,
+  })));
+
+  const candidates = entries.map(({ result, rescored }): RescoreCandidateDiff => {
+    const resumeId = result.resumeId!;
+    const wasGated = (result.analysis?.requirementGates?.violations?.length ?? 0) > 0;
+    const isGated = rescored.gateViolations.length > 0;
+    const previousRank = previousRanks.get(resumeId)!;
+    const newRank = newRanks.get(resumeId)!;
+
+    return {
+      analysisResultId: result.id,
+      resumeId,
+      previousScore: result.matchPercentage,
+      newScore: rescored.matchPercentage,
+      delta: result.matchPercentage !== null && rescored.matchPercentage !== null
+        ? round1(rescored.matchPercentage - result.matchPercentage)
+        : null,
+      previousRank,
+      newRank,
+      rankChange: previousRank - newRank,
+      gateChange: isGated === wasGated ? null : isGated ? 'entered' : 'cleared',
+      gateViolations: rescored.gateViolations,
+      llmScoreEstimated: rescored.llmScoreEstimated,
+    };
+  }).sort((a, b) => a.newRank - b.newRank);
+
+  const deltas = candidates.flatMap(candidate => candidate.delta === null ? [] : [candidate.delta]);
+
+  return {
+    jobId: job.id,
+    title: job.title,
+    candidates,
+    rankChanges: candidates.filter(candidate => candidate.rankChange !== 0).length,
+    meanDelta: deltas.length > 0 ? round1(deltas.reduce((sum, delta) => sum + delta, 0) / deltas.length) : 0,
+    maxAbsDelta: deltas.reduce((max, delta) => Math.max(max, Math.abs(delta)), 0),
+    gateCrossings: candidates.filter(candidate => candidate.gateChange !== null).length,
+  };
+}
+
+/**
+ * Roll per-job reports up into the run report
+ */
+export function summarizeRescoreReports(scoringVersion: string, jobs: RescoreJobReport[]): RescoreReport {
+  const candidates = jobs.flatMap(job => job.candidates);
+  const deltas = candidates.flatMap(candidate => candidate.delta === null ? [] : [candidate.delta]);
+
+  return {
+    scoringVersion,
+    jobs,
+    summary: {
+      analyses: candidates.length,
+      rankChanges: jobs.reduce((sum, job) => sum + job.rankChanges, 0),
+      meanDelta: deltas.length > 0 ? round1(deltas.reduce((sum, delta) => sum + delta, 0) / deltas.length) : 0,
+      maxAbsDelta: jobs.reduce((max, job) => Math.max(max, job.maxAbsDelta), 0),
+      gateCrossings: jobs.reduce((sum, job) => sum + job.gateCrossings, 0),
+      estimatedLLMScores: candidates.filter(candidate => candidate.llmScoreEstimated).length,
+    },
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Resume Duplicate Detection
+ *
+ * The same person is often uploaded more than once: the identical file in a
+ * later batch, or a lightly edited copy. Each upload is fingerprinted with a
+ * hash of its normalized text and the email and phone number it lists, and
+ * compared with the library it is uploaded to. When none of those match,
+ * `findDuplicateMatch` can also compare the content embedding, which catches
+ * edits that change the hash but not the resume.
+ */
+
+import crypto from 'crypto';
+import { cosineSimilarity, toEmbeddingVector } from './vector-search';
+import type { DuplicateSignal, Resume } from '@shared/schema';
+
+/** Content embeddings at least this close are treated as the same resume */
+export const NEAR_DUPLICATE_SIMILARITY = 0.97;
+
+// Contact details sit at the top of a resume; searching only the header keeps
+// employment date ranges further down from being read as phone numbers
+const CONTACT_HEADER_LENGTH = 1000;
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/;
+const PHONE_PATTERN = /(?<![\w.])\+?\d[\d\s().-]{7,20}\d(?![\w])/g;
+
+const MIN_PHONE_DIGITS = 10;
+const MAX_PHONE_DIGITS = 15;
+
+export interface ResumeFingerprint {
+  contentHash: string;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface DuplicateMatch {
+  resume: Resume;
+  signals: DuplicateSignal[];
+  /** Content embedding similarity, when the embeddings were compared */
+  similarity: number | null;
+}
+
+/**
+ * SHA-256 of the text with case and whitespace normalized, so a re-export of
+ * the same document hashes the same
+ */
+export function computeContentHash(text: string): string {
+  const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+export function normalizeEmail(email: string): string | null {
+  const normalized = email.trim().toLowerCase();
+  return EMAIL_PATTERN.test(normalized) ? normalized : null;
+}
+
+/**
+ * The last 10 digits of a phone number, so the same number matches with or
+ * without its country code and formatting. Returns null for digit runs that
+ * are too short or too long to be a phone number.
+ */
+export function normalizePhone(phone: string): string | null {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length < MIN_PHONE_DIGITS || digits.length > MAX_PHONE_DIGITS) {
+    return null;
+  }
+  return digits.slice(-MIN_PHONE_DIGITS);
+}
+
+export function extractResumeFingerprint(text: string): ResumeFingerprint {
+  const header = text.slice(0, CONTACT_HEADER_LENGTH);
+  const email = text.match(EMAIL_PATTERN);
+
+  let phone: string | null = null;
+  for (const match of header.matchAll(PHONE_PATTERN)) {
+    phone = normalizePhone(match[0]);
+    if (phone) break;
+  }
+
+  return {
+    contentHash: computeContentHash(text),
+    email: email ? normalizeEmail(email[0]) : null,
+    phone,
+  };
+}
+
+/**
+ * The existing resume the upload most likely duplicates: the one matching the
+ * most fingerprints, then the closest embedding, then the oldest. Pass the
+ * upload's content embedding to include near-duplicate similarity.
+ */
+export function findDuplicateMatch(
+  fingerprint: ResumeFingerprint,
+  embedding: number[] | null,
+  candidates: Resume[]
+): DuplicateMatch | null {
+  const query = toEmbeddingVector(embedding);
+
+  const matches = candidates.flatMap((resume): DuplicateMatch[] => {
+    const signals: DuplicateSignal[] = [];
+    if (resume.contentHash === fingerprint.contentHash) signals.push('content_hash');
+    if (fingerprint.email && resume.contactEmail === fingerprint.email) signals.push('email');
+    if (fingerprint.phone && resume.contactPhone === fingerprint.phone) signals.push('phone');
+
+    const vector = query ? toEmbeddingVector(resume.embedding) : null;
+    const similarity = query && vector ? cosineSimilarity(query, vector) : null;
+    if (similarity !== null && similarity >= NEAR_DUPLICATE_SIMILARITY) signals.push('embedding');
+
+    return signals.length > 0 ? [{ resume, signals, similarity }] : [];
+  });
+
+  matches.sort((a, b) =>
+    b.signals.length - a.signals.length ||
+    (b.similarity ?? -1) - (a.similarity ?? -1) ||
+    a.resume.id - b.resume.id
+  );
+  return matches[0] ?? null;
+}
+
+/**
+ * Whether analysis can skip the resume: the user merged it into a group as a
+ * copy of the group's primary resume. Suspected copies still await review and
+ * are analyzed.
+ */
+export function isKnownDuplicate(resume: Pick<Resume, 'candidateGroupId' | 'duplicateStatus'>): boolean {
+  return resume.candidateGroupId !== null && resume.duplicateStatus === 'merged';
+}
@@ -0,0 +1,408 @@
+/**
+ * Structured Resume Entity Extraction
+ *
+ * Deterministic (no LLM) extraction of typed records from the sections
+ * produced by extractResumeSections(): work history with tenure and
+ * employment gaps, degrees, and certifications with expiry.
+ *
+ * Dates are normalised to "YYYY-MM". When a resume only gives a year,
+ * a start year counts from January and an end year or expiry year through
+ * December of that year, so "2018 - 2020" is 36 months and a certification
+ * that "Expires 2026" is valid until 2027.
+ */
+
+import type { ResumeSection } from './document-parser';
+import type {
+  StructuredResumeData,
+  WorkHistoryEntry,
+  EmploymentGap,
+  DegreeRecord,
+  DegreeLevel,
+  CertificationRecord,
+} from '@shared/schema';
+
+// Gaps shorter than this are normal job-change noise and are not reported
+const MIN_GAP_MONTHS = 3;
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const DATE_TOKEN =
+  '(?:(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?,?\\s+\\d{4}' +
+  '|\\d{1,2}\\/\\d{4}' +
+  '|\\d{4}-\\d{2}(?!\\d)' +
+  '|\\d{4})';
+const PRESENT_TOKEN = '(?:present|current|currently|now|today|ongoing)';
+
+const DATE_RANGE_PATTERN = new RegExp(
+  `(${DATE_TOKEN})\\s*(?:-|–|—|to|until|through)\\s*(${DATE_TOKEN}|${PRESENT_TOKEN})`,
+  'i'
+);
+const SINGLE_DATE_PATTERN = new RegExp(DATE_TOKEN, 'i');
+const EXPIRY_PATTERN = new RegExp(
+  `(?:expires?|expiry|expiration|expired|exp\\.?|valid\\s+(?:until|through|thru)|renewal\\s+due)\\s*(?:on|:)?\\s*(${DATE_TOKEN})`,
+  'i'
+);
+const ISSUE_PATTERN = new RegExp(
+  `(?:issued|obtained|earned|awarded|certified|completed)\\s*(?:on|in|:)?\\s*(${DATE_TOKEN})`,
+  'i'
+);
+
+const BULLET_PATTERN = /^[•\-*▪●◦‣–·]\s*/;
+const HEADER_SEPARATOR_PATTERN = /\s*[|•·]\s*|\s+[-–—]\s+/;
+const FIELD_SEPARATOR_PATTERN = /\s*[|•·,]\s*|\s+[-–—]\s+/;
+const TITLE_KEYWORDS =
+  /\b(engineer|developer|manager|analyst|designer|director|lead|consultant|intern|scientist|specialist|architect|administrator|coordinator|officer|head|president|vp|associate|assistant|technician|programmer|accountant|nurse|teacher|representative|executive|supervisor|founder|researcher|advisor|writer|editor)\b/i;
+const INSTITUTION_PATTERN = /\b(university|college|institute|school|academy|polytechnic)\b/i;
+
+// Undotted "MS", "BS" and "BA" only count when a field follows ("BS in
+// Physics"), so "MS Office" or "BA team" are not read as degrees
+const DEGREE_PATTERNS: Array<{ level: DegreeLevel; pattern: RegExp }> = [
+  { level: 'doctorate', pattern: /(?<![a-z])(ph\.?\s?d\.?|doctorate|doctor of|d\.phil|ed\.d\.?)(?![a-z])/i },
+  { level: 'master', pattern: /(?<![a-z])(master'?s?|mba|m\.?sc|m\.s\.|m\.a\.|m\.eng|m\.tech|ms(?=\s+(?:in|of)\s+[a-z])|meng)(?![a-z])/i },
+  { level: 'bachelor', pattern: /(?<![a-z])(bachelor'?s?|b\.?sc|b\.s\.|b\.a\.|b\.eng|b\.tech|(?:bs|ba)(?=\s+(?:in|of)\s+[a-z])|beng|btech)(?![a-z])/i },
+  { level: 'associate', pattern: /(?<![a-z])(associate'?s?|a\.a\.|a\.s\.)(?![a-z])/i },
+  { level: 'diploma', pattern: /(?<![a-z])(diploma|hnd|ged)(?![a-z])/i },
+];
+
+interface ParsedDate {
+  year: number;
+  month: number | null;
+}
+
+interface MonthInterval {
+  start: number;
+  end: number; // exclusive
+}
+
+/**
+ * Extract structured entities from parsed resume sections
+ * @param sections Sections from extractResumeSections()
+ * @param referenceDate Date used for "Present" and certification expiry (defaults to now)
+ */
+export function extractResumeEntities(
+  sections: ResumeSection[],
+  referenceDate: Date = new Date()
+): StructuredResumeData {
+  const referenceMonth = referenceDate.getFullYear() * 12 + referenceDate.getMonth();
+  const contentOf = (type: ResumeSection['type']) =>
+    sections.filter(section => section.type === type).map(section => section.content);
+
+  const workItems = contentOf('experience').flatMap(content => extractWorkHistory(content, referenceMonth));
+  const intervals = workItems
+    .map(item => item.interval)
+    .filter((interval): interval is MonthInterval => interval !== null);
+
+  return {
+    workHistory: workItems.map(item => item.entry),
+    employmentGaps: findEmploymentGaps(intervals),
+    totalExperienceMonths: countCoveredMonths(intervals),
+    degrees: contentOf('education').flatMap(extractDegrees),
+    certifications: contentOf('certifications').flatMap(content => extractCertifications(content, referenceMonth)),
+    extractedAt: referenceDate.toISOString(),
+  };
+}
+
+// ===== DATE HELPERS =====
+
+function parseDateToken(token: string): ParsedDate | null {
+  const value = token.trim().toLowerCase();
+
+  const monthName = value.match(/^([a-z]+)\.?,?\s+(\d{4})$/);
+  if (monthName) {
+    const month = MONTHS[monthName[1].slice(0, 4)] ?? MONTHS[monthName[1].slice(0, 3)];
+    return month ? validYear(parseInt(monthName[2], 10), month) : null;
+  }
+
+  const slashed = value.match(/^(\d{1,2})\/(\d{4})$/);
+  if (slashed) {
+    const month = parseInt(slashed[1], 10);
+    return month >= 1 && month <= 12 ? validYear(parseInt(slashed[2], 10), month) : null;
+  }
+
+  const iso = value.match(/^(\d{4})-(\d{2})$/);
+  if (iso) {
+    const month = parseInt(iso[2], 10);
+    return month >= 1 && month <= 12 ? validYear(parseInt(iso[1], 10), month) : null;
+  }
+
+  if (/^\d{4}$/.test(value)) {
+    return validYear(parseInt(value, 10), null);
+  }
+
+  return null;
+}
+
+function validYear(year: number, month: number | null): ParsedDate | null {
+  return year >= 1950 && year <= 2100 ? { year, month } : null;
+}
+
+function toMonthIndex(date: ParsedDate): number {
+  return date.year * 12 + ((date.month ?? 1) - 1);
+}
+
+// A year-only end date covers the whole year
+function toLastMonthIndex(date: ParsedDate): number {
+  return date.year * 12 + ((date.month ?? 12) - 1);
+}
+
+function formatMonthIndex(index: number): string {
+  const year = Math.floor(index / 12);
+  const month = (index % 12) + 1;
+  return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+function isPresent(token: string): boolean {
+  return new RegExp(`^${PRESENT_TOKEN}$`, 'i').test(token.trim());
+}
+
+// ===== WORK HISTORY =====
+
+function extractWorkHistory(
+  content: string,
+  referenceMonth: number
+): Array<{ entry: WorkHistoryEntry; interval: MonthInterval | null }> {
+  const lines = content.split('\n').map(line => line.trim()).filter(Boolean);
+  const drafts: Array<{ headerParts: string[]; rangeMatch: RegExpMatchArray; description: string[] }> = [];
+  let preamble: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const rangeMatch = line.match(DATE_RANGE_PATTERN);
+
+    if (!rangeMatch) {
+      if (drafts.length > 0) {
+        drafts[drafts.length - 1].description.push(line);
+      } else {
+        preamble.push(line);
+      }
+      continue;
+    }
+
+    let headerParts = splitHeader(line.replace(rangeMatch[0], ''));
+
+    // "Company  2019 - 2021\nTitle": the missing half sits on the next line
+    const next = lines[i + 1];
+    if (headerParts.length === 1 && next && isHeaderLine(next) && !DATE_RANGE_PATTERN.test(next)) {
+      headerParts = [...headerParts, ...splitHeader(next)];
+      i++;
+    }
+
+    // "Title\nCompany\nJan 2020 - Present": the header sits on the lines above
+    if (headerParts.length < 2) {
+      const above = drafts.length > 0 ? drafts[drafts.length - 1].description : preamble;
+      const borrowed: string[] = [];
+      while (borrowed.length + headerParts.length < 2 && above.length > 0 && isHeaderLine(above[above.length - 1])) {
+        borrowed.unshift(above.pop()!);
+      }
+      headerParts = [...borrowed.flatMap(splitHeader), ...headerParts];
+    }
+
+    drafts.push({ headerParts, rangeMatch, description: [] });
+    preamble = [];
+  }
+
+  return drafts.map(({ headerParts, rangeMatch, description }) => {
+    const { title, employer } = assignTitleAndEmployer(headerParts);
+    const start = parseDateToken(rangeMatch[1]);
+    const isCurrent = isPresent(rangeMatch[2]);
+    const end = isCurrent ? null : parseDateToken(rangeMatch[2]);
+
+    let interval: MonthInterval | null = null;
+    if (start && (isCurrent || end)) {
+      const startIndex = toMonthIndex(start);
+      // Ranges include their final month
+      const endIndex = isCurrent ? referenceMonth + 1 : toLastMonthIndex(end!) + 1;
+      if (endIndex >= startIndex) {
+        interval = { start: startIndex, end: endIndex };
+      }
+    }
+
+    const descriptionText = description.map(line => line.replace(BULLET_PATTERN, '')).join('\n').trim();
+
+    return {
+      entry: {
+        employer,
+        title,
+        startDate: start ? formatMonthIndex(toMonthIndex(start)) : null,
+        endDate: end ? formatMonthIndex(toLastMonthIndex(end)) : null,
+        isCurrent,
+        tenureMonths: interval ? interval.end - interval.start : 0,
+        ...(descriptionText ? { description: descriptionText } : {}),
+      },
+      interval,
+    };
+  });
+}
+
+// Short, non-bullet, non-sentence lines can hold a job title or employer
+function isHeaderLine(line: string): boolean {
+  return !BULLET_PATTERN.test(line) && line.length <= 80 && !/[.!?]$/.test(line);
+}
+
+function splitHeader(text: string): string[] {
+  const cleaned = text.replace(/[()[\]]/g, ' ').replace(/\s{2,}/g, ' ').trim().replace(/^[\s,|:–—-]+|[\s,|:–—-]+$/g, '');
+  if (!cleaned) return [];
+
+  const atMatch = cleaned.match(/^(.+?)\s+at\s+(.+)$/i);
+  if (atMatch) return [atMatch[1].trim(), atMatch[2].trim()];
+
+  let parts = cleaned.split(HEADER_SEPARATOR_PATTERN);
+  if (parts.length === 1) {
+    parts = cleaned.split(/\s*,\s*/);
+  }
+  return parts.map(part => part.trim()).filter(part => part.length > 1);
+}
+
+function assignTitleAndEmployer(parts: string[]): { title: string; employer: string } {
+  if (parts.length === 0) return { title: '', employer: '' };
+  if (parts.length === 1) {
+    return TITLE_KEYWORDS.test(parts[0]) ? { title: parts[0], employer: '' } : { title: '', employer: parts[0] };
+  }
+
+  const titleIndex = parts.findIndex(part => TITLE_KEYWORDS.test(part));
+  if (titleIndex === -1 || titleIndex === 0) {
+    return { title: parts[0], employer: parts[1] };
+  }
+  return { title: parts[titleIndex], employer: parts[titleIndex === 1 ? 0 : 1] };
+}
+
+function countCoveredMonths(intervals: MonthInterval[]): number {
+  return mergeIntervals(intervals).reduce((total, interval) => total + (interval.end - interval.start), 0);
+}
+
+function findEmploymentGaps(intervals: MonthInterval[]): EmploymentGap[] {
+  const merged = mergeIntervals(intervals);
+  const gaps: EmploymentGap[] = [];
+
+  for (let i = 1; i < merged.length; i++) {
+    const months = merged[i].start - merged[i - 1].end;
+    if (months >= MIN_GAP_MONTHS) {
+      gaps.push({
+        startDate: formatMonthIndex(merged[i - 1].end),
+        endDate: formatMonthIndex(merged[i].start - 1),
+        months,
+      });
+    }
+  }
+
+  return gaps;
+}
+
+function mergeIntervals(intervals: MonthInterval[]): MonthInterval[] {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  const merged: MonthInterval[] = [];
+
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  return merged;
+}
+
+// ===== EDUCATION =====
+
+function extractDegrees(content: string): DegreeRecord[] {
+  const lines = content.split('\n').map(line => line.replace(BULLET_PATTERN, '').trim()).filter(Boolean);
+  const degrees: DegreeRecord[] = [];
+
+  lines.forEach((line, index) => {
+    const match = DEGREE_PATTERNS.find(({ pattern }) => pattern.test(line));
+    if (!match) return;
+
+    const neighbours = [lines[index - 1], lines[index + 1]].filter(
+      (neighbour): neighbour is string => !!neighbour && !DEGREE_PATTERNS.some(({ pattern }) => pattern.test(neighbour))
+    );
+    const institutionSource = [line, ...neighbours].find(text => INSTITUTION_PATTERN.test(text));
+    const years = [line, ...neighbours]
+      .flatMap(text => text.match(/\b(19[5-9]\d|20\d{2})\b/g) ?? [])
+      .map(year => parseInt(year, 10));
+
+    const parts = line
+      .replace(new RegExp(DATE_RANGE_PATTERN.source, 'gi'), ' ')
+      .replace(/\b(19[5-9]\d|20\d{2})\b/g, ' ')
+      .split(FIELD_SEPARATOR_PATTERN)
+      .map(part => part.replace(/[()]/g, '').trim())
+      .filter(Boolean);
+
+    const degreeText = parts.find(part => match.pattern.test(part)) ?? line;
+    const institution = institutionSource
+      ? institutionSource
+        .split(FIELD_SEPARATOR_PATTERN)
+        .find(part => INSTITUTION_PATTERN.test(part))
+        ?.replace(/[()]/g, '').trim()
+      : undefined;
+    const field = degreeText.match(/^.*\b(?:in|of)\s+([A-Za-z][A-Za-z&/\s]+?)\s*$/)?.[1]?.trim();
+
+    degrees.push({
+      degree: degreeText,
+      level: match.level,
+      ...(field ? { field } : {}),
+      ...(institution ? { institution } : {}),
+      ...(years.length > 0 ? { graduationYear: Math.max(...years) } : {}),
+    });
+  });
+
+  return degrees;
+}
+
+// ===== CERTIFICATIONS =====
+
+function extractCertifications(content: string, referenceMonth: number): CertificationRecord[] {
+  const lines = content.split('\n').map(line => line.replace(BULLET_PATTERN, '').trim()).filter(line => line.length > 2);
+
+  return lines.map(line => {
+    let remaining = line;
+    let issueDate: ParsedDate | null = null;
+    let expiryDate: ParsedDate | null = null;
+
+    const expiryMatch = remaining.match(EXPIRY_PATTERN);
+    if (expiryMatch) {
+      expiryDate = parseDateToken(expiryMatch[1]);
+      remaining = remaining.replace(expiryMatch[0], ' ');
+    }
+
+    const issueMatch = remaining.match(ISSUE_PATTERN);
+    if (issueMatch) {
+      issueDate = parseDateToken(issueMatch[1]);
+      remaining = remaining.replace(issueMatch[0], ' ');
+    }
+
+    const rangeMatch = remaining.match(DATE_RANGE_PATTERN);
+    if (rangeMatch) {
+      issueDate = issueDate ?? parseDateToken(rangeMatch[1]);
+      expiryDate = expiryDate ?? (isPresent(rangeMatch[2]) ? null : parseDateToken(rangeMatch[2]));
+      remaining = remaining.replace(rangeMatch[0], ' ');
+    }
+
+    const singleMatch = remaining.match(SINGLE_DATE_PATTERN);
+    if (singleMatch && !issueDate) {
+      issueDate = parseDateToken(singleMatch[0]);
+      remaining = remaining.replace(singleMatch[0], ' ');
+    }
+
+    const parts = remaining
+      .replace(/[()[\]]/g, ' ')
+      .replace(/\bissued\s+by\b/i, '|')
+      .split(/\s*[|,]\s*|\s+[-–—]\s+|\s+by\s+/i)
+      .map(part => part.replace(/\s{2,}/g, ' ').trim().replace(/^[:;.–—-]+|[:;.–—-]+$/g, '').trim())
+      .filter(Boolean);
+
+    const expiryIndex = expiryDate ? toLastMonthIndex(expiryDate) : null;
+
+    return {
+      name: parts[0] ?? line,
+      ...(parts[1] ? { issuer: parts[1] } : {}),
+      issueDate: issueDate ? formatMonthIndex(toMonthIndex(issueDate)) : null,
+      expiryDate: expiryIndex !== null ? formatMonthIndex(expiryIndex) : null,
+      isExpired: expiryIndex !== null && expiryIndex < referenceMonth,
+    };
+  });
+}
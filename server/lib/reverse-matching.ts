@@ -0,0 +1,91 @@
+/**
+ * Reverse Matching Prefilter
+ *
+ * Ranks a user's job descriptions against one resume using the embeddings
+ * stored at upload time, so the expensive hybrid analysis only runs on the
+ * most promising jobs. Jobs or resumes without stored vectors fall back to
+ * a plain required-skill overlap.
+ */
+
+import type { JobDescription, Resume } from "@shared/schema";
+import { cosineSimilarity } from "./embeddings";
+
+export type JobPrefilterMethod = "embedding" | "skills" | "none";
+
+export interface JobPrefilterResult {
+  job: JobDescription;
+  /** 0-100, comparable between jobs scored with the same method */
+  score: number;
+  method: JobPrefilterMethod;
+}
+
+export const DEFAULT_MATCHING_JOBS_LIMIT = 5;
+export const MAX_MATCHING_JOBS_LIMIT = 10;
+
+// Embedding scores rank ahead of skill-overlap scores, which rank ahead of
+// jobs there was nothing to compare against
+const METHOD_PRIORITY: Record<JobPrefilterMethod, number> = {
+  embedding: 2,
+  skills: 1,
+  none: 0,
+};
+
+type ResumeVectors = Pick<Resume, "embedding" | "skillsEmbedding" | "skills" | "analyzedData">;
+
+function similarity(a?: number[] | null, b?: number[] | null): number | null {
+  if (!a?.length || !b?.length || a.length !== b.length) {
+    return null;
+  }
+  return cosineSimilarity(a, b);
+}
+
+function skillOverlap(resume: ResumeVectors, job: JobDescription): number | null {
+  const jobSkills = job.analyzedData?.requiredSkills?.length
+    ? job.analyzedData.requiredSkills
+    : job.skills || [];
+  const resumeSkills = new Set(
+    (resume.analyzedData?.skills || resume.skills || []).map(skill => skill.trim().toLowerCase())
+  );
+
+  if (jobSkills.length === 0 || resumeSkills.size === 0) {
+    return null;
+  }
+
+  const matched = jobSkills.filter(skill => resumeSkills.has(skill.trim().toLowerCase())).length;
+  return matched / jobSkills.length;
+}
+
+/**
+ * Cheap first-pass score of one job for a resume
+ */
+export function scoreJobForResume(resume: ResumeVectors, job: JobDescription): Omit<JobPrefilterResult, "job"> {
+  const similarities = [
+    similarity(resume.embedding, job.embedding),
+    similarity(resume.skillsEmbedding, job.requirementsEmbedding),
+  ].filter((value): value is number => value !== null);
+
+  if (similarities.length > 0) {
+    const average = similarities.reduce((sum, value) => sum + value, 0) / similarities.length;
+    return { score: Math.round(Math.max(0, average) * 100), method: "embedding" };
+  }
+
+  const overlap = skillOverlap(resume, job);
+  if (overlap !== null) {
+    return { score: Math.round(overlap * 100), method: "skills" };
+  }
+
+  return { score: 0, method: "none" };
+}
+
+/**
+ * Rank jobs for a resume, best first
+ */
+export function prefilterJobsForResume(resume: ResumeVectors, jobs: JobDescription[]): JobPrefilterResult[] {
+  return jobs
+    .map(job => ({ job, ...scoreJobForResume(resume, job) }))
+    .sort((a, b) =>
+      METHOD_PRIORITY[b.method] - METHOD_PRIORITY[a.method] ||
+      b.score - a.score ||
+      b.job.id - a.job.id
+    );
+}
@@ -1,15 +1,19 @@
 /**
  * Unified Prompt Template Engine for AI Providers
- * 
+ *
  * Consolidates prompt generation logic that was previously duplicated across
  * anthropic.ts, openai.ts, and groq.ts (~300 lines each)
- * 
+ *
  * Eliminates ~900+ lines of duplicate prompt code.
+ *
+ * The JSON schemas below are the contract for AnalysisResponseParser in
+ * response-parser.ts - change them together.
  */
 
 import { logger } from "../logger";
+import { generateConsistentScoringPrompt } from "../consistent-scoring";
 
-export type ProviderFormat = 'anthropic' | 'openai' | 'groq';
+export type ProviderFormat = 'anthropic' | 'openai' | 'groq' | 'local';
 
 export interface PromptOptions {
   format?: ProviderFormat;
@@ -38,13 +42,26 @@ export interface MatchAnalysisContext {
   resumeAnalysis: object;
   jobAnalysis: object;
   includeInterviewQuestions?: boolean;
+  // With both original texts the rubric-based consistent scoring prompt is used
+  resumeText?: string;
+  jobText?: string;
 }
 
+export interface InterviewContext {
+  resumeAnalysis: object;
+  jobAnalysis: object;
+  matchAnalysis: object;
+  jobTitle?: string;
+  candidateName?: string;
+}
+
+type PromptType = 'resume' | 'job' | 'match' | 'bias' | 'interview' | 'script';
+
 /**
  * Centralized prompt template engine for all AI providers
  */
 export class PromptTemplateEngine {
-  
+
   // ==================== RESUME ANALYSIS PROMPTS ====================
 
   /**
@@ -52,34 +69,23 @@ export class PromptTemplateEngine {
    */
   static generateResumeAnalysisPrompt(context: ResumeAnalysisContext, options: PromptOptions = {}): string {
     const { format = 'anthropic' } = options;
-    
-    const basePrompt = this.getBaseResumeAnalysisPrompt();
-    const formatInstructions = this.getFormatInstructions('resume', format);
-    const jsonSchema = this.getResumeAnalysisSchema();
-    
-    let prompt = `${basePrompt}\n\n${formatInstructions}\n\n${jsonSchema}\n\n`;
-    
-    // Add provider-specific formatting
-    switch (format) {
-      case 'anthropic':
-        prompt += this.wrapForAnthropic(prompt, context.text);
-        break;
-      case 'openai':
-        prompt += this.wrapForOpenAI(prompt, context.text);
-        break;
-      case 'groq':
-        prompt += this.wrapForGroq(prompt, context.text);
-        break;
-    }
+
+    let prompt = this.compose(
+      format,
+      this.getBaseResumeAnalysisPrompt(),
+      this.getFormatInstructions('resume', format),
+      this.getResumeAnalysisSchema(),
+      context.text,
+    );
 
     if (options.customInstructions) {
       prompt += `\n\nAdditional Instructions: ${options.customInstructions}`;
     }
 
-    logger.debug('Generated resume analysis prompt', { 
-      format, 
+    logger.debug('Generated resume analysis prompt', {
+      format,
       textLength: context.text.length,
-      promptLength: prompt.length 
+      promptLength: prompt.length
     });
 
     return prompt;
@@ -92,31 +98,21 @@ export class PromptTemplateEngine {
    */
   static generateJobAnalysisPrompt(context: JobAnalysisContext, options: PromptOptions = {}): string {
     const { format = 'anthropic' } = options;
-    
-    const basePrompt = this.getBaseJobAnalysisPrompt();
-    const formatInstructions = this.getFormatInstructions('job', format);
-    const jsonSchema = this.getJobAnalysisSchema();
-    
-    let prompt = `${basePrompt}\n\n${formatInstructions}\n\n${jsonSchema}\n\n`;
-    
+
     const jobText = `Job Title: ${context.title}\n\nJob Description: ${context.description}`;
-    
-    switch (format) {
-      case 'anthropic':
-        prompt = this.wrapForAnthropic(prompt, jobText);
-        break;
-      case 'openai':
-        prompt = this.wrapForOpenAI(prompt, jobText);
-        break;
-      case 'groq':
-        prompt = this.wrapForGroq(prompt, jobText);
-        break;
-    }
 
-    logger.debug('Generated job analysis prompt', { 
-      format, 
+    const prompt = this.compose(
+      format,
+      this.getBaseJobAnalysisPrompt(),
+      this.getFormatInstructions('job', format),
+      this.getJobAnalysisSchema(),
+      jobText,
+    );
+
+    logger.debug('Generated job analysis prompt', {
+      format,
       title: context.title,
-      descLength: context.description.length 
+      descLength: context.description.length
     });
 
     return prompt;
@@ -129,28 +125,20 @@ export class PromptTemplateEngine {
    */
   static generateMatchAnalysisPrompt(context: MatchAnalysisContext, options: PromptOptions = {}): string {
     const { format = 'anthropic' } = options;
-    
-    const basePrompt = this.getBaseMatchAnalysisPrompt();
-    const formatInstructions = this.getFormatInstructions('match', format);
-    const jsonSchema = this.getMatchAnalysisSchema();
-    
-    let prompt = `${basePrompt}\n\n${formatInstructions}\n\n${jsonSchema}\n\n`;
-    
-    const analysisText = `Resume Analysis: ${JSON.stringify(context.resumeAnalysis, null, 2)}\n\nJob Analysis: ${JSON.stringify(context.jobAnalysis, null, 2)}`;
-    
-    switch (format) {
-      case 'anthropic':
-        prompt = this.wrapForAnthropic(prompt, analysisText);
-        break;
-      case 'openai':
-        prompt = this.wrapForOpenAI(prompt, analysisText);
-        break;
-      case 'groq':
-        prompt = this.wrapForGroq(prompt, analysisText);
-        break;
+
+    if (context.resumeText && context.jobText) {
+      return generateConsistentScoringPrompt(context.resumeText, context.jobText, 'match');
     }
 
-    return prompt;
+    const analysisText = `Resume Analysis: ${JSON.stringify(context.resumeAnalysis, null, 2)}\n\nJob Analysis: ${JSON.stringify(context.jobAnalysis, null, 2)}`;
+
+    return this.compose(
+      format,
+      this.getBaseMatchAnalysisPrompt(),
+      this.getFormatInstructions('match', format),
+      this.getMatchAnalysisSchema(),
+      analysisText,
+    );
   }
 
   // ==================== BIAS ANALYSIS PROMPTS ====================
@@ -160,28 +148,48 @@ export class PromptTemplateEngine {
    */
   static generateBiasAnalysisPrompt(context: JobAnalysisContext, options: PromptOptions = {}): string {
     const { format = 'anthropic' } = options;
-    
-    const basePrompt = this.getBiasAnalysisPrompt();
-    const formatInstructions = this.getFormatInstructions('bias', format);
-    const jsonSchema = this.getBiasAnalysisSchema();
-    
-    let prompt = `${basePrompt}\n\n${formatInstructions}\n\n${jsonSchema}\n\n`;
-    
+
     const jobText = `Job Title: ${context.title}\n\nJob Description: ${context.description}`;
-    
-    switch (format) {
-      case 'anthropic':
-        prompt = this.wrapForAnthropic(prompt, jobText);
-        break;
-      case 'openai':
-        prompt = this.wrapForOpenAI(prompt, jobText);
-        break;
-      case 'groq':
-        prompt = this.wrapForGroq(prompt, jobText);
-        break;
-    }
 
-    return prompt;
+    return this.compose(
+      format,
+      this.getBiasAnalysisPrompt(),
+      this.getFormatInstructions('bias', format),
+      this.getBiasAnalysisSchema(),
+      jobText,
+    );
+  }
+
+  // ==================== INTERVIEW PROMPTS ====================
+
+  /**
+   * Generate interview questions prompt
+   */
+  static generateInterviewQuestionsPrompt(context: InterviewContext, options: PromptOptions = {}): string {
+    const { format = 'anthropic' } = options;
+
+    return this.compose(
+      format,
+      this.getInterviewQuestionsPrompt(),
+      this.getFormatInstructions('interview', format),
+      this.getInterviewQuestionsSchema(),
+      this.formatInterviewContext(context),
+    );
+  }
+
+  /**
+   * Generate full interview script prompt (opening to closing)
+   */
+  static generateInterviewScriptPrompt(context: InterviewContext, options: PromptOptions = {}): string {
+    const { format = 'anthropic' } = options;
+
+    return this.compose(
+      format,
+      `${this.getInterviewScriptPrompt()}\n\nPosition: ${context.jobTitle || 'Not specified'}\nCandidate: ${context.candidateName || 'the candidate'}`,
+      this.getFormatInstructions('script', format),
+      this.getInterviewScriptSchema(),
+      this.formatInterviewContext(context),
+    );
   }
 
   // ==================== BASE PROMPT TEMPLATES ====================
@@ -191,56 +199,47 @@ export class PromptTemplateEngine {
 
 Your task is to:
 1. Extract personal information (name, contact details, location)
-2. Identify and categorize skills (technical, soft, domain-specific)
-3. Parse work experience with roles, companies, dates, and achievements
-4. Extract education details (degrees, institutions, dates, relevant coursework)
-5. Calculate an overall experience level and confidence score
-6. Provide insights on resume strength and areas for improvement
+2. Identify technical, soft and domain-specific skills
+3. Parse work experience with roles, companies and durations
+4. Extract education details (degrees and institutions)
+5. Calculate total years of professional experience
+6. Summarize the candidate and their key strengths
 
 Important guidelines:
 - Be precise and factual - only extract information that is clearly stated
 - Standardize job titles and skill names for consistency
 - Calculate years of experience based on provided dates
-- Assign confidence scores (0-100) based on information quality
-- Handle missing or unclear information gracefully`;
+- Handle missing or unclear information gracefully (use null or empty arrays)`;
   }
 
   private static getBaseJobAnalysisPrompt(): string {
     return `You are an expert job description analyzer. Analyze the provided job posting and extract structured information.
 
 Your task is to:
-1. Categorize required vs preferred skills and qualifications
+1. Separate required skills from preferred (nice-to-have) skills
 2. Determine experience level requirements (entry, mid, senior, executive)
 3. Extract key responsibilities and duties
-4. Identify company information and culture indicators
-5. Parse compensation, benefits, and location details
-6. Calculate role complexity and requirements clarity
-7. Assess potential bias indicators in language
+4. Summarize the role in one or two sentences
 
 Important guidelines:
 - Distinguish between "required" and "nice-to-have" qualifications
 - Standardize skill names and experience requirements
-- Identify implicit bias in job language (gender, age, cultural)
-- Extract both explicit and implied requirements
-- Assess job posting quality and completeness`;
+- Extract both explicit and implied requirements`;
   }
 
   private static getBaseMatchAnalysisPrompt(): string {
     return `You are an expert at matching resumes to job requirements. Analyze how well the candidate fits the position.
 
 Your task is to:
-1. Calculate skill match percentages for required and preferred skills
-2. Assess experience level alignment (under/over/appropriate)
-3. Evaluate education and certification fit
-4. Identify strengths and gaps in the candidate profile
-5. Generate an overall match score with detailed breakdown
-6. Provide specific recommendations for improving candidacy
-7. Suggest interview questions based on analysis
+1. Score each job skill the candidate has (0-100)
+2. List the required skills the candidate is missing
+3. Identify strengths and gaps in the candidate profile
+4. Generate an overall match percentage
+5. Provide specific recommendations for improving candidacy
 
 Important guidelines:
+- Score consistently: the same inputs must always produce the same score
 - Provide specific, actionable feedback
-- Highlight both strengths and areas for improvement
-- Consider career progression and growth potential
 - Be objective and fair in assessments
 - Focus on job-relevant factors only`;
   }
@@ -251,24 +250,76 @@ Important guidelines:
 Your task is to:
 1. Identify gender-biased language and suggest alternatives
 2. Detect age discrimination indicators
-3. Find cultural or socioeconomic bias markers
-4. Assess accessibility and inclusion language
-5. Evaluate requirement necessity vs bias potential
-6. Provide specific recommendations for improvement
-7. Calculate overall bias risk score
+3. Find cultural, socioeconomic or disability bias markers
+4. Provide specific recommendations for improvement
+5. Rewrite the description with biased language removed
+6. Calculate an overall score (100 is bias-free)
 
 Important guidelines:
-- Be thorough but constructive in feedback
+- Look for bias related to age, gender, race, religion, disability, nationality, sexual orientation and other protected characteristics
 - Provide specific alternative language suggestions
-- Consider legal compliance requirements
-- Focus on creating inclusive job postings
-- Assess both explicit and implicit bias indicators`;
+- If no bias is found, return the original description as improvedDescription`;
+  }
+
+  private static getInterviewQuestionsPrompt(): string {
+    return `You are an experienced technical interviewer. Generate 8-12 interview questions for this candidate and role.
+
+Important guidelines:
+- Verify the matched skills with concrete, experience-based questions
+- Probe each significant missing skill constructively
+- Mix technical, behavioral, situational and problem-solving questions
+- Describe what a strong answer looks like for every question`;
+  }
+
+  private static getInterviewScriptPrompt(): string {
+    return `You are an expert HR interviewer. Create a structured, conversational interview script from opening to closing.
+
+Create a personalized script that:
+1. Acknowledges the candidate's current role and experience
+2. Focuses on matched skills with specific examples
+3. Addresses skill gaps constructively
+4. Sells the role based on job highlights
+5. Maintains a professional, conversational tone throughout
+
+Generate 2-3 questions per section.`;
+  }
+
+  private static formatInterviewContext(context: InterviewContext): string {
+    return `Resume Analysis:
+${JSON.stringify(context.resumeAnalysis, null, 2)}
+
+Job Analysis:
+${JSON.stringify(context.jobAnalysis, null, 2)}
+
+Match Analysis:
+${JSON.stringify(context.matchAnalysis, null, 2)}`;
   }
 
   // ==================== PROVIDER-SPECIFIC WRAPPERS ====================
 
+  private static compose(
+    format: ProviderFormat,
+    basePrompt: string,
+    formatInstructions: string,
+    jsonSchema: string,
+    content: string,
+  ): string {
+    const prompt = `${basePrompt}\n\n${formatInstructions}\n\n${jsonSchema}`;
+
+    switch (format) {
+      case 'anthropic':
+        return this.wrapForAnthropic(prompt, content);
+      case 'groq':
+        return this.wrapForGroq(prompt, content);
+      case 'openai':
+      case 'local':
+      default:
+        return this.wrapForOpenAI(prompt, content);
+    }
+  }
+
   private static wrapForAnthropic(prompt: string, content: string): string {
-    return `Human: ${prompt}
+    return `${prompt}
 
 Please analyze the following content:
 
@@ -297,15 +348,16 @@ Return valid JSON response only.`;
 
   // ==================== FORMAT INSTRUCTIONS ====================
 
-  private static getFormatInstructions(type: 'resume' | 'job' | 'match' | 'bias', format: ProviderFormat): string {
+  private static getFormatInstructions(_type: PromptType, format: ProviderFormat): string {
     const baseInstructions = "Return your response as valid JSON only. Do not include explanations, markdown, or additional text.";
-    
+
     switch (format) {
       case 'anthropic':
         return `${baseInstructions} Use the exact schema provided below.`;
       case 'openai':
         return `${baseInstructions} Follow the JSON schema strictly.`;
       case 'groq':
+      case 'local':
         return `${baseInstructions} IMPORTANT: Return only the JSON object with no extra formatting.`;
       default:
         return baseInstructions;
@@ -317,162 +369,133 @@ Return valid JSON response only.`;
   private static getResumeAnalysisSchema(): string {
     return `JSON Schema:
 {
-  "personalInfo": {
-    "name": "string",
+  "name": "string",
+  "contact": {
     "email": "string | null",
     "phone": "string | null",
     "location": "string | null",
-    "linkedIn": "string | null",
-    "portfolio": "string | null"
-  },
-  "skills": {
-    "technical": ["string"],
-    "soft": ["string"],
-    "domain": ["string"]
+    "linkedin": "string | null"
   },
-  "experience": [
+  "skills": ["string"],
+  "experience": "string (e.g. '5 years')",
+  "experienceYears": "number",
+  "workExperience": [
     {
-      "role": "string",
       "company": "string",
+      "position": "string",
       "duration": "string",
-      "yearsOfExperience": "number",
-      "responsibilities": ["string"],
-      "achievements": ["string"]
-    }
-  ],
-  "education": [
-    {
-      "degree": "string",
-      "institution": "string",
-      "year": "string | null",
-      "gpa": "string | null",
-      "relevantCoursework": ["string"]
+      "description": "string"
     }
   ],
-  "summary": {
-    "experienceLevel": "entry | mid | senior | executive",
-    "totalYearsExperience": "number",
-    "keyStrengths": ["string"],
-    "industryFocus": ["string"]
-  },
-  "confidence": "number (0-100)",
-  "processingTime": "number"
+  "education": ["string (e.g. 'BSc Computer Science, MIT')"],
+  "summary": "string",
+  "keyStrengths": ["string"]
 }`;
   }
 
   private static getJobAnalysisSchema(): string {
     return `JSON Schema:
 {
-  "basicInfo": {
-    "title": "string",
-    "company": "string | null",
-    "location": "string | null",
-    "employmentType": "string | null",
-    "experienceLevel": "entry | mid | senior | executive"
-  },
-  "requirements": {
-    "required": {
-      "skills": ["string"],
-      "experience": "string",
-      "education": "string | null",
-      "certifications": ["string"]
-    },
-    "preferred": {
-      "skills": ["string"],
-      "experience": "string | null",
-      "education": "string | null",
-      "certifications": ["string"]
-    }
-  },
+  "requiredSkills": ["string"],
+  "preferredSkills": ["string"],
+  "experienceLevel": "entry | mid | senior | executive",
   "responsibilities": ["string"],
-  "compensation": {
-    "salary": "string | null",
-    "benefits": ["string"],
-    "equity": "boolean | null"
-  },
-  "companyInfo": {
-    "description": "string | null",
-    "size": "string | null",
-    "industry": "string | null",
-    "culture": ["string"]
-  },
-  "analysis": {
-    "complexity": "low | medium | high",
-    "clarity": "low | medium | high",
-    "competitiveness": "low | medium | high"
-  },
-  "confidence": "number (0-100)",
-  "processingTime": "number"
+  "summary": "string"
 }`;
   }
 
   private static getMatchAnalysisSchema(): string {
     return `JSON Schema:
 {
-  "overallScore": "number (0-100)",
-  "breakdown": {
-    "skillsMatch": {
-      "score": "number (0-100)",
-      "requiredSkillsMatch": "number (0-100)",
-      "preferredSkillsMatch": "number (0-100)",
-      "missingSkills": ["string"],
-      "strongSkills": ["string"]
-    },
-    "experienceMatch": {
-      "score": "number (0-100)",
-      "levelAlignment": "under | appropriate | over",
-      "yearsGap": "number",
-      "industryRelevance": "number (0-100)"
-    },
-    "educationMatch": {
-      "score": "number (0-100)",
-      "meetsRequirements": "boolean",
-      "relevantDegree": "boolean"
-    }
-  },
-  "strengths": ["string"],
-  "concerns": ["string"],
+  "matchPercentage": "number (0-100)",
+  "matchedSkills": [
+    {"skill": "string", "matchPercentage": "number (0-100)"}
+  ],
+  "missingSkills": ["string"],
+  "candidateStrengths": ["string"],
+  "candidateWeaknesses": ["string"],
   "recommendations": ["string"],
-  "interviewQuestions": ["string"],
-  "confidence": "number (0-100)",
-  "processingTime": "number"
+  "confidenceLevel": "low | medium | high"
 }`;
   }
 
   private static getBiasAnalysisSchema(): string {
     return `JSON Schema:
 {
-  "overallRisk": "low | medium | high",
-  "biasIndicators": {
-    "gender": {
-      "risk": "low | medium | high",
-      "issues": ["string"],
-      "suggestions": ["string"]
-    },
-    "age": {
-      "risk": "low | medium | high", 
-      "issues": ["string"],
-      "suggestions": ["string"]
-    },
-    "cultural": {
-      "risk": "low | medium | high",
-      "issues": ["string"], 
-      "suggestions": ["string"]
-    },
-    "accessibility": {
-      "risk": "low | medium | high",
-      "issues": ["string"],
-      "suggestions": ["string"]
+  "overallScore": "number (0-100, where 100 is bias-free)",
+  "biasIndicators": [
+    {
+      "type": "age | gender | cultural | disability | other",
+      "severity": "low | medium | high",
+      "text": "string (the biased phrase)",
+      "suggestion": "string"
+    }
+  ],
+  "recommendations": ["string"],
+  "summary": "string",
+  "improvedDescription": "string"
+}`;
+  }
+
+  private static getInterviewQuestionsSchema(): string {
+    return `JSON Schema:
+{
+  "questions": [
+    {
+      "question": "string",
+      "category": "technical | behavioral | situational | problem-solving",
+      "difficulty": "easy | medium | hard",
+      "expectedAnswer": "string",
+      "skillsAssessed": ["string"]
     }
+  ],
+  "focusAreas": ["string"],
+  "preparationTips": ["string"]
+}`;
+  }
+
+  private static getInterviewScriptSchema(): string {
+    return `JSON Schema:
+{
+  "jobTitle": "string",
+  "candidateName": "string",
+  "interviewDuration": "string (e.g. '45-60 minutes')",
+  "opening": {
+    "salutation": "string",
+    "iceBreaker": "string",
+    "interviewOverview": "string"
+  },
+  "currentRoleDiscussion": {
+    "roleAcknowledgment": "string",
+    "currentWorkQuestions": [
+      {"question": "string", "purpose": "string", "expectedAnswer": "string"}
+    ]
+  },
+  "skillMatchDiscussion": {
+    "introduction": "string",
+    "matchedSkillsQuestions": [
+      {"skill": "string", "question": "string", "followUpQuestion": "string", "expectedAnswer": "string"}
+    ]
   },
-  "recommendations": {
-    "language": ["string"],
-    "requirements": ["string"],
-    "structure": ["string"]
+  "skillGapAssessment": {
+    "introduction": "string",
+    "gapQuestions": [
+      {"missingSkill": "string", "question": "string", "followUpQuestion": "string", "expectedAnswer": "string", "assessmentCriteria": "string"}
+    ]
   },
-  "score": "number (0-100, where 100 is bias-free)",
-  "confidence": "number (0-100)",
-  "processingTime": "number"
+  "roleSell": {
+    "transitionStatement": "string",
+    "roleHighlights": ["string"],
+    "opportunityDescription": "string",
+    "closingQuestions": [
+      {"question": "string", "purpose": "string"}
+    ]
+  },
+  "closing": {
+    "nextSteps": "string",
+    "candidateQuestions": "string",
+    "finalStatement": "string"
+  }
 }`;
   }
-}
\ No newline at end of file
+}
@@ -8,6 +8,17 @@
  */
 
 import { logger } from "../logger";
+import type {
+  AnalyzeResumeResponse,
+  AnalyzeJobDescriptionResponse,
+  MatchAnalysisResponse,
+  BiasAnalysisResponse,
+  InterviewQuestionsResponse,
+  InterviewQuestionData,
+  InterviewScriptResponse,
+  SkillMatch,
+} from "@shared/schema";
+import type { ResumeId, JobId, AnalysisId } from "@shared/api-contracts";
 
 export interface ParsedResponse<T = unknown> {
   success: boolean;
@@ -38,6 +49,14 @@ export class ResponseParser {
       };
     }
 
+    // Well-behaved providers return bare JSON; stripping markdown from it can
+    // mangle values (underscores, leading list markers), so try it untouched first
+    try {
+      return { success: true, data: this.extractDirectJSON(response) };
+    } catch {
+      // Fall through to the cleaning strategies
+    }
+
     const warnings: string[] = [];
     const originalLength = response.length;
 
@@ -314,4 +333,364 @@ export class GroqResponseParser extends ResponseParser {
     }
     return result as ParsedResponse<T>;
   }
-}
\ No newline at end of file
+}
+// ==================== ANALYSIS NORMALIZATION ====================
+
+interface RawResumeAnalysis {
+  name?: unknown;
+  contact?: unknown;
+  skills?: unknown;
+  experience?: unknown;
+  experienceYears?: unknown;
+  workExperience?: unknown;
+  education?: unknown;
+  summary?: unknown;
+  keyStrengths?: unknown;
+  strengths?: unknown;
+}
+
+interface RawJobAnalysis {
+  requiredSkills?: unknown;
+  preferredSkills?: unknown;
+  experienceLevel?: unknown;
+  responsibilities?: unknown;
+  summary?: unknown;
+}
+
+interface RawMatchAnalysis {
+  matchPercentage?: unknown;
+  overallScore?: unknown;
+  matchedSkills?: unknown;
+  missingSkills?: unknown;
+  candidateStrengths?: unknown;
+  strengths?: unknown;
+  candidateWeaknesses?: unknown;
+  concerns?: unknown;
+  recommendations?: unknown;
+  confidenceLevel?: unknown;
+  skillsScore?: unknown;
+  experienceScore?: unknown;
+  educationScore?: unknown;
+}
+
+interface RawBiasAnalysis {
+  overallScore?: unknown;
+  biasIndicators?: unknown;
+  recommendations?: unknown;
+  summary?: unknown;
+  improvedDescription?: unknown;
+}
+
+interface RawInterviewQuestions {
+  questions?: unknown;
+  focusAreas?: unknown;
+  preparationTips?: unknown;
+  recommendations?: unknown;
+}
+
+const QUESTION_CATEGORIES: InterviewQuestionData['category'][] = ['technical', 'behavioral', 'situational', 'problem-solving'];
+const QUESTION_DIFFICULTIES: InterviewQuestionData['difficulty'][] = ['easy', 'medium', 'hard'];
+const SKILL_IMPORTANCE: SkillMatch['importance'][] = ['critical', 'important', 'nice-to-have'];
+const SKILL_SOURCES: SkillMatch['source'][] = ['exact', 'semantic', 'inferred'];
+const CONFIDENCE_LEVELS: MatchAnalysisResponse['results'][number]['confidenceLevel'][] = ['low', 'medium', 'high'];
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function asString(value: unknown, fallback: string): string {
+  return typeof value === 'string' && value.trim().length > 0 ? value.trim() : fallback;
+}
+
+function asOptionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim().length > 0 ? value.trim() : undefined;
+}
+
+function asStringArray(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).map((item) => item.trim())
+    : [];
+}
+
+function asNumber(value: unknown): number | undefined {
+  const num = typeof value === 'string' ? Number(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : undefined;
+}
+
+function clampScore(value: unknown, fallback = 0): number {
+  return Math.max(0, Math.min(100, asNumber(value) ?? fallback));
+}
+
+function oneOf<T extends string>(value: unknown, allowed: readonly T[], fallback: T): T {
+  return typeof value === 'string' && (allowed as readonly string[]).includes(value.toLowerCase())
+    ? value.toLowerCase() as T
+    : fallback;
+}
+
+/**
+ * Turns raw provider JSON into the response shapes the rest of the server
+ * consumes. Every provider adapter goes through here, so a model that omits
+ * fields or returns loosely typed values still yields a well-formed result.
+ */
+export class AnalysisResponseParser extends ResponseParser {
+  /**
+   * Extract a JSON object from completion text, throwing if there is none
+   */
+  static parseObject<T>(content: string, context: string): T {
+    const parsed = this.extractJSON(content, context);
+    if (!parsed.success || !parsed.data || typeof parsed.data !== 'object' || Array.isArray(parsed.data)) {
+      throw new Error(`Invalid JSON response for ${context}: ${parsed.error ?? 'expected an object'}`);
+    }
+    return parsed.data as T;
+  }
+
+  static toResumeAnalysis(raw: RawResumeAnalysis): AnalyzeResumeResponse {
+    const name = asString(raw.name, 'Name not found');
+    const skills = asStringArray(raw.skills);
+    const keyStrengths = asStringArray(raw.keyStrengths ?? raw.strengths);
+    const contact = asRecord(raw.contact);
+    const contactInfo = {
+      email: asOptionalString(contact.email),
+      phone: asOptionalString(contact.phone),
+      location: asOptionalString(contact.location),
+      linkedin: asOptionalString(contact.linkedin),
+    };
+    const workExperience = (Array.isArray(raw.workExperience) ? raw.workExperience : [])
+      .map(asRecord)
+      .map((job) => ({
+        company: asString(job.company, 'Company not specified'),
+        position: asString(job.position ?? job.title, 'Position not specified'),
+        duration: asString(job.duration, 'Duration not specified'),
+        description: asString(job.description, ''),
+      }));
+
+    return {
+      id: 0 as ResumeId, // Will be set by caller
+      filename: 'resume.txt', // Will be set by caller
+      analyzedData: {
+        name,
+        skills,
+        experience: asString(raw.experience, 'Experience not specified'),
+        education: asStringArray(raw.education),
+        summary: asString(raw.summary, 'Professional with diverse background'),
+        keyStrengths: keyStrengths.length > 0 ? keyStrengths : skills.slice(0, 3),
+        contactInfo,
+        workExperience,
+      },
+      processingTime: 0,
+      confidence: 0.8,
+      name,
+      skills,
+      experience: workExperience,
+      contact: contactInfo,
+      experienceYears: asNumber(raw.experienceYears) ?? 0,
+    };
+  }
+
+  static toJobAnalysis(raw: RawJobAnalysis, title: string): AnalyzeJobDescriptionResponse {
+    const requiredSkills = asStringArray(raw.requiredSkills);
+    const preferredSkills = asStringArray(raw.preferredSkills);
+    const experienceLevel = asString(raw.experienceLevel, 'mid');
+    const responsibilities = asStringArray(raw.responsibilities);
+    const summary = asString(raw.summary, 'Job opportunity');
+
+    return {
+      id: 0 as JobId, // Will be set by caller
+      title,
+      analyzedData: {
+        requiredSkills,
+        preferredSkills,
+        experienceLevel,
+        responsibilities,
+        summary,
+      },
+      processingTime: 0,
+      confidence: 0.8,
+      requiredSkills,
+      preferredSkills,
+      skills: [...requiredSkills, ...preferredSkills],
+      experienceLevel,
+      responsibilities,
+      summary,
+    };
+  }
+
+  static toMatchAnalysis(raw: RawMatchAnalysis, provider: string, model: string): MatchAnalysisResponse {
+    const matchedSkills: SkillMatch[] = (Array.isArray(raw.matchedSkills) ? raw.matchedSkills : [])
+      .map((item): SkillMatch | null => {
+        if (typeof item === 'string') {
+          return { skill: item, matchPercentage: 100, category: 'general', importance: 'important', source: 'inferred' };
+        }
+        const skill = asRecord(item);
+        const name = asOptionalString(skill.skill ?? skill.name);
+        if (!name) return null;
+        return {
+          skill: name,
+          matchPercentage: clampScore(skill.matchPercentage),
+          category: asString(skill.category, 'general'),
+          importance: oneOf(skill.importance, SKILL_IMPORTANCE, 'important'),
+          source: oneOf(skill.source, SKILL_SOURCES, 'semantic'),
+        };
+      })
+      .filter((skill): skill is SkillMatch => skill !== null);
+
+    const matchPercentage = clampScore(raw.matchPercentage ?? raw.overallScore);
+    const missingSkills = asStringArray(raw.missingSkills);
+    const candidateStrengths = asStringArray(raw.candidateStrengths ?? raw.strengths);
+    const candidateWeaknesses = asStringArray(raw.candidateWeaknesses ?? raw.concerns);
+    const recommendations = asStringArray(raw.recommendations);
+    const confidenceLevel = oneOf(raw.confidenceLevel, CONFIDENCE_LEVELS, 'medium');
+    const scoringDimensions = {
+      skills: clampScore(raw.skillsScore, matchPercentage),
+      experience: clampScore(raw.experienceScore, matchPercentage),
+      education: clampScore(raw.educationScore, matchPercentage),
+      semantic: matchPercentage,
+      overall: matchPercentage,
+    };
+
+    return {
+      analysisId: 0 as AnalysisId, // Will be set by caller
+      jobId: 0 as JobId,
+      results: [{
+        resumeId: 0 as ResumeId,
+        filename: 'resume.txt',
+        matchPercentage,
+        matchedSkills,
+        missingSkills,
+        candidateStrengths,
+        candidateWeaknesses,
+        recommendations,
+        confidenceLevel,
+        scoringDimensions,
+      }],
+      processingTime: 0,
+      metadata: {
+        aiProvider: provider,
+        modelVersion: model,
+        totalCandidates: 1,
+        processedCandidates: 1,
+        failedCandidates: 0,
+      },
+      matchPercentage,
+      matchedSkills,
+      missingSkills,
+      candidateStrengths,
+      candidateWeaknesses,
+      recommendations,
+      confidenceLevel,
+    };
+  }
+
+  static toBiasAnalysis(raw: RawBiasAnalysis, description: string): BiasAnalysisResponse {
+    const indicators = (Array.isArray(raw.biasIndicators) ? raw.biasIndicators : [])
+      .map(asRecord)
+      .map((indicator) => ({
+        type: asString(indicator.type, 'other'),
+        text: asString(indicator.text ?? indicator.phrase, ''),
+        suggestion: asString(indicator.suggestion, ''),
+      }))
+      .filter((indicator) => indicator.text.length > 0);
+    const recommendations = asStringArray(raw.recommendations);
+
+    return {
+      hasBias: indicators.length > 0,
+      biasTypes: Array.from(new Set(indicators.map((indicator) => indicator.type))),
+      biasedPhrases: indicators.map((indicator) => ({
+        phrase: indicator.text,
+        reason: indicator.suggestion || `${indicator.type} bias detected`,
+      })),
+      suggestions: recommendations,
+      improvedDescription: asString(raw.improvedDescription, description),
+      overallScore: asNumber(raw.overallScore) !== undefined ? clampScore(raw.overallScore) : undefined,
+      summary: asOptionalString(raw.summary),
+      biasIndicators: indicators,
+      recommendations,
+    };
+  }
+
+  static toInterviewQuestions(
+    raw: RawInterviewQuestions,
+    context: { jobTitle?: string; candidateName?: string; missingSkills?: string[] } = {},
+  ): InterviewQuestionsResponse {
+    const questions: InterviewQuestionData[] = (Array.isArray(raw.questions) ? raw.questions : [])
+      .map((item) => (typeof item === 'string' ? { question: item } : asRecord(item)))
+      .filter((item) => asOptionalString(item.question))
+      .map((item) => ({
+        question: asString(item.question, ''),
+        category: oneOf(item.category, QUESTION_CATEGORIES, 'technical'),
+        difficulty: oneOf(item.difficulty, QUESTION_DIFFICULTIES, 'medium'),
+        expectedAnswer: asString(item.expectedAnswer ?? item.purpose, ''),
+        skillsAssessed: asStringArray(item.skillsAssessed),
+      }));
+    const missing = new Set((context.missingSkills ?? []).map((skill) => skill.toLowerCase()));
+    const hardCount = questions.filter((q) => q.difficulty === 'hard').length;
+
+    return {
+      resumeId: 0 as ResumeId, // Will be set by caller
+      jobId: 0 as JobId,
+      candidateName: context.candidateName,
+      jobTitle: context.jobTitle ?? '',
+      questions,
+      metadata: {
+        estimatedDuration: questions.length * 5,
+        difficulty: hardCount > questions.length / 2 ? 'senior' : 'mid',
+        focusAreas: asStringArray(raw.focusAreas),
+        interviewType: 'video',
+      },
+      preparationTips: asStringArray(raw.preparationTips ?? raw.recommendations),
+      processingTime: 0,
+      technicalQuestions: questions.filter((q) => q.category === 'technical'),
+      experienceQuestions: questions.filter((q) => q.category === 'behavioral' || q.category === 'situational'),
+      skillGapQuestions: questions.filter((q) => q.skillsAssessed.some((skill) => missing.has(skill.toLowerCase()))),
+    };
+  }
+
+  static toInterviewScript(
+    raw: Partial<InterviewScriptResponse>,
+    jobTitle: string,
+    candidateName?: string,
+  ): InterviewScriptResponse {
+    const section = <T extends object>(value: unknown): Partial<T> => asRecord(value) as Partial<T>;
+    const opening = section<InterviewScriptResponse['opening']>(raw.opening);
+    const currentRole = section<InterviewScriptResponse['currentRoleDiscussion']>(raw.currentRoleDiscussion);
+    const skillMatch = section<InterviewScriptResponse['skillMatchDiscussion']>(raw.skillMatchDiscussion);
+    const skillGap = section<InterviewScriptResponse['skillGapAssessment']>(raw.skillGapAssessment);
+    const roleSell = section<InterviewScriptResponse['roleSell']>(raw.roleSell);
+    const closing = section<InterviewScriptResponse['closing']>(raw.closing);
+    const name = asString(raw.candidateName, candidateName || 'the candidate');
+
+    return {
+      jobTitle: asString(raw.jobTitle, jobTitle),
+      candidateName: name,
+      interviewDuration: asString(raw.interviewDuration, '45-60 minutes'),
+      opening: {
+        salutation: asString(opening.salutation, `Hello ${name}, thank you for taking the time to speak with us today.`),
+        iceBreaker: asString(opening.iceBreaker, 'How has your day been going so far?'),
+        interviewOverview: asString(opening.interviewOverview, "We'll discuss your background, how your skills align with the role, and answer your questions."),
+      },
+      currentRoleDiscussion: {
+        roleAcknowledgment: asString(currentRole.roleAcknowledgment, ''),
+        currentWorkQuestions: Array.isArray(currentRole.currentWorkQuestions) ? currentRole.currentWorkQuestions : [],
+      },
+      skillMatchDiscussion: {
+        introduction: asString(skillMatch.introduction, ''),
+        matchedSkillsQuestions: Array.isArray(skillMatch.matchedSkillsQuestions) ? skillMatch.matchedSkillsQuestions : [],
+      },
+      skillGapAssessment: {
+        introduction: asString(skillGap.introduction, ''),
+        gapQuestions: Array.isArray(skillGap.gapQuestions) ? skillGap.gapQuestions : [],
+      },
+      roleSell: {
+        transitionStatement: asString(roleSell.transitionStatement, ''),
+        roleHighlights: asStringArray(roleSell.roleHighlights),
+        opportunityDescription: asString(roleSell.opportunityDescription, ''),
+        closingQuestions: Array.isArray(roleSell.closingQuestions) ? roleSell.closingQuestions : [],
+      },
+      closing: {
+        nextSteps: asString(closing.nextSteps, "We'll review your interview with the team and be in touch soon."),
+        candidateQuestions: asString(closing.candidateQuestions, 'Do you have any questions about the role or our company?'),
+        finalStatement: asString(closing.finalStatement, 'Thank you for your time today.'),
+      },
+    };
+  }
+}
@@ -19,7 +19,7 @@ export interface SkillValidationResult {
   skill: string;
   isValid: boolean;
   confidence: number;
-  validationType: 'esco' | 'ml_similarity' | 'groq_llm' | 'frequency_based';
+  validationType: 'esco' | 'ml_similarity' | 'groq_llm' | 'frequency_based' | 'human_feedback';
   reason: string;
   shouldAutoApprove: boolean;
   metadata?: {
@@ -27,9 +27,13 @@ export interface SkillValidationResult {
     similarSkills?: string[];
     frequency?: number;
     embedding?: number[];
+    humanConfirmations?: number;
+    humanRejections?: number;
   };
 }
 
+export type HumanSkillVerdict = 'confirmed' | 'rejected';
+
 export interface LearnedSkill {
   skill: string;
   frequency: number;
@@ -42,6 +46,9 @@ export interface LearnedSkill {
   embedding?: number[];
   aliases: string[];
   category: string;
+  // Recruiter corrections: confirmed as a real skill or rejected as wrong
+  humanConfirmations: number;
+  humanRejections: number;
 }
 
 export interface LearningStats {
@@ -63,11 +70,14 @@ export interface ValidationConfig {
   mlSimilarityThreshold: number;
   groqValidation: boolean;
   frequencyThreshold: number;
+  humanEvidenceWeight: number;
+  humanApprovalThreshold: number;
   autoApprovalRules: {
     escoMatch: boolean;
     highSimilarity: boolean;
     frequencyBased: boolean;
     domainMatch: boolean;
+    humanConfirmed: boolean;
   };
   batchSize: number;
   maxRetries: number;
@@ -89,11 +99,14 @@ export class SkillLearningSystem {
       mlSimilarityThreshold: 0.85,
       groqValidation: true, 
       frequencyThreshold: 5,
+      humanEvidenceWeight: 5, // One recruiter confirmation counts as this many sightings
+      humanApprovalThreshold: 2, // Confirmations needed to approve without the automated layers
       autoApprovalRules: {
         escoMatch: true,
         highSimilarity: true,
         frequencyBased: true,
-        domainMatch: true
+        domainMatch: true,
+        humanConfirmed: true
       },
       batchSize: 10,
       maxRetries: 3
@@ -141,6 +154,14 @@ export class SkillLearningSystem {
     try {
       logger.debug(`Starting validation for skill: ${skill}`);
 
+      // Layer 0: Recruiter corrections outrank the automated layers - a
+      // rejection stops the pipeline, repeated confirmations approve
+      const humanResult = this.humanFeedbackValidation(skill);
+      if (humanResult && (humanResult.shouldAutoApprove || !humanResult.isValid)) {
+        await this.recordValidation(skill, humanResult);
+        return humanResult;
+      }
+
       // Layer 1: ESCO Validation (instant auto-approve)
       const escoResult = await this.escoValidation(skill, domain);
       if (escoResult.shouldAutoApprove) {
@@ -180,6 +201,32 @@ export class SkillLearningSystem {
     }
   }
 
+  /**
+   * Human feedback layer - null when no recruiter has corrected the skill
+   */
+  private humanFeedbackValidation(skill: string): SkillValidationResult | null {
+    const learned = this.validationQueue.get(skill);
+    if (!learned || learned.humanConfirmations + learned.humanRejections === 0) {
+      return null;
+    }
+
+    const { humanConfirmations, humanRejections } = learned;
+    const isValid = humanConfirmations > humanRejections;
+    const agreement = Math.max(humanConfirmations, humanRejections) / (humanConfirmations + humanRejections);
+
+    return {
+      skill,
+      isValid,
+      confidence: isValid ? agreement : 0,
+      validationType: 'human_feedback',
+      reason: `Recruiters confirmed ${humanConfirmations} and rejected ${humanRejections} times`,
+      shouldAutoApprove: isValid &&
+        humanConfirmations >= this.config.humanApprovalThreshold &&
+        this.config.autoApprovalRules.humanConfirmed,
+      metadata: { humanConfirmations, humanRejections }
+    };
+  }
+
   /**
    * ESCO validation layer
    */
@@ -456,7 +503,9 @@ Respond with JSON:
       const toRemove: string[] = [];
       
       for (const [skillName, skill] of this.validationQueue.entries()) {
-        if (skill.lastSeen < cutoffDate && skill.frequency < 2) {
+        // Recruiter corrections are kept regardless of age
+        const hasHumanEvidence = skill.humanConfirmations + skill.humanRejections > 0;
+        if (skill.lastSeen < cutoffDate && skill.frequency < 2 && !hasHumanEvidence) {
           toRemove.push(skillName);
         }
       }
@@ -491,7 +540,7 @@ Respond with JSON:
       skill,
       isValid: false,
       confidence: 0,
-      validationType: type as "esco" | "ml_similarity" | "groq_llm" | "frequency_based",
+      validationType: type as SkillValidationResult['validationType'],
       reason,
       shouldAutoApprove: false
     };
@@ -512,7 +561,9 @@ Respond with JSON:
         confidence: 0,
         domain: 'general',
         aliases: [],
-        category: 'general'
+        category: 'general',
+        humanConfirmations: 0,
+        humanRejections: 0
       };
 
       existing.validationAttempts++;
@@ -594,12 +645,61 @@ Respond with JSON:
         confidence: 0,
         domain,
         aliases: [],
-        category: 'general'
+        category: 'general',
+        humanConfirmations: 0,
+        humanRejections: 0
       });
       this.learningStats.recentActivity.discovered++;
     }
   }
 
+  /**
+   * Record a recruiter's correction of an extracted skill. A confirmation
+   * also counts as several sightings toward frequency-based approval; an
+   * alias is another name the recruiter declared equivalent to the skill.
+   */
+  recordHumanFeedback(skill: string, verdict: HumanSkillVerdict, alias?: string, domain: string = 'general'): void {
+    // Recruiters type skills in their own casing; reuse an entry the extractor already queued
+    const key = Array.from(this.validationQueue.keys())
+      .find(queued => queued.toLowerCase() === skill.toLowerCase()) ?? skill;
+    const now = new Date();
+
+    let learned = this.validationQueue.get(key);
+    if (!learned) {
+      learned = {
+        skill: key,
+        frequency: 0,
+        firstSeen: now,
+        lastSeen: now,
+        validationAttempts: 0,
+        autoApproved: false,
+        confidence: 0,
+        domain,
+        aliases: [],
+        category: 'general',
+        humanConfirmations: 0,
+        humanRejections: 0
+      };
+      this.validationQueue.set(key, learned);
+      this.learningStats.recentActivity.discovered++;
+    }
+
+    learned.lastSeen = now;
+    if (verdict === 'confirmed') {
+      learned.humanConfirmations++;
+      learned.frequency += this.config.humanEvidenceWeight;
+    } else {
+      learned.humanRejections++;
+      learned.autoApproved = false;
+      this.learningStats.recentActivity.rejected++;
+    }
+    if (alias && !learned.aliases.some(existing => existing.toLowerCase() === alias.toLowerCase())) {
+      learned.aliases.push(alias);
+    }
+
+    logger.info('Recorded recruiter skill feedback', { skill: key, verdict, alias });
+  }
+
   /**
    * Get learning statistics
    */
@@ -646,6 +746,13 @@ export async function validateSkill(skill: string, domain?: string): Promise<Ski
   return await learningSystem.validateSkill(skill, domain);
 }
 
+/**
+ * Feed a recruiter's skill correction into the learning pipeline
+ */
+export function recordHumanSkillFeedback(skill: string, verdict: HumanSkillVerdict, alias?: string): void {
+  SkillLearningSystem.getInstance().recordHumanFeedback(skill, verdict, alias);
+}
+
 /**
  * Get learning system statistics
  */
@@ -12,6 +12,7 @@
 
 import { logger } from './logger';
 import { generateEmbedding, cosineSimilarity } from './embeddings';
+import { getActiveSkillTaxonomy, findTaxonomySkillsInText, lookupTaxonomySkill } from './skill-taxonomy';
 
 // ==================== TYPES & INTERFACES ====================
 
@@ -229,10 +230,14 @@ export class SkillProcessor {
   }
 
   /**
-   * Extract and normalize skills from text using ESCO + local processing
+   * Extract and normalize skills from text using organization taxonomies + ESCO + local processing
    */
   async extractSkills(text: string, domain: 'pharmaceutical' | 'technology' | 'auto' = 'auto'): Promise<NormalizedSkill[]> {
     try {
+      // Step 0: The user's organization taxonomies, ahead of ESCO
+      const taxonomy = await getActiveSkillTaxonomy();
+      const taxonomySkills = taxonomy ? findTaxonomySkillsInText(taxonomy, text).map(entry => entry.name) : [];
+
       // Step 1: ESCO extraction for domain-specific skills
       const escoResults = await this.extractESCOSkills(text, domain);
       
@@ -240,16 +245,19 @@ export class SkillProcessor {
       const localSkills = this.extractLocalSkills(text, domain);
       
       // Step 3: Merge and deduplicate
-      const allSkills = this.mergeSkillSets(escoResults.skills, localSkills);
+      const allSkills = this.mergeSkillSets([...taxonomySkills, ...escoResults.skills], localSkills);
       
       // Step 4: Normalize each skill
       const normalizedSkills = await Promise.all(
         allSkills.map(skill => this.normalizeSkill(skill))
       );
       
-      // Step 5: Filter contamination
+      // Step 5: Filter contamination (an organization's own skills are never contamination)
       const cleanSkills = await Promise.all(
         normalizedSkills.map(async skill => {
+          if (taxonomy && lookupTaxonomySkill(taxonomy, skill.normalized)) {
+            return { ...skill, contamination: undefined };
+          }
           const contamination = await this.detectContamination(skill.normalized, domain);
           return { ...skill, contamination };
         })
@@ -367,6 +375,20 @@ export class SkillProcessor {
    * Skill normalization (consolidated from skill-normalizer.ts)
    */
   async normalizeSkill(skillText: string): Promise<NormalizedSkill> {
+    // Organization taxonomies take precedence over the built-in dictionary
+    const taxonomy = await getActiveSkillTaxonomy();
+    const taxonomyEntry = taxonomy ? lookupTaxonomySkill(taxonomy, skillText) : undefined;
+    if (taxonomyEntry) {
+      return {
+        original: skillText,
+        normalized: taxonomyEntry.name,
+        category: taxonomyEntry.category,
+        confidence: 1,
+        embedding: taxonomyEntry.embedding ?? await this.getSkillEmbedding(taxonomyEntry.name),
+        aliases: taxonomyEntry.aliases
+      };
+    }
+
     const normalized = this.normalizeSkillName(skillText);
     const category = this.categorizeSkill(normalized);
     const aliases = this.findSkillAliases(normalized);
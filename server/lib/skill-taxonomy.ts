@@ -0,0 +1,317 @@
+/**
+ * Organization Skill Taxonomies
+ *
+ * Organizations keep their own skills next to ESCO: internal tool names,
+ * competency frameworks, certification levels. The skill processor and
+ * enhanced scoring consult the taxonomies of every organization the
+ * analyzing user belongs to before ESCO and the built-in dictionary. The
+ * user comes from the LLM usage context that services already enter around
+ * analyses (see llm-usage.ts), so the skill pipeline keeps its signatures.
+ *
+ * Loaded taxonomies are cached per user in-process for a few minutes and
+ * dropped whenever any organization edits its taxonomy.
+ */
+
+import { logger } from "./logger";
+import { getLlmUsageContext } from "./llm-usage";
+import type { SkillTaxonomyEntry } from "@shared/schema";
+
+export const SKILL_TAXONOMY_IMPORT_FORMATS = ['csv', 'json'] as const;
+
+export type SkillTaxonomyImportFormat = typeof SKILL_TAXONOMY_IMPORT_FORMATS[number];
+
+/** One skill read from an import file; parent is the broader skill's name */
+export interface SkillTaxonomyImportRow {
+  name: string;
+  category?: string;
+  parent?: string;
+  aliases: string[];
+  description?: string;
+}
+
+export interface ParsedSkillTaxonomyImport {
+  /** row is 1-based, counting skills (a CSV header is not a row) */
+  rows: Array<{ row: number; skill: SkillTaxonomyImportRow }>;
+  errors: Array<{ row: number; message: string }>;
+}
+
+export interface SkillTaxonomyIndex {
+  entries: SkillTaxonomyEntry[];
+  /** Normalized names and aliases to their entry; names win over aliases */
+  byTerm: Map<string, SkillTaxonomyEntry>;
+}
+
+export interface RelatedTaxonomySkill {
+  skill: string;
+  similarity: number;
+  category: string;
+}
+
+// A broader or narrower skill is closer than a sibling under the same parent
+const PARENT_CHILD_SIMILARITY = 0.85;
+const SIBLING_SIMILARITY = 0.75;
+
+// ==================== IMPORT PARSING ====================
+
+/**
+ * Comparison key for taxonomy names and aliases: trimmed, lower case, single spaces
+ */
+export function normalizeTaxonomyName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Splits an alias list written as one field: "JS; ECMAScript" or "JS|ECMAScript"
+ */
+function splitAliases(value: string): string[] {
+  return value.split(/[;|]/).map(alias => alias.trim()).filter(Boolean);
+}
+
+/**
+ * Parses RFC 4180 CSV: quoted fields may hold commas, newlines and "" escapes
+ */
+export function parseCsv(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Drop blank lines
+  return records.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+function toImportRow(raw: Record<string, unknown>): SkillTaxonomyImportRow | string {
+  const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+  const name = text(raw.name);
+  if (!name) {
+    return 'Skill name is required';
+  }
+
+  let aliases: string[] = [];
+  if (Array.isArray(raw.aliases)) {
+    aliases = raw.aliases.filter((alias): alias is string => typeof alias === 'string')
+      .map(alias => alias.trim())
+      .filter(Boolean);
+  } else if (typeof raw.aliases === 'string') {
+    aliases = splitAliases(raw.aliases);
+  }
+
+  return {
+    name,
+    category: text(raw.category),
+    parent: text(raw.parent),
+    aliases,
+    description: text(raw.description),
+  };
+}
+
+/**
+ * Reads skills from a CSV file (a header row naming name, category, parent,
+ * aliases and description columns) or a JSON array of skill objects. Rows
+ * that can't be read are reported rather than failing the whole import.
+ */
+export function parseSkillTaxonomyImport(content: string, format: SkillTaxonomyImportFormat): ParsedSkillTaxonomyImport {
+  const parsed: ParsedSkillTaxonomyImport = { rows: [], errors: [] };
+  const add = (row: number, raw: Record<string, unknown>) => {
+    const result = toImportRow(raw);
+    if (typeof result === 'string') {
+      parsed.errors.push({ row, message: result });
+    } else {
+      parsed.rows.push({ row, skill: result });
+    }
+  };
+
+  if (format === 'json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      parsed.errors.push({ row: 0, message: 'File is not valid JSON' });
+      return parsed;
+    }
+    // Accept a bare array or { "skills": [...] }
+    const items = Array.isArray(data) ? data : (data as { skills?: unknown })?.skills;
+    if (!Array.isArray(items)) {
+      parsed.errors.push({ row: 0, message: 'Expected an array of skills' });
+      return parsed;
+    }
+    items.forEach((item, index) => {
+      if (item && typeof item === 'object' && !Array.isArray(item)) {
+        add(index + 1, item as Record<string, unknown>);
+      } else {
+        parsed.errors.push({ row: index + 1, message: 'Skill must be an object' });
+      }
+    });
+    return parsed;
+  }
+
+  const [header, ...records] = parseCsv(content.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map(column => column.trim().toLowerCase());
+  if (!columns.includes('name')) {
+    parsed.errors.push({ row: 0, message: 'CSV header must include a "name" column' });
+    return parsed;
+  }
+  records.forEach((fields, index) => {
+    add(index + 1, Object.fromEntries(columns.map((column, position) => [column, fields[position] ?? ''])));
+  });
+  return parsed;
+}
+
+// ==================== LOOKUP ====================
+
+export function buildSkillTaxonomyIndex(entries: SkillTaxonomyEntry[]): SkillTaxonomyIndex {
+  const byTerm = new Map<string, SkillTaxonomyEntry>();
+  for (const entry of entries) {
+    byTerm.set(entry.normalizedName, entry);
+  }
+  for (const entry of entries) {
+    for (const alias of entry.aliases) {
+      const term = normalizeTaxonomyName(alias);
+      if (term && !byTerm.has(term)) {
+        byTerm.set(term, entry);
+      }
+    }
+  }
+  return { entries, byTerm };
+}
+
+/**
+ * The taxonomy entry a skill name or alias refers to
+ */
+export function lookupTaxonomySkill(index: SkillTaxonomyIndex, skill: string): SkillTaxonomyEntry | undefined {
+  return index.byTerm.get(normalizeTaxonomyName(skill));
+}
+
+/**
+ * Taxonomy skills whose name or an alias appears in the text as a whole term
+ */
+export function findTaxonomySkillsInText(index: SkillTaxonomyIndex, text: string): SkillTaxonomyEntry[] {
+  const found = new Map<number, SkillTaxonomyEntry>();
+  for (const [term, entry] of index.byTerm) {
+    if (found.has(entry.id)) {
+      continue;
+    }
+    // Whole-term boundaries that also work for names like "C++" or ".NET"
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+');
+    if (new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`, 'i').test(text)) {
+      found.set(entry.id, entry);
+    }
+  }
+  return Array.from(found.values());
+}
+
+/**
+ * Skills related to this one through the hierarchy: its broader skill, its
+ * narrower skills and its siblings under the same broader skill
+ */
+export function findTaxonomyRelatedSkills(index: SkillTaxonomyIndex, skill: string): RelatedTaxonomySkill[] {
+  const entry = lookupTaxonomySkill(index, skill);
+  if (!entry) {
+    return [];
+  }
+
+  return index.entries
+    .filter(other => other.organizationId === entry.organizationId && other.id !== entry.id)
+    .flatMap((other): RelatedTaxonomySkill[] => {
+      if (other.id === entry.parentId || other.parentId === entry.id) {
+        return [{ skill: other.name, similarity: PARENT_CHILD_SIMILARITY, category: other.category }];
+      }
+      if (entry.parentId !== null && other.parentId === entry.parentId) {
+        return [{ skill: other.name, similarity: SIBLING_SIMILARITY, category: other.category }];
+      }
+      return [];
+    });
+}
+
+// ==================== ACTIVE TAXONOMY ====================
+
+const TAXONOMY_CACHE_TTL_MS = 5 * 60 * 1000;
+
+interface CachedTaxonomy {
+  index: Promise<SkillTaxonomyIndex | null>;
+  loadedAt: number;
+}
+
+const taxonomyCache = new Map<string, CachedTaxonomy>();
+
+async function loadTaxonomy(userId: string): Promise<SkillTaxonomyIndex | null> {
+  try {
+    const { getStorage } = await import("../storage");
+    const storage = getStorage();
+    const organizations = await storage.getOrganizationsForUser(userId);
+    const entries = (await Promise.all(
+      organizations.map(organization => storage.getSkillTaxonomyEntries(organization.id))
+    )).flat();
+    return entries.length > 0 ? buildSkillTaxonomyIndex(entries) : null;
+  } catch (error) {
+    // Fall back to ESCO and the built-in dictionary; a taxonomy must never block an analysis
+    logger.warn("Failed to load skill taxonomy", {
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    taxonomyCache.delete(userId);
+    return null;
+  }
+}
+
+/**
+ * The combined taxonomy of the current user's organizations, or null when
+ * there is no user in context or none of their organizations has one
+ */
+export async function getActiveSkillTaxonomy(): Promise<SkillTaxonomyIndex | null> {
+  const userId = getLlmUsageContext()?.userId;
+  if (!userId) {
+    return null;
+  }
+
+  const cached = taxonomyCache.get(userId);
+  if (cached && Date.now() - cached.loadedAt < TAXONOMY_CACHE_TTL_MS) {
+    return cached.index;
+  }
+
+  // Cache the pending load so parallel skill lookups share one query
+  const index = loadTaxonomy(userId);
+  taxonomyCache.set(userId, { index, loadedAt: Date.now() });
+  return index;
+}
+
+/**
+ * Drops cached taxonomies after an organization edits its taxonomy
+ */
+export function invalidateSkillTaxonomyCache(): void {
+  taxonomyCache.clear();
+}
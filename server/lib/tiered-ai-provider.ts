@@ -1,8 +1,11 @@
 import * as openai from "./openai";
 import * as anthropic from "./anthropic";
 import * as groq from "./groq";
+import * as localLLM from "./local-llm";
 import { config } from "../config/unified-config";
 import { logger } from "./logger";
+import { getLlmUsageContext, isOverLlmBudget } from "./llm-usage";
+import { pickBudgetProvider } from "./provider-chooser";
 import { AI_PROVIDER_CONFIG, UNIFIED_SCORING_WEIGHTS as _UNIFIED_SCORING_WEIGHTS } from "./unified-scoring-config";
 import {
   AnalyzeResumeResponse,
@@ -25,6 +28,7 @@ import {
 const isAnthropicConfigured = !!config.ai.providers.anthropic.apiKey;
 const isGroqConfigured = !!process.env.GROQ_API_KEY;
 const isOpenAIConfigured = !!process.env.OPENAI_API_KEY;
+const isLocalConfigured = localLLM.isLocalLLMConfigured;
 
 // ENHANCED: Simple circuit breaker for provider health tracking
 interface CircuitBreakerState {
@@ -265,18 +269,62 @@ function classifyAndThrowError(error: unknown, userTier: UserTierInfo, context:
 }
 
 interface TierAwareProviderSelection {
-  provider: "groq" | "openai" | "anthropic";
+  provider: "groq" | "openai" | "anthropic" | "local";
   reason: string;
 }
 
+function isThirdPartyProviderAvailable(provider: string): boolean {
+  switch (provider) {
+    case "groq":
+      return isGroqConfigured && groq.getGroqServiceStatus().isAvailable;
+    case "openai":
+      return isOpenAIConfigured && openai.getOpenAIServiceStatus().isAvailable;
+    case "anthropic":
+      return isAnthropicConfigured && anthropic.getAnthropicServiceStatus().isAvailable;
+    default:
+      return false;
+  }
+}
+
 /**
  * Select AI provider based on user tier and availability
+ * A configured self-hosted model is always preferred; with LOCAL_LLM_ONLY
+ * set, no third-party provider is ever selected. A user who has spent their
+ * monthly LLM budget is degraded to the cheapest available provider.
  * BETA MODE: All users use Groq for cost optimization during beta testing
  * @throws Error when no providers are available, with appropriate upgrade messaging
  */
 function selectProviderForTier(
   userTier: UserTierInfo,
 ): TierAwareProviderSelection {
+  if (
+    (TIER_LIMITS[userTier.tier].allowedProviders as readonly string[]).includes("local") &&
+    isLocalConfigured &&
+    localLLM.getLocalServiceStatus().isAvailable
+  ) {
+    return {
+      provider: "local",
+      reason: `Self-hosted model - data stays on own infrastructure (tier: ${userTier.tier})`,
+    };
+  }
+  if (localLLM.isLocalOnly()) {
+    throw getServiceUnavailableError(userTier, "AI analysis");
+  }
+
+  const usageContext = getLlmUsageContext();
+  if (usageContext && isOverLlmBudget(usageContext.userId, usageContext.organizationId)) {
+    const allowed = TIER_LIMITS[userTier.tier].allowedProviders as readonly string[];
+    const provider = pickBudgetProvider(
+      (candidate) => allowed.includes(candidate) && isThirdPartyProviderAvailable(candidate),
+    );
+    if (provider) {
+      return {
+        provider: provider as TierAwareProviderSelection["provider"],
+        reason: `Monthly LLM budget exceeded - cheapest available provider (tier: ${userTier.tier})`,
+      };
+    }
+  }
+
   // BETA MODE: Force all users to Groq for cost optimization
   // This will be removed after beta testing period (~1 month)
   const BETA_MODE = true; // Set to false to enable full tiered system
@@ -418,6 +466,8 @@ export async function analyzeResume(
         return await anthropic.analyzeResume(resumeText);
       case "openai":
         return await openai.analyzeResume(resumeText);
+      case "local":
+        return await localLLM.analyzeResume(resumeText);
       case "groq":
       default:
         return await groq.analyzeResume(resumeText);
@@ -467,6 +517,8 @@ export async function analyzeResumeParallel(
       case "openai":
         // Fallback to standard analysis for non-Groq providers
         return await openai.analyzeResume(resumeText);
+      case "local":
+        return await localLLM.analyzeResume(resumeText);
       case "groq":
       default:
         // Use optimized parallel extraction for Groq
@@ -506,6 +558,8 @@ export async function analyzeJobDescription(
         return await anthropic.analyzeJobDescription(title, description);
       case "openai":
         return await openai.analyzeJobDescription(title, description);
+      case "local":
+        return await localLLM.analyzeJobDescription(title, description);
       case "groq":
       default:
         return await groq.analyzeJobDescription(title, description);
@@ -617,8 +671,8 @@ export async function analyzeMatch(
     throw classifyAndThrowError(lastError, userTier, "Match analysis");
   }
 
-  // Add fairness metrics for premium users
-  if (userTier.tier === "premium" && resumeText) {
+  // Add fairness metrics for premium users (the fairness analyzer calls third-party APIs)
+  if (userTier.tier === "premium" && resumeText && !localLLM.isLocalOnly()) {
     try {
       const { analyzeResumeFairness } = await import("./fairness-analyzer");
       const fairnessMetrics = await analyzeResumeFairness(
@@ -673,6 +727,8 @@ export async function analyzeBias(
         return await anthropic.analyzeBias(title, description);
       case "openai":
         return await openai.analyzeBias(title, description);
+      case "local":
+        return await localLLM.analyzeBias(title, description);
       case "groq":
       default:
         return await groq.analyzeBias(title, description);
@@ -731,6 +787,12 @@ export async function generateInterviewQuestions(
           jobAnalysis,
           matchAnalysis,
         );
+      case "local":
+        return await localLLM.generateInterviewQuestions(
+          resumeAnalysis,
+          jobAnalysis,
+          matchAnalysis,
+        );
       case "groq":
       default:
         return await groq.generateInterviewQuestions(
@@ -799,6 +861,14 @@ export async function generateInterviewScript(
           jobTitle,
           candidateName,
         );
+      case "local":
+        return await localLLM.generateInterviewScript(
+          resumeAnalysis,
+          jobAnalysis,
+          matchAnalysis,
+          jobTitle,
+          candidateName,
+        );
       case "groq":
       default:
         return await groq.generateInterviewScript(
@@ -845,6 +915,8 @@ export function getTierAwareServiceStatus(userTier: UserTierInfo) {
             isAnthropicConfigured &&
             anthropic.getAnthropicServiceStatus().isAvailable
           );
+        case "local":
+          return isLocalConfigured && localLLM.getLocalServiceStatus().isAvailable;
         default:
           return false;
       }
@@ -858,15 +930,18 @@ export function getTierAwareServiceStatus(userTier: UserTierInfo) {
 
 /**
  * Get provider fallback chain based on 2024 industry research
- * Order: Groq (speed + accuracy) -> OpenAI (reliability) -> Anthropic (quality) -> Local ML fallback
+ * Order: Self-hosted model (data residency) -> Groq (speed + accuracy) -> OpenAI (reliability) -> Anthropic (quality) -> Local ML fallback
+ * With LOCAL_LLM_ONLY set the chain holds only the self-hosted model.
  */
 function getProviderFallbackChain(_userTier: UserTierInfo): string[] {
   const availableProviders: string[] = [];
   
   // Primary provider selection based on tier and availability
-  if (isGroqConfigured) availableProviders.push("groq");
-  if (isOpenAIConfigured) availableProviders.push("openai");  
-  if (isAnthropicConfigured) availableProviders.push("anthropic");
+  const thirdPartyAllowed = !localLLM.isLocalOnly();
+  if (isLocalConfigured) availableProviders.push("local");
+  if (thirdPartyAllowed && isGroqConfigured) availableProviders.push("groq");
+  if (thirdPartyAllowed && isOpenAIConfigured) availableProviders.push("openai");  
+  if (thirdPartyAllowed && isAnthropicConfigured) availableProviders.push("anthropic");
   
   // Ensure we have at least one provider
   if (availableProviders.length === 0) {
@@ -874,8 +949,8 @@ function getProviderFallbackChain(_userTier: UserTierInfo): string[] {
     throw new Error("No AI providers available for analysis");
   }
   
-  // Reorder based on research-backed preferences (Groq first for speed+accuracy)
-  const preferredOrder = ["groq", "openai", "anthropic"];
+  // Reorder based on research-backed preferences (self-hosted first when configured, then Groq for speed+accuracy)
+  const preferredOrder = ["local", "groq", "openai", "anthropic"];
   const orderedProviders = preferredOrder.filter(p => availableProviders.includes(p));
   
   logger.info("Provider fallback chain established", {
@@ -951,6 +1026,8 @@ async function callProvider(
       return await openai.analyzeMatch(resumeAnalysis, jobAnalysis);
     case "groq":
       return await groq.analyzeMatch(resumeAnalysis, jobAnalysis, resumeText, jobText);
+    case "local":
+      return await localLLM.analyzeMatch(resumeAnalysis, jobAnalysis, resumeText, jobText);
     default:
       throw new Error(`Unknown provider: ${provider}`);
   }
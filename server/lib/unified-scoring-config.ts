@@ -208,6 +208,39 @@ export function getMatchQualityLevel(score: number): 'excellent' | 'strong' | 'm
   return 'poor';
 }
 
+/**
+ * Resolve the dimension weights for a job, normalizing owner-supplied
+ * relative weights (e.g. 60/25/10/5) so they sum to 1.0. Missing, negative
+ * or all-zero input falls back to the unified defaults.
+ */
+export function resolveScoringWeights(
+  customWeights?: Partial<UnifiedScoringWeights> | null
+): UnifiedScoringWeights {
+  if (!customWeights) {
+    return { ...UNIFIED_SCORING_WEIGHTS };
+  }
+
+  const weights: UnifiedScoringWeights = {
+    skills: customWeights.skills ?? 0,
+    experience: customWeights.experience ?? 0,
+    education: customWeights.education ?? 0,
+    semantic: customWeights.semantic ?? 0,
+  };
+  const values = Object.values(weights);
+  const sum = values.reduce((total, weight) => total + weight, 0);
+
+  if (values.some(weight => !Number.isFinite(weight) || weight < 0) || sum <= 0) {
+    return { ...UNIFIED_SCORING_WEIGHTS };
+  }
+
+  return {
+    skills: weights.skills / sum,
+    experience: weights.experience / sum,
+    education: weights.education / sum,
+    semantic: weights.semantic / sum,
+  };
+}
+
 /**
  * Get confidence level based on confidence score
  */
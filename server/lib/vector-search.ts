@@ -0,0 +1,64 @@
+/**
+ * Vector Similarity Search Helpers
+ *
+ * DatabaseStorage ranks resumes with pgvector over the indexed
+ * `embedding_vector` columns when migration 019 could create them;
+ * MemStorage, and databases without pgvector, use `rankResumesBySimilarity`
+ * to scan the JSON embeddings in process. This module deliberately does not
+ * import ./embeddings, which loads the transformer pipeline.
+ */
+
+import { EMBEDDING_DIMENSIONS, type Resume, type ResumeSimilarityMatch } from "@shared/schema";
+
+/**
+ * The value to store in a pgvector column for a JSON embedding. Vectors of
+ * another model's dimension and the all-zero placeholders written when
+ * embedding fails have no usable direction, so they are not indexed.
+ */
+export function toEmbeddingVector(embedding: number[] | null | undefined): number[] | null {
+  if (!embedding || embedding.length !== EMBEDDING_DIMENSIONS) {
+    return null;
+  }
+  if (!embedding.every(Number.isFinite) || embedding.every(value => value === 0)) {
+    return null;
+  }
+  return embedding;
+}
+
+/**
+ * Cosine similarity of two vectors of the same dimension, -1 to 1
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * In-process equivalent of the pgvector search: the `k` resumes closest to
+ * the job embedding, best first. Resumes without a usable embedding are skipped.
+ */
+export function rankResumesBySimilarity(
+  jobEmbedding: number[] | null | undefined,
+  resumes: Resume[],
+  k: number
+): ResumeSimilarityMatch[] {
+  const query = toEmbeddingVector(jobEmbedding);
+  if (!query || k <= 0) {
+    return [];
+  }
+
+  return resumes
+    .flatMap(resume => {
+      const vector = toEmbeddingVector(resume.embedding);
+      return vector ? [{ resume, similarity: cosineSimilarity(query, vector) }] : [];
+    })
+    .sort((a, b) => b.similarity - a.similarity || b.resume.id - a.resume.id)
+    .slice(0, k);
+}
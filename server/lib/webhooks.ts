@@ -0,0 +1,300 @@
+/**
+ * Webhook Signing and Delivery Helpers
+ *
+ * Deliveries are signed Stripe-style: the signature header carries a unix
+ * timestamp and an HMAC-SHA256 of `${timestamp}.${rawBody}` keyed with the
+ * subscription secret, e.g. `t=1760799600,v1=5257a869...`. Receivers recompute
+ * the HMAC over the raw request body and reject stale timestamps to prevent
+ * replays.
+ *
+ * Endpoints must resolve to public addresses. The check runs when a URL is
+ * registered and again before every delivery attempt and redirect hop, so a
+ * DNS record changed after registration cannot aim deliveries at internal
+ * services. Delivery requests connect to the addresses that passed the check
+ * rather than resolving the host again, so a record that flips between the
+ * check and the connection (DNS rebinding) cannot either.
+ */
+
+import crypto from 'crypto';
+import { promises as dns } from 'dns';
+import http from 'http';
+import https from 'https';
+import { isIP, type LookupFunction } from 'net';
+import { WEBHOOK_EVENT_TYPES, type WebhookEventType } from '@shared/schema';
+import { isIpAllowed, parseIpAddress } from './api-token-scopes';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-EvalMatch-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-EvalMatch-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-EvalMatch-Delivery';
+
+// Matches the webhook-delivery queue defaults in QueueManager
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+export const WEBHOOK_BACKOFF_BASE_MS = 10_000;
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 300;
+export const WEBHOOK_MAX_REDIRECTS = 3;
+
+// Unspecified, private, carrier-grade NAT, loopback, link-local (including
+// cloud metadata endpoints), IETF protocol assignments, benchmarking,
+// multicast and reserved ranges. IPv6 prefixes that embed an IPv4 address
+// (IPv4-compatible, NAT64 and 6to4) could reach any of those, so they are
+// refused whole; IPv4-mapped addresses are compared in their IPv4 form.
+const NON_PUBLIC_CIDRS = [
+  '0.0.0.0/8',
+  '10.0.0.0/8',
+  '100.64.0.0/10',
+  '127.0.0.0/8',
+  '169.254.0.0/16',
+  '172.16.0.0/12',
+  '192.0.0.0/24',
+  '192.168.0.0/16',
+  '198.18.0.0/15',
+  '224.0.0.0/3',
+  '::/96',
+  '64:ff9b::/96',
+  '64:ff9b:1::/48',
+  '2002::/16',
+  'fc00::/7',
+  'fe80::/10',
+  'ff00::/8',
+];
+
+const NON_PUBLIC_HOST_ERROR = 'Webhook URL must not point to a private or loopback address';
+
+/**
+ * Resolves a hostname to every address it points at
+ */
+export type WebhookHostLookup = (_hostname: string) => Promise<string[]>;
+
+/**
+ * The checked addresses of an endpoint URL, or why it was refused
+ */
+export type WebhookDestination = { addresses: string[] } | { error: string };
+
+/**
+ * Request sent to a subscriber endpoint
+ */
+export interface WebhookRequestInit {
+  method: string;
+  headers: Record<string, string>;
+  body: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Status and redirect target of an endpoint response; the body is discarded
+ */
+export interface WebhookEndpointResponse {
+  status: number;
+  location: string | null;
+}
+
+const lookupHostAddresses: WebhookHostLookup = async hostname =>
+  (await dns.lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+
+/**
+ * Body sent to subscribers
+ */
+export interface WebhookPayload<T = Record<string, unknown>> {
+  id: string;
+  event: WebhookEventType;
+  createdAt: string;
+  data: T;
+}
+
+export function isWebhookEventType(value: string): value is WebhookEventType {
+  return (WEBHOOK_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+export function buildWebhookPayload<T extends Record<string, unknown>>(
+  event: WebhookEventType,
+  data: T,
+  createdAt: Date = new Date()
+): WebhookPayload<T> {
+  return {
+    id: `evt_${crypto.randomUUID()}`,
+    event,
+    createdAt: createdAt.toISOString(),
+    data,
+  };
+}
+
+/**
+ * Compute the signature header value for a raw body
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const digest = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Verify a signature header against a raw body
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds: number = WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = new Map(
+    header.split(',').map(part => {
+      const [key, ...rest] = part.trim().split('=');
+      return [key, rest.join('=')] as const;
+    })
+  );
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+
+  if (!Number.isInteger(timestamp) || !signature) return false;
+  if (Math.abs(now - timestamp) > toleranceSeconds) return false;
+
+  const expected = signWebhookPayload(secret, body, timestamp).split('v1=')[1];
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  const signatureBuffer = Buffer.from(signature, 'hex');
+  return expectedBuffer.length === signatureBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+}
+
+/**
+ * Delay before the attempt following `attempt` (1-based), doubling each time
+ */
+export function getWebhookRetryDelay(attempt: number): number {
+  return WEBHOOK_BACKOFF_BASE_MS * 2 ** Math.max(0, attempt - 1);
+}
+
+/**
+ * Whether an IP address is routable on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  return parseIpAddress(address) !== null && !isIpAllowed(address, NON_PUBLIC_CIDRS);
+}
+
+// URL hostnames keep the brackets around IPv6 literals
+const unbracketHost = (hostname: string): string => hostname.replace(/^\[(.*)\]$/, '$1');
+
+/**
+ * Validate the form of a subscriber endpoint URL, returning an error message
+ * or null. Production requires HTTPS. Loopback and private address literals
+ * are refused everywhere; hostnames are only checked once resolved by
+ * checkWebhookDestination.
+ */
+export function validateWebhookUrl(
+  value: string,
+  production: boolean = process.env.NODE_ENV === 'production'
+): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'Webhook URL is not a valid URL';
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return 'Webhook URL must use http or https';
+  }
+  if (url.username || url.password) {
+    return 'Webhook URL must not contain credentials';
+  }
+  if (production && url.protocol !== 'https:') {
+    return 'Webhook URL must use https';
+  }
+
+  const host = unbracketHost(url.hostname).toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || (isIP(host) && !isPublicAddress(host))) {
+    return NON_PUBLIC_HOST_ERROR;
+  }
+  return null;
+}
+
+/**
+ * Validate an endpoint URL and resolve its host. Every address the host
+ * resolves to must be public; deliveries connect only to those addresses.
+ */
+export async function resolveWebhookDestination(
+  value: string,
+  production: boolean = process.env.NODE_ENV === 'production',
+  lookup: WebhookHostLookup = lookupHostAddresses
+): Promise<WebhookDestination> {
+  const urlError = validateWebhookUrl(value, production);
+  if (urlError) return { error: urlError };
+
+  const host = unbracketHost(new URL(value).hostname);
+  if (isIP(host)) return { addresses: [host] };
+
+  let addresses: string[];
+  try {
+    addresses = await lookup(host);
+  } catch {
+    return { error: 'Webhook URL host could not be resolved' };
+  }
+  if (addresses.length === 0) {
+    return { error: 'Webhook URL host could not be resolved' };
+  }
+  return addresses.every(isPublicAddress) ? { addresses } : { error: NON_PUBLIC_HOST_ERROR };
+}
+
+/**
+ * Validate an endpoint URL and resolve its host, returning an error message
+ * or null
+ */
+export async function checkWebhookDestination(
+  value: string,
+  production: boolean = process.env.NODE_ENV === 'production',
+  lookup: WebhookHostLookup = lookupHostAddresses
+): Promise<string | null> {
+  const destination = await resolveWebhookDestination(value, production, lookup);
+  return 'error' in destination ? destination.error : null;
+}
+
+/**
+ * Send one request to an endpoint without following redirects, connecting
+ * only to `addresses` instead of resolving the URL's host again. The Host
+ * header and TLS certificate check still use the hostname from the URL.
+ */
+export function sendWebhookRequest(
+  url: string,
+  addresses: string[],
+  init: WebhookRequestInit
+): Promise<WebhookEndpointResponse> {
+  const target = new URL(url);
+  const client = target.protocol === 'https:' ? https : http;
+  const pinnedLookup: LookupFunction = (hostname, options, callback) => {
+    const family = options.family === 'IPv4' ? 4 : options.family === 'IPv6' ? 6 : options.family;
+    const entries = addresses
+      .map(address => ({ address, family: isIP(address) }))
+      .filter(entry => !family || entry.family === family);
+    if (entries.length === 0) {
+      callback(Object.assign(new Error(`No checked address for ${hostname}`), { code: 'ENOTFOUND' }), '', 0);
+    } else if (options.all) {
+      callback(null, entries);
+    } else {
+      callback(null, entries[0].address, entries[0].family);
+    }
+  };
+
+  return new Promise((resolve, reject) => {
+    const request = client.request(
+      target,
+      { method: init.method, headers: init.headers, signal: init.signal, lookup: pinnedLookup },
+      response => {
+        response.resume();
+        const location = response.headers.location;
+        resolve({ status: response.statusCode ?? 0, location: location ?? null });
+      }
+    );
+    request.on('error', reject);
+    request.end(init.body);
+  });
+}
@@ -12,8 +12,15 @@ import {
 } from "../auth/firebase-auth";
 import { config } from "../config/unified-config";
 import { logger } from "../config/logger";
+import { getStorage } from "../storage";
+import { authenticateApiToken } from "./token-auth";
+import {
+  hasOrganizationPermission,
+  type OrganizationPermission,
+} from "@shared/organization-roles";
+import type { OrganizationRole } from "@shared/schema";
 
-// Extend Request interface to include user
+// Extend Request interface to include user and the active organization
 declare global {
   namespace Express {
     interface Request {
@@ -24,10 +31,80 @@ declare global {
         displayName?: string;
         photoURL?: string;
       };
+      organization?: {
+        id: number;
+        role: OrganizationRole;
+      };
     }
   }
 }
 
+/**
+ * Resolves the organization selected with the X-Organization-Id header for
+ * an authenticated user. Without the header the request runs in the user's
+ * personal workspace; with it, the user must be a member.
+ */
+async function resolveOrganization(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  const header = req.get("X-Organization-Id");
+  if (!header) {
+    return next();
+  }
+
+  const organizationId = Number(header);
+  if (!Number.isInteger(organizationId) || organizationId <= 0) {
+    return res.status(400).json({
+      error: "Invalid organization",
+      message: "X-Organization-Id must be a positive integer",
+      code: "INVALID_ORGANIZATION_ID",
+    });
+  }
+
+  const membership = await getStorage().getOrganizationMembership(
+    organizationId,
+    req.user!.uid,
+  );
+  if (!membership) {
+    logger.warn("Access denied: User is not a member of organization", {
+      uid: req.user!.uid,
+      organizationId,
+      path: req.path,
+      method: req.method,
+    });
+
+    return res.status(403).json({
+      error: "Access denied",
+      message: "You are not a member of this organization",
+      code: "ORGANIZATION_ACCESS_DENIED",
+    });
+  }
+
+  req.organization = { id: organizationId, role: membership.role };
+  next();
+}
+
+// API tokens (em_<tokenId>_<secret>) are checked against their scopes, IP
+// allowlist and per-token rate limit, then act as the user who issued them
+const API_TOKEN_PATTERN = /^Bearer em_/;
+const requireScopedApiToken = authenticateApiToken({
+  trackUsage: true,
+  requireValidToken: true,
+});
+
+function authenticateWithApiToken(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  return requireScopedApiToken(req, res, () => {
+    req.user = { uid: req.tokenUser!.userId };
+    resolveOrganization(req, res, next).catch(next);
+  });
+}
+
 /**
  * Middleware to authenticate requests using Firebase ID tokens
  * with development mode fallback and proper error handling
@@ -38,6 +115,12 @@ export async function authenticateUser(
   next: NextFunction,
 ) {
   try {
+    // Checked before the development and test bypasses so a token's
+    // restrictions always apply
+    if (API_TOKEN_PATTERN.test(req.headers.authorization ?? "")) {
+      return await authenticateWithApiToken(req, res, next);
+    }
+
     // Auth bypass mode for testing (NEVER allowed in production)
     if (process.env.AUTH_BYPASS_MODE === "true") {
       // SECURITY FIX: Stricter production detection with fail-safe approach
@@ -121,7 +204,7 @@ export async function authenticateUser(
         emailVerified: true,
         displayName: "Development Test User",
       };
-      return next();
+      return await resolveOrganization(req, res, next);
     }
 
     // In development mode, allow bypass if Firebase not configured
@@ -135,7 +218,7 @@ export async function authenticateUser(
         emailVerified: true,
         displayName: "Development User",
       };
-      return next();
+      return await resolveOrganization(req, res, next);
     }
 
     // Test environment bypass
@@ -147,7 +230,7 @@ export async function authenticateUser(
         emailVerified: true,
         displayName: "Test User",
       };
-      return next();
+      return await resolveOrganization(req, res, next);
     }
 
     // Get token from Authorization header
@@ -231,7 +314,7 @@ export async function authenticateUser(
       method: req.method,
     });
 
-    next();
+    return await resolveOrganization(req, res, next);
   } catch (error) {
     logger.error("Authentication middleware error", {
       error: error instanceof Error ? error.message : "Unknown error",
@@ -289,6 +372,33 @@ export async function optionalAuth(
   }
 }
 
+/**
+ * Middleware to require a permission in the active organization. Requests in
+ * the personal workspace pass; use after authenticateUser.
+ */
+export function requireOrganizationPermission(permission: OrganizationPermission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.organization || hasOrganizationPermission(req.organization.role, permission)) {
+      return next();
+    }
+
+    logger.warn("Access denied: Organization role lacks permission", {
+      uid: req.user?.uid,
+      organizationId: req.organization.id,
+      role: req.organization.role,
+      permission,
+      path: req.path,
+      method: req.method,
+    });
+
+    return res.status(403).json({
+      error: "Access denied",
+      message: `Your role in this organization does not allow ${permission.replace("_", " ")} access`,
+      code: "ORGANIZATION_PERMISSION_DENIED",
+    });
+  };
+}
+
 /**
  * Middleware to check if user owns a resource
  */
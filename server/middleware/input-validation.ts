@@ -8,6 +8,7 @@
 import { Request, Response, NextFunction } from "express";
 import { z, ZodSchema, ZodError } from "zod";
 import { SecurityValidator, SecureSchemas } from "@shared/security-validation";
+import { jobScoringConfigSchema } from "@shared/schema";
 import { logger } from "../config/logger";
 
 // Enhanced security validation schemas
@@ -125,6 +126,15 @@ export const validationSchemas = {
     }),
   }),
 
+  getMatchingJobs: z.object({
+    params: z.object({
+      id: commonSchemas.id,
+    }),
+    query: z.object({
+      limit: SecureSchemas.secureNumber({ min: 1, max: 10, integer: true }).optional(),
+    }),
+  }),
+
   getResumes: z.object({
     query: z.object({
       sessionId: commonSchemas.sessionId.optional(),
@@ -155,6 +165,8 @@ export const validationSchemas = {
         allowNewlines: false
       }).optional(),
       experienceLevel: z.enum(['entry', 'junior', 'mid', 'senior', 'lead', 'executive']).optional(),
+      blindReview: z.boolean().optional(),
+      scoringConfig: jobScoringConfigSchema.nullable().optional(),
     }),
   }),
 
@@ -172,6 +184,8 @@ export const validationSchemas = {
         allowNewlines: false
       }).optional(),
       experienceLevel: z.enum(['entry', 'junior', 'mid', 'senior', 'lead', 'executive']).optional(),
+      blindReview: z.boolean().optional(),
+      scoringConfig: jobScoringConfigSchema.nullable().optional(),
     }),
   }),
 
@@ -182,7 +196,7 @@ export const validationSchemas = {
     }),
     body: z.object({
       // Make resumeIds optional so API can analyze all resumes when not provided
-      resumeIds: z.array(commonSchemas.id).min(1).max(10).optional(),
+      resumeIds: z.array(commonSchemas.id).min(1).max(200).optional(),
       sessionId: z.string().min(1).optional(),
       batchId: z.string().min(1).optional(),
       analysisType: z
@@ -190,6 +204,13 @@ export const validationSchemas = {
         .default("basic")
         .optional(),
       includeRecommendations: z.boolean().default(true).optional(),
+      // Queue the analysis and return 202 with a run ID instead of blocking
+      async: z.boolean().optional(),
+      // Leave out resumes flagged as copies of another resume
+      skipDuplicates: z.boolean().optional(),
+    }).refine((body) => body.async || !body.resumeIds || body.resumeIds.length <= 10, {
+      message: "Synchronous analysis accepts at most 10 resumeIds; set async: true for larger batches",
+      path: ["resumeIds"],
     }),
   }),
 
@@ -203,6 +224,17 @@ export const validationSchemas = {
     }),
   }),
 
+  exportAnalysis: z.object({
+    params: z.object({
+      jobId: commonSchemas.id,
+    }),
+    query: z.object({
+      format: z.enum(['csv', 'xlsx', 'pdf']),
+      sessionId: z.string().min(1, "Session ID is required").optional(),
+      batchId: z.string().min(1, "Batch ID is required").optional(),
+    }),
+  }),
+
   // Interview endpoints
   generateQuestions: z.object({
     params: z.object({
@@ -572,10 +604,12 @@ export const validators = {
   uploadResume: validateRequest(validationSchemas.uploadResume),
   getResume: validateRequest(validationSchemas.getResume),
   getResumes: validateRequest(validationSchemas.getResumes),
+  getMatchingJobs: validateRequest(validationSchemas.getMatchingJobs),
   createJob: validateRequest(validationSchemas.createJob),
   updateJob: validateRequest(validationSchemas.updateJob),
   analyzeResume: validateRequest(validationSchemas.analyzeResume),
   getAnalysis: validateRequest(validationSchemas.getAnalysis),
+  exportAnalysis: validateRequest(validationSchemas.exportAnalysis),
   generateQuestions: validateRequest(validationSchemas.generateQuestions),
   updateProfile: validateRequest(validationSchemas.updateProfile),
 
@@ -71,3 +71,20 @@ export const uploadRateLimiter = createTestSafeRateLimiter({
     return process.env.NODE_ENV === "development" || process.env.NODE_ENV === "test";
   },
 });
+
+// Feedback form rate limiter - the form accepts anonymous submissions
+export const feedbackRateLimiter = createTestSafeRateLimiter({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10, // 10 submissions per IP per hour
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req: any, res: any) => {
+    logger.warn(`Feedback rate limit exceeded for IP: ${req.ip}`);
+    res.status(429).json({
+      error: "Too many feedback submissions",
+      message: "You can send up to 10 feedback messages per hour",
+      retryAfter: 60 * 60, // seconds
+      code: "RATE_LIMIT_EXCEEDED"
+    });
+  },
+});
@@ -8,6 +8,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { tokenUsageService } from '../services/token-usage';
 import { logger } from '../config/logger';
+import { isIpAllowed, resolveRequiredScope, tokenRateLimiter } from '../lib/api-token-scopes';
+import type { ApiTokenScope } from '../../shared/schema';
 
 // Extend Request interface to include token user
 declare global {
@@ -17,6 +19,7 @@ declare global {
         userId: string;
         tokenId: string;
         remainingCalls: number;
+        scopes: ApiTokenScope[];
       };
     }
   }
@@ -25,13 +28,17 @@ declare global {
 interface TokenAuthOptions {
   trackUsage?: boolean;
   requireValidToken?: boolean;
+  // Scope the endpoint needs; inferred from the method and path when omitted
+  scope?: ApiTokenScope;
 }
 
 /**
- * Middleware to authenticate API token and track usage
+ * Middleware to authenticate API token and track usage. Rejects requests
+ * from outside the token's IP allowlist, requests the token's scopes do not
+ * cover, and requests over the token's own per-minute limit.
  */
 export function authenticateApiToken(options: TokenAuthOptions = {}) {
-  const { trackUsage = true, requireValidToken = true } = options;
+  const { trackUsage = true, requireValidToken = true, scope } = options;
 
   return async (req: Request, res: Response, next: NextFunction) => {
     const startTime = Date.now();
@@ -86,6 +93,45 @@ export function authenticateApiToken(options: TokenAuthOptions = {}) {
         return next();
       }
 
+      if (!isIpAllowed(req.ip, tokenValidation.allowedCidrs)) {
+        logger.warn('API token used from a disallowed address', {
+          userId: tokenValidation.userId,
+          tokenId: tokenValidation.tokenId,
+          ip: req.ip,
+          path: req.path,
+          method: req.method,
+        });
+
+        return res.status(403).json({
+          error: 'Address not allowed',
+          message: 'This API token cannot be used from your IP address.',
+          code: 'TOKEN_IP_NOT_ALLOWED',
+        });
+      }
+
+      const requiredScope = scope ?? resolveRequiredScope(req.method, req.originalUrl);
+      if (!requiredScope || !tokenValidation.scopes.includes(requiredScope)) {
+        logger.warn('API token lacks the required scope', {
+          userId: tokenValidation.userId,
+          tokenId: tokenValidation.tokenId,
+          requiredScope,
+          path: req.path,
+          method: req.method,
+        });
+
+        return res.status(403).json({
+          error: 'Insufficient scope',
+          message: requiredScope
+            ? `This API token does not have the ${requiredScope} scope required for this endpoint.`
+            : 'This endpoint is not available to API tokens.',
+          code: 'INSUFFICIENT_TOKEN_SCOPE',
+          details: {
+            requiredScope,
+            grantedScopes: tokenValidation.scopes,
+          },
+        });
+      }
+
       // Check if user can make requests (has remaining calls)
       if (!tokenValidation.canMakeRequest) {
         logger.warn('API limit exceeded', {
@@ -107,11 +153,31 @@ export function authenticateApiToken(options: TokenAuthOptions = {}) {
         });
       }
 
+      if (tokenValidation.rateLimitPerMinute) {
+        const rateLimit = tokenRateLimiter.consume(tokenValidation.tokenId, tokenValidation.rateLimitPerMinute);
+        res.set('X-Token-RateLimit-Limit', tokenValidation.rateLimitPerMinute.toString());
+        res.set('X-Token-RateLimit-Remaining', rateLimit.remaining.toString());
+
+        if (!rateLimit.allowed) {
+          res.set('Retry-After', rateLimit.retryAfterSeconds.toString());
+          return res.status(429).json({
+            error: 'Token rate limit exceeded',
+            message: `This API token is limited to ${tokenValidation.rateLimitPerMinute} requests per minute.`,
+            code: 'TOKEN_RATE_LIMITED',
+            details: {
+              limitPerMinute: tokenValidation.rateLimitPerMinute,
+              retryAfterSeconds: rateLimit.retryAfterSeconds,
+            },
+          });
+        }
+      }
+
       // Add token user to request
       req.tokenUser = {
         userId: tokenValidation.userId,
         tokenId: tokenValidation.tokenId,
         remainingCalls: tokenValidation.remainingCalls,
+        scopes: tokenValidation.scopes,
       };
 
       // Track usage if enabled
@@ -154,6 +220,7 @@ export function authenticateApiToken(options: TokenAuthOptions = {}) {
               responseSize,
               ipAddress: req.ip,
               userAgent: req.headers['user-agent'],
+              tokenId: tokenValidation.tokenId,
             });
           } catch (error) {
             logger.error('Failed to track API usage', {
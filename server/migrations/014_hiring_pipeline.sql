@@ -0,0 +1,55 @@
+-- ============================================================================
+-- HIRING PIPELINE MIGRATION
+-- Version: 014_hiring_pipeline
+-- Description: Per-job pipeline stages, candidate stage tracking and transition history
+-- Date: 2026-10-18
+-- ============================================================================
+
+-- Record this migration
+INSERT INTO schema_migrations (version, description) 
+VALUES ('014_hiring_pipeline', 'Add hiring pipeline stages, candidate status and transition history')
+ON CONFLICT (version) DO NOTHING;
+
+-- Configurable stages per job description
+CREATE TABLE IF NOT EXISTS pipeline_stages (
+    id SERIAL PRIMARY KEY,
+    job_description_id INTEGER NOT NULL REFERENCES job_descriptions(id) ON DELETE CASCADE,
+    key VARCHAR(50) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    is_terminal BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+
+    CONSTRAINT uq_pipeline_stages_job_key UNIQUE (job_description_id, key)
+);
+
+-- Current stage of each candidate, keyed on job + resume
+CREATE TABLE IF NOT EXISTS candidate_pipeline (
+    id SERIAL PRIMARY KEY,
+    user_id TEXT,
+    job_description_id INTEGER NOT NULL REFERENCES job_descriptions(id) ON DELETE CASCADE,
+    resume_id INTEGER NOT NULL REFERENCES resumes(id) ON DELETE CASCADE,
+    stage VARCHAR(50) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+
+    CONSTRAINT uq_candidate_pipeline_job_resume UNIQUE (job_description_id, resume_id)
+);
+
+-- Append-only history of stage changes
+CREATE TABLE IF NOT EXISTS pipeline_transitions (
+    id SERIAL PRIMARY KEY,
+    job_description_id INTEGER NOT NULL REFERENCES job_descriptions(id) ON DELETE CASCADE,
+    resume_id INTEGER NOT NULL REFERENCES resumes(id) ON DELETE CASCADE,
+    from_stage VARCHAR(50),
+    to_stage VARCHAR(50) NOT NULL,
+    actor_id TEXT NOT NULL,
+    note TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Indexes for board and history lookups
+CREATE INDEX IF NOT EXISTS idx_pipeline_stages_job ON pipeline_stages(job_description_id, position);
+CREATE INDEX IF NOT EXISTS idx_candidate_pipeline_job_stage ON candidate_pipeline(job_description_id, stage);
+CREATE INDEX IF NOT EXISTS idx_pipeline_transitions_job_resume ON pipeline_transitions(job_description_id, resume_id, created_at);
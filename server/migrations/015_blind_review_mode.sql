@@ -0,0 +1,14 @@
+-- ============================================================================
+-- BLIND REVIEW MODE MIGRATION
+-- Version: 015_blind_review_mode
+-- Description: Per-job flag that anonymizes resumes before review and LLM prompts
+-- Date: 2026-10-18
+-- ============================================================================
+
+-- Record this migration
+INSERT INTO schema_migrations (version, description) 
+VALUES ('015_blind_review_mode', 'Add per-job blind review flag to job descriptions')
+ON CONFLICT (version) DO NOTHING;
+
+ALTER TABLE job_descriptions
+ADD COLUMN IF NOT EXISTS blind_review BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,49 @@
+-- ============================================================================
+-- ANALYSIS RUNS MIGRATION
+-- Version: 017_analysis_runs
+-- Description: Asynchronous analysis runs with per-resume progress
+-- Date: 2026-10-18
+-- ============================================================================
+
+-- Record this migration
+INSERT INTO schema_migrations (version, description) 
+VALUES ('017_analysis_runs', 'Add asynchronous analysis runs and run items')
+ON CONFLICT (version) DO NOTHING;
+
+-- One row per queued analysis of a job against a set of resumes
+CREATE TABLE IF NOT EXISTS analysis_runs (
+    id SERIAL PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    job_description_id INTEGER NOT NULL REFERENCES job_descriptions(id) ON DELETE CASCADE,
+    session_id TEXT,
+    batch_id TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'queued',
+    total_resumes INTEGER NOT NULL DEFAULT 0,
+    completed_resumes INTEGER NOT NULL DEFAULT 0,
+    failed_resumes INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    started_at TIMESTAMP,
+    completed_at TIMESTAMP,
+
+    CONSTRAINT chk_analysis_runs_status CHECK (status IN ('queued', 'running', 'completed', 'failed'))
+);
+
+-- Progress and outcome of each resume in a run
+CREATE TABLE IF NOT EXISTS analysis_run_items (
+    id SERIAL PRIMARY KEY,
+    run_id INTEGER NOT NULL REFERENCES analysis_runs(id) ON DELETE CASCADE,
+    resume_id INTEGER NOT NULL REFERENCES resumes(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    analysis_result_id INTEGER REFERENCES analysis_results(id) ON DELETE SET NULL,
+    result JSON,
+    error TEXT,
+    started_at TIMESTAMP,
+    completed_at TIMESTAMP,
+
+    CONSTRAINT chk_analysis_run_items_status CHECK (status IN ('pending', 'running', 'completed', 'failed'))
+);
+
+-- Indexes for run lookups
+CREATE INDEX IF NOT EXISTS idx_analysis_runs_user_job ON analysis_runs(user_id, job_description_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_analysis_run_items_run ON analysis_run_items(run_id);
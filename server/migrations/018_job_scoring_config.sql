@@ -0,0 +1,15 @@
+-- ============================================================================
+-- JOB SCORING CONFIG MIGRATION
+-- Version: 018_job_scoring_config
+-- Description: Owner-defined dimension weights, must-have skills and minimum years per job
+-- Date: 2026-10-18
+-- ============================================================================
+
+-- Record this migration
+INSERT INTO schema_migrations (version, description) 
+VALUES ('018_job_scoring_config', 'Add per-job scoring weights and requirement gates')
+ON CONFLICT (version) DO NOTHING;
+
+-- NULL means the job uses the default weights and heuristic requirement gates
+ALTER TABLE job_descriptions
+ADD COLUMN IF NOT EXISTS scoring_config JSON;
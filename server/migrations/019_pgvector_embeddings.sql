@@ -0,0 +1,60 @@
+-- ============================================================================
+-- PGVECTOR EMBEDDINGS MIGRATION
+-- Version: 019_pgvector_embeddings
+-- Description: Native vector columns and an HNSW index for resume similarity search
+-- Date: 2026-10-18
+-- ============================================================================
+
+-- Record this migration
+INSERT INTO schema_migrations (version, description) 
+VALUES ('019_pgvector_embeddings', 'Add pgvector embedding columns and similarity index')
+ON CONFLICT (version) DO NOTHING;
+
+-- ============================================================================
+-- PGVECTOR-OPTIONAL VECTOR COLUMNS
+-- ============================================================================
+
+-- Hosts without the pgvector extension skip the whole block; the
+-- application detects the missing columns and ranks resumes in process
+DO $$
+BEGIN
+    CREATE EXTENSION IF NOT EXISTS vector;
+
+    -- The JSON embedding columns stay the source of truth; these hold an
+    -- indexable copy of 384-dimension vectors (NULL for any other length)
+    ALTER TABLE resumes
+    ADD COLUMN IF NOT EXISTS embedding_vector vector(384);
+
+    ALTER TABLE job_descriptions
+    ADD COLUMN IF NOT EXISTS embedding_vector vector(384);
+
+    -- Backfill from the existing JSON arrays
+    UPDATE resumes
+    SET embedding_vector = embedding::text::vector(384)
+    WHERE embedding_vector IS NULL
+      AND embedding IS NOT NULL
+      AND json_typeof(embedding) = 'array'
+      AND json_array_length(embedding) = 384;
+
+    UPDATE job_descriptions
+    SET embedding_vector = embedding::text::vector(384)
+    WHERE embedding_vector IS NULL
+      AND embedding IS NOT NULL
+      AND json_typeof(embedding) = 'array'
+      AND json_array_length(embedding) = 384;
+
+    -- Zero vectors are placeholders for failed embeddings and have no cosine distance
+    UPDATE resumes SET embedding_vector = NULL WHERE vector_norm(embedding_vector) = 0;
+    UPDATE job_descriptions SET embedding_vector = NULL WHERE vector_norm(embedding_vector) = 0;
+
+    -- Nearest-resume search for a job (ORDER BY embedding_vector <=> job vector)
+    CREATE INDEX IF NOT EXISTS idx_resumes_embedding_vector_hnsw
+    ON resumes USING hnsw (embedding_vector vector_cosine_ops);
+
+    RAISE NOTICE '✅ pgvector embedding columns and index created';
+EXCEPTION
+    WHEN insufficient_privilege THEN
+        RAISE NOTICE '⚠️  pgvector extension requires elevated privileges, similar resume search will rank in process';
+    WHEN OTHERS THEN
+        RAISE NOTICE '⚠️  pgvector unavailable, similar resume search will rank in process: %', SQLERRM;
+END $$;
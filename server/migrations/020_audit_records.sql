@@ -0,0 +1,61 @@
+-- ============================================================================
+-- AUDIT RECORDS MIGRATION
+-- Version: 020_audit_records
+-- Description: Hash-chained, append-only audit records for analyses and redactions
+-- Date: 2026-10-18
+-- ============================================================================
+
+-- Record this migration
+INSERT INTO schema_migrations (version, description) 
+VALUES ('020_audit_records', 'Add hash-chained audit records table')
+ON CONFLICT (version) DO NOTHING;
+
+-- Each record_hash covers the record's content and the previous record's hash.
+-- Subject IDs are not foreign keys so deleting a resume or job never touches the chain.
+CREATE TABLE IF NOT EXISTS audit_records (
+    id SERIAL PRIMARY KEY,
+    record_id TEXT NOT NULL UNIQUE,
+    event_type VARCHAR(40) NOT NULL,
+    user_id TEXT,
+    job_id INTEGER,
+    resume_id INTEGER,
+    resume_hash TEXT,
+    job_hash TEXT,
+    provider TEXT,
+    model TEXT,
+    payload JSON NOT NULL,
+    previous_hash TEXT NOT NULL,
+    record_hash TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMP NOT NULL,
+
+    CONSTRAINT chk_audit_records_event_type CHECK (event_type IN ('analysis', 'blind_review_redaction', 'complete_analysis'))
+);
+
+-- Indexes for the admin search filters
+CREATE INDEX IF NOT EXISTS idx_audit_records_user ON audit_records(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_records_job ON audit_records(job_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_records_resume_hash ON audit_records(resume_hash);
+CREATE INDEX IF NOT EXISTS idx_audit_records_provider_model ON audit_records(provider, model);
+CREATE INDEX IF NOT EXISTS idx_audit_records_created_at ON audit_records(created_at DESC);
+
+-- The table is append-only; verification still catches edits made with the trigger disabled
+CREATE OR REPLACE FUNCTION prevent_audit_record_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_records is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.triggers 
+        WHERE trigger_name = 'trigger_prevent_audit_record_changes' 
+        AND event_object_table = 'audit_records'
+    ) THEN
+        CREATE TRIGGER trigger_prevent_audit_record_changes
+            BEFORE UPDATE OR DELETE ON audit_records
+            FOR EACH ROW
+            EXECUTE FUNCTION prevent_audit_record_changes();
+    END IF;
+END $$;
@@ -0,0 +1,54 @@
+-- ============================================================================
+-- RESCORE RUNS MIGRATION
+-- Version: 021_rescore_runs
+-- Description: Replays of stored analyses under a new scoring config, with versioned result rows
+-- Date: 2026-10-18
+-- ============================================================================
+
+-- Record this migration
+INSERT INTO schema_migrations (version, description) 
+VALUES ('021_rescore_runs', 'Add re-scoring runs and versioned rescored results')
+ON CONFLICT (version) DO NOTHING;
+
+-- One row per replay; the diff report is stored with the run once it completes
+CREATE TABLE IF NOT EXISTS rescore_runs (
+    id SERIAL PRIMARY KEY,
+    label TEXT,
+    scoring_version TEXT NOT NULL,
+    config JSON NOT NULL,
+    job_ids JSON NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'queued',
+    total_analyses INTEGER NOT NULL DEFAULT 0,
+    rescored_analyses INTEGER NOT NULL DEFAULT 0,
+    report JSON,
+    error TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    started_at TIMESTAMP,
+    completed_at TIMESTAMP,
+
+    CONSTRAINT chk_rescore_runs_status CHECK (status IN ('queued', 'running', 'completed', 'failed'))
+);
+
+-- The replayed score of each analysis; analysis_results itself is never rewritten
+CREATE TABLE IF NOT EXISTS rescored_analysis_results (
+    id SERIAL PRIMARY KEY,
+    run_id INTEGER NOT NULL REFERENCES rescore_runs(id) ON DELETE CASCADE,
+    analysis_result_id INTEGER NOT NULL REFERENCES analysis_results(id) ON DELETE CASCADE,
+    job_description_id INTEGER NOT NULL,
+    resume_id INTEGER NOT NULL,
+    scoring_version TEXT NOT NULL,
+    previous_match_percentage REAL,
+    match_percentage REAL,
+    ml_score REAL,
+    llm_score REAL,
+    llm_score_estimated BOOLEAN NOT NULL DEFAULT FALSE,
+    scoring_weights JSON NOT NULL,
+    ensemble_weights JSON NOT NULL,
+    gate_violations JSON NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Indexes for run and version lookups
+CREATE INDEX IF NOT EXISTS idx_rescore_runs_created_at ON rescore_runs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_rescored_analysis_results_run ON rescored_analysis_results(run_id, job_description_id);
+CREATE INDEX IF NOT EXISTS idx_rescored_analysis_results_analysis ON rescored_analysis_results(analysis_result_id, scoring_version);
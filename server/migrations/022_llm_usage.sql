@@ -0,0 +1,38 @@
+-- ============================================================================
+-- LLM USAGE MIGRATION
+-- Version: 022_llm_usage
+-- Description: Token and cost accounting for provider completions, with per-user monthly budgets
+-- Date: 2026-10-18
+-- ============================================================================
+
+-- Record this migration
+INSERT INTO schema_migrations (version, description) 
+VALUES ('022_llm_usage', 'Add LLM usage records and monthly budgets')
+ON CONFLICT (version) DO NOTHING;
+
+-- One row per completion; cost is priced with the table in effect at the time
+CREATE TABLE IF NOT EXISTS llm_usage_records (
+    id SERIAL PRIMARY KEY,
+    user_id TEXT,
+    job_id INTEGER,
+    provider VARCHAR(20) NOT NULL,
+    model TEXT NOT NULL,
+    operation VARCHAR(40) NOT NULL,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    cost_usd REAL NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS llm_budgets (
+    id SERIAL PRIMARY KEY,
+    user_id TEXT NOT NULL UNIQUE,
+    monthly_limit_usd REAL NOT NULL,
+    updated_at TIMESTAMP DEFAULT NOW(),
+
+    CONSTRAINT chk_llm_budgets_limit CHECK (monthly_limit_usd >= 0)
+);
+
+-- Indexes for per-user monthly totals and per-job breakdowns
+CREATE INDEX IF NOT EXISTS idx_llm_usage_records_user_created ON llm_usage_records(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_records_job ON llm_usage_records(job_id);
@@ -0,0 +1,59 @@
+-- ============================================================================
+-- ORGANIZATIONS MIGRATION
+-- Version: 023_organizations
+-- Description: Organizations with role-based membership and invitations; jobs and resumes can be shared at org scope
+-- Date: 2026-10-18
+-- ============================================================================
+
+-- Record this migration
+INSERT INTO schema_migrations (version, description) 
+VALUES ('023_organizations', 'Add organizations, memberships, invitations and org-scoped sharing')
+ON CONFLICT (version) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS organizations (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    created_by TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+    id SERIAL PRIMARY KEY,
+    organization_id INTEGER NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+    role VARCHAR(20) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+
+    CONSTRAINT uq_organization_members_user UNIQUE (organization_id, user_id),
+    CONSTRAINT chk_organization_members_role CHECK (role IN ('owner', 'recruiter', 'hiring_manager', 'viewer'))
+);
+
+-- Only the token hash is stored; the token is returned once to the inviter
+CREATE TABLE IF NOT EXISTS organization_invitations (
+    id SERIAL PRIMARY KEY,
+    organization_id INTEGER NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL,
+    role VARCHAR(20) NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    invited_by TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    expires_at TIMESTAMP NOT NULL,
+    accepted_by TEXT,
+    accepted_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW(),
+
+    CONSTRAINT chk_organization_invitations_role CHECK (role IN ('owner', 'recruiter', 'hiring_manager', 'viewer')),
+    CONSTRAINT chk_organization_invitations_status CHECK (status IN ('pending', 'accepted', 'revoked'))
+);
+
+-- Org-scoped sharing; NULL keeps an item private to its owner
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS organization_id INTEGER REFERENCES organizations(id) ON DELETE SET NULL;
+ALTER TABLE job_descriptions ADD COLUMN IF NOT EXISTS organization_id INTEGER REFERENCES organizations(id) ON DELETE SET NULL;
+
+-- Indexes for membership lookups and org-scoped listings
+CREATE INDEX IF NOT EXISTS idx_organization_members_user ON organization_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_organization_invitations_org_status ON organization_invitations(organization_id, status);
+CREATE INDEX IF NOT EXISTS idx_resumes_organization ON resumes(organization_id) WHERE organization_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_job_descriptions_organization ON job_descriptions(organization_id) WHERE organization_id IS NOT NULL;
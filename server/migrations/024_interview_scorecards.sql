@@ -0,0 +1,33 @@
+-- ============================================================================
+-- INTERVIEW SCORECARDS MIGRATION
+-- Version: 024_interview_scorecards
+-- Description: Per-interviewer ratings and notes against generated interview questions
+-- Date: 2026-10-18
+-- ============================================================================
+
+-- Record this migration
+INSERT INTO schema_migrations (version, description) 
+VALUES ('024_interview_scorecards', 'Add interview scorecards for structured interviewer feedback')
+ON CONFLICT (version) DO NOTHING;
+
+-- One scorecard per interviewer per question set; resubmitting replaces it
+CREATE TABLE IF NOT EXISTS interview_scorecards (
+    id SERIAL PRIMARY KEY,
+    interview_questions_id INTEGER NOT NULL REFERENCES interview_questions(id) ON DELETE CASCADE,
+    resume_id INTEGER NOT NULL REFERENCES resumes(id) ON DELETE CASCADE,
+    job_description_id INTEGER NOT NULL REFERENCES job_descriptions(id) ON DELETE CASCADE,
+    interviewer_id TEXT NOT NULL,
+    interviewer_name TEXT,
+    ratings JSON NOT NULL,
+    recommendation VARCHAR(20),
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+
+    CONSTRAINT uq_interview_scorecards_interviewer UNIQUE (interview_questions_id, interviewer_id),
+    CONSTRAINT chk_interview_scorecards_recommendation
+        CHECK (recommendation IS NULL OR recommendation IN ('strong_no', 'no', 'yes', 'strong_yes'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_interview_scorecards_candidate
+    ON interview_scorecards(job_description_id, resume_id);
@@ -0,0 +1,36 @@
+-- ============================================================================
+-- CANDIDATE GROUPS MIGRATION
+-- Version: 025_candidate_groups
+-- Description: Resume fingerprints for duplicate detection at upload, and candidate groups linking copies of the same person
+-- Date: 2026-10-18
+-- ============================================================================
+
+-- Record this migration
+INSERT INTO schema_migrations (version, description) 
+VALUES ('025_candidate_groups', 'Add resume fingerprints and candidate groups for duplicate detection')
+ON CONFLICT (version) DO NOTHING;
+
+-- One group per person; the primary resume is the copy that gets analyzed
+CREATE TABLE IF NOT EXISTS candidate_groups (
+    id SERIAL PRIMARY KEY,
+    user_id TEXT,
+    organization_id INTEGER REFERENCES organizations(id) ON DELETE SET NULL,
+    primary_resume_id INTEGER NOT NULL REFERENCES resumes(id) ON DELETE CASCADE,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Fingerprints are computed from the extracted text when the resume is uploaded
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS contact_email TEXT;
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS contact_phone TEXT;
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS candidate_group_id INTEGER REFERENCES candidate_groups(id) ON DELETE SET NULL;
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS duplicate_status VARCHAR(20)
+    CHECK (duplicate_status IS NULL OR duplicate_status IN ('suspected', 'merged'));
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS duplicate_signals JSON;
+
+-- Indexes for fingerprint lookups and group membership
+CREATE INDEX IF NOT EXISTS idx_resumes_content_hash ON resumes(content_hash) WHERE content_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_resumes_contact_email ON resumes(contact_email) WHERE contact_email IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_resumes_contact_phone ON resumes(contact_phone) WHERE contact_phone IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_resumes_candidate_group ON resumes(candidate_group_id) WHERE candidate_group_id IS NOT NULL;
@@ -0,0 +1,37 @@
+-- ============================================================================
+-- JOB DESCRIPTION VERSIONS MIGRATION
+-- Version: 026_job_description_versions
+-- Description: Version history for job descriptions, and the job version each analysis ran against
+-- Date: 2026-10-18
+-- ============================================================================
+
+-- Record this migration
+INSERT INTO schema_migrations (version, description) 
+VALUES ('026_job_description_versions', 'Add job description version history and stale analysis tracking')
+ON CONFLICT (version) DO NOTHING;
+
+-- Existing jobs start at version 1
+ALTER TABLE job_descriptions ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- The first edit of a job also records the content it replaced
+CREATE TABLE IF NOT EXISTS job_description_versions (
+    id SERIAL PRIMARY KEY,
+    job_description_id INTEGER NOT NULL REFERENCES job_descriptions(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    requirements JSON,
+    diff JSON,
+    changed_by TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+
+    CONSTRAINT uq_job_description_versions_version UNIQUE (job_description_id, version)
+);
+
+-- Analyses stored before versioning ran against version 1
+ALTER TABLE analysis_results ADD COLUMN IF NOT EXISTS job_version INTEGER;
+ALTER TABLE analysis_results ADD COLUMN IF NOT EXISTS stale_at TIMESTAMP;
+UPDATE analysis_results SET job_version = 1 WHERE job_version IS NULL AND job_description_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_analysis_results_stale
+    ON analysis_results(job_description_id) WHERE stale_at IS NOT NULL;
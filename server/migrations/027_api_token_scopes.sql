@@ -0,0 +1,26 @@
+-- ============================================================================
+-- API TOKEN SCOPES MIGRATION
+-- Version: 027_api_token_scopes
+-- Description: Scopes, IP allowlists and per-token rate limits for API tokens
+-- Date: 2026-10-18
+-- ============================================================================
+
+-- Record this migration
+INSERT INTO schema_migrations (version, description) 
+VALUES ('027_api_token_scopes', 'Add scopes, CIDR allowlists and rate limits to API tokens')
+ON CONFLICT (version) DO NOTHING;
+
+-- Tokens issued before scopes existed keep the full access they were created with
+ALTER TABLE user_tokens ADD COLUMN IF NOT EXISTS scopes JSON;
+UPDATE user_tokens
+SET scopes = '["resumes:read","resumes:write","jobs:read","jobs:write","analysis:read","analysis:run","bias:run"]'
+WHERE scopes IS NULL;
+ALTER TABLE user_tokens ALTER COLUMN scopes SET DEFAULT '[]';
+ALTER TABLE user_tokens ALTER COLUMN scopes SET NOT NULL;
+
+-- Null allows requests from any address
+ALTER TABLE user_tokens ADD COLUMN IF NOT EXISTS allowed_cidrs JSON;
+
+-- Null leaves the token bound only by the account's call limit
+ALTER TABLE user_tokens ADD COLUMN IF NOT EXISTS rate_limit_per_minute INTEGER
+    CHECK (rate_limit_per_minute IS NULL OR rate_limit_per_minute > 0);
@@ -0,0 +1,40 @@
+-- ============================================================================
+-- TOKEN ROTATION AND ACTIVITY MIGRATION
+-- Version: 028_token_rotation_and_activity
+-- Description: Hashed token secrets with rotation, per-token call logs and anomaly alerts
+-- Date: 2026-10-18
+-- ============================================================================
+
+-- Record this migration
+INSERT INTO schema_migrations (version, description) 
+VALUES ('028_token_rotation_and_activity', 'Add hashed token secrets, rotation, per-token call logs and anomaly alerts')
+ON CONFLICT (version) DO NOTHING;
+
+-- Only a SHA-256 hash of each secret is stored. Tokens issued before this
+-- migration never had their secret stored, so nothing can be backfilled:
+-- they are rejected until their owner rotates them.
+ALTER TABLE user_tokens ADD COLUMN IF NOT EXISTS secret_hash TEXT;
+ALTER TABLE user_tokens ADD COLUMN IF NOT EXISTS previous_secret_hash TEXT;
+ALTER TABLE user_tokens ADD COLUMN IF NOT EXISTS previous_secret_expires_at TIMESTAMP;
+ALTER TABLE user_tokens ADD COLUMN IF NOT EXISTS rotated_at TIMESTAMP;
+
+-- Attribute API calls to the token that made them
+ALTER TABLE api_call_logs ADD COLUMN IF NOT EXISTS token_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_api_call_logs_token_created
+    ON api_call_logs(token_id, created_at DESC) WHERE token_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS token_anomaly_alerts (
+    id SERIAL PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    token_id TEXT NOT NULL,
+    type VARCHAR(30) NOT NULL CHECK (type IN ('new_ip_range', 'volume_spike')),
+    details JSON NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    acknowledged_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_anomaly_alerts_user
+    ON token_anomaly_alerts(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_token_anomaly_alerts_token_type
+    ON token_anomaly_alerts(token_id, type, created_at DESC);
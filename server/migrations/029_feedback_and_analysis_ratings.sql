@@ -0,0 +1,54 @@
+-- ============================================================================
+-- FEEDBACK AND ANALYSIS RATINGS MIGRATION
+-- Version: 029_feedback_and_analysis_ratings
+-- Description: Product feedback submissions and per-result analysis quality ratings
+-- Date: 2026-10-18
+-- ============================================================================
+
+-- Record this migration
+INSERT INTO schema_migrations (version, description) 
+VALUES ('029_feedback_and_analysis_ratings', 'Add product feedback and analysis quality ratings')
+ON CONFLICT (version) DO NOTHING;
+
+-- Feedback page submissions; signed-out visitors have no user_id
+CREATE TABLE IF NOT EXISTS product_feedback (
+    id SERIAL PRIMARY KEY,
+    user_id TEXT,
+    name TEXT,
+    email TEXT,
+    type VARCHAR(20) NOT NULL,
+    rating INTEGER,
+    comment TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+
+    CONSTRAINT chk_product_feedback_type
+        CHECK (type IN ('general', 'bug', 'feature', 'improvement')),
+    CONSTRAINT chk_product_feedback_rating
+        CHECK (rating IS NULL OR rating BETWEEN 1 AND 5)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_feedback_created_at
+    ON product_feedback(created_at DESC);
+
+-- One rating per user per analysis result; rating again replaces it.
+-- Provider, model and score are copied from the result when it is rated.
+CREATE TABLE IF NOT EXISTS analysis_ratings (
+    id SERIAL PRIMARY KEY,
+    analysis_result_id INTEGER NOT NULL REFERENCES analysis_results(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+    verdict VARCHAR(20),
+    missed_skills JSON NOT NULL DEFAULT '[]',
+    comment TEXT,
+    match_percentage REAL,
+    ai_provider VARCHAR(50),
+    model_version VARCHAR(50),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+
+    CONSTRAINT uq_analysis_ratings_user UNIQUE (analysis_result_id, user_id),
+    CONSTRAINT chk_analysis_ratings_verdict
+        CHECK (verdict IS NULL OR verdict IN ('accurate', 'score_too_high', 'score_too_low'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_ratings_provider
+    ON analysis_ratings(ai_provider, model_version);
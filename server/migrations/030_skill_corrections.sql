@@ -0,0 +1,31 @@
+-- ============================================================================
+-- SKILL CORRECTIONS MIGRATION
+-- Version: 030_skill_corrections
+-- Description: Recruiter corrections to extracted skills
+-- Date: 2026-10-18
+-- ============================================================================
+
+-- Record this migration
+INSERT INTO schema_migrations (version, description) 
+VALUES ('030_skill_corrections', 'Add recruiter corrections to extracted skills')
+ON CONFLICT (version) DO NOTHING;
+
+-- One correction per skill per user; correcting the same skill again replaces it
+CREATE TABLE IF NOT EXISTS skill_corrections (
+    id SERIAL PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    type VARCHAR(20) NOT NULL,
+    skill VARCHAR(100) NOT NULL,
+    normalized_skill VARCHAR(100) NOT NULL,
+    equivalent_to VARCHAR(100),
+    resume_id INTEGER REFERENCES resumes(id) ON DELETE SET NULL,
+    job_description_id INTEGER REFERENCES job_descriptions(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+
+    CONSTRAINT uq_skill_corrections_user_skill UNIQUE (user_id, normalized_skill),
+    CONSTRAINT chk_skill_corrections_type
+        CHECK (type IN ('wrong', 'missed', 'equivalent')),
+    CONSTRAINT chk_skill_corrections_equivalent
+        CHECK ((type = 'equivalent') = (equivalent_to IS NOT NULL))
+);
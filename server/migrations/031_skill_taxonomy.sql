@@ -0,0 +1,32 @@
+-- ============================================================================
+-- SKILL TAXONOMY MIGRATION
+-- Version: 031_skill_taxonomy
+-- Description: Organization-managed skill taxonomies consulted ahead of ESCO
+-- Date: 2026-10-18
+-- ============================================================================
+
+-- Record this migration
+INSERT INTO schema_migrations (version, description) 
+VALUES ('031_skill_taxonomy', 'Add organization skill taxonomies')
+ON CONFLICT (version) DO NOTHING;
+
+-- Deleting a broader skill leaves its narrower skills at the top level
+CREATE TABLE IF NOT EXISTS skill_taxonomy_entries (
+    id SERIAL PRIMARY KEY,
+    organization_id INTEGER NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    name VARCHAR(150) NOT NULL,
+    normalized_name VARCHAR(150) NOT NULL,
+    category VARCHAR(100) NOT NULL DEFAULT 'general',
+    parent_id INTEGER REFERENCES skill_taxonomy_entries(id) ON DELETE SET NULL,
+    aliases JSON NOT NULL DEFAULT '[]',
+    description TEXT,
+    embedding JSON,
+    created_by TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+
+    CONSTRAINT uq_skill_taxonomy_org_name UNIQUE (organization_id, normalized_name),
+    CONSTRAINT chk_skill_taxonomy_not_own_parent CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_skill_taxonomy_parent ON skill_taxonomy_entries(parent_id);
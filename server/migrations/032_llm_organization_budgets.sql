@@ -0,0 +1,27 @@
+-- ============================================================================
+-- LLM ORGANIZATION BUDGETS MIGRATION
+-- Version: 032_llm_organization_budgets
+-- Description: Attribute LLM usage to organizations and give them monthly budgets
+-- Date: 2026-10-18
+-- ============================================================================
+
+-- Record this migration
+INSERT INTO schema_migrations (version, description) 
+VALUES ('032_llm_organization_budgets', 'Add organization LLM usage attribution and budgets')
+ON CONFLICT (version) DO NOTHING;
+
+-- The organization the job was shared with when the completion ran; null for personal work
+ALTER TABLE llm_usage_records
+    ADD COLUMN IF NOT EXISTS organization_id INTEGER REFERENCES organizations(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS llm_organization_budgets (
+    id SERIAL PRIMARY KEY,
+    organization_id INTEGER NOT NULL UNIQUE REFERENCES organizations(id) ON DELETE CASCADE,
+    monthly_limit_usd REAL NOT NULL,
+    updated_at TIMESTAMP DEFAULT NOW(),
+
+    CONSTRAINT chk_llm_organization_budgets_limit CHECK (monthly_limit_usd >= 0)
+);
+
+-- Index for per-organization monthly totals
+CREATE INDEX IF NOT EXISTS idx_llm_usage_records_organization_created ON llm_usage_records(organization_id, created_at DESC);
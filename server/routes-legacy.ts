@@ -2185,6 +2185,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(400).json({ message: "Maximum 10 files allowed per batch" });
         }
 
+        const batchId = req.body.batchId || (req.headers["x-batch-id"] as string);
+
         // Get user tier for analysis
         const userTier = await getUserTierInfo(req.user!.uid);
         
@@ -2209,6 +2211,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               fileType: file.mimetype,
               content,
               sessionId: req.body.sessionId || generateSessionId(),
+              batchId,
               userId: req.user!.uid,
             });
 
@@ -2223,7 +2226,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Process all resumes in parallel
-        const batchResult = await processBatchResumes(resumeInputs, userTier);
+        const batchResult = await processBatchResumes(resumeInputs, userTier, { batchId });
         
         // Update user tier usage
         userTier.usageCount += batchResult.processed;
@@ -2254,6 +2257,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     async (req: Request, res: Response) => {
       try {
         const { resumeIds, jobIds } = req.body;
+        const batchId = req.body.batchId || (req.headers["x-batch-id"] as string);
         
         if (!resumeIds || !jobIds || !Array.isArray(resumeIds) || !Array.isArray(jobIds)) {
           return res.status(400).json({ 
@@ -2308,7 +2312,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Process all matches in parallel
-        const batchResult = await processBatchMatches(resumes, jobs, userTier);
+        const batchResult = await processBatchMatches(resumes, jobs, userTier, { batchId });
 
         res.status(200).json({
           message: `Batch matching completed`,
@@ -4,12 +4,29 @@
  */
 
 import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
 import { logger } from "../lib/logger";
 import crypto from "crypto";
 import { createAdminService } from "../services/admin-service";
+import { createAuditService, MAX_AUDIT_PAGE_SIZE } from "../services/audit-service";
+import { createFeedbackService, MAX_FEEDBACK_PAGE_SIZE } from "../services/feedback-service";
+import { createRescoreService, MAX_RESCORE_JOBS } from "../services/rescore-service";
+import {
+  SAMPLE_EVALUATION_DATASET_PATH,
+  evaluationDatasetSchema,
+  loadEvaluationDataset,
+  runScoringEvaluation
+} from "../lib/scoring-evaluation";
 import { handleRouteResult } from "../lib/route-error-handler";
+import { ANALYSIS_RATING_VERDICTS, FEEDBACK_TYPES } from "@shared/schema";
 import { queueManager } from "../lib/queue-manager";
 import { getCacheStats } from "../lib/cached-ai-operations";
+import {
+  getLlmCostSummary,
+  getOrganizationLlmCostSummary,
+  setLlmBudget,
+  setOrganizationLlmBudget,
+} from "../lib/llm-usage";
 import { embeddingManager } from "../lib/embedding-manager";
 import { executeQuery } from "../database/index.js";
 import foreignKeyCheckRouter from "./admin/foreign-key-check";
@@ -1023,6 +1040,440 @@ router.get(
   }
 );
 
+// Audit store search filters; dates accept anything Date can parse (ISO 8601 recommended)
+const auditRecordQuerySchema = z.object({
+  userId: z.string().min(1).max(128).optional(),
+  jobId: z.coerce.number().int().positive().optional(),
+  resumeId: z.coerce.number().int().positive().optional(),
+  resumeHash: z.string().regex(/^[a-f0-9]{16,64}$/, "resumeHash must be a hex digest").optional(),
+  eventType: z.enum(["analysis", "blind_review_redaction", "complete_analysis"]).optional(),
+  provider: z.string().min(1).max(100).optional(),
+  model: z.string().min(1).max(200).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_AUDIT_PAGE_SIZE).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+// Audit record search - by user, job, resume hash, provider/model and date range
+router.get(
+  "/audit/records",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const parsed = auditRecordQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid audit search filters",
+        details: parsed.error.issues.map(issue => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    logger.info("Admin audit search requested", { ip: req.ip, filters: parsed.data });
+
+    const auditService = createAuditService();
+    const result = await auditService.searchRecords(parsed.data);
+
+    handleRouteResult(result, res, (data) => {
+      res.json({
+        success: true,
+        data,
+        timestamp: new Date().toISOString()
+      });
+    });
+  },
+);
+
+// Audit chain verification - recomputes every record hash and link
+router.get(
+  "/audit/verify",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    logger.info("Admin audit chain verification requested", { ip: req.ip });
+
+    const auditService = createAuditService();
+    const result = await auditService.verifyChain();
+
+    handleRouteResult(result, res, (data) => {
+      res.json({
+        success: true,
+        data,
+        timestamp: new Date().toISOString()
+      });
+    });
+  },
+);
+
+const weightSchema = z.number().min(0).max(1);
+
+// Candidate scoring config for a re-scoring run; omitted parts keep the current values
+const rescoreRunSchema = z.object({
+  label: z.string().trim().min(1).max(200).optional(),
+  jobIds: z.array(z.number().int().positive()).min(1).max(MAX_RESCORE_JOBS),
+  config: z.object({
+    defaultWeights: z.object({
+      skills: weightSchema,
+      experience: weightSchema,
+      education: weightSchema,
+      semantic: weightSchema,
+    }).optional(),
+    ensembleWeights: z.object({
+      ml: weightSchema,
+      llm: weightSchema,
+    }).refine(weights => weights.ml + weights.llm > 0, "ml and llm weights cannot both be 0").optional(),
+    failureThresholds: z.object({
+      ml: z.number().min(0).max(100).optional(),
+      llm: z.number().min(0).max(100).optional(),
+    }).optional(),
+  }).default({}),
+});
+
+// Start a re-scoring run - replays stored analyses under the given config
+router.post(
+  "/rescore-runs",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const parsed = rescoreRunSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid re-scoring run",
+        details: parsed.error.issues.map(issue => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    logger.info("Admin re-scoring run requested", { ip: req.ip, jobIds: parsed.data.jobIds });
+
+    const rescoreService = createRescoreService();
+    const result = await rescoreService.createRun(parsed.data);
+
+    handleRouteResult(result, res, (data) => {
+      res.status(202).json({
+        success: true,
+        data,
+        timestamp: new Date().toISOString()
+      });
+    });
+  },
+);
+
+// Re-scoring run status, with the diff report once completed
+router.get(
+  "/rescore-runs/:id",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const runId = Number(req.params.id);
+    if (!Number.isInteger(runId) || runId <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid re-scoring run ID",
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const rescoreService = createRescoreService();
+    const result = await rescoreService.getRun(runId);
+
+    handleRouteResult(result, res, (data) => {
+      res.json({
+        success: true,
+        data,
+        timestamp: new Date().toISOString()
+      });
+    });
+  },
+);
+
+// Gold dataset to evaluate; the bundled sample is used when none is posted
+const scoringEvaluationSchema = z.object({
+  dataset: evaluationDatasetSchema.optional(),
+  k: z.number().int().min(1).max(100).optional(),
+});
+
+// Offline scoring evaluation - rank correlation, NDCG@k and calibration against
+// human labels. Runs synchronously with a stubbed LLM; large datasets belong in
+// the eval:scoring CLI.
+router.post(
+  "/scoring-evaluations",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const parsed = scoringEvaluationSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid evaluation dataset",
+        details: parsed.error.issues.map(issue => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    try {
+      const dataset = parsed.data.dataset ?? await loadEvaluationDataset(SAMPLE_EVALUATION_DATASET_PATH);
+      logger.info("Admin scoring evaluation requested", {
+        ip: req.ip,
+        dataset: dataset.name,
+        examples: dataset.examples.length
+      });
+
+      const report = await runScoringEvaluation(dataset, { k: parsed.data.k });
+
+      res.json({
+        success: true,
+        data: report,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error("Scoring evaluation failed:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to run scoring evaluation",
+        message: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString()
+      });
+    }
+  },
+);
+
+// Month-to-date LLM tokens and cost for a user, per provider, job and day
+router.get(
+  "/llm-usage/:userId",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const summary = await getLlmCostSummary(req.params.userId);
+      res.json({
+        success: true,
+        data: summary,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error("Failed to load LLM usage:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to load LLM usage",
+        message: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString()
+      });
+    }
+  },
+);
+
+const llmBudgetSchema = z.object({
+  monthlyLimitUsd: z.number().min(0).max(1_000_000),
+});
+
+// Set a user's monthly LLM budget; once spent, their analyses use the cheapest provider
+router.put(
+  "/llm-budgets/:userId",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const parsed = llmBudgetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid LLM budget",
+        details: parsed.error.issues.map(issue => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    try {
+      logger.info("Admin LLM budget update", { ip: req.ip, userId: req.params.userId });
+      const budget = await setLlmBudget(req.params.userId, parsed.data.monthlyLimitUsd);
+      res.json({
+        success: true,
+        data: budget,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error("Failed to update LLM budget:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to update LLM budget",
+        message: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString()
+      });
+    }
+  },
+);
+
+const invalidOrganizationId = (res: Response) =>
+  res.status(400).json({
+    success: false,
+    error: "Invalid organization ID",
+    timestamp: new Date().toISOString()
+  });
+
+// Month-to-date LLM tokens and cost on an organization's jobs, per provider, job, day and member
+router.get(
+  "/organizations/:organizationId/llm-usage",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const organizationId = Number(req.params.organizationId);
+    if (!Number.isInteger(organizationId) || organizationId <= 0) {
+      return invalidOrganizationId(res);
+    }
+
+    try {
+      const summary = await getOrganizationLlmCostSummary(organizationId);
+      res.json({
+        success: true,
+        data: summary,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error("Failed to load organization LLM usage:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to load organization LLM usage",
+        message: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString()
+      });
+    }
+  },
+);
+
+// Set an organization's monthly LLM budget; once its jobs spend it, their analyses use the cheapest provider
+router.put(
+  "/organizations/:organizationId/llm-budget",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const organizationId = Number(req.params.organizationId);
+    if (!Number.isInteger(organizationId) || organizationId <= 0) {
+      return invalidOrganizationId(res);
+    }
+
+    const parsed = llmBudgetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid LLM budget",
+        details: parsed.error.issues.map(issue => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    try {
+      logger.info("Admin organization LLM budget update", { ip: req.ip, organizationId });
+      const budget = await setOrganizationLlmBudget(organizationId, parsed.data.monthlyLimitUsd);
+      res.json({
+        success: true,
+        data: budget,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error("Failed to update organization LLM budget:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to update organization LLM budget",
+        message: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString()
+      });
+    }
+  },
+);
+
+// Product feedback filters; dates accept anything Date can parse (ISO 8601 recommended)
+const productFeedbackQuerySchema = z.object({
+  type: z.enum(FEEDBACK_TYPES).optional(),
+  rating: z.coerce.number().int().min(1).max(5).optional(),
+  userId: z.string().min(1).max(128).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_FEEDBACK_PAGE_SIZE).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+// Product feedback from the feedback page, newest first
+router.get(
+  "/feedback",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const parsed = productFeedbackQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid feedback filters",
+        details: parsed.error.issues.map(issue => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const feedbackService = createFeedbackService();
+    const result = await feedbackService.searchFeedback(parsed.data);
+
+    handleRouteResult(result, res, (data) => {
+      res.json({
+        success: true,
+        data,
+        timestamp: new Date().toISOString()
+      });
+    });
+  },
+);
+
+const analysisRatingQuerySchema = z.object({
+  aiProvider: z.string().min(1).max(50).optional(),
+  modelVersion: z.string().min(1).max(50).optional(),
+  verdict: z.enum(ANALYSIS_RATING_VERDICTS).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Analysis ratings per provider and model - how often scores were judged too
+// high or too low and which skills were missed, for provider calibration
+router.get(
+  "/analysis-ratings/summary",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const parsed = analysisRatingQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid analysis rating filters",
+        details: parsed.error.issues.map(issue => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    logger.info("Admin analysis rating summary requested", { ip: req.ip, filters: parsed.data });
+
+    const feedbackService = createFeedbackService();
+    const result = await feedbackService.getCalibrationSummary(parsed.data);
+
+    handleRouteResult(result, res, (data) => {
+      res.json({
+        success: true,
+        data,
+        timestamp: new Date().toISOString()
+      });
+    });
+  },
+);
+
 // Mount foreign key check routes
 router.use(foreignKeyCheckRouter);
 
@@ -38,6 +38,14 @@ const router = Router();
  *           type: string
  *           description: Optional batch ID for bulk operations
  *           example: "batch_456"
+ *         async:
+ *           type: boolean
+ *           description: Queue the analysis and return 202 with a run ID instead of waiting for results
+ *           default: false
+ *         skipDuplicates:
+ *           type: boolean
+ *           description: Leave out resumes merged into a candidate group as copies of its primary resume
+ *           default: false
  *
  *     BiasAnalysisRequest:
  *       type: object
@@ -59,6 +67,16 @@ const router = Router();
  *       Perform AI-powered analysis of resumes against a specific job description.
  *       Returns matching scores, skill matches, strengths, and improvement areas.
  *       Can analyze specific resumes or all user resumes if no IDs provided.
+ *
+ *       Large batches can exceed the request timeout. With `async: true` the
+ *       analysis is queued and the endpoint returns 202 with a run ID; poll
+ *       `/analysis/runs/{runId}` for progress and `/analysis/runs/{runId}/results`
+ *       for partial results. Synchronous requests accept at most 10 resumeIds,
+ *       async runs up to 200.
+ *
+ *       With `skipDuplicates: true`, resumes merged into another resume's
+ *       candidate group are not analyzed; their IDs are returned in
+ *       `skippedDuplicates`. Suspected duplicates not yet merged are analyzed.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -109,6 +127,13 @@ const router = Router();
  *                   confidenceScore: 92.3
  *                   analyzedAt: "2025-01-14T10:45:00.000Z"
  *               timestamp: "2025-01-14T10:45:00.000Z"
+ *       202:
+ *         description: Analysis queued (async mode); poll the run for progress
+ *         headers:
+ *           Location:
+ *             description: URL of the analysis run
+ *             schema:
+ *               type: string
  *       400:
  *         description: Invalid job ID or request data
  *         content:
@@ -150,6 +175,7 @@ router.post(
       const sessionId = req.body.sessionId;
       const batchId = req.body.batchId;
       const resumeIds = req.body.resumeIds;
+      const skipDuplicates = req.body.skipDuplicates === true;
 
       if (isNaN(jobId)) {
         return res.status(400).json({
@@ -163,6 +189,39 @@ router.post(
       // Get storage instance and create analysis service
       const storage = getStorage();
       const analysisService = createAnalysisService(storage);
+
+      // Async mode: queue the work and hand back a run ID to poll
+      if (req.body.async === true) {
+        const runResult = await analysisService.startAnalysisRun({
+          userId,
+          jobId,
+          sessionId,
+          batchId,
+          resumeIds,
+          skipDuplicates
+        });
+
+        if (isFailure(runResult)) {
+          return res.status(getErrorStatusCode(runResult.error, 500)).json({
+            success: false,
+            error: getErrorCode(runResult.error),
+            message: getErrorMessage(runResult.error),
+            timestamp: getErrorTimestamp(runResult.error)
+          });
+        }
+
+        const statusUrl = `${req.baseUrl}/runs/${runResult.data.runId}`;
+        return res.status(202).location(statusUrl).json({
+          success: true,
+          status: "accepted",
+          data: {
+            ...runResult.data,
+            statusUrl,
+            resultsUrl: `${statusUrl}/results`
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
       
       // Use AnalysisService for batch analysis
       const result = await analysisService.analyzeResumesBatch({
@@ -170,7 +229,8 @@ router.post(
         jobId,
         sessionId,
         batchId,
-        resumeIds
+        resumeIds,
+        skipDuplicates
       });
 
       if (isFailure(result)) {
@@ -202,11 +262,13 @@ router.post(
           recommendations: r.recommendations,
           confidenceLevel: r.confidenceLevel,
           analysisId: r.analysisId,
+          jobVersion: r.jobVersion,
           error: r.error
         })),
         createdAt: analysisData.createdAt,
         processingTime: analysisData.processingTime,
         statistics: analysisData.statistics,
+        skippedDuplicates: analysisData.skippedDuplicates ?? [],
         timestamp: new Date().toISOString(),
       });
 
@@ -228,6 +290,155 @@ router.post(
 );
 
 
+/**
+ * @swagger
+ * /analysis/runs/{runId}:
+ *   get:
+ *     tags: [Analysis]
+ *     summary: Get the progress of an asynchronous analysis run
+ *     description: |
+ *       Returns the run status (queued, running, completed, failed), progress
+ *       counts and the status of each resume, including per-resume errors.
+ *       A run is `failed` only when the job could not be analyzed or every
+ *       resume failed.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Run status and per-resume progress
+ *       404:
+ *         description: Run not found
+ */
+router.get(
+  "/runs/:runId",
+  authenticateUser,
+  async (req: Request, res: Response) => {
+    try {
+      const runId = parseInt(req.params.runId);
+      if (isNaN(runId)) {
+        return res.status(400).json({
+          success: false,
+          error: "VALIDATION_ERROR",
+          message: "Run ID must be a number",
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const analysisService = createAnalysisService(getStorage());
+      const result = await analysisService.getAnalysisRun(req.user!.uid, runId);
+
+      if (isFailure(result)) {
+        return res.status(getErrorStatusCode(result.error, 500)).json({
+          success: false,
+          error: getErrorCode(result.error),
+          message: getErrorMessage(result.error),
+          timestamp: getErrorTimestamp(result.error)
+        });
+      }
+
+      res.json({
+        success: true,
+        status: "ok",
+        data: result.data,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Analysis run status route failed", {
+        runId: req.params.runId,
+        userId: req.user?.uid,
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+
+      res.status(500).json({
+        success: false,
+        error: "ROUTE_ERROR",
+        message: "Failed to retrieve analysis run",
+        timestamp: new Date().toISOString(),
+      });
+    }
+  },
+);
+
+/**
+ * @swagger
+ * /analysis/runs/{runId}/results:
+ *   get:
+ *     tags: [Analysis]
+ *     summary: Get the results of an asynchronous analysis run
+ *     description: |
+ *       Available while the run is in progress. `results` holds the resumes
+ *       analyzed so far (same shape as the synchronous endpoint, highest match
+ *       first) and `failures` the resumes that could not be analyzed.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Partial or final results
+ *       404:
+ *         description: Run not found
+ */
+router.get(
+  "/runs/:runId/results",
+  authenticateUser,
+  async (req: Request, res: Response) => {
+    try {
+      const runId = parseInt(req.params.runId);
+      if (isNaN(runId)) {
+        return res.status(400).json({
+          success: false,
+          error: "VALIDATION_ERROR",
+          message: "Run ID must be a number",
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const analysisService = createAnalysisService(getStorage());
+      const result = await analysisService.getAnalysisRunResults(req.user!.uid, runId);
+
+      if (isFailure(result)) {
+        return res.status(getErrorStatusCode(result.error, 500)).json({
+          success: false,
+          error: getErrorCode(result.error),
+          message: getErrorMessage(result.error),
+          timestamp: getErrorTimestamp(result.error)
+        });
+      }
+
+      res.json({
+        success: true,
+        status: "ok",
+        data: result.data,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Analysis run results route failed", {
+        runId: req.params.runId,
+        userId: req.user?.uid,
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+
+      res.status(500).json({
+        success: false,
+        error: "ROUTE_ERROR",
+        message: "Failed to retrieve analysis run results",
+        timestamp: new Date().toISOString(),
+      });
+    }
+  },
+);
+
 // Get analysis results for a job
 router.get(
   "/analyze/:jobId",
@@ -284,7 +495,9 @@ router.get(
           candidateWeaknesses: r.candidateWeaknesses,
           recommendations: r.recommendations,
           confidenceLevel: r.confidenceLevel,
-          analysisId: r.analysisId
+          analysisId: r.analysisId,
+          jobVersion: r.jobVersion,
+          stale: r.stale
         })),
         createdAt: analysisData.createdAt,
         processingTime: analysisData.processingTime,
@@ -311,6 +524,110 @@ router.get(
   },
 );
 
+/**
+ * @swagger
+ * /analysis/export/{jobId}:
+ *   get:
+ *     tags: [Analysis]
+ *     summary: Export ranked analysis results
+ *     description: |
+ *       Download a job's analysis results, highest match first, as CSV, an XLSX
+ *       workbook or a PDF shortlist report. Includes match percentage, scoring
+ *       dimensions, matched and missing skills, strengths, weaknesses,
+ *       confidence level and fairness metrics. Blind review jobs are exported
+ *       with candidate labels instead of names.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: format
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx, pdf]
+ *       - in: query
+ *         name: sessionId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: batchId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Report file as an attachment
+ *         content:
+ *           text/csv: {}
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet: {}
+ *           application/pdf: {}
+ *       400:
+ *         description: Invalid job ID or format
+ *       404:
+ *         description: Job not found or not analyzed yet
+ */
+router.get(
+  "/export/:jobId",
+  authenticateUser,
+  validators.rateLimitModerate,
+  validators.exportAnalysis,
+  async (req: Request, res: Response) => {
+    try {
+      const jobId = parseInt(req.params.jobId);
+      if (isNaN(jobId)) {
+        return res.status(400).json({
+          success: false,
+          error: "VALIDATION_ERROR",
+          message: "Job ID must be a number",
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const analysisService = createAnalysisService(getStorage());
+      const result = await analysisService.exportAnalysisResults({
+        userId: req.user!.uid,
+        jobId,
+        format: req.query.format as "csv" | "xlsx" | "pdf",
+        sessionId: req.query.sessionId as string | undefined,
+        batchId: req.query.batchId as string | undefined,
+      });
+
+      if (isFailure(result)) {
+        return res.status(getErrorStatusCode(result.error, 500)).json({
+          success: false,
+          error: getErrorCode(result.error),
+          message: getErrorMessage(result.error),
+          timestamp: getErrorTimestamp(result.error)
+        });
+      }
+
+      const { content, contentType, filename } = result.data;
+      res.setHeader("Content-Type", contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.setHeader("Cache-Control", "no-store");
+      res.send(content);
+    } catch (error) {
+      logger.error("Analysis export route failed", {
+        jobId: req.params.jobId,
+        userId: req.user?.uid,
+        format: req.query.format,
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+
+      res.status(500).json({
+        success: false,
+        error: "ROUTE_ERROR",
+        message: "Failed to export analysis results",
+        timestamp: new Date().toISOString(),
+      });
+    }
+  },
+);
+
 // Get specific analysis result
 router.get(
   "/analyze/:jobId/:resumeId",
@@ -403,7 +720,8 @@ router.post(
         userId,
         resumeId,
         jobId,
-        sessionId
+        sessionId,
+        regenerate: req.body.regenerate === true
       });
 
       if (isFailure(result)) {
@@ -423,7 +741,7 @@ router.post(
         success: true,
         status: "success",
         message: "Interview questions generated successfully",
-        id: Date.now(),
+        id: questionsData.id, // Question set ID; interview scorecards are submitted against it
         resumeId: questionsData.resumeId,
         resumeName: `Resume ${questionsData.resumeId}`, // Default name, could be improved with actual filename
         jobDescriptionId: questionsData.jobId,
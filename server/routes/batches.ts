@@ -18,6 +18,12 @@ import type { SessionId } from "@shared/api-contracts";
 import { createBatchService } from "../services/batch-service";
 import { handleRouteResult } from "../lib/route-error-handler";
 import { getStorage } from "../storage";
+import {
+  batchEvents,
+  formatSseEvent,
+  BATCH_EVENT_HEARTBEAT_MS,
+  BATCH_EVENT_RETRY_MS,
+} from "../lib/batch-events";
 
 const router = express.Router();
 
@@ -301,6 +307,68 @@ router.get(
   },
 );
 
+/**
+ * GET /api/batches/:batchId/events
+ * Server-Sent Events stream of resume parsing and analysis progress.
+ * Reconnecting clients resume after the `Last-Event-ID` header (or the
+ * `lastEventId` query parameter, for clients that cannot set headers).
+ */
+router.get(
+  "/:batchId/events",
+  batchOperationsRateLimit,
+  validateBatchAccess("read"),
+  (req: express.Request, res: express.Response) => {
+    const { batchId } = batchIdParamSchema.parse(req.params);
+    const validation = req.batchValidation;
+
+    if (!validation?.valid || !validation.ownership) {
+      return res.status(403).json({
+        success: false,
+        message: "Cannot stream events for invalid or unauthorized batch",
+        code: "BATCH_ACCESS_DENIED",
+      });
+    }
+
+    const lastEventId =
+      (req.headers["last-event-id"] as string) ||
+      (req.query.lastEventId as string) ||
+      null;
+
+    res.status(200);
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    // Disable response buffering in nginx-style proxies
+    res.setHeader("X-Accel-Buffering", "no");
+    res.flushHeaders();
+    res.write(`retry: ${BATCH_EVENT_RETRY_MS}\n\n`);
+
+    const replayed = batchEvents.getEventsSince(batchId, lastEventId);
+    for (const event of replayed) {
+      res.write(formatSseEvent(event));
+    }
+
+    const unsubscribe = batchEvents.subscribe(batchId, (event) => {
+      res.write(formatSseEvent(event));
+    });
+    const heartbeat = setInterval(() => {
+      res.write(": heartbeat\n\n");
+    }, BATCH_EVENT_HEARTBEAT_MS);
+
+    logger.info("Batch event stream opened:", {
+      batchId: batchId.substring(0, 20) + "...",
+      replayed: replayed.length,
+      resumed: Boolean(lastEventId),
+    });
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      logger.debug("Batch event stream closed", { batchId });
+    });
+  },
+);
+
 /**
  * POST /api/batches/:batchId/claim
  * Claim ownership of orphaned batch
@@ -0,0 +1,263 @@
+/**
+ * Feedback Routes
+ * Product feedback from the feedback page and ratings of individual analysis results
+ * Mounted under /api/feedback
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { authenticateUser, optionalAuth } from "../middleware/auth";
+import { feedbackRateLimiter } from "../middleware/rate-limiter";
+import { logger } from "../lib/logger";
+import { createFeedbackService, MAX_MISSED_SKILLS, MAX_SKILL_LENGTH } from "../services/feedback-service";
+import { getStorage } from "../storage";
+import { ANALYSIS_RATING_VERDICTS, FEEDBACK_TYPES } from "@shared/schema";
+import { isFailure } from "@shared/result-types";
+import { getErrorStatusCode, getErrorCode, getErrorMessage, getErrorTimestamp } from "@shared/type-utilities";
+
+const router = Router();
+
+// Request validation schemas
+const feedbackSchema = z.object({
+  name: z.string().max(200).optional(),
+  email: z.string().email().max(320).optional().or(z.literal("")),
+  type: z.enum(FEEDBACK_TYPES),
+  rating: z.number().int().min(1).max(5).nullable().optional(),
+  comment: z.string().trim().min(1).max(5000),
+});
+
+const analysisRatingSchema = z.object({
+  verdict: z.enum(ANALYSIS_RATING_VERDICTS).nullable().optional(),
+  missedSkills: z.array(z.string().max(MAX_SKILL_LENGTH)).max(MAX_MISSED_SKILLS).optional(),
+  comment: z.string().max(2000).optional(),
+});
+
+function parseAnalysisId(req: Request): number | null {
+  const analysisId = parseInt(req.params.analysisId, 10);
+  return analysisId > 0 ? analysisId : null;
+}
+
+function sendInvalidAnalysisId(res: Response) {
+  return res.status(400).json({
+    success: false,
+    error: "VALIDATION_ERROR",
+    message: "Analysis ID must be a positive number",
+    timestamp: new Date().toISOString()
+  });
+}
+
+/**
+ * @swagger
+ * /feedback:
+ *   post:
+ *     tags: [Feedback]
+ *     summary: Send product feedback
+ *     description: |
+ *       Stores a feedback page submission for the team to review. Signing in
+ *       is optional; signed-in submissions are linked to the user.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             name: "Sam"
+ *             email: "sam@example.com"
+ *             type: "feature"
+ *             rating: 4
+ *             comment: "Please add CSV export of match results"
+ *     responses:
+ *       201:
+ *         description: Feedback stored
+ *       400:
+ *         description: Invalid feedback
+ *       429:
+ *         description: Too many submissions from this address
+ */
+router.post("/", feedbackRateLimiter, optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const validation = feedbackSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "VALIDATION_ERROR",
+        message: "Invalid feedback",
+        details: validation.error.errors,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const result = await createFeedbackService(getStorage()).submitFeedback({
+      userId: req.user?.uid ?? null,
+      ...validation.data
+    });
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      status: "success",
+      message: "Feedback received",
+      data: { id: result.data.id },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Failed to submit feedback:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to submit feedback",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /feedback/analysis/{analysisId}/rating:
+ *   get:
+ *     tags: [Feedback]
+ *     summary: Get your rating of an analysis result
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: analysisId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The rating, or null when you have not rated this result
+ *       404:
+ *         description: Analysis result not found
+ */
+router.get("/analysis/:analysisId/rating", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const analysisId = parseAnalysisId(req);
+    if (!analysisId) {
+      return sendInvalidAnalysisId(res);
+    }
+
+    const result = await createFeedbackService(getStorage()).getAnalysisRating(req.user!.uid, analysisId);
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "ok",
+      data: result.data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Failed to get analysis rating:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to get analysis rating",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /feedback/analysis/{analysisId}/rating:
+ *   put:
+ *     tags: [Feedback]
+ *     summary: Rate an analysis result
+ *     description: |
+ *       Records whether the result's match score was too high, too low or
+ *       accurate, and any skills the analysis missed. At least a verdict or
+ *       one missed skill is required. Rating the same result again replaces
+ *       your earlier rating. Ratings are grouped per AI provider and model
+ *       to calibrate scoring.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: analysisId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             verdict: "score_too_high"
+ *             missedSkills: ["Kubernetes"]
+ *             comment: "No production experience with the required stack"
+ *     responses:
+ *       200:
+ *         description: Rating stored
+ *       400:
+ *         description: Invalid rating
+ *       404:
+ *         description: Analysis result not found
+ */
+router.put("/analysis/:analysisId/rating", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const analysisId = parseAnalysisId(req);
+    if (!analysisId) {
+      return sendInvalidAnalysisId(res);
+    }
+
+    const validation = analysisRatingSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "VALIDATION_ERROR",
+        message: "Invalid rating",
+        details: validation.error.errors,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const result = await createFeedbackService(getStorage()).rateAnalysis({
+      userId: req.user!.uid,
+      analysisResultId: analysisId,
+      ...validation.data
+    });
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "success",
+      message: "Rating saved",
+      data: result.data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Failed to rate analysis result:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to rate analysis result",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export default router;
@@ -8,6 +8,13 @@ import healthRoutes from "./health";
 import userRoutes from "./user";
 import resumeRoutes from "./resumes";
 import jobRoutes from "./jobs";
+import pipelineRoutes from "./pipeline";
+import webhookRoutes from "./webhooks";
+import organizationRoutes from "./organizations";
+import skillTaxonomyRoutes from "./skill-taxonomy";
+import interviewRoutes from "./interviews";
+import feedbackRoutes from "./feedback";
+import skillCorrectionRoutes from "./skill-corrections";
 import analysisRoutes from "./analysis";
 import adminRoutes from "./admin";
 import debugRoutes from "./debug";
@@ -55,9 +62,30 @@ function registerV1Routes(app: Express): void {
   // Job description management routes
   app.use("/api/v1/job-descriptions", jobRoutes);
 
+  // Hiring pipeline routes (per job)
+  app.use("/api/v1/jobs/:id/pipeline", pipelineRoutes);
+
   // Analysis and matching routes
   app.use("/api/v1/analysis", analysisRoutes);
 
+  // Interview scorecard routes
+  app.use("/api/v1/interviews", interviewRoutes);
+
+  // Product feedback and analysis rating routes
+  app.use("/api/v1/feedback", feedbackRoutes);
+
+  // Recruiter corrections to extracted skills
+  app.use("/api/v1/skill-corrections", skillCorrectionRoutes);
+
+  // Webhook subscription routes
+  app.use("/api/v1/webhooks", webhookRoutes);
+
+  // Organization, membership and invitation routes
+  app.use("/api/v1/organizations", organizationRoutes);
+
+  // Organization skill taxonomy routes
+  app.use("/api/v1/organizations/:id/skill-taxonomy", skillTaxonomyRoutes);
+
   // Admin routes
   app.use("/api/v1/admin", adminRoutes);
 
@@ -93,9 +121,30 @@ function registerLegacyRoutes(app: Express): void {
   // Job description management routes
   app.use("/api/job-descriptions", jobRoutes);
 
+  // Hiring pipeline routes (per job)
+  app.use("/api/jobs/:id/pipeline", pipelineRoutes);
+
   // Analysis and matching routes
   app.use("/api/analysis", analysisRoutes);
 
+  // Interview scorecard routes
+  app.use("/api/interviews", interviewRoutes);
+
+  // Product feedback and analysis rating routes
+  app.use("/api/feedback", feedbackRoutes);
+
+  // Recruiter corrections to extracted skills
+  app.use("/api/skill-corrections", skillCorrectionRoutes);
+
+  // Webhook subscription routes
+  app.use("/api/webhooks", webhookRoutes);
+
+  // Organization, membership and invitation routes
+  app.use("/api/organizations", organizationRoutes);
+
+  // Organization skill taxonomy routes
+  app.use("/api/organizations/:id/skill-taxonomy", skillTaxonomyRoutes);
+
   // Admin routes
   app.use("/api/admin", adminRoutes);
 
@@ -118,22 +167,29 @@ export function getRoutesSummary(): {
   };
 } {
   return {
-    totalModules: 9,
+    totalModules: 16,
     modules: [
       "health (5 routes)",
       "user (2 routes)",
       "tokens (6 routes)",
-      "resumes (4 routes)",
-      "batches (6 routes)",
-      "jobs (5 routes)",
-      "analysis (6 routes)",
-      "admin (5 routes)",
+      "resumes (9 routes)",
+      "batches (7 routes)",
+      "jobs (8 routes)",
+      "pipeline (4 routes)",
+      "analysis (9 routes)",
+      "interviews (2 routes)",
+      "feedback (3 routes)",
+      "skill-corrections (3 routes)",
+      "webhooks (6 routes)",
+      "organizations (9 routes)",
+      "skill-taxonomy (5 routes)",
+      "admin (12 routes)",
       "debug (6 routes)",
     ],
-    estimatedRoutes: 90, // Double routes for v1 + legacy support
+    estimatedRoutes: 184, // Double routes for v1 + legacy support
     versioning: {
-      v1Routes: 45,
-      legacyRoutes: 45,
+      v1Routes: 92,
+      legacyRoutes: 92,
       deprecationNotice: "Legacy /api/* routes are deprecated. Use /api/v1/* instead."
     }
   };
@@ -0,0 +1,200 @@
+/**
+ * Interview Routes
+ * Structured interviewer feedback on generated interview questions
+ * Mounted under /api/interviews
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { authenticateUser } from "../middleware/auth";
+import { logger } from "../lib/logger";
+import { createInterviewScorecardService, MAX_RATING, MIN_RATING } from "../services/interview-scorecard-service";
+import { getStorage } from "../storage";
+import { INTERVIEW_RECOMMENDATIONS } from "@shared/schema";
+import { isFailure } from "@shared/result-types";
+import { getErrorStatusCode, getErrorCode, getErrorMessage, getErrorTimestamp } from "@shared/type-utilities";
+
+const router = Router();
+
+// Request validation schema
+const scorecardSchema = z.object({
+  interviewQuestionsId: z.number().int().positive(),
+  ratings: z.array(z.object({
+    questionIndex: z.number().int().min(0),
+    rating: z.number().int().min(MIN_RATING).max(MAX_RATING),
+    notes: z.string().max(2000).optional(),
+    criteriaMet: z.array(z.string().max(500)).max(20).optional(),
+  })).min(1).max(50),
+  recommendation: z.enum(INTERVIEW_RECOMMENDATIONS).optional(),
+  notes: z.string().max(5000).optional(),
+});
+
+function parseCandidateParams(req: Request): { resumeId: number; jobId: number } | null {
+  const resumeId = parseInt(req.params.resumeId, 10);
+  const jobId = parseInt(req.params.jobId, 10);
+  return resumeId > 0 && jobId > 0 ? { resumeId, jobId } : null;
+}
+
+function sendInvalidIds(res: Response) {
+  return res.status(400).json({
+    success: false,
+    error: "VALIDATION_ERROR",
+    message: "Resume ID and Job ID must be positive numbers",
+    timestamp: new Date().toISOString()
+  });
+}
+
+/**
+ * @swagger
+ * /interviews/{resumeId}/{jobId}/scorecards:
+ *   get:
+ *     tags: [Interviews]
+ *     summary: Get interview scorecards for a candidate
+ *     description: |
+ *       Returns the candidate's latest interview question set, every
+ *       interviewer's scorecard for it, and their aggregate: average rating
+ *       per question and per assessed skill, disagreements between
+ *       interviewers, and an overall score blending the resume match with the
+ *       interview.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: resumeId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Question set, scorecards and summary
+ *       404:
+ *         description: No interview questions generated for this candidate yet
+ */
+router.get("/:resumeId/:jobId/scorecards", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const ids = parseCandidateParams(req);
+    if (!ids) {
+      return sendInvalidIds(res);
+    }
+
+    const result = await createInterviewScorecardService(getStorage())
+      .getCandidateScorecards(req.user!.uid, ids.resumeId, ids.jobId);
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "ok",
+      data: result.data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Failed to get interview scorecards:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to get interview scorecards",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /interviews/{resumeId}/{jobId}/scorecards:
+ *   put:
+ *     tags: [Interviews]
+ *     summary: Submit your interview scorecard
+ *     description: |
+ *       Records the signed-in interviewer's ratings (1-5) and notes for the
+ *       questions they asked, which evaluation criteria each answer met, and
+ *       an overall recommendation. Submitting again replaces the
+ *       interviewer's earlier scorecard for the same question set. Viewers in
+ *       an organization can't submit scorecards.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             interviewQuestionsId: 3
+ *             ratings:
+ *               - questionIndex: 0
+ *                 rating: 4
+ *                 notes: "Explained caching trade-offs clearly"
+ *                 criteriaMet: ["Discusses invalidation"]
+ *             recommendation: "yes"
+ *     responses:
+ *       200:
+ *         description: Scorecard stored; returns the updated summary
+ *       400:
+ *         description: Invalid ratings
+ *       403:
+ *         description: User can't submit scorecards for this job
+ */
+router.put("/:resumeId/:jobId/scorecards", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const ids = parseCandidateParams(req);
+    if (!ids) {
+      return sendInvalidIds(res);
+    }
+
+    const validation = scorecardSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "VALIDATION_ERROR",
+        message: "Invalid scorecard",
+        details: validation.error.errors,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const result = await createInterviewScorecardService(getStorage()).submitScorecard({
+      userId: req.user!.uid,
+      interviewerName: req.user!.displayName || req.user!.email,
+      ...ids,
+      ...validation.data
+    });
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "success",
+      message: "Scorecard saved",
+      data: result.data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Failed to submit interview scorecard:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to submit interview scorecard",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export default router;
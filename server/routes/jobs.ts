@@ -5,12 +5,15 @@
  */
 
 import { Router, Request, Response } from "express";
-import { authenticateUser } from "../middleware/auth";
+import { z } from "zod";
+import { authenticateUser, requireOrganizationPermission } from "../middleware/auth";
 import { validateRequest } from "../middleware/validation";
 import { validators } from "../middleware/input-validation";
 import { insertJobDescriptionSchema } from "@shared/schema";
 import { logger } from "../lib/logger";
 import { createJobService } from "../services/job-service";
+import { createAnalysisService } from "../services/analysis-service";
+import { createOrganizationService } from "../services/organization-service";
 import { getStorage } from "../storage";
 import { isFailure } from "@shared/result-types";
 import { getErrorStatusCode, getErrorCode, getErrorMessage, getErrorTimestamp } from "@shared/type-utilities";
@@ -38,6 +41,57 @@ const router = Router();
  *           items:
  *             type: string
  *           example: ["5+ years React experience", "Node.js expertise", "Bachelor's degree"]
+ *         blindReview:
+ *           type: boolean
+ *           default: false
+ *           description: Anonymize candidates (name, contact details, graduation years, institutions) during review and AI analysis
+ *         scoringConfig:
+ *           type: object
+ *           nullable: true
+ *           description: Custom scoring for this job. Omit or send null to use the default weights and inferred requirements.
+ *           properties:
+ *             weights:
+ *               type: object
+ *               description: Relative dimension weights, normalized to sum to 1 before scoring
+ *               properties:
+ *                 skills:
+ *                   type: number
+ *                   minimum: 0
+ *                   maximum: 100
+ *                 experience:
+ *                   type: number
+ *                   minimum: 0
+ *                   maximum: 100
+ *                 education:
+ *                   type: number
+ *                   minimum: 0
+ *                   maximum: 100
+ *                 semantic:
+ *                   type: number
+ *                   minimum: 0
+ *                   maximum: 100
+ *               example:
+ *                 skills: 0.6
+ *                 experience: 0.25
+ *                 education: 0.1
+ *                 semantic: 0.05
+ *             skillRequirements:
+ *               type: array
+ *               description: Candidates missing a must-have skill are capped below the weak-match threshold
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   skill:
+ *                     type: string
+ *                     example: "PMP Certification"
+ *                   importance:
+ *                     type: string
+ *                     enum: [must-have, nice-to-have]
+ *             minimumYearsExperience:
+ *               type: integer
+ *               minimum: 0
+ *               maximum: 50
+ *               example: 5
  *       required:
  *         - title
  *         - description
@@ -171,7 +225,7 @@ const router = Router();
  *         $ref: '#/components/responses/ServerError'
  */
 // Create new job description
-router.post("/", authenticateUser, validators.createJob, async (req: Request, res: Response) => {
+router.post("/", authenticateUser, requireOrganizationPermission("write"), validators.createJob, async (req: Request, res: Response) => {
   try {
     // Validate request body
     const jobDescData = validateRequest(insertJobDescriptionSchema, req.body);
@@ -187,6 +241,9 @@ router.post("/", authenticateUser, validators.createJob, async (req: Request, re
       title: jobDescData.title,
       description: jobDescData.description,
       requirements: jobDescData.requirements || [],
+      blindReview: jobDescData.blindReview,
+      scoringConfig: jobDescData.scoringConfig,
+      organizationId: req.organization?.id,
       analyzeImmediately: true,
       includeBiasAnalysis: false
     });
@@ -257,7 +314,8 @@ router.get("/", authenticateUser, validators.getAnalysis, async (req: Request, r
       userId,
       page,
       limit,
-      searchQuery
+      searchQuery,
+      organizationId: req.organization?.id
     });
 
     if (isFailure(result)) {
@@ -376,6 +434,8 @@ router.patch("/:id", authenticateUser, validators.updateJob, async (req: Request
       title: req.body.title,
       description: req.body.description,
       requirements: req.body.requirements,
+      blindReview: req.body.blindReview,
+      scoringConfig: req.body.scoringConfig,
       reanalyze: !!req.body.description // Re-analyze if description changed
     });
 
@@ -458,4 +518,307 @@ router.delete("/:id", authenticateUser, validators.getResume, async (req: Reques
   }
 });
 
+/**
+ * @swagger
+ * /job-descriptions/{id}/versions:
+ *   get:
+ *     tags: [Job Descriptions]
+ *     summary: Get the version history of a job description
+ *     description: |
+ *       Every edit to the title, description or requirements creates a new
+ *       version. Each version has its content and a diff from the previous
+ *       one: the title change, added and removed description lines, and added
+ *       and removed requirements. The history is empty until the first edit.
+ *       Also lists the resumes whose latest analysis ran against an earlier
+ *       version.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Versions, newest first, and stale candidates
+ *       404:
+ *         description: Job description not found
+ */
+router.get("/:id/versions", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const jobId = parseInt(req.params.id);
+    if (isNaN(jobId)) {
+      return res.status(400).json({
+        success: false,
+        error: "VALIDATION_ERROR",
+        message: "Job description ID must be a number",
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const result = await createJobService(getStorage()).getJobVersionHistory(req.user!.uid, jobId);
+
+    if (isFailure(result)) {
+      const statusCode = getErrorStatusCode(result.error, 500);
+      return res.status(statusCode).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "ok",
+      data: result.data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Job description versions route failed:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to retrieve job description versions",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /job-descriptions/{id}/similar-resumes:
+ *   get:
+ *     tags: [Job Descriptions]
+ *     summary: Find the resumes most similar to a job description
+ *     description: |
+ *       Ranks the job owner's resumes by cosine similarity between their
+ *       content embedding and the job's, using the pgvector index when the
+ *       database has one. Resumes without an embedding are not ranked, and
+ *       blind review jobs return anonymized labels instead of filenames.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Resumes, most similar first
+ *       404:
+ *         description: Job description not found
+ */
+router.get("/:id/similar-resumes", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const jobId = parseInt(req.params.id);
+    const limit = req.query.limit === undefined ? undefined : parseInt(String(req.query.limit));
+    if (isNaN(jobId) || (limit !== undefined && isNaN(limit))) {
+      return res.status(400).json({
+        success: false,
+        error: "VALIDATION_ERROR",
+        message: "Job description ID and limit must be numbers",
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const result = await createJobService(getStorage()).findSimilarResumes(req.user!.uid, jobId, limit);
+
+    if (isFailure(result)) {
+      const statusCode = getErrorStatusCode(result.error, 500);
+      return res.status(statusCode).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "ok",
+      data: result.data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Similar resumes route failed:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to find similar resumes",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /job-descriptions/{id}/reanalyze-stale:
+ *   post:
+ *     tags: [Job Descriptions]
+ *     summary: Re-analyze candidates scored against an earlier version
+ *     description: |
+ *       Queues an asynchronous analysis run for every resume whose latest
+ *       analysis of this job ran before its last edit. Poll the returned
+ *       statusUrl for progress, as with async analysis runs.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       202:
+ *         description: Analysis run queued
+ *       400:
+ *         description: No analyses of the job are stale
+ *       404:
+ *         description: Job description not found
+ */
+router.post("/:id/reanalyze-stale", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const jobId = parseInt(req.params.id);
+    if (isNaN(jobId)) {
+      return res.status(400).json({
+        success: false,
+        error: "VALIDATION_ERROR",
+        message: "Job description ID must be a number",
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const result = await createAnalysisService(getStorage()).reanalyzeStaleCandidates(req.user!.uid, jobId);
+
+    if (isFailure(result)) {
+      const statusCode = getErrorStatusCode(result.error, 500);
+      return res.status(statusCode).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    // Runs are polled through the analysis routes mounted beside this router
+    const statusUrl = `${req.baseUrl.replace(/\/job-descriptions$/, "/analysis")}/runs/${result.data.runId}`;
+    res.status(202).location(statusUrl).json({
+      success: true,
+      status: "accepted",
+      data: {
+        ...result.data,
+        statusUrl,
+        resultsUrl: `${statusUrl}/results`
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Stale candidate re-analysis route failed:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to re-analyze stale candidates",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+const sharingSchema = z.object({
+  organizationId: z.number().int().positive().nullable(),
+});
+
+/**
+ * @swagger
+ * /job-descriptions/{id}/organization:
+ *   put:
+ *     tags: [Job Descriptions]
+ *     summary: Share a job description with an organization
+ *     description: |
+ *       Shares one of the user's job descriptions with an organization where
+ *       they are an owner or recruiter. Pass a null organizationId to make it
+ *       private again.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             organizationId: 3
+ *     responses:
+ *       200:
+ *         description: Sharing updated
+ *       403:
+ *         description: User can't share into that organization
+ *       404:
+ *         description: Job description not found
+ */
+router.put("/:id/organization", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const jobId = parseInt(req.params.id);
+    if (isNaN(jobId)) {
+      return res.status(400).json({
+        success: false,
+        error: "VALIDATION_ERROR",
+        message: "Job description ID must be a number",
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const validation = sharingSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "VALIDATION_ERROR",
+        message: "Invalid organization",
+        details: validation.error.errors,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const result = await createOrganizationService(getStorage())
+      .setJobSharing(req.user!.uid, jobId, validation.data.organizationId);
+
+    if (isFailure(result)) {
+      const statusCode = getErrorStatusCode(result.error, 500);
+      return res.status(statusCode).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "success",
+      message: validation.data.organizationId === null
+        ? "Job description is now private"
+        : "Job description shared with organization",
+      data: {
+        jobDescription: result.data,
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Job description sharing route failed:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to update job description sharing",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
 export default router;
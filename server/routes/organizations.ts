@@ -0,0 +1,467 @@
+/**
+ * Organization Routes
+ * Team workspaces, role-based membership and email invitations
+ * Mounted under /api/organizations
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { authenticateUser } from "../middleware/auth";
+import { logger } from "../lib/logger";
+import { createOrganizationService } from "../services/organization-service";
+import { getStorage } from "../storage";
+import { ORGANIZATION_ROLES } from "@shared/schema";
+import { isFailure, type Failure } from "@shared/result-types";
+import { getErrorStatusCode, getErrorCode, getErrorMessage, getErrorTimestamp } from "@shared/type-utilities";
+
+const router = Router();
+
+// Request validation schemas
+const roleSchema = z.enum(ORGANIZATION_ROLES);
+
+const createOrganizationSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+const updateMemberSchema = z.object({
+  role: roleSchema,
+});
+
+const createInvitationSchema = z.object({
+  email: z.string().email().max(255),
+  role: roleSchema,
+});
+
+const acceptInvitationSchema = z.object({
+  token: z.string().min(10).max(200),
+});
+
+function parseId(value: string | undefined): number {
+  const id = parseInt(value ?? "", 10);
+  return Number.isNaN(id) || id <= 0 ? NaN : id;
+}
+
+function sendInvalidId(res: Response, what = "Organization ID") {
+  return res.status(400).json({
+    success: false,
+    error: "VALIDATION_ERROR",
+    message: `${what} must be a positive number`,
+    timestamp: new Date().toISOString()
+  });
+}
+
+function sendInvalidBody(res: Response, message: string, error: z.ZodError) {
+  return res.status(400).json({
+    success: false,
+    error: "VALIDATION_ERROR",
+    message,
+    details: error.errors,
+    timestamp: new Date().toISOString()
+  });
+}
+
+function sendServiceFailure(res: Response, result: Failure<unknown>) {
+  return res.status(getErrorStatusCode(result.error, 500)).json({
+    success: false,
+    error: getErrorCode(result.error),
+    message: getErrorMessage(result.error),
+    timestamp: getErrorTimestamp(result.error)
+  });
+}
+
+function sendRouteError(res: Response, message: string, error: unknown) {
+  logger.error(`${message}:`, error);
+  res.status(500).json({
+    success: false,
+    error: "ROUTE_ERROR",
+    message,
+    timestamp: new Date().toISOString()
+  });
+}
+
+/**
+ * @swagger
+ * /organizations:
+ *   get:
+ *     tags: [Organizations]
+ *     summary: List the user's organizations
+ *     description: Each organization includes the user's role in it.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Organizations the user belongs to
+ */
+router.get("/", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const result = await createOrganizationService(getStorage()).listOrganizations(req.user!.uid);
+    if (isFailure(result)) {
+      return sendServiceFailure(res, result);
+    }
+
+    res.json({
+      success: true,
+      status: "ok",
+      data: { organizations: result.data },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendRouteError(res, "Failed to list organizations", error);
+  }
+});
+
+/**
+ * @swagger
+ * /organizations:
+ *   post:
+ *     tags: [Organizations]
+ *     summary: Create an organization
+ *     description: The creator becomes its first owner.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             name: "Acme Recruiting"
+ *     responses:
+ *       201:
+ *         description: Organization created
+ */
+router.post("/", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const validation = createOrganizationSchema.safeParse(req.body);
+    if (!validation.success) {
+      return sendInvalidBody(res, "Invalid organization", validation.error);
+    }
+
+    const result = await createOrganizationService(getStorage())
+      .createOrganization(req.user!.uid, validation.data.name);
+    if (isFailure(result)) {
+      return sendServiceFailure(res, result);
+    }
+
+    res.status(201).json({
+      success: true,
+      status: "success",
+      data: { organization: result.data },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendRouteError(res, "Failed to create organization", error);
+  }
+});
+
+/**
+ * @swagger
+ * /organizations/invitations/accept:
+ *   post:
+ *     tags: [Organizations]
+ *     summary: Accept an invitation
+ *     description: |
+ *       Joins the organization with the role the invitation grants. The
+ *       signed-in user's email must match the invited address.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             token: "inv_..."
+ *     responses:
+ *       200:
+ *         description: Joined the organization
+ *       404:
+ *         description: Unknown invitation token
+ *       422:
+ *         description: Invitation expired, revoked or already used
+ */
+router.post("/invitations/accept", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const validation = acceptInvitationSchema.safeParse(req.body);
+    if (!validation.success) {
+      return sendInvalidBody(res, "Invalid invitation token", validation.error);
+    }
+
+    const result = await createOrganizationService(getStorage()).acceptInvitation({
+      userId: req.user!.uid,
+      email: req.user!.email,
+      token: validation.data.token
+    });
+    if (isFailure(result)) {
+      return sendServiceFailure(res, result);
+    }
+
+    res.json({
+      success: true,
+      status: "success",
+      message: `Joined ${result.data.name}`,
+      data: { organization: result.data },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendRouteError(res, "Failed to accept invitation", error);
+  }
+});
+
+/**
+ * @swagger
+ * /organizations/{id}/members:
+ *   get:
+ *     tags: [Organizations]
+ *     summary: List members
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Members and their roles
+ *       404:
+ *         description: Organization not found or user is not a member
+ */
+router.get("/:id/members", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const organizationId = parseId(req.params.id);
+    if (isNaN(organizationId)) {
+      return sendInvalidId(res);
+    }
+
+    const result = await createOrganizationService(getStorage()).listMembers(req.user!.uid, organizationId);
+    if (isFailure(result)) {
+      return sendServiceFailure(res, result);
+    }
+
+    res.json({
+      success: true,
+      status: "ok",
+      data: { members: result.data },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendRouteError(res, "Failed to list organization members", error);
+  }
+});
+
+/**
+ * @swagger
+ * /organizations/{id}/members/{userId}:
+ *   patch:
+ *     tags: [Organizations]
+ *     summary: Change a member's role
+ *     description: Owners only. The last owner can't be demoted.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             role: "recruiter"
+ *     responses:
+ *       200:
+ *         description: Role changed
+ *       403:
+ *         description: User is not an owner
+ */
+router.patch("/:id/members/:userId", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const organizationId = parseId(req.params.id);
+    if (isNaN(organizationId)) {
+      return sendInvalidId(res);
+    }
+
+    const validation = updateMemberSchema.safeParse(req.body);
+    if (!validation.success) {
+      return sendInvalidBody(res, "Invalid member role", validation.error);
+    }
+
+    const result = await createOrganizationService(getStorage())
+      .updateMemberRole(req.user!.uid, organizationId, req.params.userId, validation.data.role);
+    if (isFailure(result)) {
+      return sendServiceFailure(res, result);
+    }
+
+    res.json({
+      success: true,
+      status: "success",
+      data: { member: result.data },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendRouteError(res, "Failed to change member role", error);
+  }
+});
+
+/**
+ * @swagger
+ * /organizations/{id}/members/{userId}:
+ *   delete:
+ *     tags: [Organizations]
+ *     summary: Remove a member
+ *     description: Owners can remove anyone; members can remove themselves to leave.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Member removed
+ *       422:
+ *         description: Would remove the last owner
+ */
+router.delete("/:id/members/:userId", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const organizationId = parseId(req.params.id);
+    if (isNaN(organizationId)) {
+      return sendInvalidId(res);
+    }
+
+    const result = await createOrganizationService(getStorage())
+      .removeMember(req.user!.uid, organizationId, req.params.userId);
+    if (isFailure(result)) {
+      return sendServiceFailure(res, result);
+    }
+
+    res.json({
+      success: true,
+      status: "success",
+      message: "Member removed",
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendRouteError(res, "Failed to remove member", error);
+  }
+});
+
+/**
+ * @swagger
+ * /organizations/{id}/invitations:
+ *   get:
+ *     tags: [Organizations]
+ *     summary: List invitations
+ *     description: Owners only. Tokens are never returned here.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Invitations, newest first
+ */
+router.get("/:id/invitations", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const organizationId = parseId(req.params.id);
+    if (isNaN(organizationId)) {
+      return sendInvalidId(res);
+    }
+
+    const result = await createOrganizationService(getStorage()).listInvitations(req.user!.uid, organizationId);
+    if (isFailure(result)) {
+      return sendServiceFailure(res, result);
+    }
+
+    res.json({
+      success: true,
+      status: "ok",
+      data: { invitations: result.data },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendRouteError(res, "Failed to list invitations", error);
+  }
+});
+
+/**
+ * @swagger
+ * /organizations/{id}/invitations:
+ *   post:
+ *     tags: [Organizations]
+ *     summary: Invite someone by email
+ *     description: |
+ *       Owners only. Returns the invitation token once; share it with the
+ *       invitee, who accepts it at /organizations/invitations/accept.
+ *       Invitations expire after 7 days.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             email: "manager@acme.com"
+ *             role: "hiring_manager"
+ *     responses:
+ *       201:
+ *         description: Invitation created; response includes the token
+ */
+router.post("/:id/invitations", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const organizationId = parseId(req.params.id);
+    if (isNaN(organizationId)) {
+      return sendInvalidId(res);
+    }
+
+    const validation = createInvitationSchema.safeParse(req.body);
+    if (!validation.success) {
+      return sendInvalidBody(res, "Invalid invitation", validation.error);
+    }
+
+    const result = await createOrganizationService(getStorage()).createInvitation({
+      actorId: req.user!.uid,
+      organizationId,
+      ...validation.data
+    });
+    if (isFailure(result)) {
+      return sendServiceFailure(res, result);
+    }
+
+    res.status(201).json({
+      success: true,
+      status: "success",
+      message: "Invitation created. Share the token now; it will not be shown again.",
+      data: result.data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendRouteError(res, "Failed to create invitation", error);
+  }
+});
+
+/**
+ * @swagger
+ * /organizations/{id}/invitations/{invitationId}:
+ *   delete:
+ *     tags: [Organizations]
+ *     summary: Revoke a pending invitation
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Invitation revoked
+ */
+router.delete("/:id/invitations/:invitationId", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const organizationId = parseId(req.params.id);
+    const invitationId = parseId(req.params.invitationId);
+    if (isNaN(organizationId)) {
+      return sendInvalidId(res);
+    }
+    if (isNaN(invitationId)) {
+      return sendInvalidId(res, "Invitation ID");
+    }
+
+    const result = await createOrganizationService(getStorage())
+      .revokeInvitation(req.user!.uid, organizationId, invitationId);
+    if (isFailure(result)) {
+      return sendServiceFailure(res, result);
+    }
+
+    res.json({
+      success: true,
+      status: "success",
+      data: { invitation: result.data },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendRouteError(res, "Failed to revoke invitation", error);
+  }
+});
+
+export default router;
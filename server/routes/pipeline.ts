@@ -0,0 +1,323 @@
+/**
+ * Hiring Pipeline Routes
+ * Per-job candidate stage tracking (screened, interviewing, offered, ...)
+ * Mounted under /api/jobs/:id/pipeline
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { authenticateUser } from "../middleware/auth";
+import { logger } from "../lib/logger";
+import { createPipelineService } from "../services/pipeline-service";
+import { getStorage } from "../storage";
+import { isFailure } from "@shared/result-types";
+import { getErrorStatusCode, getErrorCode, getErrorMessage, getErrorTimestamp } from "@shared/type-utilities";
+
+// mergeParams exposes the parent :id (job description ID)
+const router = Router({ mergeParams: true });
+
+// Request validation schemas
+const configureStagesSchema = z.object({
+  stages: z.array(z.object({
+    key: z.string().min(1).max(50),
+    name: z.string().min(1).max(100),
+    isTerminal: z.boolean().optional(),
+  })).min(1).max(20),
+});
+
+const moveCandidateSchema = z.object({
+  stage: z.string().min(1).max(50),
+  note: z.string().max(2000).optional(),
+});
+
+function parseId(value: string | undefined): number {
+  const id = parseInt(value ?? "", 10);
+  return Number.isNaN(id) || id <= 0 ? NaN : id;
+}
+
+function sendInvalidId(res: Response, what: string) {
+  return res.status(400).json({
+    success: false,
+    error: "VALIDATION_ERROR",
+    message: `${what} ID must be a positive number`,
+    timestamp: new Date().toISOString()
+  });
+}
+
+/**
+ * @swagger
+ * /jobs/{id}/pipeline:
+ *   get:
+ *     tags: [Pipeline]
+ *     summary: Get the hiring pipeline board for a job
+ *     description: |
+ *       Returns the job's pipeline stages in order, each with the candidates
+ *       currently in that stage. Analyzed candidates that have never been moved
+ *       appear in the first stage. Default stages are created on first access.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: integer }
+ *     responses:
+ *       200:
+ *         description: Pipeline board
+ *       404:
+ *         description: Job description not found
+ */
+router.get("/", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const jobId = parseId(req.params.id);
+    if (isNaN(jobId)) {
+      return sendInvalidId(res, "Job description");
+    }
+
+    const pipelineService = createPipelineService(getStorage());
+    const result = await pipelineService.getPipelineBoard(req.user!.uid, jobId);
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "ok",
+      data: result.data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Pipeline board route failed:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to load hiring pipeline",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /jobs/{id}/pipeline/stages:
+ *   put:
+ *     tags: [Pipeline]
+ *     summary: Configure the pipeline stages of a job
+ *     description: |
+ *       Replaces the job's stages. Array order defines the column order.
+ *       Stages that still contain candidates cannot be removed.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             stages:
+ *               - { key: "new", name: "New" }
+ *               - { key: "phone-screen", name: "Phone Screen" }
+ *               - { key: "hired", name: "Hired", isTerminal: true }
+ *     responses:
+ *       200:
+ *         description: Stages updated
+ *       422:
+ *         description: A removed stage still contains candidates
+ */
+router.put("/stages", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const jobId = parseId(req.params.id);
+    if (isNaN(jobId)) {
+      return sendInvalidId(res, "Job description");
+    }
+
+    const validation = configureStagesSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "VALIDATION_ERROR",
+        message: "Invalid stage configuration",
+        details: validation.error.errors,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const pipelineService = createPipelineService(getStorage());
+    const result = await pipelineService.configureStages(req.user!.uid, jobId, validation.data.stages);
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "success",
+      message: "Pipeline stages updated successfully",
+      data: { stages: result.data },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Pipeline stage configuration route failed:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to configure pipeline stages",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /jobs/{id}/pipeline/candidates/{resumeId}:
+ *   put:
+ *     tags: [Pipeline]
+ *     summary: Move a candidate to a pipeline stage
+ *     description: Records the transition with the acting user and timestamp.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             stage: "interviewing"
+ *             note: "Passed phone screen"
+ *     responses:
+ *       200:
+ *         description: Candidate moved (or already in the stage)
+ *       400:
+ *         description: Unknown stage
+ */
+router.put("/candidates/:resumeId", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const jobId = parseId(req.params.id);
+    const resumeId = parseId(req.params.resumeId);
+    if (isNaN(jobId)) {
+      return sendInvalidId(res, "Job description");
+    }
+    if (isNaN(resumeId)) {
+      return sendInvalidId(res, "Resume");
+    }
+
+    const validation = moveCandidateSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "VALIDATION_ERROR",
+        message: "Invalid stage change",
+        details: validation.error.errors,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const pipelineService = createPipelineService(getStorage());
+    const result = await pipelineService.moveCandidate({
+      userId: req.user!.uid,
+      jobId,
+      resumeId,
+      toStage: validation.data.stage,
+      note: validation.data.note
+    });
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "success",
+      message: result.data.changed
+        ? `Candidate moved to '${validation.data.stage}'`
+        : `Candidate already in '${validation.data.stage}'`,
+      data: result.data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Pipeline candidate move route failed:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to move candidate",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /jobs/{id}/pipeline/history:
+ *   get:
+ *     tags: [Pipeline]
+ *     summary: Get stage-transition history for a job
+ *     description: Most recent first. Pass resumeId to restrict to one candidate.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: resumeId
+ *         schema: { type: integer }
+ *     responses:
+ *       200:
+ *         description: Transition history
+ */
+router.get("/history", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const jobId = parseId(req.params.id);
+    if (isNaN(jobId)) {
+      return sendInvalidId(res, "Job description");
+    }
+
+    let resumeId: number | undefined;
+    if (req.query.resumeId !== undefined) {
+      resumeId = parseId(String(req.query.resumeId));
+      if (isNaN(resumeId)) {
+        return sendInvalidId(res, "Resume");
+      }
+    }
+
+    const pipelineService = createPipelineService(getStorage());
+    const result = await pipelineService.getTransitionHistory(req.user!.uid, jobId, resumeId);
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "ok",
+      data: { transitions: result.data },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Pipeline history route failed:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to load pipeline history",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export default router;
@@ -4,12 +4,15 @@
  */
 
 import { Router, Request, Response } from "express";
-import { authenticateUser } from "../middleware/auth";
+import { z } from "zod";
+import { authenticateUser, requireOrganizationPermission } from "../middleware/auth";
 import { secureUpload, validateUploadedFile } from "../middleware/upload";
 import { uploadRateLimiter } from "../middleware/rate-limiter";
 import { validators } from "../middleware/input-validation";
 import { logger } from "../lib/logger";
 import { createResumeService } from "../services/resume-service";
+import { createAnalysisService } from "../services/analysis-service";
+import { createOrganizationService } from "../services/organization-service";
 import { getStorage } from "../storage";
 import { isFailure } from "@shared/result-types";
 import { getErrorStatusCode, getErrorCode, getErrorMessage, getErrorTimestamp } from "@shared/type-utilities";
@@ -150,7 +153,8 @@ router.get("/", authenticateUser, validators.getResumes, async (req: Request, re
       page,
       limit,
       fileType,
-      hasAnalysis
+      hasAnalysis,
+      organizationId: req.organization?.id
     });
 
     if (isFailure(result)) {
@@ -295,6 +299,107 @@ router.get("/:id", authenticateUser, validators.getResume, async (req: Request,
   }
 });
 
+/**
+ * @swagger
+ * /resumes/{id}/matching-jobs:
+ *   get:
+ *     tags: [Resumes]
+ *     summary: Find the best-fitting jobs for a resume
+ *     description: |
+ *       Ranks all of the user's job descriptions against one resume. Stored embeddings
+ *       shortlist the jobs cheaply, then the top `limit` jobs get a full hybrid analysis.
+ *       Analyses stored after the job was last edited are reused instead of re-run.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ResumeId'
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 10
+ *           default: 5
+ *         description: Number of shortlisted jobs to analyze
+ *     responses:
+ *       200:
+ *         description: Jobs ranked by match percentage
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               data:
+ *                 resumeId: 123
+ *                 totalJobs: 14
+ *                 matches:
+ *                   - jobId: 7
+ *                     title: "Senior Frontend Engineer"
+ *                     prefilterScore: 82
+ *                     prefilterMethod: "embedding"
+ *                     matchPercentage: 88
+ *                     confidenceLevel: "high"
+ *                     matchedSkills: [{ skill: "React", matchPercentage: 95 }]
+ *                     missingSkills: ["GraphQL"]
+ *                     candidateStrengths: ["6 years building React applications"]
+ *                     candidateWeaknesses: []
+ *                     analysisId: 456
+ *                     cached: true
+ *                 processingTime: 5120
+ *               timestamp: "2025-01-14T10:30:00.000Z"
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         description: Resume not found
+ *       500:
+ *         $ref: '#/components/responses/ServerError'
+ */
+// Rank the user's jobs by fit for one resume
+router.get("/:id/matching-jobs", authenticateUser, validators.getMatchingJobs, async (req: Request, res: Response) => {
+  try {
+    const resumeId = parseInt(req.params.id);
+    const userId = req.user!.uid;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+
+    if (isNaN(resumeId)) {
+      return res.status(400).json({
+        success: false,
+        error: "VALIDATION_ERROR",
+        message: "Resume ID must be a number",
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const analysisService = createAnalysisService(getStorage());
+    const result = await analysisService.matchJobsForResume({ userId, resumeId, limit });
+
+    if (isFailure(result)) {
+      const statusCode = getErrorStatusCode(result.error, 500);
+      return res.status(statusCode).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.data,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error("Matching jobs route failed:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to match jobs for resume",
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
 // Upload and analyze new resume
 /**
  * @swagger
@@ -421,6 +526,7 @@ router.get("/:id", authenticateUser, validators.getResume, async (req: Request,
 router.post(
   "/",
   authenticateUser,
+  requireOrganizationPermission("write"),
   uploadRateLimiter,
   secureUpload.single("file"),
   validateUploadedFile,
@@ -520,7 +626,8 @@ router.post(
         },
         sessionId,
         batchId,
-        autoAnalyze
+        autoAnalyze,
+        organizationId: req.organization?.id
       });
 
       if (isFailure(result)) {
@@ -546,6 +653,7 @@ router.post(
           extractedText: resumeData.extractedText,
           analyzedData: resumeData.analyzedData,
           warnings: resumeData.warnings,
+          duplicate: resumeData.duplicate ?? null,
           processingTime: resumeData.processingTime,
           message: "Resume uploaded and processed successfully"
         },
@@ -567,6 +675,7 @@ router.post(
 router.post(
   "/batch",
   authenticateUser,
+  requireOrganizationPermission("write"),
   uploadRateLimiter,
   secureUpload.array("files", 10), // Max 10 files
   validators.rateLimitModerate,
@@ -648,7 +757,8 @@ router.post(
         files: processedFiles,
         sessionId,
         batchId,
-        autoAnalyze
+        autoAnalyze,
+        organizationId: req.organization?.id
       });
 
       if (isFailure(result)) {
@@ -674,7 +784,8 @@ router.post(
               resumeId: r.id,
               fileSize: r.fileSize,
               processingTime: r.processingTime,
-              hasAnalysis: !!r.analyzedData
+              hasAnalysis: !!r.analyzedData,
+              duplicate: r.duplicate ?? null
             })),
             failed: batchData.failed.map((f) => ({
               filename: f.filename,
@@ -704,4 +815,302 @@ router.post(
   },
 );
 
+const sharingSchema = z.object({
+  organizationId: z.number().int().positive().nullable(),
+});
+
+/**
+ * @swagger
+ * /resumes/{id}/organization:
+ *   put:
+ *     tags: [Resumes]
+ *     summary: Share a resume with an organization
+ *     description: |
+ *       Shares one of the user's resumes with an organization where they are
+ *       an owner or recruiter. Pass a null organizationId to make it private
+ *       again. Analyses stay with the member who ran them.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             organizationId: 3
+ *     responses:
+ *       200:
+ *         description: Sharing updated
+ *       403:
+ *         description: User can't share into that organization
+ *       404:
+ *         description: Resume not found
+ */
+router.put("/:id/organization", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const resumeId = parseInt(req.params.id);
+    if (isNaN(resumeId)) {
+      return res.status(400).json({
+        success: false,
+        error: "VALIDATION_ERROR",
+        message: "Resume ID must be a number",
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const validation = sharingSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "VALIDATION_ERROR",
+        message: "Invalid organization",
+        details: validation.error.errors,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const result = await createOrganizationService(getStorage())
+      .setResumeSharing(req.user!.uid, resumeId, validation.data.organizationId);
+
+    if (isFailure(result)) {
+      const statusCode = getErrorStatusCode(result.error, 500);
+      return res.status(statusCode).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "success",
+      message: validation.data.organizationId === null
+        ? "Resume is now private"
+        : "Resume shared with organization",
+      data: {
+        resume: result.data,
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Resume sharing route failed:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to update resume sharing",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+const mergeDuplicatesSchema = z.object({
+  primaryResumeId: z.number().int().positive().optional(),
+});
+
+function parseResumeId(req: Request): number | null {
+  const resumeId = parseInt(req.params.id, 10);
+  return resumeId > 0 ? resumeId : null;
+}
+
+function sendInvalidResumeId(res: Response) {
+  return res.status(400).json({
+    success: false,
+    error: "VALIDATION_ERROR",
+    message: "Resume ID must be a positive number",
+    timestamp: new Date().toISOString()
+  });
+}
+
+/**
+ * @swagger
+ * /resumes/{id}/duplicates:
+ *   get:
+ *     tags: [Resumes]
+ *     summary: Get the candidate group of a duplicate resume
+ *     description: |
+ *       Uploads are compared with the resumes already in the library by a
+ *       hash of the text, the email and phone number they list, and the
+ *       similarity of their content embeddings. A match links both resumes
+ *       into a candidate group; the upload is flagged as a suspected
+ *       duplicate until the user merges or keeps it.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ResumeId'
+ *     responses:
+ *       200:
+ *         description: The group's primary resume and members
+ *       404:
+ *         description: Resume not found or not in a candidate group
+ */
+router.get("/:id/duplicates", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const resumeId = parseResumeId(req);
+    if (!resumeId) {
+      return sendInvalidResumeId(res);
+    }
+
+    const result = await createResumeService(getStorage()).getCandidateGroup(req.user!.uid, resumeId);
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "ok",
+      data: result.data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Candidate group route failed:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to get candidate group",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /resumes/{id}/duplicates/merge:
+ *   post:
+ *     tags: [Resumes]
+ *     summary: Merge a candidate group
+ *     description: |
+ *       Confirms that the resumes in the group are the same person. The
+ *       primary resume (the current one unless primaryResumeId picks another
+ *       member) is the one analyzed; the others are marked merged and are
+ *       left out of analyses run with skipDuplicates.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ResumeId'
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           example:
+ *             primaryResumeId: 124
+ *     responses:
+ *       200:
+ *         description: Group merged
+ *       400:
+ *         description: primaryResumeId is not in the group
+ *       404:
+ *         description: Resume not found or not in a candidate group
+ */
+router.post("/:id/duplicates/merge", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const resumeId = parseResumeId(req);
+    if (!resumeId) {
+      return sendInvalidResumeId(res);
+    }
+
+    const validation = mergeDuplicatesSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "VALIDATION_ERROR",
+        message: "Invalid merge request",
+        details: validation.error.errors,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const result = await createResumeService(getStorage()).mergeDuplicates({
+      userId: req.user!.uid,
+      resumeId,
+      primaryResumeId: validation.data.primaryResumeId
+    });
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "success",
+      message: "Duplicates merged",
+      data: result.data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Merge duplicates route failed:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to merge duplicates",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /resumes/{id}/duplicates/keep:
+ *   post:
+ *     tags: [Resumes]
+ *     summary: Keep a resume as a separate candidate
+ *     description: |
+ *       Takes the resume out of its candidate group, for a match that is a
+ *       different person or a copy that should be analyzed on its own. A
+ *       group left with one resume is removed and data is null.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ResumeId'
+ *     responses:
+ *       200:
+ *         description: Resume removed from the group; returns the remaining group
+ *       404:
+ *         description: Resume not found or not in a candidate group
+ */
+router.post("/:id/duplicates/keep", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const resumeId = parseResumeId(req);
+    if (!resumeId) {
+      return sendInvalidResumeId(res);
+    }
+
+    const result = await createResumeService(getStorage()).keepAsSeparateCandidate(req.user!.uid, resumeId);
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "success",
+      message: "Resume kept as a separate candidate",
+      data: result.data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Keep duplicate route failed:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to keep resume as a separate candidate",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
 export default router;
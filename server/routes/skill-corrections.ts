@@ -0,0 +1,209 @@
+/**
+ * Skill Correction Routes
+ * Recruiters' corrections to extracted skills: wrong skills, missed skills and equivalences
+ * Mounted under /api/skill-corrections
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { authenticateUser } from "../middleware/auth";
+import { logger } from "../lib/logger";
+import { createSkillCorrectionService, MAX_CORRECTED_SKILL_LENGTH } from "../services/skill-correction-service";
+import { getStorage } from "../storage";
+import { SKILL_CORRECTION_TYPES } from "@shared/schema";
+import { isFailure } from "@shared/result-types";
+import { getErrorStatusCode, getErrorCode, getErrorMessage, getErrorTimestamp } from "@shared/type-utilities";
+
+const router = Router();
+
+// Request validation schemas
+const skillCorrectionSchema = z.object({
+  type: z.enum(SKILL_CORRECTION_TYPES),
+  skill: z.string().trim().min(1).max(MAX_CORRECTED_SKILL_LENGTH),
+  equivalentTo: z.string().trim().max(MAX_CORRECTED_SKILL_LENGTH).nullable().optional(),
+  resumeId: z.number().int().positive().nullable().optional(),
+  jobId: z.number().int().positive().nullable().optional(),
+});
+
+/**
+ * @swagger
+ * /skill-corrections:
+ *   get:
+ *     tags: [Skill Corrections]
+ *     summary: List your skill corrections
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Your corrections, newest first
+ */
+router.get("/", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const result = await createSkillCorrectionService(getStorage()).listCorrections(req.user!.uid);
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "ok",
+      data: result.data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Failed to list skill corrections:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to list skill corrections",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /skill-corrections:
+ *   post:
+ *     tags: [Skill Corrections]
+ *     summary: Correct an extracted skill
+ *     description: |
+ *       Marks an extracted skill as wrong, adds a skill the extraction missed,
+ *       or declares a skill another name for equivalentTo. Corrections apply
+ *       to your later resume and job extractions (jobs use equivalences only)
+ *       and count as human evidence when skills are promoted into the skill
+ *       dictionary. Correcting the same skill again replaces your earlier
+ *       correction.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             type: "equivalent"
+ *             skill: "ReactJS"
+ *             equivalentTo: "React"
+ *             resumeId: 12
+ *             jobId: 3
+ *     responses:
+ *       201:
+ *         description: Correction stored
+ *       400:
+ *         description: Invalid correction
+ *       404:
+ *         description: Resume or job description not found
+ */
+router.post("/", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const validation = skillCorrectionSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "VALIDATION_ERROR",
+        message: "Invalid skill correction",
+        details: validation.error.errors,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const result = await createSkillCorrectionService(getStorage()).submitCorrection({
+      userId: req.user!.uid,
+      ...validation.data
+    });
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      status: "success",
+      message: "Skill correction saved",
+      data: result.data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Failed to save skill correction:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to save skill correction",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /skill-corrections/{id}:
+ *   delete:
+ *     tags: [Skill Corrections]
+ *     summary: Delete a skill correction
+ *     description: Later extractions stop applying it; already stored skills are unchanged.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Correction deleted
+ *       404:
+ *         description: Correction not found
+ */
+router.delete("/:id", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const correctionId = parseInt(req.params.id, 10);
+    if (!(correctionId > 0)) {
+      return res.status(400).json({
+        success: false,
+        error: "VALIDATION_ERROR",
+        message: "Correction ID must be a positive number",
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const result = await createSkillCorrectionService(getStorage()).deleteCorrection(req.user!.uid, correctionId);
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "success",
+      message: "Skill correction deleted",
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Failed to delete skill correction:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to delete skill correction",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,370 @@
+/**
+ * Skill Taxonomy Routes
+ * An organization's own skills, consulted ahead of ESCO for its members
+ * Mounted under /api/organizations/:id/skill-taxonomy
+ */
+
+import express, { Router, Request, Response } from "express";
+import { z } from "zod";
+import { authenticateUser } from "../middleware/auth";
+import { logger } from "../lib/logger";
+import { SKILL_TAXONOMY_IMPORT_FORMATS } from "../lib/skill-taxonomy";
+import {
+  createSkillTaxonomyService,
+  MAX_TAXONOMY_ALIASES,
+  MAX_TAXONOMY_CATEGORY_LENGTH,
+  MAX_TAXONOMY_NAME_LENGTH
+} from "../services/skill-taxonomy-service";
+import { getStorage } from "../storage";
+import { isFailure, type Failure } from "@shared/result-types";
+import { getErrorStatusCode, getErrorCode, getErrorMessage, getErrorTimestamp } from "@shared/type-utilities";
+
+// mergeParams exposes the parent :id (organization ID)
+const router = Router({ mergeParams: true });
+
+// Import files are sent as the raw request body, which can exceed the JSON body limit
+const importBodyParser = express.text({ type: ["text/csv", "text/plain"], limit: "2mb" });
+
+// Request validation schemas
+const entrySchema = z.object({
+  name: z.string().trim().min(1).max(MAX_TAXONOMY_NAME_LENGTH),
+  category: z.string().max(MAX_TAXONOMY_CATEGORY_LENGTH).optional(),
+  parentId: z.number().int().positive().nullable().optional(),
+  aliases: z.array(z.string().max(MAX_TAXONOMY_NAME_LENGTH)).max(MAX_TAXONOMY_ALIASES).optional(),
+  description: z.string().max(2000).nullable().optional(),
+});
+
+const importQuerySchema = z.object({
+  format: z.enum(SKILL_TAXONOMY_IMPORT_FORMATS).default("csv"),
+});
+
+function parseId(value: string | undefined): number {
+  const id = parseInt(value ?? "", 10);
+  return Number.isNaN(id) || id <= 0 ? NaN : id;
+}
+
+function sendInvalidId(res: Response, what: string) {
+  return res.status(400).json({
+    success: false,
+    error: "VALIDATION_ERROR",
+    message: `${what} ID must be a positive number`,
+    timestamp: new Date().toISOString()
+  });
+}
+
+function sendInvalidBody(res: Response, message: string, error: z.ZodError) {
+  return res.status(400).json({
+    success: false,
+    error: "VALIDATION_ERROR",
+    message,
+    details: error.errors,
+    timestamp: new Date().toISOString()
+  });
+}
+
+function sendServiceFailure(res: Response, result: Failure<unknown>) {
+  return res.status(getErrorStatusCode(result.error, 500)).json({
+    success: false,
+    error: getErrorCode(result.error),
+    message: getErrorMessage(result.error),
+    timestamp: getErrorTimestamp(result.error)
+  });
+}
+
+function sendRouteError(res: Response, message: string, error: unknown) {
+  logger.error(`${message}:`, error);
+  res.status(500).json({
+    success: false,
+    error: "ROUTE_ERROR",
+    message,
+    timestamp: new Date().toISOString()
+  });
+}
+
+/**
+ * @swagger
+ * /organizations/{id}/skill-taxonomy:
+ *   get:
+ *     tags: [Skill Taxonomy]
+ *     summary: List an organization's skill taxonomy
+ *     description: Any member may read it. Entries are sorted by name; parentId links a skill to its broader skill.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: integer }
+ *     responses:
+ *       200:
+ *         description: Taxonomy entries
+ *       404:
+ *         description: Organization not found
+ */
+router.get("/", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const organizationId = parseId(req.params.id);
+    if (isNaN(organizationId)) {
+      return sendInvalidId(res, "Organization");
+    }
+
+    const result = await createSkillTaxonomyService(getStorage()).listEntries(req.user!.uid, organizationId);
+    if (isFailure(result)) {
+      return sendServiceFailure(res, result);
+    }
+
+    res.json({
+      success: true,
+      status: "ok",
+      data: { entries: result.data },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendRouteError(res, "Failed to list skill taxonomy", error);
+  }
+});
+
+/**
+ * @swagger
+ * /organizations/{id}/skill-taxonomy:
+ *   post:
+ *     tags: [Skill Taxonomy]
+ *     summary: Add a skill to an organization's taxonomy
+ *     description: Requires write access. An embedding is generated from the name.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: integer }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             name: "Acme Certified L2"
+ *             category: "certification"
+ *             parentId: 12
+ *             aliases: ["ACL2"]
+ *     responses:
+ *       201:
+ *         description: Skill added
+ *       400:
+ *         description: Invalid skill or name already in the taxonomy
+ */
+router.post("/", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const organizationId = parseId(req.params.id);
+    if (isNaN(organizationId)) {
+      return sendInvalidId(res, "Organization");
+    }
+
+    const validation = entrySchema.safeParse(req.body);
+    if (!validation.success) {
+      return sendInvalidBody(res, "Invalid taxonomy skill", validation.error);
+    }
+
+    const result = await createSkillTaxonomyService(getStorage())
+      .createEntry(req.user!.uid, organizationId, validation.data);
+    if (isFailure(result)) {
+      return sendServiceFailure(res, result);
+    }
+
+    res.status(201).json({
+      success: true,
+      status: "success",
+      data: result.data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendRouteError(res, "Failed to add taxonomy skill", error);
+  }
+});
+
+/**
+ * @swagger
+ * /organizations/{id}/skill-taxonomy/import:
+ *   post:
+ *     tags: [Skill Taxonomy]
+ *     summary: Import skills from a CSV or JSON file
+ *     description: |
+ *       Send the file as the request body (text/csv or text/plain). CSV needs
+ *       a header row with a name column and optional category, parent,
+ *       aliases (separated by ; or |) and description columns. JSON is an
+ *       array of objects with the same fields, aliases as an array. Skills
+ *       already in the taxonomy are updated; parent names a broader skill in
+ *       the file or the taxonomy. Rows that can't be used are skipped and
+ *       listed in errors. Requires write access.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: integer }
+ *       - in: query
+ *         name: format
+ *         schema: { type: string, enum: [csv, json], default: csv }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           example: |
+ *             name,category,parent,aliases
+ *             Acme Certified,certification,,
+ *             Acme Certified L2,certification,Acme Certified,ACL2
+ *     responses:
+ *       200:
+ *         description: Counts of created and updated skills, and skipped rows
+ *       400:
+ *         description: Unreadable file
+ */
+router.post("/import", authenticateUser, importBodyParser, async (req: Request, res: Response) => {
+  try {
+    const organizationId = parseId(req.params.id);
+    if (isNaN(organizationId)) {
+      return sendInvalidId(res, "Organization");
+    }
+
+    const queryValidation = importQuerySchema.safeParse(req.query);
+    if (!queryValidation.success) {
+      return sendInvalidBody(res, "Invalid import format", queryValidation.error);
+    }
+    if (typeof req.body !== "string" || !req.body.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: "VALIDATION_ERROR",
+        message: "Send the file as a text/csv or text/plain request body",
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const result = await createSkillTaxonomyService(getStorage()).importEntries(req.user!.uid, organizationId, {
+      format: queryValidation.data.format,
+      content: req.body
+    });
+    if (isFailure(result)) {
+      return sendServiceFailure(res, result);
+    }
+
+    res.json({
+      success: true,
+      status: "success",
+      data: result.data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendRouteError(res, "Failed to import skill taxonomy", error);
+  }
+});
+
+/**
+ * @swagger
+ * /organizations/{id}/skill-taxonomy/{entryId}:
+ *   patch:
+ *     tags: [Skill Taxonomy]
+ *     summary: Edit a taxonomy skill
+ *     description: |
+ *       Changes the name, category, aliases, description or broader skill
+ *       (parentId, null for the top level). Renaming regenerates the
+ *       embedding. Requires write access.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: integer }
+ *       - in: path
+ *         name: entryId
+ *         required: true
+ *         schema: { type: integer }
+ *     responses:
+ *       200:
+ *         description: Skill updated
+ *       400:
+ *         description: Invalid change, such as a loop in the hierarchy
+ *       404:
+ *         description: Skill not found
+ */
+router.patch("/:entryId", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const organizationId = parseId(req.params.id);
+    const entryId = parseId(req.params.entryId);
+    if (isNaN(organizationId) || isNaN(entryId)) {
+      return sendInvalidId(res, isNaN(organizationId) ? "Organization" : "Taxonomy skill");
+    }
+
+    const validation = entrySchema.partial().safeParse(req.body);
+    if (!validation.success) {
+      return sendInvalidBody(res, "Invalid taxonomy skill", validation.error);
+    }
+
+    const result = await createSkillTaxonomyService(getStorage())
+      .updateEntry(req.user!.uid, organizationId, entryId, validation.data);
+    if (isFailure(result)) {
+      return sendServiceFailure(res, result);
+    }
+
+    res.json({
+      success: true,
+      status: "success",
+      data: result.data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendRouteError(res, "Failed to update taxonomy skill", error);
+  }
+});
+
+/**
+ * @swagger
+ * /organizations/{id}/skill-taxonomy/{entryId}:
+ *   delete:
+ *     tags: [Skill Taxonomy]
+ *     summary: Remove a taxonomy skill
+ *     description: Its narrower skills move to the top level. Requires write access.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: integer }
+ *       - in: path
+ *         name: entryId
+ *         required: true
+ *         schema: { type: integer }
+ *     responses:
+ *       200:
+ *         description: Skill removed
+ *       404:
+ *         description: Skill not found
+ */
+router.delete("/:entryId", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const organizationId = parseId(req.params.id);
+    const entryId = parseId(req.params.entryId);
+    if (isNaN(organizationId) || isNaN(entryId)) {
+      return sendInvalidId(res, isNaN(organizationId) ? "Organization" : "Taxonomy skill");
+    }
+
+    const result = await createSkillTaxonomyService(getStorage())
+      .deleteEntry(req.user!.uid, organizationId, entryId);
+    if (isFailure(result)) {
+      return sendServiceFailure(res, result);
+    }
+
+    res.json({
+      success: true,
+      status: "success",
+      message: "Taxonomy skill removed",
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendRouteError(res, "Failed to remove taxonomy skill", error);
+  }
+});
+
+export default router;
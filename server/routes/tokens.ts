@@ -10,6 +10,8 @@ import { z } from 'zod';
 import { authenticateUser } from '../middleware/auth';
 import { tokenUsageService } from '../services/token-usage';
 import { logger } from '../config/logger';
+import { isValidCidr } from '../lib/api-token-scopes';
+import { API_TOKEN_SCOPES } from '../../shared/schema';
 import type { 
   TokenGenerationRequest,
 } from '../../shared/schema';
@@ -22,6 +24,23 @@ const generateTokenSchema = z.object({
   tokenName: z.string().optional(),
   expiresIn: z.enum(['1h', '24h', '7d', '30d', 'never']).optional(),
   permissions: z.array(z.string()).optional(),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1).optional(),
+  allowedCidrs: z.array(
+    z.string().refine(isValidCidr, { message: 'Must be an IP address or CIDR block, e.g. 203.0.113.0/24' })
+  ).max(50).optional(),
+  rateLimitPerMinute: z.number().int().min(1).max(10000).nullable().optional(),
+});
+
+const rotateTokenSchema = z.object({
+  gracePeriod: z.enum(['none', '1h', '24h', '7d']).optional(),
+});
+
+const activityQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+const alertsQuerySchema = z.object({
+  includeAcknowledged: z.enum(['true', 'false']).optional().transform(val => val === 'true'),
 });
 
 const metricsQuerySchema = z.object({
@@ -63,6 +82,7 @@ router.post('/generate', authenticateUser, async (req: Request, res: Response) =
       email: req.user.email,
       tokenName: request.tokenName,
       expiresIn: request.expiresIn,
+      scopes: tokenResponse.scopes,
     });
 
     res.status(201).json({
@@ -214,6 +234,212 @@ router.delete('/:tokenId', authenticateUser, async (req: Request, res: Response)
   }
 });
 
+/**
+ * POST /api/tokens/:tokenId/rotate
+ * Issue a new secret for a token, keeping the old one valid for a grace period
+ */
+router.post('/:tokenId/rotate', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'USER_AUTH_REQUIRED',
+      });
+    }
+
+    const validationResult = rotateTokenSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'Request body validation failed',
+        code: 'VALIDATION_ERROR',
+        details: validationResult.error.errors,
+      });
+    }
+
+    const { tokenId } = req.params;
+    const tokenResponse = await tokenUsageService.rotateToken(
+      req.user.uid,
+      tokenId,
+      validationResult.data.gracePeriod
+    );
+
+    if (!tokenResponse) {
+      return res.status(404).json({
+        error: 'Token not found',
+        message: 'No active token with this ID belongs to you',
+        code: 'TOKEN_NOT_FOUND',
+      });
+    }
+
+    res.json({
+      message: 'Token rotated successfully',
+      data: tokenResponse,
+    });
+  } catch (error) {
+    logger.error('Token rotation failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      userId: req.user?.uid,
+      tokenId: req.params.tokenId,
+    });
+
+    res.status(500).json({
+      error: 'Token rotation failed',
+      message: 'An error occurred while rotating the API token',
+      code: 'TOKEN_ROTATION_ERROR',
+    });
+  }
+});
+
+/**
+ * GET /api/tokens/:tokenId/activity
+ * Recent calls made with a token: endpoint, status, latency and IP
+ */
+router.get('/:tokenId/activity', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'USER_AUTH_REQUIRED',
+      });
+    }
+
+    const queryValidation = activityQuerySchema.safeParse(req.query);
+    if (!queryValidation.success) {
+      return res.status(400).json({
+        error: 'Invalid query parameters',
+        code: 'VALIDATION_ERROR',
+        details: queryValidation.error.errors,
+      });
+    }
+
+    const activity = await tokenUsageService.getTokenActivity(
+      req.user.uid,
+      req.params.tokenId,
+      queryValidation.data.limit
+    );
+
+    if (!activity) {
+      return res.status(404).json({
+        error: 'Token not found',
+        message: 'No token with this ID belongs to you',
+        code: 'TOKEN_NOT_FOUND',
+      });
+    }
+
+    res.json({
+      message: 'Token activity retrieved successfully',
+      data: activity,
+    });
+  } catch (error) {
+    logger.error('Failed to get token activity', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      userId: req.user?.uid,
+      tokenId: req.params.tokenId,
+    });
+
+    res.status(500).json({
+      error: 'Failed to retrieve token activity',
+      message: 'An error occurred while retrieving token activity',
+      code: 'TOKEN_ACTIVITY_ERROR',
+    });
+  }
+});
+
+/**
+ * GET /api/tokens/alerts
+ * Anomaly alerts for the user's tokens (new IP ranges, volume spikes)
+ */
+router.get('/alerts', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'USER_AUTH_REQUIRED',
+      });
+    }
+
+    const queryValidation = alertsQuerySchema.safeParse(req.query);
+    if (!queryValidation.success) {
+      return res.status(400).json({
+        error: 'Invalid query parameters',
+        code: 'VALIDATION_ERROR',
+        details: queryValidation.error.errors,
+      });
+    }
+
+    const alerts = await tokenUsageService.getAnomalyAlerts(
+      req.user.uid,
+      queryValidation.data.includeAcknowledged
+    );
+
+    res.json({
+      message: 'Token alerts retrieved successfully',
+      data: alerts,
+    });
+  } catch (error) {
+    logger.error('Failed to get token alerts', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      userId: req.user?.uid,
+    });
+
+    res.status(500).json({
+      error: 'Failed to retrieve token alerts',
+      message: 'An error occurred while retrieving token alerts',
+      code: 'TOKEN_ALERTS_ERROR',
+    });
+  }
+});
+
+/**
+ * POST /api/tokens/alerts/:alertId/acknowledge
+ * Mark a token anomaly alert as reviewed
+ */
+router.post('/alerts/:alertId/acknowledge', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        code: 'USER_AUTH_REQUIRED',
+      });
+    }
+
+    const alertId = parseInt(req.params.alertId);
+    if (isNaN(alertId)) {
+      return res.status(400).json({
+        error: 'Invalid alert ID',
+        message: 'Alert ID must be a number',
+        code: 'VALIDATION_ERROR',
+      });
+    }
+
+    const acknowledged = await tokenUsageService.acknowledgeAnomalyAlert(req.user.uid, alertId);
+    if (!acknowledged) {
+      return res.status(404).json({
+        error: 'Alert not found',
+        code: 'ALERT_NOT_FOUND',
+      });
+    }
+
+    res.json({
+      message: 'Alert acknowledged',
+      alertId,
+    });
+  } catch (error) {
+    logger.error('Failed to acknowledge token alert', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      userId: req.user?.uid,
+      alertId: req.params.alertId,
+    });
+
+    res.status(500).json({
+      error: 'Failed to acknowledge alert',
+      message: 'An error occurred while acknowledging the alert',
+      code: 'TOKEN_ALERT_ACK_ERROR',
+    });
+  }
+});
+
 /**
  * POST /api/tokens/reset-usage
  * Reset user usage (for development/testing)
@@ -0,0 +1,391 @@
+/**
+ * Webhook Routes
+ * Endpoint subscriptions for analysis, batch, bias and parsing events
+ * Mounted under /api/webhooks
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { authenticateUser } from "../middleware/auth";
+import { logger } from "../lib/logger";
+import { createWebhookService } from "../services/webhook-service";
+import { getStorage } from "../storage";
+import { WEBHOOK_EVENT_TYPES } from "@shared/schema";
+import { isFailure } from "@shared/result-types";
+import { getErrorStatusCode, getErrorCode, getErrorMessage, getErrorTimestamp } from "@shared/type-utilities";
+
+const router = Router();
+
+// Request validation schemas
+const eventsSchema = z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1);
+
+const createWebhookSchema = z.object({
+  url: z.string().url().max(2048),
+  events: eventsSchema,
+  description: z.string().max(200).optional(),
+});
+
+const updateWebhookSchema = z.object({
+  url: z.string().url().max(2048).optional(),
+  events: eventsSchema.optional(),
+  description: z.string().max(200).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+function parseId(value: string | undefined): number {
+  const id = parseInt(value ?? "", 10);
+  return Number.isNaN(id) || id <= 0 ? NaN : id;
+}
+
+function sendInvalidId(res: Response) {
+  return res.status(400).json({
+    success: false,
+    error: "VALIDATION_ERROR",
+    message: "Webhook ID must be a positive number",
+    timestamp: new Date().toISOString()
+  });
+}
+
+/**
+ * @swagger
+ * /webhooks:
+ *   get:
+ *     tags: [Webhooks]
+ *     summary: List webhook subscriptions
+ *     description: Signing secrets are not returned; only a short preview.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The user's webhook subscriptions
+ */
+router.get("/", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const webhookService = createWebhookService(getStorage());
+    const result = await webhookService.listSubscriptions(req.user!.uid);
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "ok",
+      data: { webhooks: result.data, availableEvents: WEBHOOK_EVENT_TYPES },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Webhook list route failed:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to list webhooks",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /webhooks:
+ *   post:
+ *     tags: [Webhooks]
+ *     summary: Register a webhook endpoint
+ *     description: |
+ *       Deliveries are POSTed as JSON with an `X-EvalMatch-Signature` header
+ *       of the form `t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">`, keyed
+ *       with the secret returned here. The secret is only shown once.
+ *       Failed deliveries are retried with exponential backoff (6 attempts).
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           example:
+ *             url: "https://example.com/hooks/evalmatch"
+ *             events: ["analysis.completed", "batch.completed", "bias.analysis.completed", "resume.parsed"]
+ *             description: "ATS sync"
+ *     responses:
+ *       201:
+ *         description: Webhook registered; response includes the signing secret
+ *       400:
+ *         description: Invalid URL or events
+ */
+router.post("/", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const validation = createWebhookSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "VALIDATION_ERROR",
+        message: "Invalid webhook subscription",
+        details: validation.error.errors,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const webhookService = createWebhookService(getStorage());
+    const result = await webhookService.createSubscription({
+      userId: req.user!.uid,
+      ...validation.data
+    });
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      status: "success",
+      message: "Webhook registered. Store the secret now; it will not be shown again.",
+      data: result.data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Webhook creation route failed:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to register webhook",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /webhooks/{id}:
+ *   get:
+ *     tags: [Webhooks]
+ *     summary: Get a webhook subscription
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Webhook subscription
+ *       404:
+ *         description: Webhook not found
+ */
+router.get("/:id", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const subscriptionId = parseId(req.params.id);
+    if (isNaN(subscriptionId)) {
+      return sendInvalidId(res);
+    }
+
+    const webhookService = createWebhookService(getStorage());
+    const result = await webhookService.getSubscription(req.user!.uid, subscriptionId);
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "ok",
+      data: result.data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Webhook retrieval route failed:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to retrieve webhook",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /webhooks/{id}:
+ *   patch:
+ *     tags: [Webhooks]
+ *     summary: Update a webhook subscription
+ *     description: Change the URL, events or description, or pause it with isActive=false.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Webhook updated
+ *       404:
+ *         description: Webhook not found
+ */
+router.patch("/:id", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const subscriptionId = parseId(req.params.id);
+    if (isNaN(subscriptionId)) {
+      return sendInvalidId(res);
+    }
+
+    const validation = updateWebhookSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "VALIDATION_ERROR",
+        message: "Invalid webhook update",
+        details: validation.error.errors,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const webhookService = createWebhookService(getStorage());
+    const result = await webhookService.updateSubscription({
+      userId: req.user!.uid,
+      subscriptionId,
+      ...validation.data
+    });
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "success",
+      message: "Webhook updated successfully",
+      data: result.data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Webhook update route failed:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to update webhook",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /webhooks/{id}:
+ *   delete:
+ *     tags: [Webhooks]
+ *     summary: Delete a webhook subscription and its delivery log
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Webhook deleted
+ *       404:
+ *         description: Webhook not found
+ */
+router.delete("/:id", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const subscriptionId = parseId(req.params.id);
+    if (isNaN(subscriptionId)) {
+      return sendInvalidId(res);
+    }
+
+    const webhookService = createWebhookService(getStorage());
+    const result = await webhookService.deleteSubscription(req.user!.uid, subscriptionId);
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "success",
+      message: "Webhook deleted successfully",
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Webhook deletion route failed:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to delete webhook",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /webhooks/{id}/deliveries:
+ *   get:
+ *     tags: [Webhooks]
+ *     summary: Get the delivery log of a webhook
+ *     description: |
+ *       Most recent first. Each delivery shows its status (pending, succeeded,
+ *       failed), number of attempts, last HTTP status and error.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, minimum: 1, maximum: 200, default: 50 }
+ *     responses:
+ *       200:
+ *         description: Delivery log
+ */
+router.get("/:id/deliveries", authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const subscriptionId = parseId(req.params.id);
+    if (isNaN(subscriptionId)) {
+      return sendInvalidId(res);
+    }
+
+    const requestedLimit = parseInt(String(req.query.limit ?? "50"), 10);
+    const limit = Number.isNaN(requestedLimit) ? 50 : Math.min(Math.max(requestedLimit, 1), 200);
+
+    const webhookService = createWebhookService(getStorage());
+    const result = await webhookService.listDeliveries(req.user!.uid, subscriptionId, limit);
+
+    if (isFailure(result)) {
+      return res.status(getErrorStatusCode(result.error, 500)).json({
+        success: false,
+        error: getErrorCode(result.error),
+        message: getErrorMessage(result.error),
+        timestamp: getErrorTimestamp(result.error)
+      });
+    }
+
+    res.json({
+      success: true,
+      status: "ok",
+      data: { deliveries: result.data },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error("Webhook deliveries route failed:", error);
+    res.status(500).json({
+      success: false,
+      error: "ROUTE_ERROR",
+      message: "Failed to load webhook deliveries",
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,84 @@
+/**
+ * Offline scoring evaluation against a labeled gold dataset
+ * Compares the ML scorer and the hybrid analyzer with human ratings or hire labels
+ *
+ * Usage:
+ *   npm run eval:scoring -- [--dataset=path/to/dataset.json] [--k=5] [--output=report.json]
+ *
+ * Without --dataset the bundled sample in server/data/evaluation is used.
+ */
+
+import fs from "fs/promises";
+import { logger } from "../lib/logger";
+import {
+  DEFAULT_EVALUATION_K,
+  SAMPLE_EVALUATION_DATASET_PATH,
+  loadEvaluationDataset,
+  runScoringEvaluation,
+  type EvaluationMetrics,
+  type ScoringEvaluationReport,
+} from "../lib/scoring-evaluation";
+
+const formatMetric = (value: number | null): string => (value === null ? "n/a" : value.toFixed(3));
+
+function metricsRow(label: string, metrics: EvaluationMetrics): string {
+  return [
+    label.padEnd(28),
+    String(metrics.count - metrics.abstained).padStart(6),
+    String(metrics.abstained).padStart(9),
+    formatMetric(metrics.spearman).padStart(9),
+    formatMetric(metrics.kendallTau).padStart(8),
+    formatMetric(metrics.ndcgAtK).padStart(8),
+    formatMetric(metrics.calibrationError).padStart(8),
+  ].join(" ");
+}
+
+function printReport(report: ScoringEvaluationReport): void {
+  console.log(`\nDataset: ${report.dataset} (${report.examples} examples, ${report.durationMs} ms)\n`);
+  console.log([
+    "scorer / domain".padEnd(28),
+    "scored".padStart(6),
+    "abstained".padStart(9),
+    "spearman".padStart(9),
+    "kendall".padStart(8),
+    `ndcg@${report.k}`.padStart(8),
+    "ece".padStart(8),
+  ].join(" "));
+
+  for (const [name, scorer] of Object.entries(report.scorers)) {
+    console.log(metricsRow(name, scorer));
+    for (const [domain, metrics] of Object.entries(scorer.domains)) {
+      console.log(metricsRow(`  ${domain}`, metrics));
+    }
+  }
+  console.log("");
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const option = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split("=").slice(1).join("=");
+
+  const datasetPath = option("dataset") || SAMPLE_EVALUATION_DATASET_PATH;
+  const k = parseInt(option("k") || String(DEFAULT_EVALUATION_K), 10);
+  const outputPath = option("output");
+
+  if (!Number.isInteger(k) || k < 1) {
+    throw new Error("--k must be a positive integer");
+  }
+
+  const dataset = await loadEvaluationDataset(datasetPath);
+  const report = await runScoringEvaluation(dataset, { k });
+
+  printReport(report);
+  if (outputPath) {
+    await fs.writeFile(outputPath, JSON.stringify(report, null, 2));
+    console.log(`Full report written to ${outputPath}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    logger.error("Scoring evaluation failed:", error);
+    process.exit(1);
+  });
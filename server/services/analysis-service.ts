@@ -34,6 +34,38 @@ import {
 
 import { analyzeMatchHybrid } from '../lib/hybrid-match-analyzer';
 import { getUserTierInfo } from '../lib/user-tiers';
+import { withLlmUsageContext } from '../lib/llm-usage';
+import { redactResumeForBlindReview, redactCandidateName, blindCandidateLabel, BlindResume } from '../lib/blind-review';
+import { createRedactionAudit, persistRedactionAudit } from '../lib/audit-trail';
+import { emitWebhookEvent } from './webhook-service';
+import { createOrganizationService, type ShareableItem } from './organization-service';
+import { createBatchAnalysisReporter } from '../lib/batch-events';
+import { isKnownDuplicate } from '../lib/resume-dedup';
+import { findStaleResumeIds, isAnalysisStale } from '../lib/job-description-versions';
+import {
+  renderAnalysisExport,
+  AnalysisExportFormat,
+  AnalysisExportReport,
+  RenderedAnalysisExport
+} from '../lib/analysis-export';
+import { getStorage } from '../storage';
+import {
+  ANALYSIS_RUN_CONCURRENCY,
+  ANALYSIS_RUN_MAX_RESUMES,
+  AnalysisRunProgress,
+  isAnalysisRunItemFinished,
+  mapWithConcurrency,
+  resolveAnalysisRunStatus,
+  summarizeAnalysisRun
+} from '../lib/analysis-runs';
+import {
+  prefilterJobsForResume,
+  DEFAULT_MATCHING_JOBS_LIMIT,
+  MAX_MATCHING_JOBS_LIMIT,
+  JobPrefilterMethod,
+  JobPrefilterResult
+} from '../lib/reverse-matching';
+import type { Job } from 'bullmq';
 
 // Prefix unused import to silence warnings
 const _matchAnalysisWithCache = matchAnalysisWithCache;
@@ -48,6 +80,7 @@ import {
 } from '@shared/result-types';
 
 import {
+  AppAuthenticationError,
   AppNotFoundError,
   AppValidationError,
   AppBusinessLogicError,
@@ -57,10 +90,19 @@ import {
 import {
   AnalyzeResumeResponse,
   AnalyzeJobDescriptionResponse,
+  AnalyzedJobData,
   MatchAnalysisResponse,
-  SkillMatch
+  SkillMatch,
+  Resume,
+  JobDescription,
+  AnalysisResult,
+  AnalysisRun,
+  AnalysisRunItem,
+  AnalysisRunItemStatus,
+  AnalysisRunStatus
 } from '@shared/schema';
 import type { ResumeId, JobId, AnalysisId } from '@shared/api-contracts';
+import type { OrganizationPermission } from '@shared/organization-roles';
 
 // Prefix unused imports to silence warnings
 const _success = success;
@@ -70,6 +112,9 @@ const _chainResultAsync = chainResultAsync;
 const _AppValidationError = AppValidationError;
 const _toAppError = toAppError;
 
+// Job type of analysis runs on the AI analysis queue
+const ANALYSIS_RUN_JOB_TYPE = 'analysis-run';
+
 // ===== SERVICE INPUT TYPES =====
 
 /**
@@ -86,6 +131,20 @@ export interface AnalyzeResumesBatchInput {
   batchId?: string;
   /** Specific resume IDs to analyze (if not provided, analyzes all user resumes) */
   resumeIds?: number[];
+  /** Leave out resumes merged into a candidate group as copies of its primary resume */
+  skipDuplicates?: boolean;
+}
+
+/**
+ * Job-level data shared by every resume in a batch
+ */
+interface BatchAnalysisContext {
+  userId: string;
+  jobId: number;
+  jobDescription: JobDescription;
+  /** The job's stored analysis, or the fresh response when it had none */
+  jobAnalysis: AnalyzedJobData | AnalyzeJobDescriptionResponse;
+  userTierInfo: ReturnType<typeof getUserTierInfo>;
 }
 
 /**
@@ -100,6 +159,34 @@ export interface AnalyzeSingleResumeInput {
   resumeId: number;
 }
 
+/**
+ * Input for exporting a job's ranked analysis results
+ */
+export interface ExportAnalysisResultsInput {
+  /** User performing the export */
+  userId: string;
+  /** Job description whose results are exported */
+  jobId: number;
+  /** csv, xlsx or pdf */
+  format: AnalysisExportFormat;
+  /** Optional session ID filter */
+  sessionId?: string;
+  /** Optional batch ID filter */
+  batchId?: string;
+}
+
+/**
+ * Input for ranking a user's jobs against one resume
+ */
+export interface MatchJobsForResumeInput {
+  /** User performing the operation */
+  userId: string;
+  /** Resume to find jobs for */
+  resumeId: number;
+  /** How many of the best prefiltered jobs get a full analysis (default 5, max 10) */
+  limit?: number;
+}
+
 /**
  * Input for interview question generation
  */
@@ -112,6 +199,8 @@ export interface GenerateInterviewQuestionsInput {
   jobId: number;
   /** Optional session ID */
   sessionId?: string;
+  /** Generate a new question set even if one is stored for this pair */
+  regenerate?: boolean;
 }
 
 /**
@@ -147,6 +236,10 @@ export interface BatchAnalysisResult {
     recommendations: string[];
     confidenceLevel: 'low' | 'medium' | 'high';
     analysisId: number | null;
+    /** Job description version the analysis ran against */
+    jobVersion?: number | null;
+    /** The job description has changed since the analysis ran */
+    stale?: boolean;
     error?: string;
   }>;
   /** Processing metadata */
@@ -160,6 +253,8 @@ export interface BatchAnalysisResult {
     failed: number;
     averageMatch: number;
   };
+  /** Known duplicates left out with skipDuplicates */
+  skippedDuplicates?: number[];
 }
 
 /**
@@ -186,6 +281,172 @@ export interface SingleAnalysisResult {
   processingTime: number;
 }
 
+/**
+ * Jobs ranked by fit for one resume
+ */
+export interface ResumeJobMatchesResult {
+  resumeId: number;
+  /** Jobs the user owns, before prefiltering */
+  totalJobs: number;
+  /** Fully analyzed top jobs, highest match first */
+  matches: Array<{
+    jobId: number;
+    title: string;
+    /** First-pass score from stored embeddings or skill overlap */
+    prefilterScore: number;
+    prefilterMethod: JobPrefilterMethod;
+    matchPercentage: number | null;
+    confidenceLevel: 'low' | 'medium' | 'high';
+    matchedSkills: SkillMatch[];
+    missingSkills: string[];
+    candidateStrengths: string[];
+    candidateWeaknesses: string[];
+    analysisId: number | null;
+    /** True when a stored analysis newer than the job was reused */
+    cached: boolean;
+    error?: string;
+  }>;
+  processingTime: number;
+}
+
+/**
+ * One resume's entry in a batch analysis result
+ */
+export type BatchAnalysisResultItem = BatchAnalysisResult['results'][number];
+
+/**
+ * Status and per-resume progress of an asynchronous analysis run
+ */
+export interface AnalysisRunView {
+  /** Run ID to poll */
+  runId: number;
+  /** Job ID being analyzed */
+  jobId: number;
+  /** queued, running, completed or failed */
+  status: AnalysisRunStatus;
+  /** Item counts and completion percentage */
+  progress: AnalysisRunProgress;
+  /** Run-level failure reason */
+  error: string | null;
+  createdAt: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  /** Per-resume status, without candidate details */
+  items: Array<{
+    resumeId: number;
+    status: AnalysisRunItemStatus;
+    analysisId: number | null;
+    matchPercentage: number | null;
+    error: string | null;
+  }>;
+}
+
+/**
+ * Results of an analysis run so far
+ */
+export interface AnalysisRunResults extends AnalysisRunView {
+  /** Successful results, highest match first */
+  results: BatchAnalysisResultItem[];
+  /** Resumes whose analysis failed */
+  failures: Array<{ resumeId: number; error: string }>;
+  /** Statistics over the finished resumes */
+  statistics: BatchAnalysisResult['statistics'];
+}
+
+// ===== PURE HELPERS =====
+
+function calculateBatchStatistics(results: BatchAnalysisResultItem[]): BatchAnalysisResult['statistics'] {
+  const successful = results.filter(r => !r.error);
+  const averageMatch = successful.length > 0
+    ? Math.round(successful.reduce((sum, r) => sum + (r.matchPercentage ?? 0), 0) / successful.length)
+    : 0;
+
+  return {
+    totalResumes: results.length,
+    successful: successful.length,
+    failed: results.length - successful.length,
+    averageMatch
+  };
+}
+
+function collectRunResults(items: AnalysisRunItem[]): BatchAnalysisResultItem[] {
+  return items
+    .filter(item => item.result)
+    .map(item => item.result as unknown as BatchAnalysisResultItem);
+}
+
+function toAnalysisRunView(run: AnalysisRun, items: AnalysisRunItem[]): AnalysisRunView {
+  return {
+    runId: run.id,
+    jobId: run.jobDescriptionId,
+    status: run.status,
+    progress: summarizeAnalysisRun(items),
+    error: run.error,
+    createdAt: run.createdAt?.toISOString() ?? null,
+    startedAt: run.startedAt?.toISOString() ?? null,
+    completedAt: run.completedAt?.toISOString() ?? null,
+    items: items.map(item => ({
+      resumeId: item.resumeId,
+      status: item.status,
+      analysisId: item.analysisResultId,
+      matchPercentage: (item.result?.matchPercentage as number | null | undefined) ?? null,
+      error: item.error
+    }))
+  };
+}
+
+/**
+ * Ranked export rows for a job; blind review jobs get candidate labels and
+ * name-scrubbed text, the same as the results view
+ */
+function buildAnalysisExportReport(
+  jobDescription: JobDescription,
+  analysisResults: AnalysisResult[],
+  generatedAt = new Date()
+): AnalysisExportReport {
+  const blind = !!jobDescription.blindReview;
+
+  const rows = analysisResults
+    .map(result => {
+      const resumeId = result.resumeId as number;
+      const resume = (result as AnalysisResult & { resume?: Resume }).resume;
+      const realName = resume?.analyzedData?.name;
+      const scrub = (text: string) => blind ? redactCandidateName(text, realName) : text;
+      const fairness = result.fairnessMetrics ?? null;
+
+      return {
+        resumeId,
+        candidateName: blind
+          ? blindCandidateLabel(resumeId)
+          : realName || resume?.filename?.replace(/\.[^/.]+$/, '') || `Candidate ${resumeId}`,
+        filename: blind ? blindCandidateLabel(resumeId) : resume?.filename || `Resume ${resumeId}`,
+        matchPercentage: result.matchPercentage ?? 0,
+        confidenceLevel: result.confidenceLevel ?? 'low',
+        scoringDimensions: result.scoringDimensions ?? null,
+        matchedSkills: (result.matchedSkills || []).map((skill: string | SkillMatch) =>
+          typeof skill === 'string' ? skill : skill.skill
+        ),
+        missingSkills: result.missingSkills || [],
+        strengths: (result.candidateStrengths || []).map(scrub),
+        weaknesses: (result.candidateWeaknesses || []).map(scrub),
+        fairnessMetrics: fairness && blind
+          ? { ...fairness, fairnessAssessment: scrub(fairness.fairnessAssessment || '') }
+          : fairness,
+        analyzedAt: result.createdAt?.toISOString() ?? null
+      };
+    })
+    .sort((a, b) => b.matchPercentage - a.matchPercentage)
+    .map((row, index) => ({ rank: index + 1, ...row }));
+
+  return {
+    jobId: jobDescription.id,
+    jobTitle: jobDescription.title,
+    blindReview: blind,
+    generatedAt,
+    rows
+  };
+}
+
 // ===== ANALYSIS SERVICE CLASS =====
 
 /**
@@ -206,6 +467,18 @@ export class AnalysisService {
    */
   async analyzeResumesBatch(
     input: AnalyzeResumesBatchInput
+  ): Promise<MatchAnalysisResult<BatchAnalysisResult>> {
+    return withLlmUsageContext({ userId: input.userId, jobId: input.jobId }, () =>
+      this.runResumesBatch(input)
+    );
+  }
+
+  /**
+   * Batch analysis body, run inside the caller's LLM usage context
+   * @private
+   */
+  private async runResumesBatch(
+    input: AnalyzeResumesBatchInput
   ): Promise<MatchAnalysisResult<BatchAnalysisResult>> {
     const { userId, jobId, sessionId, batchId, resumeIds } = input;
     const analysisStartTime = Date.now();
@@ -218,327 +491,407 @@ export class AnalysisService {
       resumeIds: resumeIds?.length || 'all'
     });
 
-    // Get job description
-    const jobDescription = await this._storageProvider.getJobDescriptionById(jobId, userId);
-    if (!jobDescription) {
-      return failure(AppNotFoundError.jobDescription(jobId));
-    }
-
-    // Get user's resumes
-    let resumes = await this._storageProvider.getResumesByUserId(userId, sessionId, batchId);
-    
-    // Check for session/batch ID issues
-    if ((!resumes || resumes.length === 0) && (sessionId || batchId)) {
-      logger.warn('No resumes found with session/batch filters - session may be expired or invalid', { 
-        userId, 
-        jobId, 
-        sessionId, 
-        batchId,
-        message: 'User needs to refresh and start new session'
-      });
-      return failure(AppBusinessLogicError.sessionExpiredOrInvalid(sessionId, batchId));
-    }
-    
-    // Check if user has any resumes at all
-    if (!resumes || resumes.length === 0) {
-      return failure(AppNotFoundError.resume('any'));
-    }
-
-    // Filter by specific resume IDs if provided
-    if (resumeIds && resumeIds.length > 0) {
-      resumes = resumes.filter(resume => resumeIds.includes(resume.id));
-      if (resumes.length === 0) {
-        return failure(AppNotFoundError.resume('specified IDs'));
-      }
+    const targetResult = await this.resolveBatchTarget(input);
+    if (isFailure(targetResult)) {
+      return targetResult;
     }
+    const { jobDescription, resumes, skippedDuplicates } = targetResult.data;
 
     logger.info(`Found ${resumes.length} resumes to analyze against job ${jobId}`);
 
     // Get user tier for AI provider selection
     const userTierInfo = getUserTierInfo(userId);
 
-    // Analyze job description if not already analyzed
-    let jobAnalysis = jobDescription.analyzedData;
-    if (!jobAnalysis) {
-      const jobResult = await analyzeJobDescriptionWithCache(
-        jobDescription.title,
-        jobDescription.description,
-        userTierInfo
-      );
-
-      if (isFailure(jobResult)) {
-        logger.error('Job analysis failed', { 
-          jobId, 
-          error: jobResult.error.message 
-        });
-        return failure(AppExternalServiceError.aiProviderFailure('JobAnalysis', 'analysis', jobResult.error.message));
-      }
+    const reporter = createBatchAnalysisReporter({ batchId, jobId, total: resumes.length });
 
-      jobAnalysis = jobResult.data as any;
-      
-      // Update job with analysis
-      try {
-        await this._storageProvider.updateJobDescriptionAnalysis(jobId, jobAnalysis as any);
-      } catch (error) {
-        logger.error('Failed to update job analysis', { jobId, error });
-        // Continue - not critical for analysis
-      }
+    // Analyze job description if not already analyzed
+    const jobAnalysisResult = await this.ensureJobAnalysis(jobId, jobDescription, userTierInfo);
+    if (isFailure(jobAnalysisResult)) {
+      logger.error('Job analysis failed', { 
+        jobId, 
+        error: jobAnalysisResult.error.message 
+      });
+      reporter.failed(`Job analysis failed: ${jobAnalysisResult.error.message}`);
+      return failure(AppExternalServiceError.aiProviderFailure('JobAnalysis', 'analysis', jobAnalysisResult.error.message));
     }
 
-    // Process all resumes in parallel
-    const results: BatchAnalysisResult['results'] = [];
-    const analysisPromises = resumes.map(async (resume) => {
-      const resumeStartTime = Date.now();
-      
-      try {
-        // Get or create resume analysis
-        let resumeAnalysisResponse;
-        if (resume.analyzedData) {
-          // Reconstruct full AnalyzeResumeResponse from database data
-          resumeAnalysisResponse = {
-            id: resume.id,
-            filename: resume.filename,
-            analyzedData: resume.analyzedData,
-            processingTime: 0,
-            confidence: 0.8,
-            // Add backward compatibility properties from analyzedData
-            skills: resume.analyzedData.skills || [],
-            experience: resume.analyzedData.experience || "",
-            education: resume.analyzedData.education || [],
-            summary: resume.analyzedData.summary || "",
-            keyStrengths: resume.analyzedData.keyStrengths || []
-          };
-        } else if (resume.content) {
-          const resumeResult = await analyzeResumeWithCache(resume.content, userTierInfo);
-          
-          if (isFailure(resumeResult)) {
-            logger.error('Resume analysis failed', {
-              resumeId: resume.id,
-              error: resumeResult.error.message
-            });
-            throw new Error(resumeResult.error.message);
-          }
-          
-          resumeAnalysisResponse = resumeResult.data;
-          
-          // Update resume with analysis
-          try {
-            await this._storageProvider.updateResumeAnalysis(resume.id, resumeAnalysisResponse);
-          } catch (error) {
-            logger.error('Failed to update resume analysis', { resumeId: resume.id, error });
-            // Continue - not critical
-          }
-        }
-
-        // Perform hybrid matching analysis
-        // Convert jobAnalysis back to full AnalyzeJobDescriptionResponse format
-        const jobAnalysisResponse = {
-          id: jobId,
-          title: jobDescription.title,
-          analyzedData: jobAnalysis,
-          processingTime: 0,
-          confidence: 0.8,
-          // Add backward compatibility properties from analyzedData
-          requiredSkills: jobAnalysis?.requiredSkills || [],
-          preferredSkills: jobAnalysis?.preferredSkills || [],
-          experienceLevel: jobAnalysis?.experienceLevel || "",
-          responsibilities: jobAnalysis?.responsibilities || [],
-          summary: jobAnalysis?.summary || "",
-          biasAnalysis: jobAnalysis?.biasAnalysis
-        };
-        
-        const hybridResult = await analyzeMatchHybrid(
-          resumeAnalysisResponse as any,
-          jobAnalysisResponse as any,
-          userTierInfo,
-          resume.content || "",
-          jobDescription.description
-        );
-
-        if (isFailure(hybridResult)) {
-          logger.error('Hybrid analysis failed', {
-            resumeId: resume.id,
-            error: hybridResult.error.message
-          });
-          throw new Error(hybridResult.error.message);
-        }
-
-        const matchData = hybridResult.data;
-
-        // Store analysis result
-        const analysisResult = await this._storageProvider.createAnalysisResult({
-          userId,
-          resumeId: resume.id,
-          jobDescriptionId: jobId,
-          matchPercentage: matchData.matchPercentage,
-          matchedSkills: matchData.matchedSkills,
-          missingSkills: matchData.missingSkills,
-          analysis: matchData,
-          candidateStrengths: matchData.candidateStrengths,
-          candidateWeaknesses: matchData.candidateWeaknesses,
-          confidenceLevel: matchData.confidenceLevel,
-          fairnessMetrics: matchData.fairnessMetrics,
-          semanticSimilarity: matchData.scoringDimensions?.semantic || null,
-          skillsSimilarity: matchData.scoringDimensions?.skills || null,
-          experienceSimilarity: matchData.scoringDimensions?.experience || null,
-          educationSimilarity: matchData.scoringDimensions?.education || null,
-          mlConfidenceScore: matchData.confidence || null,
-          scoringDimensions: matchData.scoringDimensions || null,
-          recommendations: matchData.recommendations || []
-        });
-
-        const processingTime = Date.now() - resumeStartTime;
-        logger.info('Resume analysis completed', {
-          resumeId: resume.id,
-          matchPercentage: matchData.matchPercentage,
-          processingTime
-        });
-
-        return {
-          resumeId: resume.id,
-          filename: resume.filename,
-          candidateName: resume.filename.replace(/\.[^/.]+$/, ""),
-          matchPercentage: matchData.matchPercentage,
-          matchedSkills: matchData.matchedSkills || [],
-          missingSkills: matchData.missingSkills || [],
-          candidateStrengths: matchData.candidateStrengths || [],
-          candidateWeaknesses: matchData.candidateWeaknesses || [],
-          recommendations: matchData.recommendations || [],
-          confidenceLevel: matchData.confidenceLevel,
-          analysisId: analysisResult.id
-        };
-
-      } catch (error) {
-        const processingTime = Date.now() - resumeStartTime;
-        logger.error('Resume analysis failed', {
-          resumeId: resume.id,
-          error: error instanceof Error ? error.message : 'Unknown error',
-          processingTime
-        });
+    const context: BatchAnalysisContext = {
+      userId,
+      jobId,
+      jobDescription,
+      jobAnalysis: jobAnalysisResult.data,
+      userTierInfo
+    };
 
-        return {
-          resumeId: resume.id,
-          filename: resume.filename,
-          candidateName: resume.filename.replace(/\.[^/.]+$/, ""),
-          matchPercentage: 0,
-          matchedSkills: [],
-          missingSkills: [],
-          candidateStrengths: [],
-          candidateWeaknesses: [
-            `Analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-          ],
-          recommendations: [],
-          confidenceLevel: 'low' as const,
-          analysisId: null,
-          error: error instanceof Error ? error.message : 'Analysis failed'
-        };
-      }
-    });
+    reporter.started();
 
-    // Wait for all analyses to complete
-    const analysisResults = await Promise.all(analysisPromises);
-    results.push(...analysisResults);
+    // Process all resumes in parallel
+    const results = await Promise.all(
+      resumes.map(async resume => {
+        const result = await this.analyzeResumeForJob(resume, context);
+        reporter.resumeFinished(result);
+        return result;
+      })
+    );
 
     // Sort results by match percentage (highest first)
     results.sort((a, b) => (b.matchPercentage || 0) - (a.matchPercentage || 0));
 
-    // Calculate statistics
-    const successful = results.filter(r => !r.error);
-    const failed = results.filter(r => r.error);
-    const averageMatch = successful.length > 0
-      ? Math.round(successful.reduce((sum, r) => sum + (r.matchPercentage ?? 0), 0) / successful.length)
-      : 0;
-
+    const statistics = calculateBatchStatistics(results);
     const totalProcessingTime = Date.now() - analysisStartTime;
 
     logger.info('Batch analysis completed', {
       jobId,
       userId,
-      totalResumes: resumes.length,
-      successful: successful.length,
-      failed: failed.length,
-      averageMatch,
+      ...statistics,
       processingTime: totalProcessingTime
     });
 
+    const analysisId = Date.now().toString();
+    this.notifyAnalysisCompleted({ userId, jobId, sessionId, batchId, analysisId, statistics, results });
+
     return success({
-      analysisId: Date.now().toString(),
+      analysisId,
       jobId,
       results,
       processingTime: totalProcessingTime,
       createdAt: new Date().toISOString(),
-      statistics: {
-        totalResumes: resumes.length,
-        successful: successful.length,
-        failed: failed.length,
-        averageMatch
-      }
+      statistics,
+      skippedDuplicates
     });
   }
 
   /**
-   * Analyzes a single resume against a job description
-   * 
-   * @param input - Single analysis parameters
-   * @returns Result containing analysis result or error
+   * Queues a batch analysis and returns immediately. Resumes are analyzed by
+   * the AI analysis queue worker (or in-process when Redis is unavailable);
+   * progress is reported through getAnalysisRun.
+   *
+   * @param input - Batch analysis parameters
+   * @returns Result containing the queued run or error
    */
-  async analyzeSingleResume(
-    input: AnalyzeSingleResumeInput
-  ): Promise<MatchAnalysisResult<SingleAnalysisResult>> {
-    const { userId, jobId, resumeId } = input;
-    const startTime = Date.now();
-
-    logger.info('Starting single resume analysis', { userId, jobId, resumeId });
-
-    // Get resume and job
-    const [resume, jobDescription] = await Promise.all([
-      this._storageProvider.getResumeById(resumeId, userId),
-      this._storageProvider.getJobDescriptionById(jobId, userId)
-    ]);
+  async startAnalysisRun(
+    input: AnalyzeResumesBatchInput
+  ): Promise<MatchAnalysisResult<AnalysisRunView>> {
+    const { userId, jobId, sessionId, batchId } = input;
 
-    if (!resume) {
-      return failure(AppNotFoundError.resume(resumeId));
+    const targetResult = await this.resolveBatchTarget(input);
+    if (isFailure(targetResult)) {
+      return targetResult;
     }
+    const { resumes } = targetResult.data;
 
-    if (!jobDescription) {
-      return failure(AppNotFoundError.jobDescription(jobId));
+    if (resumes.length > ANALYSIS_RUN_MAX_RESUMES) {
+      return failure(new AppValidationError(
+        `An analysis run can include at most ${ANALYSIS_RUN_MAX_RESUMES} resumes`,
+        'resumeIds'
+      ));
     }
 
-    // Check if analysis already exists
-    const existingAnalysis = await this._storageProvider.getAnalysisResultByJobAndResume(
-      jobId, 
-      resumeId, 
-      userId
-    );
+    try {
+      const run = await this._storageProvider.createAnalysisRun({
+        userId,
+        jobDescriptionId: jobId,
+        sessionId: sessionId ?? null,
+        batchId: batchId ?? null,
+        status: 'queued',
+        totalResumes: resumes.length
+      });
 
-    if (existingAnalysis) {
-      logger.info('Found existing analysis', { analysisId: existingAnalysis.id });
-      
-      return success({
-        resumeId,
+      const items: AnalysisRunItem[] = [];
+      for (const resume of resumes) {
+        items.push(await this._storageProvider.createAnalysisRunItem({
+          runId: run.id,
+          resumeId: resume.id
+        }));
+      }
+
+      logger.info('Analysis run queued', { runId: run.id, userId, jobId, totalResumes: resumes.length });
+
+      await this.enqueueAnalysisRun(run.id);
+
+      return success(toAnalysisRunView(run, items));
+    } catch (error) {
+      logger.error('Failed to create analysis run', {
+        userId,
         jobId,
-        match: {
-          matchPercentage: existingAnalysis.matchPercentage || 0,
-          matchedSkills: existingAnalysis.matchedSkills || [],
-          missingSkills: existingAnalysis.missingSkills || [],
-          candidateStrengths: existingAnalysis.candidateStrengths || [],
-          candidateWeaknesses: existingAnalysis.candidateWeaknesses || [],
-          confidenceLevel: existingAnalysis.confidenceLevel || 'low',
-          fairnessMetrics: existingAnalysis.fairnessMetrics || undefined
-        },
-        analysisId: existingAnalysis.id,
-        processingTime: Date.now() - startTime
+        error: error instanceof Error ? error.message : 'Unknown error'
       });
+      return failure(AppExternalServiceError.databaseFailure(
+        'create_analysis_run',
+        error instanceof Error ? error.message : 'Failed to create analysis run'
+      ));
     }
-
-    // Perform new analysis (similar to batch logic)
-    const _userTierInfo = getUserTierInfo(userId);
-    
-    // This would use the same analysis logic as the batch method
-    // For brevity, returning a placeholder - in practice, extract common analysis logic
-    logger.info('Would perform new single analysis here');
-    
-    return failure(AppBusinessLogicError.incompatibleAnalysis());
+  }
+
+  /**
+   * Queues an analysis run for the candidates whose latest analysis of the
+   * job ran against an earlier version of it. A run takes at most
+   * ANALYSIS_RUN_MAX_RESUMES candidates; the rest stay stale for the next run.
+   *
+   * @param userId - User who owns the analyses
+   * @param jobId - The edited job description
+   * @returns Result containing the queued run or error
+   */
+  async reanalyzeStaleCandidates(
+    userId: string,
+    jobId: number
+  ): Promise<MatchAnalysisResult<AnalysisRunView>> {
+    const jobDescription = await this._storageProvider.getJobDescriptionById(jobId, userId);
+    if (!jobDescription) {
+      return failure(AppNotFoundError.jobDescription(jobId));
+    }
+
+    const permissionResult = await this.checkItemPermission(userId, jobDescription, 'analyze', 'job description');
+    if (isFailure(permissionResult)) {
+      return permissionResult;
+    }
+
+    const analyses = await this._storageProvider.getAnalysisResultsByJob(jobId, userId);
+    const staleResumeIds = findStaleResumeIds(analyses, jobDescription);
+    if (staleResumeIds.length === 0) {
+      return failure(new AppValidationError('No candidates have analyses from an earlier version of this job', 'jobId'));
+    }
+
+    logger.info('Re-analyzing stale candidates', {
+      userId,
+      jobId,
+      version: jobDescription.version,
+      staleCandidates: staleResumeIds.length
+    });
+
+    return this.startAnalysisRun({
+      userId,
+      jobId,
+      resumeIds: staleResumeIds.slice(0, ANALYSIS_RUN_MAX_RESUMES)
+    });
+  }
+
+  /**
+   * Analyzes the unfinished resumes of a run and records progress after each
+   * one. Safe to call again after a crash: finished items are skipped.
+   *
+   * @param runId - The run to process
+   * @param finalAttempt - When false, errors are rethrown so the queue retries
+   *   the run; otherwise the run is marked failed
+   */
+  async processAnalysisRun(runId: number, finalAttempt = true): Promise<void> {
+    try {
+      await this.executeAnalysisRun(runId);
+    } catch (error) {
+      if (!finalAttempt) {
+        throw error;
+      }
+      await this.failAnalysisRun(runId, error instanceof Error ? error.message : 'Analysis run failed');
+    }
+  }
+
+  /**
+   * Returns the status and per-resume progress of a run owned by the user
+   *
+   * @param userId - User requesting the run
+   * @param runId - Run ID
+   * @returns Result containing the run view or error
+   */
+  async getAnalysisRun(
+    userId: string,
+    runId: number
+  ): Promise<MatchAnalysisResult<AnalysisRunView>> {
+    try {
+      const run = await this._storageProvider.getAnalysisRun(runId);
+      if (!run || run.userId !== userId) {
+        return failure(new AppNotFoundError('Analysis run', runId));
+      }
+
+      const items = await this._storageProvider.getAnalysisRunItems(runId);
+      return success(toAnalysisRunView(run, items));
+    } catch (error) {
+      logger.error('Failed to load analysis run', {
+        userId,
+        runId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return failure(AppExternalServiceError.databaseFailure(
+        'get_analysis_run',
+        error instanceof Error ? error.message : 'Failed to load analysis run'
+      ));
+    }
+  }
+
+  /**
+   * Returns the results finished so far for a run, in the same shape as the
+   * synchronous batch endpoint, plus the resumes that failed
+   *
+   * @param userId - User requesting the results
+   * @param runId - Run ID
+   * @returns Result containing partial or final results or error
+   */
+  async getAnalysisRunResults(
+    userId: string,
+    runId: number
+  ): Promise<MatchAnalysisResult<AnalysisRunResults>> {
+    const runResult = await this.getAnalysisRun(userId, runId);
+    if (isFailure(runResult)) {
+      return runResult;
+    }
+
+    try {
+      const items = await this._storageProvider.getAnalysisRunItems(runId);
+      const results = collectRunResults(items)
+        .filter(result => !result.error)
+        .sort((a, b) => (b.matchPercentage || 0) - (a.matchPercentage || 0));
+      const failures = items
+        .filter(item => item.status === 'failed')
+        .map(item => ({ resumeId: item.resumeId, error: item.error || 'Analysis failed' }));
+
+      return success({
+        ...runResult.data,
+        results,
+        failures,
+        statistics: calculateBatchStatistics(collectRunResults(items))
+      });
+    } catch (error) {
+      logger.error('Failed to load analysis run results', {
+        userId,
+        runId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return failure(AppExternalServiceError.databaseFailure(
+        'get_analysis_run_results',
+        error instanceof Error ? error.message : 'Failed to load analysis run results'
+      ));
+    }
+  }
+
+  /**
+   * Analyzes a single resume against a job description
+   * 
+   * @param input - Single analysis parameters
+   * @returns Result containing analysis result or error
+   */
+  async analyzeSingleResume(
+    input: AnalyzeSingleResumeInput
+  ): Promise<MatchAnalysisResult<SingleAnalysisResult>> {
+    const { userId, jobId, resumeId } = input;
+    const startTime = Date.now();
+
+    logger.info('Starting single resume analysis', { userId, jobId, resumeId });
+
+    // Get resume and job
+    const [resume, jobDescription] = await Promise.all([
+      this._storageProvider.getResumeById(resumeId, userId),
+      this._storageProvider.getJobDescriptionById(jobId, userId)
+    ]);
+
+    if (!resume) {
+      return failure(AppNotFoundError.resume(resumeId));
+    }
+
+    if (!jobDescription) {
+      return failure(AppNotFoundError.jobDescription(jobId));
+    }
+
+    const permissionResult = await this.checkAnalyzePermission(userId, resume, jobDescription);
+    if (isFailure(permissionResult)) {
+      return permissionResult;
+    }
+
+    // Check if analysis already exists
+    const existingAnalysis = await this._storageProvider.getAnalysisResultByJobAndResume(
+      jobId, 
+      resumeId, 
+      userId
+    );
+
+    if (existingAnalysis && !isAnalysisStale(existingAnalysis, jobDescription)) {
+      logger.info('Found existing analysis', { analysisId: existingAnalysis.id });
+      
+      return success({
+        resumeId,
+        jobId,
+        match: {
+          matchPercentage: existingAnalysis.matchPercentage || 0,
+          matchedSkills: existingAnalysis.matchedSkills || [],
+          missingSkills: existingAnalysis.missingSkills || [],
+          candidateStrengths: existingAnalysis.candidateStrengths || [],
+          candidateWeaknesses: existingAnalysis.candidateWeaknesses || [],
+          confidenceLevel: existingAnalysis.confidenceLevel || 'low',
+          fairnessMetrics: existingAnalysis.fairnessMetrics || undefined
+        },
+        analysisId: existingAnalysis.id,
+        processingTime: Date.now() - startTime
+      });
+    }
+
+    // Perform new analysis (similar to batch logic)
+    const _userTierInfo = getUserTierInfo(userId);
+    
+    // This would use the same analysis logic as the batch method
+    // For brevity, returning a placeholder - in practice, extract common analysis logic
+    logger.info('Would perform new single analysis here');
+    
+    return failure(AppBusinessLogicError.incompatibleAnalysis());
+  }
+
+  /**
+   * Ranks the user's job descriptions by fit for one resume. Stored
+   * embeddings shortlist the jobs cheaply; only the top `limit` jobs get a
+   * hybrid analysis, reusing a stored analysis when it is newer than the job
+   * and not stale.
+   *
+   * @param input - Resume and shortlist size
+   * @returns Result containing the ranked jobs or error
+   */
+  async matchJobsForResume(
+    input: MatchJobsForResumeInput
+  ): Promise<MatchAnalysisResult<ResumeJobMatchesResult>> {
+    const { userId, resumeId } = input;
+    const limit = Math.min(Math.max(1, input.limit ?? DEFAULT_MATCHING_JOBS_LIMIT), MAX_MATCHING_JOBS_LIMIT);
+    const startTime = Date.now();
+
+    const resume = await this._storageProvider.getResumeById(resumeId, userId);
+    if (!resume) {
+      return failure(AppNotFoundError.resume(resumeId));
+    }
+
+    const permissionResult = await this.checkItemPermission(userId, resume, 'analyze', 'resume');
+    if (isFailure(permissionResult)) {
+      return permissionResult;
+    }
+
+    const [jobs, storedResults] = await Promise.all([
+      this._storageProvider.getJobDescriptionsByUserId(userId),
+      this._storageProvider.getAnalysisResultsByResumeId(resumeId)
+    ]);
+    const shortlist = prefilterJobsForResume(resume, jobs).slice(0, limit);
+
+    logger.info('Matching jobs for resume', {
+      userId,
+      resumeId,
+      totalJobs: jobs.length,
+      shortlisted: shortlist.map(candidate => ({ jobId: candidate.job.id, score: candidate.score, method: candidate.method }))
+    });
+
+    const userTierInfo = getUserTierInfo(userId);
+    const matches = await mapWithConcurrency(shortlist, ANALYSIS_RUN_CONCURRENCY, candidate => {
+      const stored = storedResults.find(result =>
+        result.jobDescriptionId === candidate.job.id &&
+        result.userId === userId &&
+        !isAnalysisStale(result, candidate.job) &&
+        (!candidate.job.updatedAt || !result.createdAt || result.createdAt >= candidate.job.updatedAt)
+      );
+      return withLlmUsageContext({ userId, jobId: candidate.job.id }, () =>
+        this.matchResumeToJob(userId, resume, candidate, stored, userTierInfo)
+      );
+    });
+
+    matches.sort((a, b) => (b.matchPercentage ?? -1) - (a.matchPercentage ?? -1));
+
+    return success({
+      resumeId,
+      totalJobs: jobs.length,
+      matches,
+      processingTime: Date.now() - startTime
+    });
   }
 
   /**
@@ -564,6 +917,11 @@ export class AnalysisService {
       return failure(AppNotFoundError.jobDescription(jobId));
     }
 
+    const permissionResult = await this.checkItemPermission(userId, jobDescription, 'read', 'job description');
+    if (isFailure(permissionResult)) {
+      return permissionResult;
+    }
+
     // Get analysis results
     const analysisResults = await this._storageProvider.getAnalysisResultsByJob(
       jobId,
@@ -651,24 +1009,38 @@ export class AnalysisService {
       return failure(AppNotFoundError.analysisResult(jobId));
     }
 
-    // Format results
-    const formattedResults = analysisResults.map(result => ({
-      resumeId: result.resumeId as number, // Ensure it's always a number
-      filename: String((result as any).resume?.filename || `Resume ${result.resumeId}`),
-      candidateName: String((result as any).resume?.filename?.replace(/\.[^/.]+$/, "") || `Candidate ${result.resumeId}`),
-      matchPercentage: result.matchPercentage || 0,
-      matchedSkills: (result.matchedSkills || []).map((skill: string | SkillMatch) => 
-        typeof skill === 'string' 
-          ? { skill, matchPercentage: 85, category: 'general', importance: 'nice-to-have' as const, source: 'inferred' as const }
-          : skill
-      ),
-      missingSkills: result.missingSkills || [],
-      candidateStrengths: result.candidateStrengths || [],
-      candidateWeaknesses: result.candidateWeaknesses || [],
-      recommendations: result.recommendations || [] as string[],
-      confidenceLevel: result.confidenceLevel || 'low' as const,
-      analysisId: result.id || null
-    }));
+    // Format results (blind review jobs hide names, including in generated
+    // text from analyses that ran before blind review was switched on)
+    const formattedResults = analysisResults.map(result => {
+      const resume = (result as any).resume as Resume | undefined;
+      const scrub = (texts: string[]) => jobDescription.blindReview
+        ? texts.map(text => redactCandidateName(text, resume?.analyzedData?.name))
+        : texts;
+
+      return {
+        resumeId: result.resumeId as number, // Ensure it's always a number
+        filename: jobDescription.blindReview
+          ? blindCandidateLabel(result.resumeId as number)
+          : String(resume?.filename || `Resume ${result.resumeId}`),
+        candidateName: jobDescription.blindReview
+          ? blindCandidateLabel(result.resumeId as number)
+          : String(resume?.filename?.replace(/\.[^/.]+$/, "") || `Candidate ${result.resumeId}`),
+        matchPercentage: result.matchPercentage || 0,
+        matchedSkills: (result.matchedSkills || []).map((skill: string | SkillMatch) => 
+          typeof skill === 'string' 
+            ? { skill, matchPercentage: 85, category: 'general', importance: 'nice-to-have' as const, source: 'inferred' as const }
+            : skill
+        ),
+        missingSkills: result.missingSkills || [],
+        candidateStrengths: scrub(result.candidateStrengths || []),
+        candidateWeaknesses: scrub(result.candidateWeaknesses || []),
+        recommendations: scrub(result.recommendations || [] as string[]),
+        confidenceLevel: result.confidenceLevel || 'low' as const,
+        analysisId: result.id || null,
+        jobVersion: result.jobVersion,
+        stale: isAnalysisStale(result, jobDescription)
+      };
+    });
 
     // Sort by match percentage
     formattedResults.sort((a, b) => b.matchPercentage - a.matchPercentage);
@@ -693,6 +1065,46 @@ export class AnalysisService {
     });
   }
 
+  /**
+   * Renders a job's stored analysis results as a CSV, XLSX or PDF report.
+   * Unlike getAnalysisResults, this never starts a new analysis.
+   *
+   * @param input - Export parameters
+   * @returns Result containing the file content or error
+   */
+  async exportAnalysisResults(
+    input: ExportAnalysisResultsInput
+  ): Promise<MatchAnalysisResult<RenderedAnalysisExport>> {
+    const { userId, jobId, format, sessionId, batchId } = input;
+    logger.info('Exporting analysis results', { userId, jobId, format, sessionId, batchId });
+
+    const jobDescription = await this._storageProvider.getJobDescriptionById(jobId, userId);
+    if (!jobDescription) {
+      return failure(AppNotFoundError.jobDescription(jobId));
+    }
+
+    const permissionResult = await this.checkItemPermission(userId, jobDescription, 'read', 'job description');
+    if (isFailure(permissionResult)) {
+      return permissionResult;
+    }
+
+    const analysisResults = await this._storageProvider.getAnalysisResultsByJob(jobId, userId, sessionId, batchId);
+    if (!analysisResults || analysisResults.length === 0) {
+      return failure(AppNotFoundError.analysisResult(jobId));
+    }
+
+    const report = buildAnalysisExportReport(jobDescription, analysisResults);
+    const rendered = await renderAnalysisExport(report, format);
+
+    logger.info('Analysis export rendered', {
+      jobId,
+      format,
+      rows: report.rows.length,
+      bytes: rendered.content.length
+    });
+    return success(rendered);
+  }
+
   /**
    * Generates interview questions for a resume-job pair
    * 
@@ -702,9 +1114,21 @@ export class AnalysisService {
   async generateInterviewQuestions(
     input: GenerateInterviewQuestionsInput
   ): Promise<MatchAnalysisResult<any>> {
-    const { userId, resumeId, jobId, sessionId } = input;
+    return withLlmUsageContext({ userId: input.userId, jobId: input.jobId }, () =>
+      this.runInterviewQuestionGeneration(input)
+    );
+  }
+
+  /**
+   * Interview question generation body, run inside an LLM usage context
+   * @private
+   */
+  private async runInterviewQuestionGeneration(
+    input: GenerateInterviewQuestionsInput
+  ): Promise<MatchAnalysisResult<any>> {
+    const { userId, resumeId, jobId, sessionId, regenerate } = input;
 
-    logger.info('Generating interview questions', { userId, resumeId, jobId, sessionId });
+    logger.info('Generating interview questions', { userId, resumeId, jobId, sessionId, regenerate });
 
     // Get resume and job
     const [resume, jobDescription] = await Promise.all([
@@ -720,14 +1144,40 @@ export class AnalysisService {
       return failure(AppNotFoundError.jobDescription(jobId));
     }
 
+    const permissionResult = await this.checkAnalyzePermission(userId, resume, jobDescription);
+    if (isFailure(permissionResult)) {
+      return permissionResult;
+    }
+
     try {
+      // Interviewers score against a stored set, so every panel member sees the same questions
+      if (!regenerate) {
+        const stored = await this._storageProvider.getInterviewQuestionByResumeAndJob(resumeId, jobId);
+        if (stored?.questions?.length && stored.metadata) {
+          return success({
+            id: stored.id,
+            resumeId,
+            jobId,
+            questions: stored.questions,
+            metadata: stored.metadata
+          });
+        }
+      }
+
       // Get user tier info
       const userTierInfo = getUserTierInfo(userId);
 
+      // Blind review: the question generator only sees the anonymized resume
+      const blind = jobDescription.blindReview
+        ? this.prepareBlindResume(resume, jobId, userId)
+        : null;
+      const candidateLabel = blind ? blind.candidateLabel : resume.filename;
+
       // Get or ensure analysis data
-      let resumeAnalysis = resume.analyzedData;
-      if (!resumeAnalysis && resume.content) {
-        const resumeResult = await analyzeResumeWithCache(resume.content, userTierInfo);
+      let resumeAnalysis = blind ? blind.analyzedData : resume.analyzedData;
+      const resumeContent = blind ? blind.content : resume.content;
+      if (!resumeAnalysis && resumeContent) {
+        const resumeResult = await analyzeResumeWithCache(resumeContent, userTierInfo);
         if (isSuccess(resumeResult)) {
           resumeAnalysis = resumeResult.data.analyzedData;
         }
@@ -755,7 +1205,7 @@ export class AnalysisService {
       // Convert AnalyzedResumeData to AnalyzeResumeResponse format for the function
       const resumeResponse: AnalyzeResumeResponse = {
         id: resumeId as ResumeId,
-        filename: resume.filename,
+        filename: candidateLabel,
         analyzedData: resumeAnalysis,
         processingTime: 0,
         confidence: 0.8
@@ -776,8 +1226,8 @@ export class AnalysisService {
         jobId: jobId as JobId,
         results: [{
           resumeId: resumeId as ResumeId,
-          filename: resume.filename,
-          candidateName: resume.filename.replace(/\.[^/.]+$/, ''),
+          filename: candidateLabel,
+          candidateName: candidateLabel.replace(/\.[^/.]+$/, ''),
           matchPercentage: 75, // Placeholder
           matchedSkills: [],
           missingSkills: [],
@@ -817,18 +1267,27 @@ export class AnalysisService {
         questionsCount: questions?.questions?.length || 0
       });
 
-      return success({
+      const questionSet = await this._storageProvider.createInterviewQuestions({
+        userId,
         resumeId,
-        jobId,
+        jobDescriptionId: jobId,
         questions: questions?.questions || [],
         metadata: {
           estimatedDuration: Math.max(30, (questions?.questions?.length || 0) * 5), // 5 minutes per question
-          difficulty: 'medium' as const,
+          difficulty: 'mid',
           focusAreas: jobAnalysis?.requiredSkills?.slice(0, 5) || [],
-          interviewType: 'video' as const
+          interviewType: 'video'
         }
       });
 
+      return success({
+        id: questionSet.id,
+        resumeId,
+        jobId,
+        questions: questionSet.questions || [],
+        metadata: questionSet.metadata
+      });
+
     } catch (error) {
       logger.error('Interview question generation failed', {
         userId,
@@ -855,6 +1314,18 @@ export class AnalysisService {
    */
   async analyzeBias(
     input: AnalyzeBiasInput
+  ): Promise<MatchAnalysisResult<any>> {
+    return withLlmUsageContext({ userId: input.userId, jobId: input.jobId }, () =>
+      this.runBiasAnalysis(input)
+    );
+  }
+
+  /**
+   * Bias analysis body, run inside an LLM usage context
+   * @private
+   */
+  private async runBiasAnalysis(
+    input: AnalyzeBiasInput
   ): Promise<MatchAnalysisResult<any>> {
     const { userId, jobId } = input;
 
@@ -866,6 +1337,11 @@ export class AnalysisService {
       return failure(AppNotFoundError.jobDescription(jobId));
     }
 
+    const permissionResult = await this.checkItemPermission(userId, jobDescription, 'analyze', 'job description');
+    if (isFailure(permissionResult)) {
+      return permissionResult;
+    }
+
     try {
       // Get user tier info
       const userTierInfo = getUserTierInfo(userId);
@@ -894,6 +1370,13 @@ export class AnalysisService {
         biasTypes: biasResult?.biasTypes?.length || 0
       });
 
+      emitWebhookEvent(userId, 'bias.analysis.completed', {
+        jobId,
+        hasBias: biasResult?.hasBias || false,
+        overallBiasScore: biasResult?.overallScore || 0,
+        biasTypes: biasResult?.biasTypes || []
+      });
+
       return success({
         jobId,
         biasAnalysis: biasResult,
@@ -921,6 +1404,615 @@ export class AnalysisService {
 
   // ===== PRIVATE HELPER METHODS =====
 
+  /**
+   * Anonymizes a resume for a blind-review job and records the redactions
+   * in the audit trail
+   * @private
+   */
+  private prepareBlindResume(resume: Resume, jobId: number, userId: string): BlindResume {
+    const blind = redactResumeForBlindReview(resume);
+
+    logger.info('Applied blind review redactions', {
+      jobId,
+      resumeId: resume.id,
+      categories: blind.redactions.categories,
+      total: blind.redactions.total
+    });
+
+    const audit = createRedactionAudit({
+      jobId,
+      resumeId: resume.id,
+      actorId: userId,
+      target: 'llm_prompt',
+      redactions: {
+        categories: blind.redactions.categories,
+        counts: blind.redactions.counts as Record<string, number>,
+        total: blind.redactions.total
+      },
+      originalText: resume.content || '',
+      redactedText: blind.content
+    });
+
+    // Persist asynchronously - audit failures must not block analysis
+    persistRedactionAudit(audit).catch(error => {
+      logger.error('Failed to persist redaction audit:', error);
+    });
+
+    return blind;
+  }
+
+  /**
+   * Analyzes one resume against a prepared job. Never throws: failures are
+   * returned as a result entry with an error so one bad resume does not sink
+   * the batch.
+   * @private
+   */
+  private async analyzeResumeForJob(
+    resume: Resume,
+    context: BatchAnalysisContext
+  ): Promise<BatchAnalysisResultItem> {
+    const { userId, jobId, jobDescription, jobAnalysis, userTierInfo } = context;
+    const resumeStartTime = Date.now();
+    
+    // Blind review: anonymize before anything reaches an LLM prompt or the results
+    const blind = jobDescription.blindReview
+      ? this.prepareBlindResume(resume, jobId, userId)
+      : null;
+    const resumeContent = blind ? blind.content : (resume.content || "");
+    const storedAnalysis = blind ? blind.analyzedData : resume.analyzedData;
+    const candidateName = blind ? blind.candidateLabel : resume.filename.replace(/\.[^/.]+$/, "");
+    const filename = blind ? blind.candidateLabel : resume.filename;
+
+    try {
+      // Get or create resume analysis
+      let resumeAnalysisResponse;
+      if (storedAnalysis) {
+        // Reconstruct full AnalyzeResumeResponse from database data
+        resumeAnalysisResponse = {
+          id: resume.id,
+          filename,
+          analyzedData: storedAnalysis,
+          processingTime: 0,
+          confidence: 0.8,
+          // Add backward compatibility properties from analyzedData
+          skills: storedAnalysis.skills || [],
+          experience: storedAnalysis.experience || "",
+          education: storedAnalysis.education || [],
+          summary: storedAnalysis.summary || "",
+          keyStrengths: storedAnalysis.keyStrengths || []
+        };
+      } else if (resumeContent) {
+        const resumeResult = await analyzeResumeWithCache(resumeContent, userTierInfo);
+        
+        if (isFailure(resumeResult)) {
+          logger.error('Resume analysis failed', {
+            resumeId: resume.id,
+            error: resumeResult.error.message
+          });
+          throw new Error(resumeResult.error.message);
+        }
+        
+        resumeAnalysisResponse = resumeResult.data;
+        
+        // Update resume with analysis (an analysis of redacted text must not
+        // replace the resume's own analysis used by non-blind jobs)
+        if (!blind) {
+          try {
+            await this._storageProvider.updateResumeAnalysis(resume.id, resumeAnalysisResponse);
+          } catch (error) {
+            logger.error('Failed to update resume analysis', { resumeId: resume.id, error });
+            // Continue - not critical
+          }
+        }
+      }
+
+      // Perform hybrid matching analysis
+      // Convert jobAnalysis back to full AnalyzeJobDescriptionResponse format
+      const jobAnalysisResponse = {
+        id: jobId,
+        title: jobDescription.title,
+        analyzedData: jobAnalysis,
+        processingTime: 0,
+        confidence: 0.8,
+        // Add backward compatibility properties from analyzedData
+        requiredSkills: jobAnalysis?.requiredSkills || [],
+        preferredSkills: jobAnalysis?.preferredSkills || [],
+        experienceLevel: jobAnalysis?.experienceLevel || "",
+        responsibilities: jobAnalysis?.responsibilities || [],
+        summary: jobAnalysis?.summary || "",
+        biasAnalysis: jobAnalysis?.biasAnalysis
+      };
+      
+      const hybridResult = await analyzeMatchHybrid(
+        resumeAnalysisResponse as any,
+        jobAnalysisResponse as any,
+        userTierInfo,
+        resumeContent,
+        jobDescription.description,
+        jobDescription.scoringConfig,
+        { userId, jobId, resumeId: resume.id }
+      );
+
+      if (isFailure(hybridResult)) {
+        logger.error('Hybrid analysis failed', {
+          resumeId: resume.id,
+          error: hybridResult.error.message
+        });
+        throw new Error(hybridResult.error.message);
+      }
+
+      const matchData = hybridResult.data;
+
+      // Store analysis result
+      const analysisResult = await this._storageProvider.createAnalysisResult({
+        userId,
+        resumeId: resume.id,
+        jobDescriptionId: jobId,
+        jobVersion: jobDescription.version,
+        matchPercentage: matchData.matchPercentage,
+        matchedSkills: matchData.matchedSkills,
+        missingSkills: matchData.missingSkills,
+        analysis: matchData,
+        candidateStrengths: matchData.candidateStrengths,
+        candidateWeaknesses: matchData.candidateWeaknesses,
+        confidenceLevel: matchData.confidenceLevel,
+        fairnessMetrics: matchData.fairnessMetrics,
+        semanticSimilarity: matchData.scoringDimensions?.semantic || null,
+        skillsSimilarity: matchData.scoringDimensions?.skills || null,
+        experienceSimilarity: matchData.scoringDimensions?.experience || null,
+        educationSimilarity: matchData.scoringDimensions?.education || null,
+        mlConfidenceScore: matchData.confidence || null,
+        scoringDimensions: matchData.scoringDimensions || null,
+        recommendations: matchData.recommendations || []
+      });
+
+      const processingTime = Date.now() - resumeStartTime;
+      logger.info('Resume analysis completed', {
+        resumeId: resume.id,
+        matchPercentage: matchData.matchPercentage,
+        processingTime
+      });
+
+      return {
+        resumeId: resume.id,
+        filename,
+        candidateName,
+        matchPercentage: matchData.matchPercentage,
+        matchedSkills: matchData.matchedSkills || [],
+        missingSkills: matchData.missingSkills || [],
+        candidateStrengths: matchData.candidateStrengths || [],
+        candidateWeaknesses: matchData.candidateWeaknesses || [],
+        recommendations: matchData.recommendations || [],
+        confidenceLevel: matchData.confidenceLevel,
+        analysisId: analysisResult.id,
+        jobVersion: jobDescription.version,
+        stale: false
+      };
+
+    } catch (error) {
+      const processingTime = Date.now() - resumeStartTime;
+      logger.error('Resume analysis failed', {
+        resumeId: resume.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        processingTime
+      });
+
+      return {
+        resumeId: resume.id,
+        filename,
+        candidateName,
+        matchPercentage: 0,
+        matchedSkills: [],
+        missingSkills: [],
+        candidateStrengths: [],
+        candidateWeaknesses: [
+          `Analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        ],
+        recommendations: [],
+        confidenceLevel: 'low' as const,
+        analysisId: null,
+        error: error instanceof Error ? error.message : 'Analysis failed'
+      };
+    }
+  }
+
+  /**
+   * Full match of one shortlisted job for reverse matching
+   * @private
+   */
+  private async matchResumeToJob(
+    userId: string,
+    resume: Resume,
+    candidate: JobPrefilterResult,
+    stored: AnalysisResult | undefined,
+    userTierInfo: ReturnType<typeof getUserTierInfo>
+  ): Promise<ResumeJobMatchesResult['matches'][number]> {
+    const { job } = candidate;
+    const base = {
+      jobId: job.id,
+      title: job.title,
+      prefilterScore: candidate.score,
+      prefilterMethod: candidate.method
+    };
+
+    if (stored) {
+      return {
+        ...base,
+        matchPercentage: stored.matchPercentage,
+        confidenceLevel: stored.confidenceLevel || 'low',
+        matchedSkills: stored.matchedSkills || [],
+        missingSkills: stored.missingSkills || [],
+        candidateStrengths: stored.candidateStrengths || [],
+        candidateWeaknesses: stored.candidateWeaknesses || [],
+        analysisId: stored.id,
+        cached: true
+      };
+    }
+
+    const jobAnalysisResult = await this.ensureJobAnalysis(job.id, job, userTierInfo);
+    if (isFailure(jobAnalysisResult)) {
+      return {
+        ...base,
+        matchPercentage: null,
+        confidenceLevel: 'low',
+        matchedSkills: [],
+        missingSkills: [],
+        candidateStrengths: [],
+        candidateWeaknesses: [],
+        analysisId: null,
+        cached: false,
+        error: `Job analysis failed: ${jobAnalysisResult.error.message}`
+      };
+    }
+
+    const result = await this.analyzeResumeForJob(resume, {
+      userId,
+      jobId: job.id,
+      jobDescription: job,
+      jobAnalysis: jobAnalysisResult.data,
+      userTierInfo
+    });
+
+    return {
+      ...base,
+      matchPercentage: result.error ? null : result.matchPercentage,
+      confidenceLevel: result.confidenceLevel,
+      matchedSkills: result.matchedSkills,
+      missingSkills: result.missingSkills,
+      candidateStrengths: result.candidateStrengths,
+      candidateWeaknesses: result.candidateWeaknesses,
+      analysisId: result.analysisId,
+      cached: false,
+      ...(result.error ? { error: result.error } : {})
+    };
+  }
+
+  /**
+   * Shared jobs and resumes are visible to every member of their
+   * organization; analyzing one needs the matching role permission
+   * @private
+   */
+  private async checkItemPermission(
+    userId: string,
+    item: ShareableItem,
+    permission: OrganizationPermission,
+    resource: string
+  ): Promise<MatchAnalysisResult<true>> {
+    const allowed = await createOrganizationService(this._storageProvider)
+      .hasItemPermission(userId, item, permission);
+    return allowed
+      ? success(true)
+      : failure(AppAuthenticationError.insufficientPermissions(resource, userId));
+  }
+
+  /**
+   * Checks the user may analyze both sides of a resume-job pair
+   * @private
+   */
+  private async checkAnalyzePermission(
+    userId: string,
+    resume: Resume,
+    jobDescription: JobDescription
+  ): Promise<MatchAnalysisResult<true>> {
+    const resumeResult = await this.checkItemPermission(userId, resume, 'analyze', 'resume');
+    if (isFailure(resumeResult)) {
+      return resumeResult;
+    }
+    return this.checkItemPermission(userId, jobDescription, 'analyze', 'job description');
+  }
+
+  /**
+   * Loads the job and the resumes a batch request refers to
+   * @private
+   */
+  private async resolveBatchTarget(
+    input: AnalyzeResumesBatchInput
+  ): Promise<MatchAnalysisResult<{ jobDescription: JobDescription; resumes: Resume[]; skippedDuplicates: number[] }>> {
+    const { userId, jobId, sessionId, batchId, resumeIds, skipDuplicates = false } = input;
+
+    // Get job description
+    const jobDescription = await this._storageProvider.getJobDescriptionById(jobId, userId);
+    if (!jobDescription) {
+      return failure(AppNotFoundError.jobDescription(jobId));
+    }
+
+    const permissionResult = await this.checkItemPermission(userId, jobDescription, 'analyze', 'job description');
+    if (isFailure(permissionResult)) {
+      return permissionResult;
+    }
+
+    // Get user's resumes
+    let resumes = await this._storageProvider.getResumesByUserId(userId, sessionId, batchId);
+    
+    // Check for session/batch ID issues
+    if ((!resumes || resumes.length === 0) && (sessionId || batchId)) {
+      logger.warn('No resumes found with session/batch filters - session may be expired or invalid', { 
+        userId, 
+        jobId, 
+        sessionId, 
+        batchId,
+        message: 'User needs to refresh and start new session'
+      });
+      return failure(AppBusinessLogicError.sessionExpiredOrInvalid(sessionId, batchId));
+    }
+    
+    // Check if user has any resumes at all
+    if (!resumes || resumes.length === 0) {
+      return failure(AppNotFoundError.resume('any'));
+    }
+
+    // Filter by specific resume IDs if provided
+    if (resumeIds && resumeIds.length > 0) {
+      resumes = resumes.filter(resume => resumeIds.includes(resume.id));
+      if (resumes.length === 0) {
+        return failure(AppNotFoundError.resume('specified IDs'));
+      }
+    }
+
+    // Copies of a candidate already in the batch would be analyzed and billed twice
+    const skippedDuplicates = skipDuplicates
+      ? resumes.filter(isKnownDuplicate).map(resume => resume.id)
+      : [];
+    if (skippedDuplicates.length > 0) {
+      resumes = resumes.filter(resume => !isKnownDuplicate(resume));
+      logger.info('Skipping known duplicate resumes', { userId, jobId, skippedDuplicates });
+      if (resumes.length === 0) {
+        return failure(new AppValidationError('All selected resumes are known duplicates', 'resumeIds'));
+      }
+    }
+
+    return success({ jobDescription, resumes, skippedDuplicates });
+  }
+
+  /**
+   * Notifies webhook subscribers that a batch finished (ids and scores only,
+   * no candidate details)
+   * @private
+   */
+  private notifyAnalysisCompleted(summary: {
+    userId: string;
+    jobId: number;
+    sessionId?: string;
+    batchId?: string;
+    analysisId: string;
+    runId?: number;
+    statistics: BatchAnalysisResult['statistics'];
+    results: BatchAnalysisResultItem[];
+  }): void {
+    const { userId, jobId, sessionId, batchId, analysisId, runId, statistics, results } = summary;
+
+    emitWebhookEvent(userId, 'analysis.completed', {
+      analysisId,
+      ...(runId !== undefined && { runId }),
+      jobId,
+      statistics,
+      results: results.map(r => ({
+        resumeId: r.resumeId,
+        analysisId: r.analysisId,
+        matchPercentage: r.matchPercentage,
+        failed: !!r.error
+      }))
+    });
+    if (batchId) {
+      emitWebhookEvent(userId, 'batch.completed', {
+        batchId,
+        sessionId: sessionId ?? null,
+        jobId,
+        analysisId,
+        statistics
+      });
+    }
+  }
+
+  /**
+   * Hands a run to the AI analysis queue, or processes it in-process when the
+   * queue is not available
+   * @private
+   */
+  private async enqueueAnalysisRun(runId: number): Promise<void> {
+    // Loaded lazily so importing this service does not open a Redis connection
+    const { queueManager } = await import('../lib/queue-manager');
+    if (queueManager.isReady()) {
+      try {
+        const queuedJobId = await queueManager.addJob('AI_ANALYSIS', ANALYSIS_RUN_JOB_TYPE, { runId }, {
+          jobId: `analysis-run-${runId}`,
+        });
+        if (queuedJobId) {
+          return;
+        }
+      } catch (error) {
+        logger.warn('Failed to queue analysis run, processing in-process', { runId, error });
+      }
+    }
+
+    setImmediate(() => {
+      this.processAnalysisRun(runId).catch(error => {
+        logger.error('In-process analysis run failed', { runId, error });
+      });
+    });
+  }
+
+  /**
+   * Processes a run's unfinished items and records the outcome
+   * @private
+   */
+  private async executeAnalysisRun(runId: number): Promise<void> {
+    const storage = this._storageProvider;
+    const run = await storage.getAnalysisRun(runId);
+    if (!run) {
+      logger.warn('Analysis run not found, skipping', { runId });
+      return;
+    }
+    if (run.status === 'completed' || run.status === 'failed') {
+      return;
+    }
+
+    await withLlmUsageContext({ userId: run.userId, jobId: run.jobDescriptionId }, () =>
+      this.processAnalysisRunItems(run)
+    );
+  }
+
+  /**
+   * Analyzes the unfinished items of a loaded run
+   * @private
+   */
+  private async processAnalysisRunItems(run: AnalysisRun): Promise<void> {
+    const storage = this._storageProvider;
+    const runId = run.id;
+    const startTime = Date.now();
+    const { userId, jobDescriptionId: jobId } = run;
+
+    const reporter = createBatchAnalysisReporter({
+      batchId: run.batchId,
+      jobId,
+      runId,
+      total: run.totalResumes,
+      completed: run.completedResumes,
+      failed: run.failedResumes
+    });
+
+    const jobDescription = await storage.getJobDescriptionById(jobId, userId);
+    if (!jobDescription) {
+      await this.failAnalysisRun(runId, `Job description ${jobId} no longer exists`);
+      reporter.failed(`Job description ${jobId} no longer exists`);
+      return;
+    }
+
+    // The user's role may have changed while the run was queued
+    if (isFailure(await this.checkItemPermission(userId, jobDescription, 'analyze', 'job description'))) {
+      await this.failAnalysisRun(runId, `No permission to analyze job description ${jobId}`);
+      reporter.failed(`No permission to analyze job description ${jobId}`);
+      return;
+    }
+
+    await storage.updateAnalysisRun(runId, {
+      status: 'running',
+      startedAt: run.startedAt ?? new Date()
+    });
+
+    const userTierInfo = getUserTierInfo(userId);
+    const jobAnalysisResult = await this.ensureJobAnalysis(jobId, jobDescription, userTierInfo);
+    if (isFailure(jobAnalysisResult)) {
+      await this.failAnalysisRun(runId, `Job analysis failed: ${jobAnalysisResult.error.message}`);
+      reporter.failed(`Job analysis failed: ${jobAnalysisResult.error.message}`);
+      return;
+    }
+
+    const context: BatchAnalysisContext = {
+      userId,
+      jobId,
+      jobDescription,
+      jobAnalysis: jobAnalysisResult.data,
+      userTierInfo
+    };
+
+    const unfinished = (await storage.getAnalysisRunItems(runId))
+      .filter(item => !isAnalysisRunItemFinished(item.status));
+    reporter.started();
+
+    await mapWithConcurrency(unfinished, ANALYSIS_RUN_CONCURRENCY, async (item) => {
+      await storage.updateAnalysisRunItem(item.id, { status: 'running', startedAt: new Date() });
+
+      const resume = await storage.getResumeById(item.resumeId, userId);
+      const allowed = !!resume && isSuccess(await this.checkItemPermission(userId, resume, 'analyze', 'resume'));
+      const result = resume && allowed ? await this.analyzeResumeForJob(resume, context) : null;
+      const error = result
+        ? result.error
+        : resume ? 'No permission to analyze resume' : 'Resume no longer exists';
+
+      await storage.updateAnalysisRunItem(item.id, {
+        status: error ? 'failed' : 'completed',
+        analysisResultId: result?.analysisId ?? null,
+        result: result as unknown as Record<string, unknown> | null,
+        error: error ?? null,
+        completedAt: new Date()
+      });
+      await this.refreshAnalysisRunCounters(runId);
+      reporter.resumeFinished({
+        resumeId: item.resumeId,
+        analysisId: result?.analysisId ?? null,
+        matchPercentage: result?.matchPercentage ?? null,
+        error
+      });
+    });
+
+    const items = await storage.getAnalysisRunItems(runId);
+    const progress = summarizeAnalysisRun(items);
+    await storage.updateAnalysisRun(runId, {
+      status: resolveAnalysisRunStatus(items),
+      completedResumes: progress.completed,
+      failedResumes: progress.failed,
+      completedAt: new Date()
+    });
+
+    const results = collectRunResults(items);
+    const statistics = calculateBatchStatistics(results);
+
+    logger.info('Analysis run completed', {
+      runId,
+      jobId,
+      userId,
+      ...statistics,
+      processingTime: Date.now() - startTime
+    });
+
+    this.notifyAnalysisCompleted({
+      userId,
+      jobId,
+      sessionId: run.sessionId ?? undefined,
+      batchId: run.batchId ?? undefined,
+      analysisId: String(runId),
+      runId,
+      statistics,
+      results
+    });
+  }
+
+  /**
+   * Recomputes run counters from its items so pollers see live progress
+   * @private
+   */
+  private async refreshAnalysisRunCounters(runId: number): Promise<void> {
+    const progress = summarizeAnalysisRun(await this._storageProvider.getAnalysisRunItems(runId));
+    await this._storageProvider.updateAnalysisRun(runId, {
+      completedResumes: progress.completed,
+      failedResumes: progress.failed
+    });
+  }
+
+  /**
+   * Marks a whole run as failed, e.g. when the job could not be analyzed
+   * @private
+   */
+  private async failAnalysisRun(runId: number, error: string): Promise<void> {
+    logger.error('Analysis run failed', { runId, error });
+    await this._storageProvider.updateAnalysisRun(runId, {
+      status: 'failed',
+      error,
+      completedAt: new Date()
+    });
+  }
+
   /**
    * Ensures job description has analysis data
    * @private
@@ -929,8 +2021,8 @@ export class AnalysisService {
     jobId: number,
     jobDescription: any,
     userTierInfo: any
-  ): Promise<MatchAnalysisResult<any>> {
-    let jobAnalysis = jobDescription.analyzedData;
+  ): Promise<MatchAnalysisResult<BatchAnalysisContext['jobAnalysis']>> {
+    let jobAnalysis: BatchAnalysisContext['jobAnalysis'] | null = jobDescription.analyzedData;
     
     if (!jobAnalysis) {
       const jobResult = await analyzeJobDescriptionWithCache(
@@ -1049,4 +2141,22 @@ export class AnalysisService {
  */
 export function createAnalysisService(storageProvider: IStorage): AnalysisService {
   return new AnalysisService(storageProvider);
-}
\ No newline at end of file
+}
+
+// ===== QUEUE WORKER =====
+
+/**
+ * Start the BullMQ worker for asynchronous analysis runs. Item progress is
+ * persisted as it goes, so a retried job resumes where the last one stopped.
+ */
+export async function registerAnalysisRunWorker(): Promise<boolean> {
+  const { queueManager } = await import('../lib/queue-manager');
+  return queueManager.registerWorker('AI_ANALYSIS', async (job: Job) => {
+    if (job.name !== ANALYSIS_RUN_JOB_TYPE) {
+      logger.warn('Ignoring unknown AI analysis job', { jobId: job.id, name: job.name });
+      return;
+    }
+    const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+    await createAnalysisService(getStorage()).processAnalysisRun(job.data.runId, finalAttempt);
+  }, 2); // each run already analyzes ANALYSIS_RUN_CONCURRENCY resumes at a time
+}
\ No newline at end of file
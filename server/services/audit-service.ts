@@ -0,0 +1,116 @@
+/**
+ * BUSINESS LOGIC: Audit Service Layer
+ * Searches the hash-chained audit store and verifies it has not been tampered with
+ *
+ * @fileoverview Analyses and blind review redactions are appended to the
+ * audit_records store by lib/audit-trail. This service backs the admin audit
+ * endpoints: filtered search by user, job, resume hash, provider/model version
+ * and date range, and a full walk of the chain that reports the first record
+ * whose hashes no longer line up.
+ *
+ * @example
+ * ```typescript
+ * const auditService = createAuditService(storage);
+ *
+ * const page = await auditService.searchRecords({ userId: 'user123', provider: 'groq' });
+ * const verification = await auditService.verifyChain();
+ * ```
+ */
+
+import { logger } from '../lib/logger';
+import { getStorage, IStorage } from '../storage';
+import {
+  AUDIT_GENESIS_HASH,
+  verifyAuditChain,
+  type AuditChainVerification
+} from '../lib/audit-chain';
+import {
+  success,
+  failure,
+  DatabaseResult
+} from '@shared/result-types';
+import { AppExternalServiceError } from '@shared/errors';
+import type { AuditRecordFilters, AuditRecordPage } from '@shared/schema';
+
+// ===== CONSTANTS =====
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_PAGE_SIZE = 200;
+const VERIFY_BATCH_SIZE = 500;
+
+// ===== AUDIT SERVICE IMPLEMENTATION =====
+
+/**
+ * Audit Service - Read-only access to the audit store
+ */
+export class AuditService {
+  constructor(private _storageProvider?: IStorage) {
+    logger.debug('AuditService initialized');
+  }
+
+  private getStorageProvider(): IStorage {
+    return this._storageProvider || getStorage();
+  }
+
+  /**
+   * Search audit records, newest first
+   */
+  async searchRecords(filters: AuditRecordFilters): Promise<DatabaseResult<AuditRecordPage>> {
+    try {
+      const page = await this.getStorageProvider().searchAuditRecords({
+        ...filters,
+        limit: Math.min(filters.limit ?? DEFAULT_AUDIT_PAGE_SIZE, MAX_AUDIT_PAGE_SIZE),
+        offset: filters.offset ?? 0,
+      });
+      return success(page);
+    } catch (error) {
+      logger.error('Failed to search audit records', { error });
+      return failure(AppExternalServiceError.databaseFailure(
+        'search_audit_records',
+        error instanceof Error ? error.message : String(error)
+      ));
+    }
+  }
+
+  /**
+   * Walk the whole chain from the first record and stop at the first break
+   */
+  async verifyChain(): Promise<DatabaseResult<AuditChainVerification>> {
+    try {
+      const storage = this.getStorageProvider();
+      let checked = 0;
+      let lastHash = AUDIT_GENESIS_HASH;
+      let records = await storage.getAuditRecordsAfter(0, VERIFY_BATCH_SIZE);
+
+      while (records.length > 0) {
+        const batch = verifyAuditChain(records, lastHash);
+        checked += batch.checked;
+        if (!batch.valid) {
+          logger.error('Audit chain verification failed', { brokenAt: batch.brokenAt, checked });
+          return success({ ...batch, checked });
+        }
+
+        lastHash = batch.lastHash;
+        records = await storage.getAuditRecordsAfter(records[records.length - 1].id, VERIFY_BATCH_SIZE);
+      }
+
+      logger.info('Audit chain verified', { checked });
+      return success({ valid: true, checked, lastHash });
+    } catch (error) {
+      logger.error('Failed to verify audit chain', { error });
+      return failure(AppExternalServiceError.databaseFailure(
+        'verify_audit_chain',
+        error instanceof Error ? error.message : String(error)
+      ));
+    }
+  }
+}
+
+// ===== FACTORY FUNCTION =====
+
+/**
+ * Create an audit service instance with the provided or default storage
+ */
+export function createAuditService(storageProvider?: IStorage): AuditService {
+  return new AuditService(storageProvider);
+}
@@ -0,0 +1,324 @@
+/**
+ * BUSINESS LOGIC: Feedback Service Layer
+ * Stores product feedback and users' ratings of individual analysis results
+ *
+ * @fileoverview Product feedback comes from the feedback page, signed in or
+ * not, and is reviewed by admins. Analysis ratings are a user's verdict on
+ * one analysis result - the score was too high, too low or accurate - plus
+ * any skills the analysis missed. Each rating keeps a copy of the result's
+ * provider, model and score so ratings can be grouped per model and compared
+ * against its calibration even after the result is re-analyzed.
+ *
+ * @example
+ * ```typescript
+ * const feedbackService = createFeedbackService(storage);
+ *
+ * await feedbackService.rateAnalysis({
+ *   userId: 'user123',
+ *   analysisResultId: 42,
+ *   verdict: 'score_too_high',
+ *   missedSkills: ['Kubernetes']
+ * });
+ *
+ * const summary = await feedbackService.getCalibrationSummary({ aiProvider: 'groq' });
+ * ```
+ */
+
+import { logger } from '../lib/logger';
+import { getStorage, IStorage } from '../storage';
+import {
+  success,
+  failure,
+  isFailure,
+  FeedbackResult
+} from '@shared/result-types';
+import {
+  AppExternalServiceError,
+  AppNotFoundError,
+  AppValidationError,
+  toAppError
+} from '@shared/errors';
+import {
+  ANALYSIS_RATING_VERDICTS,
+  type AnalysisRating,
+  type AnalysisRatingCalibrationSummary,
+  type AnalysisRatingFilters,
+  type AnalysisRatingVerdict,
+  type AnalysisResult,
+  type FeedbackType,
+  type ProductFeedback,
+  type ProductFeedbackFilters,
+  type ProductFeedbackPage
+} from '@shared/schema';
+
+// ===== CONSTANTS =====
+
+export const MAX_MISSED_SKILLS = 20;
+export const MAX_SKILL_LENGTH = 100;
+export const MAX_FEEDBACK_PAGE_SIZE = 200;
+
+/** Skills listed per provider/model in the calibration summary */
+const TOP_MISSED_SKILLS = 10;
+
+const UNKNOWN_PROVIDER = 'unknown';
+
+// ===== SERVICE INTERFACES =====
+
+/**
+ * A feedback page submission; userId is absent for signed-out visitors
+ */
+export interface SubmitFeedbackInput {
+  userId?: string | null;
+  name?: string;
+  email?: string;
+  type: FeedbackType;
+  rating?: number | null;
+  comment: string;
+}
+
+/**
+ * A user's verdict on one analysis result
+ */
+export interface RateAnalysisInput {
+  userId: string;
+  analysisResultId: number;
+  verdict?: AnalysisRatingVerdict | null;
+  missedSkills?: string[];
+  comment?: string;
+}
+
+// ===== PURE HELPERS =====
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Trimmed skills with blanks and case-insensitive repeats removed, first spelling kept
+ */
+export function normalizeMissedSkills(skills: string[]): string[] {
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+  for (const skill of skills) {
+    const trimmed = skill.trim();
+    const key = trimmed.toLowerCase();
+    if (trimmed && !seen.has(key)) {
+      seen.add(key);
+      normalized.push(trimmed);
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Groups ratings by the provider and model that produced the rated results,
+ * most rated first. scoreBias runs from -1 (every verdict says the score was
+ * too low) to 1 (every verdict says it was too high).
+ */
+export function summarizeAnalysisRatings(ratings: AnalysisRating[]): AnalysisRatingCalibrationSummary[] {
+  const groups = new Map<string, AnalysisRating[]>();
+  for (const rating of ratings) {
+    const key = `${rating.aiProvider ?? UNKNOWN_PROVIDER}\u0000${rating.modelVersion ?? ''}`;
+    groups.set(key, [...(groups.get(key) ?? []), rating]);
+  }
+
+  return Array.from(groups.values())
+    .map((group) => {
+      const verdicts = Object.fromEntries(
+        ANALYSIS_RATING_VERDICTS.map(verdict => [verdict, group.filter(rating => rating.verdict === verdict).length])
+      ) as Record<AnalysisRatingVerdict, number>;
+      const verdictCount = ANALYSIS_RATING_VERDICTS.reduce((sum, verdict) => sum + verdicts[verdict], 0);
+
+      const scores = group
+        .map(rating => rating.matchPercentage)
+        .filter((score): score is number => score !== null);
+
+      const skillCounts = new Map<string, { skill: string; count: number }>();
+      for (const skill of group.flatMap(rating => rating.missedSkills)) {
+        const entry = skillCounts.get(skill.toLowerCase()) ?? { skill, count: 0 };
+        entry.count++;
+        skillCounts.set(skill.toLowerCase(), entry);
+      }
+
+      return {
+        aiProvider: group[0].aiProvider ?? UNKNOWN_PROVIDER,
+        modelVersion: group[0].modelVersion,
+        ratingCount: group.length,
+        verdicts,
+        scoreBias: verdictCount > 0
+          ? round2((verdicts.score_too_high - verdicts.score_too_low) / verdictCount)
+          : null,
+        averageMatchPercentage: scores.length > 0
+          ? round2(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+          : null,
+        missedSkills: Array.from(skillCounts.values())
+          .sort((a, b) => b.count - a.count || a.skill.localeCompare(b.skill))
+          .slice(0, TOP_MISSED_SKILLS),
+      };
+    })
+    .sort((a, b) => b.ratingCount - a.ratingCount);
+}
+
+// ===== FEEDBACK SERVICE IMPLEMENTATION =====
+
+/**
+ * Feedback Service - Records product feedback and analysis quality ratings
+ */
+export class FeedbackService {
+  constructor(private _storageProvider?: IStorage) {
+    // Storage provider will be resolved lazily
+  }
+
+  private getStorageProvider(): IStorage {
+    return this._storageProvider || getStorage();
+  }
+
+  async submitFeedback(input: SubmitFeedbackInput): Promise<FeedbackResult<ProductFeedback>> {
+    const comment = input.comment.trim();
+    if (!comment) {
+      return failure(new AppValidationError('Feedback comment is required', 'comment'));
+    }
+    if (input.rating != null && (!Number.isInteger(input.rating) || input.rating < 1 || input.rating > 5)) {
+      return failure(new AppValidationError('Rating must be a whole number from 1 to 5', 'rating'));
+    }
+
+    try {
+      const feedback = await this.getStorageProvider().createProductFeedback({
+        userId: input.userId ?? null,
+        name: input.name?.trim() || null,
+        email: input.email?.trim() || null,
+        type: input.type,
+        rating: input.rating ?? null,
+        comment,
+      });
+
+      logger.info('Product feedback submitted', {
+        feedbackId: feedback.id,
+        type: feedback.type,
+        rating: feedback.rating,
+        signedIn: feedback.userId !== null,
+      });
+
+      return success(feedback);
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('product_feedback_submit', toAppError(error).message));
+    }
+  }
+
+  async searchFeedback(filters: ProductFeedbackFilters): Promise<FeedbackResult<ProductFeedbackPage>> {
+    try {
+      return success(await this.getStorageProvider().searchProductFeedback(filters));
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('product_feedback_search', toAppError(error).message));
+    }
+  }
+
+  /**
+   * The user's rating of an analysis result, or null if they have not rated it
+   */
+  async getAnalysisRating(userId: string, analysisResultId: number): Promise<FeedbackResult<AnalysisRating | null>> {
+    try {
+      const analysisResult = await this.loadAnalysisResult(userId, analysisResultId);
+      if (isFailure(analysisResult)) {
+        return analysisResult;
+      }
+
+      const rating = await this.getStorageProvider().getAnalysisRating(analysisResultId, userId);
+      return success(rating ?? null);
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('analysis_rating', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Stores the user's rating of an analysis result, replacing one they gave earlier
+   */
+  async rateAnalysis(input: RateAnalysisInput): Promise<FeedbackResult<AnalysisRating>> {
+    const { userId, analysisResultId } = input;
+
+    const missedSkills = normalizeMissedSkills(input.missedSkills ?? []);
+    if (!input.verdict && missedSkills.length === 0) {
+      return failure(new AppValidationError('Choose a verdict or name at least one missed skill', 'verdict'));
+    }
+    if (missedSkills.length > MAX_MISSED_SKILLS) {
+      return failure(new AppValidationError(`List at most ${MAX_MISSED_SKILLS} missed skills`, 'missedSkills'));
+    }
+    if (missedSkills.some(skill => skill.length > MAX_SKILL_LENGTH)) {
+      return failure(new AppValidationError(`Skill names are limited to ${MAX_SKILL_LENGTH} characters`, 'missedSkills'));
+    }
+
+    try {
+      const analysisResult = await this.loadAnalysisResult(userId, analysisResultId);
+      if (isFailure(analysisResult)) {
+        return analysisResult;
+      }
+      const analysis = analysisResult.data;
+
+      const rating = await this.getStorageProvider().upsertAnalysisRating({
+        analysisResultId,
+        userId,
+        verdict: input.verdict ?? null,
+        missedSkills,
+        comment: input.comment?.trim() || null,
+        matchPercentage: analysis.matchPercentage,
+        aiProvider: analysis.aiProvider,
+        modelVersion: analysis.modelVersion,
+      });
+
+      logger.info('Analysis result rated', {
+        userId,
+        analysisResultId,
+        verdict: rating.verdict,
+        missedSkills: missedSkills.length,
+        aiProvider: rating.aiProvider,
+      });
+
+      return success(rating);
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('analysis_rating_submit', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Ratings grouped per provider and model, for calibrating provider scores
+   */
+  async getCalibrationSummary(
+    filters: AnalysisRatingFilters
+  ): Promise<FeedbackResult<AnalysisRatingCalibrationSummary[]>> {
+    try {
+      const ratings = await this.getStorageProvider().listAnalysisRatings(filters);
+      return success(summarizeAnalysisRatings(ratings));
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('analysis_rating_summary', toAppError(error).message));
+    }
+  }
+
+  // The analysis is rateable by whoever ran it and by anyone who can see its job
+  private async loadAnalysisResult(
+    userId: string,
+    analysisResultId: number
+  ): Promise<FeedbackResult<AnalysisResult>> {
+    const storage = this.getStorageProvider();
+    const analysis = await storage.getAnalysisResult(analysisResultId);
+    if (!analysis) {
+      return failure(AppNotFoundError.analysisResult(analysisResultId));
+    }
+
+    if (analysis.userId !== userId) {
+      const job = analysis.jobDescriptionId !== null
+        ? await storage.getJobDescriptionById(analysis.jobDescriptionId, userId)
+        : undefined;
+      if (!job) {
+        return failure(AppNotFoundError.analysisResult(analysisResultId));
+      }
+    }
+    return success(analysis);
+  }
+}
+
+// ===== SERVICE FACTORY =====
+
+/**
+ * Create a feedback service instance with the provided or default storage
+ */
+export function createFeedbackService(storageProvider?: IStorage): FeedbackService {
+  return new FeedbackService(storageProvider);
+}
@@ -0,0 +1,413 @@
+/**
+ * BUSINESS LOGIC: Interview Scorecard Service Layer
+ * Captures how a candidate answered the generated interview questions
+ *
+ * @fileoverview Interview questions are generated per resume/job pair and
+ * stored as a question set. After the interview each interviewer fills in one
+ * scorecard for the set: a 1-5 rating per question, notes, which of the
+ * question's evaluation criteria were met, and an overall recommendation.
+ * Scorecards are aggregated per question and per assessed skill, questions
+ * and skills where interviewers are 2+ points apart are flagged, and the
+ * interview score is blended with the resume match into an overall score.
+ *
+ * @example
+ * ```typescript
+ * const scorecardService = createInterviewScorecardService(storage);
+ *
+ * await scorecardService.submitScorecard({
+ *   userId: 'user123',
+ *   interviewerName: 'Dana Lee',
+ *   resumeId: 7,
+ *   jobId: 42,
+ *   interviewQuestionsId: 3,
+ *   ratings: [{ questionIndex: 0, rating: 4, notes: 'Clear trade-offs' }],
+ *   recommendation: 'yes'
+ * });
+ *
+ * const view = await scorecardService.getCandidateScorecards('user123', 7, 42);
+ * ```
+ */
+
+import { logger } from '../lib/logger';
+import { getStorage, IStorage } from '../storage';
+import { createOrganizationService } from './organization-service';
+import {
+  success,
+  failure,
+  isFailure,
+  InterviewScorecardResult
+} from '@shared/result-types';
+import {
+  AppAuthenticationError,
+  AppExternalServiceError,
+  AppNotFoundError,
+  AppValidationError,
+  toAppError
+} from '@shared/errors';
+import {
+  INTERVIEW_RECOMMENDATIONS,
+  type InterviewQuestionData,
+  type InterviewQuestionRating,
+  type InterviewQuestions,
+  type InterviewQuestionScore,
+  type InterviewRecommendation,
+  type InterviewScorecard,
+  type InterviewScorecardSummary,
+  type InterviewSkillScore,
+  type JobDescription
+} from '@shared/schema';
+
+// ===== CONSTANTS =====
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+
+/** Ratings this far apart on the same question or skill count as a disagreement */
+export const DISAGREEMENT_THRESHOLD = 2;
+
+/** Share of the overall score taken by the interview once scorecards exist */
+export const INTERVIEW_SCORE_WEIGHT = 0.5;
+
+const HIRE_RECOMMENDATIONS: ReadonlySet<InterviewRecommendation> = new Set(['yes', 'strong_yes']);
+
+// ===== SERVICE INTERFACES =====
+
+/**
+ * Input for submitting (or replacing) an interviewer's scorecard
+ */
+export interface SubmitScorecardInput {
+  userId: string;
+  interviewerName?: string;
+  resumeId: number;
+  jobId: number;
+  /** The question set the interviewer rated */
+  interviewQuestionsId: number;
+  ratings: InterviewQuestionRating[];
+  recommendation?: InterviewRecommendation;
+  notes?: string;
+}
+
+/**
+ * A candidate's question set with every scorecard and their aggregate
+ */
+export interface CandidateScorecardsView {
+  interviewQuestionsId: number;
+  questions: InterviewQuestionData[];
+  scorecards: InterviewScorecard[];
+  summary: InterviewScorecardSummary;
+}
+
+// ===== PURE HELPERS =====
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const spread = (values: number[]) => (values.length < 2 ? 0 : Math.max(...values) - Math.min(...values));
+
+/**
+ * Why a set of ratings can't be stored against the questions, or null if it can
+ */
+export function validateScorecardRatings(
+  questions: InterviewQuestionData[],
+  ratings: InterviewQuestionRating[]
+): string | null {
+  if (ratings.length === 0) {
+    return 'Rate at least one question';
+  }
+
+  const seen = new Set<number>();
+  for (const rating of ratings) {
+    const question = questions[rating.questionIndex];
+    if (!Number.isInteger(rating.questionIndex) || !question) {
+      return `Question ${rating.questionIndex} does not exist in this question set`;
+    }
+    if (seen.has(rating.questionIndex)) {
+      return `Question ${rating.questionIndex} is rated more than once`;
+    }
+    seen.add(rating.questionIndex);
+
+    if (!Number.isInteger(rating.rating) || rating.rating < MIN_RATING || rating.rating > MAX_RATING) {
+      return `Ratings must be whole numbers from ${MIN_RATING} to ${MAX_RATING}`;
+    }
+
+    const criteria = question.evaluationCriteria ?? [];
+    const unknown = (rating.criteriaMet ?? []).find(criterion => !criteria.includes(criterion));
+    if (unknown) {
+      return `"${unknown}" is not an evaluation criterion of question ${rating.questionIndex}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Maps a 1-5 average rating to 0-100
+ */
+export function toInterviewScore(averageRating: number): number {
+  return Math.round(((averageRating - MIN_RATING) / (MAX_RATING - MIN_RATING)) * 100);
+}
+
+/**
+ * Blends the resume match with the interview score; either may be missing
+ */
+export function combineAssessment(matchPercentage: number | null, interviewScore: number | null): number | null {
+  if (interviewScore === null) return matchPercentage;
+  if (matchPercentage === null) return interviewScore;
+  return Math.round(matchPercentage * (1 - INTERVIEW_SCORE_WEIGHT) + interviewScore * INTERVIEW_SCORE_WEIGHT);
+}
+
+/**
+ * Aggregates scorecards per question and per assessed skill, flagging
+ * questions and skills where interviewers disagree
+ */
+export function summarizeScorecards(
+  interviewQuestionsId: number,
+  questions: InterviewQuestionData[],
+  scorecards: InterviewScorecard[],
+  matchPercentage: number | null
+): InterviewScorecardSummary {
+  const allRatings: number[] = [];
+  // skill -> interviewer -> that interviewer's ratings on questions assessing the skill
+  const skillRatings = new Map<string, Map<string, number[]>>();
+
+  const questionScores: InterviewQuestionScore[] = questions.map((question, questionIndex) => {
+    const criteriaMet: Record<string, number> = Object.fromEntries(
+      (question.evaluationCriteria ?? []).map(criterion => [criterion, 0])
+    );
+    const feedback: InterviewQuestionScore['feedback'] = [];
+
+    scorecards.forEach((scorecard, scorecardIndex) => {
+      const rating = scorecard.ratings.find(r => r.questionIndex === questionIndex);
+      if (!rating) return;
+
+      allRatings.push(rating.rating);
+      feedback.push({
+        interviewerName: scorecard.interviewerName || `Interviewer ${scorecardIndex + 1}`,
+        rating: rating.rating,
+        ...(rating.notes ? { notes: rating.notes } : {}),
+      });
+      for (const criterion of rating.criteriaMet ?? []) {
+        criteriaMet[criterion] = (criteriaMet[criterion] ?? 0) + 1;
+      }
+      for (const skill of question.skillsAssessed) {
+        const byInterviewer = skillRatings.get(skill) ?? new Map<string, number[]>();
+        byInterviewer.set(scorecard.interviewerId, [...(byInterviewer.get(scorecard.interviewerId) ?? []), rating.rating]);
+        skillRatings.set(skill, byInterviewer);
+      }
+    });
+
+    const ratings = feedback.map(entry => entry.rating);
+    return {
+      questionIndex,
+      question: question.question,
+      skillsAssessed: question.skillsAssessed,
+      averageRating: ratings.length > 0 ? round2(mean(ratings)) : null,
+      ratingCount: ratings.length,
+      disagreement: spread(ratings) >= DISAGREEMENT_THRESHOLD,
+      criteriaMet,
+      feedback,
+    };
+  });
+
+  const skills: InterviewSkillScore[] = Array.from(skillRatings, ([skill, byInterviewer]) => {
+    const ratings = Array.from(byInterviewer.values()).flat();
+    const interviewerAverages = Array.from(byInterviewer.values(), mean);
+    return {
+      skill,
+      averageRating: round2(mean(ratings)),
+      ratingCount: ratings.length,
+      disagreement: spread(interviewerAverages) >= DISAGREEMENT_THRESHOLD,
+    };
+  }).sort((a, b) => b.averageRating - a.averageRating || a.skill.localeCompare(b.skill));
+
+  const recommendations = Object.fromEntries(
+    INTERVIEW_RECOMMENDATIONS.map(recommendation => [recommendation, 0])
+  ) as Record<InterviewRecommendation, number>;
+  for (const scorecard of scorecards) {
+    if (scorecard.recommendation) {
+      recommendations[scorecard.recommendation] += 1;
+    }
+  }
+  const given = scorecards.map(scorecard => scorecard.recommendation).filter(Boolean) as InterviewRecommendation[];
+  const recommendationSplit =
+    given.some(recommendation => HIRE_RECOMMENDATIONS.has(recommendation)) &&
+    given.some(recommendation => !HIRE_RECOMMENDATIONS.has(recommendation));
+
+  const averageRating = allRatings.length > 0 ? round2(mean(allRatings)) : null;
+  const interviewScore = averageRating === null ? null : toInterviewScore(averageRating);
+
+  return {
+    interviewQuestionsId,
+    interviewerCount: scorecards.length,
+    averageRating,
+    interviewScore,
+    matchPercentage,
+    overallScore: combineAssessment(matchPercentage, interviewScore),
+    recommendations,
+    recommendationSplit,
+    questions: questionScores,
+    skills,
+    disagreements: questionScores
+      .filter(score => score.disagreement)
+      .map(score => {
+        const ratings = score.feedback.map(entry => entry.rating);
+        return {
+          questionIndex: score.questionIndex,
+          question: score.question,
+          lowestRating: Math.min(...ratings),
+          highestRating: Math.max(...ratings),
+        };
+      }),
+  };
+}
+
+// ===== INTERVIEW SCORECARD SERVICE IMPLEMENTATION =====
+
+/**
+ * Interview Scorecard Service - Records and aggregates interviewer feedback
+ */
+export class InterviewScorecardService {
+  constructor(private _storageProvider?: IStorage) {
+    // Storage provider will be resolved lazily
+  }
+
+  private getStorageProvider(): IStorage {
+    return this._storageProvider || getStorage();
+  }
+
+  /**
+   * Scorecards for the candidate's latest question set, with their aggregate
+   */
+  async getCandidateScorecards(
+    userId: string,
+    resumeId: number,
+    jobId: number
+  ): Promise<InterviewScorecardResult<CandidateScorecardsView>> {
+    try {
+      const candidateResult = await this.loadCandidate(userId, resumeId, jobId);
+      if (isFailure(candidateResult)) {
+        return candidateResult;
+      }
+      const { job } = candidateResult.data;
+
+      const questionSet = await this.getStorageProvider().getInterviewQuestionByResumeAndJob(resumeId, jobId);
+      if (!questionSet) {
+        return failure(AppNotFoundError.resourceNotFound('Interview questions'));
+      }
+
+      return success(await this.buildView(userId, job, questionSet));
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('interview_scorecards', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Stores the interviewer's scorecard, replacing one they submitted earlier
+   * for the same question set
+   */
+  async submitScorecard(input: SubmitScorecardInput): Promise<InterviewScorecardResult<CandidateScorecardsView>> {
+    const { userId, resumeId, jobId, interviewQuestionsId } = input;
+
+    try {
+      const candidateResult = await this.loadCandidate(userId, resumeId, jobId);
+      if (isFailure(candidateResult)) {
+        return candidateResult;
+      }
+      const { job } = candidateResult.data;
+
+      // Viewers can read scorecards but not add their own
+      if (!await createOrganizationService(this.getStorageProvider()).hasItemPermission(userId, job, 'analyze')) {
+        return failure(AppAuthenticationError.insufficientPermissions('interview scorecard', userId));
+      }
+
+      const storage = this.getStorageProvider();
+      const questionSet = await storage.getInterviewQuestions(interviewQuestionsId);
+      if (!questionSet || questionSet.resumeId !== resumeId || questionSet.jobDescriptionId !== jobId) {
+        return failure(new AppNotFoundError('Interview questions', interviewQuestionsId));
+      }
+
+      const problem = validateScorecardRatings(questionSet.questions ?? [], input.ratings);
+      if (problem) {
+        return failure(new AppValidationError(problem, 'ratings'));
+      }
+
+      await storage.upsertInterviewScorecard({
+        interviewQuestionsId,
+        resumeId,
+        jobDescriptionId: jobId,
+        interviewerId: userId,
+        interviewerName: input.interviewerName?.trim() || null,
+        ratings: input.ratings,
+        recommendation: input.recommendation ?? null,
+        notes: input.notes?.trim() || null,
+      });
+
+      logger.info('Interview scorecard submitted', {
+        userId,
+        resumeId,
+        jobId,
+        interviewQuestionsId,
+        questionsRated: input.ratings.length,
+        recommendation: input.recommendation,
+      });
+
+      return success(await this.buildView(userId, job, questionSet));
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('interview_scorecard_submit', toAppError(error).message));
+    }
+  }
+
+  // Job and resume lookups already admit the owner and members of the item's organization
+  private async loadCandidate(
+    userId: string,
+    resumeId: number,
+    jobId: number
+  ): Promise<InterviewScorecardResult<{ job: JobDescription }>> {
+    const storage = this.getStorageProvider();
+    const [job, resume] = await Promise.all([
+      storage.getJobDescriptionById(jobId, userId),
+      storage.getResumeById(resumeId, userId),
+    ]);
+
+    if (!job) {
+      return failure(AppNotFoundError.jobDescription(jobId));
+    }
+    if (!resume) {
+      return failure(AppNotFoundError.resume(resumeId));
+    }
+    return success({ job });
+  }
+
+  private async buildView(
+    userId: string,
+    job: JobDescription,
+    questionSet: InterviewQuestions
+  ): Promise<CandidateScorecardsView> {
+    const storage = this.getStorageProvider();
+    const resumeId = questionSet.resumeId as number;
+    const questions = questionSet.questions ?? [];
+
+    // Prefer the viewer's own analysis; interviewers who never ran one see the job owner's
+    let analysis = await storage.getAnalysisResultByJobAndResume(job.id, resumeId, userId);
+    if (!analysis && job.userId && job.userId !== userId) {
+      analysis = await storage.getAnalysisResultByJobAndResume(job.id, resumeId, job.userId);
+    }
+
+    const scorecards = await storage.getInterviewScorecards(questionSet.id);
+    return {
+      interviewQuestionsId: questionSet.id,
+      questions,
+      scorecards,
+      summary: summarizeScorecards(questionSet.id, questions, scorecards, analysis?.matchPercentage ?? null),
+    };
+  }
+}
+
+// ===== SERVICE FACTORY =====
+
+/**
+ * Create an interview scorecard service instance with the provided or default storage
+ */
+export function createInterviewScorecardService(storageProvider?: IStorage): InterviewScorecardService {
+  return new InterviewScorecardService(storageProvider);
+}
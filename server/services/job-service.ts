@@ -31,8 +31,18 @@ import { logger } from '../lib/logger';
 import { getStorage, IStorage } from '../storage';
 import { QueryBuilder } from '../lib/query-builder';
 import { analyzeJobDescriptionWithCache } from '../lib/cached-ai-operations';
+import { withLlmUsageContext } from '../lib/llm-usage';
 import { getUserTierInfo } from '../lib/user-tiers';
 import { generateEmbedding } from '../lib/embeddings';
+import { blindCandidateLabel } from '../lib/blind-review';
+import { createOrganizationService } from './organization-service';
+import { createSkillCorrectionService } from './skill-correction-service';
+import {
+  diffJobDescriptions,
+  findStaleResumeIds,
+  hasJobContentChanged,
+  JobDescriptionContent
+} from '../lib/job-description-versions';
 // import { detectJobBias } from '../lib/bias-detection'; // Function not implemented yet
 import {
   success,
@@ -42,6 +52,7 @@ import {
   JobAnalysisResult
 } from '@shared/result-types';
 import {
+  AppAuthenticationError,
   AppNotFoundError,
   AppValidationError,
   AppBusinessLogicError,
@@ -49,16 +60,24 @@ import {
   toAppError
 } from '@shared/errors';
 
+import type { OrganizationPermission } from '@shared/organization-roles';
 import {
   AnalyzeJobDescriptionResponse,
   AnalyzedJobData,
   JobDescription,
+  JobDescriptionVersion,
+  JobScoringConfig,
   jobDescriptions
 } from '@shared/schema';
 
 // Prefix unused imports to silence warnings
 const _AppBusinessLogicError = AppBusinessLogicError;
 
+// ===== CONSTANTS =====
+
+const DEFAULT_SIMILAR_RESUMES_LIMIT = 10;
+const MAX_SIMILAR_RESUMES_LIMIT = 50;
+
 // ===== SERVICE INTERFACES =====
 
 /**
@@ -66,9 +85,13 @@ const _AppBusinessLogicError = AppBusinessLogicError;
  */
 export interface CreateJobOptions {
   userId: string;
+  /** Share the new job with this organization */
+  organizationId?: number;
   title: string;
   description: string;
   requirements?: string[];
+  blindReview?: boolean;
+  scoringConfig?: JobScoringConfig | null;
   analyzeImmediately?: boolean;
   includeBiasAnalysis?: boolean;
 }
@@ -78,6 +101,8 @@ export interface CreateJobOptions {
  */
 export interface GetJobsOptions {
   userId: string;
+  /** List the jobs shared with this organization instead of the user's own */
+  organizationId?: number;
   page?: number;
   limit?: number;
   searchQuery?: string;
@@ -96,6 +121,9 @@ export interface UpdateJobOptions {
   title?: string;
   description?: string;
   requirements?: string[];
+  blindReview?: boolean;
+  /** Pass null to drop custom scoring and fall back to the defaults */
+  scoringConfig?: JobScoringConfig | null;
   reanalyze?: boolean;
 }
 
@@ -109,6 +137,37 @@ export interface JobCreationResult {
   processingTime: number;
 }
 
+/**
+ * Recorded versions of a job description
+ */
+export interface JobVersionHistory {
+  jobId: number;
+  currentVersion: number;
+  /** Newest first; empty until the job is first edited */
+  versions: JobDescriptionVersion[];
+  /** Resumes whose latest analysis ran against an earlier version */
+  staleResumeIds: number[];
+}
+
+/**
+ * A resume ranked by embedding similarity to a job
+ */
+export interface SimilarResume {
+  resumeId: number;
+  /** Anonymized label for blind review jobs */
+  filename: string;
+  /** Cosine similarity, -1 to 1 */
+  similarity: number;
+}
+
+/**
+ * Resumes nearest to a job in embedding space
+ */
+export interface SimilarResumesResult {
+  jobId: number;
+  resumes: SimilarResume[];
+}
+
 /**
  * Paginated job descriptions result
  */
@@ -164,9 +223,12 @@ export class JobService {
       try {
         jobDescription = await this.getStorageProvider().createJobDescription({
           userId: options.userId,
+          organizationId: options.organizationId ?? null,
           title: options.title,
           description: options.description,
-          requirements: options.requirements || []
+          requirements: options.requirements || [],
+          blindReview: options.blindReview,
+          scoringConfig: options.scoringConfig ?? null
         });
       } catch (error) {
         const appError = toAppError(error, 'job_creation');
@@ -189,10 +251,9 @@ export class JobService {
           userId: options.userId
         });
 
-        const analysisResult = await analyzeJobDescriptionWithCache(
-          options.title,
-          options.description,
-          userTier
+        const analysisResult = await withLlmUsageContext(
+          { userId: options.userId, jobId: jobDescription.id },
+          () => analyzeJobDescriptionWithCache(options.title, options.description, userTier)
         );
 
         if (isSuccess(analysisResult)) {
@@ -200,13 +261,13 @@ export class JobService {
           
           // Update job with analysis results
           // Convert AnalyzeJobDescriptionResponse to AnalyzedJobData
-          const analyzedData: AnalyzedJobData = analysisResult.data.analyzedData || {
+          const analyzedData = await this.withSkillCorrections(analysisResult.data.analyzedData || {
             requiredSkills: analysisResult.data.requiredSkills || [],
             preferredSkills: analysisResult.data.preferredSkills || [],
             experienceLevel: analysisResult.data.experienceLevel || '',
             responsibilities: analysisResult.data.responsibilities || [],
             summary: analysisResult.data.summary || ''
-          };
+          }, options.userId);
           
           await this.getStorageProvider().updateJobDescription(jobDescription.id, {
             analyzedData
@@ -281,9 +342,14 @@ export class JobService {
         page: options.page || 1,
         limit: options.limit || 20,
         hasSearchQuery: !!options.searchQuery,
-        hasDateRange: !!options.dateRange
+        hasDateRange: !!options.dateRange,
+        organizationId: options.organizationId
       });
 
+      if (options.organizationId !== undefined) {
+        return await this.getOrganizationJobDescriptions(options, options.organizationId);
+      }
+
       // Build query with filters
       const queryBuilder = QueryBuilder.forUser(options.userId);
 
@@ -423,11 +489,35 @@ export class JobService {
         return existingJobResult;
       }
 
+      const permissionResult = await this.checkJobPermission(options.userId, existingJobResult.data, 'write');
+      if (isFailure(permissionResult)) {
+        return permissionResult;
+      }
+
       // Prepare update data
       const updateData: Partial<JobDescription> = {};
       if (options.title) updateData.title = options.title;
       if (options.description) updateData.description = options.description;
       if (options.requirements) updateData.requirements = options.requirements;
+      if (options.blindReview !== undefined) updateData.blindReview = options.blindReview;
+      if (options.scoringConfig !== undefined) updateData.scoringConfig = options.scoringConfig;
+
+      // Changing what candidates are scored against starts a new version
+      const existingJob = existingJobResult.data;
+      const content: JobDescriptionContent = {
+        title: updateData.title ?? existingJob.title,
+        description: updateData.description ?? existingJob.description,
+        requirements: updateData.requirements ?? existingJob.requirements
+      };
+      if (hasJobContentChanged(existingJob, content)) {
+        try {
+          await this.recordJobVersion(existingJob, content, options.userId);
+        } catch (error) {
+          const appError = toAppError(error, 'job_version');
+          return failure(AppExternalServiceError.databaseFailure('job_version', appError.message));
+        }
+        updateData.version = existingJob.version + 1;
+      }
 
       // Update job description
       let updatedJob;
@@ -449,6 +539,10 @@ export class JobService {
         }
       }
 
+      if (updateData.version !== undefined) {
+        await this.markAnalysesStale(options.jobId, updateData.version);
+      }
+
       // Re-analyze if requested
       if (options.reanalyze && options.description) {
         logger.info('Re-analyzing updated job description', {
@@ -457,21 +551,21 @@ export class JobService {
         });
 
         const userTier = await getUserTierInfo(options.userId);
-        const analysisResult = await analyzeJobDescriptionWithCache(
-          updatedJob.title,
-          options.description,
-          userTier
+        const description = options.description;
+        const analysisResult = await withLlmUsageContext(
+          { userId: options.userId, jobId: options.jobId },
+          () => analyzeJobDescriptionWithCache(updatedJob.title, description, userTier)
         );
 
         if (isSuccess(analysisResult)) {
           // Convert AnalyzeJobDescriptionResponse to AnalyzedJobData
-          const analyzedData: AnalyzedJobData = analysisResult.data.analyzedData || {
+          const analyzedData = await this.withSkillCorrections(analysisResult.data.analyzedData || {
             requiredSkills: analysisResult.data.requiredSkills || [],
             preferredSkills: analysisResult.data.preferredSkills || [],
             experienceLevel: analysisResult.data.experienceLevel || '',
             responsibilities: analysisResult.data.responsibilities || [],
             summary: analysisResult.data.summary || ''
-          };
+          }, options.userId);
           
           await this.getStorageProvider().updateJobDescription(options.jobId, {
             analyzedData
@@ -510,6 +604,90 @@ export class JobService {
     }
   }
 
+  /**
+   * Get the version history of a job description and the candidates whose
+   * analyses predate the current version
+   */
+  async getJobVersionHistory(
+    userId: string,
+    jobId: number
+  ): Promise<JobAnalysisResult<JobVersionHistory>> {
+    const jobResult = await this.getJobDescriptionById(userId, jobId);
+    if (isFailure(jobResult)) {
+      return jobResult;
+    }
+    const job = jobResult.data;
+
+    try {
+      const storage = this.getStorageProvider();
+      const [versions, analyses] = await Promise.all([
+        storage.getJobDescriptionVersions(jobId),
+        storage.getAnalysisResultsByJob(jobId, userId)
+      ]);
+
+      return success({
+        jobId,
+        currentVersion: job.version,
+        versions,
+        staleResumeIds: findStaleResumeIds(analyses, job)
+      });
+    } catch (error) {
+      logger.error('Job version history retrieval failed', {
+        userId,
+        jobId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      const appError = toAppError(error, 'job_versions');
+      return failure(AppExternalServiceError.databaseFailure('job_versions', appError.message));
+    }
+  }
+
+  /**
+   * Find the resumes whose content is closest to a job's, using the vector
+   * index where the database has one. Only resumes the user can see are
+   * returned, so a shared job's results may be fewer than `limit`.
+   */
+  async findSimilarResumes(
+    userId: string,
+    jobId: number,
+    limit: number = DEFAULT_SIMILAR_RESUMES_LIMIT
+  ): Promise<JobAnalysisResult<SimilarResumesResult>> {
+    const jobResult = await this.getJobDescriptionById(userId, jobId);
+    if (isFailure(jobResult)) {
+      return jobResult;
+    }
+    const job = jobResult.data;
+
+    try {
+      const k = Math.min(Math.max(1, limit), MAX_SIMILAR_RESUMES_LIMIT);
+      const storage = this.getStorageProvider();
+      const organizationService = createOrganizationService(storage);
+      const matches = await storage.searchSimilarResumes(jobId, k);
+      const visible = await Promise.all(
+        matches.map(match => organizationService.hasItemPermission(userId, match.resume, 'read'))
+      );
+
+      return success({
+        jobId,
+        resumes: matches
+          .filter((_match, index) => visible[index])
+          .map(({ resume, similarity }) => ({
+            resumeId: resume.id,
+            filename: job.blindReview ? blindCandidateLabel(resume.id) : resume.filename,
+            similarity
+          }))
+      });
+    } catch (error) {
+      logger.error('Similar resume search failed', {
+        userId,
+        jobId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      const appError = toAppError(error, 'similar_resumes');
+      return failure(AppExternalServiceError.databaseFailure('similar_resumes', appError.message));
+    }
+  }
+
   /**
    * Delete a job description
    */
@@ -529,6 +707,11 @@ export class JobService {
         return failure(existingJobResult.error);
       }
 
+      const permissionResult = await this.checkJobPermission(userId, existingJobResult.data, 'write');
+      if (isFailure(permissionResult)) {
+        return permissionResult;
+      }
+
       // Delete job description
       try {
         await this.getStorageProvider().deleteJobDescription(jobId);
@@ -585,14 +768,17 @@ export class JobService {
         return failure(jobResult.error);
       }
 
+      const permissionResult = await this.checkJobPermission(userId, jobResult.data, 'analyze');
+      if (isFailure(permissionResult)) {
+        return permissionResult;
+      }
+
       const job = jobResult.data;
       const userTier = await getUserTierInfo(userId);
 
       // Perform analysis
-      const analysisResult = await analyzeJobDescriptionWithCache(
-        job.title,
-        job.description,
-        userTier
+      const analysisResult = await withLlmUsageContext({ userId, jobId }, () =>
+        analyzeJobDescriptionWithCache(job.title, job.description, userTier)
       );
 
       if (isFailure(analysisResult)) {
@@ -651,6 +837,117 @@ export class JobService {
 
   // ===== PRIVATE HELPER METHODS =====
 
+  /**
+   * Page through the jobs shared with an organization; storage returns
+   * nothing when the user is not a member
+   */
+  private async getOrganizationJobDescriptions(
+    options: GetJobsOptions,
+    organizationId: number
+  ): Promise<JobAnalysisResult<PaginatedJobsResult>> {
+    const page = options.page || 1;
+    const limit = Math.min(options.limit || 20, 100);
+
+    let jobs = await this.getStorageProvider().getJobDescriptionsByUserId(options.userId, organizationId);
+    if (options.searchQuery) {
+      const query = options.searchQuery.toLowerCase();
+      jobs = jobs.filter(job => job.title.toLowerCase().includes(query));
+    }
+    if (options.dateRange) {
+      const { start, end } = options.dateRange;
+      jobs = jobs.filter(job => !!job.createdAt && job.createdAt >= start && job.createdAt <= end);
+    }
+
+    return success({
+      jobs: jobs.slice((page - 1) * limit, page * limit),
+      total: jobs.length,
+      page,
+      limit,
+      totalPages: Math.ceil(jobs.length / limit)
+    });
+  }
+
+  /**
+   * Shared jobs are visible to every member of their organization; changing
+   * or analyzing one needs the matching role permission
+   */
+  private async checkJobPermission(
+    userId: string,
+    job: JobDescription,
+    permission: OrganizationPermission
+  ): Promise<JobAnalysisResult<true>> {
+    const allowed = await createOrganizationService(this.getStorageProvider())
+      .hasItemPermission(userId, job, permission);
+    return allowed
+      ? success(true)
+      : failure(AppAuthenticationError.insufficientPermissions('job description', userId));
+  }
+
+  /**
+   * Records edited content as the job's next version. A job that has never
+   * been edited has no history yet, so its current content is recorded first
+   * for the diff to start from. The unique version number rejects a
+   * concurrent edit of the same version.
+   */
+  private async recordJobVersion(
+    job: JobDescription,
+    content: JobDescriptionContent,
+    userId: string
+  ): Promise<void> {
+    const storage = this.getStorageProvider();
+    const history = await storage.getJobDescriptionVersions(job.id);
+
+    if (!history.some(version => version.version === job.version)) {
+      await storage.createJobDescriptionVersion({
+        jobDescriptionId: job.id,
+        version: job.version,
+        title: job.title,
+        description: job.description,
+        requirements: job.requirements,
+        diff: null,
+        changedBy: job.userId,
+        createdAt: (job.version === 1 ? job.createdAt : job.updatedAt) ?? undefined
+      });
+    }
+
+    await storage.createJobDescriptionVersion({
+      jobDescriptionId: job.id,
+      version: job.version + 1,
+      ...content,
+      diff: diffJobDescriptions(job, content),
+      changedBy: userId
+    });
+  }
+
+  /**
+   * Flags the job's analyses from earlier versions. Failing here does not fail
+   * the update: analyses stamped with an older version still read as stale.
+   */
+  private async markAnalysesStale(jobId: number, version: number): Promise<void> {
+    try {
+      const staleCount = await this.getStorageProvider().markAnalysisResultsStale(jobId, version);
+      logger.info('Job description changed; earlier analyses marked stale', { jobId, version, staleCount });
+    } catch (error) {
+      logger.warn('Failed to mark analyses stale', {
+        jobId,
+        version,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Applies the user's skill equivalences, before skills are embedded and stored
+   */
+  private async withSkillCorrections(analyzedData: AnalyzedJobData, userId: string): Promise<AnalyzedJobData> {
+    const skillCorrections = createSkillCorrectionService(this.getStorageProvider());
+    return {
+      ...analyzedData,
+      requiredSkills: await skillCorrections.correctJobSkills(userId, analyzedData.requiredSkills || []),
+      preferredSkills: await skillCorrections.correctJobSkills(userId, analyzedData.preferredSkills || [])
+    };
+  }
+
   /**
    * Generate and store embeddings for job description
    */
@@ -768,4 +1065,4 @@ export async function getUserJobs(
     page,
     limit
   });
-}
\ No newline at end of file
+}
\ No newline at end of file
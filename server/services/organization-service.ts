@@ -0,0 +1,597 @@
+/**
+ * BUSINESS LOGIC: Organization Service Layer
+ * Manages organizations, role-based membership, invitations and org-scoped sharing
+ *
+ * @fileoverview An organization is a team workspace. Members see the jobs and
+ * resumes shared with it; what they may do with them depends on their role
+ * (see @shared/organization-roles). Owners invite people by email: the invite
+ * token is returned once to the inviter and only its SHA-256 hash is stored,
+ * so a leaked database row cannot be redeemed. Items stay owned by the user who
+ * created them; sharing only sets their organization.
+ *
+ * @example
+ * ```typescript
+ * const organizationService = createOrganizationService(storage);
+ *
+ * const created = await organizationService.createOrganization('user123', 'Acme Recruiting');
+ *
+ * // Invite a hiring manager; send them the token out of band
+ * const invite = await organizationService.createInvitation({
+ *   actorId: 'user123',
+ *   organizationId: 1,
+ *   email: 'manager@acme.com',
+ *   role: 'hiring_manager'
+ * });
+ * ```
+ */
+
+import crypto from 'crypto';
+import { logger } from '../lib/logger';
+import { getStorage, IStorage } from '../storage';
+import {
+  success,
+  failure,
+  isFailure,
+  OrganizationResult
+} from '@shared/result-types';
+import {
+  AppAuthenticationError,
+  AppBusinessLogicError,
+  AppExternalServiceError,
+  AppNotFoundError,
+  AppValidationError,
+  toAppError
+} from '@shared/errors';
+import {
+  hasOrganizationPermission,
+  type OrganizationPermission
+} from '@shared/organization-roles';
+import type {
+  JobDescription,
+  Organization,
+  OrganizationInvitation,
+  OrganizationMember,
+  OrganizationRole,
+  OrganizationWithRole,
+  Resume
+} from '@shared/schema';
+
+// ===== CONSTANTS =====
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_ORGANIZATIONS_PER_USER = 20;
+
+// ===== SERVICE INTERFACES =====
+
+/**
+ * Options for inviting someone to an organization
+ */
+export interface CreateInvitationOptions {
+  actorId: string;
+  organizationId: number;
+  email: string;
+  role: OrganizationRole;
+}
+
+/**
+ * Options for accepting an invitation
+ */
+export interface AcceptInvitationOptions {
+  userId: string;
+  email?: string;
+  token: string;
+}
+
+/**
+ * Invitation as returned to organization owners; never includes the token
+ */
+export interface OrganizationInvitationView {
+  id: number;
+  organizationId: number;
+  email: string;
+  role: OrganizationRole;
+  status: OrganizationInvitation['status'];
+  invitedBy: string;
+  expiresAt: Date;
+  acceptedAt: Date | null;
+  createdAt: Date | null;
+}
+
+/**
+ * Result of creating an invitation
+ */
+export interface InvitationCreationResult {
+  invitation: OrganizationInvitationView;
+  token: string;
+}
+
+/**
+ * Anything that can be shared with an organization
+ */
+export type ShareableItem = Pick<Resume | JobDescription, 'userId' | 'organizationId'>;
+
+// ===== PURE HELPERS =====
+
+export function generateInvitationToken(): string {
+  return `inv_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+export function hashInvitationToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function toInvitationView(invitation: OrganizationInvitation): OrganizationInvitationView {
+  return {
+    id: invitation.id,
+    organizationId: invitation.organizationId,
+    email: invitation.email,
+    role: invitation.role,
+    status: invitation.status,
+    invitedBy: invitation.invitedBy,
+    expiresAt: invitation.expiresAt,
+    acceptedAt: invitation.acceptedAt,
+    createdAt: invitation.createdAt,
+  };
+}
+
+/**
+ * Why an invitation can't be accepted, or null if it can
+ */
+export function getInvitationProblem(invitation: OrganizationInvitation, now: Date = new Date()): string | null {
+  if (invitation.status === 'accepted') return 'Invitation has already been accepted';
+  if (invitation.status === 'revoked') return 'Invitation has been revoked';
+  if (invitation.expiresAt.getTime() <= now.getTime()) return 'Invitation has expired';
+  return null;
+}
+
+/**
+ * Whether changing (or, without a new role, removing) a member would leave
+ * the organization without an owner
+ */
+export function wouldLeaveWithoutOwner(
+  members: Pick<OrganizationMember, 'userId' | 'role'>[],
+  userId: string,
+  newRole?: OrganizationRole
+): boolean {
+  const target = members.find(member => member.userId === userId);
+  if (!target || target.role !== 'owner' || newRole === 'owner') {
+    return false;
+  }
+  return !members.some(member => member.role === 'owner' && member.userId !== userId);
+}
+
+// ===== ORGANIZATION SERVICE IMPLEMENTATION =====
+
+/**
+ * Organization Service - Manages teams, their members and shared items
+ */
+export class OrganizationService {
+  constructor(private _storageProvider?: IStorage) {
+    logger.debug('OrganizationService initialized');
+  }
+
+  private getStorageProvider(): IStorage {
+    return this._storageProvider || getStorage();
+  }
+
+  /**
+   * Create an organization owned by the user
+   */
+  async createOrganization(userId: string, name: string): Promise<OrganizationResult<OrganizationWithRole>> {
+    try {
+      const trimmedName = name.trim();
+      if (!trimmedName) {
+        return failure(AppValidationError.requiredField('name'));
+      }
+
+      const storage = this.getStorageProvider();
+      const existing = await storage.getOrganizationsForUser(userId);
+      if (existing.length >= MAX_ORGANIZATIONS_PER_USER) {
+        return failure(new AppValidationError(
+          `Too many organizations (max ${MAX_ORGANIZATIONS_PER_USER})`
+        ));
+      }
+
+      const organization = await storage.createOrganization({ name: trimmedName, createdBy: userId });
+      logger.info('Organization created', { userId, organizationId: organization.id });
+
+      return success({ ...organization, role: 'owner' });
+    } catch (error) {
+      logger.error('Failed to create organization', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return failure(AppExternalServiceError.databaseFailure('organization_create', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Organizations the user belongs to, with their role in each
+   */
+  async listOrganizations(userId: string): Promise<OrganizationResult<OrganizationWithRole[]>> {
+    try {
+      return success(await this.getStorageProvider().getOrganizationsForUser(userId));
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('organization_list', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Members of an organization; any member may list them
+   */
+  async listMembers(actorId: string, organizationId: number): Promise<OrganizationResult<OrganizationMember[]>> {
+    try {
+      const accessResult = await this.requirePermission(actorId, organizationId, 'read');
+      if (isFailure(accessResult)) {
+        return accessResult;
+      }
+      return success(await this.getStorageProvider().getOrganizationMembers(organizationId));
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('organization_members', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Change a member's role. The last owner can't be demoted.
+   */
+  async updateMemberRole(
+    actorId: string,
+    organizationId: number,
+    memberId: string,
+    role: OrganizationRole
+  ): Promise<OrganizationResult<OrganizationMember>> {
+    try {
+      const accessResult = await this.requirePermission(actorId, organizationId, 'manage_members');
+      if (isFailure(accessResult)) {
+        return accessResult;
+      }
+
+      const storage = this.getStorageProvider();
+      const members = await storage.getOrganizationMembers(organizationId);
+      if (!members.some(member => member.userId === memberId)) {
+        return failure(new AppNotFoundError('Organization member', memberId));
+      }
+      if (wouldLeaveWithoutOwner(members, memberId, role)) {
+        return failure(new AppBusinessLogicError('organization-membership', 'An organization must keep at least one owner'));
+      }
+
+      const updated = await storage.updateOrganizationMemberRole(organizationId, memberId, role);
+      if (!updated) {
+        return failure(new AppNotFoundError('Organization member', memberId));
+      }
+
+      logger.info('Organization member role changed', { actorId, organizationId, memberId, role });
+      return success(updated);
+    } catch (error) {
+      logger.error('Failed to change organization member role', {
+        actorId,
+        organizationId,
+        memberId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return failure(AppExternalServiceError.databaseFailure('organization_member_update', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Remove a member. Owners can remove anyone; members can remove themselves.
+   * The last owner can't leave.
+   */
+  async removeMember(
+    actorId: string,
+    organizationId: number,
+    memberId: string
+  ): Promise<OrganizationResult<{ removed: true }>> {
+    try {
+      if (actorId !== memberId) {
+        const accessResult = await this.requirePermission(actorId, organizationId, 'manage_members');
+        if (isFailure(accessResult)) {
+          return accessResult;
+        }
+      }
+
+      const storage = this.getStorageProvider();
+      const members = await storage.getOrganizationMembers(organizationId);
+      if (!members.some(member => member.userId === memberId)) {
+        return failure(new AppNotFoundError('Organization member', memberId));
+      }
+      if (wouldLeaveWithoutOwner(members, memberId)) {
+        return failure(new AppBusinessLogicError('organization-membership', 'An organization must keep at least one owner'));
+      }
+
+      await storage.removeOrganizationMember(organizationId, memberId);
+      logger.info('Organization member removed', { actorId, organizationId, memberId });
+
+      return success({ removed: true });
+    } catch (error) {
+      logger.error('Failed to remove organization member', {
+        actorId,
+        organizationId,
+        memberId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return failure(AppExternalServiceError.databaseFailure('organization_member_remove', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Invite someone by email. The token is only returned here.
+   */
+  async createInvitation(options: CreateInvitationOptions): Promise<OrganizationResult<InvitationCreationResult>> {
+    try {
+      const accessResult = await this.requirePermission(options.actorId, options.organizationId, 'manage_members');
+      if (isFailure(accessResult)) {
+        return accessResult;
+      }
+
+      const token = generateInvitationToken();
+      const invitation = await this.getStorageProvider().createOrganizationInvitation({
+        organizationId: options.organizationId,
+        email: options.email.trim().toLowerCase(),
+        role: options.role,
+        tokenHash: hashInvitationToken(token),
+        invitedBy: options.actorId,
+        status: 'pending',
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      });
+
+      logger.info('Organization invitation created', {
+        actorId: options.actorId,
+        organizationId: options.organizationId,
+        invitationId: invitation.id,
+        role: options.role
+      });
+
+      return success({ invitation: toInvitationView(invitation), token });
+    } catch (error) {
+      logger.error('Failed to create organization invitation', {
+        actorId: options.actorId,
+        organizationId: options.organizationId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return failure(AppExternalServiceError.databaseFailure('organization_invite', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Invitations of an organization, newest first
+   */
+  async listInvitations(actorId: string, organizationId: number): Promise<OrganizationResult<OrganizationInvitationView[]>> {
+    try {
+      const accessResult = await this.requirePermission(actorId, organizationId, 'manage_members');
+      if (isFailure(accessResult)) {
+        return accessResult;
+      }
+
+      const invitations = await this.getStorageProvider().getOrganizationInvitations(organizationId);
+      return success(invitations.map(toInvitationView));
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('organization_invitations', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Revoke a pending invitation
+   */
+  async revokeInvitation(
+    actorId: string,
+    organizationId: number,
+    invitationId: number
+  ): Promise<OrganizationResult<OrganizationInvitationView>> {
+    try {
+      const accessResult = await this.requirePermission(actorId, organizationId, 'manage_members');
+      if (isFailure(accessResult)) {
+        return accessResult;
+      }
+
+      const storage = this.getStorageProvider();
+      const invitation = (await storage.getOrganizationInvitations(organizationId))
+        .find(candidate => candidate.id === invitationId);
+      if (!invitation) {
+        return failure(new AppNotFoundError('Invitation', invitationId));
+      }
+      if (invitation.status !== 'pending') {
+        return failure(new AppBusinessLogicError('organization-invitation', `Invitation is already ${invitation.status}`));
+      }
+
+      const revoked = await storage.updateOrganizationInvitation(invitationId, { status: 'revoked' });
+      if (!revoked) {
+        return failure(new AppNotFoundError('Invitation', invitationId));
+      }
+
+      logger.info('Organization invitation revoked', { actorId, organizationId, invitationId });
+      return success(toInvitationView(revoked));
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('organization_invite_revoke', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Join an organization with an invitation token. When the user's email is
+   * known it must match the invited address.
+   */
+  async acceptInvitation(options: AcceptInvitationOptions): Promise<OrganizationResult<OrganizationWithRole>> {
+    try {
+      const storage = this.getStorageProvider();
+      const invitation = await storage.getOrganizationInvitationByTokenHash(hashInvitationToken(options.token));
+      if (!invitation) {
+        return failure(AppNotFoundError.resourceNotFound('Invitation'));
+      }
+
+      const problem = getInvitationProblem(invitation);
+      if (problem) {
+        return failure(new AppBusinessLogicError('organization-invitation', problem));
+      }
+      if (options.email && options.email.trim().toLowerCase() !== invitation.email) {
+        return failure(AppAuthenticationError.insufficientPermissions('this invitation', options.userId));
+      }
+
+      const organization = await storage.getOrganization(invitation.organizationId);
+      if (!organization) {
+        return failure(new AppNotFoundError('Organization', invitation.organizationId));
+      }
+      if (await storage.getOrganizationMembership(organization.id, options.userId)) {
+        return failure(new AppBusinessLogicError('organization-invitation', 'You are already a member of this organization'));
+      }
+
+      await storage.addOrganizationMember({
+        organizationId: organization.id,
+        userId: options.userId,
+        role: invitation.role,
+      });
+      await storage.updateOrganizationInvitation(invitation.id, {
+        status: 'accepted',
+        acceptedBy: options.userId,
+        acceptedAt: new Date(),
+      });
+
+      logger.info('Organization invitation accepted', {
+        userId: options.userId,
+        organizationId: organization.id,
+        invitationId: invitation.id,
+        role: invitation.role
+      });
+
+      return success({ ...organization, role: invitation.role });
+    } catch (error) {
+      logger.error('Failed to accept organization invitation', {
+        userId: options.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return failure(AppExternalServiceError.databaseFailure('organization_invite_accept', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Share one of the user's jobs with an organization they can write to, or
+   * make it private again with a null organization
+   */
+  async setJobSharing(
+    userId: string,
+    jobId: number,
+    organizationId: number | null
+  ): Promise<OrganizationResult<JobDescription>> {
+    try {
+      const storage = this.getStorageProvider();
+      const job = await storage.getJobDescriptionById(jobId, userId);
+      if (!job) {
+        return failure(AppNotFoundError.jobDescription(jobId));
+      }
+
+      const sharingResult = await this.checkSharingChange(userId, job, organizationId, 'job description');
+      if (isFailure(sharingResult)) {
+        return sharingResult;
+      }
+
+      const updated = await storage.setJobDescriptionOrganization(jobId, organizationId);
+      if (!updated) {
+        return failure(AppNotFoundError.jobDescription(jobId));
+      }
+
+      logger.info('Job sharing changed', { userId, jobId, organizationId });
+      return success(updated);
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('job_sharing', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Share one of the user's resumes with an organization they can write to,
+   * or make it private again with a null organization
+   */
+  async setResumeSharing(
+    userId: string,
+    resumeId: number,
+    organizationId: number | null
+  ): Promise<OrganizationResult<Resume>> {
+    try {
+      const storage = this.getStorageProvider();
+      const resume = await storage.getResumeById(resumeId, userId);
+      if (!resume) {
+        return failure(AppNotFoundError.resume(resumeId));
+      }
+
+      const sharingResult = await this.checkSharingChange(userId, resume, organizationId, 'resume');
+      if (isFailure(sharingResult)) {
+        return sharingResult;
+      }
+
+      const updated = await storage.setResumeOrganization(resumeId, organizationId);
+      if (!updated) {
+        return failure(AppNotFoundError.resume(resumeId));
+      }
+
+      logger.info('Resume sharing changed', { userId, resumeId, organizationId });
+      return success(updated);
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('resume_sharing', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Whether the user may act on an item: owners can do anything with their
+   * own items, other members need the permission in the item's organization
+   */
+  async hasItemPermission(userId: string, item: ShareableItem, permission: OrganizationPermission): Promise<boolean> {
+    if (item.userId === userId) {
+      return true;
+    }
+    if (item.organizationId === null) {
+      return false;
+    }
+
+    const membership = await this.getStorageProvider().getOrganizationMembership(item.organizationId, userId);
+    return !!membership && hasOrganizationPermission(membership.role, permission);
+  }
+
+  // Only the item's owner may share it, and only into an organization where
+  // they can write; the owner or a writer in the current organization may unshare
+  private async checkSharingChange(
+    userId: string,
+    item: ShareableItem,
+    organizationId: number | null,
+    resource: string
+  ): Promise<OrganizationResult<true>> {
+    if (organizationId === null) {
+      return await this.hasItemPermission(userId, item, 'write')
+        ? success(true)
+        : failure(AppAuthenticationError.insufficientPermissions(resource, userId));
+    }
+
+    if (item.userId !== userId) {
+      return failure(AppAuthenticationError.insufficientPermissions(resource, userId));
+    }
+    const accessResult = await this.requirePermission(userId, organizationId, 'write');
+    return isFailure(accessResult) ? accessResult : success(true);
+  }
+
+  private async requirePermission(
+    userId: string,
+    organizationId: number,
+    permission: OrganizationPermission
+  ): Promise<OrganizationResult<{ organization: Organization; membership: OrganizationMember }>> {
+    const storage = this.getStorageProvider();
+    const [organization, membership] = await Promise.all([
+      storage.getOrganization(organizationId),
+      storage.getOrganizationMembership(organizationId, userId),
+    ]);
+
+    // Non-members can't tell an organization exists
+    if (!organization || !membership) {
+      return failure(new AppNotFoundError('Organization', organizationId));
+    }
+    if (!hasOrganizationPermission(membership.role, permission)) {
+      return failure(AppAuthenticationError.insufficientPermissions('organization', userId));
+    }
+    return success({ organization, membership });
+  }
+}
+
+// ===== SERVICE FACTORY =====
+
+/**
+ * Create an organization service instance with the provided or default storage
+ */
+export function createOrganizationService(storageProvider?: IStorage): OrganizationService {
+  return new OrganizationService(storageProvider);
+}
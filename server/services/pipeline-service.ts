@@ -0,0 +1,523 @@
+/**
+ * BUSINESS LOGIC: Hiring Pipeline Service Layer
+ * Tracks candidates through configurable per-job hiring stages
+ *
+ * @fileoverview Each job description owns an ordered list of pipeline stages
+ * (screened, interviewing, offered, ...). Every analyzed candidate for the job
+ * sits in exactly one stage, and every move between stages is recorded with the
+ * acting user and a timestamp so the history can be audited later.
+ *
+ * @example
+ * ```typescript
+ * const pipelineService = createPipelineService(storage);
+ *
+ * // Kanban board for a job
+ * const board = await pipelineService.getPipelineBoard('user123', 42);
+ *
+ * // Move a candidate to the next stage
+ * await pipelineService.moveCandidate({
+ *   userId: 'user123',
+ *   jobId: 42,
+ *   resumeId: 7,
+ *   toStage: 'interviewing',
+ *   note: 'Strong system design answers'
+ * });
+ * ```
+ */
+
+import { logger } from '../lib/logger';
+import { getStorage, IStorage } from '../storage';
+import { blindCandidateLabel } from '../lib/blind-review';
+import { createOrganizationService } from './organization-service';
+import {
+  success,
+  failure,
+  isFailure,
+  PipelineResult
+} from '@shared/result-types';
+import {
+  AppAuthenticationError,
+  AppNotFoundError,
+  AppValidationError,
+  AppBusinessLogicError,
+  AppExternalServiceError,
+  toAppError
+} from '@shared/errors';
+import type {
+  AnalysisResult,
+  CandidatePipelineEntry,
+  JobDescription,
+  PipelineStage,
+  PipelineTransition,
+  Resume
+} from '@shared/schema';
+import type { OrganizationPermission } from '@shared/organization-roles';
+
+// ===== CONSTANTS =====
+
+/**
+ * Stages every job starts with until its owner configures its own
+ */
+export const DEFAULT_PIPELINE_STAGES: ReadonlyArray<PipelineStageInput> = [
+  { key: 'new', name: 'New', isTerminal: false },
+  { key: 'screened', name: 'Screened', isTerminal: false },
+  { key: 'interviewing', name: 'Interviewing', isTerminal: false },
+  { key: 'offered', name: 'Offered', isTerminal: false },
+  { key: 'hired', name: 'Hired', isTerminal: true },
+  { key: 'rejected', name: 'Rejected', isTerminal: true },
+];
+
+const MAX_PIPELINE_STAGES = 20;
+const STAGE_KEY_PATTERN = /^[a-z0-9][a-z0-9_-]{0,49}$/;
+
+// ===== SERVICE INTERFACES =====
+
+/**
+ * Stage definition supplied when configuring a pipeline
+ */
+export interface PipelineStageInput {
+  key: string;
+  name: string;
+  isTerminal?: boolean;
+}
+
+/**
+ * Options for moving a candidate between stages
+ */
+export interface MoveCandidateOptions {
+  userId: string;
+  jobId: number;
+  resumeId: number;
+  toStage: string;
+  note?: string;
+}
+
+/**
+ * A candidate card as shown on the pipeline board
+ */
+export interface PipelineCandidate {
+  resumeId: number;
+  filename: string;
+  candidateName: string;
+  stage: string;
+  matchPercentage: number | null;
+  analysisId: number | null;
+  stageUpdatedAt: Date | null;
+}
+
+/**
+ * A board column: one stage and the candidates currently in it
+ */
+export interface PipelineColumn {
+  key: string;
+  name: string;
+  position: number;
+  isTerminal: boolean;
+  candidates: PipelineCandidate[];
+}
+
+/**
+ * Full pipeline board for a job
+ */
+export interface PipelineBoard {
+  jobId: number;
+  jobTitle: string;
+  stages: PipelineColumn[];
+  totalCandidates: number;
+}
+
+/**
+ * Result of moving a candidate
+ */
+export interface MoveCandidateResult {
+  entry: CandidatePipelineEntry;
+  transition: PipelineTransition | null;
+  changed: boolean;
+}
+
+// ===== PURE HELPERS =====
+
+/**
+ * Group analyzed candidates into board columns.
+ * Candidates without a pipeline entry, or whose entry points at a stage that
+ * no longer exists, land in the first stage.
+ */
+export function groupCandidatesByStage(
+  stages: PipelineStage[],
+  analyses: Array<AnalysisResult & { resume?: Resume }>,
+  entries: CandidatePipelineEntry[],
+  extraResumes: Resume[] = []
+): PipelineColumn[] {
+  const orderedStages = [...stages].sort((a, b) => a.position - b.position);
+  const stageKeys = new Set(orderedStages.map(stage => stage.key));
+  const defaultStage = orderedStages[0]?.key;
+  const entriesByResume = new Map(entries.map(entry => [entry.resumeId, entry]));
+
+  const columns = new Map<string, PipelineColumn>(
+    orderedStages.map(stage => [stage.key, {
+      key: stage.key,
+      name: stage.name,
+      position: stage.position,
+      isTerminal: stage.isTerminal,
+      candidates: [],
+    }])
+  );
+
+  const placeCandidate = (
+    resumeId: number,
+    filename: string,
+    matchPercentage: number | null,
+    analysisId: number | null
+  ) => {
+    const entry = entriesByResume.get(resumeId);
+    const stage = entry && stageKeys.has(entry.stage) ? entry.stage : defaultStage;
+    if (!stage) return;
+
+    columns.get(stage)!.candidates.push({
+      resumeId,
+      filename,
+      candidateName: filename.replace(/\.[^/.]+$/, ''),
+      stage,
+      matchPercentage,
+      analysisId,
+      stageUpdatedAt: entry?.updatedAt ?? null,
+    });
+  };
+
+  const placed = new Set<number>();
+  for (const analysis of analyses) {
+    if (analysis.resumeId === null || placed.has(analysis.resumeId)) continue;
+    placed.add(analysis.resumeId);
+    placeCandidate(
+      analysis.resumeId,
+      analysis.resume?.filename || `Resume ${analysis.resumeId}`,
+      analysis.matchPercentage,
+      analysis.id
+    );
+  }
+
+  // Candidates moved into the pipeline without (or before) an analysis
+  for (const resume of extraResumes) {
+    if (placed.has(resume.id)) continue;
+    placed.add(resume.id);
+    placeCandidate(resume.id, resume.filename, null, null);
+  }
+
+  for (const column of Array.from(columns.values())) {
+    column.candidates.sort((a, b) => (b.matchPercentage ?? -1) - (a.matchPercentage ?? -1));
+  }
+
+  return Array.from(columns.values());
+}
+
+/**
+ * Validate a stage configuration, returning an error message or null
+ */
+export function validateStageConfiguration(stages: PipelineStageInput[]): string | null {
+  if (stages.length === 0) {
+    return 'A pipeline needs at least one stage';
+  }
+
+  if (stages.length > MAX_PIPELINE_STAGES) {
+    return `Too many stages (max ${MAX_PIPELINE_STAGES})`;
+  }
+
+  const seen = new Set<string>();
+  for (const stage of stages) {
+    if (!STAGE_KEY_PATTERN.test(stage.key)) {
+      return `Invalid stage key '${stage.key}' (lowercase letters, digits, '-' and '_' only)`;
+    }
+    if (!stage.name?.trim()) {
+      return `Stage '${stage.key}' needs a name`;
+    }
+    if (seen.has(stage.key)) {
+      return `Duplicate stage key '${stage.key}'`;
+    }
+    seen.add(stage.key);
+  }
+
+  return null;
+}
+
+// ===== PIPELINE SERVICE IMPLEMENTATION =====
+
+/**
+ * Pipeline Service - Handles candidate stage tracking for jobs
+ */
+export class PipelineService {
+  constructor(private _storageProvider?: IStorage) {
+    logger.info('PipelineService initialized');
+  }
+
+  private getStorageProvider(): IStorage {
+    return this._storageProvider || getStorage();
+  }
+
+  /**
+   * Get the kanban board for a job: stages with their candidates
+   */
+  async getPipelineBoard(userId: string, jobId: number): Promise<PipelineResult<PipelineBoard>> {
+    try {
+      const jobResult = await this.getAuthorizedJob(userId, jobId, 'read');
+      if (isFailure(jobResult)) {
+        return jobResult;
+      }
+
+      const storage = this.getStorageProvider();
+      const stages = await this.ensureStages(jobId);
+      const [analyses, entries] = await Promise.all([
+        storage.getAnalysisResultsByJob(jobId, userId),
+        storage.getCandidatePipelineEntries(jobId),
+      ]);
+
+      const analyzedResumeIds = new Set(analyses.map(analysis => analysis.resumeId));
+      const unanalyzedEntries = entries.filter(entry => !analyzedResumeIds.has(entry.resumeId));
+      const extraResumes = (await Promise.all(
+        unanalyzedEntries.map(entry => storage.getResumeById(entry.resumeId, userId))
+      )).filter((resume): resume is Resume => !!resume);
+
+      const columns = groupCandidatesByStage(
+        stages,
+        analyses as Array<AnalysisResult & { resume?: Resume }>,
+        entries,
+        extraResumes
+      );
+
+      // Blind review jobs show anonymized labels on the board as well
+      const visibleColumns = jobResult.data.blindReview
+        ? columns.map(column => ({
+            ...column,
+            candidates: column.candidates.map(candidate => ({
+              ...candidate,
+              filename: blindCandidateLabel(candidate.resumeId),
+              candidateName: blindCandidateLabel(candidate.resumeId),
+            })),
+          }))
+        : columns;
+
+      return success({
+        jobId,
+        jobTitle: jobResult.data.title,
+        stages: visibleColumns,
+        totalCandidates: visibleColumns.reduce((sum, column) => sum + column.candidates.length, 0),
+      });
+    } catch (error) {
+      logger.error('Failed to build pipeline board', {
+        userId,
+        jobId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return failure(AppExternalServiceError.databaseFailure('pipeline_board', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Replace the stage configuration of a job's pipeline
+   */
+  async configureStages(
+    userId: string,
+    jobId: number,
+    stages: PipelineStageInput[]
+  ): Promise<PipelineResult<PipelineStage[]>> {
+    try {
+      const jobResult = await this.getAuthorizedJob(userId, jobId, 'write');
+      if (isFailure(jobResult)) {
+        return jobResult;
+      }
+
+      const validationError = validateStageConfiguration(stages);
+      if (validationError) {
+        return failure(new AppValidationError(validationError, 'stages'));
+      }
+
+      // Refuse to drop a stage that still holds candidates
+      const storage = this.getStorageProvider();
+      const newKeys = new Set(stages.map(stage => stage.key));
+      const orphaned = (await storage.getCandidatePipelineEntries(jobId))
+        .filter(entry => !newKeys.has(entry.stage));
+      if (orphaned.length > 0) {
+        const orphanedStages = Array.from(new Set(orphaned.map(entry => entry.stage)));
+        return failure(new AppBusinessLogicError(
+          'pipeline-configuration',
+          `Cannot remove stages that still contain candidates: ${orphanedStages.join(', ')}`,
+          { stages: orphanedStages, candidates: orphaned.length }
+        ));
+      }
+
+      const stored = await storage.replacePipelineStages(
+        jobId,
+        stages.map((stage, index) => ({
+          jobDescriptionId: jobId,
+          key: stage.key,
+          name: stage.name.trim(),
+          position: index,
+          isTerminal: stage.isTerminal ?? false,
+        }))
+      );
+
+      logger.info('Pipeline stages configured', {
+        userId,
+        jobId,
+        stageCount: stored.length
+      });
+
+      return success(stored);
+    } catch (error) {
+      logger.error('Failed to configure pipeline stages', {
+        userId,
+        jobId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return failure(AppExternalServiceError.databaseFailure('pipeline_configuration', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Move a candidate to another stage and record the transition
+   */
+  async moveCandidate(options: MoveCandidateOptions): Promise<PipelineResult<MoveCandidateResult>> {
+    const { userId, jobId, resumeId, toStage, note } = options;
+
+    try {
+      const jobResult = await this.getAuthorizedJob(userId, jobId, 'write');
+      if (isFailure(jobResult)) {
+        return jobResult;
+      }
+
+      const storage = this.getStorageProvider();
+      const resume = await storage.getResumeById(resumeId, userId);
+      if (!resume) {
+        return failure(AppNotFoundError.resume(resumeId));
+      }
+
+      const stages = await this.ensureStages(jobId);
+      if (!stages.some(stage => stage.key === toStage)) {
+        return failure(new AppValidationError(`Unknown pipeline stage '${toStage}'`, 'stage'));
+      }
+
+      const existing = await storage.getCandidatePipelineEntry(jobId, resumeId);
+      if (existing && existing.stage === toStage) {
+        return success({ entry: existing, transition: null, changed: false });
+      }
+
+      const entry = await storage.upsertCandidatePipelineEntry({
+        userId,
+        jobDescriptionId: jobId,
+        resumeId,
+        stage: toStage,
+      });
+
+      const transition = await storage.createPipelineTransition({
+        jobDescriptionId: jobId,
+        resumeId,
+        fromStage: existing?.stage ?? null,
+        toStage,
+        actorId: userId,
+        note: note?.trim() || null,
+      });
+
+      logger.info('Candidate moved in pipeline', {
+        userId,
+        jobId,
+        resumeId,
+        fromStage: existing?.stage ?? null,
+        toStage
+      });
+
+      return success({ entry, transition, changed: true });
+    } catch (error) {
+      logger.error('Failed to move candidate in pipeline', {
+        userId,
+        jobId,
+        resumeId,
+        toStage,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return failure(AppExternalServiceError.databaseFailure('pipeline_move', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Get the stage-transition history for a job, optionally for one candidate
+   */
+  async getTransitionHistory(
+    userId: string,
+    jobId: number,
+    resumeId?: number
+  ): Promise<PipelineResult<PipelineTransition[]>> {
+    try {
+      const jobResult = await this.getAuthorizedJob(userId, jobId, 'read');
+      if (isFailure(jobResult)) {
+        return jobResult;
+      }
+
+      const transitions = await this.getStorageProvider().getPipelineTransitions(jobId, resumeId);
+      return success(transitions);
+    } catch (error) {
+      logger.error('Failed to load pipeline history', {
+        userId,
+        jobId,
+        resumeId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return failure(AppExternalServiceError.databaseFailure('pipeline_history', toAppError(error).message));
+    }
+  }
+
+  // ===== PRIVATE HELPER METHODS =====
+
+  /**
+   * Load a job description the user can see and check their role allows the
+   * action: shared jobs are visible to every organization member, but only
+   * members who can write may change stages or move candidates
+   */
+  private async getAuthorizedJob(
+    userId: string,
+    jobId: number,
+    permission: OrganizationPermission
+  ): Promise<PipelineResult<JobDescription>> {
+    const storage = this.getStorageProvider();
+    const job = await storage.getJobDescriptionById(jobId, userId);
+    if (!job) {
+      return failure(AppNotFoundError.jobDescription(jobId));
+    }
+
+    const allowed = await createOrganizationService(storage).hasItemPermission(userId, job, permission);
+    if (!allowed) {
+      return failure(AppAuthenticationError.insufficientPermissions('job pipeline', userId));
+    }
+    return success(job);
+  }
+
+  /**
+   * Return the job's stages, seeding the defaults on first use
+   */
+  private async ensureStages(jobId: number): Promise<PipelineStage[]> {
+    const storage = this.getStorageProvider();
+    const stages = await storage.getPipelineStages(jobId);
+    if (stages.length > 0) {
+      return stages;
+    }
+
+    logger.debug('Seeding default pipeline stages', { jobId });
+    return storage.replacePipelineStages(
+      jobId,
+      DEFAULT_PIPELINE_STAGES.map((stage, index) => ({
+        jobDescriptionId: jobId,
+        key: stage.key,
+        name: stage.name,
+        position: index,
+        isTerminal: stage.isTerminal ?? false,
+      }))
+    );
+  }
+}
+
+// ===== SERVICE FACTORY =====
+
+/**
+ * Create a pipeline service instance with the provided or default storage
+ */
+export function createPipelineService(storageProvider?: IStorage): PipelineService {
+  return new PipelineService(storageProvider);
+}
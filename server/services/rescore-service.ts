@@ -0,0 +1,260 @@
+/**
+ * BUSINESS LOGIC: Re-scoring Service Layer
+ * Replays stored analyses under a new scoring config and reports what would change
+ *
+ * @fileoverview A re-scoring run takes a candidate scoring config and a set of
+ * jobs, replays the latest analysis of every candidate for those jobs through
+ * lib/rescoring, and writes one versioned rescored_analysis_results row per
+ * analysis. The original analyses are left untouched. When the run finishes
+ * it carries a diff report: rank changes per job, score deltas and candidates
+ * that newly fail or now pass the job's requirement gates.
+ *
+ * Replays make no AI calls, so runs are processed in-process rather than
+ * through the AI analysis queue.
+ *
+ * @example
+ * ```typescript
+ * const rescoreService = createRescoreService(storage);
+ *
+ * const run = await rescoreService.createRun({
+ *   label: 'Raise semantic weight',
+ *   jobIds: [12, 15],
+ *   config: { defaultWeights: { skills: 0.4, experience: 0.25, education: 0.1, semantic: 0.25 } }
+ * });
+ * const finished = await rescoreService.getRun(run.data.id);
+ * ```
+ */
+
+import { logger } from '../lib/logger';
+import { getStorage, IStorage } from '../storage';
+import {
+  analysisWeightsFromAudit,
+  buildJobRescoreReport,
+  computeScoringVersion,
+  latestAnalysisPerResume,
+  rescoreAnalysis,
+  resolveRescoreConfig,
+  summarizeRescoreReports,
+  type ResolvedRescoreConfig,
+  type RescoredEntry
+} from '../lib/rescoring';
+import {
+  success,
+  failure,
+  RescoreResult
+} from '@shared/result-types';
+import {
+  AppNotFoundError,
+  AppValidationError,
+  AppExternalServiceError
+} from '@shared/errors';
+import type {
+  JobDescription,
+  RescoreConfig,
+  RescoreJobReport,
+  RescoreRun
+} from '@shared/schema';
+
+// ===== CONSTANTS =====
+
+export const MAX_RESCORE_JOBS = 50;
+const MAX_ERROR_LENGTH = 500;
+
+// ===== SERVICE INTERFACES =====
+
+/**
+ * Options for starting a re-scoring run
+ */
+export interface CreateRescoreRunOptions {
+  label?: string;
+  config: RescoreConfig;
+  jobIds: number[];
+}
+
+// ===== RESCORE SERVICE IMPLEMENTATION =====
+
+/**
+ * Re-scoring Service - Runs and reports for scoring config changes
+ */
+export class RescoreService {
+  constructor(private _storageProvider?: IStorage) {
+    logger.debug('RescoreService initialized');
+  }
+
+  private getStorageProvider(): IStorage {
+    return this._storageProvider || getStorage();
+  }
+
+  /**
+   * Validate the jobs, record the run and start processing it
+   */
+  async createRun(options: CreateRescoreRunOptions): Promise<RescoreResult<RescoreRun>> {
+    const jobIds = Array.from(new Set(options.jobIds));
+    if (jobIds.length === 0 || jobIds.length > MAX_RESCORE_JOBS) {
+      return failure(new AppValidationError(
+        `A re-scoring run must cover between 1 and ${MAX_RESCORE_JOBS} jobs`,
+        'jobIds'
+      ));
+    }
+
+    try {
+      const storage = this.getStorageProvider();
+      for (const jobId of jobIds) {
+        if (!(await storage.getJobDescription(jobId))) {
+          return failure(AppNotFoundError.jobDescription(jobId));
+        }
+      }
+
+      const run = await storage.createRescoreRun({
+        label: options.label ?? null,
+        scoringVersion: computeScoringVersion(resolveRescoreConfig(options.config)),
+        config: options.config,
+        jobIds,
+        status: 'queued',
+      });
+
+      logger.info('Re-scoring run queued', { runId: run.id, scoringVersion: run.scoringVersion, jobs: jobIds.length });
+
+      setImmediate(() => {
+        this.processRun(run.id).catch(error => {
+          logger.error('Re-scoring run failed', { runId: run.id, error });
+        });
+      });
+
+      return success(run);
+    } catch (error) {
+      logger.error('Failed to create re-scoring run', { error });
+      return failure(AppExternalServiceError.databaseFailure(
+        'create_rescore_run',
+        error instanceof Error ? error.message : String(error)
+      ));
+    }
+  }
+
+  /**
+   * Get a run with its report once completed
+   */
+  async getRun(runId: number): Promise<RescoreResult<RescoreRun>> {
+    try {
+      const run = await this.getStorageProvider().getRescoreRun(runId);
+      if (!run) {
+        return failure(new AppNotFoundError('Re-scoring run', runId));
+      }
+      return success(run);
+    } catch (error) {
+      logger.error('Failed to get re-scoring run', { runId, error });
+      return failure(AppExternalServiceError.databaseFailure(
+        'get_rescore_run',
+        error instanceof Error ? error.message : String(error)
+      ));
+    }
+  }
+
+  /**
+   * Replay every job in the run, write the rescored rows and store the report
+   */
+  async processRun(runId: number): Promise<void> {
+    const storage = this.getStorageProvider();
+    const run = await storage.getRescoreRun(runId);
+    if (!run || run.status === 'completed' || run.status === 'failed') {
+      return;
+    }
+
+    await storage.updateRescoreRun(runId, { status: 'running', startedAt: new Date() });
+
+    try {
+      const config = resolveRescoreConfig(run.config);
+      const reports: RescoreJobReport[] = [];
+      let rescoredAnalyses = 0;
+
+      for (const jobId of run.jobIds) {
+        const job = await storage.getJobDescription(jobId);
+        if (!job) {
+          logger.warn('Job removed before re-scoring, skipping', { runId, jobId });
+          continue;
+        }
+
+        const report = await this.rescoreJob(run, job, config);
+        reports.push(report);
+        rescoredAnalyses += report.candidates.length;
+        await storage.updateRescoreRun(runId, { rescoredAnalyses });
+      }
+
+      const report = summarizeRescoreReports(run.scoringVersion, reports);
+      await storage.updateRescoreRun(runId, {
+        status: 'completed',
+        totalAnalyses: rescoredAnalyses,
+        rescoredAnalyses,
+        report,
+        completedAt: new Date(),
+      });
+
+      logger.info('Re-scoring run completed', { runId, ...report.summary });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await storage.updateRescoreRun(runId, {
+        status: 'failed',
+        error: message.slice(0, MAX_ERROR_LENGTH),
+        completedAt: new Date(),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Replay the latest analysis of each candidate for one job
+   * @private
+   */
+  private async rescoreJob(
+    run: RescoreRun,
+    job: JobDescription,
+    config: ResolvedRescoreConfig
+  ): Promise<RescoreJobReport> {
+    const storage = this.getStorageProvider();
+    const results = latestAnalysisPerResume(await storage.getAnalysisResultsByJobDescriptionId(job.id));
+
+    const entries: RescoredEntry[] = [];
+    for (const result of results) {
+      const resumeId = result.resumeId!;
+      const [resume, audit] = await Promise.all([
+        storage.getResume(resumeId),
+        storage.searchAuditRecords({ jobId: job.id, resumeId, eventType: 'analysis', limit: 1 }),
+      ]);
+      const originalWeights = audit.records[0]
+        ? analysisWeightsFromAudit(audit.records[0].payload)
+        : undefined;
+
+      entries.push({
+        result,
+        rescored: rescoreAnalysis({ result, job, resume, originalWeights }, config),
+      });
+    }
+
+    await storage.createRescoredAnalysisResults(entries.map(({ result, rescored }) => ({
+      runId: run.id,
+      analysisResultId: result.id,
+      jobDescriptionId: job.id,
+      resumeId: result.resumeId!,
+      scoringVersion: run.scoringVersion,
+      previousMatchPercentage: result.matchPercentage,
+      matchPercentage: rescored.matchPercentage,
+      mlScore: rescored.mlScore,
+      llmScore: rescored.llmScore,
+      llmScoreEstimated: rescored.llmScoreEstimated,
+      scoringWeights: rescored.scoringWeights,
+      ensembleWeights: rescored.ensembleWeights,
+      gateViolations: rescored.gateViolations,
+    })));
+
+    return buildJobRescoreReport(job, entries);
+  }
+}
+
+// ===== FACTORY FUNCTION =====
+
+/**
+ * Create a re-scoring service instance with the provided or default storage
+ */
+export function createRescoreService(storageProvider?: IStorage): RescoreService {
+  return new RescoreService(storageProvider);
+}
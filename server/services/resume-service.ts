@@ -24,6 +24,12 @@
  *   page: 1,
  *   limit: 20
  * });
+ *
+ * // Confirm that an upload flagged as a duplicate is the same person
+ * const group = await resumeService.mergeDuplicates({
+ *   userId: 'user123',
+ *   resumeId: 42
+ * });
  * ```
  */
 
@@ -31,9 +37,17 @@ import { logger } from '../lib/logger';
 import { getStorage, IStorage } from '../storage';
 import { QueryBuilder, ResumeQueryBuilder } from '../lib/query-builder';
 import { analyzeResumeWithCache } from '../lib/cached-ai-operations';
+import { withLlmUsageContext } from '../lib/llm-usage';
 import { getUserTierInfo } from '../lib/user-tiers';
-import { parseDocument } from '../lib/document-parser';
+import { parseDocument, extractResumeSections } from '../lib/document-parser';
+import { extractResumeEntities } from '../lib/resume-entity-extractor';
 import { generateEmbedding } from '../lib/embeddings';
+import { toEmbeddingVector } from '../lib/vector-search';
+import { extractResumeFingerprint, findDuplicateMatch, type DuplicateMatch } from '../lib/resume-dedup';
+import { emitWebhookEvent } from './webhook-service';
+import { createOrganizationService } from './organization-service';
+import { createSkillCorrectionService } from './skill-correction-service';
+import { publishBatchEvent } from '../lib/batch-events';
 import {
   success,
   failure,
@@ -50,17 +64,23 @@ import {
   mapNotFoundToBusinessLogic
 } from '@shared/type-utilities';
 import {
+  AppAuthenticationError,
   AppNotFoundError,
   AppValidationError,
   AppBusinessLogicError,
   AppExternalServiceError,
   toAppError
 } from '@shared/errors';
+import type { OrganizationPermission } from '@shared/organization-roles';
 import {
   AnalyzedResumeData,
   AnalyzeResumeResponse,
+  CandidateGroup,
+  DuplicateSignal,
+  DuplicateStatus,
   Resume,
-  InsertResume
+  InsertResume,
+  structuredResumeDataSchema
 } from '@shared/schema';
 
 // Prefix unused imports to silence warnings
@@ -72,6 +92,23 @@ const _transformNotFoundError = transformNotFoundError;
 const _AppBusinessLogicError = AppBusinessLogicError;
 const _toAppError = toAppError;
 
+// Uploads to the same library are fingerprinted and stored one at a time, so
+// two copies of a person in one batch are compared with each other
+const libraryUploadQueues = new Map<string, Promise<unknown>>();
+
+function inLibraryQueue<T>(libraryKey: string, task: () => Promise<T>): Promise<T> {
+  const previous = libraryUploadQueues.get(libraryKey) ?? Promise.resolve();
+  const next = previous.then(task, task);
+  const settled = next.catch(() => undefined);
+  libraryUploadQueues.set(libraryKey, settled);
+  void settled.then(() => {
+    if (libraryUploadQueues.get(libraryKey) === settled) {
+      libraryUploadQueues.delete(libraryKey);
+    }
+  });
+  return next;
+}
+
 // ===== SERVICE INPUT TYPES =====
 
 /**
@@ -91,6 +128,8 @@ export interface UploadResumeInput {
   sessionId?: string;
   /** Optional batch ID for grouping */
   batchId?: string;
+  /** Share the resume with this organization */
+  organizationId?: number;
   /** Whether to automatically analyze the resume */
   autoAnalyze?: boolean;
 }
@@ -105,6 +144,8 @@ export interface GetUserResumesInput {
   sessionId?: string;
   /** Optional batch filter */
   batchId?: string;
+  /** List the resumes shared with this organization instead of the user's own */
+  organizationId?: number;
   /** Page number for pagination */
   page?: number;
   /** Items per page */
@@ -141,6 +182,18 @@ export interface AnalyzeResumeInput {
   forceReanalysis?: boolean;
 }
 
+/**
+ * Input for merging a candidate group
+ */
+export interface MergeDuplicatesInput {
+  /** User resolving the duplicates */
+  userId: string;
+  /** Any resume in the group */
+  resumeId: number;
+  /** Resume to keep as the group's primary (defaults to the current primary) */
+  primaryResumeId?: number;
+}
+
 /**
  * Input for batch resume upload
  */
@@ -158,6 +211,8 @@ export interface BatchUploadInput {
   sessionId?: string;
   /** Batch ID for grouping */
   batchId?: string;
+  /** Share the resumes with this organization */
+  organizationId?: number;
   /** Whether to automatically analyze all resumes */
   autoAnalyze?: boolean;
 }
@@ -184,6 +239,13 @@ export interface ResumeUploadResult {
   analyzedData?: AnalyzedResumeData;
   /** Processing warnings */
   warnings?: string[];
+  /** Set when the upload looks like a resume already in the library */
+  duplicate?: {
+    candidateGroupId: number;
+    duplicateOfResumeId: number;
+    signals: DuplicateSignal[];
+    similarity: number | null;
+  };
   /** Processing time */
   processingTime: number;
 }
@@ -201,6 +263,8 @@ export interface ResumeListResult {
     uploadedAt: string;
     hasAnalysis: boolean;
     analysisDate?: string;
+    candidateGroupId: number | null;
+    duplicateStatus: DuplicateStatus | null;
   }>;
   /** Pagination information */
   pagination: {
@@ -218,6 +282,26 @@ export interface ResumeListResult {
   };
 }
 
+/**
+ * A person's resumes linked by duplicate detection
+ */
+export interface CandidateGroupView {
+  /** Group ID */
+  id: number;
+  /** The resume analyzed for the group */
+  primaryResumeId: number;
+  /** Member resumes, oldest first */
+  members: Array<{
+    id: number;
+    filename: string;
+    uploadedAt: string;
+    isPrimary: boolean;
+    duplicateStatus: DuplicateStatus | null;
+    duplicateSignals: DuplicateSignal[];
+    hasAnalysis: boolean;
+  }>;
+}
+
 /**
  * Result of batch upload operation
  */
@@ -280,7 +364,7 @@ export class ResumeService {
   async uploadResume(
     input: UploadResumeInput
   ): Promise<ResumeAnalysisResult<ResumeUploadResult>> {
-    const { userId, file, sessionId, batchId, autoAnalyze = false } = input;
+    const { userId, file, sessionId, batchId, organizationId, autoAnalyze = false } = input;
     const startTime = Date.now();
 
     logger.info('Starting resume upload', {
@@ -312,12 +396,18 @@ export class ResumeService {
           filename: file.originalname,
           error: error instanceof Error ? error.message : 'Unknown error'
         });
+        publishBatchEvent(batchId, 'processing-error', {
+          stage: 'parsing',
+          filename: file.originalname,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
         return failure(AppExternalServiceError.aiProviderFailure('DocumentParser', 'text_extraction', error instanceof Error ? error.message : 'Unknown error'));
       }
 
       // Create resume record
       const resumeData: InsertResume = {
         userId,
+        organizationId: organizationId ?? null,
         sessionId: sessionId || null,
         batchId: batchId || null,
         filename: file.originalname,
@@ -326,22 +416,28 @@ export class ResumeService {
         content: extractedText
       };
 
-      const resume = await this.getStorageProvider().createResume(resumeData);
+      const { resume, duplicate } = await this.createResumeWithDuplicateCheck(resumeData, extractedText);
 
       let analyzedData: AnalyzedResumeData | undefined;
       
       // Perform analysis if requested
       if (autoAnalyze && extractedText.trim().length > 0) {
         const userTierInfo = getUserTierInfo(userId);
-        const analysisResult = await analyzeResumeWithCache(extractedText, userTierInfo);
+        const analysisResult = await withLlmUsageContext({ userId }, () =>
+          analyzeResumeWithCache(extractedText, userTierInfo)
+        );
         
         if (isSuccess(analysisResult)) {
-          analyzedData = analysisResult.data.analyzedData;
+          analyzedData = await this.withSkillCorrections(
+            this.withStructuredEntities(analysisResult.data.analyzedData, extractedText, resume.id),
+            extractedText,
+            userId
+          );
           
           // Generate embeddings for semantic similarity matching
           try {
             logger.info('Generating embeddings for resume', { resumeId: resume.id });
-            const contentEmbedding = await generateEmbedding(extractedText);
+            const contentEmbedding = resume.embedding ?? await generateEmbedding(extractedText);
             const skillsText = analyzedData.skills?.join(' ') || '';
             const skillsEmbedding = skillsText ? await generateEmbedding(skillsText) : null;
             
@@ -393,6 +489,24 @@ export class ResumeService {
         filename: file.originalname,
         extractedTextLength: extractedText.length,
         hasAnalysis: !!analyzedData,
+        duplicateOf: duplicate?.resume.id,
+        processingTime
+      });
+
+      emitWebhookEvent(userId, 'resume.parsed', {
+        resumeId: resume.id,
+        filename: resume.filename,
+        sessionId: sessionId || null,
+        batchId: batchId || null,
+        textLength: extractedText.length,
+        analyzed: !!analyzedData
+      });
+
+      publishBatchEvent(batchId, 'resume-parsed', {
+        resumeId: resume.id,
+        filename: resume.filename,
+        textLength: extractedText.length,
+        analyzed: !!analyzedData,
         processingTime
       });
 
@@ -405,6 +519,14 @@ export class ResumeService {
         extractedText,
         analyzedData,
         warnings,
+        ...(duplicate && resume.candidateGroupId !== null && {
+          duplicate: {
+            candidateGroupId: resume.candidateGroupId,
+            duplicateOfResumeId: duplicate.resume.id,
+            signals: duplicate.signals,
+            similarity: duplicate.similarity
+          }
+        }),
         processingTime
       });
 
@@ -414,6 +536,12 @@ export class ResumeService {
         filename: file.originalname,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
+
+      publishBatchEvent(batchId, 'processing-error', {
+        stage: 'upload',
+        filename: file.originalname,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
       
       return failure(AppExternalServiceError.databaseFailure('resume_upload', error instanceof Error ? error.message : 'Unknown error'));
     }
@@ -428,7 +556,7 @@ export class ResumeService {
   async uploadResumesBatch(
     input: BatchUploadInput
   ): Promise<ResumeAnalysisResult<BatchUploadResult>> {
-    const { userId, files, sessionId, batchId, autoAnalyze = false } = input;
+    const { userId, files, sessionId, batchId, organizationId, autoAnalyze = false } = input;
     const startTime = Date.now();
     const generatedBatchId = batchId || `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
@@ -462,6 +590,7 @@ export class ResumeService {
         file,
         sessionId,
         batchId: generatedBatchId,
+        organizationId,
         autoAnalyze
       });
 
@@ -515,6 +644,7 @@ export class ResumeService {
       userId, 
       sessionId, 
       batchId, 
+      organizationId,
       page = 1, 
       limit = 20,
       fileType,
@@ -556,7 +686,7 @@ export class ResumeService {
       }
 
       // Execute query using storage provider
-      const resumes = await this.getStorageProvider().getResumesByUserId(userId, sessionId, batchId);
+      const resumes = await this.getStorageProvider().getResumesByUserId(userId, sessionId, batchId, organizationId);
       
       if (!resumes || resumes.length === 0) {
         return failure(mapNotFoundToBusinessLogic(AppNotFoundError.resourceNotFound('resumes')));
@@ -574,7 +704,9 @@ export class ResumeService {
         fileType: resume.fileType || 'unknown',
         uploadedAt: resume.createdAt?.toISOString() || new Date().toISOString(),
         hasAnalysis: !!resume.analyzedData,
-        analysisDate: resume.updatedAt?.toISOString()
+        analysisDate: resume.updatedAt?.toISOString(),
+        candidateGroupId: resume.candidateGroupId ?? null,
+        duplicateStatus: resume.duplicateStatus ?? null
       }));
 
       const queryTime = Date.now() - startTime;
@@ -663,6 +795,11 @@ export class ResumeService {
       return resumeResult; // Already returns proper App error types
     }
 
+    const permissionResult = await this.checkResumePermission(userId, resumeResult.data, 'analyze');
+    if (isFailure(permissionResult)) {
+      return permissionResult;
+    }
+
     const resume = resumeResult.data;
 
     // Check if already analyzed and not forcing re-analysis
@@ -687,17 +824,29 @@ export class ResumeService {
     }
 
     const userTierInfo = getUserTierInfo(userId);
-    const analysisResult = await analyzeResumeWithCache(resume.content, userTierInfo);
+    const content = resume.content;
+    const analysisResult = await withLlmUsageContext({ userId }, () =>
+      analyzeResumeWithCache(content, userTierInfo)
+    );
     
     if (isFailure(analysisResult)) {
       return failure(AppExternalServiceError.aiProviderFailure('ResumeAnalysis', 'analysis', analysisResult.error.message));
     }
 
+    const analysisResponse: AnalyzeResumeResponse = {
+      ...analysisResult.data,
+      analyzedData: await this.withSkillCorrections(
+        this.withStructuredEntities(analysisResult.data.analyzedData, resume.content, resumeId),
+        resume.content,
+        userId
+      )
+    };
+
     // Generate embeddings for semantic similarity matching  
     try {
       logger.info('Generating embeddings for resume analysis', { resumeId });
       const contentEmbedding = await generateEmbedding(resume.content);
-      const skillsText = analysisResult.data.analyzedData.skills?.join(' ') || '';
+      const skillsText = analysisResponse.analyzedData.skills?.join(' ') || '';
       const skillsEmbedding = skillsText ? await generateEmbedding(skillsText) : null;
       
       // Update resume with embeddings
@@ -717,7 +866,7 @@ export class ResumeService {
 
     // Update resume with analysis
     try {
-      await this.getStorageProvider().updateResumeAnalysis(resumeId, analysisResult.data);
+      await this.getStorageProvider().updateResumeAnalysis(resumeId, analysisResponse);
     } catch (error) {
       logger.error('Failed to update resume with analysis', { resumeId, error });
       // Return analysis result anyway - storage update failure is not critical
@@ -725,11 +874,11 @@ export class ResumeService {
 
     logger.info('Resume analysis completed', {
       resumeId,
-      skillsFound: analysisResult.data.analyzedData.skills?.length || 0,
+      skillsFound: analysisResponse.analyzedData.skills?.length || 0,
       processingTime: Date.now() - startTime
     });
 
-    return success(analysisResult.data);
+    return success(analysisResponse);
   }
 
   /**
@@ -752,6 +901,11 @@ export class ResumeService {
         return resumeResult; // Already returns App error types
       }
 
+      const permissionResult = await this.checkResumePermission(userId, resumeResult.data, 'write');
+      if (isFailure(permissionResult)) {
+        return permissionResult;
+      }
+
       // Delete resume
       // TODO: Implement deleteResume method in storage layer
       throw new Error('Delete resume functionality not yet implemented');
@@ -770,6 +924,390 @@ export class ResumeService {
     }
   }
 
+  /**
+   * Gets the candidate group a resume was linked to as a duplicate
+   * 
+   * @param userId - User requesting the group
+   * @param resumeId - Any resume in the group
+   * @returns Result containing the group and its members or error
+   */
+  async getCandidateGroup(
+    userId: string,
+    resumeId: number
+  ): Promise<ResumeAnalysisResult<CandidateGroupView>> {
+    const groupResult = await this.loadCandidateGroup(userId, resumeId, 'read');
+    if (isFailure(groupResult)) {
+      return groupResult;
+    }
+
+    const { group, members } = groupResult.data;
+    return success(this.toCandidateGroupView(group, members));
+  }
+
+  /**
+   * Confirms that the resumes in a candidate group are the same person. The
+   * primary resume stays the one that is analyzed; the others are marked
+   * merged, which analysis can skip.
+   * 
+   * @param input - Group to merge and the resume to keep as primary
+   * @returns Result containing the merged group or error
+   */
+  async mergeDuplicates(
+    input: MergeDuplicatesInput
+  ): Promise<ResumeAnalysisResult<CandidateGroupView>> {
+    const { userId, resumeId } = input;
+
+    const groupResult = await this.loadCandidateGroup(userId, resumeId, 'write');
+    if (isFailure(groupResult)) {
+      return groupResult;
+    }
+
+    const { group, members } = groupResult.data;
+    const primaryResumeId = input.primaryResumeId ?? group.primaryResumeId;
+    if (!members.some(member => member.id === primaryResumeId)) {
+      return failure(new AppValidationError('Primary resume must belong to the candidate group', 'primaryResumeId'));
+    }
+
+    try {
+      const storage = this.getStorageProvider();
+      const mergedGroup = primaryResumeId === group.primaryResumeId
+        ? group
+        : await storage.setCandidateGroupPrimary(group.id, primaryResumeId) ?? group;
+
+      const mergedMembers: Resume[] = [];
+      for (const member of members) {
+        const isPrimary = member.id === primaryResumeId;
+        const updated = await storage.updateResumeDuplicateState(member.id, {
+          candidateGroupId: group.id,
+          duplicateStatus: isPrimary ? null : 'merged',
+          duplicateSignals: isPrimary ? null : member.duplicateSignals
+        });
+        mergedMembers.push(updated ?? member);
+      }
+
+      logger.info('Candidate group merged', {
+        userId,
+        candidateGroupId: group.id,
+        primaryResumeId,
+        merged: members.length - 1
+      });
+
+      return success(this.toCandidateGroupView(mergedGroup, mergedMembers));
+    } catch (error) {
+      logger.error('Failed to merge candidate group', {
+        userId,
+        candidateGroupId: group.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return failure(AppExternalServiceError.databaseFailure('merge_duplicates', error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }
+
+  /**
+   * Keeps a resume flagged as a duplicate as a separate candidate by taking
+   * it out of its group. A group left with a single resume is dissolved.
+   * 
+   * @param userId - User resolving the duplicate
+   * @param resumeId - Resume to keep separate
+   * @returns Result containing the remaining group, or null once dissolved
+   */
+  async keepAsSeparateCandidate(
+    userId: string,
+    resumeId: number
+  ): Promise<ResumeAnalysisResult<CandidateGroupView | null>> {
+    const groupResult = await this.loadCandidateGroup(userId, resumeId, 'write');
+    if (isFailure(groupResult)) {
+      return groupResult;
+    }
+
+    const { group, members } = groupResult.data;
+    const remaining = members.filter(member => member.id !== resumeId);
+
+    try {
+      const storage = this.getStorageProvider();
+      await storage.updateResumeDuplicateState(resumeId, {
+        candidateGroupId: null,
+        duplicateStatus: null,
+        duplicateSignals: null
+      });
+
+      if (remaining.length <= 1) {
+        await storage.deleteCandidateGroup(group.id);
+        logger.info('Candidate group dissolved', { userId, candidateGroupId: group.id, resumeId });
+        return success(null);
+      }
+
+      let updatedGroup = group;
+      if (group.primaryResumeId === resumeId) {
+        // Promote the oldest remaining copy so the group still has one to analyze
+        const [primary] = remaining;
+        updatedGroup = await storage.setCandidateGroupPrimary(group.id, primary.id) ?? group;
+        remaining[0] = await storage.updateResumeDuplicateState(primary.id, {
+          candidateGroupId: group.id,
+          duplicateStatus: null,
+          duplicateSignals: null
+        }) ?? primary;
+      }
+
+      logger.info('Resume kept as a separate candidate', { userId, candidateGroupId: group.id, resumeId });
+
+      return success(this.toCandidateGroupView(updatedGroup, remaining));
+    } catch (error) {
+      logger.error('Failed to keep resume as a separate candidate', {
+        userId,
+        resumeId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return failure(AppExternalServiceError.databaseFailure('keep_duplicate', error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }
+
+  /**
+   * Checks a role permission for resumes shared through an organization
+   * 
+   * @param userId - User acting on the resume
+   * @param resume - Resume the user can see
+   * @param permission - Permission the action needs
+   * @returns Result indicating whether the action is allowed
+   */
+  private async checkResumePermission(
+    userId: string,
+    resume: Resume,
+    permission: OrganizationPermission
+  ): Promise<ResumeAnalysisResult<true>> {
+    const allowed = await createOrganizationService(this.getStorageProvider())
+      .hasItemPermission(userId, resume, permission);
+    return allowed
+      ? success(true)
+      : failure(AppAuthenticationError.insufficientPermissions('resume', userId));
+  }
+
+  /**
+   * Stores a new resume with its fingerprints and links it to a candidate
+   * group when it matches a resume already in the same library (the user's
+   * own resumes, or the organization's). Embeddings are only compared when
+   * the cheap fingerprints miss and the library has embeddings to compare
+   * with, which is the case for analyzed resumes.
+   * 
+   * @param resumeData - Resume record to store
+   * @param text - Extracted resume text
+   * @returns The stored resume and the duplicate it matched, if any
+   */
+  private async createResumeWithDuplicateCheck(
+    resumeData: InsertResume,
+    text: string
+  ): Promise<{ resume: Resume; duplicate: DuplicateMatch | null }> {
+    const storage = this.getStorageProvider();
+    const fingerprint = extractResumeFingerprint(text);
+    const libraryKey = resumeData.organizationId ? `org:${resumeData.organizationId}` : `user:${resumeData.userId}`;
+
+    return inLibraryQueue(libraryKey, async () => {
+      const fingerprinted: InsertResume = {
+        ...resumeData,
+        contentHash: fingerprint.contentHash,
+        contactEmail: fingerprint.email,
+        contactPhone: fingerprint.phone
+      };
+      let duplicate: DuplicateMatch | null = null;
+
+      try {
+        const library = await storage.getResumesByUserId(
+          resumeData.userId ?? '',
+          undefined,
+          undefined,
+          resumeData.organizationId ?? undefined
+        );
+        duplicate = findDuplicateMatch(fingerprint, null, library);
+
+        if (!duplicate && library.some(resume => toEmbeddingVector(resume.embedding))) {
+          const embedding = await generateEmbedding(text);
+          fingerprinted.embedding = embedding;
+          duplicate = findDuplicateMatch(fingerprint, embedding, library);
+        }
+
+        if (duplicate) {
+          fingerprinted.candidateGroupId = await this.linkToCandidateGroup(duplicate.resume, resumeData);
+          fingerprinted.duplicateStatus = 'suspected';
+          fingerprinted.duplicateSignals = duplicate.signals;
+
+          logger.info('Upload matches an existing resume', {
+            filename: resumeData.filename,
+            duplicateOf: duplicate.resume.id,
+            candidateGroupId: fingerprinted.candidateGroupId,
+            signals: duplicate.signals
+          });
+        }
+      } catch (error) {
+        logger.warn('Duplicate detection failed, storing the resume ungrouped', {
+          filename: resumeData.filename,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        duplicate = null;
+        fingerprinted.candidateGroupId = null;
+        fingerprinted.duplicateStatus = null;
+        fingerprinted.duplicateSignals = null;
+      }
+
+      const resume = await storage.createResume(fingerprinted);
+      return { resume, duplicate };
+    });
+  }
+
+  /**
+   * The candidate group to add a new copy of `original` to, creating one with
+   * the original as its primary resume on the first duplicate
+   */
+  private async linkToCandidateGroup(original: Resume, resumeData: InsertResume): Promise<number> {
+    if (original.candidateGroupId !== null) {
+      return original.candidateGroupId;
+    }
+
+    const storage = this.getStorageProvider();
+    const group = await storage.createCandidateGroup({
+      userId: resumeData.userId ?? null,
+      organizationId: resumeData.organizationId ?? null,
+      primaryResumeId: original.id
+    });
+    await storage.updateResumeDuplicateState(original.id, {
+      candidateGroupId: group.id,
+      duplicateStatus: null,
+      duplicateSignals: null
+    });
+    return group.id;
+  }
+
+  /**
+   * Loads the candidate group of a resume the user can see, with the member
+   * resumes the user can also see
+   * 
+   * @param userId - User acting on the group
+   * @param resumeId - Any resume in the group
+   * @param permission - Permission the action needs on that resume
+   * @returns Result containing the group and members or error
+   */
+  private async loadCandidateGroup(
+    userId: string,
+    resumeId: number,
+    permission: OrganizationPermission
+  ): Promise<ResumeAnalysisResult<{ group: CandidateGroup; members: Resume[] }>> {
+    const resumeResult = await this.getResumeById(userId, resumeId);
+    if (isFailure(resumeResult)) {
+      return resumeResult;
+    }
+
+    const permissionResult = await this.checkResumePermission(userId, resumeResult.data, permission);
+    if (isFailure(permissionResult)) {
+      return permissionResult;
+    }
+
+    const groupId = resumeResult.data.candidateGroupId;
+    if (groupId === null) {
+      return failure(AppNotFoundError.resourceNotFound('Candidate group'));
+    }
+
+    try {
+      const storage = this.getStorageProvider();
+      const group = await storage.getCandidateGroup(groupId);
+      if (!group) {
+        return failure(AppNotFoundError.resourceNotFound('Candidate group'));
+      }
+
+      const organizationService = createOrganizationService(storage);
+      const members: Resume[] = [];
+      for (const member of await storage.getResumesByCandidateGroup(groupId)) {
+        if (await organizationService.hasItemPermission(userId, member, 'read')) {
+          members.push(member);
+        }
+      }
+
+      return success({ group, members });
+    } catch (error) {
+      logger.error('Failed to load candidate group', {
+        userId,
+        resumeId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return failure(AppExternalServiceError.databaseFailure('get_candidate_group', error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }
+
+  private toCandidateGroupView(group: CandidateGroup, members: Resume[]): CandidateGroupView {
+    return {
+      id: group.id,
+      primaryResumeId: group.primaryResumeId,
+      members: members.map(member => ({
+        id: member.id,
+        filename: member.filename,
+        uploadedAt: member.createdAt?.toISOString() || new Date().toISOString(),
+        isPrimary: member.id === group.primaryResumeId,
+        duplicateStatus: member.duplicateStatus ?? null,
+        duplicateSignals: member.duplicateSignals ?? [],
+        hasAnalysis: !!member.analyzedData
+      }))
+    };
+  }
+
+  /**
+   * Adds deterministic work history, degree and certification records
+   * extracted from the resume sections to the analyzed data
+   * 
+   * @param analyzedData - Analyzed data from the AI provider
+   * @param text - Extracted resume text
+   * @param resumeId - Resume ID (for logging)
+   * @returns Analyzed data with structured entities, or unchanged on failure
+   */
+  private withStructuredEntities(
+    analyzedData: AnalyzedResumeData,
+    text: string,
+    resumeId: number
+  ): AnalyzedResumeData {
+    try {
+      const structured = extractResumeEntities(extractResumeSections(text));
+      const validation = structuredResumeDataSchema.safeParse(structured);
+
+      if (!validation.success) {
+        logger.warn('Structured resume entities failed validation', {
+          resumeId,
+          issues: validation.error.issues.slice(0, 5)
+        });
+        return analyzedData;
+      }
+
+      logger.info('Structured resume entities extracted', {
+        resumeId,
+        positions: structured.workHistory.length,
+        totalExperienceMonths: structured.totalExperienceMonths,
+        degrees: structured.degrees.length,
+        certifications: structured.certifications.length
+      });
+
+      return { ...analyzedData, structured: validation.data };
+    } catch (error) {
+      logger.error('Structured resume entity extraction failed', {
+        resumeId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      // Continue - structured entities refine scoring but are not required
+      return analyzedData;
+    }
+  }
+
+  /**
+   * Applies the user's skill corrections, before skills are embedded and stored
+   */
+  private async withSkillCorrections(
+    analyzedData: AnalyzedResumeData,
+    text: string,
+    userId: string
+  ): Promise<AnalyzedResumeData> {
+    const skills = await createSkillCorrectionService(this.getStorageProvider())
+      .correctResumeSkills(userId, analyzedData.skills ?? [], text);
+    return { ...analyzedData, skills };
+  }
+
   /**
    * Validates uploaded resume file
    * 
@@ -824,4 +1362,4 @@ export const resumeService = {
   get instance(): ResumeService {
     return new ResumeService();
   }
-};
\ No newline at end of file
+};
\ No newline at end of file
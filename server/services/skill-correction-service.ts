@@ -0,0 +1,276 @@
+/**
+ * BUSINESS LOGIC: Skill Correction Service Layer
+ * Stores recruiters' corrections to extracted skills and applies them to
+ * that recruiter's later extractions
+ *
+ * @fileoverview A recruiter can mark an extracted skill as wrong, add a skill
+ * the extraction missed, or declare one skill another name for a second.
+ * Corrections are per user: they change only the corrector's later resume
+ * and job extractions. Each correction is also passed to the skill learning
+ * system as human evidence, where it weighs more than automated signals
+ * when deciding which skills to promote into the skill dictionary.
+ *
+ * @example
+ * ```typescript
+ * const skillCorrectionService = createSkillCorrectionService(storage);
+ *
+ * await skillCorrectionService.submitCorrection({
+ *   userId: 'user123',
+ *   type: 'equivalent',
+ *   skill: 'ReactJS',
+ *   equivalentTo: 'React'
+ * });
+ *
+ * // ['React', 'TypeScript']
+ * await skillCorrectionService.correctJobSkills('user123', ['ReactJS', 'TypeScript']);
+ * ```
+ */
+
+import { logger } from '../lib/logger';
+import { getStorage, IStorage } from '../storage';
+import {
+  success,
+  failure,
+  SkillCorrectionResult
+} from '@shared/result-types';
+import {
+  AppExternalServiceError,
+  AppNotFoundError,
+  AppValidationError,
+  toAppError
+} from '@shared/errors';
+import type { SkillCorrection, SkillCorrectionType } from '@shared/schema';
+
+// ===== CONSTANTS =====
+
+export const MAX_CORRECTED_SKILL_LENGTH = 100;
+
+// ===== SERVICE INTERFACES =====
+
+/**
+ * A recruiter's correction; resumeId or jobId records where it was spotted
+ */
+export interface SubmitSkillCorrectionInput {
+  userId: string;
+  type: SkillCorrectionType;
+  skill: string;
+  equivalentTo?: string | null;
+  resumeId?: number | null;
+  jobId?: number | null;
+}
+
+// ===== PURE HELPERS =====
+
+/**
+ * Comparison key for skill names: trimmed, lower case, single spaces
+ */
+export function normalizeSkillName(skill: string): string {
+  return skill.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Whole-term match, so "Go" is found in "Go, Rust" but not in "Google"
+function mentionsSkill(text: string, skill: string): boolean {
+  const escaped = skill.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`, 'i').test(text);
+}
+
+/**
+ * Applies corrections to extracted skills: wrong skills are dropped,
+ * equivalent skills are renamed to their canonical name, and missed skills
+ * are added when the source text mentions them. Repeats after renaming are
+ * removed, keeping the first occurrence.
+ */
+export function applySkillCorrections(
+  skills: string[],
+  corrections: SkillCorrection[],
+  text?: string
+): string[] {
+  const wrong = new Set<string>();
+  const canonical = new Map<string, string>();
+  const missed: string[] = [];
+  for (const correction of corrections) {
+    if (correction.type === 'wrong') {
+      wrong.add(correction.normalizedSkill);
+    } else if (correction.type === 'equivalent' && correction.equivalentTo) {
+      canonical.set(correction.normalizedSkill, correction.equivalentTo);
+    } else if (correction.type === 'missed') {
+      missed.push(correction.skill);
+    }
+  }
+
+  const seen = new Set<string>();
+  const corrected: string[] = [];
+  const add = (skill: string) => {
+    const key = normalizeSkillName(skill);
+    if (key && !seen.has(key) && !wrong.has(key)) {
+      seen.add(key);
+      corrected.push(skill);
+    }
+  };
+
+  for (const skill of skills) {
+    add(canonical.get(normalizeSkillName(skill)) ?? skill);
+  }
+  if (text) {
+    missed.filter(skill => mentionsSkill(text, skill)).forEach(add);
+  }
+  return corrected;
+}
+
+// ===== SKILL CORRECTION SERVICE IMPLEMENTATION =====
+
+/**
+ * Skill Correction Service - Records skill corrections and applies them to extractions
+ */
+export class SkillCorrectionService {
+  constructor(private _storageProvider?: IStorage) {
+    // Storage provider will be resolved lazily
+  }
+
+  private getStorageProvider(): IStorage {
+    return this._storageProvider || getStorage();
+  }
+
+  /**
+   * Stores a correction, replacing the user's earlier correction of the same skill
+   */
+  async submitCorrection(input: SubmitSkillCorrectionInput): Promise<SkillCorrectionResult<SkillCorrection>> {
+    const { userId, type } = input;
+    const skill = input.skill.trim().replace(/\s+/g, ' ');
+    const equivalentTo = input.equivalentTo?.trim().replace(/\s+/g, ' ') || null;
+
+    if (!skill) {
+      return failure(new AppValidationError('Skill is required', 'skill'));
+    }
+    if (skill.length > MAX_CORRECTED_SKILL_LENGTH || (equivalentTo?.length ?? 0) > MAX_CORRECTED_SKILL_LENGTH) {
+      return failure(new AppValidationError(
+        `Skill names are limited to ${MAX_CORRECTED_SKILL_LENGTH} characters`,
+        skill.length > MAX_CORRECTED_SKILL_LENGTH ? 'skill' : 'equivalentTo'
+      ));
+    }
+    if (type === 'equivalent') {
+      if (!equivalentTo) {
+        return failure(new AppValidationError('Name the skill this one is equivalent to', 'equivalentTo'));
+      }
+      if (normalizeSkillName(equivalentTo) === normalizeSkillName(skill)) {
+        return failure(new AppValidationError('A skill cannot be equivalent to itself', 'equivalentTo'));
+      }
+    }
+
+    try {
+      const storage = this.getStorageProvider();
+      if (input.resumeId && !(await storage.getResumeById(input.resumeId, userId))) {
+        return failure(AppNotFoundError.resume(input.resumeId));
+      }
+      if (input.jobId && !(await storage.getJobDescriptionById(input.jobId, userId))) {
+        return failure(AppNotFoundError.jobDescription(input.jobId));
+      }
+
+      const correction = await storage.upsertSkillCorrection({
+        userId,
+        type,
+        skill,
+        normalizedSkill: normalizeSkillName(skill),
+        equivalentTo: type === 'equivalent' ? equivalentTo : null,
+        resumeId: input.resumeId ?? null,
+        jobDescriptionId: input.jobId ?? null,
+      });
+
+      logger.info('Skill correction recorded', {
+        userId,
+        correctionId: correction.id,
+        type,
+        skill,
+        equivalentTo: correction.equivalentTo,
+      });
+
+      await this.recordLearningEvidence(correction);
+      return success(correction);
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('skill_correction_submit', toAppError(error).message));
+    }
+  }
+
+  async listCorrections(userId: string): Promise<SkillCorrectionResult<SkillCorrection[]>> {
+    try {
+      return success(await this.getStorageProvider().getSkillCorrections(userId));
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('skill_correction_list', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Removes a correction; skills already stored on resumes and jobs keep the corrected form
+   */
+  async deleteCorrection(userId: string, correctionId: number): Promise<SkillCorrectionResult<void>> {
+    try {
+      const deleted = await this.getStorageProvider().deleteSkillCorrection(correctionId, userId);
+      if (!deleted) {
+        return failure(new AppNotFoundError('Skill Correction', correctionId));
+      }
+      logger.info('Skill correction deleted', { userId, correctionId });
+      return success(undefined);
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('skill_correction_delete', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Applies the user's corrections to skills extracted from a resume.
+   * Never fails: extraction proceeds uncorrected if corrections can't be loaded.
+   */
+  async correctResumeSkills(userId: string, skills: string[], text: string): Promise<string[]> {
+    const corrections = await this.loadCorrections(userId);
+    return corrections.length > 0 ? applySkillCorrections(skills, corrections, text) : skills;
+  }
+
+  /**
+   * Applies the user's equivalences to skills extracted from a job description.
+   * Wrong and missed corrections describe candidates, so they don't apply to jobs.
+   */
+  async correctJobSkills(userId: string, skills: string[]): Promise<string[]> {
+    const equivalences = (await this.loadCorrections(userId)).filter(correction => correction.type === 'equivalent');
+    return equivalences.length > 0 ? applySkillCorrections(skills, equivalences) : skills;
+  }
+
+  private async loadCorrections(userId: string): Promise<SkillCorrection[]> {
+    try {
+      return await this.getStorageProvider().getSkillCorrections(userId);
+    } catch (error) {
+      logger.warn('Failed to load skill corrections, using uncorrected skills', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return [];
+    }
+  }
+
+  // Wrong skills count against promotion; missed and canonical skills count toward it
+  private async recordLearningEvidence(correction: SkillCorrection): Promise<void> {
+    try {
+      const { recordHumanSkillFeedback } = await import('../lib/skill-learning');
+      if (correction.type === 'wrong') {
+        recordHumanSkillFeedback(correction.skill, 'rejected');
+      } else if (correction.type === 'missed') {
+        recordHumanSkillFeedback(correction.skill, 'confirmed');
+      } else if (correction.equivalentTo) {
+        recordHumanSkillFeedback(correction.equivalentTo, 'confirmed', correction.skill);
+      }
+    } catch (error) {
+      logger.warn('Failed to pass skill correction to skill learning', {
+        correctionId: correction.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      // Continue - the correction is stored and already applies to extractions
+    }
+  }
+}
+
+// ===== SERVICE FACTORY =====
+
+/**
+ * Create a skill correction service instance with the provided or default storage
+ */
+export function createSkillCorrectionService(storageProvider?: IStorage): SkillCorrectionService {
+  return new SkillCorrectionService(storageProvider);
+}
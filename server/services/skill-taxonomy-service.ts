@@ -0,0 +1,474 @@
+/**
+ * BUSINESS LOGIC: Skill Taxonomy Service Layer
+ * Manages organizations' own skill taxonomies
+ *
+ * @fileoverview An organization's taxonomy holds the skills ESCO doesn't
+ * know: internal tool names, competency frameworks, certification levels.
+ * Each skill has a category, aliases and an optional broader skill, so
+ * levels such as "Acme Certified L2" can sit under "Acme Certified". Members
+ * with write access edit the taxonomy one skill at a time or import it from
+ * CSV or JSON; every member can read it. Embeddings are generated from skill
+ * names whenever a skill is added or renamed. Extraction and matching for
+ * the organization's members consult the taxonomy ahead of ESCO (see
+ * lib/skill-taxonomy.ts).
+ *
+ * @example
+ * ```typescript
+ * const skillTaxonomyService = createSkillTaxonomyService(storage);
+ *
+ * await skillTaxonomyService.importEntries('user123', 7, {
+ *   format: 'csv',
+ *   content: 'name,category,parent,aliases\nAcme Certified L2,certification,Acme Certified,ACL2'
+ * });
+ * ```
+ */
+
+import { logger } from '../lib/logger';
+import { generateBatchEmbeddings } from '../lib/embeddings';
+import {
+  invalidateSkillTaxonomyCache,
+  normalizeTaxonomyName,
+  parseSkillTaxonomyImport,
+  type SkillTaxonomyImportFormat
+} from '../lib/skill-taxonomy';
+import { getStorage, IStorage } from '../storage';
+import {
+  success,
+  failure,
+  isFailure,
+  SkillTaxonomyResult
+} from '@shared/result-types';
+import {
+  AppAuthenticationError,
+  AppExternalServiceError,
+  AppNotFoundError,
+  AppValidationError,
+  toAppError
+} from '@shared/errors';
+import { hasOrganizationPermission, type OrganizationPermission } from '@shared/organization-roles';
+import type {
+  InsertSkillTaxonomyEntry,
+  SkillTaxonomyEntry,
+  SkillTaxonomyImportResult
+} from '@shared/schema';
+
+// ===== CONSTANTS =====
+
+export const MAX_TAXONOMY_NAME_LENGTH = 150;
+export const MAX_TAXONOMY_CATEGORY_LENGTH = 100;
+export const MAX_TAXONOMY_ALIASES = 50;
+export const MAX_TAXONOMY_IMPORT_ROWS = 5000;
+
+const DEFAULT_CATEGORY = 'general';
+
+// ===== SERVICE INTERFACES =====
+
+/**
+ * A skill to add; parentId names its broader skill in the same taxonomy
+ */
+export interface SkillTaxonomyEntryInput {
+  name: string;
+  category?: string;
+  parentId?: number | null;
+  aliases?: string[];
+  description?: string | null;
+}
+
+export interface ImportSkillTaxonomyInput {
+  format: SkillTaxonomyImportFormat;
+  content: string;
+}
+
+// ===== PURE HELPERS =====
+
+const cleanText = (value: string) => value.trim().replace(/\s+/g, ' ');
+
+/**
+ * Trimmed aliases without blanks, case-insensitive repeats or the skill's own name
+ */
+export function cleanAliases(name: string, aliases: string[]): string[] {
+  const seen = new Set([normalizeTaxonomyName(name)]);
+  const cleaned: string[] = [];
+  for (const alias of aliases.map(cleanText)) {
+    const key = normalizeTaxonomyName(alias);
+    if (alias && !seen.has(key)) {
+      seen.add(key);
+      cleaned.push(alias);
+    }
+  }
+  return cleaned;
+}
+
+/**
+ * What is wrong with a skill's fields, or null when they are acceptable
+ */
+export function getTaxonomySkillProblem(skill: { name: string; category?: string; aliases?: string[] }): string | null {
+  const name = cleanText(skill.name);
+  if (!name) {
+    return 'Skill name is required';
+  }
+  if (name.length > MAX_TAXONOMY_NAME_LENGTH) {
+    return `Skill names are limited to ${MAX_TAXONOMY_NAME_LENGTH} characters`;
+  }
+  if ((skill.category?.trim().length ?? 0) > MAX_TAXONOMY_CATEGORY_LENGTH) {
+    return `Categories are limited to ${MAX_TAXONOMY_CATEGORY_LENGTH} characters`;
+  }
+  const aliases = skill.aliases ?? [];
+  if (aliases.length > MAX_TAXONOMY_ALIASES) {
+    return `A skill can have at most ${MAX_TAXONOMY_ALIASES} aliases`;
+  }
+  if (aliases.some(alias => alias.trim().length > MAX_TAXONOMY_NAME_LENGTH)) {
+    return `Aliases are limited to ${MAX_TAXONOMY_NAME_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Whether making parentId the broader skill of entryId would loop the
+ * hierarchy. parentOf maps each entry ID to its current parent ID.
+ */
+export function wouldCreateCycle(entryId: number, parentId: number, parentOf: Map<number, number | null>): boolean {
+  const visited = new Set<number>();
+  for (let current: number | null | undefined = parentId; current != null; current = parentOf.get(current)) {
+    if (current === entryId || visited.has(current)) {
+      return true;
+    }
+    visited.add(current);
+  }
+  return false;
+}
+
+// ===== SKILL TAXONOMY SERVICE IMPLEMENTATION =====
+
+/**
+ * Skill Taxonomy Service - Edits and imports organization skill taxonomies
+ */
+export class SkillTaxonomyService {
+  constructor(private _storageProvider?: IStorage) {
+    // Storage provider will be resolved lazily
+  }
+
+  private getStorageProvider(): IStorage {
+    return this._storageProvider || getStorage();
+  }
+
+  /**
+   * The organization's taxonomy, sorted by name; any member may read it
+   */
+  async listEntries(userId: string, organizationId: number): Promise<SkillTaxonomyResult<SkillTaxonomyEntry[]>> {
+    try {
+      const accessResult = await this.requirePermission(userId, organizationId, 'read');
+      if (isFailure(accessResult)) {
+        return accessResult;
+      }
+      return success(await this.getStorageProvider().getSkillTaxonomyEntries(organizationId));
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('skill_taxonomy_list', toAppError(error).message));
+    }
+  }
+
+  async createEntry(
+    userId: string,
+    organizationId: number,
+    input: SkillTaxonomyEntryInput
+  ): Promise<SkillTaxonomyResult<SkillTaxonomyEntry>> {
+    const problem = getTaxonomySkillProblem(input);
+    if (problem) {
+      return failure(new AppValidationError(problem, 'name'));
+    }
+
+    try {
+      const accessResult = await this.requirePermission(userId, organizationId, 'write');
+      if (isFailure(accessResult)) {
+        return accessResult;
+      }
+
+      const storage = this.getStorageProvider();
+      const entries = await storage.getSkillTaxonomyEntries(organizationId);
+      const name = cleanText(input.name);
+      if (entries.some(entry => entry.normalizedName === normalizeTaxonomyName(name))) {
+        return failure(new AppValidationError(`The taxonomy already has a skill named "${name}"`, 'name'));
+      }
+      if (input.parentId != null && !entries.some(entry => entry.id === input.parentId)) {
+        return failure(new AppValidationError('Broader skill is not in this taxonomy', 'parentId'));
+      }
+
+      const entry = await storage.createSkillTaxonomyEntry({
+        organizationId,
+        name,
+        normalizedName: normalizeTaxonomyName(name),
+        category: input.category?.trim() || DEFAULT_CATEGORY,
+        parentId: input.parentId ?? null,
+        aliases: cleanAliases(name, input.aliases ?? []),
+        description: input.description?.trim() || null,
+        createdBy: userId,
+      });
+      logger.info('Skill taxonomy entry created', { userId, organizationId, entryId: entry.id });
+
+      const [withEmbedding] = await this.storeEmbeddings([entry]);
+      invalidateSkillTaxonomyCache();
+      return success(withEmbedding);
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('skill_taxonomy_create', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Edits a skill; renaming it regenerates its embedding
+   */
+  async updateEntry(
+    userId: string,
+    organizationId: number,
+    entryId: number,
+    input: Partial<SkillTaxonomyEntryInput>
+  ): Promise<SkillTaxonomyResult<SkillTaxonomyEntry>> {
+    try {
+      const accessResult = await this.requirePermission(userId, organizationId, 'write');
+      if (isFailure(accessResult)) {
+        return accessResult;
+      }
+
+      const storage = this.getStorageProvider();
+      const entries = await storage.getSkillTaxonomyEntries(organizationId);
+      const existing = entries.find(entry => entry.id === entryId);
+      if (!existing) {
+        return failure(new AppNotFoundError('Skill Taxonomy Entry', entryId));
+      }
+
+      const name = input.name !== undefined ? cleanText(input.name) : existing.name;
+      const problem = getTaxonomySkillProblem({ ...input, name });
+      if (problem) {
+        return failure(new AppValidationError(problem, 'name'));
+      }
+      const normalizedName = normalizeTaxonomyName(name);
+      if (entries.some(entry => entry.id !== entryId && entry.normalizedName === normalizedName)) {
+        return failure(new AppValidationError(`The taxonomy already has a skill named "${name}"`, 'name'));
+      }
+      if (input.parentId != null) {
+        if (!entries.some(entry => entry.id === input.parentId)) {
+          return failure(new AppValidationError('Broader skill is not in this taxonomy', 'parentId'));
+        }
+        const parentOf = new Map(entries.map(entry => [entry.id, entry.parentId]));
+        if (wouldCreateCycle(entryId, input.parentId, parentOf)) {
+          return failure(new AppValidationError('A skill cannot sit under itself or one of its narrower skills', 'parentId'));
+        }
+      }
+
+      const updates: Partial<InsertSkillTaxonomyEntry> = { name, normalizedName };
+      if (input.category !== undefined) {
+        updates.category = input.category.trim() || DEFAULT_CATEGORY;
+      }
+      if (input.parentId !== undefined) {
+        updates.parentId = input.parentId;
+      }
+      if (input.aliases !== undefined || name !== existing.name) {
+        updates.aliases = cleanAliases(name, input.aliases ?? existing.aliases);
+      }
+      if (input.description !== undefined) {
+        updates.description = input.description?.trim() || null;
+      }
+
+      let entry = await storage.updateSkillTaxonomyEntry(entryId, updates);
+      if (!entry) {
+        return failure(new AppNotFoundError('Skill Taxonomy Entry', entryId));
+      }
+      if (name !== existing.name) {
+        [entry] = await this.storeEmbeddings([entry]);
+      }
+
+      logger.info('Skill taxonomy entry updated', { userId, organizationId, entryId });
+      invalidateSkillTaxonomyCache();
+      return success(entry);
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('skill_taxonomy_update', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Removes a skill; its narrower skills move to the top level
+   */
+  async deleteEntry(userId: string, organizationId: number, entryId: number): Promise<SkillTaxonomyResult<void>> {
+    try {
+      const accessResult = await this.requirePermission(userId, organizationId, 'write');
+      if (isFailure(accessResult)) {
+        return accessResult;
+      }
+
+      const deleted = await this.getStorageProvider().deleteSkillTaxonomyEntry(entryId, organizationId);
+      if (!deleted) {
+        return failure(new AppNotFoundError('Skill Taxonomy Entry', entryId));
+      }
+
+      logger.info('Skill taxonomy entry deleted', { userId, organizationId, entryId });
+      invalidateSkillTaxonomyCache();
+      return success(undefined);
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('skill_taxonomy_delete', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Adds skills from a CSV or JSON file. A skill whose name is already in the
+   * taxonomy is updated with the file's category, aliases and description.
+   * Broader skills are resolved by name once every row is saved, so a file
+   * may list a level before the skill it belongs to. Rows that can't be used
+   * are skipped and reported.
+   */
+  async importEntries(
+    userId: string,
+    organizationId: number,
+    input: ImportSkillTaxonomyInput
+  ): Promise<SkillTaxonomyResult<SkillTaxonomyImportResult>> {
+    const parsed = parseSkillTaxonomyImport(input.content, input.format);
+    const fileProblem = parsed.errors.find(error => error.row === 0);
+    if (fileProblem) {
+      return failure(new AppValidationError(fileProblem.message, 'content'));
+    }
+    if (parsed.rows.length + parsed.errors.length > MAX_TAXONOMY_IMPORT_ROWS) {
+      return failure(new AppValidationError(`Import at most ${MAX_TAXONOMY_IMPORT_ROWS} skills at a time`, 'content'));
+    }
+
+    try {
+      const accessResult = await this.requirePermission(userId, organizationId, 'write');
+      if (isFailure(accessResult)) {
+        return accessResult;
+      }
+
+      const storage = this.getStorageProvider();
+      const byName = new Map(
+        (await storage.getSkillTaxonomyEntries(organizationId)).map(entry => [entry.normalizedName, entry])
+      );
+      const result: SkillTaxonomyImportResult = { created: 0, updated: 0, errors: [...parsed.errors] };
+      const saved: Array<{ row: number; parent?: string; entry: SkillTaxonomyEntry }> = [];
+      const needEmbeddings = new Map<number, SkillTaxonomyEntry>();
+
+      for (const { row, skill } of parsed.rows) {
+        const problem = getTaxonomySkillProblem(skill);
+        if (problem) {
+          result.errors.push({ row, message: problem });
+          continue;
+        }
+
+        const name = cleanText(skill.name);
+        const normalizedName = normalizeTaxonomyName(name);
+        const existing = byName.get(normalizedName);
+        let entry: SkillTaxonomyEntry | undefined;
+        if (existing) {
+          entry = await storage.updateSkillTaxonomyEntry(existing.id, {
+            name,
+            category: skill.category || existing.category,
+            aliases: skill.aliases.length > 0 ? cleanAliases(name, skill.aliases) : existing.aliases,
+            description: skill.description ?? existing.description,
+          });
+          result.updated++;
+          if (entry && name !== existing.name) {
+            needEmbeddings.set(entry.id, entry);
+          }
+        } else {
+          entry = await storage.createSkillTaxonomyEntry({
+            organizationId,
+            name,
+            normalizedName,
+            category: skill.category || DEFAULT_CATEGORY,
+            aliases: cleanAliases(name, skill.aliases),
+            description: skill.description ?? null,
+            createdBy: userId,
+          });
+          result.created++;
+          needEmbeddings.set(entry.id, entry);
+        }
+
+        if (entry) {
+          byName.set(normalizedName, entry);
+          saved.push({ row, parent: skill.parent, entry });
+        }
+      }
+
+      const parentOf = new Map(Array.from(byName.values()).map(entry => [entry.id, entry.parentId]));
+      for (const { row, parent, entry } of saved) {
+        if (!parent) {
+          continue;
+        }
+        const parentEntry = byName.get(normalizeTaxonomyName(parent));
+        if (!parentEntry) {
+          result.errors.push({ row, message: `Broader skill "${parent}" is not in the taxonomy` });
+        } else if (wouldCreateCycle(entry.id, parentEntry.id, parentOf)) {
+          result.errors.push({ row, message: `"${parent}" cannot be the broader skill of "${entry.name}"` });
+        } else if (parentOf.get(entry.id) !== parentEntry.id) {
+          await storage.updateSkillTaxonomyEntry(entry.id, { parentId: parentEntry.id });
+          parentOf.set(entry.id, parentEntry.id);
+        }
+      }
+
+      await this.storeEmbeddings(Array.from(needEmbeddings.values()));
+      result.errors.sort((a, b) => a.row - b.row);
+
+      logger.info('Skill taxonomy imported', {
+        userId,
+        organizationId,
+        format: input.format,
+        created: result.created,
+        updated: result.updated,
+        skipped: result.errors.length,
+      });
+      invalidateSkillTaxonomyCache();
+      return success(result);
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('skill_taxonomy_import', toAppError(error).message));
+    }
+  }
+
+  // Embeds skill names; entries keep no embedding if generation fails
+  private async storeEmbeddings(entries: SkillTaxonomyEntry[]): Promise<SkillTaxonomyEntry[]> {
+    if (entries.length === 0) {
+      return entries;
+    }
+
+    let embeddings: number[][];
+    try {
+      embeddings = await generateBatchEmbeddings(entries.map(entry => entry.name));
+    } catch (error) {
+      logger.error('Failed to generate skill taxonomy embeddings', {
+        entries: entries.length,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      // Continue - matching falls back to embeddings generated at analysis time
+      return entries;
+    }
+
+    const storage = this.getStorageProvider();
+    return Promise.all(entries.map(async (entry, index) => {
+      const embedding = embeddings[index];
+      if (!embedding || embedding.length === 0) {
+        return entry;
+      }
+      return await storage.updateSkillTaxonomyEntry(entry.id, { embedding }) ?? entry;
+    }));
+  }
+
+  private async requirePermission(
+    userId: string,
+    organizationId: number,
+    permission: OrganizationPermission
+  ): Promise<SkillTaxonomyResult<true>> {
+    const membership = await this.getStorageProvider().getOrganizationMembership(organizationId, userId);
+
+    // Non-members can't tell an organization exists
+    if (!membership) {
+      return failure(new AppNotFoundError('Organization', organizationId));
+    }
+    if (!hasOrganizationPermission(membership.role, permission)) {
+      return failure(AppAuthenticationError.insufficientPermissions('skill taxonomy', userId));
+    }
+    return success(true);
+  }
+}
+
+// ===== SERVICE FACTORY =====
+
+/**
+ * Create a skill taxonomy service instance with the provided or default storage
+ */
+export function createSkillTaxonomyService(storageProvider?: IStorage): SkillTaxonomyService {
+  return new SkillTaxonomyService(storageProvider);
+}
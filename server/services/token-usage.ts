@@ -5,13 +5,16 @@
  * for Firebase-authenticated users with database persistence.
  */
 
-import { eq, desc, and, gte, sql, count } from 'drizzle-orm';
+import { eq, desc, and, gte, lt, isNull, sql, count } from 'drizzle-orm';
 import { randomBytes } from 'crypto';
 import { getDatabase } from '../database';
 import {
   userApiLimits,
   apiCallLogs, 
   userTokens,
+  tokenAnomalyAlerts,
+  DEFAULT_API_TOKEN_SCOPES,
+  type ApiTokenScope,
   type UserApiLimits,
   type InsertUserApiLimits,
   type InsertApiCallLog,
@@ -20,8 +23,24 @@ import {
   type InsertUserToken,
   type UsageOverview,
   type ApiUsageMetrics,
+  type TokenActivityEntry,
+  type TokenAnomalyAlert,
+  type TokenAnomalyDetails,
+  type TokenAnomalyType,
+  type TokenRotationGracePeriod,
 } from '../../shared/schema';
 import { logger } from '../config/logger';
+import { getLlmCostSummary } from '../lib/llm-usage';
+import {
+  formatApiToken,
+  hashTokenSecret,
+  ipRangeOf,
+  isVolumeSpike,
+  matchTokenSecret,
+  parseApiToken,
+  rotationGraceEnd,
+} from '../lib/api-token-security';
+import { emitWebhookEvent } from './webhook-service';
 
 interface UsageTrackingOptions {
   endpoint: string;
@@ -32,11 +51,24 @@ interface UsageTrackingOptions {
   responseSize?: number;
   ipAddress?: string;
   userAgent?: string;
+  tokenId?: string;
 }
 
+const HOUR_MS = 60 * 60 * 1000;
+
+// How far back a token's IP ranges count as familiar
+const KNOWN_IP_RANGE_LOOKBACK_MS = 30 * 24 * HOUR_MS;
+const VOLUME_BASELINE_HOURS = 7 * 24;
+// Volume is rechecked at most this often per token
+const VOLUME_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
 export class TokenUsageService {
   private static instance: TokenUsageService;
 
+  // Per-process caches for anomaly detection, keyed by token ID
+  private knownIpRanges = new Map<string, Set<string>>();
+  private lastVolumeCheck = new Map<string, number>();
+
   static getInstance(): TokenUsageService {
     if (!TokenUsageService.instance) {
       TokenUsageService.instance = new TokenUsageService();
@@ -103,10 +135,10 @@ export class TokenUsageService {
       // Ensure user limits are initialized
       const userLimits = await this.initializeUserLimits(userId);
 
-      // Generate secure token
+      // Generate secure token; only the secret's hash is stored
       const tokenId = randomBytes(16).toString('hex');
       const tokenSecret = randomBytes(32).toString('hex');
-      const token = `em_${tokenId}_${tokenSecret}`;
+      const token = formatApiToken(tokenId, tokenSecret);
 
       // Calculate expiration date
       let expiresAt: Date | undefined;
@@ -128,6 +160,14 @@ export class TokenUsageService {
         }
       }
 
+      const scopes = request.scopes && request.scopes.length > 0
+        ? Array.from(new Set(request.scopes))
+        : DEFAULT_API_TOKEN_SCOPES;
+      const allowedCidrs = request.allowedCidrs && request.allowedCidrs.length > 0
+        ? request.allowedCidrs.map(cidr => cidr.trim())
+        : null;
+      const rateLimitPerMinute = request.rateLimitPerMinute ?? null;
+
       // Store token in database
       const tokenData: InsertUserToken = {
         userId,
@@ -136,6 +176,10 @@ export class TokenUsageService {
         expiresAt,
         isActive: true,
         totalRequests: 0,
+        scopes,
+        allowedCidrs,
+        rateLimitPerMinute,
+        secretHash: hashTokenSecret(tokenSecret),
       };
 
       await getDatabase().insert(userTokens).values(tokenData);
@@ -145,6 +189,9 @@ export class TokenUsageService {
         tokenId,
         tokenName: request.tokenName,
         expiresAt: expiresAt?.toISOString(),
+        scopes,
+        allowedCidrCount: allowedCidrs?.length ?? 0,
+        rateLimitPerMinute,
       });
 
       const createdAt = new Date();
@@ -156,6 +203,9 @@ export class TokenUsageService {
         name: request.name || request.tokenName || 'API Token',
         createdAt,
         expiresAt,
+        scopes,
+        allowedCidrs,
+        rateLimitPerMinute,
         usage: {
           remaining: userLimits.maxCalls - userLimits.usedCalls,
           total: userLimits.maxCalls,
@@ -179,15 +229,18 @@ export class TokenUsageService {
     tokenId: string;
     canMakeRequest: boolean;
     remainingCalls: number;
+    scopes: ApiTokenScope[];
+    allowedCidrs: string[] | null;
+    rateLimitPerMinute: number | null;
   } | null> {
     try {
       // Parse token format: em_{tokenId}_{secret}
-      const tokenParts = token.split('_');
-      if (tokenParts.length !== 3 || tokenParts[0] !== 'em') {
+      const parsedToken = parseApiToken(token);
+      if (!parsedToken) {
         return null;
       }
 
-      const tokenId = tokenParts[1];
+      const { tokenId, secret } = parsedToken;
 
       // Find token in database
       const tokenRecord = await getDatabase()
@@ -205,6 +258,17 @@ export class TokenUsageService {
 
       const userToken = tokenRecord[0];
 
+      const secretMatch = matchTokenSecret(secret, userToken);
+      if (!secretMatch) {
+        return null;
+      }
+      if (secretMatch === 'previous') {
+        logger.debug('API token used with its pre-rotation secret', {
+          tokenId,
+          graceEndsAt: userToken.previousSecretExpiresAt?.toISOString(),
+        });
+      }
+
       // Check if token is expired
       if (userToken.expiresAt && userToken.expiresAt < new Date()) {
         await this.deactivateToken(tokenId);
@@ -225,6 +289,9 @@ export class TokenUsageService {
         tokenId,
         canMakeRequest,
         remainingCalls,
+        scopes: userToken.scopes,
+        allowedCidrs: userToken.allowedCidrs,
+        rateLimitPerMinute: userToken.rateLimitPerMinute,
       };
     } catch (error) {
       logger.error('Failed to validate token', {
@@ -239,6 +306,11 @@ export class TokenUsageService {
    */
   async trackUsage(userId: string, options: UsageTrackingOptions): Promise<void> {
     try {
+      // Compare against the token's history before this call joins it
+      const newIpRange = options.tokenId && options.ipAddress
+        ? await this.checkNewIpRange(options.tokenId, options.ipAddress)
+        : null;
+
       // Log the API call
       const logData: InsertApiCallLog = {
         userId,
@@ -250,6 +322,7 @@ export class TokenUsageService {
         responseSize: options.responseSize,
         ipAddress: options.ipAddress,
         userAgent: options.userAgent,
+        tokenId: options.tokenId,
       };
 
       await getDatabase().insert(apiCallLogs).values(logData);
@@ -264,8 +337,25 @@ export class TokenUsageService {
           })
           .where(eq(userApiLimits.userId, userId));
 
-        // Update token usage count if we have the token info
-        // This would require passing tokenId, which we can add later
+        if (options.tokenId) {
+          await getDatabase()
+            .update(userTokens)
+            .set({
+              totalRequests: sql`COALESCE(${userTokens.totalRequests}, 0) + 1`,
+              lastUsedAt: new Date(),
+            })
+            .where(eq(userTokens.tokenId, options.tokenId));
+        }
+      }
+
+      if (options.tokenId) {
+        if (newIpRange) {
+          await this.raiseAnomalyAlert(userId, options.tokenId, 'new_ip_range', {
+            ipAddress: options.ipAddress,
+            ipRange: newIpRange,
+          });
+        }
+        await this.checkVolumeSpike(userId, options.tokenId);
       }
 
       logger.debug('API usage tracked', {
@@ -315,6 +405,14 @@ export class TokenUsageService {
           lastUsedAt: token.lastUsedAt ?? undefined,
           totalRequests: token.totalRequests || 0,
           isActive: token.isActive,
+          scopes: token.scopes,
+          allowedCidrs: token.allowedCidrs,
+          rateLimitPerMinute: token.rateLimitPerMinute,
+          secretHashed: token.secretHash !== null,
+          rotatedAt: token.rotatedAt ?? undefined,
+          previousSecretExpiresAt: token.previousSecretExpiresAt && token.previousSecretExpiresAt > new Date()
+            ? token.previousSecretExpiresAt
+            : undefined,
         })),
       };
     } catch (error) {
@@ -412,6 +510,15 @@ export class TokenUsageService {
           gte(apiCallLogs.createdAt, since)
         ));
 
+      // LLM spend is reported for the current month regardless of `days`
+      const llmCost = await getLlmCostSummary(userId).catch((error) => {
+        logger.warn('Failed to get LLM cost summary', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          userId,
+        });
+        return undefined;
+      });
+
       return {
         totalCalls: totalResult.count,
         callsToday: todayResult.count,
@@ -424,6 +531,7 @@ export class TokenUsageService {
         })),
         errorRate: statsResult?.errorRate || 0,
         avgResponseTime: statsResult?.avgResponseTime || 0,
+        llmCost,
       };
     } catch (error) {
       logger.error('Failed to get user usage metrics', {
@@ -434,6 +542,272 @@ export class TokenUsageService {
     }
   }
 
+  /**
+   * Issue a new secret for one of the user's active tokens. The token keeps
+   * its ID, scopes and history; the old secret keeps working until the
+   * grace period ends. Returns null when the user has no such active token.
+   */
+  async rotateToken(
+    userId: string,
+    tokenId: string,
+    gracePeriod: TokenRotationGracePeriod = '24h'
+  ): Promise<TokenGenerationResponse | null> {
+    try {
+      const [existing] = await getDatabase()
+        .select()
+        .from(userTokens)
+        .where(and(
+          eq(userTokens.tokenId, tokenId),
+          eq(userTokens.userId, userId),
+          eq(userTokens.isActive, true)
+        ))
+        .limit(1);
+
+      if (!existing) {
+        return null;
+      }
+
+      const userLimits = await this.initializeUserLimits(userId);
+      const now = new Date();
+      const tokenSecret = randomBytes(32).toString('hex');
+      // A token issued before hashing has no old secret to keep honouring
+      const previousSecretExpiresAt = existing.secretHash ? rotationGraceEnd(gracePeriod, now) : null;
+
+      await getDatabase()
+        .update(userTokens)
+        .set({
+          secretHash: hashTokenSecret(tokenSecret),
+          previousSecretHash: existing.secretHash,
+          previousSecretExpiresAt,
+          rotatedAt: now,
+        })
+        .where(eq(userTokens.tokenId, tokenId));
+
+      logger.info('API token rotated', {
+        userId,
+        tokenId,
+        gracePeriod,
+        previousSecretExpiresAt: previousSecretExpiresAt?.toISOString(),
+      });
+
+      return {
+        id: tokenId,
+        tokenId,
+        token: formatApiToken(tokenId, tokenSecret),
+        name: existing.tokenName || 'API Token',
+        createdAt: existing.createdAt ?? now,
+        expiresAt: existing.expiresAt ?? undefined,
+        scopes: existing.scopes,
+        allowedCidrs: existing.allowedCidrs,
+        rateLimitPerMinute: existing.rateLimitPerMinute,
+        previousSecretExpiresAt: previousSecretExpiresAt ?? undefined,
+        usage: {
+          remaining: userLimits.maxCalls - userLimits.usedCalls,
+          total: userLimits.maxCalls,
+          resetDate: userLimits.resetPeriod === 'never' ? undefined : userLimits.lastReset ?? undefined,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to rotate token', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        tokenId,
+      });
+      throw new Error('Failed to rotate API token');
+    }
+  }
+
+  /**
+   * Most recent calls made with one of the user's tokens. Returns null when
+   * the token does not belong to the user.
+   */
+  async getTokenActivity(userId: string, tokenId: string, limit: number = 50): Promise<TokenActivityEntry[] | null> {
+    try {
+      const [token] = await getDatabase()
+        .select({ id: userTokens.id })
+        .from(userTokens)
+        .where(and(eq(userTokens.tokenId, tokenId), eq(userTokens.userId, userId)))
+        .limit(1);
+
+      if (!token) {
+        return null;
+      }
+
+      const calls = await getDatabase()
+        .select()
+        .from(apiCallLogs)
+        .where(eq(apiCallLogs.tokenId, tokenId))
+        .orderBy(desc(apiCallLogs.createdAt))
+        .limit(limit);
+
+      return calls.map(call => ({
+        id: call.id,
+        endpoint: call.endpoint,
+        method: call.method,
+        statusCode: call.statusCode,
+        processingTime: call.processingTime,
+        ipAddress: call.ipAddress,
+        createdAt: call.createdAt!,
+      }));
+    } catch (error) {
+      logger.error('Failed to get token activity', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        tokenId,
+      });
+      throw new Error('Failed to get token activity');
+    }
+  }
+
+  /**
+   * Anomaly alerts for the user's tokens, newest first
+   */
+  async getAnomalyAlerts(userId: string, includeAcknowledged: boolean = false): Promise<TokenAnomalyAlert[]> {
+    try {
+      return await getDatabase()
+        .select()
+        .from(tokenAnomalyAlerts)
+        .where(includeAcknowledged
+          ? eq(tokenAnomalyAlerts.userId, userId)
+          : and(eq(tokenAnomalyAlerts.userId, userId), isNull(tokenAnomalyAlerts.acknowledgedAt)))
+        .orderBy(desc(tokenAnomalyAlerts.createdAt))
+        .limit(100);
+    } catch (error) {
+      logger.error('Failed to get token anomaly alerts', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw new Error('Failed to get token anomaly alerts');
+    }
+  }
+
+  /**
+   * Mark one of the user's alerts as reviewed. Returns false when the user
+   * has no such alert.
+   */
+  async acknowledgeAnomalyAlert(userId: string, alertId: number): Promise<boolean> {
+    try {
+      const updated = await getDatabase()
+        .update(tokenAnomalyAlerts)
+        .set({ acknowledgedAt: new Date() })
+        .where(and(eq(tokenAnomalyAlerts.id, alertId), eq(tokenAnomalyAlerts.userId, userId)))
+        .returning({ id: tokenAnomalyAlerts.id });
+
+      return updated.length > 0;
+    } catch (error) {
+      logger.error('Failed to acknowledge token anomaly alert', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        alertId,
+      });
+      throw new Error('Failed to acknowledge token anomaly alert');
+    }
+  }
+
+  /**
+   * The IP range of a call when the token has been used before but never
+   * from that range. The first range a token is used from becomes familiar
+   * without an alert.
+   */
+  private async checkNewIpRange(tokenId: string, ipAddress: string): Promise<string | null> {
+    const range = ipRangeOf(ipAddress);
+    if (!range) return null;
+
+    let known = this.knownIpRanges.get(tokenId);
+    if (!known) {
+      const since = new Date(Date.now() - KNOWN_IP_RANGE_LOOKBACK_MS);
+      const rows = await getDatabase()
+        .selectDistinct({ ipAddress: apiCallLogs.ipAddress })
+        .from(apiCallLogs)
+        .where(and(eq(apiCallLogs.tokenId, tokenId), gte(apiCallLogs.createdAt, since)))
+        .limit(1000);
+
+      known = new Set(
+        rows
+          .map(row => (row.ipAddress ? ipRangeOf(row.ipAddress) : null))
+          .filter((knownRange): knownRange is string => knownRange !== null)
+      );
+      this.knownIpRanges.set(tokenId, known);
+    }
+
+    const isNew = known.size > 0 && !known.has(range);
+    known.add(range);
+    return isNew ? range : null;
+  }
+
+  /**
+   * Raise an alert when the last hour's calls far exceed the token's hourly
+   * average over the previous week, at most once an hour per token
+   */
+  private async checkVolumeSpike(userId: string, tokenId: string): Promise<void> {
+    const now = Date.now();
+    if (now - (this.lastVolumeCheck.get(tokenId) ?? 0) < VOLUME_CHECK_INTERVAL_MS) {
+      return;
+    }
+    this.lastVolumeCheck.set(tokenId, now);
+
+    const hourAgo = new Date(now - HOUR_MS);
+    const baselineStart = new Date(now - (VOLUME_BASELINE_HOURS + 1) * HOUR_MS);
+
+    const [lastHour] = await getDatabase()
+      .select({ count: count() })
+      .from(apiCallLogs)
+      .where(and(eq(apiCallLogs.tokenId, tokenId), gte(apiCallLogs.createdAt, hourAgo)));
+
+    const [baseline] = await getDatabase()
+      .select({ count: count() })
+      .from(apiCallLogs)
+      .where(and(
+        eq(apiCallLogs.tokenId, tokenId),
+        gte(apiCallLogs.createdAt, baselineStart),
+        lt(apiCallLogs.createdAt, hourAgo)
+      ));
+
+    const baselinePerHour = baseline.count / VOLUME_BASELINE_HOURS;
+    if (!isVolumeSpike(lastHour.count, baselinePerHour)) {
+      return;
+    }
+
+    const [recentAlert] = await getDatabase()
+      .select({ id: tokenAnomalyAlerts.id })
+      .from(tokenAnomalyAlerts)
+      .where(and(
+        eq(tokenAnomalyAlerts.tokenId, tokenId),
+        eq(tokenAnomalyAlerts.type, 'volume_spike'),
+        gte(tokenAnomalyAlerts.createdAt, hourAgo)
+      ))
+      .limit(1);
+
+    if (!recentAlert) {
+      await this.raiseAnomalyAlert(userId, tokenId, 'volume_spike', {
+        requestsLastHour: lastHour.count,
+        baselinePerHour: Math.round(baselinePerHour * 10) / 10,
+      });
+    }
+  }
+
+  private async raiseAnomalyAlert(
+    userId: string,
+    tokenId: string,
+    type: TokenAnomalyType,
+    details: TokenAnomalyDetails
+  ): Promise<void> {
+    const [alert] = await getDatabase()
+      .insert(tokenAnomalyAlerts)
+      .values({ userId, tokenId, type, details })
+      .returning();
+
+    logger.warn('API token anomaly detected', { userId, tokenId, type, ...details });
+
+    emitWebhookEvent(userId, 'token.anomaly_detected', {
+      alertId: alert.id,
+      tokenId,
+      type,
+      details,
+      detectedAt: alert.createdAt?.toISOString(),
+    });
+  }
+
   /**
    * Deactivate a token
    */
@@ -0,0 +1,550 @@
+/**
+ * BUSINESS LOGIC: Webhook Service Layer
+ * Notifies user-registered endpoints when analyses, batches and parsing finish
+ *
+ * @fileoverview Users subscribe endpoint URLs to event types instead of polling
+ * the analysis and batch status endpoints. Every event produces one delivery per
+ * matching subscription; deliveries are HMAC-signed with the subscription secret,
+ * retried with exponential backoff through the webhook-delivery BullMQ queue and
+ * recorded in a delivery log the owner can query. Without Redis, retries run
+ * in-process on the same schedule.
+ *
+ * @example
+ * ```typescript
+ * const webhookService = createWebhookService(storage);
+ *
+ * // Register an endpoint; the secret is only returned here
+ * const created = await webhookService.createSubscription({
+ *   userId: 'user123',
+ *   url: 'https://example.com/hooks/evalmatch',
+ *   events: ['analysis.completed', 'batch.completed']
+ * });
+ *
+ * // Fire-and-forget from other services
+ * emitWebhookEvent('user123', 'resume.parsed', { resumeId: 7 });
+ * ```
+ */
+
+import type { Job } from 'bullmq';
+import { logger } from '../lib/logger';
+import { getStorage, IStorage } from '../storage';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_MAX_REDIRECTS,
+  WEBHOOK_BACKOFF_BASE_MS,
+  WEBHOOK_TIMEOUT_MS,
+  buildWebhookPayload,
+  checkWebhookDestination,
+  generateWebhookSecret,
+  getWebhookRetryDelay,
+  resolveWebhookDestination,
+  sendWebhookRequest,
+  signWebhookPayload,
+  type WebhookEndpointResponse,
+  type WebhookRequestInit
+} from '../lib/webhooks';
+import {
+  success,
+  failure,
+  isFailure,
+  WebhookResult
+} from '@shared/result-types';
+import {
+  AppNotFoundError,
+  AppValidationError,
+  AppExternalServiceError,
+  toAppError
+} from '@shared/errors';
+import type {
+  InsertWebhookSubscription,
+  WebhookDelivery,
+  WebhookEventType,
+  WebhookSubscription
+} from '@shared/schema';
+
+// ===== CONSTANTS =====
+
+const MAX_SUBSCRIPTIONS_PER_USER = 20;
+const MAX_ERROR_LENGTH = 500;
+
+// ===== SERVICE INTERFACES =====
+
+/**
+ * Options for registering a webhook endpoint
+ */
+export interface CreateWebhookOptions {
+  userId: string;
+  url: string;
+  events: WebhookEventType[];
+  description?: string;
+}
+
+/**
+ * Options for changing a webhook endpoint
+ */
+export interface UpdateWebhookOptions {
+  userId: string;
+  subscriptionId: number;
+  url?: string;
+  events?: WebhookEventType[];
+  description?: string | null;
+  isActive?: boolean;
+}
+
+/**
+ * Subscription as returned to its owner; the secret is only shown on creation
+ */
+export interface WebhookSubscriptionView {
+  id: number;
+  url: string;
+  events: WebhookEventType[];
+  description: string | null;
+  isActive: boolean;
+  secretPreview: string;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+/**
+ * Result of registering a webhook endpoint
+ */
+export interface WebhookCreationResult {
+  subscription: WebhookSubscriptionView;
+  secret: string;
+}
+
+// ===== PURE HELPERS =====
+
+/**
+ * Strip the signing secret from a subscription
+ */
+export function toWebhookSubscriptionView(subscription: WebhookSubscription): WebhookSubscriptionView {
+  return {
+    id: subscription.id,
+    url: subscription.url,
+    events: subscription.events,
+    description: subscription.description,
+    isActive: subscription.isActive,
+    secretPreview: `${subscription.secret.slice(0, 6)}...${subscription.secret.slice(-4)}`,
+    createdAt: subscription.createdAt,
+    updatedAt: subscription.updatedAt,
+  };
+}
+
+// ===== WEBHOOK SERVICE IMPLEMENTATION =====
+
+/**
+ * Webhook Service - Manages subscriptions and delivers events
+ */
+export class WebhookService {
+  constructor(private _storageProvider?: IStorage) {
+    logger.debug('WebhookService initialized');
+  }
+
+  private getStorageProvider(): IStorage {
+    return this._storageProvider || getStorage();
+  }
+
+  /**
+   * Register a webhook endpoint for the user
+   */
+  async createSubscription(options: CreateWebhookOptions): Promise<WebhookResult<WebhookCreationResult>> {
+    try {
+      const urlError = await checkWebhookDestination(options.url);
+      if (urlError) {
+        return failure(new AppValidationError(urlError, 'url'));
+      }
+
+      const storage = this.getStorageProvider();
+      const existing = await storage.getWebhookSubscriptions(options.userId);
+      if (existing.length >= MAX_SUBSCRIPTIONS_PER_USER) {
+        return failure(new AppValidationError(
+          `Too many webhook subscriptions (max ${MAX_SUBSCRIPTIONS_PER_USER})`
+        ));
+      }
+
+      const secret = generateWebhookSecret();
+      const subscription = await storage.createWebhookSubscription({
+        userId: options.userId,
+        url: options.url,
+        events: Array.from(new Set(options.events)),
+        secret,
+        description: options.description ?? null,
+        isActive: true,
+      });
+
+      logger.info('Webhook subscription created', {
+        userId: options.userId,
+        subscriptionId: subscription.id,
+        events: subscription.events
+      });
+
+      return success({ subscription: toWebhookSubscriptionView(subscription), secret });
+    } catch (error) {
+      logger.error('Failed to create webhook subscription', {
+        userId: options.userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return failure(AppExternalServiceError.databaseFailure('webhook_create', toAppError(error).message));
+    }
+  }
+
+  /**
+   * List the user's webhook endpoints
+   */
+  async listSubscriptions(userId: string): Promise<WebhookResult<WebhookSubscriptionView[]>> {
+    try {
+      const subscriptions = await this.getStorageProvider().getWebhookSubscriptions(userId);
+      return success(subscriptions.map(toWebhookSubscriptionView));
+    } catch (error) {
+      logger.error('Failed to list webhook subscriptions', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return failure(AppExternalServiceError.databaseFailure('webhook_list', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Get one of the user's webhook endpoints
+   */
+  async getSubscription(userId: string, subscriptionId: number): Promise<WebhookResult<WebhookSubscriptionView>> {
+    try {
+      const subscriptionResult = await this.getOwnedSubscription(userId, subscriptionId);
+      if (isFailure(subscriptionResult)) {
+        return subscriptionResult;
+      }
+      return success(toWebhookSubscriptionView(subscriptionResult.data));
+    } catch (error) {
+      return failure(AppExternalServiceError.databaseFailure('webhook_get', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Change the URL, events, description or active flag of an endpoint
+   */
+  async updateSubscription(options: UpdateWebhookOptions): Promise<WebhookResult<WebhookSubscriptionView>> {
+    try {
+      const subscriptionResult = await this.getOwnedSubscription(options.userId, options.subscriptionId);
+      if (isFailure(subscriptionResult)) {
+        return subscriptionResult;
+      }
+
+      if (options.url !== undefined) {
+        const urlError = await checkWebhookDestination(options.url);
+        if (urlError) {
+          return failure(new AppValidationError(urlError, 'url'));
+        }
+      }
+
+      const updates: Partial<InsertWebhookSubscription> = {};
+      if (options.url !== undefined) updates.url = options.url;
+      if (options.events !== undefined) updates.events = Array.from(new Set(options.events));
+      if (options.description !== undefined) updates.description = options.description;
+      if (options.isActive !== undefined) updates.isActive = options.isActive;
+
+      const updated = await this.getStorageProvider().updateWebhookSubscription(options.subscriptionId, updates);
+      if (!updated) {
+        return failure(new AppNotFoundError('Webhook', options.subscriptionId));
+      }
+
+      logger.info('Webhook subscription updated', {
+        userId: options.userId,
+        subscriptionId: options.subscriptionId,
+        fields: Object.keys(updates)
+      });
+
+      return success(toWebhookSubscriptionView(updated));
+    } catch (error) {
+      logger.error('Failed to update webhook subscription', {
+        userId: options.userId,
+        subscriptionId: options.subscriptionId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return failure(AppExternalServiceError.databaseFailure('webhook_update', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Remove an endpoint and its delivery log
+   */
+  async deleteSubscription(userId: string, subscriptionId: number): Promise<WebhookResult<{ deleted: true }>> {
+    try {
+      const subscriptionResult = await this.getOwnedSubscription(userId, subscriptionId);
+      if (isFailure(subscriptionResult)) {
+        return subscriptionResult;
+      }
+
+      await this.getStorageProvider().deleteWebhookSubscription(subscriptionId);
+      logger.info('Webhook subscription deleted', { userId, subscriptionId });
+
+      return success({ deleted: true });
+    } catch (error) {
+      logger.error('Failed to delete webhook subscription', {
+        userId,
+        subscriptionId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return failure(AppExternalServiceError.databaseFailure('webhook_delete', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Delivery log of an endpoint, most recent first
+   */
+  async listDeliveries(
+    userId: string,
+    subscriptionId: number,
+    limit = 50
+  ): Promise<WebhookResult<WebhookDelivery[]>> {
+    try {
+      const subscriptionResult = await this.getOwnedSubscription(userId, subscriptionId);
+      if (isFailure(subscriptionResult)) {
+        return subscriptionResult;
+      }
+
+      const deliveries = await this.getStorageProvider().getWebhookDeliveries(subscriptionId, limit);
+      return success(deliveries);
+    } catch (error) {
+      logger.error('Failed to list webhook deliveries', {
+        userId,
+        subscriptionId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return failure(AppExternalServiceError.databaseFailure('webhook_deliveries', toAppError(error).message));
+    }
+  }
+
+  /**
+   * Record a delivery for every active subscription of the user that listens
+   * to the event, then queue them. Returns the number of deliveries queued.
+   */
+  async dispatchEvent(
+    userId: string,
+    event: WebhookEventType,
+    data: Record<string, unknown>
+  ): Promise<number> {
+    const storage = this.getStorageProvider();
+    const subscriptions = (await storage.getWebhookSubscriptions(userId))
+      .filter(subscription => subscription.isActive && subscription.events.includes(event));
+
+    if (subscriptions.length === 0) {
+      return 0;
+    }
+
+    const payload = buildWebhookPayload(event, data);
+    for (const subscription of subscriptions) {
+      const delivery = await storage.createWebhookDelivery({
+        subscriptionId: subscription.id,
+        event,
+        payload: { ...payload },
+      });
+      await this.enqueueDelivery(delivery.id);
+    }
+
+    logger.info('Webhook event dispatched', {
+      userId,
+      event,
+      eventId: payload.id,
+      subscriptions: subscriptions.length
+    });
+
+    return subscriptions.length;
+  }
+
+  /**
+   * Make one delivery attempt. Returns true when the endpoint answered 2xx.
+   * The delivery is marked failed once the final attempt fails; until then it
+   * stays pending.
+   */
+  async attemptDelivery(deliveryId: number, finalAttempt: boolean): Promise<boolean> {
+    const storage = this.getStorageProvider();
+    const delivery = await storage.getWebhookDelivery(deliveryId);
+    if (!delivery || delivery.status === 'succeeded') {
+      return true;
+    }
+
+    const subscription = await storage.getWebhookSubscription(delivery.subscriptionId);
+    if (!subscription || !subscription.isActive) {
+      await storage.updateWebhookDelivery(deliveryId, {
+        status: 'failed',
+        error: 'Subscription was removed or disabled'
+      });
+      return true; // Nothing left to retry
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const attemptedAt = new Date();
+    let responseStatus: number | null = null;
+    let errorMessage: string | null = null;
+
+    try {
+      const response = await this.postToEndpoint(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'EvalMatch-Webhooks/1.0',
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(subscription.secret, body),
+          [WEBHOOK_EVENT_HEADER]: delivery.event,
+          [WEBHOOK_DELIVERY_HEADER]: String(delivery.id),
+        },
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      if (response.status < 200 || response.status >= 300) {
+        errorMessage = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : 'Request failed';
+    }
+
+    const succeeded = errorMessage === null;
+    await storage.updateWebhookDelivery(deliveryId, {
+      attempts: delivery.attempts + 1,
+      lastAttemptAt: attemptedAt,
+      responseStatus,
+      error: errorMessage ? errorMessage.slice(0, MAX_ERROR_LENGTH) : null,
+      status: succeeded ? 'succeeded' : finalAttempt ? 'failed' : 'pending',
+      deliveredAt: succeeded ? attemptedAt : null,
+    });
+
+    if (!succeeded) {
+      logger.warn('Webhook delivery attempt failed', {
+        deliveryId,
+        subscriptionId: subscription.id,
+        attempt: delivery.attempts + 1,
+        finalAttempt,
+        error: errorMessage
+      });
+    }
+
+    return succeeded;
+  }
+
+  // ===== PRIVATE HELPER METHODS =====
+
+  /**
+   * Send a delivery request, following redirects by hand so the destination
+   * is checked again before every hop and each hop connects only to the
+   * addresses its check resolved
+   */
+  private async postToEndpoint(url: string, init: WebhookRequestInit): Promise<WebhookEndpointResponse> {
+    let target = url;
+    for (let redirects = 0; ; redirects++) {
+      const destination = await resolveWebhookDestination(target);
+      if ('error' in destination) {
+        throw new Error(destination.error);
+      }
+
+      const response = await sendWebhookRequest(target, destination.addresses, init);
+      const location = response.location;
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return response;
+      }
+      if (redirects >= WEBHOOK_MAX_REDIRECTS) {
+        throw new Error(`Endpoint redirected more than ${WEBHOOK_MAX_REDIRECTS} times`);
+      }
+      target = new URL(location, target).toString();
+    }
+  }
+
+  /**
+   * Load a subscription, verifying the user owns it
+   */
+  private async getOwnedSubscription(
+    userId: string,
+    subscriptionId: number
+  ): Promise<WebhookResult<WebhookSubscription>> {
+    const subscription = await this.getStorageProvider().getWebhookSubscription(subscriptionId);
+    if (!subscription || subscription.userId !== userId) {
+      return failure(new AppNotFoundError('Webhook', subscriptionId));
+    }
+    return success(subscription);
+  }
+
+  /**
+   * Hand a delivery to the queue, or retry in-process when Redis is unavailable
+   */
+  private async enqueueDelivery(deliveryId: number): Promise<void> {
+    // Loaded lazily so importing this service does not open a Redis connection
+    const { queueManager } = await import('../lib/queue-manager');
+    if (queueManager.isReady()) {
+      try {
+        await queueManager.addJob('WEBHOOK_DELIVERY', 'deliver', { deliveryId }, {
+          jobId: `webhook-delivery-${deliveryId}`,
+          attempts: WEBHOOK_MAX_ATTEMPTS,
+          backoff: { type: 'exponential', delay: WEBHOOK_BACKOFF_BASE_MS },
+        });
+        return;
+      } catch (error) {
+        logger.warn('Failed to queue webhook delivery, delivering in-process', { deliveryId, error });
+      }
+    }
+
+    this.deliverInProcess(deliveryId, 1);
+  }
+
+  private deliverInProcess(deliveryId: number, attempt: number): void {
+    const finalAttempt = attempt >= WEBHOOK_MAX_ATTEMPTS;
+    this.attemptDelivery(deliveryId, finalAttempt)
+      .then(succeeded => {
+        if (!succeeded && !finalAttempt) {
+          setTimeout(() => this.deliverInProcess(deliveryId, attempt + 1), getWebhookRetryDelay(attempt)).unref();
+        }
+      })
+      .catch(error => {
+        logger.error('In-process webhook delivery failed', { deliveryId, attempt, error });
+      });
+  }
+}
+
+// ===== QUEUE WORKER =====
+
+/**
+ * Start the BullMQ worker for webhook deliveries. A failed attempt throws so
+ * BullMQ schedules the next one with backoff.
+ */
+export async function registerWebhookWorker(): Promise<boolean> {
+  const { queueManager } = await import('../lib/queue-manager');
+  return queueManager.registerWorker('WEBHOOK_DELIVERY', async (job: Job) => {
+    const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? WEBHOOK_MAX_ATTEMPTS);
+    const succeeded = await createWebhookService().attemptDelivery(job.data.deliveryId, finalAttempt);
+    if (!succeeded) {
+      throw new Error(`Webhook delivery ${job.data.deliveryId} failed`);
+    }
+  });
+}
+
+/**
+ * Fire-and-forget event emission for other services; never throws
+ */
+export function emitWebhookEvent(
+  userId: string | null | undefined,
+  event: WebhookEventType,
+  data: Record<string, unknown>
+): void {
+  if (!userId) return;
+
+  createWebhookService()
+    .dispatchEvent(userId, event, data)
+    .catch(error => {
+      logger.error('Failed to dispatch webhook event', {
+        userId,
+        event,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+}
+
+// ===== SERVICE FACTORY =====
+
+/**
+ * Create a webhook service instance with the provided or default storage
+ */
+export function createWebhookService(storageProvider?: IStorage): WebhookService {
+  return new WebhookService(storageProvider);
+}
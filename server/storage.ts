@@ -1,13 +1,37 @@
 import {
   type Resume, type InsertResume,
   type JobDescription, type InsertJobDescription,
+  type JobDescriptionVersion, type InsertJobDescriptionVersion,
   type AnalysisResult, type InsertAnalysisResult,
   type InterviewQuestions, type InsertInterviewQuestions,
-  type AnalyzeResumeResponse, type AnalyzeJobDescriptionResponse, 
-  type User, type InsertUser, type SimpleBiasAnalysis
+  type InterviewScorecard, type InsertInterviewScorecard,
+  type ProductFeedback, type InsertProductFeedback, type ProductFeedbackFilters, type ProductFeedbackPage,
+  type AnalysisRating, type InsertAnalysisRating, type AnalysisRatingFilters,
+  type SkillCorrection, type InsertSkillCorrection,
+  type SkillTaxonomyEntry, type InsertSkillTaxonomyEntry,
+  type CandidateGroup, type InsertCandidateGroup, type ResumeDuplicateState,
+  type AnalyzeResumeResponse, type AnalyzeJobDescriptionResponse,
+  type User, type InsertUser, type SimpleBiasAnalysis,
+  type PipelineStage, type InsertPipelineStage,
+  type CandidatePipelineEntry, type InsertCandidatePipelineEntry,
+  type PipelineTransition, type InsertPipelineTransition,
+  type WebhookSubscription, type InsertWebhookSubscription,
+  type WebhookDelivery, type InsertWebhookDelivery,
+  type AnalysisRun, type InsertAnalysisRun,
+  type AnalysisRunItem, type InsertAnalysisRunItem,
+  type ResumeSimilarityMatch,
+  type AuditRecord, type AuditRecordContent, type AuditRecordFilters, type AuditRecordPage,
+  type RescoreRun, type InsertRescoreRun,
+  type RescoredAnalysisResult, type InsertRescoredAnalysisResult,
+  type LlmUsageRecord, type InsertLlmUsageRecord, type LlmBudget, type LlmOrganizationBudget,
+  type Organization, type InsertOrganization, type OrganizationWithRole, type OrganizationRole,
+  type OrganizationMember, type InsertOrganizationMember,
+  type OrganizationInvitation, type InsertOrganizationInvitation
 } from "@shared/schema";
 import { UserTierInfo } from "@shared/user-tiers";
 import { logger } from "./lib/logger";
+import { rankResumesBySimilarity } from "./lib/vector-search";
+import { AUDIT_GENESIS_HASH, sealAuditRecord } from "./lib/audit-chain";
 
 /**
  * Storage interface for the Evalmatch resume analysis system.
@@ -67,10 +91,11 @@ export interface IStorage {
   getResume(_id: number): Promise<Resume | undefined>;
   
   /**
-   * Retrieves a resume by ID with user ownership validation.
+   * Retrieves a resume by ID with user access validation. The user must own
+   * the resume or be a member of the organization it is shared with.
    * 
    * @param id - The unique identifier of the resume
-   * @param userId - The ID of the user who should own this resume
+   * @param userId - The ID of the user requesting the resume
    * @returns Promise resolving to the resume object or undefined if not found/unauthorized
    * @throws {Error} If database connection fails or query is malformed
    */
@@ -87,14 +112,17 @@ export interface IStorage {
   
   /**
    * Retrieves all resumes for a specific user with optional filtering.
+   * With an organization ID, returns the resumes shared with that organization
+   * instead, or none if the user is not a member.
    * 
    * @param userId - The ID of the user whose resumes to retrieve
    * @param sessionId - Optional session ID to filter resumes
    * @param batchId - Optional batch ID to filter resumes
+   * @param organizationId - Optional organization whose shared resumes to retrieve
    * @returns Promise resolving to an array of resume objects
    * @throws {Error} If database connection fails
    */
-  getResumesByUserId(_userId: string, _sessionId?: string, _batchId?: string): Promise<Resume[]>;
+  getResumesByUserId(_userId: string, _sessionId?: string, _batchId?: string, _organizationId?: number): Promise<Resume[]>;
   
   /**
    * Creates a new resume in the storage system.
@@ -125,6 +153,17 @@ export interface IStorage {
    * @throws {Error} If resume not found or update fails
    */
   updateResumeEmbeddings(_id: number, _embedding: number[] | null, _skillsEmbedding: number[] | null): Promise<Resume>;
+
+  /**
+   * Finds the resumes whose content embedding is closest to a job's,
+   * among the resumes of the job's owner.
+   * 
+   * @param jobId - The job description to match against
+   * @param k - Maximum number of resumes to return
+   * @returns Promise resolving to the nearest resumes, most similar first; empty if the job has no usable embedding
+   * @throws {Error} If database connection fails
+   */
+  searchSimilarResumes(_jobId: number, _k: number): Promise<ResumeSimilarityMatch[]>;
   
   // ==================== JOB DESCRIPTION METHODS ====================
   
@@ -138,10 +177,11 @@ export interface IStorage {
   getJobDescription(_id: number): Promise<JobDescription | undefined>;
   
   /**
-   * Retrieves a job description by ID with user ownership validation.
+   * Retrieves a job description by ID with user access validation. The user
+   * must own the job or be a member of the organization it is shared with.
    * 
    * @param id - The unique identifier of the job description
-   * @param userId - The ID of the user who should own this job description
+   * @param userId - The ID of the user requesting the job description
    * @returns Promise resolving to the job description object or undefined if not found/unauthorized
    * @throws {Error} If database connection fails or query is malformed
    */
@@ -156,13 +196,16 @@ export interface IStorage {
   getJobDescriptions(): Promise<JobDescription[]>;
   
   /**
-   * Retrieves all job descriptions for a specific user.
+   * Retrieves all job descriptions for a specific user. With an organization
+   * ID, returns the jobs shared with that organization instead, or none if
+   * the user is not a member.
    * 
    * @param userId - The ID of the user whose job descriptions to retrieve
+   * @param organizationId - Optional organization whose shared jobs to retrieve
    * @returns Promise resolving to an array of job description objects
    * @throws {Error} If database connection fails
    */
-  getJobDescriptionsByUserId(_userId: string): Promise<JobDescription[]>;
+  getJobDescriptionsByUserId(_userId: string, _organizationId?: number): Promise<JobDescription[]>;
   
   /**
    * Creates a new job description in the storage system.
@@ -233,6 +276,26 @@ export interface IStorage {
    * @throws {Error} If job description not found or deletion fails
    */
   deleteJobDescription(_id: number): Promise<void>;
+
+  // ==================== JOB DESCRIPTION VERSION METHODS ====================
+
+  /**
+   * Records the content of a job description version.
+   *
+   * @param version - The version number, content and diff from the previous version
+   * @returns Promise resolving to the created version
+   * @throws {Error} If the insert fails or the version already exists
+   */
+  createJobDescriptionVersion(_version: InsertJobDescriptionVersion): Promise<JobDescriptionVersion>;
+
+  /**
+   * Retrieves the recorded versions of a job description.
+   *
+   * @param jobDescriptionId - The ID of the job description
+   * @returns Promise resolving to the versions, newest first
+   * @throws {Error} If database connection fails
+   */
+  getJobDescriptionVersions(_jobDescriptionId: number): Promise<JobDescriptionVersion[]>;
   
   // ==================== ANALYSIS RESULTS METHODS ====================
   
@@ -287,13 +350,24 @@ export interface IStorage {
   getAnalysisResultsByJobDescriptionId(_jobDescriptionId: number): Promise<AnalysisResult[]>;
   
   /**
-   * Creates a new analysis result in the storage system.
+   * Creates a new analysis result in the storage system. Without a jobVersion,
+   * the analysis is stamped with the job description's current version.
    * 
    * @param analysisResult - The analysis result data to insert (without ID)
    * @returns Promise resolving to the created analysis result object with assigned ID
    * @throws {Error} If creation fails or required fields are missing
    */
   createAnalysisResult(_analysisResult: InsertAnalysisResult): Promise<AnalysisResult>;
+
+  /**
+   * Marks the analyses of a job that ran against an earlier version as stale.
+   *
+   * @param jobDescriptionId - The ID of the job description
+   * @param currentVersion - The job's version after the change
+   * @returns Promise resolving to the number of analyses newly marked stale
+   * @throws {Error} If the update fails
+   */
+  markAnalysisResultsStale(_jobDescriptionId: number, _currentVersion: number): Promise<number>;
   
   // ==================== INTERVIEW QUESTIONS METHODS ====================
   
@@ -342,6 +416,202 @@ export interface IStorage {
    * @throws {Error} If creation fails or required fields are missing
    */
   createInterviewQuestions(_interviewQuestions: InsertInterviewQuestions): Promise<InterviewQuestions>;
+
+  // ==================== INTERVIEW SCORECARD METHODS ====================
+
+  /**
+   * Retrieves every interviewer's scorecard for a set of interview questions.
+   *
+   * @param interviewQuestionsId - The ID of the interview question set
+   * @returns Promise resolving to scorecards, oldest first
+   * @throws {Error} If database connection fails
+   */
+  getInterviewScorecards(_interviewQuestionsId: number): Promise<InterviewScorecard[]>;
+
+  /**
+   * Stores an interviewer's scorecard for a question set.
+   *
+   * @param scorecard - The scorecard; an existing one from the same interviewer for the same set is replaced
+   * @returns Promise resolving to the stored scorecard
+   * @throws {Error} If the write fails
+   */
+  upsertInterviewScorecard(_scorecard: InsertInterviewScorecard): Promise<InterviewScorecard>;
+
+  // ==================== FEEDBACK METHODS ====================
+
+  /**
+   * Stores a product feedback submission.
+   *
+   * @param feedback - The submission; userId is null for signed-out visitors
+   * @returns Promise resolving to the stored feedback with assigned ID
+   * @throws {Error} If the write fails
+   */
+  createProductFeedback(_feedback: InsertProductFeedback): Promise<ProductFeedback>;
+
+  /**
+   * Searches product feedback, newest first.
+   *
+   * @param filters - Type, rating, submitter and date range filters plus paging
+   * @returns Promise resolving to one page of feedback and the total match count
+   * @throws {Error} If database connection fails
+   */
+  searchProductFeedback(_filters: ProductFeedbackFilters): Promise<ProductFeedbackPage>;
+
+  /**
+   * Stores a user's rating of an analysis result.
+   *
+   * @param rating - The rating; an existing one from the same user for the same result is replaced
+   * @returns Promise resolving to the stored rating
+   * @throws {Error} If the write fails
+   */
+  upsertAnalysisRating(_rating: InsertAnalysisRating): Promise<AnalysisRating>;
+
+  /**
+   * Retrieves a user's rating of an analysis result.
+   *
+   * @param analysisResultId - The ID of the rated analysis result
+   * @param userId - The ID of the user who rated it
+   * @returns Promise resolving to the rating or undefined if the user has not rated it
+   * @throws {Error} If database connection fails
+   */
+  getAnalysisRating(_analysisResultId: number, _userId: string): Promise<AnalysisRating | undefined>;
+
+  /**
+   * Lists analysis ratings, newest first.
+   *
+   * @param filters - Provider/model, verdict and date range filters; limit caps the result when set
+   * @returns Promise resolving to the matching ratings
+   * @throws {Error} If database connection fails
+   */
+  listAnalysisRatings(_filters: AnalysisRatingFilters): Promise<AnalysisRating[]>;
+
+  // ==================== SKILL CORRECTION METHODS ====================
+
+  /**
+   * Stores a user's correction to an extracted skill.
+   *
+   * @param correction - The correction; an existing one from the same user for the same normalized skill is replaced
+   * @returns Promise resolving to the stored correction
+   * @throws {Error} If the write fails
+   */
+  upsertSkillCorrection(_correction: InsertSkillCorrection): Promise<SkillCorrection>;
+
+  /**
+   * Retrieves every skill correction a user has made.
+   *
+   * @param userId - The ID of the user
+   * @returns Promise resolving to the corrections, newest first
+   * @throws {Error} If database connection fails
+   */
+  getSkillCorrections(_userId: string): Promise<SkillCorrection[]>;
+
+  /**
+   * Deletes one of a user's skill corrections.
+   *
+   * @param id - The unique identifier of the correction
+   * @param userId - The ID of the user who made it
+   * @returns Promise resolving to true if a correction was deleted
+   * @throws {Error} If the delete fails
+   */
+  deleteSkillCorrection(_id: number, _userId: string): Promise<boolean>;
+
+  // ==================== SKILL TAXONOMY METHODS ====================
+
+  /**
+   * Adds a skill to an organization's taxonomy.
+   *
+   * @param entry - The skill; its normalized name must be unique within the organization
+   * @returns Promise resolving to the created entry
+   * @throws {Error} If the write fails or the name is taken
+   */
+  createSkillTaxonomyEntry(_entry: InsertSkillTaxonomyEntry): Promise<SkillTaxonomyEntry>;
+
+  /**
+   * Updates a skill in an organization's taxonomy.
+   *
+   * @param id - The unique identifier of the entry
+   * @param updates - Fields to change
+   * @returns Promise resolving to the updated entry, or undefined if not found
+   * @throws {Error} If the write fails or the new name is taken
+   */
+  updateSkillTaxonomyEntry(_id: number, _updates: Partial<InsertSkillTaxonomyEntry>): Promise<SkillTaxonomyEntry | undefined>;
+
+  /**
+   * Retrieves an organization's whole taxonomy.
+   *
+   * @param organizationId - The ID of the organization
+   * @returns Promise resolving to the entries, sorted by name
+   * @throws {Error} If database connection fails
+   */
+  getSkillTaxonomyEntries(_organizationId: number): Promise<SkillTaxonomyEntry[]>;
+
+  /**
+   * Deletes a skill from an organization's taxonomy; its narrower skills move to the top level.
+   *
+   * @param id - The unique identifier of the entry
+   * @param organizationId - The organization the entry belongs to
+   * @returns Promise resolving to true if an entry was deleted
+   * @throws {Error} If the delete fails
+   */
+  deleteSkillTaxonomyEntry(_id: number, _organizationId: number): Promise<boolean>;
+
+  // ==================== CANDIDATE GROUP METHODS ====================
+
+  /**
+   * Creates a group linking resumes of the same person.
+   *
+   * @param group - The group; primaryResumeId is the copy that gets analyzed
+   * @returns Promise resolving to the created group
+   * @throws {Error} If the insert fails
+   */
+  createCandidateGroup(_group: InsertCandidateGroup): Promise<CandidateGroup>;
+
+  /**
+   * Retrieves a candidate group.
+   *
+   * @param id - The unique identifier of the group
+   * @returns Promise resolving to the group or undefined if not found
+   * @throws {Error} If database connection fails
+   */
+  getCandidateGroup(_id: number): Promise<CandidateGroup | undefined>;
+
+  /**
+   * Makes another member the group's primary resume.
+   *
+   * @param id - The unique identifier of the group
+   * @param primaryResumeId - The member resume to analyze for the group
+   * @returns Promise resolving to the updated group or undefined if not found
+   * @throws {Error} If the update fails
+   */
+  setCandidateGroupPrimary(_id: number, _primaryResumeId: number): Promise<CandidateGroup | undefined>;
+
+  /**
+   * Deletes a candidate group. Its remaining members are detached from it.
+   *
+   * @param id - The unique identifier of the group
+   * @returns Promise resolving when the group is deleted
+   * @throws {Error} If the delete fails
+   */
+  deleteCandidateGroup(_id: number): Promise<void>;
+
+  /**
+   * Retrieves the resumes linked to a candidate group.
+   *
+   * @param groupId - The unique identifier of the group
+   * @returns Promise resolving to the member resumes, oldest first
+   * @throws {Error} If database connection fails
+   */
+  getResumesByCandidateGroup(_groupId: number): Promise<Resume[]>;
+
+  /**
+   * Links a resume to a candidate group, or detaches it.
+   *
+   * @param resumeId - The unique identifier of the resume
+   * @param state - Group, duplicate status and matched signals; nulls detach the resume
+   * @returns Promise resolving to the updated resume or undefined if not found
+   * @throws {Error} If the update fails
+   */
+  updateResumeDuplicateState(_resumeId: number, _state: ResumeDuplicateState): Promise<Resume | undefined>;
   
   // ==================== COMBINATION METHODS ====================
   
@@ -359,157 +629,764 @@ export interface IStorage {
     analysis: AnalysisResult | undefined;
     questions: InterviewQuestions | undefined;
   }>;
-  
-  // ==================== USER TIER METHODS (OPTIONAL) ====================
-  
+
+  // ==================== HIRING PIPELINE METHODS ====================
+
   /**
-   * Retrieves user tier information for usage limits and feature access.
-   * This method is optional and may not be implemented by all storage backends.
-   * 
-   * @param userId - The ID of the user
-   * @returns Promise resolving to the user tier info or undefined if not found/implemented
-   * @throws {Error} If database connection fails (when implemented)
+   * Retrieves the configured pipeline stages for a job, ordered by position.
+   *
+   * @param jobDescriptionId - The ID of the job description
+   * @returns Promise resolving to the ordered stages (empty if none configured)
+   * @throws {Error} If database connection fails
    */
-  getUserTierInfo?(_userId: string): Promise<UserTierInfo | undefined>;
-  
+  getPipelineStages(_jobDescriptionId: number): Promise<PipelineStage[]>;
+
   /**
-   * Saves user tier information for usage tracking and feature access.
-   * This method is optional and may not be implemented by all storage backends.
-   * 
-   * @param userId - The ID of the user
-   * @param tierInfo - The tier information to save
-   * @returns Promise that resolves when save is complete
-   * @throws {Error} If database connection fails (when implemented)
+   * Replaces the full stage configuration of a job's pipeline.
+   *
+   * @param jobDescriptionId - The ID of the job description
+   * @param stages - The new stages; positions are taken from array order
+   * @returns Promise resolving to the stored stages
+   * @throws {Error} If the replacement fails
    */
-  saveUserTierInfo?(_userId: string, _tierInfo: UserTierInfo): Promise<void>;
-}
+  replacePipelineStages(_jobDescriptionId: number, _stages: InsertPipelineStage[]): Promise<PipelineStage[]>;
 
-export class MemStorage implements IStorage {
-  private users: Map<number, User>;
-  private resumesData: Map<number, Resume>;
-  private jobDescriptionsData: Map<number, JobDescription>;
-  private analysisResultsData: Map<number, AnalysisResult>;
-  private interviewQuestionsData: Map<number, InterviewQuestions>;
-  private userTiersData: Map<string, UserTierInfo>;
-  
-  // Counters for IDs
-  private userCurrentId: number;
-  private resumeCurrentId: number;
-  private jobDescriptionCurrentId: number;
-  private analysisResultCurrentId: number;
-  private interviewQuestionsCurrentId: number;
+  /**
+   * Retrieves the current stage of every candidate tracked for a job.
+   *
+   * @param jobDescriptionId - The ID of the job description
+   * @returns Promise resolving to an array of pipeline entries
+   * @throws {Error} If database connection fails
+   */
+  getCandidatePipelineEntries(_jobDescriptionId: number): Promise<CandidatePipelineEntry[]>;
 
-  constructor() {
-    this.users = new Map();
-    this.resumesData = new Map();
-    this.jobDescriptionsData = new Map();
-    this.analysisResultsData = new Map();
-    this.interviewQuestionsData = new Map();
-    this.userTiersData = new Map();
-    
-    this.userCurrentId = 1;
-    this.resumeCurrentId = 1;
-    this.jobDescriptionCurrentId = 1;
-    this.analysisResultCurrentId = 1;
-    this.interviewQuestionsCurrentId = 1;
-  }
+  /**
+   * Retrieves the pipeline entry for a single job/resume pair.
+   *
+   * @param jobDescriptionId - The ID of the job description
+   * @param resumeId - The ID of the resume
+   * @returns Promise resolving to the entry or undefined if the candidate is not tracked yet
+   * @throws {Error} If database connection fails
+   */
+  getCandidatePipelineEntry(_jobDescriptionId: number, _resumeId: number): Promise<CandidatePipelineEntry | undefined>;
 
-  // User methods (from the original implementation)
-  async getUser(_id: number): Promise<User | undefined> {
-    return this.users.get(_id);
-  }
+  /**
+   * Creates or updates the pipeline entry for a job/resume pair.
+   *
+   * @param entry - The entry to store; an existing job/resume pair has its stage replaced
+   * @returns Promise resolving to the stored entry
+   * @throws {Error} If the write fails
+   */
+  upsertCandidatePipelineEntry(_entry: InsertCandidatePipelineEntry): Promise<CandidatePipelineEntry>;
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.username === username,
-    );
-  }
+  /**
+   * Records a stage transition in the pipeline history.
+   *
+   * @param transition - The transition to record
+   * @returns Promise resolving to the stored transition with assigned ID
+   * @throws {Error} If the write fails
+   */
+  createPipelineTransition(_transition: InsertPipelineTransition): Promise<PipelineTransition>;
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = this.userCurrentId++;
-    const user: User = { 
-      ...insertUser, 
-      id,
-      email: insertUser.email ?? null,
-      createdAt: insertUser.createdAt ?? null,
-      updatedAt: insertUser.updatedAt ?? null
-    };
-    this.users.set(id, user);
-    return user;
-  }
+  /**
+   * Retrieves the transition history for a job, optionally for a single candidate.
+   *
+   * @param jobDescriptionId - The ID of the job description
+   * @param resumeId - Optional resume ID to restrict the history to one candidate
+   * @returns Promise resolving to transitions, most recent first
+   * @throws {Error} If database connection fails
+   */
+  getPipelineTransitions(_jobDescriptionId: number, _resumeId?: number): Promise<PipelineTransition[]>;
 
-  // Resume methods
-  async getResume(id: number): Promise<Resume | undefined> {
-    return this.resumesData.get(id);
-  }
+  // ==================== WEBHOOK METHODS ====================
 
-  async getResumeById(id: number, userId: string): Promise<Resume | undefined> {
-    const resume = this.resumesData.get(id);
-    if (resume && resume.userId === userId) {
-      return resume;
-    }
-    return undefined;
-  }
+  /**
+   * Registers a webhook endpoint for a user.
+   *
+   * @param subscription - The subscription to store, including its signing secret
+   * @returns Promise resolving to the stored subscription with assigned ID
+   * @throws {Error} If the write fails
+   */
+  createWebhookSubscription(_subscription: InsertWebhookSubscription): Promise<WebhookSubscription>;
 
-  async getResumes(sessionId?: string): Promise<Resume[]> {
-    const allResumes = Array.from(this.resumesData.values());
-    
-    // If no sessionId provided, return all resumes
-    if (!sessionId) {
-      return allResumes;
-    }
-    
-    // Filter resumes by sessionId
-    return allResumes.filter(resume => resume.sessionId === sessionId);
-  }
+  /**
+   * Retrieves all webhook subscriptions of a user.
+   *
+   * @param userId - The Firebase UID of the owner
+   * @returns Promise resolving to the user's subscriptions, newest first
+   * @throws {Error} If database connection fails
+   */
+  getWebhookSubscriptions(_userId: string): Promise<WebhookSubscription[]>;
 
-  async getResumesByUserId(userId: string, sessionId?: string, batchId?: string): Promise<Resume[]> {
-    const allResumes = Array.from(this.resumesData.values());
-    
-    // Filter by userId first
-    let userResumes = allResumes.filter(resume => resume.userId === userId);
-    
-    // Apply both sessionId and batchId filters when provided
-    if (batchId) {
-      userResumes = userResumes.filter(resume => resume.batchId === batchId);
-    }
-    
-    if (sessionId) {
-      userResumes = userResumes.filter(resume => resume.sessionId === sessionId);
-    }
-    
-    return userResumes;
-  }
+  /**
+   * Retrieves a webhook subscription by ID. Callers must check ownership.
+   *
+   * @param id - The subscription ID
+   * @returns Promise resolving to the subscription or undefined if not found
+   * @throws {Error} If database connection fails
+   */
+  getWebhookSubscription(_id: number): Promise<WebhookSubscription | undefined>;
 
-  async createResume(insertResume: InsertResume): Promise<Resume> {
-    const id = this.resumeCurrentId++;
-    const now = new Date();
-    // Make sure sessionId is set to a default value if not provided
-    const sessionId = insertResume.sessionId || "default";
-    // Make sure batchId is set to a default value if not provided
-    const batchId = insertResume.batchId || "default";
-    
-    const resume: Resume = {
-      ...insertResume,
-      id,
-      createdAt: now,
-      updatedAt: insertResume.updatedAt || null,
-      analyzedData: null,
-      sessionId, // Ensure sessionId is assigned
-      batchId, // Ensure batchId is assigned
-      content: insertResume.content || null,
-      fileSize: insertResume.fileSize || null,
-      fileType: insertResume.fileType || null,
-      skills: insertResume.skills || null,
-      experience: insertResume.experience || null,
-      education: insertResume.education ?? null,
-      embedding: insertResume.embedding || null,
-      skillsEmbedding: insertResume.skillsEmbedding || null,
-      userId: insertResume.userId || null,
-    };
-    this.resumesData.set(id, resume);
-    return resume;
-  }
+  /**
+   * Updates a webhook subscription.
+   *
+   * @param id - The subscription ID
+   * @param updates - Fields to change
+   * @returns Promise resolving to the updated subscription or undefined if not found
+   * @throws {Error} If the write fails
+   */
+  updateWebhookSubscription(_id: number, _updates: Partial<InsertWebhookSubscription>): Promise<WebhookSubscription | undefined>;
+
+  /**
+   * Deletes a webhook subscription together with its delivery log.
+   *
+   * @param id - The subscription ID
+   * @throws {Error} If the delete fails
+   */
+  deleteWebhookSubscription(_id: number): Promise<void>;
+
+  /**
+   * Records a webhook delivery before its first attempt.
+   *
+   * @param delivery - The delivery to store
+   * @returns Promise resolving to the stored delivery with assigned ID
+   * @throws {Error} If the write fails
+   */
+  createWebhookDelivery(_delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+
+  /**
+   * Retrieves a webhook delivery by ID.
+   *
+   * @param id - The delivery ID
+   * @returns Promise resolving to the delivery or undefined if not found
+   * @throws {Error} If database connection fails
+   */
+  getWebhookDelivery(_id: number): Promise<WebhookDelivery | undefined>;
+
+  /**
+   * Updates a webhook delivery after an attempt.
+   *
+   * @param id - The delivery ID
+   * @param updates - Attempt outcome fields
+   * @returns Promise resolving to the updated delivery or undefined if not found
+   * @throws {Error} If the write fails
+   */
+  updateWebhookDelivery(_id: number, _updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined>;
+
+  /**
+   * Retrieves the delivery log of a subscription.
+   *
+   * @param subscriptionId - The subscription ID
+   * @param limit - Maximum number of deliveries to return
+   * @returns Promise resolving to deliveries, most recent first
+   * @throws {Error} If database connection fails
+   */
+  getWebhookDeliveries(_subscriptionId: number, _limit?: number): Promise<WebhookDelivery[]>;
+
+  // ==================== ANALYSIS RUN METHODS ====================
+
+  /**
+   * Creates an asynchronous analysis run.
+   *
+   * @param run - The run to store
+   * @returns Promise resolving to the stored run with assigned ID
+   * @throws {Error} If the write fails
+   */
+  createAnalysisRun(_run: InsertAnalysisRun): Promise<AnalysisRun>;
+
+  /**
+   * Retrieves an analysis run by ID. Callers must check ownership.
+   *
+   * @param id - The run ID
+   * @returns Promise resolving to the run or undefined if not found
+   * @throws {Error} If database connection fails
+   */
+  getAnalysisRun(_id: number): Promise<AnalysisRun | undefined>;
+
+  /**
+   * Updates the status and counters of an analysis run.
+   *
+   * @param id - The run ID
+   * @param updates - Fields to update
+   * @returns Promise resolving to the updated run or undefined if not found
+   * @throws {Error} If the write fails
+   */
+  updateAnalysisRun(_id: number, _updates: Partial<InsertAnalysisRun>): Promise<AnalysisRun | undefined>;
+
+  /**
+   * Adds a resume to an analysis run.
+   *
+   * @param item - The run item to store
+   * @returns Promise resolving to the stored item with assigned ID
+   * @throws {Error} If the write fails
+   */
+  createAnalysisRunItem(_item: InsertAnalysisRunItem): Promise<AnalysisRunItem>;
+
+  /**
+   * Retrieves the per-resume items of an analysis run.
+   *
+   * @param runId - The run ID
+   * @returns Promise resolving to the items in insertion order
+   * @throws {Error} If database connection fails
+   */
+  getAnalysisRunItems(_runId: number): Promise<AnalysisRunItem[]>;
+
+  /**
+   * Records progress or the outcome of one resume in a run.
+   *
+   * @param id - The run item ID
+   * @param updates - Fields to update
+   * @returns Promise resolving to the updated item or undefined if not found
+   * @throws {Error} If the write fails
+   */
+  updateAnalysisRunItem(_id: number, _updates: Partial<InsertAnalysisRunItem>): Promise<AnalysisRunItem | undefined>;
+
+  // ==================== AUDIT RECORD METHODS ====================
+
+  /**
+   * Appends an audit record to the hash chain. Appends are serialized so each
+   * record links to the one stored immediately before it.
+   *
+   * @param content - The audit record; chain fields and timestamp are filled in
+   * @returns Promise resolving to the stored, sealed record
+   * @throws {Error} If the write fails
+   */
+  appendAuditRecord(_content: AuditRecordContent): Promise<AuditRecord>;
+
+  /**
+   * Searches audit records, newest first.
+   *
+   * @param filters - Subject, provider/model and date range filters plus paging
+   * @returns Promise resolving to one page of records and the total match count
+   * @throws {Error} If database connection fails
+   */
+  searchAuditRecords(_filters: AuditRecordFilters): Promise<AuditRecordPage>;
+
+  /**
+   * Retrieves audit records in chain order, for verification.
+   *
+   * @param afterId - Return records with an ID greater than this (0 for the start)
+   * @param limit - Maximum number of records to return
+   * @returns Promise resolving to the records in ascending ID order
+   * @throws {Error} If database connection fails
+   */
+  getAuditRecordsAfter(_afterId: number, _limit: number): Promise<AuditRecord[]>;
+
+  // ==================== RE-SCORING METHODS ====================
+
+  /**
+   * Creates a re-scoring run.
+   *
+   * @param run - The run to store
+   * @returns Promise resolving to the stored run with assigned ID
+   * @throws {Error} If the write fails
+   */
+  createRescoreRun(_run: InsertRescoreRun): Promise<RescoreRun>;
+
+  /**
+   * Retrieves a re-scoring run by ID.
+   *
+   * @param id - The run ID
+   * @returns Promise resolving to the run or undefined if not found
+   * @throws {Error} If database connection fails
+   */
+  getRescoreRun(_id: number): Promise<RescoreRun | undefined>;
+
+  /**
+   * Updates the status, counters or report of a re-scoring run.
+   *
+   * @param id - The run ID
+   * @param updates - Fields to update
+   * @returns Promise resolving to the updated run or undefined if not found
+   * @throws {Error} If the write fails
+   */
+  updateRescoreRun(_id: number, _updates: Partial<InsertRescoreRun>): Promise<RescoreRun | undefined>;
+
+  /**
+   * Stores the replayed scores of one job in a run.
+   *
+   * @param results - The rescored rows to store
+   * @returns Promise resolving to the stored rows with assigned IDs
+   * @throws {Error} If the write fails
+   */
+  createRescoredAnalysisResults(_results: InsertRescoredAnalysisResult[]): Promise<RescoredAnalysisResult[]>;
+
+  /**
+   * Retrieves the rows written by a re-scoring run.
+   *
+   * @param runId - The run ID
+   * @returns Promise resolving to the rows in insertion order
+   * @throws {Error} If database connection fails
+   */
+  getRescoredAnalysisResults(_runId: number): Promise<RescoredAnalysisResult[]>;
+
+  // ==================== LLM USAGE METHODS ====================
+
+  /**
+   * Records the tokens and cost of one provider completion.
+   *
+   * @param record - The priced usage record
+   * @returns Promise resolving to the stored record with assigned ID
+   * @throws {Error} If the write fails
+   */
+  recordLlmUsage(_record: InsertLlmUsageRecord): Promise<LlmUsageRecord>;
+
+  /**
+   * Retrieves a user's usage records created at or after a point in time.
+   *
+   * @param userId - The ID of the user
+   * @param since - Start of the period
+   * @returns Promise resolving to the records, oldest first
+   * @throws {Error} If database connection fails
+   */
+  getLlmUsageRecords(_userId: string, _since: Date): Promise<LlmUsageRecord[]>;
+
+  /**
+   * Retrieves a user's monthly LLM budget.
+   *
+   * @param userId - The ID of the user
+   * @returns Promise resolving to the budget or undefined if none is set
+   * @throws {Error} If database connection fails
+   */
+  getLlmBudget(_userId: string): Promise<LlmBudget | undefined>;
+
+  /**
+   * Creates or replaces a user's monthly LLM budget.
+   *
+   * @param userId - The ID of the user
+   * @param monthlyLimitUsd - Monthly spend limit in USD
+   * @returns Promise resolving to the stored budget
+   * @throws {Error} If the write fails
+   */
+  setLlmBudget(_userId: string, _monthlyLimitUsd: number): Promise<LlmBudget>;
+
+  /**
+   * Retrieves usage records attributed to an organization created at or
+   * after a point in time, across all of its members.
+   *
+   * @param organizationId - The ID of the organization
+   * @param since - Start of the period
+   * @returns Promise resolving to the records, oldest first
+   * @throws {Error} If database connection fails
+   */
+  getOrganizationLlmUsageRecords(_organizationId: number, _since: Date): Promise<LlmUsageRecord[]>;
+
+  /**
+   * Retrieves an organization's monthly LLM budget.
+   *
+   * @param organizationId - The ID of the organization
+   * @returns Promise resolving to the budget or undefined if none is set
+   * @throws {Error} If database connection fails
+   */
+  getOrganizationLlmBudget(_organizationId: number): Promise<LlmOrganizationBudget | undefined>;
+
+  /**
+   * Creates or replaces an organization's monthly LLM budget.
+   *
+   * @param organizationId - The ID of the organization
+   * @param monthlyLimitUsd - Monthly spend limit in USD
+   * @returns Promise resolving to the stored budget
+   * @throws {Error} If the write fails
+   */
+  setOrganizationLlmBudget(_organizationId: number, _monthlyLimitUsd: number): Promise<LlmOrganizationBudget>;
+
+  // ==================== ORGANIZATION METHODS ====================
+
+  /**
+   * Creates an organization and makes its creator the first owner.
+   *
+   * @param organization - The organization data; createdBy becomes the owner
+   * @returns Promise resolving to the created organization with assigned ID
+   * @throws {Error} If creation fails
+   */
+  createOrganization(_organization: InsertOrganization): Promise<Organization>;
+
+  /**
+   * Retrieves an organization by its ID.
+   *
+   * @param id - The unique identifier of the organization
+   * @returns Promise resolving to the organization or undefined if not found
+   * @throws {Error} If database connection fails
+   */
+  getOrganization(_id: number): Promise<Organization | undefined>;
+
+  /**
+   * Retrieves the organizations a user belongs to, with their role in each.
+   *
+   * @param userId - The ID of the user
+   * @returns Promise resolving to the organizations, oldest first
+   * @throws {Error} If database connection fails
+   */
+  getOrganizationsForUser(_userId: string): Promise<OrganizationWithRole[]>;
+
+  /**
+   * Retrieves a user's membership in an organization.
+   *
+   * @param organizationId - The ID of the organization
+   * @param userId - The ID of the user
+   * @returns Promise resolving to the membership or undefined if the user is not a member
+   * @throws {Error} If database connection fails
+   */
+  getOrganizationMembership(_organizationId: number, _userId: string): Promise<OrganizationMember | undefined>;
+
+  /**
+   * Retrieves all members of an organization.
+   *
+   * @param organizationId - The ID of the organization
+   * @returns Promise resolving to the members, oldest first
+   * @throws {Error} If database connection fails
+   */
+  getOrganizationMembers(_organizationId: number): Promise<OrganizationMember[]>;
+
+  /**
+   * Adds a user to an organization.
+   *
+   * @param member - The membership to create
+   * @returns Promise resolving to the created membership
+   * @throws {Error} If the user is already a member or the write fails
+   */
+  addOrganizationMember(_member: InsertOrganizationMember): Promise<OrganizationMember>;
+
+  /**
+   * Changes a member's role.
+   *
+   * @param organizationId - The ID of the organization
+   * @param userId - The ID of the member
+   * @param role - The new role
+   * @returns Promise resolving to the updated membership or undefined if not a member
+   * @throws {Error} If the update fails
+   */
+  updateOrganizationMemberRole(_organizationId: number, _userId: string, _role: OrganizationRole): Promise<OrganizationMember | undefined>;
+
+  /**
+   * Removes a user from an organization.
+   *
+   * @param organizationId - The ID of the organization
+   * @param userId - The ID of the member
+   * @returns Promise resolving to true if a membership was removed
+   * @throws {Error} If the delete fails
+   */
+  removeOrganizationMember(_organizationId: number, _userId: string): Promise<boolean>;
+
+  /**
+   * Creates an invitation to join an organization.
+   *
+   * @param invitation - The invitation data, with the hash of its token
+   * @returns Promise resolving to the created invitation
+   * @throws {Error} If creation fails
+   */
+  createOrganizationInvitation(_invitation: InsertOrganizationInvitation): Promise<OrganizationInvitation>;
+
+  /**
+   * Retrieves an invitation by the hash of its token.
+   *
+   * @param tokenHash - SHA-256 hex digest of the invitation token
+   * @returns Promise resolving to the invitation or undefined if not found
+   * @throws {Error} If database connection fails
+   */
+  getOrganizationInvitationByTokenHash(_tokenHash: string): Promise<OrganizationInvitation | undefined>;
+
+  /**
+   * Retrieves all invitations of an organization.
+   *
+   * @param organizationId - The ID of the organization
+   * @returns Promise resolving to the invitations, newest first
+   * @throws {Error} If database connection fails
+   */
+  getOrganizationInvitations(_organizationId: number): Promise<OrganizationInvitation[]>;
+
+  /**
+   * Updates an invitation's status fields.
+   *
+   * @param id - The unique identifier of the invitation
+   * @param updates - Fields to update
+   * @returns Promise resolving to the updated invitation or undefined if not found
+   * @throws {Error} If the update fails
+   */
+  updateOrganizationInvitation(_id: number, _updates: Partial<InsertOrganizationInvitation>): Promise<OrganizationInvitation | undefined>;
+
+  /**
+   * Shares a resume with an organization, or makes it private again.
+   *
+   * @param resumeId - The unique identifier of the resume
+   * @param organizationId - The organization to share with, or null to unshare
+   * @returns Promise resolving to the updated resume or undefined if not found
+   * @throws {Error} If the update fails
+   */
+  setResumeOrganization(_resumeId: number, _organizationId: number | null): Promise<Resume | undefined>;
+
+  /**
+   * Shares a job description with an organization, or makes it private again.
+   *
+   * @param jobId - The unique identifier of the job description
+   * @param organizationId - The organization to share with, or null to unshare
+   * @returns Promise resolving to the updated job description or undefined if not found
+   * @throws {Error} If the update fails
+   */
+  setJobDescriptionOrganization(_jobId: number, _organizationId: number | null): Promise<JobDescription | undefined>;
+
+  // ==================== USER TIER METHODS (OPTIONAL) ====================
+  
+  /**
+   * Retrieves user tier information for usage limits and feature access.
+   * This method is optional and may not be implemented by all storage backends.
+   * 
+   * @param userId - The ID of the user
+   * @returns Promise resolving to the user tier info or undefined if not found/implemented
+   * @throws {Error} If database connection fails (when implemented)
+   */
+  getUserTierInfo?(_userId: string): Promise<UserTierInfo | undefined>;
+  
+  /**
+   * Saves user tier information for usage tracking and feature access.
+   * This method is optional and may not be implemented by all storage backends.
+   * 
+   * @param userId - The ID of the user
+   * @param tierInfo - The tier information to save
+   * @returns Promise that resolves when save is complete
+   * @throws {Error} If database connection fails (when implemented)
+   */
+  saveUserTierInfo?(_userId: string, _tierInfo: UserTierInfo): Promise<void>;
+}
+
+export class MemStorage implements IStorage {
+  private users: Map<number, User>;
+  private resumesData: Map<number, Resume>;
+  private jobDescriptionsData: Map<number, JobDescription>;
+  private jobDescriptionVersionsData: Map<number, JobDescriptionVersion>;
+  private analysisResultsData: Map<number, AnalysisResult>;
+  private interviewQuestionsData: Map<number, InterviewQuestions>;
+  private userTiersData: Map<string, UserTierInfo>;
+  private pipelineStagesData: Map<number, PipelineStage>;
+  private candidatePipelineData: Map<number, CandidatePipelineEntry>;
+  private pipelineTransitionsData: Map<number, PipelineTransition>;
+  private webhookSubscriptionsData: Map<number, WebhookSubscription>;
+  private webhookDeliveriesData: Map<number, WebhookDelivery>;
+  private analysisRunsData: Map<number, AnalysisRun>;
+  private analysisRunItemsData: Map<number, AnalysisRunItem>;
+  private auditRecordsData: AuditRecord[];
+  private rescoreRunsData: Map<number, RescoreRun>;
+  private rescoredAnalysisResultsData: Map<number, RescoredAnalysisResult>;
+  private llmUsageRecordsData: LlmUsageRecord[];
+  private llmBudgetsData: Map<string, LlmBudget>;
+  private llmOrganizationBudgetsData: Map<number, LlmOrganizationBudget>;
+  private organizationsData: Map<number, Organization>;
+  private organizationMembersData: Map<number, OrganizationMember>;
+  private organizationInvitationsData: Map<number, OrganizationInvitation>;
+  private interviewScorecardsData: Map<number, InterviewScorecard>;
+  private candidateGroupsData: Map<number, CandidateGroup>;
+  private productFeedbackData: Map<number, ProductFeedback>;
+  private analysisRatingsData: Map<number, AnalysisRating>;
+  private skillCorrectionsData: Map<number, SkillCorrection>;
+  private skillTaxonomyData: Map<number, SkillTaxonomyEntry>;
+  
+  // Counters for IDs
+  private userCurrentId: number;
+  private resumeCurrentId: number;
+  private jobDescriptionCurrentId: number;
+  private jobDescriptionVersionCurrentId: number;
+  private analysisResultCurrentId: number;
+  private interviewQuestionsCurrentId: number;
+  private pipelineStageCurrentId: number;
+  private candidatePipelineCurrentId: number;
+  private pipelineTransitionCurrentId: number;
+  private webhookSubscriptionCurrentId: number;
+  private webhookDeliveryCurrentId: number;
+  private analysisRunCurrentId: number;
+  private analysisRunItemCurrentId: number;
+  private auditRecordCurrentId: number;
+  private rescoreRunCurrentId: number;
+  private rescoredAnalysisResultCurrentId: number;
+  private llmUsageRecordCurrentId: number;
+  private llmBudgetCurrentId: number;
+  private llmOrganizationBudgetCurrentId: number;
+  private organizationCurrentId: number;
+  private organizationMemberCurrentId: number;
+  private organizationInvitationCurrentId: number;
+  private interviewScorecardCurrentId: number;
+  private candidateGroupCurrentId: number;
+  private productFeedbackCurrentId: number;
+  private analysisRatingCurrentId: number;
+  private skillCorrectionCurrentId: number;
+  private skillTaxonomyCurrentId: number;
+
+  constructor() {
+    this.users = new Map();
+    this.resumesData = new Map();
+    this.jobDescriptionsData = new Map();
+    this.jobDescriptionVersionsData = new Map();
+    this.analysisResultsData = new Map();
+    this.interviewQuestionsData = new Map();
+    this.userTiersData = new Map();
+    this.pipelineStagesData = new Map();
+    this.candidatePipelineData = new Map();
+    this.pipelineTransitionsData = new Map();
+    this.webhookSubscriptionsData = new Map();
+    this.webhookDeliveriesData = new Map();
+    this.analysisRunsData = new Map();
+    this.analysisRunItemsData = new Map();
+    this.auditRecordsData = [];
+    this.rescoreRunsData = new Map();
+    this.rescoredAnalysisResultsData = new Map();
+    this.llmUsageRecordsData = [];
+    this.llmBudgetsData = new Map();
+    this.llmOrganizationBudgetsData = new Map();
+    this.organizationsData = new Map();
+    this.organizationMembersData = new Map();
+    this.organizationInvitationsData = new Map();
+    this.interviewScorecardsData = new Map();
+    this.candidateGroupsData = new Map();
+    this.productFeedbackData = new Map();
+    this.analysisRatingsData = new Map();
+    this.skillCorrectionsData = new Map();
+    this.skillTaxonomyData = new Map();
+    
+    this.userCurrentId = 1;
+    this.resumeCurrentId = 1;
+    this.jobDescriptionCurrentId = 1;
+    this.jobDescriptionVersionCurrentId = 1;
+    this.analysisResultCurrentId = 1;
+    this.interviewQuestionsCurrentId = 1;
+    this.pipelineStageCurrentId = 1;
+    this.candidatePipelineCurrentId = 1;
+    this.pipelineTransitionCurrentId = 1;
+    this.webhookSubscriptionCurrentId = 1;
+    this.webhookDeliveryCurrentId = 1;
+    this.analysisRunCurrentId = 1;
+    this.analysisRunItemCurrentId = 1;
+    this.auditRecordCurrentId = 1;
+    this.rescoreRunCurrentId = 1;
+    this.rescoredAnalysisResultCurrentId = 1;
+    this.llmUsageRecordCurrentId = 1;
+    this.llmBudgetCurrentId = 1;
+    this.llmOrganizationBudgetCurrentId = 1;
+    this.organizationCurrentId = 1;
+    this.organizationMemberCurrentId = 1;
+    this.organizationInvitationCurrentId = 1;
+    this.interviewScorecardCurrentId = 1;
+    this.candidateGroupCurrentId = 1;
+    this.productFeedbackCurrentId = 1;
+    this.analysisRatingCurrentId = 1;
+    this.skillCorrectionCurrentId = 1;
+    this.skillTaxonomyCurrentId = 1;
+  }
+
+  private isOrganizationMember(organizationId: number | null, userId: string): boolean {
+    if (organizationId === null) {
+      return false;
+    }
+    return Array.from(this.organizationMembersData.values()).some(
+      (member) => member.organizationId === organizationId && member.userId === userId,
+    );
+  }
+
+  // User methods (from the original implementation)
+  async getUser(_id: number): Promise<User | undefined> {
+    return this.users.get(_id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.username === username,
+    );
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = this.userCurrentId++;
+    const user: User = { 
+      ...insertUser, 
+      id,
+      email: insertUser.email ?? null,
+      createdAt: insertUser.createdAt ?? null,
+      updatedAt: insertUser.updatedAt ?? null
+    };
+    this.users.set(id, user);
+    return user;
+  }
+
+  // Resume methods
+  async getResume(id: number): Promise<Resume | undefined> {
+    return this.resumesData.get(id);
+  }
+
+  async getResumeById(id: number, userId: string): Promise<Resume | undefined> {
+    const resume = this.resumesData.get(id);
+    if (resume && (resume.userId === userId || this.isOrganizationMember(resume.organizationId, userId))) {
+      return resume;
+    }
+    return undefined;
+  }
+
+  async getResumes(sessionId?: string): Promise<Resume[]> {
+    const allResumes = Array.from(this.resumesData.values());
+    
+    // If no sessionId provided, return all resumes
+    if (!sessionId) {
+      return allResumes;
+    }
+    
+    // Filter resumes by sessionId
+    return allResumes.filter(resume => resume.sessionId === sessionId);
+  }
+
+  async getResumesByUserId(userId: string, sessionId?: string, batchId?: string, organizationId?: number): Promise<Resume[]> {
+    const allResumes = Array.from(this.resumesData.values());
+    
+    // Filter by userId first, or by organization for its members
+    let userResumes = organizationId === undefined
+      ? allResumes.filter(resume => resume.userId === userId)
+      : this.isOrganizationMember(organizationId, userId)
+        ? allResumes.filter(resume => resume.organizationId === organizationId)
+        : [];
+    
+    // Apply both sessionId and batchId filters when provided
+    if (batchId) {
+      userResumes = userResumes.filter(resume => resume.batchId === batchId);
+    }
+    
+    if (sessionId) {
+      userResumes = userResumes.filter(resume => resume.sessionId === sessionId);
+    }
+    
+    return userResumes;
+  }
+
+  async createResume(insertResume: InsertResume): Promise<Resume> {
+    const id = this.resumeCurrentId++;
+    const now = new Date();
+    // Make sure sessionId is set to a default value if not provided
+    const sessionId = insertResume.sessionId || "default";
+    // Make sure batchId is set to a default value if not provided
+    const batchId = insertResume.batchId || "default";
+    
+    const resume: Resume = {
+      ...insertResume,
+      id,
+      createdAt: now,
+      updatedAt: insertResume.updatedAt || null,
+      analyzedData: null,
+      sessionId, // Ensure sessionId is assigned
+      batchId, // Ensure batchId is assigned
+      content: insertResume.content || null,
+      fileSize: insertResume.fileSize || null,
+      fileType: insertResume.fileType || null,
+      skills: insertResume.skills || null,
+      experience: insertResume.experience || null,
+      education: insertResume.education ?? null,
+      embedding: insertResume.embedding || null,
+      skillsEmbedding: insertResume.skillsEmbedding || null,
+      userId: insertResume.userId || null,
+      organizationId: insertResume.organizationId ?? null,
+      contentHash: insertResume.contentHash ?? null,
+      contactEmail: insertResume.contactEmail ?? null,
+      contactPhone: insertResume.contactPhone ?? null,
+      candidateGroupId: insertResume.candidateGroupId ?? null,
+      duplicateStatus: insertResume.duplicateStatus ?? null,
+      duplicateSignals: insertResume.duplicateSignals ?? null,
+    };
+    this.resumesData.set(id, resume);
+    return resume;
+  }
 
   async updateResumeAnalysis(id: number, analysis: AnalyzeResumeResponse): Promise<Resume> {
     const resume = await this.getResume(id);
@@ -551,6 +1428,16 @@ export class MemStorage implements IStorage {
     return updatedResume;
   }
 
+  async searchSimilarResumes(jobId: number, k: number): Promise<ResumeSimilarityMatch[]> {
+    const job = this.jobDescriptionsData.get(jobId);
+    if (!job?.userId) {
+      return [];
+    }
+
+    const ownerResumes = Array.from(this.resumesData.values()).filter(resume => resume.userId === job.userId);
+    return rankResumesBySimilarity(job.embedding, ownerResumes, k);
+  }
+
   // Job description methods
   async getJobDescription(id: number): Promise<JobDescription | undefined> {
     return this.jobDescriptionsData.get(id);
@@ -558,7 +1445,7 @@ export class MemStorage implements IStorage {
 
   async getJobDescriptionById(id: number, userId: string): Promise<JobDescription | undefined> {
     const jobDesc = this.jobDescriptionsData.get(id);
-    if (jobDesc && jobDesc.userId === userId) {
+    if (jobDesc && (jobDesc.userId === userId || this.isOrganizationMember(jobDesc.organizationId, userId))) {
       return jobDesc;
     }
     return undefined;
@@ -568,8 +1455,13 @@ export class MemStorage implements IStorage {
     return Array.from(this.jobDescriptionsData.values());
   }
 
-  async getJobDescriptionsByUserId(userId: string): Promise<JobDescription[]> {
+  async getJobDescriptionsByUserId(userId: string, organizationId?: number): Promise<JobDescription[]> {
     const allJobDescriptions = Array.from(this.jobDescriptionsData.values());
+    if (organizationId !== undefined) {
+      return this.isOrganizationMember(organizationId, userId)
+        ? allJobDescriptions.filter(jd => jd.organizationId === organizationId)
+        : [];
+    }
     return allJobDescriptions.filter(jd => jd.userId === userId);
   }
 
@@ -583,11 +1475,15 @@ export class MemStorage implements IStorage {
       updatedAt: insertJobDescription.updatedAt || null,
       analyzedData: null,
       userId: insertJobDescription.userId || null,
+      organizationId: insertJobDescription.organizationId ?? null,
       skills: insertJobDescription.skills || null,
       experience: insertJobDescription.experience || null,
       embedding: insertJobDescription.embedding || null,
       requirements: insertJobDescription.requirements || null,
       requirementsEmbedding: insertJobDescription.requirementsEmbedding || null,
+      blindReview: insertJobDescription.blindReview ?? false,
+      scoringConfig: insertJobDescription.scoringConfig ?? null,
+      version: insertJobDescription.version ?? 1,
     };
     this.jobDescriptionsData.set(id, jobDescription);
     return jobDescription;
@@ -602,6 +1498,7 @@ export class MemStorage implements IStorage {
     const updatedJobDescription: JobDescription = {
       ...jobDescription,
       ...updates,
+      updatedAt: new Date(),
     };
     
     this.jobDescriptionsData.set(id, updatedJobDescription);
@@ -675,13 +1572,49 @@ export class MemStorage implements IStorage {
       requirementsEmbedding,
       updatedAt: new Date(),
     };
-    
-    this.jobDescriptionsData.set(id, updatedJobDescription);
-    return updatedJobDescription;
+    
+    this.jobDescriptionsData.set(id, updatedJobDescription);
+    return updatedJobDescription;
+  }
+
+  async deleteJobDescription(id: number): Promise<void> {
+    this.jobDescriptionsData.delete(id);
+    for (const [versionId, version] of Array.from(this.jobDescriptionVersionsData.entries())) {
+      if (version.jobDescriptionId === id) {
+        this.jobDescriptionVersionsData.delete(versionId);
+      }
+    }
+  }
+
+  // Job description version methods
+  async createJobDescriptionVersion(insertVersion: InsertJobDescriptionVersion): Promise<JobDescriptionVersion> {
+    const exists = Array.from(this.jobDescriptionVersionsData.values()).some(
+      version => version.jobDescriptionId === insertVersion.jobDescriptionId && version.version === insertVersion.version
+    );
+    if (exists) {
+      throw new Error(`Version ${insertVersion.version} of job description ${insertVersion.jobDescriptionId} already exists`);
+    }
+
+    const id = this.jobDescriptionVersionCurrentId++;
+    const version: JobDescriptionVersion = {
+      id,
+      jobDescriptionId: insertVersion.jobDescriptionId,
+      version: insertVersion.version,
+      title: insertVersion.title,
+      description: insertVersion.description,
+      requirements: insertVersion.requirements ?? null,
+      diff: insertVersion.diff ?? null,
+      changedBy: insertVersion.changedBy ?? null,
+      createdAt: insertVersion.createdAt ?? new Date(),
+    };
+    this.jobDescriptionVersionsData.set(id, version);
+    return version;
   }
 
-  async deleteJobDescription(id: number): Promise<void> {
-    this.jobDescriptionsData.delete(id);
+  async getJobDescriptionVersions(jobDescriptionId: number): Promise<JobDescriptionVersion[]> {
+    return Array.from(this.jobDescriptionVersionsData.values())
+      .filter(version => version.jobDescriptionId === jobDescriptionId)
+      .sort((a, b) => b.version - a.version);
   }
 
   // Analysis results methods
@@ -770,11 +1703,28 @@ export class MemStorage implements IStorage {
       aiProvider: insertAnalysisResult.aiProvider ?? null,
       modelVersion: insertAnalysisResult.modelVersion ?? null,
       processingFlags: insertAnalysisResult.processingFlags ?? null,
+      jobVersion: insertAnalysisResult.jobVersion ??
+        (insertAnalysisResult.jobDescriptionId
+          ? this.jobDescriptionsData.get(insertAnalysisResult.jobDescriptionId)?.version ?? null
+          : null),
+      staleAt: insertAnalysisResult.staleAt ?? null,
     };
     this.analysisResultsData.set(id, analysisResult);
     return analysisResult;
   }
 
+  async markAnalysisResultsStale(jobDescriptionId: number, currentVersion: number): Promise<number> {
+    const now = new Date();
+    let marked = 0;
+    for (const [id, result] of Array.from(this.analysisResultsData.entries())) {
+      if (result.jobDescriptionId === jobDescriptionId && result.staleAt === null && (result.jobVersion ?? 1) < currentVersion) {
+        this.analysisResultsData.set(id, { ...result, staleAt: now, updatedAt: now });
+        marked++;
+      }
+    }
+    return marked;
+  }
+
   // Interview questions methods
   async getInterviewQuestions(id: number): Promise<InterviewQuestions | undefined> {
     return this.interviewQuestionsData.get(id);
@@ -793,9 +1743,10 @@ export class MemStorage implements IStorage {
   }
 
   async getInterviewQuestionByResumeAndJob(resumeId: number, jobDescriptionId: number): Promise<InterviewQuestions | undefined> {
-    return Array.from(this.interviewQuestionsData.values()).find(
-      (questions) => questions.resumeId === resumeId && questions.jobDescriptionId === jobDescriptionId,
-    );
+    // Latest set first, matching DatabaseStorage
+    return Array.from(this.interviewQuestionsData.values())
+      .filter((questions) => questions.resumeId === resumeId && questions.jobDescriptionId === jobDescriptionId)
+      .sort((a, b) => b.id - a.id)[0];
   }
 
   async createInterviewQuestions(insertInterviewQuestions: InsertInterviewQuestions): Promise<InterviewQuestions> {
@@ -816,6 +1767,264 @@ export class MemStorage implements IStorage {
     return interviewQuestions;
   }
 
+  // Interview scorecard methods
+  async getInterviewScorecards(interviewQuestionsId: number): Promise<InterviewScorecard[]> {
+    return Array.from(this.interviewScorecardsData.values())
+      .filter((scorecard) => scorecard.interviewQuestionsId === interviewQuestionsId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async upsertInterviewScorecard(insertScorecard: InsertInterviewScorecard): Promise<InterviewScorecard> {
+    const now = new Date();
+    const existing = Array.from(this.interviewScorecardsData.values()).find(
+      (scorecard) =>
+        scorecard.interviewQuestionsId === insertScorecard.interviewQuestionsId &&
+        scorecard.interviewerId === insertScorecard.interviewerId,
+    );
+
+    const scorecard: InterviewScorecard = {
+      id: existing?.id ?? this.interviewScorecardCurrentId++,
+      interviewQuestionsId: insertScorecard.interviewQuestionsId,
+      resumeId: insertScorecard.resumeId,
+      jobDescriptionId: insertScorecard.jobDescriptionId,
+      interviewerId: insertScorecard.interviewerId,
+      interviewerName: insertScorecard.interviewerName ?? null,
+      ratings: insertScorecard.ratings,
+      recommendation: insertScorecard.recommendation ?? null,
+      notes: insertScorecard.notes ?? null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.interviewScorecardsData.set(scorecard.id, scorecard);
+    return scorecard;
+  }
+
+  // Feedback methods
+  async createProductFeedback(insertFeedback: InsertProductFeedback): Promise<ProductFeedback> {
+    const feedback: ProductFeedback = {
+      id: this.productFeedbackCurrentId++,
+      userId: insertFeedback.userId ?? null,
+      name: insertFeedback.name ?? null,
+      email: insertFeedback.email ?? null,
+      type: insertFeedback.type,
+      rating: insertFeedback.rating ?? null,
+      comment: insertFeedback.comment,
+      createdAt: new Date(),
+    };
+    this.productFeedbackData.set(feedback.id, feedback);
+    return feedback;
+  }
+
+  async searchProductFeedback(filters: ProductFeedbackFilters): Promise<ProductFeedbackPage> {
+    const { limit = 50, offset = 0 } = filters;
+    const matches = Array.from(this.productFeedbackData.values())
+      .filter((feedback) =>
+        (filters.type === undefined || feedback.type === filters.type) &&
+        (filters.rating === undefined || feedback.rating === filters.rating) &&
+        (filters.userId === undefined || feedback.userId === filters.userId) &&
+        (filters.from === undefined || (feedback.createdAt !== null && feedback.createdAt >= filters.from)) &&
+        (filters.to === undefined || (feedback.createdAt !== null && feedback.createdAt <= filters.to)))
+      .reverse();
+
+    return { feedback: matches.slice(offset, offset + limit), total: matches.length };
+  }
+
+  async upsertAnalysisRating(insertRating: InsertAnalysisRating): Promise<AnalysisRating> {
+    const now = new Date();
+    const existing = await this.getAnalysisRating(insertRating.analysisResultId, insertRating.userId);
+
+    const rating: AnalysisRating = {
+      id: existing?.id ?? this.analysisRatingCurrentId++,
+      analysisResultId: insertRating.analysisResultId,
+      userId: insertRating.userId,
+      verdict: insertRating.verdict ?? null,
+      missedSkills: insertRating.missedSkills ?? [],
+      comment: insertRating.comment ?? null,
+      matchPercentage: insertRating.matchPercentage ?? null,
+      aiProvider: insertRating.aiProvider ?? null,
+      modelVersion: insertRating.modelVersion ?? null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.analysisRatingsData.set(rating.id, rating);
+    return rating;
+  }
+
+  async getAnalysisRating(analysisResultId: number, userId: string): Promise<AnalysisRating | undefined> {
+    return Array.from(this.analysisRatingsData.values()).find(
+      (rating) => rating.analysisResultId === analysisResultId && rating.userId === userId,
+    );
+  }
+
+  async listAnalysisRatings(filters: AnalysisRatingFilters): Promise<AnalysisRating[]> {
+    const matches = Array.from(this.analysisRatingsData.values())
+      .filter((rating) =>
+        (filters.aiProvider === undefined || rating.aiProvider === filters.aiProvider) &&
+        (filters.modelVersion === undefined || rating.modelVersion === filters.modelVersion) &&
+        (filters.verdict === undefined || rating.verdict === filters.verdict) &&
+        (filters.from === undefined || (rating.updatedAt !== null && rating.updatedAt >= filters.from)) &&
+        (filters.to === undefined || (rating.updatedAt !== null && rating.updatedAt <= filters.to)))
+      .sort((a, b) => b.id - a.id);
+
+    return filters.limit === undefined ? matches : matches.slice(0, filters.limit);
+  }
+
+  // Skill correction methods
+  async upsertSkillCorrection(insertCorrection: InsertSkillCorrection): Promise<SkillCorrection> {
+    const now = new Date();
+    const existing = Array.from(this.skillCorrectionsData.values()).find(
+      (correction) =>
+        correction.userId === insertCorrection.userId &&
+        correction.normalizedSkill === insertCorrection.normalizedSkill,
+    );
+
+    const correction: SkillCorrection = {
+      id: existing?.id ?? this.skillCorrectionCurrentId++,
+      userId: insertCorrection.userId,
+      type: insertCorrection.type,
+      skill: insertCorrection.skill,
+      normalizedSkill: insertCorrection.normalizedSkill,
+      equivalentTo: insertCorrection.equivalentTo ?? null,
+      resumeId: insertCorrection.resumeId ?? null,
+      jobDescriptionId: insertCorrection.jobDescriptionId ?? null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.skillCorrectionsData.set(correction.id, correction);
+    return correction;
+  }
+
+  async getSkillCorrections(userId: string): Promise<SkillCorrection[]> {
+    return Array.from(this.skillCorrectionsData.values())
+      .filter((correction) => correction.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async deleteSkillCorrection(id: number, userId: string): Promise<boolean> {
+    const correction = this.skillCorrectionsData.get(id);
+    return correction?.userId === userId ? this.skillCorrectionsData.delete(id) : false;
+  }
+
+  // Skill taxonomy methods
+  async createSkillTaxonomyEntry(insertEntry: InsertSkillTaxonomyEntry): Promise<SkillTaxonomyEntry> {
+    const taken = Array.from(this.skillTaxonomyData.values()).some(
+      (entry) =>
+        entry.organizationId === insertEntry.organizationId &&
+        entry.normalizedName === insertEntry.normalizedName,
+    );
+    if (taken) {
+      throw new Error(`Skill taxonomy entry "${insertEntry.name}" already exists`);
+    }
+
+    const now = new Date();
+    const entry: SkillTaxonomyEntry = {
+      id: this.skillTaxonomyCurrentId++,
+      organizationId: insertEntry.organizationId,
+      name: insertEntry.name,
+      normalizedName: insertEntry.normalizedName,
+      category: insertEntry.category ?? 'general',
+      parentId: insertEntry.parentId ?? null,
+      aliases: insertEntry.aliases ?? [],
+      description: insertEntry.description ?? null,
+      embedding: insertEntry.embedding ?? null,
+      createdBy: insertEntry.createdBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.skillTaxonomyData.set(entry.id, entry);
+    return entry;
+  }
+
+  async updateSkillTaxonomyEntry(id: number, updates: Partial<InsertSkillTaxonomyEntry>): Promise<SkillTaxonomyEntry | undefined> {
+    const existing = this.skillTaxonomyData.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const updated: SkillTaxonomyEntry = { ...existing, ...updates, id, updatedAt: new Date() };
+    this.skillTaxonomyData.set(id, updated);
+    return updated;
+  }
+
+  async getSkillTaxonomyEntries(organizationId: number): Promise<SkillTaxonomyEntry[]> {
+    return Array.from(this.skillTaxonomyData.values())
+      .filter((entry) => entry.organizationId === organizationId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async deleteSkillTaxonomyEntry(id: number, organizationId: number): Promise<boolean> {
+    const entry = this.skillTaxonomyData.get(id);
+    if (entry?.organizationId !== organizationId) {
+      return false;
+    }
+
+    this.skillTaxonomyData.delete(id);
+    for (const child of this.skillTaxonomyData.values()) {
+      if (child.parentId === id) {
+        child.parentId = null;
+      }
+    }
+    return true;
+  }
+
+  // Candidate group methods
+  async createCandidateGroup(insertGroup: InsertCandidateGroup): Promise<CandidateGroup> {
+    const now = new Date();
+    const group: CandidateGroup = {
+      id: this.candidateGroupCurrentId++,
+      userId: insertGroup.userId ?? null,
+      organizationId: insertGroup.organizationId ?? null,
+      primaryResumeId: insertGroup.primaryResumeId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.candidateGroupsData.set(group.id, group);
+    return group;
+  }
+
+  async getCandidateGroup(id: number): Promise<CandidateGroup | undefined> {
+    return this.candidateGroupsData.get(id);
+  }
+
+  async setCandidateGroupPrimary(id: number, primaryResumeId: number): Promise<CandidateGroup | undefined> {
+    const group = this.candidateGroupsData.get(id);
+    if (!group) {
+      return undefined;
+    }
+
+    const updatedGroup: CandidateGroup = { ...group, primaryResumeId, updatedAt: new Date() };
+    this.candidateGroupsData.set(id, updatedGroup);
+    return updatedGroup;
+  }
+
+  async deleteCandidateGroup(id: number): Promise<void> {
+    for (const resume of await this.getResumesByCandidateGroup(id)) {
+      await this.updateResumeDuplicateState(resume.id, {
+        candidateGroupId: null,
+        duplicateStatus: null,
+        duplicateSignals: null,
+      });
+    }
+    this.candidateGroupsData.delete(id);
+  }
+
+  async getResumesByCandidateGroup(groupId: number): Promise<Resume[]> {
+    return Array.from(this.resumesData.values())
+      .filter((resume) => resume.candidateGroupId === groupId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async updateResumeDuplicateState(resumeId: number, state: ResumeDuplicateState): Promise<Resume | undefined> {
+    const resume = this.resumesData.get(resumeId);
+    if (!resume) {
+      return undefined;
+    }
+
+    const updatedResume: Resume = { ...resume, ...state, updatedAt: new Date() };
+    this.resumesData.set(resumeId, updatedResume);
+    return updatedResume;
+  }
+
   // Combination methods
   async getResumeWithLatestAnalysisAndQuestions(resumeId: number, jobDescriptionId: number): Promise<{
     resume: Resume;
@@ -841,6 +2050,565 @@ export class MemStorage implements IStorage {
     };
   }
 
+  // Hiring pipeline methods
+  async getPipelineStages(jobDescriptionId: number): Promise<PipelineStage[]> {
+    return Array.from(this.pipelineStagesData.values())
+      .filter((stage) => stage.jobDescriptionId === jobDescriptionId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async replacePipelineStages(jobDescriptionId: number, stages: InsertPipelineStage[]): Promise<PipelineStage[]> {
+    for (const [id, stage] of Array.from(this.pipelineStagesData.entries())) {
+      if (stage.jobDescriptionId === jobDescriptionId) {
+        this.pipelineStagesData.delete(id);
+      }
+    }
+
+    const now = new Date();
+    return stages.map((insertStage, index) => {
+      const stage: PipelineStage = {
+        id: this.pipelineStageCurrentId++,
+        jobDescriptionId,
+        key: insertStage.key,
+        name: insertStage.name,
+        position: insertStage.position ?? index,
+        isTerminal: insertStage.isTerminal ?? false,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.pipelineStagesData.set(stage.id, stage);
+      return stage;
+    });
+  }
+
+  async getCandidatePipelineEntries(jobDescriptionId: number): Promise<CandidatePipelineEntry[]> {
+    return Array.from(this.candidatePipelineData.values()).filter(
+      (entry) => entry.jobDescriptionId === jobDescriptionId,
+    );
+  }
+
+  async getCandidatePipelineEntry(jobDescriptionId: number, resumeId: number): Promise<CandidatePipelineEntry | undefined> {
+    return Array.from(this.candidatePipelineData.values()).find(
+      (entry) => entry.jobDescriptionId === jobDescriptionId && entry.resumeId === resumeId,
+    );
+  }
+
+  async upsertCandidatePipelineEntry(insertEntry: InsertCandidatePipelineEntry): Promise<CandidatePipelineEntry> {
+    const now = new Date();
+    const existing = await this.getCandidatePipelineEntry(insertEntry.jobDescriptionId, insertEntry.resumeId);
+
+    if (existing) {
+      const updatedEntry: CandidatePipelineEntry = {
+        ...existing,
+        stage: insertEntry.stage,
+        updatedAt: now,
+      };
+      this.candidatePipelineData.set(existing.id, updatedEntry);
+      return updatedEntry;
+    }
+
+    const entry: CandidatePipelineEntry = {
+      id: this.candidatePipelineCurrentId++,
+      userId: insertEntry.userId ?? null,
+      jobDescriptionId: insertEntry.jobDescriptionId,
+      resumeId: insertEntry.resumeId,
+      stage: insertEntry.stage,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.candidatePipelineData.set(entry.id, entry);
+    return entry;
+  }
+
+  async createPipelineTransition(insertTransition: InsertPipelineTransition): Promise<PipelineTransition> {
+    const transition: PipelineTransition = {
+      id: this.pipelineTransitionCurrentId++,
+      jobDescriptionId: insertTransition.jobDescriptionId,
+      resumeId: insertTransition.resumeId,
+      fromStage: insertTransition.fromStage ?? null,
+      toStage: insertTransition.toStage,
+      actorId: insertTransition.actorId,
+      note: insertTransition.note ?? null,
+      createdAt: insertTransition.createdAt ?? new Date(),
+    };
+    this.pipelineTransitionsData.set(transition.id, transition);
+    return transition;
+  }
+
+  async getPipelineTransitions(jobDescriptionId: number, resumeId?: number): Promise<PipelineTransition[]> {
+    return Array.from(this.pipelineTransitionsData.values())
+      .filter((transition) =>
+        transition.jobDescriptionId === jobDescriptionId &&
+        (resumeId === undefined || transition.resumeId === resumeId)
+      )
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0) || b.id - a.id);
+  }
+
+  // Webhook methods
+  async createWebhookSubscription(insertSubscription: InsertWebhookSubscription): Promise<WebhookSubscription> {
+    const now = new Date();
+    const subscription: WebhookSubscription = {
+      id: this.webhookSubscriptionCurrentId++,
+      userId: insertSubscription.userId,
+      url: insertSubscription.url,
+      events: insertSubscription.events,
+      secret: insertSubscription.secret,
+      description: insertSubscription.description ?? null,
+      isActive: insertSubscription.isActive ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.webhookSubscriptionsData.set(subscription.id, subscription);
+    return subscription;
+  }
+
+  async getWebhookSubscriptions(userId: string): Promise<WebhookSubscription[]> {
+    return Array.from(this.webhookSubscriptionsData.values())
+      .filter((subscription) => subscription.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getWebhookSubscription(id: number): Promise<WebhookSubscription | undefined> {
+    return this.webhookSubscriptionsData.get(id);
+  }
+
+  async updateWebhookSubscription(id: number, updates: Partial<InsertWebhookSubscription>): Promise<WebhookSubscription | undefined> {
+    const subscription = this.webhookSubscriptionsData.get(id);
+    if (!subscription) {
+      return undefined;
+    }
+
+    const updatedSubscription: WebhookSubscription = {
+      ...subscription,
+      ...updates,
+      id,
+      updatedAt: new Date(),
+    };
+    this.webhookSubscriptionsData.set(id, updatedSubscription);
+    return updatedSubscription;
+  }
+
+  async deleteWebhookSubscription(id: number): Promise<void> {
+    this.webhookSubscriptionsData.delete(id);
+    for (const [deliveryId, delivery] of Array.from(this.webhookDeliveriesData.entries())) {
+      if (delivery.subscriptionId === id) {
+        this.webhookDeliveriesData.delete(deliveryId);
+      }
+    }
+  }
+
+  async createWebhookDelivery(insertDelivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const delivery: WebhookDelivery = {
+      id: this.webhookDeliveryCurrentId++,
+      subscriptionId: insertDelivery.subscriptionId,
+      event: insertDelivery.event,
+      payload: insertDelivery.payload,
+      status: insertDelivery.status ?? 'pending',
+      attempts: insertDelivery.attempts ?? 0,
+      responseStatus: insertDelivery.responseStatus ?? null,
+      error: insertDelivery.error ?? null,
+      createdAt: insertDelivery.createdAt ?? new Date(),
+      lastAttemptAt: insertDelivery.lastAttemptAt ?? null,
+      deliveredAt: insertDelivery.deliveredAt ?? null,
+    };
+    this.webhookDeliveriesData.set(delivery.id, delivery);
+    return delivery;
+  }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    return this.webhookDeliveriesData.get(id);
+  }
+
+  async updateWebhookDelivery(id: number, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const delivery = this.webhookDeliveriesData.get(id);
+    if (!delivery) {
+      return undefined;
+    }
+
+    const updatedDelivery: WebhookDelivery = { ...delivery, ...updates, id };
+    this.webhookDeliveriesData.set(id, updatedDelivery);
+    return updatedDelivery;
+  }
+
+  async getWebhookDeliveries(subscriptionId: number, limit = 50): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveriesData.values())
+      .filter((delivery) => delivery.subscriptionId === subscriptionId)
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0) || b.id - a.id)
+      .slice(0, limit);
+  }
+
+  // Analysis run methods
+  async createAnalysisRun(insertRun: InsertAnalysisRun): Promise<AnalysisRun> {
+    const run: AnalysisRun = {
+      id: this.analysisRunCurrentId++,
+      userId: insertRun.userId,
+      jobDescriptionId: insertRun.jobDescriptionId,
+      sessionId: insertRun.sessionId ?? null,
+      batchId: insertRun.batchId ?? null,
+      status: insertRun.status ?? 'queued',
+      totalResumes: insertRun.totalResumes ?? 0,
+      completedResumes: insertRun.completedResumes ?? 0,
+      failedResumes: insertRun.failedResumes ?? 0,
+      error: insertRun.error ?? null,
+      createdAt: insertRun.createdAt ?? new Date(),
+      startedAt: insertRun.startedAt ?? null,
+      completedAt: insertRun.completedAt ?? null,
+    };
+    this.analysisRunsData.set(run.id, run);
+    return run;
+  }
+
+  async getAnalysisRun(id: number): Promise<AnalysisRun | undefined> {
+    return this.analysisRunsData.get(id);
+  }
+
+  async updateAnalysisRun(id: number, updates: Partial<InsertAnalysisRun>): Promise<AnalysisRun | undefined> {
+    const run = this.analysisRunsData.get(id);
+    if (!run) {
+      return undefined;
+    }
+
+    const updatedRun: AnalysisRun = { ...run, ...updates, id };
+    this.analysisRunsData.set(id, updatedRun);
+    return updatedRun;
+  }
+
+  async createAnalysisRunItem(insertItem: InsertAnalysisRunItem): Promise<AnalysisRunItem> {
+    const item: AnalysisRunItem = {
+      id: this.analysisRunItemCurrentId++,
+      runId: insertItem.runId,
+      resumeId: insertItem.resumeId,
+      status: insertItem.status ?? 'pending',
+      analysisResultId: insertItem.analysisResultId ?? null,
+      result: insertItem.result ?? null,
+      error: insertItem.error ?? null,
+      startedAt: insertItem.startedAt ?? null,
+      completedAt: insertItem.completedAt ?? null,
+    };
+    this.analysisRunItemsData.set(item.id, item);
+    return item;
+  }
+
+  async getAnalysisRunItems(runId: number): Promise<AnalysisRunItem[]> {
+    return Array.from(this.analysisRunItemsData.values())
+      .filter((item) => item.runId === runId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async updateAnalysisRunItem(id: number, updates: Partial<InsertAnalysisRunItem>): Promise<AnalysisRunItem | undefined> {
+    const item = this.analysisRunItemsData.get(id);
+    if (!item) {
+      return undefined;
+    }
+
+    const updatedItem: AnalysisRunItem = { ...item, ...updates, id };
+    this.analysisRunItemsData.set(id, updatedItem);
+    return updatedItem;
+  }
+
+  // Audit record methods - no await between reading the chain head and
+  // pushing, so appends cannot interleave
+  async appendAuditRecord(content: AuditRecordContent): Promise<AuditRecord> {
+    const previous = this.auditRecordsData[this.auditRecordsData.length - 1];
+    const record: AuditRecord = {
+      id: this.auditRecordCurrentId++,
+      ...sealAuditRecord(content, previous?.recordHash ?? AUDIT_GENESIS_HASH),
+    };
+    this.auditRecordsData.push(record);
+    return record;
+  }
+
+  async searchAuditRecords(filters: AuditRecordFilters): Promise<AuditRecordPage> {
+    const { limit = 50, offset = 0 } = filters;
+    const matches = this.auditRecordsData
+      .filter((record) =>
+        (filters.userId === undefined || record.userId === filters.userId) &&
+        (filters.jobId === undefined || record.jobId === filters.jobId) &&
+        (filters.resumeId === undefined || record.resumeId === filters.resumeId) &&
+        (filters.resumeHash === undefined || record.resumeHash === filters.resumeHash) &&
+        (filters.eventType === undefined || record.eventType === filters.eventType) &&
+        (filters.provider === undefined || record.provider === filters.provider) &&
+        (filters.model === undefined || record.model === filters.model) &&
+        (filters.from === undefined || record.createdAt >= filters.from) &&
+        (filters.to === undefined || record.createdAt <= filters.to))
+      .reverse();
+
+    return { records: matches.slice(offset, offset + limit), total: matches.length };
+  }
+
+  async getAuditRecordsAfter(afterId: number, limit: number): Promise<AuditRecord[]> {
+    return this.auditRecordsData.filter((record) => record.id > afterId).slice(0, limit);
+  }
+
+  // Re-scoring methods
+  async createRescoreRun(insertRun: InsertRescoreRun): Promise<RescoreRun> {
+    const run: RescoreRun = {
+      id: this.rescoreRunCurrentId++,
+      label: insertRun.label ?? null,
+      scoringVersion: insertRun.scoringVersion,
+      config: insertRun.config,
+      jobIds: insertRun.jobIds,
+      status: insertRun.status ?? 'queued',
+      totalAnalyses: insertRun.totalAnalyses ?? 0,
+      rescoredAnalyses: insertRun.rescoredAnalyses ?? 0,
+      report: insertRun.report ?? null,
+      error: insertRun.error ?? null,
+      createdAt: insertRun.createdAt ?? new Date(),
+      startedAt: insertRun.startedAt ?? null,
+      completedAt: insertRun.completedAt ?? null,
+    };
+    this.rescoreRunsData.set(run.id, run);
+    return run;
+  }
+
+  async getRescoreRun(id: number): Promise<RescoreRun | undefined> {
+    return this.rescoreRunsData.get(id);
+  }
+
+  async updateRescoreRun(id: number, updates: Partial<InsertRescoreRun>): Promise<RescoreRun | undefined> {
+    const run = this.rescoreRunsData.get(id);
+    if (!run) {
+      return undefined;
+    }
+
+    const updatedRun: RescoreRun = { ...run, ...updates, id };
+    this.rescoreRunsData.set(id, updatedRun);
+    return updatedRun;
+  }
+
+  async createRescoredAnalysisResults(insertResults: InsertRescoredAnalysisResult[]): Promise<RescoredAnalysisResult[]> {
+    return insertResults.map((insertResult) => {
+      const result: RescoredAnalysisResult = {
+        id: this.rescoredAnalysisResultCurrentId++,
+        runId: insertResult.runId,
+        analysisResultId: insertResult.analysisResultId,
+        jobDescriptionId: insertResult.jobDescriptionId,
+        resumeId: insertResult.resumeId,
+        scoringVersion: insertResult.scoringVersion,
+        previousMatchPercentage: insertResult.previousMatchPercentage ?? null,
+        matchPercentage: insertResult.matchPercentage ?? null,
+        mlScore: insertResult.mlScore ?? null,
+        llmScore: insertResult.llmScore ?? null,
+        llmScoreEstimated: insertResult.llmScoreEstimated ?? false,
+        scoringWeights: insertResult.scoringWeights,
+        ensembleWeights: insertResult.ensembleWeights,
+        gateViolations: insertResult.gateViolations,
+        createdAt: insertResult.createdAt ?? new Date(),
+      };
+      this.rescoredAnalysisResultsData.set(result.id, result);
+      return result;
+    });
+  }
+
+  async getRescoredAnalysisResults(runId: number): Promise<RescoredAnalysisResult[]> {
+    return Array.from(this.rescoredAnalysisResultsData.values())
+      .filter((result) => result.runId === runId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  // LLM usage methods
+  async recordLlmUsage(insertRecord: InsertLlmUsageRecord): Promise<LlmUsageRecord> {
+    const record: LlmUsageRecord = {
+      id: this.llmUsageRecordCurrentId++,
+      userId: insertRecord.userId ?? null,
+      organizationId: insertRecord.organizationId ?? null,
+      jobId: insertRecord.jobId ?? null,
+      provider: insertRecord.provider,
+      model: insertRecord.model,
+      operation: insertRecord.operation,
+      promptTokens: insertRecord.promptTokens ?? 0,
+      completionTokens: insertRecord.completionTokens ?? 0,
+      costUsd: insertRecord.costUsd ?? 0,
+      createdAt: insertRecord.createdAt ?? new Date(),
+    };
+    this.llmUsageRecordsData.push(record);
+    return record;
+  }
+
+  async getLlmUsageRecords(userId: string, since: Date): Promise<LlmUsageRecord[]> {
+    return this.llmUsageRecordsData.filter(
+      (record) => record.userId === userId && !!record.createdAt && record.createdAt >= since,
+    );
+  }
+
+  async getLlmBudget(userId: string): Promise<LlmBudget | undefined> {
+    return this.llmBudgetsData.get(userId);
+  }
+
+  async setLlmBudget(userId: string, monthlyLimitUsd: number): Promise<LlmBudget> {
+    const budget: LlmBudget = {
+      id: this.llmBudgetsData.get(userId)?.id ?? this.llmBudgetCurrentId++,
+      userId,
+      monthlyLimitUsd,
+      updatedAt: new Date(),
+    };
+    this.llmBudgetsData.set(userId, budget);
+    return budget;
+  }
+
+  async getOrganizationLlmUsageRecords(organizationId: number, since: Date): Promise<LlmUsageRecord[]> {
+    return this.llmUsageRecordsData.filter(
+      (record) => record.organizationId === organizationId && !!record.createdAt && record.createdAt >= since,
+    );
+  }
+
+  async getOrganizationLlmBudget(organizationId: number): Promise<LlmOrganizationBudget | undefined> {
+    return this.llmOrganizationBudgetsData.get(organizationId);
+  }
+
+  async setOrganizationLlmBudget(organizationId: number, monthlyLimitUsd: number): Promise<LlmOrganizationBudget> {
+    const budget: LlmOrganizationBudget = {
+      id: this.llmOrganizationBudgetsData.get(organizationId)?.id ?? this.llmOrganizationBudgetCurrentId++,
+      organizationId,
+      monthlyLimitUsd,
+      updatedAt: new Date(),
+    };
+    this.llmOrganizationBudgetsData.set(organizationId, budget);
+    return budget;
+  }
+
+  // Organization methods
+  async createOrganization(insertOrganization: InsertOrganization): Promise<Organization> {
+    const now = new Date();
+    const organization: Organization = {
+      id: this.organizationCurrentId++,
+      name: insertOrganization.name,
+      createdBy: insertOrganization.createdBy,
+      createdAt: insertOrganization.createdAt ?? now,
+      updatedAt: insertOrganization.updatedAt ?? now,
+    };
+    this.organizationsData.set(organization.id, organization);
+    await this.addOrganizationMember({
+      organizationId: organization.id,
+      userId: organization.createdBy,
+      role: 'owner',
+    });
+    return organization;
+  }
+
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    return this.organizationsData.get(id);
+  }
+
+  async getOrganizationsForUser(userId: string): Promise<OrganizationWithRole[]> {
+    return Array.from(this.organizationMembersData.values())
+      .filter((member) => member.userId === userId)
+      .flatMap((member) => {
+        const organization = this.organizationsData.get(member.organizationId);
+        return organization ? [{ ...organization, role: member.role }] : [];
+      })
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getOrganizationMembership(organizationId: number, userId: string): Promise<OrganizationMember | undefined> {
+    return Array.from(this.organizationMembersData.values()).find(
+      (member) => member.organizationId === organizationId && member.userId === userId,
+    );
+  }
+
+  async getOrganizationMembers(organizationId: number): Promise<OrganizationMember[]> {
+    return Array.from(this.organizationMembersData.values())
+      .filter((member) => member.organizationId === organizationId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async addOrganizationMember(insertMember: InsertOrganizationMember): Promise<OrganizationMember> {
+    if (await this.getOrganizationMembership(insertMember.organizationId, insertMember.userId)) {
+      throw new Error(`User ${insertMember.userId} is already a member of organization ${insertMember.organizationId}`);
+    }
+
+    const now = new Date();
+    const member: OrganizationMember = {
+      id: this.organizationMemberCurrentId++,
+      organizationId: insertMember.organizationId,
+      userId: insertMember.userId,
+      role: insertMember.role,
+      createdAt: insertMember.createdAt ?? now,
+      updatedAt: insertMember.updatedAt ?? now,
+    };
+    this.organizationMembersData.set(member.id, member);
+    return member;
+  }
+
+  async updateOrganizationMemberRole(organizationId: number, userId: string, role: OrganizationRole): Promise<OrganizationMember | undefined> {
+    const member = await this.getOrganizationMembership(organizationId, userId);
+    if (!member) {
+      return undefined;
+    }
+
+    const updatedMember: OrganizationMember = { ...member, role, updatedAt: new Date() };
+    this.organizationMembersData.set(member.id, updatedMember);
+    return updatedMember;
+  }
+
+  async removeOrganizationMember(organizationId: number, userId: string): Promise<boolean> {
+    const member = await this.getOrganizationMembership(organizationId, userId);
+    return member ? this.organizationMembersData.delete(member.id) : false;
+  }
+
+  async createOrganizationInvitation(insertInvitation: InsertOrganizationInvitation): Promise<OrganizationInvitation> {
+    const invitation: OrganizationInvitation = {
+      id: this.organizationInvitationCurrentId++,
+      organizationId: insertInvitation.organizationId,
+      email: insertInvitation.email,
+      role: insertInvitation.role,
+      tokenHash: insertInvitation.tokenHash,
+      invitedBy: insertInvitation.invitedBy,
+      status: insertInvitation.status ?? 'pending',
+      expiresAt: insertInvitation.expiresAt,
+      acceptedBy: insertInvitation.acceptedBy ?? null,
+      acceptedAt: insertInvitation.acceptedAt ?? null,
+      createdAt: insertInvitation.createdAt ?? new Date(),
+    };
+    this.organizationInvitationsData.set(invitation.id, invitation);
+    return invitation;
+  }
+
+  async getOrganizationInvitationByTokenHash(tokenHash: string): Promise<OrganizationInvitation | undefined> {
+    return Array.from(this.organizationInvitationsData.values()).find(
+      (invitation) => invitation.tokenHash === tokenHash,
+    );
+  }
+
+  async getOrganizationInvitations(organizationId: number): Promise<OrganizationInvitation[]> {
+    return Array.from(this.organizationInvitationsData.values())
+      .filter((invitation) => invitation.organizationId === organizationId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async updateOrganizationInvitation(id: number, updates: Partial<InsertOrganizationInvitation>): Promise<OrganizationInvitation | undefined> {
+    const invitation = this.organizationInvitationsData.get(id);
+    if (!invitation) {
+      return undefined;
+    }
+
+    const updatedInvitation: OrganizationInvitation = { ...invitation, ...updates, id };
+    this.organizationInvitationsData.set(id, updatedInvitation);
+    return updatedInvitation;
+  }
+
+  async setResumeOrganization(resumeId: number, organizationId: number | null): Promise<Resume | undefined> {
+    const resume = this.resumesData.get(resumeId);
+    if (!resume) {
+      return undefined;
+    }
+
+    const updatedResume: Resume = { ...resume, organizationId, updatedAt: new Date() };
+    this.resumesData.set(resumeId, updatedResume);
+    return updatedResume;
+  }
+
+  async setJobDescriptionOrganization(jobId: number, organizationId: number | null): Promise<JobDescription | undefined> {
+    const jobDescription = this.jobDescriptionsData.get(jobId);
+    if (!jobDescription) {
+      return undefined;
+    }
+
+    const updatedJobDescription: JobDescription = { ...jobDescription, organizationId, updatedAt: new Date() };
+    this.jobDescriptionsData.set(jobId, updatedJobDescription);
+    return updatedJobDescription;
+  }
+
   // User tier methods
   async getUserTierInfo(userId: string): Promise<UserTierInfo | undefined> {
     return this.userTiersData.get(userId);
@@ -75,6 +75,11 @@ export const API_ROUTES = {
     UPLOAD: `${API_BASE}/resumes`,
     GET_BY_ID: `${API_BASE}/resumes/:id`,
     BATCH_UPLOAD: `${API_BASE}/resumes/batch`,
+    MATCHING_JOBS: `${API_BASE}/resumes/:id/matching-jobs`,
+    SHARE: `${API_BASE}/resumes/:id/organization`,
+    DUPLICATES: `${API_BASE}/resumes/:id/duplicates`,
+    MERGE_DUPLICATES: `${API_BASE}/resumes/:id/duplicates/merge`,
+    KEEP_DUPLICATE: `${API_BASE}/resumes/:id/duplicates/keep`,
   },
 
   // Job Description Management
@@ -84,6 +89,38 @@ export const API_ROUTES = {
     GET_BY_ID: `${API_BASE}/job-descriptions/:id`,
     UPDATE: `${API_BASE}/job-descriptions/:id`,
     DELETE: `${API_BASE}/job-descriptions/:id`,
+    SHARE: `${API_BASE}/job-descriptions/:id/organization`,
+    VERSIONS: `${API_BASE}/job-descriptions/:id/versions`,
+    REANALYZE_STALE: `${API_BASE}/job-descriptions/:id/reanalyze-stale`,
+  },
+
+  // Hiring Pipeline
+  PIPELINE: {
+    BOARD: `${API_BASE}/jobs/:jobId/pipeline`,
+    STAGES: `${API_BASE}/jobs/:jobId/pipeline/stages`,
+    MOVE_CANDIDATE: `${API_BASE}/jobs/:jobId/pipeline/candidates/:resumeId`,
+    HISTORY: `${API_BASE}/jobs/:jobId/pipeline/history`,
+  },
+
+  // Webhooks
+  WEBHOOKS: {
+    LIST: `${API_BASE}/webhooks`,
+    CREATE: `${API_BASE}/webhooks`,
+    GET_BY_ID: `${API_BASE}/webhooks/:id`,
+    UPDATE: `${API_BASE}/webhooks/:id`,
+    DELETE: `${API_BASE}/webhooks/:id`,
+    DELIVERIES: `${API_BASE}/webhooks/:id/deliveries`,
+  },
+
+  // Organizations
+  ORGANIZATIONS: {
+    LIST: `${API_BASE}/organizations`,
+    CREATE: `${API_BASE}/organizations`,
+    MEMBERS: `${API_BASE}/organizations/:id/members`,
+    MEMBER: `${API_BASE}/organizations/:id/members/:userId`,
+    INVITATIONS: `${API_BASE}/organizations/:id/invitations`,
+    INVITATION: `${API_BASE}/organizations/:id/invitations/:invitationId`,
+    ACCEPT_INVITATION: `${API_BASE}/organizations/invitations/accept`,
   },
 
   // Analysis
@@ -91,10 +128,37 @@ export const API_ROUTES = {
     ANALYZE_JOB: `${API_BASE}/analysis/analyze/:jobId`,
     GET_ANALYSIS: `${API_BASE}/analysis/analyze/:jobId`,
     GET_ANALYSIS_BY_RESUME: `${API_BASE}/analysis/analyze/:jobId/:resumeId`,
+    GET_RUN: `${API_BASE}/analysis/runs/:runId`,
+    GET_RUN_RESULTS: `${API_BASE}/analysis/runs/:runId/results`,
+    EXPORT: `${API_BASE}/analysis/export/:jobId`,
     ANALYZE_BIAS: `${API_BASE}/analysis/analyze-bias/:jobId`,
     GENERATE_INTERVIEW: `${API_BASE}/analysis/interview-questions/:resumeId/:jobId`,
   },
 
+  // Interview scorecards
+  INTERVIEWS: {
+    SCORECARDS: `${API_BASE}/interviews/:resumeId/:jobId/scorecards`,
+  },
+
+  // Product feedback and analysis ratings
+  FEEDBACK: {
+    SUBMIT: `${API_BASE}/feedback`,
+    ANALYSIS_RATING: `${API_BASE}/feedback/analysis/:analysisId/rating`,
+  },
+
+  // Recruiter corrections to extracted skills
+  SKILL_CORRECTIONS: {
+    LIST: `${API_BASE}/skill-corrections`,
+    DELETE: `${API_BASE}/skill-corrections/:id`,
+  },
+
+  // Organization skill taxonomies
+  SKILL_TAXONOMY: {
+    LIST: `${API_BASE}/organizations/:organizationId/skill-taxonomy`,
+    IMPORT: `${API_BASE}/organizations/:organizationId/skill-taxonomy/import`,
+    ENTRY: `${API_BASE}/organizations/:organizationId/skill-taxonomy/:entryId`,
+  },
+
   // Admin
   ADMIN: {
     USERS: `${API_BASE}/admin/users`,
@@ -128,14 +192,78 @@ export const buildAnalysisRoute = (jobId: JobId, resumeId?: ResumeId): string =>
   return resumeId ? base.replace(':resumeId', String(resumeId)) : base;
 };
 
+export const buildAnalysisExportRoute = (
+  jobId: JobId,
+  format: AnalysisExportFormat,
+  filters: { sessionId?: SessionId | null; batchId?: string | null } = {}
+): string => {
+  const params = new URLSearchParams({ format });
+  if (filters.sessionId) params.append('sessionId', filters.sessionId);
+  if (filters.batchId) params.append('batchId', filters.batchId);
+  return `${API_ROUTES.ANALYSIS.EXPORT.replace(':jobId', String(jobId))}?${params.toString()}`;
+};
+
 export const buildResumeRoute = (resumeId: ResumeId): string => {
   return API_ROUTES.RESUMES.GET_BY_ID.replace(':id', String(resumeId));
 };
 
+export const buildResumeMatchingJobsRoute = (resumeId: ResumeId, limit?: number): string => {
+  const base = API_ROUTES.RESUMES.MATCHING_JOBS.replace(':id', String(resumeId));
+  return limit ? `${base}?limit=${limit}` : base;
+};
+
+export const buildResumeDuplicatesRoute = (
+  resumeId: ResumeId,
+  action?: 'merge' | 'keep'
+): string => {
+  const route = action === 'merge'
+    ? API_ROUTES.RESUMES.MERGE_DUPLICATES
+    : action === 'keep'
+      ? API_ROUTES.RESUMES.KEEP_DUPLICATE
+      : API_ROUTES.RESUMES.DUPLICATES;
+  return route.replace(':id', String(resumeId));
+};
+
 export const buildJobRoute = (jobId: JobId): string => {
   return API_ROUTES.JOBS.GET_BY_ID.replace(':id', String(jobId));
 };
 
+export const buildJobVersionsRoute = (jobId: JobId, action?: 'reanalyze-stale'): string => {
+  const route = action === 'reanalyze-stale' ? API_ROUTES.JOBS.REANALYZE_STALE : API_ROUTES.JOBS.VERSIONS;
+  return route.replace(':id', String(jobId));
+};
+
+export const buildInterviewScorecardsRoute = (resumeId: ResumeId, jobId: JobId): string => {
+  return buildRoute(API_ROUTES.INTERVIEWS.SCORECARDS, { resumeId, jobId });
+};
+
+export const buildAnalysisRatingRoute = (analysisId: AnalysisId): string => {
+  return buildRoute(API_ROUTES.FEEDBACK.ANALYSIS_RATING, { analysisId });
+};
+
+export const buildSkillCorrectionRoute = (correctionId: number): string => {
+  return buildRoute(API_ROUTES.SKILL_CORRECTIONS.DELETE, { id: correctionId });
+};
+
+export const buildSkillTaxonomyRoute = (
+  organizationId: number,
+  target?: { entryId: number } | 'import'
+): string => {
+  if (target === 'import') {
+    return buildRoute(API_ROUTES.SKILL_TAXONOMY.IMPORT, { organizationId });
+  }
+  return target
+    ? buildRoute(API_ROUTES.SKILL_TAXONOMY.ENTRY, { organizationId, entryId: target.entryId })
+    : buildRoute(API_ROUTES.SKILL_TAXONOMY.LIST, { organizationId });
+};
+
+export const buildPipelineRoute = (jobId: JobId, resumeId?: ResumeId): string => {
+  if (resumeId) {
+    return buildRoute(API_ROUTES.PIPELINE.MOVE_CANDIDATE, { jobId, resumeId });
+  }
+  return API_ROUTES.PIPELINE.BOARD.replace(':jobId', String(jobId));
+};
+
 // Validation helpers
 export function isValidRoute(route: string): boolean {
   const allRoutes = Object.values(API_ROUTES).flatMap(group => 
@@ -215,11 +343,44 @@ export interface ResumeListResponse {
       experience?: string;
       education?: string[];
     };
+    candidateGroupId?: number | null;
+    duplicateStatus?: DuplicateStatusName | null;
   }>;
   sessionId?: SessionId;
   totalCount: number;
 }
 
+// Duplicate detection at upload (GET /resumes/:id/duplicates)
+export type DuplicateStatusName = 'suspected' | 'merged';
+export type DuplicateSignalName = 'content_hash' | 'email' | 'phone' | 'embedding';
+
+export interface ResumeDuplicateInfo {
+  candidateGroupId: number;
+  duplicateOfResumeId: ResumeId;
+  signals: DuplicateSignalName[];
+  similarity: number | null;
+}
+
+export interface CandidateGroupMember {
+  id: ResumeId;
+  filename: string;
+  uploadedAt: string;
+  isPrimary: boolean;
+  duplicateStatus: DuplicateStatusName | null;
+  duplicateSignals: DuplicateSignalName[];
+  hasAnalysis: boolean;
+}
+
+export interface CandidateGroupResponse {
+  id: number;
+  primaryResumeId: ResumeId;
+  members: CandidateGroupMember[];
+}
+
+export interface DuplicateMergeRequest {
+  primaryResumeId?: ResumeId;
+}
+
 export interface ResumeDetailsResponse {
   id: ResumeId;
   filename: string;
@@ -238,7 +399,47 @@ export interface ResumeDetailsResponse {
   updatedAt: string;
 }
 
+// Jobs ranked by fit for one resume (GET /resumes/:id/matching-jobs)
+export interface ResumeMatchingJob {
+  jobId: JobId;
+  title: string;
+  /** First-pass score from stored embeddings or skill overlap */
+  prefilterScore: number;
+  prefilterMethod: 'embedding' | 'skills' | 'none';
+  matchPercentage: number | null;
+  confidenceLevel: 'low' | 'medium' | 'high';
+  matchedSkills: MatchedSkill[];
+  missingSkills: string[];
+  candidateStrengths: string[];
+  candidateWeaknesses: string[];
+  analysisId: AnalysisId | null;
+  cached: boolean;
+  error?: string;
+}
+
+export interface ResumeMatchingJobsResponse {
+  resumeId: ResumeId;
+  totalJobs: number;
+  matches: ResumeMatchingJob[];
+  processingTime: number;
+}
+
 // Job description endpoint types
+export interface JobScoringConfig {
+  // Relative weights, normalized to sum to 1 before scoring
+  weights?: {
+    skills: number;
+    experience: number;
+    education: number;
+    semantic: number;
+  };
+  skillRequirements?: Array<{
+    skill: string;
+    importance: 'must-have' | 'nice-to-have';
+  }>;
+  minimumYearsExperience?: number;
+}
+
 export interface JobCreateRequest {
   title: string;
   description: string;
@@ -246,6 +447,8 @@ export interface JobCreateRequest {
   skills?: string[];
   experience?: string;
   userId?: UserId;
+  blindReview?: boolean;
+  scoringConfig?: JobScoringConfig | null;
 }
 
 export interface JobListResponse {
@@ -277,16 +480,154 @@ export interface JobDetailsResponse {
     responsibilities: string[];
     summary: string;
   };
+  scoringConfig?: JobScoringConfig | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// Job description version history types
+export interface JobDescriptionVersionItem {
+  id: number;
+  jobDescriptionId: JobId;
+  version: number;
+  title: string;
+  description: string;
+  requirements: string[] | null;
+  /** Changes from the previous version; null for the first recorded version */
+  diff: {
+    title: { from: string; to: string } | null;
+    description: Array<{ op: 'add' | 'remove'; line: number; text: string }>;
+    requirements: { added: string[]; removed: string[] };
+  } | null;
+  changedBy: UserId | null;
+  createdAt: string;
+}
+
+export interface JobVersionHistoryResponse {
+  jobId: JobId;
+  currentVersion: number;
+  /** Newest first; empty until the job is first edited */
+  versions: JobDescriptionVersionItem[];
+  /** Resumes whose latest analysis ran against an earlier version */
+  staleResumeIds: ResumeId[];
+}
+
+// Hiring pipeline endpoint types
+export interface PipelineCandidateItem {
+  resumeId: ResumeId;
+  filename: string;
+  candidateName: string;
+  stage: string;
+  matchPercentage: number | null;
+  analysisId: AnalysisId | null;
+  stageUpdatedAt: string | null;
+}
+
+export interface PipelineStageColumn {
+  key: string;
+  name: string;
+  position: number;
+  isTerminal: boolean;
+  candidates: PipelineCandidateItem[];
+}
+
+export interface PipelineBoardResponse {
+  jobId: JobId;
+  jobTitle: string;
+  stages: PipelineStageColumn[];
+  totalCandidates: number;
+}
+
+export interface PipelineMoveRequest {
+  stage: string;
+  note?: string;
+}
+
+export interface PipelineTransitionItem {
+  id: number;
+  jobDescriptionId: JobId;
+  resumeId: ResumeId;
+  fromStage: string | null;
+  toStage: string;
+  actorId: string;
+  note: string | null;
+  createdAt: string;
+}
+
+// Webhook endpoint types
+export type WebhookEventName =
+  | 'analysis.completed'
+  | 'batch.completed'
+  | 'bias.analysis.completed'
+  | 'resume.parsed'
+  | 'token.anomaly_detected';
+
+export interface WebhookCreateRequest {
+  url: string;
+  events: WebhookEventName[];
+  description?: string;
+}
+
+export interface WebhookSubscriptionItem {
+  id: number;
+  url: string;
+  events: WebhookEventName[];
+  description: string | null;
+  isActive: boolean;
+  secretPreview: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookCreateResponse {
+  subscription: WebhookSubscriptionItem;
+  secret: string;
+}
+
+export interface WebhookDeliveryItem {
+  id: number;
+  subscriptionId: number;
+  event: WebhookEventName;
+  payload: Record<string, unknown>;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+  lastAttemptAt: string | null;
+  deliveredAt: string | null;
+}
+
+// Organization endpoint types
+export type OrganizationRoleName = 'owner' | 'recruiter' | 'hiring_manager' | 'viewer';
+
+export interface OrganizationItem {
+  id: number;
+  name: string;
+  role: OrganizationRoleName;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OrganizationCreateRequest {
+  name: string;
+}
+
+export interface InvitationAcceptRequest {
+  token: string;
+}
+
 // Analysis endpoint types
 export interface AnalysisRequest {
   jobId: JobId;
   sessionId?: SessionId;
   userId?: UserId;
   resumeIds?: ResumeId[];
+  /** Queue the analysis and respond 202 with an AnalysisRunStatus */
+  async?: boolean;
+  /** Leave out resumes merged as copies of another resume */
+  skipDuplicates?: boolean;
 }
 
 export interface MatchedSkill {
@@ -341,11 +682,60 @@ export interface AnalysisResponse {
       overall: number;
     };
     matchInsights?: MatchInsights;
+    /** Job description version the analysis ran against */
+    jobVersion?: number | null;
+    /** The job description has changed since the analysis ran */
+    stale?: boolean;
   }>;
   createdAt: string;
   processingTime: number;
+  /** Resume IDs left out as known duplicates */
+  skippedDuplicates?: ResumeId[];
+}
+
+// Asynchronous analysis run types
+export interface AnalysisRunStatus {
+  runId: number;
+  jobId: JobId;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  progress: {
+    total: number;
+    pending: number;
+    running: number;
+    completed: number;
+    failed: number;
+    percentComplete: number;
+  };
+  error: string | null;
+  createdAt: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  items: Array<{
+    resumeId: ResumeId;
+    status: 'pending' | 'running' | 'completed' | 'failed';
+    analysisId: AnalysisId | null;
+    matchPercentage: number | null;
+    error: string | null;
+  }>;
+  /** Only on the 202 response */
+  statusUrl?: string;
+  resultsUrl?: string;
 }
 
+export interface AnalysisRunResultsResponse extends AnalysisRunStatus {
+  results: AnalysisResponse['results'];
+  failures: Array<{ resumeId: ResumeId; error: string }>;
+  statistics: {
+    totalResumes: number;
+    successful: number;
+    failed: number;
+    averageMatch: number;
+  };
+}
+
+// Download formats of GET /analysis/export/:jobId
+export type AnalysisExportFormat = 'csv' | 'xlsx' | 'pdf';
+
 // Interview questions endpoint types
 export interface InterviewQuestion {
   question: string;
@@ -354,6 +744,7 @@ export interface InterviewQuestion {
   expectedAnswer: string;
   followUpQuestions?: string[];
   skillsAssessed?: string[];
+  evaluationCriteria?: string[];
 }
 
 export interface InterviewQuestionsRequest {
@@ -374,6 +765,152 @@ export interface InterviewQuestionsResponse {
   createdAt: string;
 }
 
+// Interview scorecard endpoint types
+export type InterviewRecommendationName = 'strong_no' | 'no' | 'yes' | 'strong_yes';
+
+export interface InterviewQuestionRatingInput {
+  questionIndex: number;
+  /** 1 (poor) to 5 (excellent) */
+  rating: number;
+  notes?: string;
+  criteriaMet?: string[];
+}
+
+export interface InterviewScorecardSubmitRequest {
+  interviewQuestionsId: number;
+  ratings: InterviewQuestionRatingInput[];
+  recommendation?: InterviewRecommendationName;
+  notes?: string;
+}
+
+export interface InterviewScorecardItem {
+  id: number;
+  interviewQuestionsId: number;
+  interviewerId: string;
+  interviewerName: string | null;
+  ratings: InterviewQuestionRatingInput[];
+  recommendation: InterviewRecommendationName | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InterviewScorecardSummary {
+  interviewQuestionsId: number;
+  interviewerCount: number;
+  averageRating: number | null;
+  interviewScore: number | null;
+  matchPercentage: number | null;
+  overallScore: number | null;
+  recommendations: Record<InterviewRecommendationName, number>;
+  recommendationSplit: boolean;
+  questions: Array<{
+    questionIndex: number;
+    question: string;
+    skillsAssessed: string[];
+    averageRating: number | null;
+    ratingCount: number;
+    disagreement: boolean;
+    criteriaMet: Record<string, number>;
+    feedback: Array<{ interviewerName: string; rating: number; notes?: string }>;
+  }>;
+  skills: Array<{ skill: string; averageRating: number; ratingCount: number; disagreement: boolean }>;
+  disagreements: Array<{ questionIndex: number; question: string; lowestRating: number; highestRating: number }>;
+}
+
+export interface InterviewScorecardsResponse {
+  interviewQuestionsId: number;
+  questions: InterviewQuestion[];
+  scorecards: InterviewScorecardItem[];
+  summary: InterviewScorecardSummary;
+}
+
+// Feedback endpoint types
+export type FeedbackTypeName = 'general' | 'bug' | 'feature' | 'improvement';
+
+export interface ProductFeedbackRequest {
+  name?: string;
+  email?: string;
+  type: FeedbackTypeName;
+  /** 1 (poor) to 5 (excellent) */
+  rating?: number | null;
+  comment: string;
+}
+
+export type AnalysisRatingVerdictName = 'accurate' | 'score_too_high' | 'score_too_low';
+
+export interface AnalysisRatingRequest {
+  verdict?: AnalysisRatingVerdictName | null;
+  missedSkills?: string[];
+  comment?: string;
+}
+
+export interface AnalysisRatingItem {
+  id: number;
+  analysisResultId: AnalysisId;
+  verdict: AnalysisRatingVerdictName | null;
+  missedSkills: string[];
+  comment: string | null;
+  /** The result's score, provider and model when it was rated */
+  matchPercentage: number | null;
+  aiProvider: string | null;
+  modelVersion: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Skill correction endpoint types
+export type SkillCorrectionTypeName = 'wrong' | 'missed' | 'equivalent';
+
+export interface SkillCorrectionRequest {
+  type: SkillCorrectionTypeName;
+  skill: string;
+  /** Canonical name; required for equivalent corrections */
+  equivalentTo?: string | null;
+  resumeId?: ResumeId | null;
+  jobId?: JobId | null;
+}
+
+export interface SkillCorrectionItem {
+  id: number;
+  type: SkillCorrectionTypeName;
+  skill: string;
+  equivalentTo: string | null;
+  resumeId: ResumeId | null;
+  jobDescriptionId: JobId | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Skill taxonomy endpoint types
+export interface SkillTaxonomyEntryRequest {
+  name: string;
+  category?: string;
+  /** Broader skill in the same taxonomy; null for the top level */
+  parentId?: number | null;
+  aliases?: string[];
+  description?: string | null;
+}
+
+export interface SkillTaxonomyEntryItem {
+  id: number;
+  organizationId: number;
+  name: string;
+  category: string;
+  parentId: number | null;
+  aliases: string[];
+  description: string | null;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SkillTaxonomyImportResponse {
+  created: number;
+  updated: number;
+  errors: Array<{ row: number; message: string }>;
+}
+
 // Admin endpoint types
 export interface AdminUsersResponse {
   users: Array<{
@@ -442,4 +979,4 @@ export type Route<T extends RouteGroup> = keyof ApiRoutes[T];
 // Type utilities for API responses
 export type ExtractApiResponseData<T> = T extends ApiResponse<infer U> ? U : never;
 export type ApiResponseOf<T> = ApiResponse<T>;
-export type ApiResultOf<T> = ApiResult<T>;
\ No newline at end of file
+export type ApiResultOf<T> = ApiResult<T>;
\ No newline at end of file
@@ -0,0 +1,25 @@
+import type { OrganizationRole } from './schema';
+
+/**
+ * What a member can do with the jobs and resumes shared with an organization.
+ * Owners are the only role that can manage membership and invitations.
+ */
+export type OrganizationPermission = 'read' | 'analyze' | 'write' | 'manage_members';
+
+export const ORGANIZATION_ROLE_PERMISSIONS: Record<OrganizationRole, readonly OrganizationPermission[]> = {
+  owner: ['read', 'analyze', 'write', 'manage_members'],
+  recruiter: ['read', 'analyze', 'write'],
+  hiring_manager: ['read', 'analyze'],
+  viewer: ['read'],
+};
+
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  recruiter: 'Recruiter',
+  hiring_manager: 'Hiring manager',
+  viewer: 'Viewer',
+};
+
+export function hasOrganizationPermission(role: OrganizationRole, permission: OrganizationPermission): boolean {
+  return ORGANIZATION_ROLE_PERMISSIONS[role].includes(permission);
+}
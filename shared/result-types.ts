@@ -155,9 +155,17 @@ export type ApplicationError =
   | RateLimitError;
 
 // Result types for specific operations
-export type ResumeAnalysisResult<T> = Result<T, ValidationError | NotFoundError | ExternalServiceError | BusinessLogicError>;
-export type JobAnalysisResult<T> = Result<T, ValidationError | NotFoundError | ExternalServiceError | BusinessLogicError>;
-export type MatchAnalysisResult<T> = Result<T, ValidationError | NotFoundError | ExternalServiceError | BusinessLogicError>;
+export type ResumeAnalysisResult<T> = Result<T, ValidationError | NotFoundError | AuthenticationError | ExternalServiceError | BusinessLogicError>;
+export type JobAnalysisResult<T> = Result<T, ValidationError | NotFoundError | AuthenticationError | ExternalServiceError | BusinessLogicError>;
+export type MatchAnalysisResult<T> = Result<T, ValidationError | NotFoundError | AuthenticationError | ExternalServiceError | BusinessLogicError>;
+export type PipelineResult<T> = Result<T, ValidationError | NotFoundError | AuthenticationError | ExternalServiceError | BusinessLogicError>;
+export type WebhookResult<T> = Result<T, ValidationError | NotFoundError | ExternalServiceError | BusinessLogicError>;
+export type OrganizationResult<T> = Result<T, ValidationError | NotFoundError | AuthenticationError | ExternalServiceError | BusinessLogicError>;
+export type InterviewScorecardResult<T> = Result<T, ValidationError | NotFoundError | AuthenticationError | ExternalServiceError>;
+export type FeedbackResult<T> = Result<T, ValidationError | NotFoundError | ExternalServiceError>;
+export type SkillCorrectionResult<T> = Result<T, ValidationError | NotFoundError | ExternalServiceError>;
+export type SkillTaxonomyResult<T> = Result<T, ValidationError | NotFoundError | AuthenticationError | ExternalServiceError>;
+export type RescoreResult<T> = Result<T, ValidationError | NotFoundError | ExternalServiceError>;
 export type DatabaseResult<T> = Result<T, NotFoundError | ExternalServiceError>;
 export type AuthResult<T> = Result<T, AuthenticationError | RateLimitError>;
 
@@ -332,4 +340,4 @@ export const chainResultAsync = async <T, U, E>(
   return isSuccess(result) 
     ? await next(result.data)
     : result;
-};
\ No newline at end of file
+};
\ No newline at end of file
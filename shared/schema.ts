@@ -1,4 +1,4 @@
-import { pgTable, serial, text, timestamp, json, integer, boolean, varchar, real, date } from "drizzle-orm/pg-core";
+import { pgTable, serial, text, timestamp, json, integer, boolean, varchar, real, date, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 import type { UserId, SessionId, ResumeId, JobId, AnalysisId } from './api-contracts';
@@ -30,6 +30,52 @@ export interface AnalyzedResumeData {
     date?: string;
     expiryDate?: string;
   }>;
+  structured?: StructuredResumeData;
+}
+
+// Structured resume entities extracted deterministically from parsed sections.
+// Dates are "YYYY-MM" strings; month is 01 when the resume only gives a year.
+export interface WorkHistoryEntry {
+  employer: string;
+  title: string;
+  startDate: string | null;
+  endDate: string | null;
+  isCurrent: boolean;
+  tenureMonths: number;
+  description?: string;
+}
+
+export interface EmploymentGap {
+  startDate: string;
+  endDate: string;
+  months: number;
+}
+
+export type DegreeLevel = "doctorate" | "master" | "bachelor" | "associate" | "diploma" | "other";
+
+export interface DegreeRecord {
+  degree: string;
+  level: DegreeLevel;
+  field?: string;
+  institution?: string;
+  graduationYear?: number;
+}
+
+export interface CertificationRecord {
+  name: string;
+  issuer?: string;
+  issueDate: string | null;
+  expiryDate: string | null;
+  isExpired: boolean;
+}
+
+export interface StructuredResumeData {
+  workHistory: WorkHistoryEntry[];
+  employmentGaps: EmploymentGap[];
+  totalExperienceMonths: number;
+  degrees: DegreeRecord[];
+  certifications: CertificationRecord[];
+  extractedAt: string;
 }
 
 // Bias analysis response type
@@ -93,6 +139,26 @@ export interface AnalyzedJobData {
   biasAnalysis?: SimpleBiasAnalysis;
 }
 
+// Per-job scoring overrides set by the job owner. Dimension weights are
+// relative and normalized before use; a missing must-have skill caps the score.
+export type SkillRequirementImportance = 'must-have' | 'nice-to-have';
+
+export interface SkillRequirement {
+  skill: string;
+  importance: SkillRequirementImportance;
+}
+
+export interface JobScoringConfig {
+  weights?: {
+    skills: number;
+    experience: number;
+    education: number;
+    semantic: number;
+  };
+  skillRequirements?: SkillRequirement[];
+  minimumYearsExperience?: number;
+}
+
 // Enhanced skill matching types
 export interface SkillMatch {
   skill: string;
@@ -145,10 +211,72 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Length of the sentence-transformer embeddings stored on resumes and jobs.
+// Where pgvector is installed, resumes and job_descriptions also carry an
+// indexed embedding_vector copy; it is left out of these tables so selects
+// and inserts work without the extension (see DatabaseStorage).
+export const EMBEDDING_DIMENSIONS = 384;
+
+// Organizations - teams that share jobs and resumes; membership roles gate what members can do
+export const ORGANIZATION_ROLES = ['owner', 'recruiter', 'hiring_manager', 'viewer'] as const;
+
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
+
+export type OrganizationInvitationStatus = 'pending' | 'accepted' | 'revoked';
+
+export const organizations = pgTable("organizations", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  createdBy: text("created_by").notNull(), // Firebase UID of the founding owner
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const organizationMembers = pgTable("organization_members", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id),
+  userId: text("user_id").notNull(), // Firebase UID; unique per organization
+  role: varchar("role", { length: 20 }).$type<OrganizationRole>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const organizationInvitations = pgTable("organization_invitations", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id),
+  email: varchar("email", { length: 255 }).notNull(),
+  role: varchar("role", { length: 20 }).$type<OrganizationRole>().notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the invite token; the token itself is shown once
+  invitedBy: text("invited_by").notNull(),
+  status: varchar("status", { length: 20 }).$type<OrganizationInvitationStatus>().notNull().default('pending'),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedBy: text("accepted_by"),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Candidate groups - resumes detected at upload as copies of the same person
+export const DUPLICATE_STATUSES = ['suspected', 'merged'] as const;
+
+export type DuplicateStatus = typeof DUPLICATE_STATUSES[number];
+
+// Which fingerprints matched when a resume was linked to a group
+export type DuplicateSignal = 'content_hash' | 'email' | 'phone' | 'embedding';
+
+export const candidateGroups = pgTable("candidate_groups", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id"),
+  organizationId: integer("organization_id").references(() => organizations.id),
+  primaryResumeId: integer("primary_resume_id").notNull(), // The copy that is analyzed; FK to resumes in the migration
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Resumes table
 export const resumes = pgTable("resumes", {
   id: serial("id").primaryKey(),
   userId: text("user_id"),
+  organizationId: integer("organization_id").references(() => organizations.id), // Shared with this organization's members
   sessionId: text("session_id"),
   batchId: text("batch_id"), // Track which upload batch this resume belongs to
   filename: text("filename").notNull(),
@@ -161,6 +289,12 @@ export const resumes = pgTable("resumes", {
   embedding: json("embedding").$type<number[]>(),
   skillsEmbedding: json("skills_embedding").$type<number[]>(),
   analyzedData: json("analyzed_data").$type<AnalyzedResumeData>(),
+  contentHash: text("content_hash"), // SHA-256 of the normalized text
+  contactEmail: text("contact_email"), // Normalized email found in the text
+  contactPhone: text("contact_phone"), // Last 10 digits of the phone number found in the text
+  candidateGroupId: integer("candidate_group_id").references(() => candidateGroups.id),
+  duplicateStatus: varchar("duplicate_status", { length: 20 }).$type<DuplicateStatus>(), // Null for a group's primary resume
+  duplicateSignals: json("duplicate_signals").$type<DuplicateSignal[]>(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -169,6 +303,7 @@ export const resumes = pgTable("resumes", {
 export const jobDescriptions = pgTable("job_descriptions", {
   id: serial("id").primaryKey(),
   userId: text("user_id"),
+  organizationId: integer("organization_id").references(() => organizations.id), // Shared with this organization's members
   title: text("title").notNull(),
   description: text("description").notNull(),
   requirements: json("requirements").$type<string[]>(),
@@ -177,10 +312,39 @@ export const jobDescriptions = pgTable("job_descriptions", {
   embedding: json("embedding").$type<number[]>(),
   requirementsEmbedding: json("requirements_embedding").$type<number[]>(),
   analyzedData: json("analyzed_data").$type<AnalyzedJobData>(),
+  blindReview: boolean("blind_review").default(false).notNull(), // Anonymize candidates for EEO-compliant review
+  scoringConfig: json("scoring_config").$type<JobScoringConfig>(), // Owner-defined weights and must-have gates
+  version: integer("version").default(1).notNull(), // Bumped when the title, description or requirements change
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Line-level changes between two versions of a job description
+export interface JobDescriptionTextChange {
+  op: 'add' | 'remove';
+  line: number; // 1-based, in the new text for additions and the old text for removals
+  text: string;
+}
+
+export interface JobDescriptionDiff {
+  title: { from: string; to: string } | null;
+  description: JobDescriptionTextChange[];
+  requirements: { added: string[]; removed: string[] };
+}
+
+// Job description versions - the content of every version, with what changed from the previous one
+export const jobDescriptionVersions = pgTable("job_description_versions", {
+  id: serial("id").primaryKey(),
+  jobDescriptionId: integer("job_description_id").notNull().references(() => jobDescriptions.id),
+  version: integer("version").notNull(),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  requirements: json("requirements").$type<string[]>(),
+  diff: json("diff").$type<JobDescriptionDiff>(), // Null for the first recorded version
+  changedBy: text("changed_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Skill categories table for hierarchy
 export const skillCategories: any = pgTable("skill_categories", {
   id: serial("id").primaryKey(),
@@ -241,6 +405,10 @@ export const analysisResults = pgTable("analysis_results", {
     warnings?: string[];
   }>(),
   
+  // Job description version the analysis ran against
+  jobVersion: integer("job_version"),
+  staleAt: timestamp("stale_at"), // Set when the job description changes after the analysis
+  
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -274,15 +442,103 @@ export interface InterviewQuestionData {
   evaluationCriteria?: string[];
 }
 
+// Interview scorecards - how the candidate actually answered, one per interviewer per question set
+export const INTERVIEW_RECOMMENDATIONS = ['strong_no', 'no', 'yes', 'strong_yes'] as const;
+
+export type InterviewRecommendation = typeof INTERVIEW_RECOMMENDATIONS[number];
+
+export interface InterviewQuestionRating {
+  questionIndex: number; // Position in interview_questions.questions
+  rating: number; // 1 (poor) to 5 (excellent)
+  notes?: string;
+  criteriaMet?: string[]; // Subset of the question's evaluationCriteria
+}
+
+export const interviewScorecards = pgTable("interview_scorecards", {
+  id: serial("id").primaryKey(),
+  interviewQuestionsId: integer("interview_questions_id").notNull().references(() => interviewQuestions.id),
+  resumeId: integer("resume_id").notNull().references(() => resumes.id),
+  jobDescriptionId: integer("job_description_id").notNull().references(() => jobDescriptions.id),
+  interviewerId: text("interviewer_id").notNull(), // Firebase UID
+  interviewerName: text("interviewer_name"),
+  ratings: json("ratings").$type<InterviewQuestionRating[]>().notNull(),
+  recommendation: varchar("recommendation", { length: 20 }).$type<InterviewRecommendation>(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Product feedback from the feedback page; userId is null for signed-out visitors
+export const FEEDBACK_TYPES = ['general', 'bug', 'feature', 'improvement'] as const;
+
+export type FeedbackType = typeof FEEDBACK_TYPES[number];
+
+export const productFeedback = pgTable("product_feedback", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id"),
+  name: text("name"),
+  email: text("email"),
+  type: varchar("type", { length: 20 }).$type<FeedbackType>().notNull(),
+  rating: integer("rating"), // 1 (poor) to 5 (excellent)
+  comment: text("comment").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Analysis ratings - a user's verdict on one analysis result, mined to calibrate providers
+export const ANALYSIS_RATING_VERDICTS = ['accurate', 'score_too_high', 'score_too_low'] as const;
+
+export type AnalysisRatingVerdict = typeof ANALYSIS_RATING_VERDICTS[number];
+
+export const analysisRatings = pgTable("analysis_ratings", {
+  id: serial("id").primaryKey(),
+  analysisResultId: integer("analysis_result_id").notNull().references(() => analysisResults.id),
+  userId: text("user_id").notNull(), // Firebase UID
+  verdict: varchar("verdict", { length: 20 }).$type<AnalysisRatingVerdict>(),
+  missedSkills: json("missed_skills").$type<string[]>().notNull().default([]),
+  comment: text("comment"),
+  // The result as it was rated, so ratings stay attributable after a re-analysis
+  matchPercentage: real("match_percentage"),
+  aiProvider: varchar("ai_provider", { length: 50 }),
+  modelVersion: varchar("model_version", { length: 50 }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Type inference
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganization = typeof organizations.$inferInsert;
+
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type InsertOrganizationMember = typeof organizationMembers.$inferInsert;
+
+export type OrganizationInvitation = typeof organizationInvitations.$inferSelect;
+export type InsertOrganizationInvitation = typeof organizationInvitations.$inferInsert;
+
+// An organization as seen by one of its members
+export interface OrganizationWithRole extends Organization {
+  role: OrganizationRole;
+}
+
 export type Resume = typeof resumes.$inferSelect;
 export type InsertResume = typeof resumes.$inferInsert;
+export type CandidateGroup = typeof candidateGroups.$inferSelect;
+export type InsertCandidateGroup = typeof candidateGroups.$inferInsert;
+export type ResumeDuplicateState = Pick<Resume, 'candidateGroupId' | 'duplicateStatus' | 'duplicateSignals'>;
+
+// A resume ranked by how close its embedding is to a job's
+export interface ResumeSimilarityMatch {
+  resume: Resume;
+  /** Cosine similarity, -1 to 1 */
+  similarity: number;
+}
 
 export type JobDescription = typeof jobDescriptions.$inferSelect;
 export type InsertJobDescription = typeof jobDescriptions.$inferInsert;
+export type JobDescriptionVersion = typeof jobDescriptionVersions.$inferSelect;
+export type InsertJobDescriptionVersion = typeof jobDescriptionVersions.$inferInsert;
 
 export type AnalysisResult = typeof analysisResults.$inferSelect;
 export type InsertAnalysisResult = typeof analysisResults.$inferInsert;
@@ -290,6 +546,92 @@ export type InsertAnalysisResult = typeof analysisResults.$inferInsert;
 export type InterviewQuestions = typeof interviewQuestions.$inferSelect;
 export type InsertInterviewQuestions = typeof interviewQuestions.$inferInsert;
 
+export type InterviewScorecard = typeof interviewScorecards.$inferSelect;
+export type InsertInterviewScorecard = typeof interviewScorecards.$inferInsert;
+
+// Scorecards aggregated across interviewers for one question set
+export interface InterviewQuestionScore {
+  questionIndex: number;
+  question: string;
+  skillsAssessed: string[];
+  averageRating: number | null;
+  ratingCount: number;
+  /** Interviewers' ratings are 2+ points apart */
+  disagreement: boolean;
+  /** How many interviewers saw each evaluation criterion met */
+  criteriaMet: Record<string, number>;
+  feedback: Array<{ interviewerName: string; rating: number; notes?: string }>;
+}
+
+export interface InterviewSkillScore {
+  skill: string;
+  averageRating: number;
+  ratingCount: number;
+  disagreement: boolean;
+}
+
+export interface InterviewScorecardSummary {
+  interviewQuestionsId: number;
+  interviewerCount: number;
+  /** Mean of all ratings, 1-5 */
+  averageRating: number | null;
+  /** averageRating mapped to 0-100 */
+  interviewScore: number | null;
+  matchPercentage: number | null;
+  /** Resume match blended with the interview score */
+  overallScore: number | null;
+  recommendations: Record<InterviewRecommendation, number>;
+  /** Some interviewers recommend hiring while others do not */
+  recommendationSplit: boolean;
+  questions: InterviewQuestionScore[];
+  skills: InterviewSkillScore[];
+  disagreements: Array<{ questionIndex: number; question: string; lowestRating: number; highestRating: number }>;
+}
+
+export type ProductFeedback = typeof productFeedback.$inferSelect;
+export type InsertProductFeedback = typeof productFeedback.$inferInsert;
+
+export interface ProductFeedbackFilters {
+  type?: FeedbackType;
+  rating?: number;
+  userId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ProductFeedbackPage {
+  feedback: ProductFeedback[];
+  total: number;
+}
+
+export type AnalysisRating = typeof analysisRatings.$inferSelect;
+export type InsertAnalysisRating = typeof analysisRatings.$inferInsert;
+
+export interface AnalysisRatingFilters {
+  aiProvider?: string;
+  modelVersion?: string;
+  verdict?: AnalysisRatingVerdict;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+// Ratings grouped by the provider and model that produced the rated results
+export interface AnalysisRatingCalibrationSummary {
+  aiProvider: string;
+  modelVersion: string | null;
+  ratingCount: number;
+  verdicts: Record<AnalysisRatingVerdict, number>;
+  /** (too high - too low) / ratings with a verdict; positive means the model overscores */
+  scoreBias: number | null;
+  /** Mean match percentage of the rated results */
+  averageMatchPercentage: number | null;
+  /** Skills users reported the model missed, most reported first */
+  missedSkills: Array<{ skill: string; count: number }>;
+}
+
 export type SkillCategory = typeof skillCategories.$inferSelect;
 export type InsertSkillCategory = typeof skillCategories.$inferInsert;
 
@@ -369,6 +711,58 @@ export type InsertSkillMemoryStats = typeof skillMemoryStats.$inferInsert;
 export type SkillPromotionLog = typeof skillPromotionLog.$inferSelect;
 export type InsertSkillPromotionLog = typeof skillPromotionLog.$inferInsert;
 
+// Recruiter corrections to extracted skills, applied to that user's later extractions:
+// wrong - the term is not a skill the candidate has; missed - extraction overlooked it;
+// equivalent - the skill is another name for equivalentTo
+export const SKILL_CORRECTION_TYPES = ['wrong', 'missed', 'equivalent'] as const;
+
+export type SkillCorrectionType = typeof SKILL_CORRECTION_TYPES[number];
+
+export const skillCorrections = pgTable("skill_corrections", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(), // Firebase UID
+  type: varchar("type", { length: 20 }).$type<SkillCorrectionType>().notNull(),
+  skill: varchar("skill", { length: 100 }).notNull(),
+  normalizedSkill: varchar("normalized_skill", { length: 100 }).notNull(), // One correction per skill per user
+  equivalentTo: varchar("equivalent_to", { length: 100 }), // Canonical name, for equivalent corrections
+  // Where the recruiter spotted the problem
+  resumeId: integer("resume_id").references(() => resumes.id),
+  jobDescriptionId: integer("job_description_id").references(() => jobDescriptions.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type SkillCorrection = typeof skillCorrections.$inferSelect;
+export type InsertSkillCorrection = typeof skillCorrections.$inferInsert;
+
+// An organization's own skill taxonomy (internal tools, competency frameworks,
+// certification levels), consulted ahead of ESCO when extracting and matching
+// skills for the organization's members
+export const skillTaxonomyEntries = pgTable("skill_taxonomy_entries", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id),
+  name: varchar("name", { length: 150 }).notNull(),
+  normalizedName: varchar("normalized_name", { length: 150 }).notNull(), // Unique per organization
+  category: varchar("category", { length: 100 }).notNull().default('general'),
+  parentId: integer("parent_id").references((): AnyPgColumn => skillTaxonomyEntries.id), // Broader skill in the hierarchy
+  aliases: json("aliases").$type<string[]>().notNull().default([]),
+  description: text("description"),
+  embedding: json("embedding").$type<number[]>(), // Generated from the name on create and rename
+  createdBy: text("created_by").notNull(), // Firebase UID
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type SkillTaxonomyEntry = typeof skillTaxonomyEntries.$inferSelect;
+export type InsertSkillTaxonomyEntry = typeof skillTaxonomyEntries.$inferInsert;
+
+export interface SkillTaxonomyImportResult {
+  created: number;
+  updated: number;
+  /** Rows that were skipped, with the 1-based row number in the import */
+  errors: Array<{ row: number; message: string }>;
+}
+
 // Token Usage System tables
 export const userApiLimits = pgTable("user_api_limits", {
   id: serial("id").primaryKey(),
@@ -393,9 +787,26 @@ export const apiCallLogs = pgTable("api_call_logs", {
   responseSize: integer("response_size"), // bytes
   ipAddress: text("ip_address"),
   userAgent: text("user_agent"),
+  tokenId: text("token_id"), // Null for calls not made with an API token
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// What an API token may do; tokens are issued with only the scopes an integration needs
+export const API_TOKEN_SCOPES = [
+  'resumes:read',
+  'resumes:write',
+  'jobs:read',
+  'jobs:write',
+  'analysis:read',
+  'analysis:run',
+  'bias:run',
+] as const;
+
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+// Granted when a token is generated without choosing scopes
+export const DEFAULT_API_TOKEN_SCOPES: ApiTokenScope[] = ['resumes:read', 'jobs:read', 'analysis:read'];
+
 export const userTokens = pgTable("user_tokens", {
   id: serial("id").primaryKey(),
   userId: text("user_id").notNull(), // Firebase UID
@@ -406,6 +817,35 @@ export const userTokens = pgTable("user_tokens", {
   createdAt: timestamp("created_at").defaultNow(),
   lastUsedAt: timestamp("last_used_at"),
   totalRequests: integer("total_requests").default(0),
+  scopes: json("scopes").$type<ApiTokenScope[]>().notNull().default([]),
+  allowedCidrs: json("allowed_cidrs").$type<string[]>(), // Null allows requests from any address
+  rateLimitPerMinute: integer("rate_limit_per_minute"), // Null leaves only the account's call limit
+  secretHash: text("secret_hash"), // SHA-256 of the secret; null for tokens issued before secrets were hashed, which are rejected until rotated
+  previousSecretHash: text("previous_secret_hash"), // Secret replaced by the last rotation
+  previousSecretExpiresAt: timestamp("previous_secret_expires_at"), // End of the rotation grace period
+  rotatedAt: timestamp("rotated_at"),
+});
+
+// Unusual API token activity, raised while tracking usage
+export const TOKEN_ANOMALY_TYPES = ['new_ip_range', 'volume_spike'] as const;
+
+export type TokenAnomalyType = typeof TOKEN_ANOMALY_TYPES[number];
+
+export interface TokenAnomalyDetails {
+  ipAddress?: string;
+  ipRange?: string;
+  requestsLastHour?: number;
+  baselinePerHour?: number;
+}
+
+export const tokenAnomalyAlerts = pgTable("token_anomaly_alerts", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(), // Firebase UID of the token owner
+  tokenId: text("token_id").notNull(),
+  type: varchar("type", { length: 30 }).$type<TokenAnomalyType>().notNull(),
+  details: json("details").$type<TokenAnomalyDetails>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  acknowledgedAt: timestamp("acknowledged_at"),
 });
 
 export const usageStatistics = pgTable("usage_statistics", {
@@ -420,6 +860,263 @@ export const usageStatistics = pgTable("usage_statistics", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// LLM cost accounting - one row per provider completion, priced when recorded
+export const llmUsageRecords = pgTable("llm_usage_records", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id"), // Firebase UID; null for calls made outside a user request
+  organizationId: integer("organization_id").references(() => organizations.id), // Organization the job is shared with
+  jobId: integer("job_id"),
+  provider: varchar("provider", { length: 20 }).notNull(),
+  model: text("model").notNull(),
+  operation: varchar("operation", { length: 40 }).notNull(),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  costUsd: real("cost_usd").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Per-user monthly LLM spend limit; users without a row get LLM_MONTHLY_BUDGET_USD
+export const llmBudgets = pgTable("llm_budgets", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().unique(),
+  monthlyLimitUsd: real("monthly_limit_usd").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Monthly LLM spend limit shared by all members' work on an organization's jobs
+export const llmOrganizationBudgets = pgTable("llm_organization_budgets", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().unique().references(() => organizations.id),
+  monthlyLimitUsd: real("monthly_limit_usd").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Hiring pipeline tables - per-job stages and candidate status tracking
+export const pipelineStages = pgTable("pipeline_stages", {
+  id: serial("id").primaryKey(),
+  jobDescriptionId: integer("job_description_id").notNull().references(() => jobDescriptions.id),
+  key: varchar("key", { length: 50 }).notNull(), // Stable identifier, e.g. 'screened'
+  name: varchar("name", { length: 100 }).notNull(),
+  position: integer("position").notNull().default(0),
+  isTerminal: boolean("is_terminal").notNull().default(false), // e.g. hired / rejected
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const candidatePipeline = pgTable("candidate_pipeline", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id"),
+  jobDescriptionId: integer("job_description_id").notNull().references(() => jobDescriptions.id),
+  resumeId: integer("resume_id").notNull().references(() => resumes.id),
+  stage: varchar("stage", { length: 50 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const pipelineTransitions = pgTable("pipeline_transitions", {
+  id: serial("id").primaryKey(),
+  jobDescriptionId: integer("job_description_id").notNull().references(() => jobDescriptions.id),
+  resumeId: integer("resume_id").notNull().references(() => resumes.id),
+  fromStage: varchar("from_stage", { length: 50 }), // null for the initial placement
+  toStage: varchar("to_stage", { length: 50 }).notNull(),
+  actorId: text("actor_id").notNull(), // Firebase UID of the user who moved the candidate
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Webhook tables - user-registered endpoints and their delivery log
+export const WEBHOOK_EVENT_TYPES = [
+  'analysis.completed',
+  'batch.completed',
+  'bias.analysis.completed',
+  'resume.parsed',
+  'token.anomaly_detected',
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(), // Firebase UID
+  url: text("url").notNull(),
+  events: json("events").$type<WebhookEventType[]>().notNull(),
+  secret: text("secret").notNull(), // HMAC signing secret, shown to the user once
+  description: text("description"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  subscriptionId: integer("subscription_id").notNull().references(() => webhookSubscriptions.id),
+  event: varchar("event", { length: 50 }).$type<WebhookEventType>().notNull(),
+  payload: json("payload").$type<Record<string, unknown>>().notNull(),
+  status: varchar("status", { length: 20 }).$type<WebhookDeliveryStatus>().notNull().default('pending'),
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  deliveredAt: timestamp("delivered_at"),
+});
+
+// Asynchronous analysis runs - one row per run, one item per resume
+export type AnalysisRunStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type AnalysisRunItemStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export const analysisRuns = pgTable("analysis_runs", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(), // Firebase UID
+  jobDescriptionId: integer("job_description_id").notNull().references(() => jobDescriptions.id),
+  sessionId: text("session_id"),
+  batchId: text("batch_id"),
+  status: varchar("status", { length: 20 }).$type<AnalysisRunStatus>().notNull().default('queued'),
+  totalResumes: integer("total_resumes").notNull().default(0),
+  completedResumes: integer("completed_resumes").notNull().default(0),
+  failedResumes: integer("failed_resumes").notNull().default(0),
+  error: text("error"), // run-level failure, e.g. the job description could not be analyzed
+  createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+});
+
+export const analysisRunItems = pgTable("analysis_run_items", {
+  id: serial("id").primaryKey(),
+  runId: integer("run_id").notNull().references(() => analysisRuns.id),
+  resumeId: integer("resume_id").notNull().references(() => resumes.id),
+  status: varchar("status", { length: 20 }).$type<AnalysisRunItemStatus>().notNull().default('pending'),
+  analysisResultId: integer("analysis_result_id").references(() => analysisResults.id),
+  result: json("result").$type<Record<string, unknown>>(), // per-resume result as returned by the batch endpoint
+  error: text("error"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+});
+
+// Tamper-evident audit log - each record's hash commits to the record before it.
+// Subject IDs are deliberately not foreign keys so the chain survives deletes.
+export type AuditEventType = 'analysis' | 'blind_review_redaction' | 'complete_analysis';
+
+export const auditRecords = pgTable("audit_records", {
+  id: serial("id").primaryKey(),
+  recordId: text("record_id").notNull().unique(), // analysisId / auditId of the audit entry
+  eventType: varchar("event_type", { length: 40 }).$type<AuditEventType>().notNull(),
+  userId: text("user_id"), // Firebase UID
+  jobId: integer("job_id"),
+  resumeId: integer("resume_id"),
+  resumeHash: text("resume_hash"),
+  jobHash: text("job_hash"),
+  provider: text("provider"),
+  model: text("model"),
+  payload: json("payload").$type<Record<string, unknown>>().notNull(),
+  previousHash: text("previous_hash").notNull(),
+  recordHash: text("record_hash").notNull().unique(),
+  createdAt: timestamp("created_at").notNull(), // set by the application, part of the hash
+});
+
+// Re-scoring runs - stored analyses replayed under a candidate scoring config.
+// Original analysis rows are never modified; each run writes its own rows.
+export type RescoreRunStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface RescoreConfig {
+  /** Replaces the unified dimension weights for jobs without owner-set weights */
+  defaultWeights?: {
+    skills: number;
+    experience: number;
+    education: number;
+    semantic: number;
+  };
+  /** Replaces the default ML/LLM ensemble split */
+  ensembleWeights?: {
+    ml: number;
+    llm: number;
+  };
+  /** Replaces the calibrated failure thresholds (0-100) */
+  failureThresholds?: {
+    ml?: number;
+    llm?: number;
+  };
+}
+
+/** 'entered': the replay fails a requirement gate the original passed; 'cleared': the reverse */
+export type RescoreGateChange = 'entered' | 'cleared';
+
+export interface RescoreCandidateDiff {
+  analysisResultId: number;
+  resumeId: number;
+  previousScore: number | null;
+  newScore: number | null;
+  delta: number | null;
+  previousRank: number;
+  newRank: number;
+  /** Positive when the candidate moved up the ranking */
+  rankChange: number;
+  gateChange: RescoreGateChange | null;
+  gateViolations: string[];
+  llmScoreEstimated: boolean;
+}
+
+export interface RescoreJobReport {
+  jobId: number;
+  title: string;
+  /** In the new ranking order */
+  candidates: RescoreCandidateDiff[];
+  rankChanges: number;
+  meanDelta: number;
+  maxAbsDelta: number;
+  gateCrossings: number;
+}
+
+export interface RescoreReport {
+  scoringVersion: string;
+  jobs: RescoreJobReport[];
+  summary: {
+    analyses: number;
+    rankChanges: number;
+    meanDelta: number;
+    maxAbsDelta: number;
+    gateCrossings: number;
+    estimatedLLMScores: number;
+  };
+}
+
+export const rescoreRuns = pgTable("rescore_runs", {
+  id: serial("id").primaryKey(),
+  label: text("label"),
+  scoringVersion: text("scoring_version").notNull(), // hash of the effective config, see lib/rescoring
+  config: json("config").$type<RescoreConfig>().notNull(),
+  jobIds: json("job_ids").$type<number[]>().notNull(),
+  status: varchar("status", { length: 20 }).$type<RescoreRunStatus>().notNull().default('queued'),
+  totalAnalyses: integer("total_analyses").notNull().default(0),
+  rescoredAnalyses: integer("rescored_analyses").notNull().default(0),
+  report: json("report").$type<RescoreReport>(),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+});
+
+export const rescoredAnalysisResults = pgTable("rescored_analysis_results", {
+  id: serial("id").primaryKey(),
+  runId: integer("run_id").notNull().references(() => rescoreRuns.id),
+  analysisResultId: integer("analysis_result_id").notNull().references(() => analysisResults.id),
+  jobDescriptionId: integer("job_description_id").notNull(),
+  resumeId: integer("resume_id").notNull(),
+  scoringVersion: text("scoring_version").notNull(),
+  previousMatchPercentage: real("previous_match_percentage"),
+  matchPercentage: real("match_percentage"), // null when the replay abstains
+  mlScore: real("ml_score"),
+  llmScore: real("llm_score"),
+  llmScoreEstimated: boolean("llm_score_estimated").notNull().default(false),
+  scoringWeights: json("scoring_weights").$type<NonNullable<RescoreConfig['defaultWeights']>>().notNull(),
+  ensembleWeights: json("ensemble_weights").$type<NonNullable<RescoreConfig['ensembleWeights']>>().notNull(),
+  gateViolations: json("gate_violations").$type<string[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Enhanced Zod schemas for runtime validation - MUST be defined before insert schemas
 export const resumeFileSchema = z.object({
   originalname: z.string().min(1, 'Filename is required'),
@@ -445,6 +1142,50 @@ export const resumeContentSchema = z.object({
   education: z.array(z.string()).default([]),
 });
 
+// Structured resume entity schemas - MUST be defined before analyzedResumeDataSchema
+const yearMonthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Expected YYYY-MM');
+
+export const workHistoryEntrySchema = z.object({
+  employer: z.string(),
+  title: z.string(),
+  startDate: yearMonthSchema.nullable(),
+  endDate: yearMonthSchema.nullable(),
+  isCurrent: z.boolean(),
+  tenureMonths: z.number().int().nonnegative(),
+  description: z.string().optional(),
+});
+
+export const employmentGapSchema = z.object({
+  startDate: yearMonthSchema,
+  endDate: yearMonthSchema,
+  months: z.number().int().positive(),
+});
+
+export const degreeRecordSchema = z.object({
+  degree: z.string().min(1),
+  level: z.enum(['doctorate', 'master', 'bachelor', 'associate', 'diploma', 'other']),
+  field: z.string().optional(),
+  institution: z.string().optional(),
+  graduationYear: z.number().int().min(1900).max(2100).optional(),
+});
+
+export const certificationRecordSchema = z.object({
+  name: z.string().min(1),
+  issuer: z.string().optional(),
+  issueDate: yearMonthSchema.nullable(),
+  expiryDate: yearMonthSchema.nullable(),
+  isExpired: z.boolean(),
+});
+
+export const structuredResumeDataSchema = z.object({
+  workHistory: z.array(workHistoryEntrySchema),
+  employmentGaps: z.array(employmentGapSchema),
+  totalExperienceMonths: z.number().int().nonnegative(),
+  degrees: z.array(degreeRecordSchema),
+  certifications: z.array(certificationRecordSchema),
+  extractedAt: z.string().datetime(),
+});
+
 // Enhanced analyzed data schemas - MUST be defined before insert schemas
 export const analyzedResumeDataSchema = z.object({
   name: z.string().min(1),
@@ -472,6 +1213,7 @@ export const analyzedResumeDataSchema = z.object({
     date: z.string().optional(),
     expiryDate: z.string().optional(),
   })).optional(),
+  structured: structuredResumeDataSchema.optional(),
 });
 
 export const analyzedJobDataSchema = z.object({
@@ -492,6 +1234,24 @@ export const analyzedJobDataSchema = z.object({
   companySize: z.enum(['startup', 'small', 'medium', 'large', 'enterprise']).optional(),
 });
 
+// Job scoring config schema - MUST be defined before insert schemas
+export const jobScoringConfigSchema = z.object({
+  weights: z.object({
+    skills: z.number().min(0).max(100),
+    experience: z.number().min(0).max(100),
+    education: z.number().min(0).max(100),
+    semantic: z.number().min(0).max(100),
+  }).refine(
+    (weights) => weights.skills + weights.experience + weights.education + weights.semantic > 0,
+    { message: "At least one scoring weight must be greater than zero" }
+  ).optional(),
+  skillRequirements: z.array(z.object({
+    skill: z.string().trim().min(1).max(100),
+    importance: z.enum(['must-have', 'nice-to-have']),
+  })).max(100).optional(),
+  minimumYearsExperience: z.number().int().min(0).max(50).optional(),
+});
+
 // Skill match schema - MUST be defined before insert schemas
 export const skillMatchSchema = z.object({
   skill: z.string().min(1),
@@ -561,6 +1321,8 @@ export const insertJobDescriptionSchema = createInsertSchema(jobDescriptions, {
   skills: z.array(z.string()).optional(),
   experience: z.string().optional(),
   analyzedData: analyzedJobDataSchema.optional(),
+  blindReview: z.boolean().optional(),
+  scoringConfig: jobScoringConfigSchema.nullable().optional(),
 });
 export const selectJobDescriptionSchema = createSelectSchema(jobDescriptions);
 
@@ -835,15 +1597,90 @@ export type InsertApiCallLog = typeof apiCallLogs.$inferInsert;
 export type UserToken = typeof userTokens.$inferSelect;
 export type InsertUserToken = typeof userTokens.$inferInsert;
 
+export type TokenAnomalyAlert = typeof tokenAnomalyAlerts.$inferSelect;
+export type InsertTokenAnomalyAlert = typeof tokenAnomalyAlerts.$inferInsert;
+
 export type UsageStatistics = typeof usageStatistics.$inferSelect;
 export type InsertUsageStatistics = typeof usageStatistics.$inferInsert;
 
+export type LlmUsageRecord = typeof llmUsageRecords.$inferSelect;
+export type InsertLlmUsageRecord = typeof llmUsageRecords.$inferInsert;
+
+export type LlmBudget = typeof llmBudgets.$inferSelect;
+export type LlmOrganizationBudget = typeof llmOrganizationBudgets.$inferSelect;
+
+// Hiring pipeline types
+export type PipelineStage = typeof pipelineStages.$inferSelect;
+export type InsertPipelineStage = typeof pipelineStages.$inferInsert;
+
+export type CandidatePipelineEntry = typeof candidatePipeline.$inferSelect;
+export type InsertCandidatePipelineEntry = typeof candidatePipeline.$inferInsert;
+
+export type PipelineTransition = typeof pipelineTransitions.$inferSelect;
+export type InsertPipelineTransition = typeof pipelineTransitions.$inferInsert;
+
+// Webhook types
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type InsertWebhookSubscription = typeof webhookSubscriptions.$inferInsert;
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+
+// Analysis run types
+export type AnalysisRun = typeof analysisRuns.$inferSelect;
+export type InsertAnalysisRun = typeof analysisRuns.$inferInsert;
+
+export type AnalysisRunItem = typeof analysisRunItems.$inferSelect;
+export type InsertAnalysisRunItem = typeof analysisRunItems.$inferInsert;
+
+// Audit record types
+export type AuditRecord = typeof auditRecords.$inferSelect;
+export type InsertAuditRecord = typeof auditRecords.$inferInsert;
+
+/** What callers supply when appending; storage fills in the chain fields */
+export type AuditRecordContent = Omit<InsertAuditRecord, 'id' | 'previousHash' | 'recordHash' | 'createdAt'>;
+
+export interface AuditRecordFilters {
+  userId?: string;
+  jobId?: number;
+  resumeId?: number;
+  resumeHash?: string;
+  eventType?: AuditEventType;
+  provider?: string;
+  model?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditRecordPage {
+  records: AuditRecord[];
+  total: number;
+}
+
+// Re-scoring types
+export type RescoreRun = typeof rescoreRuns.$inferSelect;
+export type InsertRescoreRun = typeof rescoreRuns.$inferInsert;
+
+export type RescoredAnalysisResult = typeof rescoredAnalysisResults.$inferSelect;
+export type InsertRescoredAnalysisResult = typeof rescoredAnalysisResults.$inferInsert;
+
 // Token usage interfaces
 export interface TokenGenerationRequest {
   name?: string;
   tokenName?: string;
   expiresIn?: '1h' | '24h' | '7d' | '30d' | 'never';
   permissions?: string[];
+  scopes?: ApiTokenScope[];
+  allowedCidrs?: string[];
+  rateLimitPerMinute?: number | null;
+}
+
+export type TokenRotationGracePeriod = 'none' | '1h' | '24h' | '7d';
+
+export interface TokenRotationRequest {
+  gracePeriod?: TokenRotationGracePeriod;
 }
 
 export interface TokenGenerationResponse {
@@ -853,6 +1690,10 @@ export interface TokenGenerationResponse {
   name: string;
   createdAt: string | Date;
   expiresAt?: string | Date;
+  scopes: ApiTokenScope[];
+  allowedCidrs: string[] | null;
+  rateLimitPerMinute: number | null;
+  previousSecretExpiresAt?: string | Date; // Set when rotating: the old secret works until then
   usage: {
     remaining: number;
     total: number;
@@ -873,9 +1714,25 @@ export interface UsageOverview {
     lastUsedAt?: Date;
     totalRequests: number;
     isActive: boolean;
+    scopes: ApiTokenScope[];
+    allowedCidrs: string[] | null;
+    rateLimitPerMinute: number | null;
+    secretHashed: boolean;
+    rotatedAt?: Date;
+    previousSecretExpiresAt?: Date;
   }>;
 }
 
+export interface TokenActivityEntry {
+  id: number;
+  endpoint: string;
+  method: string;
+  statusCode: number | null;
+  processingTime: number | null;
+  ipAddress: string | null;
+  createdAt: string | Date;
+}
+
 export interface ApiUsageMetrics {
   totalCalls: number;
   callsToday: number;
@@ -888,4 +1745,24 @@ export interface ApiUsageMetrics {
   }>;
   errorRate: number;
   avgResponseTime: number;
-}
\ No newline at end of file
+  llmCost?: LlmCostSummary;
+}
+
+export interface LlmCostTotals {
+  costUsd: number;
+  promptTokens: number;
+  completionTokens: number;
+  calls: number;
+}
+
+export interface LlmCostSummary extends LlmCostTotals {
+  periodStart: Date;
+  /** Monthly limit in USD, null when the user or organization has no budget */
+  budgetUsd: number | null;
+  budgetExceeded: boolean;
+  byProvider: Array<LlmCostTotals & { provider: string }>;
+  byJob: Array<LlmCostTotals & { jobId: number }>;
+  byDay: Array<LlmCostTotals & { date: string }>;
+  /** Per-member totals, only in organization summaries */
+  byUser?: Array<LlmCostTotals & { userId: string }>;
+}
\ No newline at end of file
@@ -23,7 +23,7 @@ export const TIER_LIMITS = {
     model: 'groq-llama3',
     maxConcurrency: 2,
     dailyAnalysisLimit: 300, // Increased for testing (was 50)
-    allowedProviders: ['groq'],
+    allowedProviders: ['groq', 'local'],
     features: {
       basicAnalysis: true,
       advancedAnalysis: true, // Enabled for beta testing
@@ -37,7 +37,7 @@ export const TIER_LIMITS = {
     model: 'claude-3-sonnet',
     maxConcurrency: 10,
     dailyAnalysisLimit: -1, // unlimited
-    allowedProviders: ['groq', 'openai', 'anthropic'],
+    allowedProviders: ['groq', 'openai', 'anthropic', 'local'],
     features: {
       basicAnalysis: true,
       advancedAnalysis: true,
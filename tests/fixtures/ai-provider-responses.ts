@@ -0,0 +1,231 @@
+/**
+ * AI Provider Response Fixtures
+ * Canned API responses in each provider's wire format, used by the adapter
+ * conformance tests. Each provider wraps the same analysis in the way it
+ * tends to answer in practice: OpenAI returns bare JSON, Groq fences it in
+ * markdown, Claude adds a sentence of prose, and small self-hosted models
+ * return loosely typed values.
+ */
+
+export type FixtureOperation =
+  | 'resume'
+  | 'job'
+  | 'match'
+  | 'bias'
+  | 'interview-questions'
+  | 'interview-script';
+
+export type FixtureProvider = 'groq' | 'openai' | 'anthropic' | 'local';
+
+export const fixtureInputs = {
+  resumeText: `Jane Smith
+jane.smith@example.com | Berlin
+
+Senior Backend Engineer - Acme Payments (2019-2024)
+Built payment APIs in Node.js and TypeScript on PostgreSQL, ran services on AWS.
+
+BSc Computer Science, TU Berlin`,
+  jobTitle: 'Staff Backend Engineer',
+  jobDescription: `We are looking for a young and energetic rockstar backend engineer.
+Required: Node.js, TypeScript, PostgreSQL, Kubernetes. Nice to have: Go.`,
+};
+
+// What a well-behaved model returns for each operation
+export const analysisPayloads: Record<FixtureOperation, Record<string, unknown>> = {
+  resume: {
+    name: 'Jane Smith',
+    contact: { email: 'jane.smith@example.com', phone: null, location: 'Berlin', linkedin: null },
+    skills: ['Node.js', 'TypeScript', 'PostgreSQL', 'AWS'],
+    experience: '5 years',
+    experienceYears: 5,
+    workExperience: [
+      {
+        company: 'Acme Payments',
+        position: 'Senior Backend Engineer',
+        duration: '2019-2024',
+        description: 'Built payment APIs in Node.js and TypeScript on PostgreSQL.',
+      },
+    ],
+    education: ['BSc Computer Science, TU Berlin'],
+    summary: 'Backend engineer focused on payment APIs.',
+    keyStrengths: ['API design', 'PostgreSQL'],
+  },
+  job: {
+    requiredSkills: ['Node.js', 'TypeScript', 'PostgreSQL', 'Kubernetes'],
+    preferredSkills: ['Go'],
+    experienceLevel: 'senior',
+    responsibilities: ['Design backend services', 'Mentor engineers'],
+    summary: 'Staff backend role owning core services.',
+  },
+  match: {
+    matchPercentage: 78,
+    matchedSkills: [
+      { skill: 'Node.js', matchPercentage: 95 },
+      { skill: 'TypeScript', matchPercentage: 90 },
+      { skill: 'PostgreSQL', matchPercentage: 90 },
+    ],
+    missingSkills: ['Kubernetes'],
+    candidateStrengths: ['Payments domain experience'],
+    candidateWeaknesses: ['No container orchestration experience'],
+    recommendations: ['Probe Kubernetes exposure'],
+    confidenceLevel: 'high',
+  },
+  bias: {
+    overallScore: 70,
+    biasIndicators: [
+      { type: 'age', severity: 'medium', text: 'young and energetic', suggestion: "Use 'motivated' instead" },
+      { type: 'gender', severity: 'low', text: 'rockstar', suggestion: "Use 'skilled' instead" },
+    ],
+    recommendations: ['Remove age-coded language'],
+    summary: 'Two biased phrases found.',
+    improvedDescription: 'We are looking for a motivated, skilled backend engineer.',
+  },
+  'interview-questions': {
+    questions: [
+      {
+        question: 'Walk me through the payment API you built at Acme.',
+        category: 'technical',
+        difficulty: 'medium',
+        expectedAnswer: 'Concrete design decisions and trade-offs.',
+        skillsAssessed: ['Node.js', 'PostgreSQL'],
+      },
+      {
+        question: 'How would you approach running these services on Kubernetes?',
+        category: 'problem-solving',
+        difficulty: 'hard',
+        expectedAnswer: 'Reasonable deployment model even without hands-on experience.',
+        skillsAssessed: ['Kubernetes'],
+      },
+      {
+        question: 'Tell me about a time you mentored a junior engineer.',
+        category: 'behavioral',
+        difficulty: 'easy',
+        expectedAnswer: 'Specific example with outcome.',
+        skillsAssessed: ['Mentoring'],
+      },
+    ],
+    focusAreas: ['Kubernetes', 'System design'],
+    preparationTips: ['Review the Acme payments architecture'],
+  },
+  'interview-script': {
+    jobTitle: 'Staff Backend Engineer',
+    candidateName: 'Jane Smith',
+    interviewDuration: '45-60 minutes',
+    opening: {
+      salutation: 'Hello Jane, thanks for joining us today.',
+      iceBreaker: 'How is Berlin treating you?',
+      interviewOverview: "We'll cover your background, the role and your questions.",
+    },
+    currentRoleDiscussion: {
+      roleAcknowledgment: 'You have been building payment APIs at Acme.',
+      currentWorkQuestions: [
+        { question: 'What does a typical week look like?', purpose: 'Role scope', expectedAnswer: 'Clear ownership areas' },
+      ],
+    },
+    skillMatchDiscussion: {
+      introduction: 'Your backend stack lines up well with ours.',
+      matchedSkillsQuestions: [
+        { skill: 'PostgreSQL', question: 'How did you tune your heaviest queries?', expectedAnswer: 'Indexing and query plans' },
+      ],
+    },
+    skillGapAssessment: {
+      introduction: "Let's talk about areas that would be new.",
+      gapQuestions: [
+        {
+          missingSkill: 'Kubernetes',
+          question: 'How would you get up to speed on Kubernetes?',
+          expectedAnswer: 'Structured learning plan',
+          assessmentCriteria: 'Growth mindset',
+        },
+      ],
+    },
+    roleSell: {
+      transitionStatement: "Now let me tell you about the team.",
+      roleHighlights: ['Own core services', 'Small senior team'],
+      opportunityDescription: 'You would shape the platform roadmap.',
+      closingQuestions: [{ question: 'What excites you about this role?', purpose: 'Gauge interest' }],
+    },
+    closing: {
+      nextSteps: "We'll be in touch within a week.",
+      candidateQuestions: 'What questions do you have for us?',
+      finalStatement: 'Thanks again for your time.',
+    },
+  },
+};
+
+// Small local models drift from the schema: bare skill names, numbers as strings
+const loosePayloads: Partial<Record<FixtureOperation, Record<string, unknown>>> = {
+  resume: {
+    ...analysisPayloads.resume,
+    experienceYears: '5',
+    keyStrengths: undefined,
+    strengths: ['API design', 'PostgreSQL'],
+  },
+  match: {
+    ...analysisPayloads.match,
+    matchPercentage: '78',
+    matchedSkills: ['Node.js', 'TypeScript', 'PostgreSQL'],
+    confidenceLevel: 'High',
+  },
+  'interview-questions': {
+    ...analysisPayloads['interview-questions'],
+    questions: (analysisPayloads['interview-questions'].questions as Array<Record<string, unknown>>).map(
+      ({ expectedAnswer, ...question }) => ({ ...question, purpose: expectedAnswer }),
+    ),
+  },
+};
+
+function completionText(provider: FixtureProvider, operation: FixtureOperation): string {
+  switch (provider) {
+    case 'openai':
+      return JSON.stringify(analysisPayloads[operation]);
+    case 'groq':
+      return '```json\n' + JSON.stringify(analysisPayloads[operation], null, 2) + '\n```';
+    case 'anthropic':
+      return 'Here is the analysis you asked for:\n\n' + JSON.stringify(analysisPayloads[operation], null, 2);
+    case 'local':
+      return JSON.stringify(loosePayloads[operation] ?? analysisPayloads[operation], null, 2);
+  }
+}
+
+export const fixtureModels: Record<FixtureProvider, string> = {
+  groq: 'llama-3.3-70b-versatile',
+  openai: 'gpt-4o',
+  anthropic: 'claude-3-7-sonnet-20250219',
+  local: 'llama3.1:8b',
+};
+
+/**
+ * Chat completions response body (Groq, OpenAI, self-hosted servers)
+ */
+export function chatCompletionFixture(provider: Exclude<FixtureProvider, 'anthropic'>, operation: FixtureOperation) {
+  return {
+    id: `chatcmpl-${provider}-${operation}`,
+    object: 'chat.completion',
+    created: 1760745600,
+    model: fixtureModels[provider],
+    choices: [
+      {
+        index: 0,
+        message: { role: 'assistant', content: completionText(provider, operation) },
+        finish_reason: 'stop',
+      },
+    ],
+    usage: { prompt_tokens: 812, completion_tokens: 245, total_tokens: 1057 },
+  };
+}
+
+/**
+ * Anthropic messages API response body
+ */
+export function anthropicMessageFixture(operation: FixtureOperation) {
+  return {
+    id: `msg_${operation}`,
+    type: 'message',
+    role: 'assistant',
+    model: fixtureModels.anthropic,
+    content: [{ type: 'text', text: completionText('anthropic', operation) }],
+    stop_reason: 'end_turn',
+    usage: { input_tokens: 812, output_tokens: 245 },
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit Tests for Analysis Export Rendering
+ * Tests CSV escaping, formula neutralization and XLSX/PDF output
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  renderAnalysisCsv,
+  renderAnalysisExport,
+  buildExportFilename,
+  isAnalysisExportFormat,
+  type AnalysisExportReport,
+  type AnalysisExportRow
+} from '../../../server/lib/analysis-export';
+
+const row = (overrides: Partial<AnalysisExportRow> = {}): AnalysisExportRow => ({
+  rank: 1,
+  resumeId: 4,
+  candidateName: 'Jane Doe',
+  filename: 'jane.pdf',
+  matchPercentage: 87.4,
+  confidenceLevel: 'high',
+  scoringDimensions: { skills: 90.2, experience: 80, education: 70, semantic: 85, overall: 87 },
+  matchedSkills: ['TypeScript', 'React'],
+  missingSkills: ['Go'],
+  strengths: ['Led a team, shipped "v2"'],
+  weaknesses: [],
+  fairnessMetrics: { biasConfidenceScore: 92, potentialBiasAreas: [], fairnessAssessment: 'No concerns' },
+  analyzedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+const report = (rows: AnalysisExportRow[]): AnalysisExportReport => ({
+  jobId: 12,
+  jobTitle: 'Senior Engineer (Platform)',
+  blindReview: false,
+  generatedAt: new Date('2025-01-31T10:00:00Z'),
+  rows
+});
+
+describe('Analysis Export', () => {
+  describe('renderAnalysisCsv', () => {
+    test('should write a header and one rounded row per candidate', () => {
+      const [header, first] = renderAnalysisCsv(report([row()])).replace(/^\uFEFF/, '').split('\r\n');
+
+      expect(header.split(',')).toContain('Match %');
+      expect(first).toMatch(/^1,4,Jane Doe,jane\.pdf,87,high,90,80,70,85,87,TypeScript; React,Go,/);
+      expect(first).toContain('"Led a team, shipped ""v2"""');
+    });
+
+    test('should neutralize values spreadsheet apps would run as formulas', () => {
+      const csv = renderAnalysisCsv(report([row({ candidateName: '=HYPERLINK("x")', missingSkills: ['@SUM(A1)'] })]));
+
+      expect(csv).toContain(`"'=HYPERLINK(""x"")"`);
+      expect(csv).toContain(`'@SUM(A1)`);
+    });
+
+    test('should leave empty cells for missing scores and fairness metrics', () => {
+      const [, first] = renderAnalysisCsv(report([row({ scoringDimensions: null, fairnessMetrics: null })])).split('\r\n');
+      expect(first).toContain('high,,,,,,');
+    });
+  });
+
+  test('should render an XLSX workbook and a PDF report', async () => {
+    const rows = [row(), row({ rank: 2, resumeId: 5, candidateName: 'Zoë Ł. 王', matchPercentage: 61 })];
+
+    const xlsx = await renderAnalysisExport(report(rows), 'xlsx');
+    expect(xlsx.content.subarray(0, 2).toString()).toBe('PK');
+    expect(xlsx.contentType).toContain('spreadsheetml');
+
+    const pdf = await renderAnalysisExport(report(rows), 'pdf');
+    expect(pdf.content.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(pdf.filename).toBe('senior-engineer-platform-ranking-2025-01-31.pdf');
+  });
+
+  test('buildExportFilename should fall back to the job ID for non-latin titles', () => {
+    expect(buildExportFilename({ ...report([]), jobTitle: '工程师' }, 'csv')).toBe('job-12-ranking-2025-01-31.csv');
+  });
+
+  test('isAnalysisExportFormat should only accept supported formats', () => {
+    expect(isAnalysisExportFormat('xlsx')).toBe(true);
+    expect(isAnalysisExportFormat('docx')).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit Tests for Analysis Permissions on Shared Items
+ * Tests that organization roles gate analysis of shared jobs and resumes
+ */
+
+import { describe, test, expect, jest } from '@jest/globals';
+
+import type { IStorage } from '../../../server/storage';
+import type { JobDescription, OrganizationMember, Resume } from '../../../shared/schema';
+
+// The real package loads native image bindings at import time
+jest.unstable_mockModule('@xenova/transformers', () => ({
+  pipeline: jest.fn(),
+  FeatureExtractionPipeline: class {}
+}));
+
+// Importing the real client opens a Redis connection
+jest.unstable_mockModule('@server/core/redis', () => ({
+  redis: { status: 'end', on: jest.fn(), get: jest.fn(), set: jest.fn() },
+  getRedisStatus: () => ({ status: 'end', connected: false })
+}));
+
+process.env.REDIS_ENABLED = 'false';
+
+const { createAnalysisService } = await import('../../../server/services/analysis-service');
+
+const sharedJob = { id: 1, userId: 'owner-1', organizationId: 7, title: 'Engineer', description: 'Build things' } as JobDescription;
+const sharedResume = { id: 5, userId: 'owner-1', organizationId: 7, filename: 'candidate.pdf' } as Resume;
+
+const storageFor = (role: OrganizationMember['role']) => ({
+  getJobDescriptionById: jest.fn(async () => sharedJob),
+  getResumeById: jest.fn(async () => sharedResume),
+  getOrganizationMembership: jest.fn(async () => ({ organizationId: 7, userId: 'member-1', role })),
+  getResumesByUserId: jest.fn(async () => []),
+  getJobDescriptionsByUserId: jest.fn(async () => []),
+  getAnalysisResultsByJob: jest.fn(async () => []),
+  getAnalysisResultsByResumeId: jest.fn(async () => []),
+  getAnalysisResultByJobAndResume: jest.fn(async () => undefined),
+  getInterviewQuestionByResumeAndJob: jest.fn(async () => undefined),
+  createAnalysisRun: jest.fn(),
+}) as unknown as IStorage & Record<string, jest.Mock>;
+
+const errorCode = (result: { success: boolean; error?: { code: string } }) =>
+  result.success ? null : result.error?.code;
+
+describe('Analysis Permissions', () => {
+  test('viewers cannot start analysis runs on a shared job', async () => {
+    const storage = storageFor('viewer');
+    const result = await createAnalysisService(storage).startAnalysisRun({ userId: 'member-1', jobId: 1 });
+
+    expect(errorCode(result)).toBe('AUTHORIZATION_ERROR');
+    expect(storage.getResumesByUserId).not.toHaveBeenCalled();
+    expect(storage.createAnalysisRun).not.toHaveBeenCalled();
+  });
+
+  test('viewers cannot run bias checks on a shared job', async () => {
+    const result = await createAnalysisService(storageFor('viewer')).analyzeBias({ userId: 'member-1', jobId: 1 });
+    expect(errorCode(result)).toBe('AUTHORIZATION_ERROR');
+  });
+
+  test('viewers cannot generate interview questions for shared items', async () => {
+    const storage = storageFor('viewer');
+    const result = await createAnalysisService(storage).generateInterviewQuestions({
+      userId: 'member-1', resumeId: 5, jobId: 1
+    });
+
+    expect(errorCode(result)).toBe('AUTHORIZATION_ERROR');
+    expect(storage.getInterviewQuestionByResumeAndJob).not.toHaveBeenCalled();
+  });
+
+  test('viewers cannot analyze a shared resume against a shared job', async () => {
+    const result = await createAnalysisService(storageFor('viewer')).analyzeSingleResume({
+      userId: 'member-1', resumeId: 5, jobId: 1
+    });
+    expect(errorCode(result)).toBe('AUTHORIZATION_ERROR');
+  });
+
+  test('viewers cannot match a shared resume against jobs', async () => {
+    const result = await createAnalysisService(storageFor('viewer')).matchJobsForResume({ userId: 'member-1', resumeId: 5 });
+    expect(errorCode(result)).toBe('AUTHORIZATION_ERROR');
+  });
+
+  test('viewers can still read results of a shared job', async () => {
+    const result = await createAnalysisService(storageFor('viewer')).getAnalysisResults('member-1', 1);
+    expect(errorCode(result)).not.toBe('AUTHORIZATION_ERROR');
+  });
+
+  test('hiring managers may analyze shared items', async () => {
+    const result = await createAnalysisService(storageFor('hiring_manager')).analyzeSingleResume({
+      userId: 'member-1', resumeId: 5, jobId: 1
+    });
+    expect(errorCode(result)).not.toBe('AUTHORIZATION_ERROR');
+  });
+});
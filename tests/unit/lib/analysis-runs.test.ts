@@ -0,0 +1,83 @@
+/**
+ * Unit Tests for Analysis Run Progress Helpers
+ * Tests progress counts, derived run status and bounded concurrency
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  summarizeAnalysisRun,
+  resolveAnalysisRunStatus,
+  isAnalysisRunItemFinished,
+  mapWithConcurrency
+} from '../../../server/lib/analysis-runs';
+import type { AnalysisRunItemStatus } from '@shared/schema';
+
+const items = (...statuses: AnalysisRunItemStatus[]) => statuses.map(status => ({ status }));
+
+describe('Analysis Run Helpers', () => {
+  describe('summarizeAnalysisRun', () => {
+    test('should count items by status and report finished percentage', () => {
+      expect(summarizeAnalysisRun(items('completed', 'failed', 'running', 'pending'))).toEqual({
+        total: 4,
+        pending: 1,
+        running: 1,
+        completed: 1,
+        failed: 1,
+        percentComplete: 50
+      });
+    });
+
+    test('should round down so 100% means every item finished', () => {
+      expect(summarizeAnalysisRun(items('completed', 'completed', 'pending')).percentComplete).toBe(66);
+    });
+
+    test('should treat an empty run as complete', () => {
+      expect(summarizeAnalysisRun([]).percentComplete).toBe(100);
+    });
+  });
+
+  describe('resolveAnalysisRunStatus', () => {
+    test('should stay queued until an item starts', () => {
+      expect(resolveAnalysisRunStatus(items('pending', 'pending'))).toBe('queued');
+      expect(resolveAnalysisRunStatus(items('running', 'pending'))).toBe('running');
+      expect(resolveAnalysisRunStatus(items('completed', 'pending'))).toBe('running');
+    });
+
+    test('should complete when any item succeeded', () => {
+      expect(resolveAnalysisRunStatus(items('completed', 'failed'))).toBe('completed');
+    });
+
+    test('should fail only when every item failed', () => {
+      expect(resolveAnalysisRunStatus(items('failed', 'failed'))).toBe('failed');
+    });
+  });
+
+  test('isAnalysisRunItemFinished should accept completed and failed only', () => {
+    expect(isAnalysisRunItemFinished('completed')).toBe(true);
+    expect(isAnalysisRunItemFinished('failed')).toBe(true);
+    expect(isAnalysisRunItemFinished('running')).toBe(false);
+    expect(isAnalysisRunItemFinished('pending')).toBe(false);
+  });
+
+  describe('mapWithConcurrency', () => {
+    test('should keep input order and never exceed the limit', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, index) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        inFlight--;
+        return index * 10;
+      });
+
+      expect(results).toEqual([0, 10, 20, 30, 40]);
+      expect(maxInFlight).toBe(2);
+    });
+
+    test('should handle an empty list', async () => {
+      await expect(mapWithConcurrency([], 3, async () => 1)).resolves.toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit Tests for API Token Restrictions
+ * Tests resolving the scope a request needs, matching client addresses
+ * against CIDR allowlists, and the per-token rate limit window
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  TokenRateLimiter,
+  isIpAllowed,
+  isValidCidr,
+  resolveRequiredScope
+} from '../../../server/lib/api-token-scopes';
+
+describe('API Token Restrictions', () => {
+  describe('resolveRequiredScope', () => {
+    test('maps reads and writes of each resource to its scopes', () => {
+      expect(resolveRequiredScope('GET', '/api/resumes?page=2')).toBe('resumes:read');
+      expect(resolveRequiredScope('POST', '/api/v1/resumes/batch')).toBe('resumes:write');
+      expect(resolveRequiredScope('DELETE', '/api/job-descriptions/12')).toBe('jobs:write');
+      expect(resolveRequiredScope('GET', '/api/v1/job-descriptions/12/versions')).toBe('jobs:read');
+      expect(resolveRequiredScope('GET', '/api/analysis/analyze/12')).toBe('analysis:read');
+      expect(resolveRequiredScope('POST', '/api/analysis/analyze/12')).toBe('analysis:run');
+    });
+
+    test('requires analysis scopes for endpoints that trigger analyses elsewhere', () => {
+      expect(resolveRequiredScope('POST', '/api/analysis/analyze-bias/12')).toBe('bias:run');
+      expect(resolveRequiredScope('POST', '/api/job-descriptions/12/reanalyze-stale')).toBe('analysis:run');
+      expect(resolveRequiredScope('GET', '/api/resumes/3/matching-jobs')).toBe('analysis:run');
+    });
+
+    test('requires the resume scope to list resumes similar to a job', () => {
+      expect(resolveRequiredScope('GET', '/api/job-descriptions/12/similar-resumes')).toBe('resumes:read');
+    });
+
+    test('grants no scope for account management endpoints', () => {
+      expect(resolveRequiredScope('POST', '/api/tokens/generate')).toBeNull();
+      expect(resolveRequiredScope('GET', '/api/organizations')).toBeNull();
+      expect(resolveRequiredScope('GET', '/api/resumes-export')).toBeNull();
+    });
+  });
+
+  describe('isIpAllowed', () => {
+    test('allows any address when the token has no allowlist', () => {
+      expect(isIpAllowed('198.51.100.7', null)).toBe(true);
+      expect(isIpAllowed(undefined, [])).toBe(true);
+    });
+
+    test('matches IPv4 blocks, including IPv4-mapped client addresses', () => {
+      const allowlist = ['203.0.113.0/24', '198.51.100.7'];
+
+      expect(isIpAllowed('203.0.113.200', allowlist)).toBe(true);
+      expect(isIpAllowed('::ffff:203.0.113.5', allowlist)).toBe(true);
+      expect(isIpAllowed('198.51.100.7', allowlist)).toBe(true);
+      expect(isIpAllowed('198.51.100.8', allowlist)).toBe(false);
+      expect(isIpAllowed('203.0.112.255', ['203.0.113.0/23'])).toBe(true);
+      expect(isIpAllowed('203.0.114.0', ['203.0.112.0/23'])).toBe(false);
+    });
+
+    test('matches IPv6 blocks and rejects unparseable addresses', () => {
+      const allowlist = ['2001:db8:abcd::/48'];
+
+      expect(isIpAllowed('2001:db8:abcd:12::1', allowlist)).toBe(true);
+      expect(isIpAllowed('2001:db8:abce::1', allowlist)).toBe(false);
+      expect(isIpAllowed('203.0.113.5', allowlist)).toBe(false);
+      expect(isIpAllowed('not-an-ip', ['0.0.0.0/0'])).toBe(false);
+      expect(isIpAllowed(undefined, ['0.0.0.0/0'])).toBe(false);
+    });
+
+    test('validates CIDR notation', () => {
+      expect(isValidCidr('10.0.0.0/8')).toBe(true);
+      expect(isValidCidr('::1')).toBe(true);
+      expect(isValidCidr('10.0.0.0/33')).toBe(false);
+      expect(isValidCidr('10.0.0/8')).toBe(false);
+      expect(isValidCidr('10.0.0.0/8/1')).toBe(false);
+    });
+  });
+
+  describe('TokenRateLimiter', () => {
+    test('rejects requests over the limit until the window slides past them', () => {
+      const limiter = new TokenRateLimiter();
+      const start = Date.parse('2026-10-18T12:00:00Z');
+
+      expect(limiter.consume('token-a', 2, start).allowed).toBe(true);
+      expect(limiter.consume('token-a', 2, start + 10_000)).toEqual({ allowed: true, remaining: 0, retryAfterSeconds: 0 });
+      expect(limiter.consume('token-a', 2, start + 20_000)).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 40 });
+      expect(limiter.consume('token-b', 2, start + 20_000).allowed).toBe(true);
+      expect(limiter.consume('token-a', 2, start + 60_001).allowed).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit Tests for API Token Secrets and Anomaly Detection
+ * Tests token parsing, secret verification across rotations, grace
+ * periods, IP range grouping and volume spike detection
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  formatApiToken,
+  hashTokenSecret,
+  ipRangeOf,
+  isVolumeSpike,
+  matchTokenSecret,
+  parseApiToken,
+  rotationGraceEnd
+} from '../../../server/lib/api-token-security';
+
+const NOW = new Date('2026-10-18T12:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('API Token Security', () => {
+  describe('token format', () => {
+    test('round-trips the token ID and secret', () => {
+      const token = formatApiToken('a1b2c3', 'deadbeef');
+      expect(token).toBe('em_a1b2c3_deadbeef');
+      expect(parseApiToken(token)).toEqual({ tokenId: 'a1b2c3', secret: 'deadbeef' });
+    });
+
+    test('rejects tokens with the wrong prefix or missing parts', () => {
+      expect(parseApiToken('xx_a1b2c3_deadbeef')).toBeNull();
+      expect(parseApiToken('em_a1b2c3_')).toBeNull();
+      expect(parseApiToken('em_a1b2c3')).toBeNull();
+    });
+  });
+
+  describe('matchTokenSecret', () => {
+    const rotated = {
+      secretHash: hashTokenSecret('new-secret'),
+      previousSecretHash: hashTokenSecret('old-secret'),
+      previousSecretExpiresAt: new Date(NOW.getTime() + HOUR_MS)
+    };
+
+    test('accepts the current secret and the previous one during the grace period', () => {
+      expect(matchTokenSecret('new-secret', rotated, NOW)).toBe('current');
+      expect(matchTokenSecret('old-secret', rotated, NOW)).toBe('previous');
+      expect(matchTokenSecret('guess', rotated, NOW)).toBeNull();
+    });
+
+    test('rejects the previous secret once the grace period ends', () => {
+      const later = new Date(NOW.getTime() + 2 * HOUR_MS);
+      expect(matchTokenSecret('old-secret', rotated, later)).toBeNull();
+      expect(matchTokenSecret('old-secret', { ...rotated, previousSecretExpiresAt: null }, NOW)).toBeNull();
+    });
+
+    test('rejects tokens issued before hashing until they are rotated', () => {
+      const legacy = { secretHash: null, previousSecretHash: null, previousSecretExpiresAt: null };
+      expect(matchTokenSecret('anything', legacy, NOW)).toBeNull();
+    });
+
+    test('honours no old secret during the grace period when none was stored', () => {
+      const rotatedLegacy = { ...rotated, previousSecretHash: null };
+      expect(matchTokenSecret('anything', rotatedLegacy, NOW)).toBeNull();
+      expect(matchTokenSecret('new-secret', rotatedLegacy, NOW)).toBe('current');
+    });
+  });
+
+  test('computes when the replaced secret stops working', () => {
+    expect(rotationGraceEnd('none', NOW)).toBeNull();
+    expect(rotationGraceEnd('24h', NOW)).toEqual(new Date('2026-10-19T12:00:00Z'));
+  });
+
+  describe('anomaly detection', () => {
+    test('groups addresses into /24 and /48 ranges', () => {
+      expect(ipRangeOf('203.0.113.77')).toBe('203.0.113.0/24');
+      expect(ipRangeOf('::ffff:203.0.113.77')).toBe('203.0.113.0/24');
+      expect(ipRangeOf('2001:db8:abcd:12::1')).toBe('2001:db8:abcd::/48');
+      expect(ipRangeOf('unknown')).toBeNull();
+    });
+
+    test('flags volume spikes well above the hourly baseline', () => {
+      expect(isVolumeSpike(600, 100)).toBe(true);
+      expect(isVolumeSpike(400, 100)).toBe(false);
+      expect(isVolumeSpike(50, 1)).toBe(false);
+      expect(isVolumeSpike(120, 0)).toBe(true);
+    });
+  });
+});
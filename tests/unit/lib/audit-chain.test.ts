@@ -0,0 +1,83 @@
+/**
+ * Unit Tests for the Audit Record Hash Chain
+ * Tests canonical hashing, sealing and tamper detection across pages
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  AUDIT_GENESIS_HASH,
+  canonicalJson,
+  sealAuditRecord,
+  verifyAuditChain
+} from '../../../server/lib/audit-chain';
+import type { AuditRecord } from '../../../shared/schema';
+
+// Append records the way storage does: each one sealed against the last
+const buildChain = (count: number): AuditRecord[] => {
+  const chain: AuditRecord[] = [];
+  for (let i = 1; i <= count; i++) {
+    const previousHash = chain[chain.length - 1]?.recordHash ?? AUDIT_GENESIS_HASH;
+    chain.push({
+      id: i,
+      ...sealAuditRecord({
+        recordId: `audit-${i}`,
+        eventType: 'analysis',
+        userId: 'user-1',
+        jobId: 10,
+        resumeId: i,
+        provider: 'groq',
+        model: 'llama-3.3-70b',
+        payload: { scores: { final: 70 + i }, ts: new Date(Date.UTC(2026, 9, 18, 12, i)) },
+      }, previousHash, new Date(Date.UTC(2026, 9, 18, 12, i))),
+    });
+  }
+  return chain;
+};
+
+describe('Audit Chain', () => {
+  test('canonicalJson should not depend on key order', () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, { f: 2, e: 3 }], c: null } }))
+      .toBe(canonicalJson({ a: { c: null, d: [1, { e: 3, f: 2 }] }, b: 1 }));
+    expect(canonicalJson({ a: 1, skipped: undefined })).toBe('{"a":1}');
+  });
+
+  test('sealAuditRecord should link to the previous hash and store a JSON-safe payload', () => {
+    const [first, second] = buildChain(2);
+
+    expect(first.previousHash).toBe(AUDIT_GENESIS_HASH);
+    expect(second.previousHash).toBe(first.recordHash);
+    expect(first.recordHash).toMatch(/^[a-f0-9]{64}$/);
+    expect(first.payload.ts).toBe('2026-10-18T12:01:00.000Z');
+  });
+
+  test('verifyAuditChain should accept an untouched chain, including page by page', () => {
+    const chain = buildChain(5);
+
+    expect(verifyAuditChain(chain)).toEqual({ valid: true, checked: 5, lastHash: chain[4].recordHash });
+
+    const firstPage = verifyAuditChain(chain.slice(0, 2));
+    expect(verifyAuditChain(chain.slice(2), firstPage.lastHash).valid).toBe(true);
+  });
+
+  test('verifyAuditChain should detect an edited record', () => {
+    const chain = buildChain(4);
+    chain[2] = { ...chain[2], payload: { scores: { final: 99 } } };
+
+    expect(verifyAuditChain(chain)).toMatchObject({
+      valid: false,
+      checked: 2,
+      brokenAt: { id: 3, recordId: 'audit-3', reason: 'record_hash_mismatch' }
+    });
+  });
+
+  test('verifyAuditChain should detect a removed record', () => {
+    const chain = buildChain(4);
+    chain.splice(1, 1);
+
+    expect(verifyAuditChain(chain).brokenAt).toEqual({
+      id: 3,
+      recordId: 'audit-3',
+      reason: 'previous_hash_mismatch'
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit Tests for the Batch Event Stream Hub
+ * Tests replay after Last-Event-ID, buffer limits and SSE formatting
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { BatchEventHub, formatSseEvent, type BatchEvent } from '../../../server/lib/batch-events';
+
+const batchId = 'batch_1760799600_abc123';
+
+describe('Batch Event Hub', () => {
+  test('should deliver published events to subscribers of the same batch only', () => {
+    const hub = new BatchEventHub(10, 60_000, 'boot1');
+    const received: BatchEvent[] = [];
+    const unsubscribe = hub.subscribe(batchId, event => received.push(event));
+
+    hub.publish(batchId, 'resume-parsed', { resumeId: 1 });
+    hub.publish('batch_1760799600_other', 'resume-parsed', { resumeId: 2 });
+    unsubscribe();
+    hub.publish(batchId, 'resume-parsed', { resumeId: 3 });
+
+    expect(received.map(event => event.data.resumeId)).toEqual([1]);
+    expect(hub.listenerCount(batchId)).toBe(0);
+  });
+
+  describe('getEventsSince', () => {
+    test('should replay only events after the given id', () => {
+      const hub = new BatchEventHub(10, 60_000, 'boot1');
+      const first = hub.publish(batchId, 'analysis-started', { jobId: 1 });
+      hub.publish(batchId, 'analysis-completed', { resumeId: 1 });
+      hub.publish(batchId, 'analysis-completed', { resumeId: 2 });
+
+      expect(first.id).toBe('boot1-1');
+      expect(hub.getEventsSince(batchId, first.id).map(event => event.id)).toEqual(['boot1-2', 'boot1-3']);
+      expect(hub.getEventsSince(batchId, 'boot1-3')).toEqual([]);
+    });
+
+    test('should replay everything for missing, malformed or foreign ids', () => {
+      const hub = new BatchEventHub(10, 60_000, 'boot1');
+      hub.publish(batchId, 'resume-parsed', { resumeId: 1 });
+      hub.publish(batchId, 'resume-parsed', { resumeId: 2 });
+
+      expect(hub.getEventsSince(batchId)).toHaveLength(2);
+      expect(hub.getEventsSince(batchId, 'garbage')).toHaveLength(2);
+      expect(hub.getEventsSince(batchId, 'boot0-1')).toHaveLength(2);
+    });
+
+    test('should return nothing for unknown batches', () => {
+      expect(new BatchEventHub().getEventsSince(batchId)).toEqual([]);
+    });
+  });
+
+  test('should keep only the most recent events per batch', () => {
+    const hub = new BatchEventHub(2, 60_000, 'boot1');
+    for (let resumeId = 1; resumeId <= 4; resumeId++) {
+      hub.publish(batchId, 'resume-parsed', { resumeId });
+    }
+
+    expect(hub.getEventsSince(batchId).map(event => event.id)).toEqual(['boot1-3', 'boot1-4']);
+  });
+
+  test('formatSseEvent should write id, event name and JSON data', () => {
+    const event: BatchEvent = {
+      id: 'boot1-7',
+      batchId,
+      type: 'processing-error',
+      data: { resumeId: 4, error: 'Timeout' },
+      createdAt: '2025-01-01T00:00:00.000Z'
+    };
+
+    expect(formatSseEvent(event)).toBe(
+      'id: boot1-7\nevent: processing-error\n' +
+      `data: {"resumeId":4,"error":"Timeout","batchId":"${batchId}","createdAt":"2025-01-01T00:00:00.000Z"}\n\n`
+    );
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit Tests for Batch Processor Progress Events
+ * Tests that batch parsing and matching publish events for their batch
+ */
+
+import { describe, test, expect, jest } from '@jest/globals';
+
+const analyzeResumeParallel = jest.fn(async () => ({ skills: ['TypeScript'], analyzedData: { skills: [] } }));
+const analyzeJobDescription = jest.fn(async () => ({ requiredSkills: ['TypeScript'] }));
+const analyzeMatch = jest.fn(async (_resume: unknown, _job: unknown, _tier: unknown, content: string) => {
+  if (content === 'broken') throw new Error('Provider timeout');
+  return { matchPercentage: 80, matchedSkills: ['TypeScript'], missingSkills: [] };
+});
+
+jest.unstable_mockModule('@server/lib/tiered-ai-provider', () => ({
+  analyzeResumeParallel,
+  analyzeJobDescription,
+  analyzeMatch
+}));
+
+jest.unstable_mockModule('@server/lib/embeddings', () => ({
+  generateEmbedding: jest.fn(async () => null)
+}));
+
+jest.unstable_mockModule('@server/storage', () => ({
+  storage: {
+    updateResumeAnalysis: jest.fn(async () => undefined),
+    updateResumeEmbeddings: jest.fn(async () => undefined),
+    createAnalysisResult: jest.fn(async () => ({ id: 1 }))
+  }
+}));
+
+const { processBatchResumes, processBatchMatches } = await import('../../../server/lib/batch-processor');
+const { batchEvents } = await import('../../../server/lib/batch-events');
+const { createDefaultUserTier } = await import('../../../shared/user-tiers');
+
+const userTier = createDefaultUserTier('premium');
+const resumes = [
+  { id: 1, content: 'TypeScript developer', filename: 'first.pdf' },
+  { id: 2, content: 'broken', filename: 'second.pdf' }
+];
+const jobs = [{ id: 10, title: 'Engineer', description: 'TypeScript' }];
+
+describe('Batch Processor Events', () => {
+  test('processBatchResumes should publish resume-parsed for each resume of the batch', async () => {
+    const batchId = 'batch_1760799600_parse1';
+
+    await processBatchResumes(resumes, userTier, { batchId });
+
+    const events = batchEvents.getEventsSince(batchId);
+    expect(events.map(event => event.type)).toEqual(['resume-parsed', 'resume-parsed']);
+    expect(events.map(event => event.data.resumeId).sort()).toEqual([1, 2]);
+  });
+
+  test('processBatchMatches should publish start, completion and error events for the batch', async () => {
+    const batchId = 'batch_1760799600_match1';
+
+    await processBatchMatches(resumes, jobs, userTier, { batchId });
+
+    const events = batchEvents.getEventsSince(batchId);
+    expect(events[0]).toMatchObject({ type: 'analysis-started', data: { jobIds: [10], total: 2 } });
+    expect(events.find(event => event.type === 'analysis-completed')?.data).toMatchObject({
+      resumeId: 1,
+      jobId: 10,
+      matchPercentage: 80
+    });
+    expect(events.find(event => event.type === 'processing-error')?.data).toMatchObject({
+      stage: 'analysis',
+      resumeId: 2,
+      error: 'Provider timeout'
+    });
+    expect(events.at(-1)?.data.progress).toEqual({ total: 2, finished: 2 });
+  });
+
+  test('should publish nothing without a batch id', async () => {
+    const published = jest.spyOn(batchEvents, 'publish');
+
+    await processBatchResumes(resumes.slice(0, 1), userTier);
+
+    expect(published).not.toHaveBeenCalled();
+    published.mockRestore();
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit Tests for Blind Review Redaction
+ * Tests anonymization of resume text and analyzed resume data
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  redactResumeText,
+  redactAnalyzedResumeData,
+  redactResumeForBlindReview,
+  redactCandidateName,
+  blindCandidateLabel
+} from '../../../server/lib/blind-review';
+import type { AnalyzedResumeData } from '../../../shared/schema';
+
+const resumeText = [
+  'Jane Smith',
+  'jane.smith@example.com | (555) 123-4567 | linkedin.com/in/janesmith',
+  '742 Evergreen Terrace, Springfield, IL 62704',
+  'profile photo: headshot.jpg',
+  '',
+  'Senior Engineer | Acme Corp | Jan 2019 - Present',
+  'Jane led the platform team.',
+  '',
+  'B.S. in Computer Science, Stanford University, 2012',
+].join('\n');
+
+const analyzedData: AnalyzedResumeData = {
+  name: 'Jane Smith',
+  skills: ['TypeScript', 'React'],
+  experience: 'Jane Smith has 6 years of experience',
+  education: ['B.S. Computer Science, Stanford University, 2012'],
+  summary: 'Jane is a senior engineer',
+  keyStrengths: ['Mentoring'],
+  contactInfo: { email: 'jane.smith@example.com', phone: '555-123-4567' },
+  structured: {
+    workHistory: [],
+    totalExperienceMonths: 72,
+    employmentGaps: [],
+    degrees: [{ level: 'bachelor', field: 'Computer Science', institution: 'Stanford University', graduationYear: 2012 }],
+    certifications: [],
+  },
+};
+
+describe('Blind Review Redaction', () => {
+  describe('redactResumeText', () => {
+    test('should remove contact details, address and photo metadata', () => {
+      const { text, counts } = redactResumeText(resumeText);
+
+      expect(text).not.toMatch(/jane\.smith@example\.com/);
+      expect(text).not.toMatch(/123-4567/);
+      expect(text).not.toMatch(/linkedin\.com/);
+      expect(text).not.toMatch(/Evergreen/);
+      expect(text).not.toMatch(/headshot/);
+      expect(counts).toMatchObject({ email: 1, phone: 1, url: 1, photo_metadata: 1 });
+    });
+
+    test('should remove the name guessed from the header line', () => {
+      const { text, counts } = redactResumeText(resumeText);
+
+      expect(text).not.toMatch(/Jane|Smith/);
+      expect(text.split('\n')[0]).toBe('[CANDIDATE]');
+      expect(counts.name).toBeGreaterThanOrEqual(2);
+    });
+
+    test('should redact graduation years and institutions but keep employment dates', () => {
+      const { text } = redactResumeText(resumeText);
+
+      expect(text).toContain('Senior Engineer | Acme Corp | Jan 2019 - Present');
+      expect(text).not.toMatch(/Stanford/);
+      expect(text).not.toMatch(/2012/);
+      expect(text).toContain('Computer Science');
+    });
+
+    test('should skip name redaction when null is passed', () => {
+      const { text } = redactResumeText('Will Turner\nI will deliver results', null);
+      expect(text).toContain('Will Turner');
+    });
+
+    test('should not redact ordinary words that share a name part', () => {
+      const { text } = redactResumeText('Will Turner\nI will deliver results');
+      expect(text).toBe('[CANDIDATE]\nI will deliver results');
+    });
+  });
+
+  describe('redactAnalyzedResumeData', () => {
+    test('should replace the name, drop contact info and scrub text fields', () => {
+      const { data, counts } = redactAnalyzedResumeData(analyzedData);
+
+      expect(data.name).toBe('[CANDIDATE]');
+      expect(data.contactInfo).toBeUndefined();
+      expect(data.experience).not.toMatch(/Jane|Smith/);
+      expect(data.summary).not.toMatch(/Jane/);
+      expect(data.education[0]).not.toMatch(/Stanford|2012/);
+      expect(data.skills).toEqual(['TypeScript', 'React']);
+      expect(counts).toMatchObject({ email: 1, phone: 1 });
+    });
+
+    test('should strip institution and graduation year from structured degrees', () => {
+      const { data } = redactAnalyzedResumeData(analyzedData);
+
+      expect(data.structured?.degrees[0]).toEqual({ level: 'bachelor', field: 'Computer Science' });
+      expect(data.structured?.totalExperienceMonths).toBe(72);
+    });
+  });
+
+  describe('redactResumeForBlindReview', () => {
+    test('should label the candidate and summarize redactions', () => {
+      const blind = redactResumeForBlindReview({ id: 42, content: resumeText, analyzedData });
+
+      expect(blind.candidateLabel).toBe(blindCandidateLabel(42));
+      expect(blind.candidateLabel).toBe('Candidate #42');
+      expect(blind.analyzedData?.name).toBe('[CANDIDATE]');
+      expect(blind.redactions.categories).toEqual([...blind.redactions.categories].sort());
+      expect(blind.redactions.total).toBe(
+        Object.values(blind.redactions.counts).reduce((sum, count) => sum + (count ?? 0), 0)
+      );
+    });
+
+    test('should handle resumes without content or analysis', () => {
+      const blind = redactResumeForBlindReview({ id: 1, content: null, analyzedData: null });
+
+      expect(blind.content).toBe('');
+      expect(blind.analyzedData).toBeNull();
+      expect(blind.redactions.total).toBe(0);
+    });
+  });
+
+  test('redactCandidateName should scrub names from generated text', () => {
+    expect(redactCandidateName('Jane Smith shows strong leadership; Smith mentors juniors', 'Jane Smith'))
+      .toBe('[CANDIDATE] shows strong leadership; [CANDIDATE] mentors juniors');
+    expect(redactCandidateName('Strong leadership', undefined)).toBe('Strong leadership');
+  });
+});
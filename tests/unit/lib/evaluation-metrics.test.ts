@@ -0,0 +1,55 @@
+/**
+ * Unit Tests for Evaluation Metrics
+ * Tests rank correlation, NDCG@k and calibration error on hand-computed cases
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  expectedCalibrationError,
+  kendallTau,
+  ndcgAtK,
+  spearmanCorrelation
+} from '../../../server/lib/evaluation-metrics';
+
+const points = (pairs: Array<[number, number]>) =>
+  pairs.map(([predicted, target]) => ({ predicted, target }));
+
+describe('Evaluation Metrics', () => {
+  test('rank correlations should be 1 for the same order and -1 for the reverse', () => {
+    const agreeing = points([[90, 1], [70, 0.75], [50, 0.5], [10, 0]]);
+    const reversed = points([[10, 1], [50, 0.75], [70, 0.5], [90, 0]]);
+
+    expect(spearmanCorrelation(agreeing)).toBeCloseTo(1);
+    expect(kendallTau(agreeing)).toBeCloseTo(1);
+    expect(spearmanCorrelation(reversed)).toBeCloseTo(-1);
+    expect(kendallTau(reversed)).toBeCloseTo(-1);
+  });
+
+  test('should handle tied binary labels and undefined cases', () => {
+    // Pairs across labels: (80,1)>(60,0), (80,1)>(40,0), (50,1)<(60,0), (50,1)>(40,0)
+    const labeled = points([[80, 1], [50, 1], [60, 0], [40, 0]]);
+
+    expect(kendallTau(labeled)).toBeCloseTo(2 / Math.sqrt(6 * 4));
+    expect(spearmanCorrelation(points([[50, 1]]))).toBeNull();
+    expect(spearmanCorrelation(points([[50, 1], [50, 0]]))).toBeNull();
+  });
+
+  test('NDCG@k should reward putting relevant candidates first', () => {
+    const ideal = { points: points([[90, 1], [50, 0]]) };
+    const swapped = { points: points([[50, 1], [90, 0]]) };
+    const noRelevant = { points: points([[90, 0], [50, 0]]) };
+
+    expect(ndcgAtK([ideal], 5)).toBeCloseTo(1);
+    expect(ndcgAtK([swapped], 5)).toBeCloseTo(1 / Math.log2(3));
+    expect(ndcgAtK([ideal, swapped, noRelevant], 5)).toBeCloseTo((1 + 1 / Math.log2(3)) / 2);
+    expect(ndcgAtK([swapped], 1)).toBe(0);
+    expect(ndcgAtK([noRelevant], 5)).toBeNull();
+  });
+
+  test('calibration error should compare scores with observed outcomes per bin', () => {
+    expect(expectedCalibrationError(points([[95, 1], [5, 0]]))).toBeCloseTo(0.05);
+    // One bin at 0.8 with half the candidates good
+    expect(expectedCalibrationError(points([[80, 1], [80, 0]]))).toBeCloseTo(0.3);
+    expect(expectedCalibrationError([])).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Unit Tests for Analysis Rating Helpers
+ * Tests missed-skill normalization and the per-provider calibration summary
+ */
+
+import { describe, test, expect, jest } from '@jest/globals';
+
+jest.mock('../../../server/lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+import { normalizeMissedSkills, summarizeAnalysisRatings } from '../../../server/services/feedback-service';
+import type { AnalysisRating } from '../../../shared/schema';
+
+const now = new Date('2026-10-18T12:00:00Z');
+
+let nextId = 1;
+const rating = (overrides: Partial<AnalysisRating>): AnalysisRating => ({
+  id: nextId++,
+  analysisResultId: nextId,
+  userId: 'user-1',
+  verdict: null,
+  missedSkills: [],
+  comment: null,
+  matchPercentage: null,
+  aiProvider: 'groq',
+  modelVersion: 'llama-3.3-70b',
+  createdAt: now,
+  updatedAt: now,
+  ...overrides,
+});
+
+describe('Analysis Ratings', () => {
+  test('normalizes missed skills, keeping the first spelling of repeats', () => {
+    expect(normalizeMissedSkills([' Kubernetes ', 'kubernetes', '', 'Go', '  '])).toEqual(['Kubernetes', 'Go']);
+  });
+
+  test('summarizes verdicts, bias and mean score per provider and model', () => {
+    const summary = summarizeAnalysisRatings([
+      rating({ verdict: 'score_too_high', matchPercentage: 90 }),
+      rating({ verdict: 'score_too_high', matchPercentage: 80 }),
+      rating({ verdict: 'accurate', matchPercentage: 70 }),
+      rating({ verdict: null, missedSkills: ['Go'] }),
+      rating({ aiProvider: 'openai', modelVersion: 'gpt-4o', verdict: 'score_too_low', matchPercentage: 40 }),
+    ]);
+
+    expect(summary).toHaveLength(2);
+    expect(summary[0]).toMatchObject({
+      aiProvider: 'groq',
+      modelVersion: 'llama-3.3-70b',
+      ratingCount: 4,
+      verdicts: { accurate: 1, score_too_high: 2, score_too_low: 0 },
+      scoreBias: 0.67,
+      averageMatchPercentage: 80,
+    });
+    expect(summary[1]).toMatchObject({ aiProvider: 'openai', ratingCount: 1, scoreBias: -1 });
+  });
+
+  test('ranks missed skills case-insensitively and groups unknown providers', () => {
+    const [summary] = summarizeAnalysisRatings([
+      rating({ aiProvider: null, modelVersion: null, missedSkills: ['Kubernetes', 'Go'] }),
+      rating({ aiProvider: null, modelVersion: null, missedSkills: ['kubernetes'] }),
+    ]);
+
+    expect(summary.aiProvider).toBe('unknown');
+    expect(summary.scoreBias).toBeNull();
+    expect(summary.averageMatchPercentage).toBeNull();
+    expect(summary.missedSkills).toEqual([
+      { skill: 'Kubernetes', count: 2 },
+      { skill: 'Go', count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Unit Tests for Interview Scorecard Helpers
+ * Tests rating validation, per-question and per-skill aggregation,
+ * disagreement detection and the blended overall assessment
+ */
+
+import { describe, test, expect, jest } from '@jest/globals';
+
+jest.mock('../../../server/lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+import {
+  combineAssessment,
+  summarizeScorecards,
+  toInterviewScore,
+  validateScorecardRatings
+} from '../../../server/services/interview-scorecard-service';
+import type { InterviewQuestionData, InterviewQuestionRating, InterviewScorecard } from '../../../shared/schema';
+
+const now = new Date('2026-10-18T12:00:00Z');
+
+const questions: InterviewQuestionData[] = [
+  {
+    question: 'How would you cache an expensive API call?',
+    category: 'technical',
+    difficulty: 'medium',
+    expectedAnswer: 'Discusses TTLs and invalidation',
+    skillsAssessed: ['Caching', 'Node.js'],
+    evaluationCriteria: ['Mentions invalidation', 'Considers memory limits']
+  },
+  {
+    question: 'Tell me about a production incident you owned.',
+    category: 'behavioral',
+    difficulty: 'medium',
+    expectedAnswer: 'Clear ownership and follow-up',
+    skillsAssessed: ['Ownership']
+  }
+];
+
+let nextId = 1;
+const scorecard = (
+  interviewerId: string,
+  ratings: InterviewQuestionRating[],
+  recommendation: InterviewScorecard['recommendation'] = null
+): InterviewScorecard => ({
+  id: nextId++,
+  interviewQuestionsId: 3,
+  resumeId: 7,
+  jobDescriptionId: 42,
+  interviewerId,
+  interviewerName: interviewerId,
+  ratings,
+  recommendation,
+  notes: null,
+  createdAt: now,
+  updatedAt: now
+});
+
+describe('Interview Scorecard Helpers', () => {
+  describe('validateScorecardRatings', () => {
+    test('accepts ratings for existing questions and their criteria', () => {
+      expect(validateScorecardRatings(questions, [
+        { questionIndex: 0, rating: 4, criteriaMet: ['Mentions invalidation'] },
+        { questionIndex: 1, rating: 3 }
+      ])).toBeNull();
+    });
+
+    test('rejects unknown questions, duplicates and out-of-range ratings', () => {
+      expect(validateScorecardRatings(questions, [])).toMatch(/at least one/);
+      expect(validateScorecardRatings(questions, [{ questionIndex: 2, rating: 3 }])).toMatch(/does not exist/);
+      expect(validateScorecardRatings(questions, [
+        { questionIndex: 0, rating: 3 },
+        { questionIndex: 0, rating: 4 }
+      ])).toMatch(/more than once/);
+      expect(validateScorecardRatings(questions, [{ questionIndex: 0, rating: 6 }])).toMatch(/1 to 5/);
+    });
+
+    test('rejects criteria the question does not define', () => {
+      expect(validateScorecardRatings(questions, [
+        { questionIndex: 1, rating: 3, criteriaMet: ['Mentions invalidation'] }
+      ])).toMatch(/not an evaluation criterion/);
+    });
+  });
+
+  describe('summarizeScorecards', () => {
+    test('averages ratings per question and counts criteria met', () => {
+      const summary = summarizeScorecards(3, questions, [
+        scorecard('alice', [{ questionIndex: 0, rating: 4, criteriaMet: ['Mentions invalidation'] }]),
+        scorecard('bob', [{ questionIndex: 0, rating: 5, criteriaMet: ['Mentions invalidation'] }])
+      ], 80);
+
+      expect(summary.interviewerCount).toBe(2);
+      expect(summary.questions[0]).toMatchObject({
+        averageRating: 4.5,
+        ratingCount: 2,
+        disagreement: false,
+        criteriaMet: { 'Mentions invalidation': 2, 'Considers memory limits': 0 }
+      });
+      expect(summary.questions[1]).toMatchObject({ averageRating: null, ratingCount: 0 });
+    });
+
+    test('flags questions and skills where interviewers are 2+ points apart', () => {
+      const summary = summarizeScorecards(3, questions, [
+        scorecard('alice', [{ questionIndex: 0, rating: 2 }, { questionIndex: 1, rating: 4 }]),
+        scorecard('bob', [{ questionIndex: 0, rating: 5 }, { questionIndex: 1, rating: 4 }])
+      ], null);
+
+      expect(summary.disagreements).toEqual([
+        { questionIndex: 0, question: questions[0].question, lowestRating: 2, highestRating: 5 }
+      ]);
+      expect(summary.skills.find(skill => skill.skill === 'Caching')).toMatchObject({ averageRating: 3.5, disagreement: true });
+      expect(summary.skills.find(skill => skill.skill === 'Ownership')).toMatchObject({ averageRating: 4, disagreement: false });
+    });
+
+    test('detects split hiring recommendations', () => {
+      const split = summarizeScorecards(3, questions, [
+        scorecard('alice', [{ questionIndex: 0, rating: 4 }], 'yes'),
+        scorecard('bob', [{ questionIndex: 0, rating: 3 }], 'no')
+      ], null);
+      const agreed = summarizeScorecards(3, questions, [
+        scorecard('alice', [{ questionIndex: 0, rating: 4 }], 'yes'),
+        scorecard('bob', [{ questionIndex: 0, rating: 5 }], 'strong_yes')
+      ], null);
+
+      expect(split.recommendationSplit).toBe(true);
+      expect(split.recommendations).toMatchObject({ yes: 1, no: 1, strong_yes: 0 });
+      expect(agreed.recommendationSplit).toBe(false);
+    });
+
+    test('blends the interview score into the overall assessment', () => {
+      const summary = summarizeScorecards(3, questions, [
+        scorecard('alice', [{ questionIndex: 0, rating: 5 }, { questionIndex: 1, rating: 4 }])
+      ], 60);
+
+      expect(summary.averageRating).toBe(4.5);
+      expect(summary.interviewScore).toBe(88);
+      expect(summary.overallScore).toBe(74);
+    });
+
+    test('falls back to the resume match without scorecards', () => {
+      const summary = summarizeScorecards(3, questions, [], 72);
+
+      expect(summary).toMatchObject({ interviewerCount: 0, averageRating: null, interviewScore: null, overallScore: 72 });
+    });
+  });
+
+  describe('scoring', () => {
+    test('maps the 1-5 scale to 0-100', () => {
+      expect(toInterviewScore(1)).toBe(0);
+      expect(toInterviewScore(3)).toBe(50);
+      expect(toInterviewScore(5)).toBe(100);
+    });
+
+    test('uses whichever score exists when the other is missing', () => {
+      expect(combineAssessment(null, 40)).toBe(40);
+      expect(combineAssessment(90, null)).toBe(90);
+      expect(combineAssessment(null, null)).toBeNull();
+    });
+  });
+});
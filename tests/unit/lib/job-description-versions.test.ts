@@ -0,0 +1,108 @@
+/**
+ * Unit Tests for Job Description Versioning
+ * Tests the line diff between versions, detecting content changes, and
+ * finding the candidates whose analyses are stale
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  diffJobDescriptions,
+  diffLines,
+  findStaleResumeIds,
+  hasJobContentChanged,
+  isAnalysisStale
+} from '../../../server/lib/job-description-versions';
+import type { AnalysisResult } from '../../../shared/schema';
+
+const DESCRIPTION = `We are hiring a backend engineer.
+You will build payment APIs.
+Experience with PostgreSQL is required.
+Remote friendly.`;
+
+const job = {
+  title: 'Backend Engineer',
+  description: DESCRIPTION,
+  requirements: ['Node.js', 'PostgreSQL']
+};
+
+const analysis = (id: number, resumeId: number, fields: Partial<AnalysisResult> = {}): AnalysisResult =>
+  ({
+    id,
+    resumeId,
+    jobDescriptionId: 42,
+    jobVersion: 1,
+    staleAt: null,
+    createdAt: new Date(`2026-10-${10 + id}T12:00:00Z`),
+    ...fields
+  } as AnalysisResult);
+
+describe('Job Description Versioning', () => {
+  describe('diffLines', () => {
+    test('reports a replaced line as a removal and an addition', () => {
+      const edited = DESCRIPTION.replace('PostgreSQL is required', 'PostgreSQL or MySQL is required');
+
+      expect(diffLines(DESCRIPTION, edited)).toEqual([
+        { op: 'remove', line: 3, text: 'Experience with PostgreSQL is required.' },
+        { op: 'add', line: 3, text: 'Experience with PostgreSQL or MySQL is required.' }
+      ]);
+    });
+
+    test('numbers additions in the new text and removals in the old text', () => {
+      const edited = `We are hiring a backend engineer.
+On-call one week in six.
+You will build payment APIs.
+Experience with PostgreSQL is required.`;
+
+      expect(diffLines(DESCRIPTION, edited)).toEqual([
+        { op: 'add', line: 2, text: 'On-call one week in six.' },
+        { op: 'remove', line: 4, text: 'Remote friendly.' }
+      ]);
+    });
+
+    test('finds no changes in identical text, regardless of line endings', () => {
+      expect(diffLines(DESCRIPTION, DESCRIPTION.replace(/\n/g, '\r\n'))).toEqual([]);
+    });
+  });
+
+  describe('diffJobDescriptions', () => {
+    test('records title, description and requirement changes', () => {
+      const diff = diffJobDescriptions(job, {
+        title: 'Senior Backend Engineer',
+        description: DESCRIPTION,
+        requirements: ['Node.js', 'Kubernetes']
+      });
+
+      expect(diff).toEqual({
+        title: { from: 'Backend Engineer', to: 'Senior Backend Engineer' },
+        description: [],
+        requirements: { added: ['Kubernetes'], removed: ['PostgreSQL'] }
+      });
+    });
+
+    test('does not treat reordered requirements as a change', () => {
+      expect(hasJobContentChanged(job, { ...job, requirements: ['PostgreSQL', 'Node.js'] })).toBe(false);
+      expect(hasJobContentChanged(job, { ...job, requirements: null })).toBe(true);
+      expect(hasJobContentChanged(job, { ...job, description: `${DESCRIPTION}\nVisa sponsorship available.` })).toBe(true);
+    });
+  });
+
+  describe('stale analyses', () => {
+    test('are marked stale or ran against an older version', () => {
+      expect(isAnalysisStale(analysis(1, 7, { jobVersion: 2 }), { version: 2 })).toBe(false);
+      expect(isAnalysisStale(analysis(1, 7, { jobVersion: 1 }), { version: 2 })).toBe(true);
+      expect(isAnalysisStale(analysis(1, 7, { jobVersion: 2, staleAt: new Date() }), { version: 2 })).toBe(true);
+      expect(isAnalysisStale(analysis(1, 7, { jobVersion: null }), { version: 1 })).toBe(false);
+    });
+
+    test('only count when the newest analysis of the resume is stale', () => {
+      const staleAt = new Date('2026-10-15T12:00:00Z');
+      const results = [
+        analysis(1, 7, { staleAt }),
+        analysis(2, 8, { staleAt }),
+        analysis(3, 7, { jobVersion: 2 })
+      ];
+
+      expect(findStaleResumeIds(results, { version: 2 })).toEqual([8]);
+    });
+  });
+});
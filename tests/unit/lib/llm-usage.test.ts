@@ -0,0 +1,197 @@
+/**
+ * Unit Tests for LLM Cost Accounting
+ * Tests completion pricing, provider cost ordering, usage summaries, usage
+ * context propagation and organization budgets
+ */
+
+import { describe, test, expect, jest } from '@jest/globals';
+import type { LlmUsageRecord } from '../../../shared/schema';
+
+const storage = {
+  getJobDescription: jest.fn(async (id: number) => ({ id, organizationId: id === 70 ? 3 : null })),
+  getLlmUsageRecords: jest.fn(async () => [] as LlmUsageRecord[]),
+  getLlmBudget: jest.fn(async () => undefined),
+  getOrganizationLlmUsageRecords: jest.fn(async () => [] as LlmUsageRecord[]),
+  getOrganizationLlmBudget: jest.fn(async (): Promise<{ monthlyLimitUsd: number } | undefined> => undefined),
+  recordLlmUsage: jest.fn(async (record: Partial<LlmUsageRecord>) => record)
+};
+
+jest.unstable_mockModule('@server/storage', () => ({
+  getStorage: () => storage
+}));
+
+const {
+  getLlmUsageContext,
+  getTokenPrice,
+  isOverLlmBudget,
+  priceCompletion,
+  providersByCost,
+  recordLlmUsage,
+  startOfMonth,
+  summarizeLlmUsage,
+  summarizeOrganizationLlmUsage,
+  withLlmUsageContext
+} = await import('../../../server/lib/llm-usage');
+
+let nextId = 1;
+const usageRecord = (overrides: Partial<LlmUsageRecord>): LlmUsageRecord => ({
+  id: nextId++,
+  userId: 'user-1',
+  organizationId: null,
+  jobId: null,
+  provider: 'groq',
+  model: 'llama-3.3-70b-versatile',
+  operation: 'match',
+  promptTokens: 1000,
+  completionTokens: 500,
+  costUsd: 0.001,
+  createdAt: new Date('2026-10-02T09:00:00Z'),
+  ...overrides
+});
+
+describe('LLM Usage', () => {
+  describe('pricing', () => {
+    test('prices prompt and completion tokens per million', () => {
+      const cost = priceCompletion('anthropic', 'claude-3-7-sonnet-20250219', {
+        promptTokens: 1_000_000,
+        completionTokens: 100_000
+      });
+
+      expect(cost).toBeCloseTo(3 + 1.5, 6);
+    });
+
+    test('falls back to the provider price for unknown models', () => {
+      expect(getTokenPrice('openai', 'gpt-4o-2099-preview')).toEqual(getTokenPrice('openai', 'gpt-4o'));
+    });
+
+    test('self-hosted completions are free', () => {
+      expect(priceCompletion('local', 'llama3.1:8b', { promptTokens: 5000, completionTokens: 5000 })).toBe(0);
+    });
+
+    test('orders providers from cheapest to most expensive', () => {
+      expect(providersByCost()).toEqual(['local', 'groq', 'openai', 'anthropic']);
+    });
+  });
+
+  describe('summarizeLlmUsage', () => {
+    const periodStart = new Date('2026-10-01T00:00:00Z');
+
+    test('aggregates totals per provider, job and day', () => {
+      const summary = summarizeLlmUsage([
+        usageRecord({ jobId: 7, costUsd: 0.002 }),
+        usageRecord({ jobId: 7, provider: 'openai', model: 'gpt-4o', costUsd: 0.01 }),
+        usageRecord({ jobId: 9, createdAt: new Date('2026-10-03T12:00:00Z'), costUsd: 0.004 }),
+        usageRecord({ operation: 'resume', costUsd: 0.001 })
+      ], periodStart, null);
+
+      expect(summary.calls).toBe(4);
+      expect(summary.costUsd).toBeCloseTo(0.017, 6);
+      expect(summary.promptTokens).toBe(4000);
+      expect(summary.byProvider.map(p => p.provider)).toEqual(['openai', 'groq']);
+      expect(summary.byJob).toEqual([
+        expect.objectContaining({ jobId: 7, calls: 2 }),
+        expect.objectContaining({ jobId: 9, calls: 1 })
+      ]);
+      expect(summary.byDay.map(d => [d.date, d.calls])).toEqual([['2026-10-02', 3], ['2026-10-03', 1]]);
+    });
+
+    test('flags the budget once spend reaches it', () => {
+      const records = [usageRecord({ costUsd: 3 }), usageRecord({ costUsd: 2 })];
+
+      expect(summarizeLlmUsage(records, periodStart, 10).budgetExceeded).toBe(false);
+      expect(summarizeLlmUsage(records, periodStart, 5).budgetExceeded).toBe(true);
+      expect(summarizeLlmUsage(records, periodStart, null).budgetExceeded).toBe(false);
+    });
+
+    test('returns zero totals without records', () => {
+      const summary = summarizeLlmUsage([], periodStart, 25);
+
+      expect(summary).toMatchObject({ costUsd: 0, calls: 0, budgetUsd: 25, byProvider: [], byJob: [], byDay: [] });
+    });
+  });
+
+  describe('usage context', () => {
+    test('nested contexts inherit the fields they do not set', async () => {
+      const seen = await withLlmUsageContext({ jobId: 3 }, () =>
+        withLlmUsageContext({ jobId: 4 }, async () => getLlmUsageContext())
+      );
+
+      expect(seen).toEqual({ jobId: 4 });
+      expect(getLlmUsageContext()).toBeUndefined();
+    });
+
+    test('completions outside a user context are not recorded', () => {
+      expect(() => recordLlmUsage({
+        provider: 'groq',
+        model: 'llama-3.3-70b-versatile',
+        operation: 'resume',
+        usage: { promptTokens: 10, completionTokens: 10 }
+      })).not.toThrow();
+    });
+
+    test('the budget period starts at the beginning of the UTC month', () => {
+      expect(startOfMonth(new Date('2026-10-18T23:30:00Z')).toISOString()).toBe('2026-10-01T00:00:00.000Z');
+    });
+  });
+
+  describe('organizations', () => {
+    const anthropicMillion = {
+      provider: 'anthropic' as const,
+      model: 'claude-3-7-sonnet-20250219',
+      operation: 'match',
+      usage: { promptTokens: 1_000_000, completionTokens: 0 }
+    };
+
+    test('records usage against the organization the job is shared with', async () => {
+      const seen = await withLlmUsageContext({ userId: 'org-user-1', jobId: 70 }, async () => {
+        recordLlmUsage(anthropicMillion);
+        return getLlmUsageContext();
+      });
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(seen).toMatchObject({ userId: 'org-user-1', jobId: 70, organizationId: 3 });
+      expect(storage.recordLlmUsage).toHaveBeenLastCalledWith(
+        expect.objectContaining({ userId: 'org-user-1', organizationId: 3, jobId: 70 })
+      );
+    });
+
+    test('a nested context for a personal job drops the organization', async () => {
+      const seen = await withLlmUsageContext({ userId: 'org-user-2', jobId: 70 }, () =>
+        withLlmUsageContext({ jobId: 71 }, async () => getLlmUsageContext())
+      );
+
+      expect(seen?.organizationId).toBeUndefined();
+    });
+
+    test('routes members to cheaper providers once the organization budget is spent', async () => {
+      storage.getOrganizationLlmUsageRecords.mockResolvedValueOnce([usageRecord({ organizationId: 5, costUsd: 2 })]);
+      storage.getOrganizationLlmBudget.mockResolvedValueOnce({ monthlyLimitUsd: 4 });
+
+      const [before, after] = await withLlmUsageContext({ userId: 'org-user-3', organizationId: 5 }, async () => {
+        const overBefore = isOverLlmBudget('org-user-3', 5);
+        recordLlmUsage(anthropicMillion);
+        return [overBefore, isOverLlmBudget('org-user-3', 5)];
+      });
+
+      expect(before).toBe(false);
+      expect(after).toBe(true);
+      // The member's own budget is untouched
+      expect(isOverLlmBudget('org-user-3')).toBe(false);
+    });
+
+    test('summaries add totals per member', () => {
+      const summary = summarizeOrganizationLlmUsage([
+        usageRecord({ userId: 'user-1', costUsd: 0.002 }),
+        usageRecord({ userId: 'user-2', costUsd: 0.01 }),
+        usageRecord({ userId: 'user-2', costUsd: 0.004 })
+      ], new Date('2026-10-01T00:00:00Z'), 1);
+
+      expect(summary.costUsd).toBeCloseTo(0.016, 6);
+      expect(summary.budgetUsd).toBe(1);
+      expect(summary.byUser).toEqual([
+        expect.objectContaining({ userId: 'user-2', calls: 2 }),
+        expect.objectContaining({ userId: 'user-1', calls: 1 })
+      ]);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Unit Tests for Owner-Configured Requirement Gates
+ * Tests must-have score caps, config precedence and custom weight resolution
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  applyMonotonicityGates,
+  extractRequirementGates,
+  MUST_HAVE_SCORE_CAP
+} from '../../../server/lib/monotonicity-gates';
+import { resolveScoringWeights, UNIFIED_SCORING_WEIGHTS } from '../../../server/lib/unified-scoring-config';
+import type { JobScoringConfig } from '../../../shared/schema';
+
+const candidate = {
+  skills: ['TypeScript', 'Project Planning'],
+  education: ['B.S. Computer Science'],
+  certifications: [{ name: 'AWS Solutions Architect' }],
+  totalExperience: 6,
+  resumeText: 'Delivered projects on time. Certified Scrum Master (CSM) since 2019.'
+};
+
+const scoringConfig: JobScoringConfig = {
+  skillRequirements: [
+    { skill: 'PMP', importance: 'must-have' },
+    { skill: 'Jira', importance: 'nice-to-have' }
+  ]
+};
+
+describe('Requirement Gates', () => {
+  describe('applyMonotonicityGates', () => {
+    test('should cap both scores when a must-have requirement is missing', () => {
+      const result = applyMonotonicityGates(82, 88, candidate, {
+        requiredSkills: [],
+        mustHaveSkills: ['PMP']
+      });
+
+      expect(result.adjustedMLScore).toBe(MUST_HAVE_SCORE_CAP);
+      expect(result.adjustedLLMScore).toBe(MUST_HAVE_SCORE_CAP);
+      expect(result.missingMustHaves).toEqual(['PMP']);
+      expect(result.violations).toContain('Missing must-have requirements: PMP');
+    });
+
+    test('should accept must-haves found in certifications or the resume text', () => {
+      const result = applyMonotonicityGates(82, 88, candidate, {
+        requiredSkills: [],
+        mustHaveSkills: ['AWS Solutions Architect', 'CSM']
+      });
+
+      expect(result).toEqual({ adjustedMLScore: 82, adjustedLLMScore: 88, violations: [], missingMustHaves: [] });
+    });
+
+    test('should not match a must-have inside a longer word of the resume text', () => {
+      const result = applyMonotonicityGates(82, 88, candidate, {
+        requiredSkills: [],
+        mustHaveSkills: ['CS']
+      });
+
+      expect(result.missingMustHaves).toEqual(['CS']);
+    });
+
+    test('should not accept a must-have that only overlaps part of a candidate term', () => {
+      const result = applyMonotonicityGates(82, 88, {
+        skills: ['MongoDB', 'JavaScript', 'PostgreSQL', 'React'],
+        certifications: ['AWS']
+      }, {
+        requiredSkills: [],
+        mustHaveSkills: ['Go', 'Java', 'SQL', 'React Native', 'AWS Certified Solutions Architect']
+      });
+
+      expect(result.missingMustHaves).toEqual(['Go', 'Java', 'SQL', 'React Native', 'AWS Certified Solutions Architect']);
+      expect(result.adjustedMLScore).toBe(MUST_HAVE_SCORE_CAP);
+    });
+
+    test('should penalize candidates below the configured minimum years', () => {
+      const result = applyMonotonicityGates(80, 80, { ...candidate, totalExperience: 4 }, {
+        requiredSkills: [],
+        minimumYearsExperience: 8
+      });
+
+      expect(result.adjustedMLScore).toBe(56);
+      expect(result.missingMustHaves).toEqual([]);
+    });
+  });
+
+  describe('extractRequirementGates', () => {
+    test('should keep inferring requirements when the job has no config', () => {
+      const gates = extractRequirementGates({ requiredSkills: ['PMP', 'Jira', 'Budgeting'] });
+
+      expect(gates.requiredSkills).toEqual(['PMP', 'Jira', 'Budgeting']);
+      expect(gates.mustHaveSkills).toBeUndefined();
+    });
+
+    test('should let configured skills override the inferred ones', () => {
+      const gates = extractRequirementGates(
+        { requiredSkills: ['pmp', 'Jira', 'Budgeting'], minimumExperience: 3 },
+        { ...scoringConfig, minimumYearsExperience: 5 }
+      );
+
+      expect(gates.mustHaveSkills).toEqual(['PMP']);
+      expect(gates.niceToHaveSkills).toEqual(['Jira']);
+      expect(gates.requiredSkills).toEqual(['Budgeting']);
+      expect(gates.minimumYearsExperience).toBe(5);
+    });
+  });
+
+  describe('resolveScoringWeights', () => {
+    test('should normalize relative weights to sum to 1', () => {
+      expect(resolveScoringWeights({ skills: 60, experience: 25, education: 10, semantic: 5 })).toEqual({
+        skills: 0.6,
+        experience: 0.25,
+        education: 0.1,
+        semantic: 0.05
+      });
+    });
+
+    test('should fall back to the defaults for missing or unusable weights', () => {
+      expect(resolveScoringWeights(null)).toEqual(UNIFIED_SCORING_WEIGHTS);
+      expect(resolveScoringWeights({ skills: 0, experience: 0, education: 0, semantic: 0 })).toEqual(UNIFIED_SCORING_WEIGHTS);
+      expect(resolveScoringWeights({ skills: -1, experience: 1, education: 1, semantic: 1 })).toEqual(UNIFIED_SCORING_WEIGHTS);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Unit Tests for Organization Helpers
+ * Tests role permissions, invitation tokens and validity, and last-owner protection
+ */
+
+import { describe, test, expect, jest } from '@jest/globals';
+
+jest.mock('../../../server/lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+import {
+  generateInvitationToken,
+  getInvitationProblem,
+  hashInvitationToken,
+  toInvitationView,
+  wouldLeaveWithoutOwner
+} from '../../../server/services/organization-service';
+import { hasOrganizationPermission } from '../../../shared/organization-roles';
+import type { OrganizationInvitation, OrganizationMember } from '../../../shared/schema';
+
+const now = new Date('2026-10-18T12:00:00Z');
+
+const invitation = (overrides: Partial<OrganizationInvitation> = {}): OrganizationInvitation => ({
+  id: 1,
+  organizationId: 7,
+  email: 'manager@acme.com',
+  role: 'hiring_manager',
+  tokenHash: 'a'.repeat(64),
+  invitedBy: 'owner-1',
+  status: 'pending',
+  expiresAt: new Date('2026-10-25T12:00:00Z'),
+  acceptedBy: null,
+  acceptedAt: null,
+  createdAt: now,
+  ...overrides
+});
+
+const members = (...roles: Array<[string, OrganizationMember['role']]>) =>
+  roles.map(([userId, role]) => ({ userId, role }));
+
+describe('Organization Helpers', () => {
+  describe('role permissions', () => {
+    test('only owners manage members', () => {
+      expect(hasOrganizationPermission('owner', 'manage_members')).toBe(true);
+      expect(hasOrganizationPermission('recruiter', 'manage_members')).toBe(false);
+    });
+
+    test('hiring managers can analyze but not edit shared items', () => {
+      expect(hasOrganizationPermission('hiring_manager', 'analyze')).toBe(true);
+      expect(hasOrganizationPermission('hiring_manager', 'write')).toBe(false);
+    });
+
+    test('viewers can only read', () => {
+      expect(hasOrganizationPermission('viewer', 'read')).toBe(true);
+      expect(hasOrganizationPermission('viewer', 'analyze')).toBe(false);
+    });
+  });
+
+  describe('invitation tokens', () => {
+    test('generates distinct prefixed tokens', () => {
+      const first = generateInvitationToken();
+      expect(first).toMatch(/^inv_[A-Za-z0-9_-]{32}$/);
+      expect(generateInvitationToken()).not.toBe(first);
+    });
+
+    test('hashes tokens deterministically', () => {
+      const token = generateInvitationToken();
+      expect(hashInvitationToken(token)).toBe(hashInvitationToken(token));
+      expect(hashInvitationToken(token)).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    test('invitation views never include the token hash', () => {
+      expect(toInvitationView(invitation())).not.toHaveProperty('tokenHash');
+    });
+  });
+
+  describe('getInvitationProblem', () => {
+    test('accepts a pending invitation before it expires', () => {
+      expect(getInvitationProblem(invitation(), now)).toBeNull();
+    });
+
+    test('rejects used, revoked and expired invitations', () => {
+      expect(getInvitationProblem(invitation({ status: 'accepted' }), now)).toMatch(/already been accepted/);
+      expect(getInvitationProblem(invitation({ status: 'revoked' }), now)).toMatch(/revoked/);
+      expect(getInvitationProblem(invitation({ expiresAt: now }), now)).toMatch(/expired/);
+    });
+  });
+
+  describe('wouldLeaveWithoutOwner', () => {
+    test('protects the last owner from removal and demotion', () => {
+      const team = members(['owner-1', 'owner'], ['recruiter-1', 'recruiter']);
+      expect(wouldLeaveWithoutOwner(team, 'owner-1')).toBe(true);
+      expect(wouldLeaveWithoutOwner(team, 'owner-1', 'viewer')).toBe(true);
+    });
+
+    test('allows changes while another owner remains', () => {
+      const team = members(['owner-1', 'owner'], ['owner-2', 'owner']);
+      expect(wouldLeaveWithoutOwner(team, 'owner-1')).toBe(false);
+    });
+
+    test('ignores non-owners and unknown users', () => {
+      const team = members(['owner-1', 'owner'], ['viewer-1', 'viewer']);
+      expect(wouldLeaveWithoutOwner(team, 'viewer-1')).toBe(false);
+      expect(wouldLeaveWithoutOwner(team, 'nobody')).toBe(false);
+      expect(wouldLeaveWithoutOwner(team, 'owner-1', 'owner')).toBe(false);
+    });
+  });
+});
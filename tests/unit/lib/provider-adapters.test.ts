@@ -0,0 +1,255 @@
+/**
+ * AI Provider Adapter Conformance Tests
+ * Runs every provider adapter through the shared analysis operations against
+ * recorded-style API responses and checks they all produce the same shapes
+ */
+
+import { describe, test, expect, jest } from '@jest/globals';
+import {
+  createProviderOperations,
+  OPERATION_SETTINGS,
+  type AIOperation,
+  type AIProviderAdapter,
+} from '../../../server/lib/providers/provider-adapter';
+import {
+  createChatCompletionsAdapter,
+  type ChatCompletionParams,
+} from '../../../server/lib/providers/chat-completions-adapter';
+import {
+  createAnthropicAdapter,
+  type MessagesCreateParams,
+} from '../../../server/lib/providers/anthropic-adapter';
+import {
+  analysisPayloads,
+  anthropicMessageFixture,
+  chatCompletionFixture,
+  fixtureInputs,
+  fixtureModels,
+  type FixtureProvider,
+} from '../../fixtures/ai-provider-responses';
+
+function operationForSystemPrompt(system: string): AIOperation {
+  const match = (Object.keys(OPERATION_SETTINGS) as AIOperation[])
+    .find((operation) => OPERATION_SETTINGS[operation].system === system);
+  if (!match) throw new Error(`Unexpected system prompt: ${system}`);
+  return match;
+}
+
+interface Harness {
+  adapter: AIProviderAdapter;
+  requests: Array<{ operation: AIOperation; params: ChatCompletionParams | MessagesCreateParams }>;
+  onSuccess: jest.Mock;
+}
+
+function buildHarness(provider: FixtureProvider, fail = false): Harness {
+  const requests: Harness['requests'] = [];
+  const onSuccess = jest.fn();
+
+  if (provider === 'anthropic') {
+    const adapter = createAnthropicAdapter({
+      client: {
+        messages: {
+          create: async (params: MessagesCreateParams) => {
+            const operation = operationForSystemPrompt(params.system);
+            requests.push({ operation, params });
+            if (fail) throw new Error('overloaded_error');
+            return anthropicMessageFixture(operation);
+          },
+        },
+      },
+      model: fixtureModels.anthropic,
+      onSuccess,
+    });
+    return { adapter, requests, onSuccess };
+  }
+
+  const adapter = createChatCompletionsAdapter({
+    name: provider,
+    format: provider,
+    client: {
+      chat: {
+        completions: {
+          create: async (params: ChatCompletionParams) => {
+            const operation = operationForSystemPrompt(params.messages[0].content);
+            requests.push({ operation, params });
+            if (fail) throw new Error('rate_limit_exceeded');
+            return chatCompletionFixture(provider, operation);
+          },
+        },
+      },
+    },
+    model: fixtureModels[provider],
+    onSuccess,
+  });
+  return { adapter, requests, onSuccess };
+}
+
+const PROVIDERS: FixtureProvider[] = ['groq', 'openai', 'anthropic', 'local'];
+
+describe.each(PROVIDERS)('%s adapter conformance', (provider) => {
+  const { resumeText, jobTitle, jobDescription } = fixtureInputs;
+
+  async function runPipeline(harness: Harness) {
+    const operations = createProviderOperations(harness.adapter);
+    const resume = await operations.analyzeResume(resumeText);
+    const job = await operations.analyzeJobDescription(jobTitle, jobDescription);
+    const match = await operations.analyzeMatch(resume, job);
+    return { operations, resume, job, match };
+  }
+
+  test('normalizes resume analysis', async () => {
+    const { resume } = await runPipeline(buildHarness(provider));
+
+    expect(resume.name).toBe('Jane Smith');
+    expect(resume.skills).toEqual(['Node.js', 'TypeScript', 'PostgreSQL', 'AWS']);
+    expect(resume.experienceYears).toBe(5);
+    expect(resume.analyzedData.education).toEqual(['BSc Computer Science, TU Berlin']);
+    expect(resume.analyzedData.keyStrengths).toEqual(['API design', 'PostgreSQL']);
+    expect(resume.contact?.email).toBe('jane.smith@example.com');
+    expect(resume.experience?.[0]).toMatchObject({ company: 'Acme Payments', position: 'Senior Backend Engineer' });
+  });
+
+  test('normalizes job analysis', async () => {
+    const { job } = await runPipeline(buildHarness(provider));
+
+    expect(job.title).toBe(jobTitle);
+    expect(job.requiredSkills).toEqual(['Node.js', 'TypeScript', 'PostgreSQL', 'Kubernetes']);
+    expect(job.preferredSkills).toEqual(['Go']);
+    expect(job.analyzedData.experienceLevel).toBe('senior');
+  });
+
+  test('normalizes match analysis into SkillMatch entries', async () => {
+    const { match } = await runPipeline(buildHarness(provider));
+
+    expect(match.matchPercentage).toBe(78);
+    expect(match.confidenceLevel).toBe('high');
+    expect(match.missingSkills).toEqual(['Kubernetes']);
+    expect(match.matchedSkills?.map((skill) => skill.skill)).toEqual(['Node.js', 'TypeScript', 'PostgreSQL']);
+    for (const skill of match.matchedSkills ?? []) {
+      expect(skill.matchPercentage).toBeGreaterThanOrEqual(0);
+      expect(skill.matchPercentage).toBeLessThanOrEqual(100);
+      expect(['critical', 'important', 'nice-to-have']).toContain(skill.importance);
+      expect(['exact', 'semantic', 'inferred']).toContain(skill.source);
+    }
+    expect(match.results).toHaveLength(1);
+    expect(match.results[0].matchPercentage).toBe(78);
+    expect(match.metadata).toMatchObject({ aiProvider: provider, modelVersion: fixtureModels[provider] });
+  });
+
+  test('normalizes bias analysis', async () => {
+    const operations = createProviderOperations(buildHarness(provider).adapter);
+    const bias = await operations.analyzeBias(jobTitle, jobDescription);
+
+    expect(bias.hasBias).toBe(true);
+    expect(bias.biasTypes).toEqual(['age', 'gender']);
+    expect(bias.biasedPhrases[0]).toEqual({ phrase: 'young and energetic', reason: "Use 'motivated' instead" });
+    expect(bias.overallScore).toBe(70);
+    expect(bias.improvedDescription).toBe(analysisPayloads.bias.improvedDescription);
+  });
+
+  test('normalizes interview questions and script', async () => {
+    const { operations, resume, job, match } = await runPipeline(buildHarness(provider));
+
+    const questions = await operations.generateInterviewQuestions(resume, job, match);
+    expect(questions.questions).toHaveLength(3);
+    expect(questions.questions[0].expectedAnswer).toBe('Concrete design decisions and trade-offs.');
+    expect(questions.technicalQuestions).toHaveLength(1);
+    expect(questions.experienceQuestions).toHaveLength(1);
+    expect(questions.skillGapQuestions?.map((q) => q.skillsAssessed)).toEqual([['Kubernetes']]);
+    expect(questions.metadata.focusAreas).toEqual(['Kubernetes', 'System design']);
+
+    const script = await operations.generateInterviewScript(resume, job, match, jobTitle, 'Jane Smith');
+    expect(script.jobTitle).toBe(jobTitle);
+    expect(script.skillGapAssessment.gapQuestions[0].missingSkill).toBe('Kubernetes');
+    expect(script.roleSell.roleHighlights).toHaveLength(2);
+  });
+
+  test('sends each operation with its shared settings and reports usage', async () => {
+    const harness = buildHarness(provider);
+    await runPipeline(harness);
+
+    expect(harness.requests.map((request) => request.operation)).toEqual(['resume', 'job', 'match']);
+    for (const { operation, params } of harness.requests) {
+      expect(params.temperature).toBe(OPERATION_SETTINGS[operation].temperature);
+      expect(params.max_tokens).toBe(OPERATION_SETTINGS[operation].maxTokens);
+    }
+    expect(harness.onSuccess).toHaveBeenCalledTimes(3);
+    expect(harness.onSuccess).toHaveBeenCalledWith(fixtureModels[provider], { promptTokens: 812, completionTokens: 245 });
+  });
+
+  test('serves repeated requests from cache', async () => {
+    const harness = buildHarness(provider);
+    const operations = createProviderOperations(harness.adapter);
+
+    await operations.analyzeJobDescription(jobTitle, jobDescription);
+    await operations.analyzeJobDescription(jobTitle, jobDescription);
+    expect(harness.requests).toHaveLength(1);
+
+    operations.clearCache();
+    await operations.analyzeJobDescription(jobTitle, jobDescription);
+    expect(harness.requests).toHaveLength(2);
+  });
+
+  test('propagates API failures instead of returning placeholder data', async () => {
+    const operations = createProviderOperations(buildHarness(provider, true).adapter);
+
+    await expect(operations.analyzeResume(resumeText)).rejects.toThrow();
+  });
+});
+
+describe('adapter edge cases', () => {
+  test('unconfigured adapters fail fast', async () => {
+    const adapter = createChatCompletionsAdapter({
+      name: 'groq',
+      format: 'groq',
+      client: null,
+      model: 'llama-3.3-70b-versatile',
+      notConfiguredMessage: 'Groq API key is not configured',
+    });
+
+    expect(adapter.isConfigured()).toBe(false);
+    await expect(createProviderOperations(adapter).analyzeResume('text')).rejects.toThrow('Groq API key is not configured');
+  });
+
+  test('chat completions adapters seed text-based matches and request JSON mode', async () => {
+    const harness = buildHarness('openai');
+    const operations = createProviderOperations(harness.adapter);
+    const resume = await operations.analyzeResume(fixtureInputs.resumeText);
+    const job = await operations.analyzeJobDescription(fixtureInputs.jobTitle, fixtureInputs.jobDescription);
+
+    await operations.analyzeMatch(resume, job, `${fixtureInputs.resumeText} (seeded)`, fixtureInputs.jobDescription);
+
+    const matchRequest = harness.requests.find((request) => request.operation === 'match')?.params as ChatCompletionParams;
+    expect(typeof matchRequest.seed).toBe('number');
+    expect(matchRequest.response_format).toEqual({ type: 'json_object' });
+  });
+
+  test('reports failures through the onFailure hook', async () => {
+    const onFailure = jest.fn();
+    const adapter = createAnthropicAdapter({
+      client: { messages: { create: async () => { throw new Error('overloaded_error'); } } },
+      model: fixtureModels.anthropic,
+      onFailure,
+    });
+
+    await expect(createProviderOperations(adapter).analyzeBias('Title', 'Description')).rejects.toThrow('overloaded_error');
+    expect(onFailure).toHaveBeenCalledWith(expect.objectContaining({ message: 'overloaded_error' }));
+  });
+
+  test('rejects completions without a JSON object', async () => {
+    const adapter = createChatCompletionsAdapter({
+      name: 'local',
+      format: 'local',
+      client: {
+        chat: {
+          completions: {
+            create: async () => ({ choices: [{ message: { content: 'I cannot help with that.' } }] }),
+          },
+        },
+      },
+      model: 'llama3.1:8b',
+    });
+
+    await expect(createProviderOperations(adapter).analyzeJobDescription('Title', 'Description')).rejects.toThrow(/Invalid JSON/);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit Tests for Analysis Re-scoring
+ * Tests config versioning, score replay, legacy LLM estimation and the diff report
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  buildJobRescoreReport,
+  computeScoringVersion,
+  latestAnalysisPerResume,
+  rescoreAnalysis,
+  resolveRescoreConfig
+} from '../../../server/lib/rescoring';
+import type { AnalysisResult, JobDescription, Resume } from '../../../shared/schema';
+
+const dimensions = { skills: 80, experience: 60, education: 50, semantic: 70 };
+
+const makeJob = (overrides: Partial<JobDescription> = {}): JobDescription => ({
+  id: 1,
+  userId: 'owner',
+  title: 'Backend Engineer',
+  description: 'Node.js and PostgreSQL',
+  analyzedData: null,
+  scoringConfig: null,
+  ...overrides,
+} as JobDescription);
+
+const makeResult = (id: number, resumeId: number, matchPercentage: number, analysis: Record<string, unknown>): AnalysisResult => ({
+  id,
+  userId: 'owner',
+  resumeId,
+  jobDescriptionId: 1,
+  matchPercentage,
+  scoringDimensions: dimensions,
+  analysis,
+} as AnalysisResult);
+
+const makeResume = (skills: string[]): Resume => ({
+  id: 1,
+  skills,
+  content: skills.join(', '),
+  analyzedData: { skills, education: [] },
+} as unknown as Resume);
+
+describe('Re-scoring', () => {
+  test('scoring version should change only when the effective config changes', () => {
+    const current = computeScoringVersion(resolveRescoreConfig());
+
+    expect(current).toMatch(/^scoring-[a-f0-9]{12}$/);
+    expect(computeScoringVersion(resolveRescoreConfig({}))).toBe(current);
+    expect(computeScoringVersion(resolveRescoreConfig({ ensembleWeights: { ml: 3, llm: 7 } }))).toBe(current);
+    expect(computeScoringVersion(resolveRescoreConfig({ ensembleWeights: { ml: 0.5, llm: 0.5 } }))).not.toBe(current);
+  });
+
+  test('should replay recorded component scores under new weights', () => {
+    const result = makeResult(1, 1, 75, { analysisMethod: 'hybrid', scoreInputs: { ml: 70, llm: 80 } });
+    const config = resolveRescoreConfig({
+      defaultWeights: { skills: 1, experience: 0, education: 0, semantic: 0 },
+      ensembleWeights: { ml: 0.5, llm: 0.5 },
+    });
+
+    const rescored = rescoreAnalysis({ result, job: makeJob() }, config);
+
+    expect(rescored.mlScore).toBe(80);
+    expect(rescored.llmScore).toBe(80);
+    expect(rescored.llmScoreEstimated).toBe(false);
+    expect(rescored.matchPercentage).toBe(80);
+  });
+
+  test('should recover the LLM score of legacy analyses from the original weights', () => {
+    // ML from dims with unit skills weight is 80; 0.5 * 80 + 0.5 * 60 = 70
+    const result = makeResult(1, 1, 70, { analysisMethod: 'hybrid' });
+    const originalWeights = {
+      ml: 0.5,
+      llm: 0.5,
+      dimensions: { skills: 1, experience: 0, education: 0, semantic: 0 },
+    };
+
+    const rescored = rescoreAnalysis({ result, job: makeJob(), originalWeights }, resolveRescoreConfig());
+
+    expect(rescored.llmScore).toBe(60);
+    expect(rescored.llmScoreEstimated).toBe(true);
+  });
+
+  test('should apply configured must-have gates to the candidate', () => {
+    const job = makeJob({
+      scoringConfig: { skillRequirements: [{ skill: 'Kubernetes', importance: 'must-have' }] },
+    });
+    const result = makeResult(1, 1, 75, { analysisMethod: 'hybrid', scoreInputs: { ml: 70, llm: 80 } });
+
+    const gated = rescoreAnalysis({ result, job, resume: makeResume(['Node.js']) }, resolveRescoreConfig());
+    const passing = rescoreAnalysis({ result, job, resume: makeResume(['Node.js', 'Kubernetes']) }, resolveRescoreConfig());
+
+    expect(gated.gateViolations.length).toBeGreaterThan(0);
+    expect(gated.matchPercentage!).toBeLessThan(passing.matchPercentage!);
+    expect(passing.gateViolations).toEqual([]);
+  });
+
+  test('should report rank changes, deltas and gate crossings per job', () => {
+    const results = latestAnalysisPerResume([
+      makeResult(1, 1, 90, {}),
+      makeResult(2, 2, 60, { requirementGates: { violations: ['Missing Kubernetes'] } }),
+      makeResult(3, 1, 80, {}),
+    ]);
+    const rescored = (matchPercentage: number, gateViolations: string[] = []) => ({
+      matchPercentage,
+      mlScore: null,
+      llmScore: null,
+      llmScoreEstimated: false,
+      scoringWeights: { skills: 0.47, experience: 0.28, education: 0.15, semantic: 0.1 },
+      ensembleWeights: { ml: 0.3, llm: 0.7 },
+      gateViolations,
+    });
+
+    const report = buildJobRescoreReport(makeJob(), [
+      { result: results.find(result => result.resumeId === 1)!, rescored: rescored(70) },
+      { result: results.find(result => result.resumeId === 2)!, rescored: rescored(85) },
+    ]);
+
+    expect(results.map(result => result.id).sort()).toEqual([2, 3]);
+    expect(report.candidates.map(candidate => [candidate.resumeId, candidate.rankChange, candidate.delta]))
+      .toEqual([[2, 1, 25], [1, -1, -10]]);
+    expect(report.candidates[0].gateChange).toBe('cleared');
+    expect(report).toMatchObject({ rankChanges: 2, meanDelta: 7.5, maxAbsDelta: 25, gateCrossings: 1 });
+  });
+});
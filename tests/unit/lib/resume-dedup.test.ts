@@ -0,0 +1,123 @@
+/**
+ * Unit Tests for Resume Duplicate Detection
+ * Tests content hashing, contact extraction and normalization, and picking
+ * the existing resume an upload duplicates
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  computeContentHash,
+  extractResumeFingerprint,
+  findDuplicateMatch,
+  isKnownDuplicate,
+  normalizePhone
+} from '../../../server/lib/resume-dedup';
+import type { Resume } from '../../../shared/schema';
+
+const RESUME_TEXT = `Jane Doe
+jane.doe@example.com | +1 (415) 555-0134
+Senior Backend Engineer
+
+Experience
+Acme Corp, 2018 - 2023
+Built payment services in Node.js and PostgreSQL`;
+
+// 384-dimension vector pointing mostly along the given axes
+const vector = (...weights: number[]): number[] =>
+  Array.from({ length: 384 }, (_, i) => weights[i] ?? 0);
+
+const resume = (id: number, fields: Partial<Resume> = {}): Resume =>
+  ({
+    id,
+    userId: 'user-1',
+    filename: `resume-${id}.pdf`,
+    embedding: null,
+    contentHash: null,
+    contactEmail: null,
+    contactPhone: null,
+    candidateGroupId: null,
+    duplicateStatus: null,
+    ...fields
+  } as Resume);
+
+describe('Resume Duplicate Detection', () => {
+  describe('fingerprints', () => {
+    test('hashes the same text the same regardless of case and whitespace', () => {
+      const reformatted = RESUME_TEXT.toUpperCase().replace(/\n/g, '\n\n  ');
+      expect(computeContentHash(reformatted)).toBe(computeContentHash(RESUME_TEXT));
+      expect(computeContentHash(`${RESUME_TEXT} Kubernetes`)).not.toBe(computeContentHash(RESUME_TEXT));
+    });
+
+    test('normalizes phone numbers to their last 10 digits', () => {
+      expect(normalizePhone('+1 (415) 555-0134')).toBe('4155550134');
+      expect(normalizePhone('415.555.0134')).toBe('4155550134');
+      expect(normalizePhone('2018 - 2023')).toBeNull();
+    });
+
+    test('extracts a lowercased email and the phone from the header', () => {
+      expect(extractResumeFingerprint(RESUME_TEXT.replace('jane.doe', 'Jane.Doe'))).toEqual({
+        contentHash: computeContentHash(RESUME_TEXT.replace('jane.doe', 'Jane.Doe')),
+        email: 'jane.doe@example.com',
+        phone: '4155550134'
+      });
+    });
+
+    test('ignores number runs outside the contact header', () => {
+      const text = `John Smith\n${'Led migrations. '.repeat(80)}\nReference: 415 555 0199`;
+      expect(extractResumeFingerprint(text)).toMatchObject({ email: null, phone: null });
+    });
+  });
+
+  describe('findDuplicateMatch', () => {
+    const fingerprint = extractResumeFingerprint(RESUME_TEXT);
+
+    test('matches an identical re-upload by content hash', () => {
+      const match = findDuplicateMatch(fingerprint, null, [
+        resume(1),
+        resume(2, { contentHash: fingerprint.contentHash, contactEmail: 'jane.doe@example.com' })
+      ]);
+
+      expect(match?.resume.id).toBe(2);
+      expect(match?.signals).toEqual(['content_hash', 'email']);
+    });
+
+    test('prefers the resume matching the most signals', () => {
+      const match = findDuplicateMatch(fingerprint, null, [
+        resume(1, { contactPhone: '4155550134' }),
+        resume(2, { contactEmail: 'jane.doe@example.com', contactPhone: '4155550134' })
+      ]);
+
+      expect(match?.resume.id).toBe(2);
+      expect(match?.signals).toEqual(['email', 'phone']);
+    });
+
+    test('matches edited copies by embedding similarity above the threshold', () => {
+      const edited = findDuplicateMatch({ ...fingerprint, email: null, phone: null }, vector(1, 0.1), [
+        resume(1, { embedding: vector(1, 0.12) }),
+        resume(2, { embedding: vector(0.6, 0.8) })
+      ]);
+
+      expect(edited?.resume.id).toBe(1);
+      expect(edited?.signals).toEqual(['embedding']);
+      expect(edited?.similarity).toBeGreaterThan(0.99);
+    });
+
+    test('returns null when nothing matches', () => {
+      expect(findDuplicateMatch(fingerprint, vector(1, 0), [
+        resume(1, { contactEmail: 'someone@example.com', embedding: vector(0, 1) })
+      ])).toBeNull();
+    });
+  });
+
+  describe('isKnownDuplicate', () => {
+    test('only flags merged copies, not the primary or ungrouped resumes', () => {
+      expect(isKnownDuplicate({ candidateGroupId: 3, duplicateStatus: 'merged' })).toBe(true);
+      expect(isKnownDuplicate({ candidateGroupId: 3, duplicateStatus: null })).toBe(false);
+      expect(isKnownDuplicate({ candidateGroupId: null, duplicateStatus: null })).toBe(false);
+    });
+
+    test('does not flag suspected copies the user has not reviewed yet', () => {
+      expect(isKnownDuplicate({ candidateGroupId: 3, duplicateStatus: 'suspected' })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Unit Tests for Structured Resume Entity Extraction
+ * Tests work history timelines, gaps, degrees and certifications
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { extractResumeEntities } from '../../../server/lib/resume-entity-extractor';
+import { structuredResumeDataSchema } from '../../../shared/schema';
+import type { ResumeSection } from '../../../server/lib/document-parser';
+
+const referenceDate = new Date('2025-06-15T00:00:00Z');
+
+const section = (type: ResumeSection['type'], content: string): ResumeSection => ({
+  type,
+  content,
+  startLine: 0,
+  endLine: 0,
+  priority: 10,
+});
+
+describe('Resume Entity Extractor', () => {
+  describe('Work History', () => {
+    test('should parse single-line headers with month ranges', () => {
+      const result = extractResumeEntities([
+        section('experience', [
+          'Senior Software Engineer | Acme Corp | Jan 2022 - Present',
+          '• Led migration to TypeScript',
+          'Software Engineer at Globex, Mar 2019 - Dec 2021',
+          '- Built billing APIs',
+        ].join('\n')),
+      ], referenceDate);
+
+      expect(result.workHistory).toHaveLength(2);
+      expect(result.workHistory[0]).toMatchObject({
+        title: 'Senior Software Engineer',
+        employer: 'Acme Corp',
+        startDate: '2022-01',
+        endDate: null,
+        isCurrent: true,
+        tenureMonths: 42,
+        description: 'Led migration to TypeScript',
+      });
+      expect(result.workHistory[1]).toMatchObject({
+        title: 'Software Engineer',
+        employer: 'Globex',
+        startDate: '2019-03',
+        endDate: '2021-12',
+        tenureMonths: 34,
+      });
+    });
+
+    test('should read headers from the lines above the date range', () => {
+      const result = extractResumeEntities([
+        section('experience', [
+          'Data Analyst',
+          'Initech',
+          '06/2018 - 05/2020',
+          '• Reporting dashboards',
+        ].join('\n')),
+      ], referenceDate);
+
+      expect(result.workHistory[0]).toMatchObject({
+        title: 'Data Analyst',
+        employer: 'Initech',
+        startDate: '2018-06',
+        endDate: '2020-05',
+        tenureMonths: 24,
+      });
+    });
+
+    test('should merge overlapping roles and report employment gaps', () => {
+      const result = extractResumeEntities([
+        section('experience', [
+          'Engineer | Alpha | Jan 2015 - Dec 2017',
+          'Consultant | Beta | Jun 2017 - Dec 2018',
+          'Developer | Gamma | Jan 2020 - Dec 2020',
+        ].join('\n')),
+      ], referenceDate);
+
+      // 2015-01..2018-12 (48) + 2020 (12)
+      expect(result.totalExperienceMonths).toBe(60);
+      expect(result.employmentGaps).toEqual([
+        { startDate: '2019-01', endDate: '2019-12', months: 12 },
+      ]);
+    });
+
+    test('should count a year-only end date through the end of that year', () => {
+      const result = extractResumeEntities([
+        section('experience', [
+          'Developer | Umbrella | 2018 - 2020',
+          'Intern | Hooli | 2016 - 2016',
+        ].join('\n')),
+      ], referenceDate);
+
+      expect(result.workHistory[0]).toMatchObject({ startDate: '2018-01', endDate: '2020-12', tenureMonths: 36 });
+      expect(result.workHistory[1]).toMatchObject({ startDate: '2016-01', endDate: '2016-12', tenureMonths: 12 });
+      expect(result.employmentGaps).toEqual([
+        { startDate: '2017-01', endDate: '2017-12', months: 12 },
+      ]);
+    });
+  });
+
+  describe('Education', () => {
+    test('should extract degree level, field, institution and year', () => {
+      const result = extractResumeEntities([
+        section('education', [
+          'Master of Science in Computer Science, Stanford University, 2016',
+          'B.S. in Mathematics',
+          'University of Michigan | 2014',
+        ].join('\n')),
+      ], referenceDate);
+
+      expect(result.degrees).toHaveLength(2);
+      expect(result.degrees[0]).toMatchObject({
+        level: 'master',
+        field: 'Computer Science',
+        institution: 'Stanford University',
+        graduationYear: 2016,
+      });
+      expect(result.degrees[1]).toMatchObject({
+        level: 'bachelor',
+        institution: 'University of Michigan',
+        graduationYear: 2014,
+      });
+    });
+
+    test('should only read undotted MS, BS and BA as degrees when a field follows', () => {
+      const result = extractResumeEntities([
+        section('education', [
+          'MS in Data Science, Carnegie Mellon University, 2019',
+          'BA in Economics, Boston College, 2016',
+          'Proficient in MS Office and Excel',
+          'BA team lead for onboarding',
+          'BS',
+        ].join('\n')),
+      ], referenceDate);
+
+      expect(result.degrees.map(degree => degree.level)).toEqual(['master', 'bachelor']);
+      expect(result.degrees[0]).toMatchObject({ field: 'Data Science', graduationYear: 2019 });
+      expect(result.degrees[1]).toMatchObject({ field: 'Economics', graduationYear: 2016 });
+    });
+  });
+
+  describe('Certifications', () => {
+    test('should extract issuer, issue date and expiry', () => {
+      const result = extractResumeEntities([
+        section('certifications', [
+          'AWS Certified Solutions Architect - Amazon Web Services (Issued Mar 2021, Expires Mar 2024)',
+          'Certified Kubernetes Administrator | CNCF | 2023 - 2026',
+        ].join('\n')),
+      ], referenceDate);
+
+      expect(result.certifications[0]).toMatchObject({
+        name: 'AWS Certified Solutions Architect',
+        issuer: 'Amazon Web Services',
+        issueDate: '2021-03',
+        expiryDate: '2024-03',
+        isExpired: true,
+      });
+      expect(result.certifications[1]).toMatchObject({
+        name: 'Certified Kubernetes Administrator',
+        issuer: 'CNCF',
+        issueDate: '2023-01',
+        expiryDate: '2026-12',
+        isExpired: false,
+      });
+    });
+
+    test('should keep a year-only expiry valid through December of that year', () => {
+      const result = extractResumeEntities([
+        section('certifications', [
+          'PMP by PMI, expires 2026',
+          'CISSP by ISC2, expires 2025',
+        ].join('\n')),
+      ], new Date('2026-10-18T00:00:00Z'));
+
+      expect(result.certifications[0]).toMatchObject({ expiryDate: '2026-12', isExpired: false });
+      expect(result.certifications[1]).toMatchObject({ expiryDate: '2025-12', isExpired: true });
+    });
+  });
+
+  test('should produce output that satisfies the shared Zod schema', () => {
+    const result = extractResumeEntities([
+      section('experience', 'Engineer | Alpha | Jan 2015 - Present'),
+      section('education', 'PhD in Physics, MIT Institute, 2014'),
+      section('certifications', 'PMP by PMI, expires 2027'),
+    ], referenceDate);
+
+    expect(structuredResumeDataSchema.safeParse(result).success).toBe(true);
+  });
+
+  test('should return empty collections when no sections are present', () => {
+    const result = extractResumeEntities([], referenceDate);
+
+    expect(result.workHistory).toEqual([]);
+    expect(result.totalExperienceMonths).toBe(0);
+    expect(result.degrees).toEqual([]);
+    expect(result.certifications).toEqual([]);
+  });
+});
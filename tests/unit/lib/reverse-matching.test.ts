@@ -0,0 +1,77 @@
+/**
+ * Unit Tests for the Reverse Matching Prefilter
+ * Tests embedding scoring, the skill-overlap fallback and shortlist ordering
+ */
+
+import { describe, test, expect, jest } from '@jest/globals';
+import type { JobDescription, Resume } from '../../../shared/schema';
+
+// The real module loads the transformer pipeline at import time
+jest.unstable_mockModule('@server/lib/embeddings', () => ({
+  cosineSimilarity: (a: number[], b: number[]) => {
+    const dot = a.reduce((sum, value, i) => sum + value * b[i], 0);
+    const norm = (v: number[]) => Math.sqrt(v.reduce((sum, value) => sum + value * value, 0));
+    return dot / (norm(a) * norm(b));
+  }
+}));
+
+const { prefilterJobsForResume, scoreJobForResume } = await import('../../../server/lib/reverse-matching');
+
+const job = (id: number, overrides: Partial<JobDescription> = {}): JobDescription => ({
+  id,
+  title: `Job ${id}`,
+  description: '',
+  skills: null,
+  analyzedData: null,
+  embedding: null,
+  requirementsEmbedding: null,
+  ...overrides
+} as JobDescription);
+
+const resume = {
+  embedding: [1, 0, 0],
+  skillsEmbedding: [0, 1, 0],
+  skills: ['TypeScript', 'React'],
+  analyzedData: null
+} as unknown as Resume;
+
+describe('Reverse Matching Prefilter', () => {
+  describe('scoreJobForResume', () => {
+    test('should average the content and skills similarities', () => {
+      const result = scoreJobForResume(resume, job(1, { embedding: [1, 0, 0], requirementsEmbedding: [1, 0, 0] }));
+
+      expect(result).toEqual({ score: 50, method: 'embedding' });
+    });
+
+    test('should ignore vectors of a different dimension', () => {
+      const result = scoreJobForResume(resume, job(1, { embedding: [1, 0], requirementsEmbedding: [0, 1, 0] }));
+
+      expect(result).toEqual({ score: 100, method: 'embedding' });
+    });
+
+    test('should fall back to required-skill overlap without embeddings', () => {
+      const result = scoreJobForResume(
+        { ...resume, embedding: null, skillsEmbedding: null },
+        job(1, { skills: ['typescript', 'Go', 'React', 'Kubernetes'] })
+      );
+
+      expect(result).toEqual({ score: 50, method: 'skills' });
+    });
+
+    test('should report nothing to compare when the job has no skills or vectors', () => {
+      expect(scoreJobForResume(resume, job(1))).toEqual({ score: 0, method: 'none' });
+    });
+  });
+
+  test('prefilterJobsForResume should rank embedding scores ahead of skill overlap', () => {
+    const ranked = prefilterJobsForResume(resume, [
+      job(1, { skills: ['TypeScript', 'React'] }),
+      job(2, { embedding: [0, 0, 1] }),
+      job(3),
+      job(4, { embedding: [1, 0, 0] }),
+      job(5, { embedding: [1, 0, 0] })
+    ]);
+
+    expect(ranked.map(entry => entry.job.id)).toEqual([5, 4, 2, 1, 3]);
+  });
+});
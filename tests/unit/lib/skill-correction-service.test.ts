@@ -0,0 +1,58 @@
+/**
+ * Unit Tests for Skill Correction Helpers
+ * Tests how wrong, missed and equivalent corrections change extracted skills
+ */
+
+import { describe, test, expect, jest } from '@jest/globals';
+
+jest.mock('../../../server/lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+import { applySkillCorrections, normalizeSkillName } from '../../../server/services/skill-correction-service';
+import type { SkillCorrection } from '../../../shared/schema';
+
+const now = new Date('2026-10-18T12:00:00Z');
+
+let nextId = 1;
+const correction = (overrides: Partial<SkillCorrection>): SkillCorrection => ({
+  id: nextId++,
+  userId: 'user-1',
+  type: 'wrong',
+  skill: 'Excel',
+  normalizedSkill: normalizeSkillName(overrides.skill ?? 'Excel'),
+  equivalentTo: null,
+  resumeId: null,
+  jobDescriptionId: null,
+  createdAt: now,
+  updatedAt: now,
+  ...overrides,
+});
+
+describe('Skill Corrections', () => {
+  test('normalizes case and whitespace', () => {
+    expect(normalizeSkillName('  Machine   Learning ')).toBe('machine learning');
+  });
+
+  test('drops wrong skills and renames equivalents, removing repeats', () => {
+    const corrected = applySkillCorrections(['Excel', 'ReactJS', 'React', 'TypeScript'], [
+      correction({ type: 'wrong', skill: 'excel' }),
+      correction({ type: 'equivalent', skill: 'ReactJS', equivalentTo: 'React' }),
+    ]);
+
+    expect(corrected).toEqual(['React', 'TypeScript']);
+  });
+
+  test('adds missed skills only when the text mentions them as a whole term', () => {
+    const corrections = [
+      correction({ type: 'missed', skill: 'Go' }),
+      correction({ type: 'missed', skill: 'C++' }),
+      correction({ type: 'missed', skill: 'Terraform' }),
+    ];
+
+    expect(applySkillCorrections(['Python'], corrections, 'Built services in Go and C++ at Google'))
+      .toEqual(['Python', 'Go', 'C++']);
+    expect(applySkillCorrections(['Python'], corrections, 'Worked at Google')).toEqual(['Python']);
+    expect(applySkillCorrections(['Python'], corrections)).toEqual(['Python']);
+  });
+});
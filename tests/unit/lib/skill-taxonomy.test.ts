@@ -0,0 +1,97 @@
+/**
+ * Unit Tests for Organization Skill Taxonomies
+ * Tests CSV/JSON import parsing, alias lookup, text matching and hierarchy relations
+ */
+
+import { describe, test, expect, jest } from '@jest/globals';
+
+jest.mock('../../../server/lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+import {
+  buildSkillTaxonomyIndex,
+  findTaxonomyRelatedSkills,
+  findTaxonomySkillsInText,
+  lookupTaxonomySkill,
+  normalizeTaxonomyName,
+  parseSkillTaxonomyImport
+} from '../../../server/lib/skill-taxonomy';
+import type { SkillTaxonomyEntry } from '../../../shared/schema';
+
+const now = new Date('2026-10-18T12:00:00Z');
+
+const entry = (id: number, name: string, overrides: Partial<SkillTaxonomyEntry> = {}): SkillTaxonomyEntry => ({
+  id,
+  organizationId: 1,
+  name,
+  normalizedName: normalizeTaxonomyName(name),
+  category: 'general',
+  parentId: null,
+  aliases: [],
+  description: null,
+  embedding: null,
+  createdBy: 'user-1',
+  createdAt: now,
+  updatedAt: now,
+  ...overrides,
+});
+
+describe('Skill Taxonomy', () => {
+  test('parses CSV with quoted fields, split aliases and per-row errors', () => {
+    const parsed = parseSkillTaxonomyImport(
+      'Name,Category,Parent,Aliases\r\n' +
+      'Acme Certified,certification,,\r\n' +
+      '"Acme Certified L2","certification","Acme Certified","ACL2; Acme ""Level 2"""\r\n' +
+      ',tools,,\r\n',
+      'csv'
+    );
+
+    expect(parsed.rows).toEqual([
+      { row: 1, skill: { name: 'Acme Certified', category: 'certification', parent: undefined, aliases: [], description: undefined } },
+      { row: 2, skill: { name: 'Acme Certified L2', category: 'certification', parent: 'Acme Certified', aliases: ['ACL2', 'Acme "Level 2"'], description: undefined } },
+    ]);
+    expect(parsed.errors).toEqual([{ row: 3, message: 'Skill name is required' }]);
+  });
+
+  test('parses JSON arrays and reports unreadable files', () => {
+    const parsed = parseSkillTaxonomyImport(JSON.stringify({
+      skills: [{ name: 'Forge CLI', aliases: ['forge'] }, 'not an object'],
+    }), 'json');
+
+    expect(parsed.rows.map(row => row.skill.name)).toEqual(['Forge CLI']);
+    expect(parsed.errors).toEqual([{ row: 2, message: 'Skill must be an object' }]);
+    expect(parseSkillTaxonomyImport('{', 'json').errors[0].row).toBe(0);
+    expect(parseSkillTaxonomyImport('category\nx', 'csv').errors[0].row).toBe(0);
+  });
+
+  test('looks up names before aliases and finds whole terms in text', () => {
+    const index = buildSkillTaxonomyIndex([
+      entry(1, 'Forge CLI', { aliases: ['Forge', 'Hammer'] }),
+      entry(2, 'Hammer', { aliases: [] }),
+      entry(3, 'C++ Toolkit', { aliases: ['C++'] }),
+    ]);
+
+    expect(lookupTaxonomySkill(index, '  forge ')?.id).toBe(1);
+    expect(lookupTaxonomySkill(index, 'hammer')?.id).toBe(2);
+    expect(findTaxonomySkillsInText(index, 'Built pipelines with forge and C++ at Forgeworks').map(found => found.id))
+      .toEqual([1, 3]);
+  });
+
+  test('relates parents, children and siblings within one organization', () => {
+    const index = buildSkillTaxonomyIndex([
+      entry(1, 'Acme Certified'),
+      entry(2, 'Acme Certified L1', { parentId: 1 }),
+      entry(3, 'Acme Certified L2', { parentId: 1 }),
+      entry(4, 'Other Org Skill', { organizationId: 2, parentId: 1 }),
+    ]);
+
+    expect(findTaxonomyRelatedSkills(index, 'Acme Certified L2')).toEqual([
+      { skill: 'Acme Certified', similarity: 0.85, category: 'general' },
+      { skill: 'Acme Certified L1', similarity: 0.75, category: 'general' },
+    ]);
+    expect(findTaxonomyRelatedSkills(index, 'Acme Certified').map(related => related.skill))
+      .toEqual(['Acme Certified L1', 'Acme Certified L2']);
+    expect(findTaxonomyRelatedSkills(index, 'Unknown')).toEqual([]);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Unit Tests for Vector Similarity Search Helpers
+ * Tests which embeddings get indexed and the in-memory nearest-resume ranking
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { rankResumesBySimilarity, toEmbeddingVector } from '../../../server/lib/vector-search';
+import type { Resume } from '../../../shared/schema';
+
+// 384-dimension vector pointing mostly along the given axes
+const vector = (...weights: number[]): number[] =>
+  Array.from({ length: 384 }, (_, i) => weights[i] ?? 0);
+
+const resume = (id: number, embedding: number[] | null): Resume =>
+  ({ id, userId: 'user-1', filename: `resume-${id}.pdf`, embedding } as Resume);
+
+describe('Vector Search', () => {
+  describe('toEmbeddingVector', () => {
+    test('should keep full-length embeddings', () => {
+      const embedding = vector(0.6, 0.8);
+      expect(toEmbeddingVector(embedding)).toBe(embedding);
+    });
+
+    test('should drop embeddings pgvector cannot index', () => {
+      expect(toEmbeddingVector(null)).toBeNull();
+      expect(toEmbeddingVector([0.6, 0.8])).toBeNull();
+      expect(toEmbeddingVector(vector())).toBeNull();
+      expect(toEmbeddingVector(vector(NaN, 1))).toBeNull();
+    });
+  });
+
+  describe('rankResumesBySimilarity', () => {
+    const resumes = [
+      resume(1, vector(0, 1)),
+      resume(2, vector(1, 1)),
+      resume(3, null),
+      resume(4, vector(1, 0)),
+      resume(5, vector())
+    ];
+
+    test('should return the k closest resumes with usable embeddings', () => {
+      const matches = rankResumesBySimilarity(vector(1, 0), resumes, 2);
+
+      expect(matches.map(match => match.resume.id)).toEqual([4, 2]);
+      expect(matches[0].similarity).toBeCloseTo(1);
+      expect(matches[1].similarity).toBeCloseTo(Math.SQRT1_2);
+    });
+
+    test('should return nothing without a usable job embedding', () => {
+      expect(rankResumesBySimilarity(null, resumes, 5)).toEqual([]);
+      expect(rankResumesBySimilarity([1, 0], resumes, 5)).toEqual([]);
+      expect(rankResumesBySimilarity(vector(1, 0), resumes, 0)).toEqual([]);
+    });
+  });
+});
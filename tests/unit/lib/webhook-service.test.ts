@@ -0,0 +1,146 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit Tests for Webhook Delivery
+ * Tests that deliveries re-check the destination before every request and
+ * redirect, and connect only to the addresses that were checked
+ */
+
+import { describe, test, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import https from 'https';
+import type { LookupAddress, LookupFunction } from 'net';
+
+import type { IStorage } from '../../../server/storage';
+import type { WebhookDelivery, WebhookSubscription } from '../../../shared/schema';
+
+// The real package loads native image bindings at import time
+jest.unstable_mockModule('@xenova/transformers', () => ({
+  pipeline: jest.fn(),
+  FeatureExtractionPipeline: class {}
+}));
+
+// Importing the real client opens a Redis connection
+jest.unstable_mockModule('@server/core/redis', () => ({
+  redis: { status: 'end', on: jest.fn(), get: jest.fn(), set: jest.fn() },
+  getRedisStatus: () => ({ status: 'end', connected: false })
+}));
+
+process.env.REDIS_ENABLED = 'false';
+
+const { createWebhookService } = await import('../../../server/services/webhook-service');
+
+const delivery = {
+  id: 3,
+  subscriptionId: 9,
+  event: 'analysis.completed',
+  payload: { id: 'evt_1', event: 'analysis.completed', data: {} },
+  status: 'pending',
+  attempts: 0
+} as unknown as WebhookDelivery;
+
+const storageFor = (url: string) => ({
+  getWebhookDelivery: jest.fn(async () => delivery),
+  getWebhookSubscription: jest.fn(async () => ({
+    id: 9,
+    userId: 'user-1',
+    url,
+    secret: 'whsec_test',
+    isActive: true
+  }) as WebhookSubscription),
+  updateWebhookDelivery: jest.fn(async () => delivery)
+}) as unknown as IStorage & Record<string, jest.Mock>;
+
+const endpointResponse = (status: number, location?: string) => ({
+  statusCode: status,
+  headers: location ? { location } : {},
+  resume: jest.fn()
+});
+
+const redirectTo = (location: string) => endpointResponse(307, location);
+
+type EndpointResponse = ReturnType<typeof endpointResponse>;
+
+// Answers each https.request with the next queued response
+const mockEndpoint = (...responses: EndpointResponse[]) =>
+  jest.spyOn(https, 'request').mockImplementation(((
+    _url: URL,
+    _options: https.RequestOptions,
+    callback: (response: EndpointResponse) => void
+  ) => ({
+    on: jest.fn(),
+    end: jest.fn(() => {
+      const response = responses.shift();
+      if (response) callback(response);
+    })
+  })) as unknown as typeof https.request);
+
+const requestedUrls = (requestMock: ReturnType<typeof mockEndpoint>) =>
+  requestMock.mock.calls.map(([url]) => String(url));
+
+const pinnedAddresses = (requestMock: ReturnType<typeof mockEndpoint>, call: number) =>
+  new Promise<string[]>((resolve, reject) => {
+    const lookup = (requestMock.mock.calls[call][1] as https.RequestOptions).lookup as LookupFunction;
+    lookup('hooks.example.com', { all: true }, (error, addresses) => {
+      if (error) reject(error);
+      else resolve((addresses as LookupAddress[]).map(entry => entry.address));
+    });
+  });
+
+const lastUpdate = (storage: Record<string, jest.Mock>) =>
+  storage.updateWebhookDelivery.mock.calls.at(-1)?.[1] as Partial<WebhookDelivery>;
+
+describe('Webhook Delivery', () => {
+  let requestMock: ReturnType<typeof mockEndpoint>;
+
+  beforeEach(() => {
+    requestMock = mockEndpoint();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should not send to an endpoint stored with a private address', async () => {
+    const storage = storageFor('https://169.254.169.254/latest/meta-data');
+
+    const delivered = await createWebhookService(storage).attemptDelivery(delivery.id, true);
+
+    expect(delivered).toBe(false);
+    expect(requestMock).not.toHaveBeenCalled();
+    expect(lastUpdate(storage)).toMatchObject({ status: 'failed', error: expect.stringMatching(/private or loopback/) });
+  });
+
+  test('should refuse redirects to private addresses', async () => {
+    const storage = storageFor('https://93.184.216.34/hooks');
+    requestMock = mockEndpoint(redirectTo('https://127.0.0.1:6379/'));
+
+    const delivered = await createWebhookService(storage).attemptDelivery(delivery.id, false);
+
+    expect(delivered).toBe(false);
+    expect(requestMock).toHaveBeenCalledTimes(1);
+    expect(lastUpdate(storage)).toMatchObject({ status: 'pending', error: expect.stringMatching(/private or loopback/) });
+  });
+
+  test('should follow redirects to public addresses', async () => {
+    const storage = storageFor('https://93.184.216.34/hooks');
+    requestMock = mockEndpoint(redirectTo('https://93.184.216.35/hooks'), endpointResponse(204));
+
+    const delivered = await createWebhookService(storage).attemptDelivery(delivery.id, false);
+
+    expect(delivered).toBe(true);
+    expect(requestedUrls(requestMock)).toEqual(['https://93.184.216.34/hooks', 'https://93.184.216.35/hooks']);
+    expect(lastUpdate(storage)).toMatchObject({ status: 'succeeded', responseStatus: 204 });
+  });
+
+  test('should connect each hop only to the address that was checked', async () => {
+    const storage = storageFor('https://93.184.216.34/hooks');
+    requestMock = mockEndpoint(redirectTo('https://93.184.216.35/hooks'), endpointResponse(204));
+
+    await createWebhookService(storage).attemptDelivery(delivery.id, false);
+
+    await expect(pinnedAddresses(requestMock, 0)).resolves.toEqual(['93.184.216.34']);
+    await expect(pinnedAddresses(requestMock, 1)).resolves.toEqual(['93.184.216.35']);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Route Tests for API Token Authentication
+ * Sends em_ tokens through authenticateUser on the real resume routes and
+ * checks scopes and IP allowlists are enforced and calls are attributed to
+ * the token for its activity log
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import type { ApiTokenScope } from '../../../shared/schema';
+
+interface TokenValidation {
+  userId: string;
+  tokenId: string;
+  canMakeRequest: boolean;
+  remainingCalls: number;
+  scopes: ApiTokenScope[];
+  allowedCidrs: string[] | null;
+  rateLimitPerMinute: number | null;
+}
+
+const validateToken = jest.fn<(token: string) => Promise<TokenValidation | null>>();
+const trackUsage = jest.fn<(userId: string, options: Record<string, unknown>) => Promise<void>>();
+
+jest.unstable_mockModule('@server/services/token-usage', () => ({
+  tokenUsageService: { validateToken, trackUsage }
+}));
+
+// Firebase verification must never be reached for an em_ token
+const verifyFirebaseToken = jest.fn();
+jest.unstable_mockModule('@server/auth/firebase-auth', () => ({
+  verifyFirebaseToken,
+  isFirebaseAuthAvailable: () => true
+}));
+
+// The real package loads native image bindings at import time
+jest.unstable_mockModule('@xenova/transformers', () => ({
+  pipeline: jest.fn(),
+  FeatureExtractionPipeline: class {}
+}));
+
+// Importing the real client opens a Redis connection
+jest.unstable_mockModule('@server/core/redis', () => ({
+  redis: { status: 'end', on: jest.fn(), get: jest.fn(), set: jest.fn() },
+  getRedisStatus: () => ({ status: 'end', connected: false })
+}));
+
+process.env.REDIS_ENABLED = 'false';
+
+const { default: resumeRoutes } = await import('../../../server/routes/resumes');
+
+const app = express();
+app.use(express.json());
+app.use('/api/resumes', resumeRoutes);
+
+const TOKEN = 'em_tok123_secretsecretsecret';
+
+const tokenWith = (overrides: Partial<TokenValidation> = {}): TokenValidation => ({
+  userId: 'integration-user',
+  tokenId: 'tok123',
+  canMakeRequest: true,
+  remainingCalls: 100,
+  scopes: ['resumes:read'],
+  allowedCidrs: null,
+  rateLimitPerMinute: null,
+  ...overrides
+});
+
+describe('API token authentication on resume routes', () => {
+  beforeEach(() => {
+    validateToken.mockReset();
+    trackUsage.mockReset();
+    trackUsage.mockResolvedValue(undefined);
+  });
+
+  test('a resumes:read token cannot upload resumes', async () => {
+    validateToken.mockResolvedValue(tokenWith());
+
+    const response = await request(app)
+      .post('/api/resumes')
+      .set('Authorization', `Bearer ${TOKEN}`)
+      .attach('file', Buffer.from('resume text'), 'resume.txt');
+
+    expect(validateToken).toHaveBeenCalledWith(TOKEN);
+    expect(response.status).toBe(403);
+    expect(response.body).toMatchObject({
+      code: 'INSUFFICIENT_TOKEN_SCOPE',
+      details: { requiredScope: 'resumes:write', grantedScopes: ['resumes:read'] }
+    });
+  });
+
+  test('a token is refused outside its IP allowlist', async () => {
+    validateToken.mockResolvedValue(tokenWith({ allowedCidrs: ['10.0.0.0/8'] }));
+
+    const response = await request(app)
+      .get('/api/resumes')
+      .set('Authorization', `Bearer ${TOKEN}`);
+
+    expect(response.status).toBe(403);
+    expect(response.body.code).toBe('TOKEN_IP_NOT_ALLOWED');
+  });
+
+  test('an unknown token is rejected rather than falling back to another auth mode', async () => {
+    validateToken.mockResolvedValue(null);
+
+    const response = await request(app)
+      .get('/api/resumes')
+      .set('Authorization', `Bearer ${TOKEN}`);
+
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('TOKEN_VALIDATION_FAILED');
+    expect(verifyFirebaseToken).not.toHaveBeenCalled();
+  });
+
+  test('a token over its per-minute limit is throttled', async () => {
+    validateToken.mockResolvedValue(tokenWith({ tokenId: 'tok-limited', rateLimitPerMinute: 1 }));
+
+    await request(app).get('/api/resumes').set('Authorization', `Bearer ${TOKEN}`);
+    const response = await request(app).get('/api/resumes').set('Authorization', `Bearer ${TOKEN}`);
+
+    expect(response.status).toBe(429);
+    expect(response.body.code).toBe('TOKEN_RATE_LIMITED');
+  });
+
+  test('records each call against the token that made it', async () => {
+    validateToken.mockResolvedValue(tokenWith({ tokenId: 'tok-tracked' }));
+
+    const response = await request(app)
+      .get('/api/resumes')
+      .set('Authorization', `Bearer ${TOKEN}`)
+      .set('User-Agent', 'ats-integration/1.0');
+
+    await new Promise(resolve => setImmediate(resolve));
+    expect(trackUsage).toHaveBeenCalledWith('integration-user', expect.objectContaining({
+      tokenId: 'tok-tracked',
+      method: 'GET',
+      statusCode: response.status,
+      userAgent: 'ats-integration/1.0'
+    }));
+  });
+});